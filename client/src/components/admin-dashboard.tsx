@@ -27,12 +27,20 @@ import {
   Zap,
   Target,
   BarChart3,
-  Home
+  Home,
+  ShieldAlert,
+  CalendarClock,
+  HardDrive
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLocation } from "wouter";
 import { ArrowLeft } from "lucide-react";
 import EnhancedStaffManagement from "@/components/enhanced-staff-management";
+import EmergencyReviewQueue from "@/components/emergency-review-queue";
+import DutyRoster from "@/components/duty-roster";
+import HospitalPermissions from "@/components/hospital-permissions";
+import StorageProviderSettings from "@/components/storage-provider-settings";
+import RetentionSettings from "@/components/retention-settings";
 
 // ZKP Analytics Component
 function ZKPAnalytics() {
@@ -151,10 +159,14 @@ function ZKPAnalytics() {
 const SIDEBAR_TABS = [
   { key: "overview", label: "Overview", icon: Home },
   { key: "violations", label: "Security Violations", icon: AlertTriangle },
+  { key: "reviews", label: "Emergency Reviews", icon: ShieldAlert },
   { key: "credentials", label: "VC Monitoring", icon: Shield },
   { key: "access", label: "Access Patterns", icon: Eye },
   { key: "activity", label: "Recent Activity", icon: Activity },
   { key: "staff", label: "Staff Management", icon: UserPlus },
+  { key: "roster", label: "Duty Roster", icon: CalendarClock },
+  { key: "permissions", label: "Permissions", icon: Key },
+  { key: "storage", label: "Storage", icon: HardDrive },
   { key: "zkp", label: "ZKP System", icon: BarChart3 },
 ];
 
@@ -463,6 +475,7 @@ export default function AdminDashboard() {
             </Card>
           </div>
         )}
+        {activeTab === "reviews" && <EmergencyReviewQueue />}
         {activeTab === "credentials" && (
           <div className="space-y-6">
               <Card>
@@ -686,6 +699,14 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
         )}
+        {activeTab === "roster" && <DutyRoster />}
+        {activeTab === "permissions" && <HospitalPermissions />}
+        {activeTab === "storage" && (
+          <div className="space-y-6">
+            <StorageProviderSettings />
+            <RetentionSettings />
+          </div>
+        )}
         {activeTab === "zkp" && (
           <Card>
             <CardHeader>
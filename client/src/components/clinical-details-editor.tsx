@@ -0,0 +1,311 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_SEVERITY_LABELS,
+  MEDICATION_ROUTES,
+  MEDICATION_ROUTE_LABELS,
+  type AllergySeverity,
+  type ClinicalDetailsInput,
+  type MedicationRoute,
+} from "@shared/clinical";
+
+// Form state keeps every field as typed text; toClinicalDetails converts it for submission
+type AllergyDraft = { substance: string; reaction: string; severity: AllergySeverity; status: "active" | "resolved" };
+type MedicationDraft = { name: string; dose: string; route: MedicationRoute | ""; frequency: string };
+type VitalsDraft = Record<"systolic" | "diastolic" | "heartRate" | "respiratoryRate" | "temperatureC" | "oxygenSaturation" | "weightKg" | "heightCm", string>;
+type LabDraft = { testName: string; value: string; unit: string; referenceLow: string; referenceHigh: string; critical: boolean };
+type ImmunizationDraft = { vaccine: string; doseNumber: string; lotNumber: string; administeredDate: string; site: string };
+
+export interface ClinicalDetailsDraft {
+  allergies: AllergyDraft[];
+  medications: MedicationDraft[];
+  vitals: VitalsDraft;
+  labResults: LabDraft[];
+  immunizations: ImmunizationDraft[];
+}
+
+export const EMPTY_CLINICAL_DRAFT: ClinicalDetailsDraft = {
+  allergies: [],
+  medications: [],
+  vitals: { systolic: "", diastolic: "", heartRate: "", respiratoryRate: "", temperatureC: "", oxygenSaturation: "", weightKg: "", heightCm: "" },
+  labResults: [],
+  immunizations: [],
+};
+
+const VITAL_FIELDS: Array<{ key: keyof VitalsDraft; label: string; step?: string }> = [
+  { key: "systolic", label: "Systolic BP (mmHg)" },
+  { key: "diastolic", label: "Diastolic BP (mmHg)" },
+  { key: "heartRate", label: "Heart rate (bpm)" },
+  { key: "respiratoryRate", label: "Respiratory rate (/min)" },
+  { key: "temperatureC", label: "Temperature (°C)", step: "0.1" },
+  { key: "oxygenSaturation", label: "SpO₂ (%)" },
+  { key: "weightKg", label: "Weight (kg)", step: "0.1" },
+  { key: "heightCm", label: "Height (cm)", step: "0.1" },
+];
+
+const optional = (value: string) => value.trim() || undefined;
+const optionalNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+/**
+ * Structured details ready for the submit endpoints, or undefined when nothing was entered
+ */
+export function toClinicalDetails(draft: ClinicalDetailsDraft): ClinicalDetailsInput | undefined {
+  const vitals = Object.fromEntries(
+    Object.entries(draft.vitals).filter(([, value]) => value.trim() !== "").map(([key, value]) => [key, Number(value)])
+  );
+
+  const details: ClinicalDetailsInput = {
+    allergies: draft.allergies
+      .filter(a => a.substance.trim())
+      .map(a => ({ substance: a.substance, reaction: optional(a.reaction), severity: a.severity, status: a.status })),
+    medications: draft.medications
+      .filter(m => m.name.trim())
+      .map(m => ({ name: m.name, dose: optional(m.dose), route: m.route || undefined, frequency: optional(m.frequency) })),
+    vitals: Object.keys(vitals).length ? [vitals] : [],
+    labResults: draft.labResults
+      .filter(l => l.testName.trim())
+      .map(l => ({
+        testName: l.testName,
+        value: l.value,
+        unit: optional(l.unit),
+        referenceLow: optionalNumber(l.referenceLow),
+        referenceHigh: optionalNumber(l.referenceHigh),
+        critical: l.critical || undefined,
+      })),
+    immunizations: draft.immunizations
+      .filter(i => i.vaccine.trim())
+      .map(i => ({
+        vaccine: i.vaccine,
+        doseNumber: optionalNumber(i.doseNumber),
+        lotNumber: optional(i.lotNumber),
+        administeredDate: i.administeredDate,
+        site: optional(i.site),
+      })),
+  };
+
+  return Object.values(details).some(list => list && list.length > 0) ? details : undefined;
+}
+
+interface ClinicalDetailsEditorProps {
+  value: ClinicalDetailsDraft;
+  onChange: (value: ClinicalDetailsDraft) => void;
+}
+
+/**
+ * Optional structured sub-records for the visit, entered alongside the free-text fields
+ */
+export default function ClinicalDetailsEditor({ value, onChange }: ClinicalDetailsEditorProps) {
+  const update = <K extends keyof ClinicalDetailsDraft>(key: K, next: ClinicalDetailsDraft[K]) => onChange({ ...value, [key]: next });
+
+  const updateRow = <K extends "allergies" | "medications" | "labResults" | "immunizations">(
+    key: K,
+    index: number,
+    patch: Partial<ClinicalDetailsDraft[K][number]>
+  ) => update(key, value[key].map((row, i) => (i === index ? { ...row, ...patch } : row)) as ClinicalDetailsDraft[K]);
+
+  const removeRow = (key: "allergies" | "medications" | "labResults" | "immunizations", index: number) =>
+    update(key, value[key].filter((_, i) => i !== index) as any);
+
+  const countBadge = (count: number) => count > 0 && <Badge variant="secondary" className="ml-2">{count}</Badge>;
+  const vitalsCount = Object.values(value.vitals).filter(v => v.trim() !== "").length;
+
+  const removeButton = (key: "allergies" | "medications" | "labResults" | "immunizations", index: number) => (
+    <Button type="button" variant="ghost" size="sm" onClick={() => removeRow(key, index)} aria-label="Remove">
+      <Trash2 className="h-4 w-4 text-red-500" />
+    </Button>
+  );
+
+  return (
+    <div className="border rounded-lg px-3 sm:px-4">
+      <Accordion type="multiple">
+        <AccordionItem value="allergies">
+          <AccordionTrigger className="text-sm">
+            <span>Allergies{countBadge(value.allergies.length)}</span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {value.allergies.map((allergy, index) => (
+              <div key={index} className="grid grid-cols-1 sm:grid-cols-[2fr_2fr_1.5fr_1fr_auto] gap-2 items-end">
+                <div>
+                  <Label className="text-xs">Substance *</Label>
+                  <Input value={allergy.substance} onChange={(e) => updateRow("allergies", index, { substance: e.target.value })} placeholder="e.g. Penicillin" />
+                </div>
+                <div>
+                  <Label className="text-xs">Reaction</Label>
+                  <Input value={allergy.reaction} onChange={(e) => updateRow("allergies", index, { reaction: e.target.value })} placeholder="e.g. Rash, anaphylaxis" />
+                </div>
+                <div>
+                  <Label className="text-xs">Severity</Label>
+                  <Select value={allergy.severity} onValueChange={(severity) => updateRow("allergies", index, { severity: severity as AllergySeverity })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {ALLERGY_SEVERITIES.map(severity => (
+                        <SelectItem key={severity} value={severity}>{ALLERGY_SEVERITY_LABELS[severity]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Status</Label>
+                  <Select value={allergy.status} onValueChange={(status) => updateRow("allergies", index, { status: status as AllergyDraft["status"] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="resolved">Resolved</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {removeButton("allergies", index)}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => update("allergies", [...value.allergies, { substance: "", reaction: "", severity: "moderate", status: "active" }])}>
+              <Plus className="h-4 w-4 mr-1" /> Add allergy
+            </Button>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="medications">
+          <AccordionTrigger className="text-sm">
+            <span>Medications{countBadge(value.medications.length)}</span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {value.medications.map((medication, index) => (
+              <div key={index} className="grid grid-cols-1 sm:grid-cols-[2fr_1fr_1.5fr_1.5fr_auto] gap-2 items-end">
+                <div>
+                  <Label className="text-xs">Medication *</Label>
+                  <Input value={medication.name} onChange={(e) => updateRow("medications", index, { name: e.target.value })} placeholder="e.g. Amoxicillin" />
+                </div>
+                <div>
+                  <Label className="text-xs">Dose</Label>
+                  <Input value={medication.dose} onChange={(e) => updateRow("medications", index, { dose: e.target.value })} placeholder="500 mg" />
+                </div>
+                <div>
+                  <Label className="text-xs">Route</Label>
+                  <Select value={medication.route} onValueChange={(route) => updateRow("medications", index, { route: route as MedicationRoute })}>
+                    <SelectTrigger><SelectValue placeholder="Select route" /></SelectTrigger>
+                    <SelectContent>
+                      {MEDICATION_ROUTES.map(route => (
+                        <SelectItem key={route} value={route}>{MEDICATION_ROUTE_LABELS[route]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Frequency</Label>
+                  <Input value={medication.frequency} onChange={(e) => updateRow("medications", index, { frequency: e.target.value })} placeholder="Every 8 hours" />
+                </div>
+                {removeButton("medications", index)}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => update("medications", [...value.medications, { name: "", dose: "", route: "", frequency: "" }])}>
+              <Plus className="h-4 w-4 mr-1" /> Add medication
+            </Button>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="vitals">
+          <AccordionTrigger className="text-sm">
+            <span>Vital signs{countBadge(vitalsCount)}</span>
+          </AccordionTrigger>
+          <AccordionContent>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {VITAL_FIELDS.map(({ key, label, step }) => (
+                <div key={key}>
+                  <Label className="text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    step={step || "1"}
+                    value={value.vitals[key]}
+                    onChange={(e) => update("vitals", { ...value.vitals, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="labs">
+          <AccordionTrigger className="text-sm">
+            <span>Lab results{countBadge(value.labResults.length)}</span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {value.labResults.map((lab, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-[2fr_1fr_1fr_1fr_1fr_auto_auto] gap-2 items-end">
+                <div className="col-span-2 sm:col-span-1">
+                  <Label className="text-xs">Test *</Label>
+                  <Input value={lab.testName} onChange={(e) => updateRow("labResults", index, { testName: e.target.value })} placeholder="e.g. Haemoglobin" />
+                </div>
+                <div>
+                  <Label className="text-xs">Value *</Label>
+                  <Input value={lab.value} onChange={(e) => updateRow("labResults", index, { value: e.target.value })} placeholder="11.2" />
+                </div>
+                <div>
+                  <Label className="text-xs">Unit</Label>
+                  <Input value={lab.unit} onChange={(e) => updateRow("labResults", index, { unit: e.target.value })} placeholder="g/dL" />
+                </div>
+                <div>
+                  <Label className="text-xs">Ref. low</Label>
+                  <Input type="number" step="any" value={lab.referenceLow} onChange={(e) => updateRow("labResults", index, { referenceLow: e.target.value })} />
+                </div>
+                <div>
+                  <Label className="text-xs">Ref. high</Label>
+                  <Input type="number" step="any" value={lab.referenceHigh} onChange={(e) => updateRow("labResults", index, { referenceHigh: e.target.value })} />
+                </div>
+                <div className="flex items-center space-x-1 pb-2">
+                  <Checkbox id={`lab-critical-${index}`} checked={lab.critical} onCheckedChange={(checked) => updateRow("labResults", index, { critical: checked === true })} />
+                  <Label htmlFor={`lab-critical-${index}`} className="text-xs">Critical</Label>
+                </div>
+                {removeButton("labResults", index)}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => update("labResults", [...value.labResults, { testName: "", value: "", unit: "", referenceLow: "", referenceHigh: "", critical: false }])}>
+              <Plus className="h-4 w-4 mr-1" /> Add lab result
+            </Button>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="immunizations" className="border-b-0">
+          <AccordionTrigger className="text-sm">
+            <span>Immunizations{countBadge(value.immunizations.length)}</span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {value.immunizations.map((immunization, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-[2fr_0.8fr_1.2fr_1.5fr_1fr_auto] gap-2 items-end">
+                <div className="col-span-2 sm:col-span-1">
+                  <Label className="text-xs">Vaccine *</Label>
+                  <Input value={immunization.vaccine} onChange={(e) => updateRow("immunizations", index, { vaccine: e.target.value })} placeholder="e.g. Tetanus toxoid" />
+                </div>
+                <div>
+                  <Label className="text-xs">Dose #</Label>
+                  <Input type="number" min="1" value={immunization.doseNumber} onChange={(e) => updateRow("immunizations", index, { doseNumber: e.target.value })} />
+                </div>
+                <div>
+                  <Label className="text-xs">Lot number</Label>
+                  <Input value={immunization.lotNumber} onChange={(e) => updateRow("immunizations", index, { lotNumber: e.target.value })} />
+                </div>
+                <div>
+                  <Label className="text-xs">Date given *</Label>
+                  <Input type="date" value={immunization.administeredDate} onChange={(e) => updateRow("immunizations", index, { administeredDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label className="text-xs">Site</Label>
+                  <Input value={immunization.site} onChange={(e) => updateRow("immunizations", index, { site: e.target.value })} placeholder="Left deltoid" />
+                </div>
+                {removeButton("immunizations", index)}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => update("immunizations", [...value.immunizations, { vaccine: "", doseNumber: "", lotNumber: "", administeredDate: "", site: "" }])}>
+              <Plus className="h-4 w-4 mr-1" /> Add immunization
+            </Button>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { Badge } from "@/components/ui/badge";
+import type { RecordClinicalDetails } from "@shared/schema";
+import {
+  ALLERGY_SEVERITY_LABELS,
+  MEDICATION_ROUTE_LABELS,
+  type AllergySeverity,
+  type MedicationRoute,
+} from "@shared/clinical";
+
+const SEVERITY_STYLES: Record<AllergySeverity, string> = {
+  mild: "bg-yellow-50 text-yellow-800",
+  moderate: "bg-orange-100 text-orange-800",
+  severe: "bg-red-100 text-red-800",
+  life_threatening: "bg-red-600 text-white",
+};
+
+const INTERPRETATION_STYLES: Record<string, string> = {
+  normal: "bg-green-100 text-green-800",
+  low: "bg-blue-100 text-blue-800",
+  high: "bg-orange-100 text-orange-800",
+  critical: "bg-red-600 text-white",
+};
+
+export function AllergySeverityBadge({ severity }: { severity: string }) {
+  return (
+    <Badge className={`text-xs ${SEVERITY_STYLES[severity as AllergySeverity] || ""}`}>
+      {ALLERGY_SEVERITY_LABELS[severity as AllergySeverity] || severity}
+    </Badge>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h6 className="text-xs sm:text-sm font-medium text-slate-700 mb-1">{title}</h6>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Structured sub-records of a visit: allergies, medications, vitals, labs and immunizations
+ */
+export default function ClinicalDetailsView({ clinical }: { clinical?: RecordClinicalDetails }) {
+  if (!clinical || Object.values(clinical).every(list => list.length === 0)) {
+    return null;
+  }
+
+  const { allergies, medications, vitals, labResults, immunizations } = clinical;
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      {allergies.length > 0 && (
+        <Section title="Allergies">
+          <ul className="space-y-1">
+            {allergies.map(allergy => (
+              <li key={allergy.id} className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-slate-600">
+                <span className="font-medium text-slate-800">{allergy.substance}</span>
+                {allergy.reaction && <span>— {allergy.reaction}</span>}
+                <AllergySeverityBadge severity={allergy.severity} />
+                {allergy.status === "resolved" && <Badge variant="outline" className="text-xs">Resolved</Badge>}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {medications.length > 0 && (
+        <Section title="Medications">
+          <ul className="space-y-1">
+            {medications.map(medication => (
+              <li key={medication.id} className="text-xs sm:text-sm text-slate-600">
+                <span className="font-medium text-slate-800">{medication.name}</span>
+                {[
+                  medication.dose,
+                  medication.route && (MEDICATION_ROUTE_LABELS[medication.route as MedicationRoute] || medication.route),
+                  medication.frequency,
+                ].filter(Boolean).map(part => ` · ${part}`).join("")}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {vitals.length > 0 && (
+        <Section title="Vital Signs">
+          {vitals.map(v => (
+            <div key={v.id} className="flex flex-wrap gap-x-4 gap-y-1 text-xs sm:text-sm text-slate-600">
+              {v.systolic != null && v.diastolic != null && <span>BP {v.systolic}/{v.diastolic} mmHg</span>}
+              {v.heartRate != null && <span>HR {v.heartRate} bpm</span>}
+              {v.respiratoryRate != null && <span>RR {v.respiratoryRate}/min</span>}
+              {v.temperatureC != null && <span>Temp {v.temperatureC} °C</span>}
+              {v.oxygenSaturation != null && <span>SpO₂ {v.oxygenSaturation}%</span>}
+              {v.weightKg != null && <span>Weight {v.weightKg} kg</span>}
+              {v.heightCm != null && <span>Height {v.heightCm} cm</span>}
+            </div>
+          ))}
+        </Section>
+      )}
+
+      {labResults.length > 0 && (
+        <Section title="Lab Results">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm text-slate-600">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="font-normal pr-3">Test</th>
+                  <th className="font-normal pr-3">Result</th>
+                  <th className="font-normal pr-3">Reference</th>
+                  <th className="font-normal"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {labResults.map(lab => (
+                  <tr key={lab.id}>
+                    <td className="pr-3 font-medium text-slate-800">{lab.testName}</td>
+                    <td className="pr-3">{lab.value}{lab.unit ? ` ${lab.unit}` : ""}</td>
+                    <td className="pr-3">
+                      {lab.referenceText ||
+                        (lab.referenceLow != null || lab.referenceHigh != null
+                          ? `${lab.referenceLow ?? ""}–${lab.referenceHigh ?? ""}${lab.unit ? ` ${lab.unit}` : ""}`
+                          : "—")}
+                    </td>
+                    <td>
+                      {lab.interpretation && (
+                        <Badge className={`text-xs capitalize ${INTERPRETATION_STYLES[lab.interpretation] || ""}`}>{lab.interpretation}</Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Section>
+      )}
+
+      {immunizations.length > 0 && (
+        <Section title="Immunizations">
+          <ul className="space-y-1">
+            {immunizations.map(immunization => (
+              <li key={immunization.id} className="text-xs sm:text-sm text-slate-600">
+                <span className="font-medium text-slate-800">{immunization.vaccine}</span>
+                {immunization.doseNumber != null && ` · dose ${immunization.doseNumber}`}
+                {` · ${immunization.administeredDate}`}
+                {immunization.lotNumber && ` · lot ${immunization.lotNumber}`}
+                {immunization.site && ` · ${immunization.site}`}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+    </div>
+  );
+}
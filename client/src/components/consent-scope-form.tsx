@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Mirrors consentScopeSchema in server/consent-grant-service.ts
+export interface ConsentScope {
+  recordIds?: number[];
+  recordTypes?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  durationHours: number;
+}
+
+interface ScopeRecord {
+  id: number;
+  visitDate: string;
+  visitType?: string | null;
+  diagnosis: string;
+}
+
+type ScopeMode = 'all' | 'records' | 'types' | 'dates';
+
+const DURATIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 12, label: "12 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "1 week" },
+  { hours: 24 * 30, label: "30 days" },
+  { hours: 24 * 90, label: "90 days" },
+];
+
+interface ConsentScopeFormProps {
+  records: ScopeRecord[];
+  isPending?: boolean;
+  onSubmit: (scope: ConsentScope) => void;
+  onCancel: () => void;
+}
+
+export default function ConsentScopeForm({ records, isPending, onSubmit, onCancel }: ConsentScopeFormProps) {
+  const [mode, setMode] = useState<ScopeMode>('all');
+  const [durationHours, setDurationHours] = useState(12);
+  const [recordIds, setRecordIds] = useState<number[]>([]);
+  const [recordTypes, setRecordTypes] = useState<string[]>([]);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+
+  const visitTypes = Array.from(new Set(records.map(r => r.visitType).filter((t): t is string => !!t)));
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const isValid =
+    mode === 'all' ||
+    (mode === 'records' && recordIds.length > 0) ||
+    (mode === 'types' && recordTypes.length > 0) ||
+    (mode === 'dates' && (!!dateFrom || !!dateTo) && (!dateFrom || !dateTo || dateFrom <= dateTo));
+
+  const handleSubmit = () => {
+    const scope: ConsentScope = { durationHours };
+    if (mode === 'records') scope.recordIds = recordIds;
+    if (mode === 'types') scope.recordTypes = recordTypes;
+    if (mode === 'dates') {
+      if (dateFrom) scope.dateFrom = dateFrom;
+      if (dateTo) scope.dateTo = dateTo;
+    }
+    onSubmit(scope);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-green-200 bg-white p-4">
+      <div>
+        <Label className="text-sm font-medium">What can this hospital see?</Label>
+        <RadioGroup value={mode} onValueChange={(v) => setMode(v as ScopeMode)} className="mt-2 space-y-1">
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="all" id="scope-all" />
+            <Label htmlFor="scope-all" className="font-normal">All my records</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="records" id="scope-records" disabled={records.length === 0} />
+            <Label htmlFor="scope-records" className="font-normal">Only selected records</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="types" id="scope-types" disabled={visitTypes.length === 0} />
+            <Label htmlFor="scope-types" className="font-normal">Only certain visit types</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="dates" id="scope-dates" />
+            <Label htmlFor="scope-dates" className="font-normal">Only visits in a date range</Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      {mode === 'records' && (
+        <div className="max-h-48 space-y-2 overflow-y-auto">
+          {records.map(record => (
+            <div key={record.id} className="flex items-start space-x-2">
+              <Checkbox
+                id={`scope-record-${record.id}`}
+                checked={recordIds.includes(record.id)}
+                onCheckedChange={() => setRecordIds(ids => toggle(ids, record.id))}
+              />
+              <Label htmlFor={`scope-record-${record.id}`} className="font-normal text-sm">
+                {record.visitDate} · {record.visitType || "Visit"} · {record.diagnosis}
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === 'types' && (
+        <div className="space-y-2">
+          {visitTypes.map(type => (
+            <div key={type} className="flex items-center space-x-2">
+              <Checkbox
+                id={`scope-type-${type}`}
+                checked={recordTypes.includes(type)}
+                onCheckedChange={() => setRecordTypes(types => toggle(types, type))}
+              />
+              <Label htmlFor={`scope-type-${type}`} className="font-normal text-sm">{type}</Label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === 'dates' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="scope-date-from" className="text-xs">From</Label>
+            <Input id="scope-date-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="scope-date-to" className="text-xs">To</Label>
+            <Input id="scope-date-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label className="text-sm font-medium">For how long?</Label>
+        <Select value={String(durationHours)} onValueChange={(v) => setDurationHours(Number(v))}>
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURATIONS.map(d => (
+              <SelectItem key={d.hours} value={String(d.hours)}>{d.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button
+          size="sm"
+          className="bg-green-600 hover:bg-green-700"
+          onClick={handleSubmit}
+          disabled={!isValid || isPending}
+        >
+          {isPending ? 'Approving...' : 'Grant Access'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One-line summary of a stored grant's scope for consent lists
+ */
+export function describeConsentScope(grant: { recordIds?: number[] | null; recordTypes?: string[] | null; dateFrom?: string | null; dateTo?: string | null }): string {
+  const parts: string[] = [];
+  if (grant.recordIds?.length) parts.push(`${grant.recordIds.length} selected record(s)`);
+  if (grant.recordTypes?.length) parts.push(grant.recordTypes.join(", "));
+  if (grant.dateFrom || grant.dateTo) parts.push(`visits ${grant.dateFrom || "…"} to ${grant.dateTo || "…"}`);
+  return parts.length > 0 ? parts.join(" · ") : "All records";
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle, MessageSquareWarning, XCircle } from "lucide-react";
+import type { RecordCorrectionRequest } from "@shared/schema";
+
+type RequestStatus = "pending" | "accepted" | "rejected";
+
+const STATUS_BADGE: Record<RequestStatus, "default" | "secondary" | "destructive"> = {
+  pending: "default",
+  accepted: "secondary",
+  rejected: "destructive",
+};
+
+interface QueueEntry {
+  request: RecordCorrectionRequest;
+  patientName: string | null;
+  record: {
+    id: number;
+    visitDate: string;
+    visitType: string | null;
+    diagnosis: string;
+    prescription: string | null;
+    physician: string | null;
+    department: string | null;
+    currentVersion: number;
+  } | null;
+}
+
+type Draft = { visitDate: string; visitType: string; diagnosis: string; prescription: string; physician: string; department: string };
+
+function draftOf(record: NonNullable<QueueEntry["record"]>): Draft {
+  return {
+    visitDate: record.visitDate,
+    visitType: record.visitType || "",
+    diagnosis: record.diagnosis,
+    prescription: record.prescription || "",
+    physician: record.physician || "",
+    department: record.department || "",
+  };
+}
+
+/**
+ * Patient correction requests against this hospital's records
+ */
+export default function CorrectionRequestQueue() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [statusFilter, setStatusFilter] = useState<RequestStatus>("pending");
+  const [selected, setSelected] = useState<QueueEntry | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data, isLoading, refetch } = useQuery<{ requests: QueueEntry[] }>({
+    queryKey: ["/api/correction-requests", statusFilter],
+    queryFn: async () => apiRequest("GET", `/api/correction-requests?status=${statusFilter}`).then(res => res.json()),
+    refetchInterval: 60000,
+  });
+
+  const select = (entry: QueueEntry) => {
+    setSelected(entry);
+    setDraft(entry.record ? draftOf(entry.record) : null);
+    setNote("");
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, outcome }: { id: number; outcome: "accept" | "reject" }) => {
+      let body: Record<string, string>;
+      if (outcome === "accept") {
+        // Only send what changed so the amendment records exactly that
+        const initial = draftOf(selected!.record!);
+        const changes = Object.fromEntries(
+          Object.entries(draft!).filter(([field, value]) => value !== initial[field as keyof Draft])
+        );
+        body = { ...changes, ...(note.trim() ? { note } : {}) };
+      } else {
+        body = { reason: note };
+      }
+      const response = await apiRequestWithCsrf("POST", `/api/correction-requests/${id}/${outcome}`, body);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resolve correction request");
+      }
+      return data;
+    },
+    onSuccess: (data: { request: RecordCorrectionRequest; version?: number; patientNotified: string[] }) => {
+      toast({
+        title: data.request.status === "accepted" ? `Record Corrected (v${data.version})` : "Request Rejected",
+        description: data.patientNotified.length > 0
+          ? `The patient was notified by ${data.patientNotified.join(" and ")}.`
+          : "The patient has no phone or email on file and was not notified.",
+      });
+      setSelected(null);
+      setNote("");
+      refetch();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Resolution Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const requests = data?.requests || [];
+  const request = selected?.request;
+  const record = selected?.record;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <MessageSquareWarning className="h-5 w-5 text-amber-600" />
+            <span>Correction Requests</span>
+          </CardTitle>
+          <CardDescription>
+            Patients who believe one of your records is wrong. Accepting saves a new version of the record; rejecting leaves it unchanged.
+          </CardDescription>
+          <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-lg w-fit">
+            {(["pending", "accepted", "rejected"] as RequestStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => { setStatusFilter(status); setSelected(null); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium capitalize transition-all duration-200 ease-in-out ${
+                  statusFilter === status
+                    ? "bg-white text-slate-900 shadow-sm ring-1 ring-slate-200"
+                    : "text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)}
+            </div>
+          )}
+          {!isLoading && requests.length === 0 && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>No {statusFilter} correction requests.</AlertDescription>
+            </Alert>
+          )}
+          {!isLoading && requests.length > 0 && (
+            <div className="space-y-3">
+              {requests.map((entry) => (
+                <button
+                  key={entry.request.id}
+                  onClick={() => select(entry)}
+                  className={`w-full text-left border rounded-lg p-4 transition-colors ${
+                    request?.id === entry.request.id ? "border-amber-300 bg-amber-50/50" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={STATUS_BADGE[entry.request.status as RequestStatus]}>{entry.request.status.toUpperCase()}</Badge>
+                      <span className="font-medium">REC-{entry.request.recordId}</span>
+                      <span className="text-sm text-slate-600">{entry.patientName || "Unknown patient"}</span>
+                      {entry.record && <span className="text-sm text-slate-500">· visit {entry.record.visitDate}</span>}
+                    </div>
+                    <span className="text-sm text-slate-600">
+                      {entry.request.createdAt ? new Date(entry.request.createdAt).toLocaleString() : ""} · via {entry.request.channel.toUpperCase()}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-slate-700 line-clamp-2">{entry.request.description}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && request && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Request #{request.id} · REC-{request.recordId}</CardTitle>
+            <CardDescription>{selected.patientName || "Unknown patient"} reports:</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-slate-700 bg-slate-50 rounded-lg p-3 whitespace-pre-wrap">{request.description}</p>
+
+            {request.status !== "pending" ? (
+              <div className="text-sm text-slate-700 bg-slate-50 rounded-lg p-3">
+                <p>
+                  {request.status === "accepted" ? `Accepted as version ${request.amendmentVersion}` : "Rejected"}{" "}
+                  {request.reviewedAt ? new Date(request.reviewedAt).toLocaleString() : ""} ·{" "}
+                  {request.patientNotifiedAt ? "patient notified" : "patient not notified"}
+                </p>
+                {request.resolutionNote && <p className="mt-1">{request.resolutionNote}</p>}
+              </div>
+            ) : !record || !draft ? (
+              <Alert variant="destructive">
+                <AlertDescription>The disputed record could not be loaded.</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="space-y-3">
+                <h4 className="font-medium text-slate-900">Corrected record <span className="text-sm font-normal text-slate-500">(currently v{record.currentVersion})</span></h4>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="correction-visit-date">Visit date</Label>
+                    <Input id="correction-visit-date" type="date" value={draft.visitDate} onChange={(e) => setDraft({ ...draft, visitDate: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="correction-visit-type">Visit type</Label>
+                    <Input id="correction-visit-type" value={draft.visitType} onChange={(e) => setDraft({ ...draft, visitType: e.target.value })} />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="correction-diagnosis">Diagnosis</Label>
+                  <Textarea id="correction-diagnosis" value={draft.diagnosis} onChange={(e) => setDraft({ ...draft, diagnosis: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="correction-prescription">Prescription & Treatment</Label>
+                  <Textarea id="correction-prescription" value={draft.prescription} onChange={(e) => setDraft({ ...draft, prescription: e.target.value })} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="correction-physician">Physician</Label>
+                    <Input id="correction-physician" value={draft.physician} onChange={(e) => setDraft({ ...draft, physician: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="correction-department">Department</Label>
+                    <Input id="correction-department" value={draft.department} onChange={(e) => setDraft({ ...draft, department: e.target.value })} />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="correction-note">Response to the patient</Label>
+                  <Textarea
+                    id="correction-note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Required when rejecting; optional when accepting"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    variant="outline"
+                    className="border-red-200 text-red-700 hover:bg-red-50"
+                    onClick={() => resolveMutation.mutate({ id: request.id, outcome: "reject" })}
+                    disabled={note.trim().length < 5 || resolveMutation.isPending}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                  <Button
+                    className="bg-green-600 hover:bg-green-700"
+                    onClick={() => resolveMutation.mutate({ id: request.id, outcome: "accept" })}
+                    disabled={!draft.diagnosis.trim() || resolveMutation.isPending}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Accept & Amend
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
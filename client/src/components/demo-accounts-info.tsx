@@ -16,7 +16,7 @@ export default function DemoAccountsInfo() {
           <div className="bg-blue-50 rounded-lg p-4">
             <div className="flex items-center space-x-2 mb-2">
               <Stethoscope className="h-4 w-4 text-blue-600" />
-              <Badge variant="secondary" className="bg-blue-100 text-blue-800">Hospital A</Badge>
+              <Badge variant="secondary" className="bg-blue-100 text-blue-800">Record Submitter</Badge>
             </div>
             <div className="text-sm space-y-1">
               <p><strong>Username:</strong> demo-hospital-a</p>
@@ -28,7 +28,7 @@ export default function DemoAccountsInfo() {
           <div className="bg-green-50 rounded-lg p-4">
             <div className="flex items-center space-x-2 mb-2">
               <Building2 className="h-4 w-4 text-green-600" />
-              <Badge variant="secondary" className="bg-green-100 text-green-800">Hospital B</Badge>
+              <Badge variant="secondary" className="bg-green-100 text-green-800">Record Accessor</Badge>
             </div>
             <div className="text-sm space-y-1">
               <p><strong>Username:</strong> demo-hospital-b</p>
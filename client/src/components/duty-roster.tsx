@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarClock, Plus, Trash2, UserCheck, MessageSquare } from "lucide-react";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function isoDate(offsetDays = 0) {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Shift templates, staff assignments and handover notes for the admin dashboard.
+ * On-duty status for emergency authorization follows this roster once a template exists.
+ */
+export default function DutyRoster() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+
+  const [template, setTemplate] = useState({ department: "", name: "", startTime: "07:00", endTime: "19:00", daysOfWeek: [1, 2, 3, 4, 5] as number[] });
+  const [assignment, setAssignment] = useState({ templateId: "", staffId: "", fromDate: isoDate(), toDate: isoDate(6) });
+  const [handoverFor, setHandoverFor] = useState<number | null>(null);
+  const [handoverNotes, setHandoverNotes] = useState("");
+
+  const { data: templatesData, refetch: refetchTemplates } = useQuery<any>({
+    queryKey: ["/api/roster/templates"],
+    queryFn: async () => apiRequest("GET", "/api/roster/templates").then(res => res.json()),
+  });
+
+  const { data: rosterData, isLoading: rosterLoading, refetch: refetchRoster } = useQuery<any>({
+    queryKey: ["/api/roster/assignments"],
+    queryFn: async () => apiRequest("GET", "/api/roster/assignments").then(res => res.json()),
+  });
+
+  const { data: onDutyData, refetch: refetchOnDuty } = useQuery<any>({
+    queryKey: ["/api/roster/on-duty"],
+    queryFn: async () => apiRequest("GET", "/api/roster/on-duty").then(res => res.json()),
+    refetchInterval: 60000,
+  });
+
+  const { data: staffData } = useQuery<any>({
+    queryKey: ["/api/staff/list"],
+    queryFn: async () => apiRequest("GET", "/api/staff/list").then(res => res.json()),
+  });
+
+  const refreshAll = () => {
+    refetchTemplates();
+    refetchRoster();
+    refetchOnDuty();
+  };
+
+  const submit = async (method: string, url: string, body?: unknown) => {
+    const response = await apiRequestWithCsrf(method, url, body);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Request failed");
+    return data;
+  };
+
+  const onError = (error: Error) => toast({ title: "Roster Update Failed", description: error.message, variant: "destructive" });
+
+  const createTemplateMutation = useMutation({
+    mutationFn: () => submit("POST", "/api/roster/templates", template),
+    onSuccess: () => {
+      toast({ title: "Shift Created" });
+      setTemplate({ ...template, name: "" });
+      refreshAll();
+    },
+    onError,
+  });
+
+  const toggleTemplateMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: number; isActive: boolean }) => submit("PATCH", `/api/roster/templates/${id}`, { isActive }),
+    onSuccess: refreshAll,
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: () => submit("POST", "/api/roster/assignments", { ...assignment, templateId: parseInt(assignment.templateId, 10) }),
+    onSuccess: (data) => {
+      toast({ title: "Staff Assigned", description: `${data.assignments.length} shift(s) added to the roster.` });
+      refreshAll();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => submit("DELETE", `/api/roster/assignments/${id}`),
+    onSuccess: refreshAll,
+    onError,
+  });
+
+  const handoverMutation = useMutation({
+    mutationFn: (id: number) => submit("POST", `/api/roster/assignments/${id}/handover`, { notes: handoverNotes }),
+    onSuccess: () => {
+      toast({ title: "Handover Saved" });
+      setHandoverFor(null);
+      setHandoverNotes("");
+      refetchRoster();
+    },
+    onError,
+  });
+
+  const templates: any[] = templatesData?.templates || [];
+  const activeTemplates = templates.filter(t => t.isActive);
+  const assignments: any[] = rosterData?.assignments || [];
+  const onDuty: any[] = onDutyData?.staff || [];
+  const staff: any[] = staffData?.staff || [];
+
+  const toggleDay = (day: number) => setTemplate({
+    ...template,
+    daysOfWeek: template.daysOfWeek.includes(day) ? template.daysOfWeek.filter(d => d !== day) : [...template.daysOfWeek, day],
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <UserCheck className="h-5 w-5 text-green-600" />
+            <span>On Duty Now</span>
+          </CardTitle>
+          <CardDescription>
+            {templates.length > 0
+              ? "Derived from the roster in the hospital's local time"
+              : "No shifts defined yet; on-duty status still follows the manual staff profile toggle"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {onDuty.length === 0 ? (
+            <p className="text-sm text-slate-500">Nobody is on duty at the moment.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {onDuty.map(member => (
+                <Badge key={member.staffId} variant="outline" className="text-green-700 border-green-300">
+                  {member.name} · {member.currentShift ? `${member.currentShift.templateName} (${member.currentShift.department})` : "manual"}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5 text-blue-600" />
+            <span>Shift Templates</span>
+          </CardTitle>
+          <CardDescription>Recurring shifts per department; an end time before the start runs overnight</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor="shift-department">Department</Label>
+              <Input id="shift-department" value={template.department} onChange={(e) => setTemplate({ ...template, department: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="shift-name">Shift name</Label>
+              <Input id="shift-name" value={template.name} placeholder="Night" onChange={(e) => setTemplate({ ...template, name: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="shift-start">Starts</Label>
+              <Input id="shift-start" type="time" value={template.startTime} onChange={(e) => setTemplate({ ...template, startTime: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="shift-end">Ends</Label>
+              <Input id="shift-end" type="time" value={template.endTime} onChange={(e) => setTemplate({ ...template, endTime: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex space-x-1">
+              {DAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={template.daysOfWeek.includes(day) ? "default" : "outline"}
+                  onClick={() => toggleDay(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <Button
+              onClick={() => createTemplateMutation.mutate()}
+              disabled={!template.department || !template.name || template.daysOfWeek.length === 0 || createTemplateMutation.isPending}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Shift
+            </Button>
+          </div>
+
+          {templates.length > 0 && (
+            <div className="divide-y border rounded-lg">
+              {templates.map(t => (
+                <div key={t.id} className="flex items-center justify-between p-3 text-sm">
+                  <div>
+                    <span className="font-medium">{t.department} · {t.name}</span>
+                    <span className="text-slate-600"> {t.startTime}–{t.endTime} · {t.daysOfWeek.map((d: number) => DAY_LABELS[d]).join(", ")} · {t.timezone}</span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => toggleTemplateMutation.mutate({ id: t.id, isActive: !t.isActive })}>
+                    {t.isActive ? "Deactivate" : "Activate"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Roster</CardTitle>
+          <CardDescription>Assignments for {rosterData?.fromDate} to {rosterData?.toDate}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <Label>Staff member</Label>
+              <Select value={assignment.staffId} onValueChange={(staffId) => setAssignment({ ...assignment, staffId })}>
+                <SelectTrigger><SelectValue placeholder="Select staff" /></SelectTrigger>
+                <SelectContent>
+                  {staff.map(member => (
+                    <SelectItem key={member.staffId} value={member.staffId}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Shift</Label>
+              <Select value={assignment.templateId} onValueChange={(templateId) => setAssignment({ ...assignment, templateId })}>
+                <SelectTrigger><SelectValue placeholder="Select shift" /></SelectTrigger>
+                <SelectContent>
+                  {activeTemplates.map(t => (
+                    <SelectItem key={t.id} value={t.id.toString()}>{t.department} · {t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="assign-from">From</Label>
+              <Input id="assign-from" type="date" value={assignment.fromDate} onChange={(e) => setAssignment({ ...assignment, fromDate: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="assign-to">To</Label>
+              <Input id="assign-to" type="date" value={assignment.toDate} onChange={(e) => setAssignment({ ...assignment, toDate: e.target.value })} />
+            </div>
+            <Button
+              onClick={() => assignMutation.mutate()}
+              disabled={!assignment.staffId || !assignment.templateId || assignMutation.isPending}
+            >
+              Assign
+            </Button>
+          </div>
+
+          {rosterLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : assignments.length === 0 ? (
+            <p className="text-sm text-slate-500">No shifts assigned for this week.</p>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {assignments.map(entry => (
+                <div key={entry.id} className="p-3 text-sm space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-medium">{entry.shiftDate}</span>
+                      <span className="text-slate-600"> · {entry.template?.department} {entry.template?.name} {entry.template?.startTime}–{entry.template?.endTime} · {entry.staffName || entry.staffId}</span>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => { setHandoverFor(entry.id); setHandoverNotes(entry.handoverNotes || ""); }}>
+                        <MessageSquare className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => removeMutation.mutate(entry.id)} disabled={removeMutation.isPending}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {entry.handoverNotes && handoverFor !== entry.id && (
+                    <p className="text-slate-700 bg-slate-50 rounded p-2">Handover: {entry.handoverNotes}</p>
+                  )}
+                  {handoverFor === entry.id && (
+                    <div className="space-y-2">
+                      <Textarea value={handoverNotes} onChange={(e) => setHandoverNotes(e.target.value)} placeholder="Notes for the incoming shift" />
+                      <div className="flex justify-end space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setHandoverFor(null)}>Cancel</Button>
+                        <Button size="sm" onClick={() => handoverMutation.mutate(entry.id)} disabled={!handoverNotes.trim() || handoverMutation.isPending}>
+                          Save Handover
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -57,6 +57,7 @@ interface EmergencyAccess {
   limitations: string[];
   expiresAt: string;
   emergencyConsentRecordId: string;
+  withheldRecordCount?: number;
 }
 
 interface EmergencyAccessResponse {
@@ -182,11 +183,25 @@ export default function EmergencyAccessDashboard() {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Close emergency access
-  const handleCloseAccess = () => {
+  // Close emergency access and revoke the credential so it cannot be presented again
+  const handleCloseAccess = async () => {
+    if (patientData) {
+      const response = await apiRequestWithCsrf("POST", `/api/emergency/consent/${patientData.emergencyAccess.emergencyConsentRecordId}/revoke`, {
+        reason: "Closed by staff from the emergency dashboard",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        toast({
+          title: "Could Not Close Access",
+          description: errorData.message || "Failed to revoke emergency access",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
     toast({
       title: "Emergency Access Closed",
-      description: "Emergency access has been manually closed.",
+      description: "Emergency access has been revoked.",
     });
     setLocation("/");
   };
@@ -355,6 +370,7 @@ export default function EmergencyAccessDashboard() {
                 <span className="text-xl">Patient Medical Records</span>
                 <p className="text-sm text-green-700 font-normal">
                   {records.length} record{records.length !== 1 ? 's' : ''} accessible under emergency authorization
+                  {!!emergencyAccess.withheldRecordCount && ` · ${emergencyAccess.withheldRecordCount} withheld by the emergency access policy`}
                 </p>
               </div>
             </CardTitle>
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShieldAlert, CheckCircle, Clock, Flag } from "lucide-react";
+
+type ReviewStatus = "pending" | "approved" | "flagged";
+
+const STATUS_BADGE: Record<ReviewStatus, "default" | "secondary" | "destructive"> = {
+  pending: "default",
+  approved: "secondary",
+  flagged: "destructive",
+};
+
+function Personnel({ label, person }: { label: string; person: any }) {
+  if (!person) return null;
+  return (
+    <div className="text-sm">
+      <span className="text-slate-500">{label}: </span>
+      <span className="font-medium text-slate-900">{person.name}</span>
+      <span className="text-slate-600"> · {person.role?.replace(/_/g, " ")} · {person.department} · License {person.licenseNumber}</span>
+    </div>
+  );
+}
+
+/**
+ * Post-emergency review of break-glass accesses for the admin dashboard
+ */
+export default function EmergencyReviewQueue() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus>("pending");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const { data: queue, isLoading, refetch: refetchQueue } = useQuery<any>({
+    queryKey: ["/api/admin/emergency-reviews", statusFilter],
+    queryFn: async () => apiRequest("GET", `/api/admin/emergency-reviews?status=${statusFilter}`).then(res => res.json()),
+    refetchInterval: 60000,
+  });
+
+  const { data: detail, isLoading: isLoadingDetail } = useQuery<any>({
+    queryKey: ["/api/admin/emergency-reviews", "detail", selectedId],
+    queryFn: async () => apiRequest("GET", `/api/admin/emergency-reviews/${selectedId}`).then(res => res.json()),
+    enabled: selectedId !== null,
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: "approved" | "flagged" }) => {
+      const response = await apiRequestWithCsrf("POST", `/api/admin/emergency-reviews/${id}/decision`, { decision, notes });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.review.status === "approved" ? "Access Approved" : "Access Flagged as Misuse",
+        description: data.patientNotified ? "The patient has been notified by SMS." : "The patient has no phone on file and was not notified.",
+      });
+      setSelectedId(null);
+      setNotes("");
+      refetchQueue();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reviews = queue?.reviews || [];
+  const review = detail?.review;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldAlert className="h-5 w-5 text-orange-600" />
+            <span>Emergency Reviews</span>
+          </CardTitle>
+          <CardDescription>
+            Every break-glass access must be approved or flagged as misuse before its deadline
+          </CardDescription>
+          <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-lg w-fit">
+            {(["pending", "approved", "flagged"] as ReviewStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => { setStatusFilter(status); setSelectedId(null); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium capitalize transition-all duration-200 ease-in-out ${
+                  statusFilter === status
+                    ? "bg-white text-slate-900 shadow-sm ring-1 ring-slate-200"
+                    : "text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)}
+            </div>
+          )}
+          {!isLoading && reviews.length === 0 && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>No {statusFilter} emergency reviews.</AlertDescription>
+            </Alert>
+          )}
+          {!isLoading && reviews.length > 0 && (
+            <div className="space-y-3">
+              {reviews.map(({ review: item, overdue, emergency }: any) => (
+                <button
+                  key={item.id}
+                  onClick={() => { setSelectedId(item.id); setNotes(""); }}
+                  className={`w-full text-left border rounded-lg p-4 transition-colors ${
+                    selectedId === item.id ? "border-orange-300 bg-orange-50/50" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={STATUS_BADGE[item.status as ReviewStatus]}>{item.status.toUpperCase()}</Badge>
+                      <span className="font-medium">{emergency?.emergencyType?.replace(/_/g, " ") || "Unknown emergency"}</span>
+                      <span className="text-sm text-slate-600">Patient {emergency?.patientId}</span>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Clock className={`h-4 w-4 ${overdue ? "text-red-500" : "text-slate-400"}`} />
+                      <span className={overdue ? "text-red-600 font-medium" : "text-slate-600"}>
+                        {overdue ? "Overdue since " : "Due "}{new Date(item.dueAt).toLocaleString()}
+                      </span>
+                    </div>
+                  </div>
+                  {emergency && (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Granted {new Date(emergency.grantedAt).toLocaleString()} at {emergency.hospitalName}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Review #{selectedId}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isLoadingDetail || !review ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h4 className="font-medium text-slate-900">Justification</h4>
+                  <p className="text-sm text-slate-700 bg-slate-50 rounded-lg p-3">{review.medicalJustification}</p>
+                </div>
+
+                <div className="space-y-1">
+                  <h4 className="font-medium text-slate-900">Authorizers</h4>
+                  <Personnel label="Primary" person={review.primaryPhysician} />
+                  <Personnel label="Secondary" person={review.secondaryAuthorizer} />
+                </div>
+
+                <div className="space-y-1">
+                  <h4 className="font-medium text-slate-900">Next of Kin</h4>
+                  {review.nextOfKin ? (
+                    <p className="text-sm text-slate-700">
+                      {review.nextOfKin.name} ({review.nextOfKin.relationship}) contacted by {review.nextOfKin.contactMethod || "unknown method"} ·{" "}
+                      {review.nextOfKin.consentGiven ? "consent given" : "no consent recorded"}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-slate-500">No next of kin was provided.</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="font-medium text-slate-900">
+                    Records Viewed <span className="text-sm font-normal text-slate-500">({review.viewedRecordCount} distinct)</span>
+                  </h4>
+                  {review.accesses.length === 0 ? (
+                    <p className="text-sm text-slate-500">The emergency credential was never used to open records.</p>
+                  ) : (
+                    review.accesses.map((access: any, index: number) => (
+                      <div key={index} className="border rounded-lg p-3 text-sm">
+                        <div className="flex justify-between text-slate-600">
+                          <span>{access.accessedBy}</span>
+                          <span>{access.accessedAt ? new Date(access.accessedAt).toLocaleString() : ""}</span>
+                        </div>
+                        <p className="text-xs text-slate-500 mb-1">
+                          {access.releasedCount} released · {access.withheldCount} withheld by policy
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {access.records.map((record: any) => (
+                            <Badge key={`${record.source}-${record.recordId}`} variant="outline" className="text-xs">
+                              #{record.recordId} · {record.reason}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {review.review.status === "pending" ? (
+                  <div className="space-y-3">
+                    <div>
+                      <Label htmlFor="review-notes">Reviewer notes</Label>
+                      <Textarea
+                        id="review-notes"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Why the access was or was not justified"
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        variant="outline"
+                        className="border-red-200 text-red-700 hover:bg-red-50"
+                        onClick={() => decisionMutation.mutate({ id: selectedId, decision: "flagged" })}
+                        disabled={notes.trim().length < 10 || decisionMutation.isPending}
+                      >
+                        <Flag className="h-4 w-4 mr-2" />
+                        Flag as Misuse
+                      </Button>
+                      <Button
+                        className="bg-green-600 hover:bg-green-700"
+                        onClick={() => decisionMutation.mutate({ id: selectedId, decision: "approved" })}
+                        disabled={notes.trim().length < 10 || decisionMutation.isPending}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-slate-700 bg-slate-50 rounded-lg p-3">
+                    <p>
+                      Closed {review.review.decidedAt ? new Date(review.review.decidedAt).toLocaleString() : ""} ·{" "}
+                      {review.review.patientNotifiedAt ? "patient notified" : "patient not notified"}
+                    </p>
+                    <p className="mt-1">{review.review.reviewerNotes}</p>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
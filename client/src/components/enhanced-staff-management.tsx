@@ -43,9 +43,9 @@ import {
 console.log('CardDescription available:', typeof CardDescription);
 
 const STAFF_ROLES = [
-  { value: "HOSPITAL_A_ONLY", label: "Hospital A Only (Record Creation)", icon: Stethoscope, color: "bg-blue-100 text-blue-700" },
-  { value: "HOSPITAL_B_ONLY", label: "Hospital B Only (Record Access)", icon: Eye, color: "bg-green-100 text-green-700" },
-  { value: "BOTH_A_B", label: "Both Hospitals (Full Access)", icon: Users, color: "bg-purple-100 text-purple-700" },
+  { value: "CLINICIAN", label: "Clinician (Create & Access Records)", icon: Users, color: "bg-purple-100 text-purple-700" },
+  { value: "RECORD_SUBMITTER", label: "Record Submitter", icon: Stethoscope, color: "bg-blue-100 text-blue-700" },
+  { value: "RECORD_ACCESSOR", label: "Record Accessor", icon: Eye, color: "bg-green-100 text-green-700" },
   { value: "EMERGENCY_AUTHORIZER", label: "Emergency Authorizer", icon: AlertTriangle, color: "bg-red-100 text-red-700" }
 ];
 
@@ -77,6 +77,8 @@ interface StaffMember {
   department: string;
   isActive: boolean;
   isOnDuty: boolean;
+  dutySource?: 'roster' | 'manual';
+  currentShift?: { templateName: string; department: string };
   createdAt: string;
 }
 
@@ -488,7 +490,7 @@ export default function EnhancedStaffManagement({
                                 </Badge>
                                 {member.isOnDuty && (
                                   <Badge variant="outline" className="text-green-600 border-green-300">
-                                    On Duty
+                                    {member.currentShift ? `On Duty · ${member.currentShift.templateName}` : "On Duty"}
                                   </Badge>
                                 )}
                               </div>
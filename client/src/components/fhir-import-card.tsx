@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Upload } from "lucide-react";
+
+type ImportIssue = { severity: string; diagnostics: string; expression?: string[] };
+
+/**
+ * Upload a FHIR R4 Bundle from a partner EMR; each Encounter becomes a patient record
+ */
+export default function FhirImportCard() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [file, setFile] = useState<File | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+
+  const importMutation = useMutation({
+    mutationFn: async (bundleFile: File) => {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await bundleFile.text());
+      } catch {
+        throw new Error("The file is not valid JSON");
+      }
+      const response = await apiRequestWithCsrf("POST", "/api/fhir/import", bundle);
+      const result = await response.json();
+      if (!response.ok) {
+        // Validation failures come back as an OperationOutcome
+        setIssues(result.issue || []);
+        throw new Error(result.issue?.[0]?.diagnostics || result.error || result.message || "Import failed");
+      }
+      return result;
+    },
+    onSuccess: (result: { recordIds: number[]; warnings: ImportIssue[] }) => {
+      setIssues(result.warnings || []);
+      setFile(null);
+      toast({ title: "Bundle Imported", description: `${result.recordIds.length} record(s) created` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Upload className="h-5 w-5 text-blue-600" />
+          <span>Import FHIR Bundle</span>
+        </CardTitle>
+        <CardDescription>HL7 FHIR R4 Bundle with one Patient and its Encounters</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          type="file"
+          accept=".json,application/json,application/fhir+json"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            setIssues([]);
+          }}
+        />
+        <Button
+          className="w-full"
+          onClick={() => file && importMutation.mutate(file)}
+          disabled={!file || importMutation.isPending}
+        >
+          {importMutation.isPending ? "Importing..." : "Import"}
+        </Button>
+        {issues.length > 0 && (
+          <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+            {issues.map((issue, index) => (
+              <li key={index} className={issue.severity === "error" ? "text-red-700" : "text-amber-700"}>
+                {issue.diagnostics}
+                {issue.expression?.length ? <span className="text-slate-500"> ({issue.expression.join(", ")})</span> : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
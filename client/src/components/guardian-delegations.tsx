@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, UserPlus, Building } from "lucide-react";
+import ConsentScopeForm, { describeConsentScope, type ConsentScope } from "@/components/consent-scope-form";
+
+// Mirrors DELEGATION_POWERS in server/consent-delegation-service.ts
+const POWERS = [
+  { value: "respond_consent", label: "Approve or deny hospital requests" },
+  { value: "revoke_consent", label: "Revoke hospital access" },
+  { value: "grant_consent", label: "Sign Web3 consent with their own wallet" },
+];
+
+const DURATIONS = [
+  { days: 30, label: "30 days" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+  { days: 365 * 5, label: "5 years" },
+];
+
+const emptyForm = {
+  delegateName: "",
+  relationship: "",
+  delegatePhone: "",
+  powers: ["respond_consent"] as string[],
+  durationDays: 365,
+};
+
+/**
+ * Guardians the patient has appointed, and patients the logged-in user acts for
+ */
+export default function GuardianDelegations() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [form, setForm] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [approvingRequestId, setApprovingRequestId] = useState<number | null>(null);
+
+  const { data: delegations, refetch: refetchDelegations } = useQuery({
+    queryKey: ["/api/patient/delegations"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/patient/delegations");
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const { data: delegated, refetch: refetchDelegated } = useQuery({
+    queryKey: ["/api/patient/delegated-patients"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/patient/delegated-patients");
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const addGuardianMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequestWithCsrf("POST", "/api/patient/delegations", form);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Guardian Added", description: `${form.delegateName} can now act on your consent.` });
+      setForm(emptyForm);
+      setShowForm(false);
+      refetchDelegations();
+    },
+    onError: onError("Could Not Add Guardian"),
+  });
+
+  const revokeDelegationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequestWithCsrf("POST", `/api/patient/delegations/${id}/revoke`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Guardian Removed", description: data.message });
+      refetchDelegations();
+    },
+    onError: onError("Revocation Failed"),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ requestId, action, scope }: { requestId: number; action: 'approve' | 'deny'; scope?: ConsentScope }) => {
+      const response = await apiRequestWithCsrf("POST", "/api/patient/respond-to-consent", {
+        requestId,
+        action,
+        reason: action === 'approve' ? 'Guardian approved consent' : 'Guardian denied consent',
+        scope,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Response Recorded", description: data.message });
+      setApprovingRequestId(null);
+      refetchDelegated();
+    },
+    onError: onError("Action Failed"),
+  });
+
+  const revokeGrantMutation = useMutation({
+    mutationFn: async (grantId: number) => {
+      const response = await apiRequestWithCsrf("POST", `/api/patient/consent-grants/${grantId}/revoke`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Access Revoked", description: data.message });
+      refetchDelegated();
+    },
+    onError: onError("Revocation Failed"),
+  });
+
+  const activeDelegations = (delegations?.delegations || []).filter((d: any) => d.active);
+  const wards = delegated?.patients || [];
+  const canSubmit = form.delegateName && form.relationship && /^\+\d{9,15}$/.test(form.delegatePhone) && form.powers.length > 0;
+
+  return (
+    <Card className="mt-4 sm:mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5 text-indigo-600" />
+          <span>Guardians & Caregivers</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">
+            A guardian can answer hospital consent requests for you from their own portal login or by USSD.
+            Everything they do is recorded in your consent history.
+          </p>
+          {activeDelegations.map((d: any) => (
+            <div key={d.id} className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <p className="font-medium text-slate-900">{d.delegateName} <span className="text-sm text-slate-500">({d.relationship})</span></p>
+                <p className="text-xs text-slate-500">
+                  {d.delegatePhone || d.delegateDID} · until {new Date(d.expiresAt).toLocaleDateString()}
+                  {d.authorityType === 'hospital_admin' && " · set by hospital"}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-red-200 text-red-700 hover:bg-red-50"
+                onClick={() => revokeDelegationMutation.mutate(d.id)}
+                disabled={revokeDelegationMutation.isPending}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+
+          {showForm ? (
+            <div className="space-y-3 rounded-lg border p-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="guardian-name">Name</Label>
+                  <Input id="guardian-name" value={form.delegateName} onChange={(e) => setForm({ ...form, delegateName: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="guardian-relationship">Relationship</Label>
+                  <Input id="guardian-relationship" placeholder="Parent, caregiver, ..." value={form.relationship} onChange={(e) => setForm({ ...form, relationship: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="guardian-phone">Phone number</Label>
+                  <Input id="guardian-phone" placeholder="+254712345678" value={form.delegatePhone} onChange={(e) => setForm({ ...form, delegatePhone: e.target.value.trim() })} />
+                </div>
+                <div>
+                  <Label>Valid for</Label>
+                  <Select value={String(form.durationDays)} onValueChange={(v) => setForm({ ...form, durationDays: Number(v) })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DURATIONS.map(d => (
+                        <SelectItem key={d.days} value={String(d.days)}>{d.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>They may</Label>
+                {POWERS.map(p => (
+                  <div key={p.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`power-${p.value}`}
+                      checked={form.powers.includes(p.value)}
+                      onCheckedChange={() => setForm({
+                        ...form,
+                        powers: form.powers.includes(p.value) ? form.powers.filter(v => v !== p.value) : [...form.powers, p.value],
+                      })}
+                    />
+                    <Label htmlFor={`power-${p.value}`} className="font-normal text-sm">{p.label}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button size="sm" variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+                <Button size="sm" onClick={() => addGuardianMutation.mutate()} disabled={!canSubmit || addGuardianMutation.isPending}>
+                  {addGuardianMutation.isPending ? 'Adding...' : 'Add Guardian'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add Guardian
+            </Button>
+          )}
+        </div>
+
+        {wards.length > 0 && (
+          <div className="space-y-4">
+            <h4 className="font-medium text-slate-900">People You Act For</h4>
+            {wards.map((ward: any) => (
+              <div key={ward.delegationId} className="space-y-3 rounded-lg border p-3">
+                <div className="flex items-center space-x-2">
+                  <p className="font-medium text-slate-900">{ward.patientName}</p>
+                  <Badge variant="secondary" className="text-xs">{ward.relationship}</Badge>
+                </div>
+
+                {ward.pendingRequests.map((request: any) => (
+                  <div key={request.id} className="rounded-md bg-amber-50/50 p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Building className="h-4 w-4 text-amber-600" />
+                        <span className="text-sm">{request.hospitalName} requests access</span>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-red-200 text-red-700 hover:bg-red-50"
+                          onClick={() => respondMutation.mutate({ requestId: request.id, action: 'deny' })}
+                          disabled={respondMutation.isPending}
+                        >
+                          Deny
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="bg-green-600 hover:bg-green-700"
+                          onClick={() => setApprovingRequestId(request.id)}
+                          disabled={respondMutation.isPending || approvingRequestId === request.id}
+                        >
+                          Approve
+                        </Button>
+                      </div>
+                    </div>
+                    {approvingRequestId === request.id && (
+                      <div className="mt-3">
+                        <ConsentScopeForm
+                          records={[]}
+                          isPending={respondMutation.isPending}
+                          onSubmit={(scope) => respondMutation.mutate({ requestId: request.id, action: 'approve', scope })}
+                          onCancel={() => setApprovingRequestId(null)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {ward.grants.map((grant: any) => (
+                  <div key={grant.id} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-600">
+                      {describeConsentScope(grant)} · until {new Date(grant.expiresAt).toLocaleString()}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-700"
+                      onClick={() => revokeGrantMutation.mutate(grant.id)}
+                      disabled={revokeGrantMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+
+                {ward.pendingRequests.length === 0 && ward.grants.length === 0 && (
+                  <p className="text-xs text-slate-500">Nothing needs your attention.</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
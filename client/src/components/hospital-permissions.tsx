@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Key } from "lucide-react";
+import { CAPABILITIES, CAPABILITY_LABELS, ROLE_LABELS, USER_ROLES, type Capability, type UserRole } from "@shared/permissions";
+
+type Settings = {
+  hospitalCapabilities: Capability[];
+  roles: Record<UserRole, Capability[]>;
+};
+
+/**
+ * Capability matrix for the admin dashboard: what the hospital uses and what each role holds
+ */
+export default function HospitalPermissions() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [draft, setDraft] = useState<Settings | null>(null);
+
+  const { data, isLoading } = useQuery<any>({
+    queryKey: ["/api/admin/permissions"],
+    queryFn: async () => apiRequest("GET", "/api/admin/permissions").then(res => res.json()),
+  });
+
+  useEffect(() => {
+    if (data?.settings) {
+      setDraft({ hospitalCapabilities: data.settings.hospitalCapabilities, roles: data.settings.roles });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: Settings) => {
+      const response = await apiRequestWithCsrf("PUT", "/api/admin/permissions", settings);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to save permissions");
+      return result;
+    },
+    onSuccess: () => {
+      toast({ title: "Permissions Saved", description: "Staff see the change the next time their workspace loads." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (list: Capability[], capability: Capability) =>
+    list.includes(capability) ? list.filter(c => c !== capability) : [...list, capability];
+
+  // Only administrators hold the admin capability
+  const editableCapabilities = CAPABILITIES.filter(c => c !== "admin");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Key className="h-5 w-5 text-indigo-600" />
+          <span>Permissions</span>
+        </CardTitle>
+        <CardDescription>
+          A staff member can use a capability only when their role holds it and the hospital has it enabled
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 pr-4 font-medium text-slate-700">Role</th>
+                    {editableCapabilities.map(capability => (
+                      <th key={capability} className="py-2 px-2 font-medium text-slate-700 text-center">
+                        {CAPABILITY_LABELS[capability]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b bg-slate-50">
+                    <td className="py-2 pr-4 font-medium">Enabled for this hospital</td>
+                    {editableCapabilities.map(capability => (
+                      <td key={capability} className="py-2 px-2 text-center">
+                        <Checkbox
+                          checked={draft.hospitalCapabilities.includes(capability)}
+                          onCheckedChange={() => setDraft({ ...draft, hospitalCapabilities: toggle(draft.hospitalCapabilities, capability) })}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                  {USER_ROLES.map(role => (
+                    <tr key={role} className="border-b">
+                      <td className="py-2 pr-4">{ROLE_LABELS[role]}</td>
+                      {editableCapabilities.map(capability => (
+                        <td key={capability} className="py-2 px-2 text-center">
+                          <Checkbox
+                            checked={draft.roles[role].includes(capability)}
+                            disabled={!draft.hospitalCapabilities.includes(capability)}
+                            onCheckedChange={() => setDraft({ ...draft, roles: { ...draft.roles, [role]: toggle(draft.roles[role], capability) } })}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Permissions"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import RecordSubmissionPanel from "@/components/record-submission-panel";
+import RecordRetrievalPanel from "@/components/record-retrieval-panel";
+import CorrectionRequestQueue from "@/components/correction-request-queue";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FileText, Search, Lock, MessageSquareWarning } from "lucide-react";
+
+type WorkspaceSection = "submit" | "retrieve" | "corrections";
+
+interface HospitalWorkspaceProps {
+  onShowConsentModal: (data: any) => void;
+}
+
+/**
+ * Single workspace for every facility; shows only the sections the user's capabilities allow
+ */
+export default function HospitalWorkspace({ onShowConsentModal }: HospitalWorkspaceProps) {
+  const { hasCapability } = useAuth();
+
+  const sections = [
+    { key: "submit" as const, label: "Submit Records", icon: FileText, allowed: hasCapability("submit_records") },
+    { key: "retrieve" as const, label: "Find Records", icon: Search, allowed: hasCapability("lookup_records") },
+    { key: "corrections" as const, label: "Corrections", icon: MessageSquareWarning, allowed: hasCapability("submit_records") },
+  ].filter(section => section.allowed);
+
+  const [selected, setSelected] = useState<WorkspaceSection | null>(null);
+  const active = sections.find(section => section.key === selected)?.key ?? sections[0]?.key;
+
+  if (!active) {
+    return (
+      <Alert>
+        <Lock className="h-4 w-4" />
+        <AlertDescription>
+          Your role does not include submitting or looking up records. Ask your hospital administrator if you need access.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.length > 1 && (
+        <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-lg w-fit">
+          {sections.map(({ key, label, icon: Icon }) => (
+            <button
+              key={key}
+              onClick={() => setSelected(key)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ease-in-out ${
+                active === key
+                  ? "bg-white text-slate-900 shadow-sm ring-1 ring-slate-200"
+                  : "text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {active === "submit" ? (
+        <RecordSubmissionPanel />
+      ) : active === "corrections" ? (
+        <CorrectionRequestQueue />
+      ) : (
+        <RecordRetrievalPanel
+          onShowConsentModal={onShowConsentModal}
+          canRequestConsent={hasCapability("request_consent")}
+        />
+      )}
+    </div>
+  );
+}
@@ -8,10 +8,9 @@ import { motion, AnimatePresence } from "framer-motion";
 import HospitalStaffProfileCompletion from "./hospital-staff-profile-completion";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { ROLE_LABELS, isUserRole } from "@shared/permissions";
 
 interface NavigationHeaderProps {
-  currentHospital: "A" | "B";
-  onHospitalSwitch: (hospital: "A" | "B") => void;
   user: User;
   showStaffProfileModal: boolean;
   setShowStaffProfileModal: (open: boolean) => void;
@@ -25,8 +24,9 @@ const dividerVariants = {
   exit: { width: 0, opacity: 0, transition: { duration: 0.2 } },
 };
 
-export default function NavigationHeader({ currentHospital, onHospitalSwitch, user, showStaffProfileModal, setShowStaffProfileModal, setExistingStaff, onOpenStaffProfileModal }: NavigationHeaderProps) {
-  const { logoutMutation } = useAuth();
+export default function NavigationHeader({ user, showStaffProfileModal, setShowStaffProfileModal, setExistingStaff, onOpenStaffProfileModal }: NavigationHeaderProps) {
+  const { logoutMutation, hasCapability } = useAuth();
+  const roleLabel = isUserRole(user.role) ? ROLE_LABELS[user.role] : user.role;
   const [profileOpen, setProfileOpen] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -71,78 +71,10 @@ export default function NavigationHeader({ currentHospital, onHospitalSwitch, us
               </div>
             </div>
 
-            {/* Center: Hospital Toggle - Hidden on mobile, shown in mobile menu */}
-            <div className="hidden md:flex items-center space-x-3">
-              <div className="relative flex bg-slate-100 rounded-full p-1 w-64 overflow-hidden">
-                <motion.div
-                  key={currentHospital}
-                  layout
-                  animate={{
-                    x: currentHospital === "A" ? 0 : "100%",
-                    background: currentHospital === "A" ? "#2563eb" : "#16a34a",
-                  }}
-                  transition={{ type: "spring", stiffness: 500, damping: 30 }}
-                  className="absolute top-1 left-1 h-8 w-[calc(50%-0.25rem)] rounded-full z-0"
-                />
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => onHospitalSwitch("A")}
-                  className={
-                    "medibridge-tab relative z-10 w-1/2 transition-colors duration-300 " +
-                    (currentHospital === "A"
-                      ? "!text-white font-bold"
-                      : "text-blue-700 font-medium")
-                  }
-                  style={{
-                    transition: "color 0.3s, font-weight 0.3s",
-                  }}
-                >
-                  <motion.span
-                    animate={{
-                      color: currentHospital === "A" ? "#fff" : "#1d4ed8",
-                      opacity: currentHospital === "A" ? 1 : 0.85,
-                      scale: currentHospital === "A" ? 1.08 : 1,
-                    }}
-                    transition={{ type: "spring", stiffness: 400, damping: 30 }}
-                    style={{ display: "inline-block" }}
-                  >
-                    Hospital A
-                  </motion.span>
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => onHospitalSwitch("B")}
-                  className={
-                    "medibridge-tab relative z-10 w-1/2 transition-colors duration-300 " +
-                    (currentHospital === "B"
-                      ? "!text-white font-bold"
-                      : "text-green-700 font-medium")
-                  }
-                  style={{
-                    transition: "color 0.3s, font-weight 0.3s",
-                  }}
-                >
-                  <motion.span
-                    animate={{
-                      color: currentHospital === "B" ? "#fff" : "#16a34a",
-                      opacity: currentHospital === "B" ? 1 : 0.85,
-                      scale: currentHospital === "B" ? 1.08 : 1,
-                    }}
-                    transition={{ type: "spring", stiffness: 400, damping: 30 }}
-                    style={{ display: "inline-block" }}
-                  >
-                    Hospital B
-                  </motion.span>
-                </Button>
-              </div>
-            </div>
-
             {/* Right: Emergency, Profile Dropdown, Mobile Menu */}
             <div className="flex items-center space-x-2">
               {/* Emergency Access - Hidden on mobile, shown in mobile menu */}
-              {user && (user.hospitalType === "B" || user.isAdmin) && (
+              {hasCapability("emergency_access") && (
                 <Link href="/emergency-access" className="hidden md:block">
                   <Button variant="destructive" size="sm" className="bg-red-600 hover:bg-red-700 text-white">
                     <AlertTriangleIcon className="h-4 w-4 mr-2" />
@@ -175,12 +107,7 @@ export default function NavigationHeader({ currentHospital, onHospitalSwitch, us
                       <div className="px-4 py-3 border-b border-slate-100">
                         <p className="text-sm font-medium text-slate-900">{user.hospitalName || user.username}</p>
                         <p className="text-xs text-slate-600">
-                          Hospital {user.hospitalType} • {user.username}
-                          {user.hospitalType && (
-                            <span className="ml-2">
-                              {user.hospitalType === "A" ? "Record Submitter" : "Record Accessor"}
-                            </span>
-                          )}
+                          {roleLabel} • {user.username}
                         </p>
                       </div>
                       <div className="px-4 py-2 flex items-center space-x-2">
@@ -285,37 +212,8 @@ export default function NavigationHeader({ currentHospital, onHospitalSwitch, us
                 className="md:hidden border-t border-slate-200 bg-white"
               >
                 <div className="py-4 space-y-4">
-                  {/* Hospital Toggle for Mobile */}
-                  <div className="px-4">
-                    <h3 className="text-sm font-medium text-slate-700 mb-3">Switch Hospital</h3>
-                    <div className="grid grid-cols-2 gap-2">
-                      <Button
-                        variant={currentHospital === "A" ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => {
-                          onHospitalSwitch("A");
-                          setMobileMenuOpen(false);
-                        }}
-                        className="w-full"
-                      >
-                        Hospital A
-                      </Button>
-                      <Button
-                        variant={currentHospital === "B" ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => {
-                          onHospitalSwitch("B");
-                          setMobileMenuOpen(false);
-                        }}
-                        className="w-full"
-                      >
-                        Hospital B
-                      </Button>
-                    </div>
-                  </div>
-
                   {/* Emergency Access for Mobile */}
-                  {user && (user.hospitalType === "B" || user.isAdmin) && (
+                  {hasCapability("emergency_access") && (
                     <div className="px-4">
                       <Link href="/emergency-access">
                         <Button 
@@ -335,7 +233,7 @@ export default function NavigationHeader({ currentHospital, onHospitalSwitch, us
                   <div className="px-4 py-3 bg-slate-50 rounded-lg mx-4">
                     <p className="text-sm font-medium text-slate-900">{user.hospitalName || user.username}</p>
                     <p className="text-xs text-slate-600">
-                      Hospital {user.hospitalType} • {user.username}
+                      {roleLabel} • {user.username}
                     </p>
                   </div>
 
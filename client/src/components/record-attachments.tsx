@@ -0,0 +1,136 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Paperclip, X } from "lucide-react";
+import type { RecordAttachment } from "@shared/schema";
+import {
+  ATTACHMENT_CATEGORIES,
+  ATTACHMENT_CATEGORY_LABELS,
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  formatAttachmentSize,
+  type AttachmentCategory,
+} from "@shared/attachments";
+
+export type PendingAttachment = { file: File; category: AttachmentCategory };
+
+type AttachmentSummary = Omit<RecordAttachment, "encryptionKey" | "iv" | "authTag" | "localPath" | "locations">;
+
+/**
+ * Upload pending files to a newly created record; returns the names that failed
+ */
+export async function uploadAttachments(
+  recordId: number,
+  pending: PendingAttachment[],
+  csrfHeaders: Record<string, string>
+): Promise<string[]> {
+  const failed: string[] = [];
+  for (const { file, category } of pending) {
+    // The category field must precede the file part
+    const form = new FormData();
+    form.append("category", category);
+    form.append("file", file, file.name);
+    const response = await fetch(`/api/records/${recordId}/attachments`, {
+      method: "POST",
+      headers: csrfHeaders,
+      body: form,
+      credentials: "include",
+    });
+    if (!response.ok) failed.push(file.name);
+  }
+  return failed;
+}
+
+/**
+ * File picker collecting lab reports, imaging and scans to upload with a record
+ */
+export function AttachmentPicker({ value, onChange }: { value: PendingAttachment[]; onChange: (value: PendingAttachment[]) => void }) {
+  const oversized = value.filter(p => p.file.size > MAX_ATTACHMENT_BYTES);
+
+  return (
+    <div className="space-y-2">
+      <Input
+        type="file"
+        multiple
+        accept={ATTACHMENT_MIME_TYPES.join(",")}
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          onChange([...value, ...files.map(file => ({ file, category: "other" as AttachmentCategory }))]);
+          e.target.value = "";
+        }}
+      />
+      {value.map((pending, index) => (
+        <div key={`${pending.file.name}-${index}`} className="flex items-center gap-2 text-sm">
+          <Paperclip className="h-4 w-4 text-slate-500 shrink-0" />
+          <span className="truncate flex-1">{pending.file.name}</span>
+          <span className="text-xs text-slate-500">{formatAttachmentSize(pending.file.size)}</span>
+          <Select
+            value={pending.category}
+            onValueChange={(category) => onChange(value.map((p, i) => i === index ? { ...p, category: category as AttachmentCategory } : p))}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATTACHMENT_CATEGORIES.map(category => (
+                <SelectItem key={category} value={category}>{ATTACHMENT_CATEGORY_LABELS[category]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {oversized.length > 0 && (
+        <p className="text-xs text-red-600">
+          {oversized.map(p => p.file.name).join(", ")} exceed{oversized.length === 1 ? "s" : ""} the {formatAttachmentSize(MAX_ATTACHMENT_BYTES)} limit
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Attachments of a record with download links; hospital views need consent,
+ * the patient portal lists the patient's own
+ */
+export default function RecordAttachmentList({ recordId, scope }: { recordId: number; scope: "hospital" | "patient" }) {
+  const listUrl = scope === "patient"
+    ? `/api/patient/records/${recordId}/attachments`
+    : `/api/records/${recordId}/attachments`;
+  const { data } = useQuery<{ attachments: AttachmentSummary[] }>({ queryKey: [listUrl] });
+
+  const attachments = data?.attachments || [];
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h6 className="text-xs sm:text-sm font-medium text-slate-700 mb-1">Attachments</h6>
+      <ul className="space-y-1">
+        {attachments.map(attachment => {
+          const downloadUrl = scope === "patient"
+            ? `/api/patient/attachments/${attachment.id}/download`
+            : `/api/records/${recordId}/attachments/${attachment.id}/download`;
+          return (
+            <li key={attachment.id} className="flex items-center gap-2 text-xs sm:text-sm text-slate-600">
+              <Paperclip className="h-4 w-4 text-slate-500 shrink-0" />
+              <span className="font-medium text-slate-800 truncate">{attachment.filename}</span>
+              <span>{ATTACHMENT_CATEGORY_LABELS[attachment.category as AttachmentCategory] || attachment.category}</span>
+              <span className="text-slate-500">{formatAttachmentSize(attachment.sizeBytes)}</span>
+              {/* A plain link lets the browser stream the download to disk */}
+              <Button asChild variant="ghost" size="sm" className="ml-auto">
+                <a href={downloadUrl} download={attachment.filename}>
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
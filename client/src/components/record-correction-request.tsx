@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useCsrf } from "@/hooks/use-csrf";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MessageSquareWarning } from "lucide-react";
+import type { RecordCorrectionRequest } from "@shared/schema";
+
+const REQUESTS_KEY = "/api/patient/correction-requests";
+
+const STATUS_TEXT: Record<string, { label: string; className: string }> = {
+  pending: { label: "Correction requested", className: "bg-amber-100 text-amber-800" },
+  accepted: { label: "Correction accepted", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Correction declined", className: "bg-slate-100 text-slate-700" },
+};
+
+/**
+ * Lets the patient dispute a record and shows how their latest request for it was resolved
+ */
+export default function RecordCorrectionRequestPanel({ recordId }: { recordId: number }) {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [open, setOpen] = useState(false);
+  const [description, setDescription] = useState("");
+
+  // One request for all records; each card picks out its own
+  const { data } = useQuery<{ requests: RecordCorrectionRequest[] }>({
+    queryKey: [REQUESTS_KEY],
+  });
+  const latest = (data?.requests || []).filter(r => r.recordId === recordId).pop();
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequestWithCsrf("POST", `/api/patient/records/${recordId}/corrections`, { description });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || "Failed to send correction request");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      toast({ title: "Request Sent", description: "The hospital will review it. You'll hear the outcome by SMS or email." });
+      setOpen(false);
+      setDescription("");
+      queryClient.invalidateQueries({ queryKey: [REQUESTS_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Request Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const status = latest ? STATUS_TEXT[latest.status] : undefined;
+
+  return (
+    <div className="space-y-1">
+      {latest && status && (
+        <div className="text-xs text-slate-600 space-y-1">
+          <Badge className={status.className}>{status.label}</Badge>
+          {latest.status === "rejected" && latest.resolutionNote && <p>Hospital response: {latest.resolutionNote}</p>}
+          {latest.status === "accepted" && latest.amendmentVersion && <p>Corrected in version {latest.amendmentVersion}.</p>}
+        </div>
+      )}
+      {latest?.status !== "pending" && (
+        <Button variant="ghost" size="sm" className="px-0 text-xs text-slate-600" onClick={() => setOpen(true)}>
+          <MessageSquareWarning className="h-3 w-3 mr-1" />
+          Report an error
+        </Button>
+      )}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Report an Error in REC-{recordId}</DialogTitle>
+            <DialogDescription>
+              The hospital that wrote this record will review your request and either correct the record or explain why not.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor={`correction-${recordId}`}>What is wrong?</Label>
+            <Textarea
+              id={`correction-${recordId}`}
+              placeholder="e.g. I was treated for a sprained ankle, not a fracture"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending || description.trim().length < 10}>
+              {submitMutation.isPending ? "Sending..." : "Send Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useCsrf } from "@/hooks/use-csrf";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, History, PencilLine, ShieldAlert } from "lucide-react";
+import type { RecordVersion } from "@shared/schema";
+
+type VersionEntry = RecordVersion & { amendedByName: string | null; verified: boolean };
+
+const FIELD_LABELS: Array<[keyof RecordVersion, string]> = [
+  ["visitDate", "Visit date"],
+  ["visitType", "Visit type"],
+  ["diagnosis", "Diagnosis"],
+  ["prescription", "Prescription & Treatment"],
+  ["physician", "Physician"],
+  ["department", "Department"],
+];
+
+export interface AmendableRecord {
+  id: number;
+  visitDate: string;
+  visitType?: string | null;
+  diagnosis: string;
+  prescription?: string | null;
+  physician?: string | null;
+  department?: string | null;
+}
+
+export function AmendedBadge({ currentVersion }: { currentVersion?: number }) {
+  if (!currentVersion || currentVersion <= 1) return null;
+  return <Badge className="bg-amber-100 text-amber-800">Amended · v{currentVersion}</Badge>;
+}
+
+/**
+ * Version history of an amended record with what changed and whether each hash checks out
+ */
+export function RecordHistory({ recordId, currentVersion }: { recordId: number; currentVersion?: number }) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading } = useQuery<{ versions: VersionEntry[] }>({
+    queryKey: [`/api/records/${recordId}/versions`, currentVersion],
+    queryFn: async () => {
+      const response = await fetch(`/api/records/${recordId}/versions`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to load history");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  if (!currentVersion || currentVersion <= 1) return null;
+
+  const versions = data?.versions || [];
+
+  return (
+    <div>
+      <Button variant="ghost" size="sm" className="px-0 text-xs" onClick={() => setOpen(!open)}>
+        <History className="h-3 w-3 mr-1" />
+        {open ? "Hide history" : `Show history (${currentVersion} versions)`}
+      </Button>
+      {open && (
+        <ol className="mt-2 space-y-3 border-l-2 border-slate-200 pl-3">
+          {isLoading && <li className="text-xs text-slate-500">Loading...</li>}
+          {[...versions].reverse().map((version) => {
+            const previous = versions.find(v => v.version === version.version - 1);
+            const changes = previous
+              ? FIELD_LABELS.filter(([field]) => (version[field] ?? null) !== (previous[field] ?? null))
+              : [];
+            return (
+              <li key={version.id} className="text-xs text-slate-600 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-slate-800">v{version.version}</span>
+                  <span>{version.createdAt ? new Date(version.createdAt).toLocaleString() : ""}</span>
+                  {version.amendedByName && <span>· {version.amendedByName}</span>}
+                  {version.verified ? (
+                    <span className="flex items-center text-green-700"><CheckCircle className="h-3 w-3 mr-1" />Hash verified</span>
+                  ) : (
+                    <span className="flex items-center text-red-700"><ShieldAlert className="h-3 w-3 mr-1" />Hash mismatch</span>
+                  )}
+                </div>
+                {version.reason ? <p className="italic">"{version.reason}"</p> : <p>Original submission</p>}
+                {changes.map(([field, label]) => (
+                  <p key={field}>
+                    <span className="font-medium">{label}:</span>{" "}
+                    <span className="line-through text-slate-400">{String(previous?.[field] ?? "—")}</span>{" → "}
+                    <span>{String(version[field] ?? "—")}</span>
+                  </p>
+                ))}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Dialog for the submitting hospital to append a corrected version
+ */
+export function AmendRecordButton({ record, onAmended }: { record: AmendableRecord; onAmended: () => void }) {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [open, setOpen] = useState(false);
+  const initial = {
+    visitDate: record.visitDate,
+    visitType: record.visitType || "",
+    diagnosis: record.diagnosis,
+    prescription: record.prescription || "",
+    physician: record.physician || "",
+    department: record.department || "",
+  };
+  const [draft, setDraft] = useState(initial);
+  const [reason, setReason] = useState("");
+
+  const amendMutation = useMutation({
+    mutationFn: async () => {
+      // Only send what changed so the history records exactly that
+      const changes = Object.fromEntries(
+        Object.entries(draft).filter(([field, value]) => value !== initial[field as keyof typeof initial])
+      );
+      const response = await apiRequestWithCsrf("POST", `/api/records/${record.id}/amendments`, { ...changes, reason });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to amend record");
+      }
+      return data;
+    },
+    onSuccess: (data: { version: number }) => {
+      toast({ title: "Record Amended", description: `Version ${data.version} saved and anchored` });
+      setOpen(false);
+      setReason("");
+      onAmended();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Amendment Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => { setDraft(initial); setOpen(true); }}>
+        <PencilLine className="h-3 w-3 mr-1" />
+        Amend
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Amend Record REC-{record.id}</DialogTitle>
+            <DialogDescription>
+              The current version stays in the record's history. Readers will see this record marked as amended.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="amend-visit-date">Visit date</Label>
+                <Input id="amend-visit-date" type="date" value={draft.visitDate} onChange={(e) => setDraft({ ...draft, visitDate: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="amend-visit-type">Visit type</Label>
+                <Input id="amend-visit-type" value={draft.visitType} onChange={(e) => setDraft({ ...draft, visitType: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="amend-diagnosis">Diagnosis</Label>
+              <Textarea id="amend-diagnosis" value={draft.diagnosis} onChange={(e) => setDraft({ ...draft, diagnosis: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="amend-prescription">Prescription & Treatment</Label>
+              <Textarea id="amend-prescription" value={draft.prescription} onChange={(e) => setDraft({ ...draft, prescription: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="amend-physician">Physician</Label>
+                <Input id="amend-physician" value={draft.physician} onChange={(e) => setDraft({ ...draft, physician: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="amend-department">Department</Label>
+                <Input id="amend-department" value={draft.department} onChange={(e) => setDraft({ ...draft, department: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="amend-reason">Reason for amendment</Label>
+              <Textarea id="amend-reason" placeholder="e.g. Diagnosis entered against the wrong visit" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => amendMutation.mutate()}
+              disabled={amendMutation.isPending || reason.trim().length < 5 || !draft.diagnosis.trim()}
+            >
+              {amendMutation.isPending ? "Saving..." : "Save Amendment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
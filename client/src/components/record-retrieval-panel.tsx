@@ -20,6 +20,10 @@ import {
   PaginationLink,
   PaginationEllipsis,
 } from "@/components/ui/pagination";
+import ClinicalDetailsView from "@/components/clinical-details-view";
+import RecordAttachmentList from "@/components/record-attachments";
+import { AmendedBadge, AmendRecordButton, RecordHistory } from "@/components/record-history";
+import type { RecordClinicalDetails } from "@shared/schema";
 
 interface SearchFormData {
   nationalId: string;
@@ -37,6 +41,10 @@ interface PatientRecord {
   department: string;
   submittedAt: string;
   recordType?: string;
+  clinical?: RecordClinicalDetails;
+  currentVersion?: number;
+  amendedAt?: string | null;
+  canAmend?: boolean;
 }
 
 interface PatientData {
@@ -44,17 +52,20 @@ interface PatientData {
   patientDID: string;
   nationalId?: string;
   recordCount: number;
+  coveredRecordCount?: number;
   records: PatientRecord[];
   hasConsent: boolean;
   requiresConsent?: boolean;
   consentMessage?: string;
 }
 
-interface HospitalBInterfaceProps {
+interface RecordRetrievalPanelProps {
   onShowConsentModal: (data: PatientData) => void;
+  // Without request_consent the user can find patients but not ask them for access
+  canRequestConsent: boolean;
 }
 
-export default function HospitalBInterface({ onShowConsentModal }: HospitalBInterfaceProps) {
+export default function RecordRetrievalPanel({ onShowConsentModal, canRequestConsent }: RecordRetrievalPanelProps) {
   const { toast } = useToast();
   const { requestRecordAccess } = useWeb3();
   const { user } = useAuth();
@@ -114,6 +125,31 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
     },
   });
 
+  // FHIR R4 Bundle of the consented records, for partner EMRs
+  const exportFhirMutation = useMutation({
+    mutationFn: async (nationalId: string) => {
+      const response = await apiRequestWithCsrf("POST", "/api/fhir/export", { nationalId });
+      const bundle = await response.json();
+      if (!response.ok) throw new Error(bundle.error || "Failed to export records");
+      return bundle;
+    },
+    onSuccess: (bundle: any) => {
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `fhir-bundle-${new Date().toISOString().slice(0, 10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast({ title: "FHIR Bundle Exported", description: `${bundle.entry?.length || 0} resources exported` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   const requestConsentMutation = useMutation({
     mutationFn: async (data: { nationalId: string; reason?: string }) => {
       const response = await apiRequestWithCsrf("POST", "/api/request-consent", data);
@@ -394,9 +430,9 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
       <div className="mb-6 sm:mb-8">
         <div className="flex items-center space-x-2 sm:space-x-3 mb-2">
           <div className="w-6 h-6 sm:w-8 sm:h-8 bg-green-600 rounded-full flex items-center justify-center">
-            <span className="text-white font-semibold text-xs sm:text-sm">B</span>
+            <Search className="h-3 w-3 sm:h-4 sm:w-4 text-white" />
           </div>
-          <h2 className="text-xl sm:text-2xl font-semibold text-slate-900">Hospital B - Record Retrieval</h2>
+          <h2 className="text-xl sm:text-2xl font-semibold text-slate-900">Record Retrieval</h2>
         </div>
         <p className="text-slate-600 text-sm sm:text-base">Search and retrieve patient records using traditional ID or patient phone number</p>
       </div>
@@ -546,8 +582,10 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                     
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 text-xs sm:text-sm">
                       <div>
-                        <p className="text-slate-500">Total Records</p>
-                        <p className="font-semibold text-slate-900">{patientData.recordCount}</p>
+                        <p className="text-slate-500">Records Shared</p>
+                        <p className="font-semibold text-slate-900">
+                          {patientData.coveredRecordCount ?? patientData.records.length} of {patientData.recordCount}
+                        </p>
                       </div>
                       <div>
                         <p className="text-slate-500">Date Range</p>
@@ -624,16 +662,18 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                     })()}
 
                     <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
+                      {canRequestConsent && (
                         <Button 
                           onClick={() => requestConsentMutation.mutate({ 
                             nationalId: patientData.nationalId || searchData.nationalId || patientData.patientDID,
                             reason: "Medical care coordination and treatment planning"
                           })}
-                        className="bg-blue-600 hover:bg-blue-700 w-full sm:w-auto"
-                        disabled={requestConsentMutation.isPending}
-                      >
-                        <span className="text-sm sm:text-base">{requestConsentMutation.isPending ? "Requesting..." : "Request Consent"}</span>
-                      </Button>
+                          className="bg-blue-600 hover:bg-blue-700 w-full sm:w-auto"
+                          disabled={requestConsentMutation.isPending}
+                        >
+                          <span className="text-sm sm:text-base">{requestConsentMutation.isPending ? "Requesting..." : "Request Consent"}</span>
+                        </Button>
+                      )}
                       <Button 
                         variant="outline"
                         onClick={() => {
@@ -680,6 +720,15 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                         <span>
                           Showing {total === 0 ? 0 : startIdx + 1}–{endIdx} of {total}
                         </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => exportFhirMutation.mutate(patientData.nationalId || searchData.nationalId)}
+                          disabled={exportFhirMutation.isPending}
+                        >
+                          <FileText className="h-3 w-3 mr-1" />
+                          {exportFhirMutation.isPending ? "Exporting..." : "Export FHIR"}
+                        </Button>
                       </div>
                       {pageRecords.map((record) => (
                     <Card key={record.id}>
@@ -697,7 +746,7 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                               <h5 className="font-semibold text-slate-900">{record.visitType || "Medical Visit"}</h5>
                               <p className="text-sm text-slate-600">{record.visitDate}</p>
                               <p className="text-sm text-slate-500">
-                                Hospital A - {record.physician || "Unknown Physician"}
+                                {record.physician || "Unknown Physician"}
                               </p>
                             </div>
                           </div>
@@ -708,6 +757,7 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                             <Badge className={record.recordType === 'web3' ? 'bg-purple-100 text-purple-800' : 'bg-slate-100 text-slate-700'}>
                               {record.recordType === 'web3' ? 'Web3' : 'Traditional'}
                             </Badge>
+                            <AmendedBadge currentVersion={record.currentVersion} />
                           </div>
                         </div>
                         
@@ -723,6 +773,10 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                               <p className="text-sm text-slate-600">{record.prescription}</p>
                             </div>
                           )}
+
+                          <ClinicalDetailsView clinical={record.clinical} />
+                          <RecordAttachmentList recordId={record.id} scope="hospital" />
+                          <RecordHistory recordId={record.id} currentVersion={record.currentVersion} />
                         </div>
                         
                         <div className="flex items-center justify-between mt-4 pt-4 border-t border-slate-200">
@@ -730,7 +784,19 @@ export default function HospitalBInterface({ onShowConsentModal }: HospitalBInte
                             <span>Record ID: REC-{record.id}</span>
                             <span>•</span>
                             <span>Submitted: {new Date(record.submittedAt).toLocaleString()}</span>
+                            {record.amendedAt && (
+                              <>
+                                <span>•</span>
+                                <span>Amended: {new Date(record.amendedAt).toLocaleString()}</span>
+                              </>
+                            )}
                           </div>
+                          {record.canAmend && (
+                            <AmendRecordButton
+                              record={record}
+                              onAmended={() => searchMutation.mutate({ nationalId: patientData.nationalId || searchData.nationalId })}
+                            />
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -16,7 +16,11 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileText, Send, CheckCircle, Shield, Globe, Key, Info } from "lucide-react";
 import FilecoinStatusIndicator from "./filecoin-status-indicator";
+import FhirImportCard from "./fhir-import-card";
+import ClinicalDetailsEditor, { EMPTY_CLINICAL_DRAFT, toClinicalDetails, type ClinicalDetailsDraft } from "./clinical-details-editor";
+import { AttachmentPicker, uploadAttachments, type PendingAttachment } from "./record-attachments";
 import { useCsrf } from "@/hooks/use-csrf";
+import { clinicalDetailsSchema, type ClinicalDetailsInput } from "@shared/clinical";
 
 interface RecordFormData {
   patientName: string;
@@ -27,12 +31,24 @@ interface RecordFormData {
   prescription: string;
   physician: string;
   department: string;
+  clinical?: ClinicalDetailsInput;
 }
 
 interface Web3RecordFormData extends RecordFormData {
   phoneNumber: string;
+  language: string;
 }
 
+// Languages the visit-code SMS can be sent in (server/locales)
+const SMS_LANGUAGES = [
+  { value: "en", label: "English" },
+  { value: "sw", label: "Kiswahili" },
+  { value: "ki", label: "Gikuyu" },
+  { value: "luo", label: "Dholuo" },
+  { value: "so", label: "Soomaali" },
+  { value: "fr", label: "Français" },
+];
+
 // Utility: Split combined prescription & treatment text
 function splitPrescriptionAndTreatment(text: string) {
   const lower = text.toLowerCase();
@@ -65,12 +81,12 @@ function splitPrescriptionAndTreatment(text: string) {
   }
 }
 
-export default function HospitalAInterface() {
+export default function RecordSubmissionPanel() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { submitRecordToIPFS } = useWeb3();
   const { user } = useAuth();
-  const { apiRequestWithCsrf } = useCsrf();
+  const { apiRequestWithCsrf, getCsrfHeaders } = useCsrf();
   
   const [formData, setFormData] = useState<RecordFormData>({
     patientName: "",
@@ -87,6 +103,7 @@ export default function HospitalAInterface() {
     patientName: "",
     nationalId: "",
     phoneNumber: "",
+    language: "en",
     visitDate: "",
     visitType: "",
     diagnosis: "",
@@ -95,6 +112,11 @@ export default function HospitalAInterface() {
     department: "",
   });
   
+  const [clinicalDraft, setClinicalDraft] = useState<ClinicalDetailsDraft>(EMPTY_CLINICAL_DRAFT);
+  const [web3ClinicalDraft, setWeb3ClinicalDraft] = useState<ClinicalDetailsDraft>(EMPTY_CLINICAL_DRAFT);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [web3Attachments, setWeb3Attachments] = useState<PendingAttachment[]>([]);
+
   const [consentChecked, setConsentChecked] = useState(false);
   const [web3ConsentChecked, setWeb3ConsentChecked] = useState(false);
 
@@ -107,6 +129,15 @@ export default function HospitalAInterface() {
 
 
 
+  // Attachments are uploaded once the record exists
+  const uploadPendingAttachments = async (recordId: number | undefined, pending: PendingAttachment[]) => {
+    if (!recordId || pending.length === 0) return;
+    const failed = await uploadAttachments(recordId, pending, getCsrfHeaders());
+    toast(failed.length === 0
+      ? { title: "Attachments Uploaded", description: `${pending.length} file(s) encrypted and stored` }
+      : { title: "Some Attachments Failed", description: failed.join(", "), variant: "destructive" });
+  };
+
   const submitRecordMutation = useMutation({
     mutationFn: async (data: RecordFormData) => {
       const response = await apiRequestWithCsrf("POST", "/api/submit_record", data);
@@ -117,6 +148,9 @@ export default function HospitalAInterface() {
         title: "Record Submitted",
         description: "Patient record submitted successfully to MediBridge",
       });
+      const pendingAttachments = attachments;
+      setAttachments([]);
+      await uploadPendingAttachments(result?.recordId, pendingAttachments);
       // Best-effort: analyze and generate proofs to show a read-only summary
       try {
         const analyzeRes = await apiRequestWithCsrf("POST", "/api/zkp/analyze-medical-data", {
@@ -152,6 +186,7 @@ export default function HospitalAInterface() {
         physician: "",
         department: "",
       });
+      setClinicalDraft(EMPTY_CLINICAL_DRAFT);
       setConsentChecked(false);
     },
     onError: (error: Error) => {
@@ -177,7 +212,10 @@ export default function HospitalAInterface() {
     },
     onSuccess: (data: any) => {
       setWeb3ConsentChecked(false);
+      setWeb3ClinicalDraft(EMPTY_CLINICAL_DRAFT);
       setSubmittedWeb3(true);
+      uploadPendingAttachments(data?.recordId, web3Attachments);
+      setWeb3Attachments([]);
       if (data && data.patientDID) {
         setPatientDID(data.patientDID);
         console.log('[DEBUG] Patient DID set:', data.patientDID);
@@ -252,6 +290,23 @@ export default function HospitalAInterface() {
   // OLD: Keep for backward compatibility
 
 
+  // Structured details from the editor, or null (after a toast) when they don't validate
+  const validateClinicalDetails = (draft: ClinicalDetailsDraft): ClinicalDetailsInput | undefined | null => {
+    const clinical = toClinicalDetails(draft);
+    if (!clinical) return undefined;
+    const result = clinicalDetailsSchema.safeParse(clinical);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      toast({
+        title: "Check Clinical Details",
+        description: `${issue.path.join(" ")}: ${issue.message}`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    return clinical;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!consentChecked) {
@@ -262,7 +317,9 @@ export default function HospitalAInterface() {
       });
       return;
     }
-    submitRecordMutation.mutate(formData);
+    const clinical = validateClinicalDetails(clinicalDraft);
+    if (clinical === null) return;
+    submitRecordMutation.mutate({ ...formData, clinical });
   };
 
   const handleWeb3Submit = (e: React.FormEvent) => {
@@ -283,7 +340,9 @@ export default function HospitalAInterface() {
       });
       return;
     }
-    submitWeb3RecordMutation.mutate(web3FormData);
+    const clinical = validateClinicalDetails(web3ClinicalDraft);
+    if (clinical === null) return;
+    submitWeb3RecordMutation.mutate({ ...web3FormData, clinical });
   };
 
   return (
@@ -291,9 +350,9 @@ export default function HospitalAInterface() {
       <div className="mb-6 sm:mb-8">
         <div className="flex items-center space-x-2 sm:space-x-3 mb-2">
           <div className="w-6 h-6 sm:w-8 sm:h-8 bg-blue-600 rounded-full flex items-center justify-center">
-            <span className="text-white font-semibold text-xs sm:text-sm">A</span>
+            <FileText className="h-3 w-3 sm:h-4 sm:w-4 text-white" />
           </div>
-          <h2 className="text-xl sm:text-2xl font-semibold text-slate-900">Hospital A - Record Submission</h2>
+          <h2 className="text-xl sm:text-2xl font-semibold text-slate-900">Record Submission</h2>
         </div>
         <p className="text-slate-600 text-sm sm:text-base">Submit patient visit records using traditional or Web3 decentralized storage</p>
       </div>
@@ -430,6 +489,18 @@ export default function HospitalAInterface() {
                       </div>
                     </div>
                     
+                    <div>
+                      <Label>Structured Clinical Details</Label>
+                      <p className="text-xs text-slate-500 mb-2">Optional. Allergies, medications, vitals, labs and immunizations recorded here can be searched and are considered in emergency access.</p>
+                      <ClinicalDetailsEditor value={clinicalDraft} onChange={setClinicalDraft} />
+                    </div>
+
+                    <div>
+                      <Label>Attachments</Label>
+                      <p className="text-xs text-slate-500 mb-2">Optional. Lab reports, imaging and scans are encrypted and stored with triple redundancy.</p>
+                      <AttachmentPicker value={attachments} onChange={setAttachments} />
+                    </div>
+
                     <div className="flex items-start space-x-3 p-3 sm:p-4 bg-slate-50 rounded-lg">
                       <Checkbox
                         id="consent"
@@ -457,6 +528,7 @@ export default function HospitalAInterface() {
                           physician: "",
                           department: "",
                         });
+                        setClinicalDraft(EMPTY_CLINICAL_DRAFT);
                         setConsentChecked(false);
                         }}
                         className="w-full sm:w-auto"
@@ -545,6 +617,8 @@ export default function HospitalAInterface() {
                   </div>
                 </CardContent>
               </Card>
+
+              <FhirImportCard />
             </div>
           </div>
         </TabsContent>
@@ -591,18 +665,36 @@ export default function HospitalAInterface() {
                       </div>
                     </div>
 
-                    <div>
-                      <Label htmlFor="web3PhoneNumber">Patient Phone Number *</Label>
-                      <Input
-                        id="web3PhoneNumber"
-                        value={web3FormData.phoneNumber}
-                        onChange={(e) => setWeb3FormData({ ...web3FormData, phoneNumber: e.target.value })}
-                        placeholder="+254 700 123 456"
-                        required
-                      />
-                      <p className="text-xs text-slate-500 mt-1">
-                        Patient's phone number (patient must be registered in the system first)
-                      </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <Label htmlFor="web3PhoneNumber">Patient Phone Number *</Label>
+                        <Input
+                          id="web3PhoneNumber"
+                          value={web3FormData.phoneNumber}
+                          onChange={(e) => setWeb3FormData({ ...web3FormData, phoneNumber: e.target.value })}
+                          placeholder="+254 700 123 456"
+                          required
+                        />
+                        <p className="text-xs text-slate-500 mt-1">
+                          Patient's phone number (patient must be registered in the system first)
+                        </p>
+                      </div>
+                      <div>
+                        <Label htmlFor="web3Language">SMS Language</Label>
+                        <Select value={web3FormData.language} onValueChange={(value) => setWeb3FormData({ ...web3FormData, language: value })}>
+                          <SelectTrigger id="web3Language">
+                            <SelectValue placeholder="Select language" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SMS_LANGUAGES.map((lang) => (
+                              <SelectItem key={lang.value} value={lang.value}>{lang.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-slate-500 mt-1">
+                          Language for the visit code SMS
+                        </p>
+                      </div>
                     </div>
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -682,6 +774,18 @@ export default function HospitalAInterface() {
                       </div>
                     </div>
                     
+                    <div>
+                      <Label>Structured Clinical Details</Label>
+                      <p className="text-xs text-slate-500 mb-2">Optional. Stored with the encrypted record and as searchable entries.</p>
+                      <ClinicalDetailsEditor value={web3ClinicalDraft} onChange={setWeb3ClinicalDraft} />
+                    </div>
+
+                    <div>
+                      <Label>Attachments</Label>
+                      <p className="text-xs text-slate-500 mb-2">Optional. Encrypted and stored alongside the record.</p>
+                      <AttachmentPicker value={web3Attachments} onChange={setWeb3Attachments} />
+                    </div>
+
                     <div className="flex items-center space-x-3 p-4 bg-purple-50 rounded-lg">
                       <Checkbox
                         id="web3Consent"
@@ -702,6 +806,7 @@ export default function HospitalAInterface() {
                             patientName: "",
                             nationalId: "",
                             phoneNumber: "",
+                            language: "en",
                             visitDate: "",
                             visitType: "",
                             diagnosis: "",
@@ -709,6 +814,7 @@ export default function HospitalAInterface() {
                             physician: "",
                             department: "",
                           });
+                          setWeb3ClinicalDraft(EMPTY_CLINICAL_DRAFT);
                           setWeb3ConsentChecked(false);
                           setSubmittedWeb3(false);
                         }}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Archive } from "lucide-react";
+import {
+  DEFAULT_RETENTION_POLICY,
+  MAX_DEAL_DURATION_DAYS,
+  MAX_RENEWAL_LEAD_DAYS,
+  MIN_DEAL_DURATION_DAYS,
+  type RetentionPolicy,
+} from "@shared/filecoin-deals";
+
+const POLICY_KEY = "/api/filecoin/retention-policy";
+
+/**
+ * How long the hospital keeps records on Filecoin, and when their deals are renewed
+ */
+export default function RetentionSettings() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+
+  const { data, isLoading } = useQuery<{ policy: RetentionPolicy }>({
+    queryKey: [POLICY_KEY],
+    queryFn: async () => apiRequest("GET", POLICY_KEY).then(res => res.json()),
+  });
+
+  useEffect(() => {
+    if (data?.policy) setPolicy(data.policy);
+  }, [data]);
+
+  const send = async (method: string, url: string, body?: unknown) => {
+    const response = await apiRequestWithCsrf(method, url, body);
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || "Request failed");
+    return result;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => send("PUT", POLICY_KEY, policy),
+    onSuccess: () => {
+      toast({ title: "Retention Policy Saved", description: "Deals are renewed under the new policy from the next check." });
+      queryClient.invalidateQueries({ queryKey: [POLICY_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async () => send("POST", "/api/filecoin/renew-deals"),
+    onSuccess: ({ report }: { report: { renewed: number; failed: number; expired: number } }) => {
+      toast(report.failed > 0
+        ? { title: "Some Renewals Failed", description: `${report.renewed} renewed, ${report.failed} failed.`, variant: "destructive" }
+        : { title: "Renewal Complete", description: `${report.renewed} deal(s) renewed.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Renewal Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setNumber = (key: "retentionYears" | "dealDurationDays" | "renewalLeadDays") =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setPolicy({ ...policy, [key]: parseInt(e.target.value, 10) || 0 });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Archive className="h-5 w-5 text-indigo-600" />
+          <span>Record Retention</span>
+        </CardTitle>
+        <CardDescription>
+          Filecoin deals for records pinned on Pinata are renewed before they expire until the retention period ends. Admins are emailed if a renewal fails.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="retention-years">Keep records for (years)</Label>
+              <Input id="retention-years" type="number" min={1} max={100} value={policy.retentionYears} onChange={setNumber("retentionYears")} />
+            </div>
+            <div>
+              <Label htmlFor="retention-deal-duration">Deal length (days)</Label>
+              <Input
+                id="retention-deal-duration"
+                type="number"
+                min={MIN_DEAL_DURATION_DAYS}
+                max={MAX_DEAL_DURATION_DAYS}
+                value={policy.dealDurationDays}
+                onChange={setNumber("dealDurationDays")}
+              />
+            </div>
+            <div>
+              <Label htmlFor="retention-lead">Renew this many days early</Label>
+              <Input id="retention-lead" type="number" min={1} max={MAX_RENEWAL_LEAD_DAYS} value={policy.renewalLeadDays} onChange={setNumber("renewalLeadDays")} />
+            </div>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Switch id="retention-auto-renew" checked={policy.autoRenew} onCheckedChange={(autoRenew) => setPolicy({ ...policy, autoRenew })} />
+            <Label htmlFor="retention-auto-renew">Renew deals automatically</Label>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => renewMutation.mutate()} disabled={renewMutation.isPending}>
+              {renewMutation.isPending ? "Renewing..." : "Renew Now"}
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || isLoading}>
+              {saveMutation.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
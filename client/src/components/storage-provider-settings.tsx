@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCsrf } from "@/hooks/use-csrf";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { HardDrive } from "lucide-react";
+import { STORAGE_PROVIDER_KINDS, STORAGE_PROVIDER_LABELS, type StorageProviderKind } from "@shared/storage-providers";
+
+const PROVIDERS_KEY = "/api/admin/storage-providers";
+
+interface ProviderSummary {
+  id: number;
+  kind: StorageProviderKind;
+  name: string;
+  config: Record<string, string>;
+  hasCredentials: boolean;
+  priority: number;
+  enabled: boolean;
+}
+
+type FieldSpec = { key: string; label: string; secret?: boolean; optional?: boolean; placeholder?: string };
+
+// Form fields per kind; secret fields become credentials, the rest config
+const FIELDS: Record<StorageProviderKind, FieldSpec[]> = {
+  pinata: [
+    { key: "jwt", label: "API JWT", secret: true },
+    { key: "gatewayUrl", label: "Gateway URL", optional: true, placeholder: "https://gateway.pinata.cloud" },
+  ],
+  kubo: [
+    { key: "apiUrl", label: "RPC API URL", placeholder: "http://ipfs.hospital.local:5001" },
+    { key: "authorization", label: "Authorization header", secret: true, optional: true },
+  ],
+  s3: [
+    { key: "endpoint", label: "Endpoint", optional: true, placeholder: "http://minio.hospital.local:9000" },
+    { key: "region", label: "Region", placeholder: "us-east-1" },
+    { key: "bucket", label: "Bucket" },
+    { key: "prefix", label: "Key prefix", optional: true },
+    { key: "accessKeyId", label: "Access key ID", secret: true },
+    { key: "secretAccessKey", label: "Secret access key", secret: true },
+  ],
+  local: [
+    { key: "directory", label: "Directory (inside the server storage root)", placeholder: "hospital-records" },
+  ],
+};
+
+function describe(provider: ProviderSummary): string {
+  const { config } = provider;
+  switch (provider.kind) {
+    case "kubo": return config.apiUrl;
+    case "s3": return `${config.endpoint || "AWS"} · ${config.bucket}`;
+    case "local": return config.directory;
+    default: return config.gatewayUrl || "Pinata cloud";
+  }
+}
+
+/**
+ * Where the hospital's encrypted records and attachments are stored
+ */
+export default function StorageProviderSettings() {
+  const { toast } = useToast();
+  const { apiRequestWithCsrf } = useCsrf();
+  const [kind, setKind] = useState<StorageProviderKind>("kubo");
+  const [name, setName] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ providers: ProviderSummary[]; usingDefaults: boolean }>({
+    queryKey: [PROVIDERS_KEY],
+    queryFn: async () => apiRequest("GET", PROVIDERS_KEY).then(res => res.json()),
+  });
+
+  const send = async (method: string, url: string, body?: unknown) => {
+    const response = await apiRequestWithCsrf(method, url, body);
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || "Request failed");
+    return result;
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const config: Record<string, string> = {};
+      const credentials: Record<string, string> = {};
+      for (const field of FIELDS[kind]) {
+        const value = values[field.key]?.trim();
+        if (value) (field.secret ? credentials : config)[field.key] = value;
+      }
+      const priority = (data?.providers.length ?? 0) * 10;
+      return send("POST", PROVIDERS_KEY, {
+        kind,
+        name,
+        priority,
+        config,
+        ...(Object.keys(credentials).length > 0 ? { credentials } : {}),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Storage Provider Added", description: "New records and attachments are stored there from now on." });
+      setName("");
+      setValues({});
+      queryClient.invalidateQueries({ queryKey: [PROVIDERS_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Add Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (provider: ProviderSummary) =>
+      send("PATCH", `${PROVIDERS_KEY}/${provider.id}`, { enabled: !provider.enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [PROVIDERS_KEY] }),
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (provider: ProviderSummary) => send("POST", `${PROVIDERS_KEY}/${provider.id}/test`),
+    onSuccess: (result: { healthy: boolean }) => {
+      toast(result.healthy
+        ? { title: "Connection OK", description: "The provider is reachable with the saved settings." }
+        : { title: "Connection Failed", description: "Check the address and credentials.", variant: "destructive" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Test Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const providers = data?.providers || [];
+  const missingRequired = FIELDS[kind].some(field => !field.optional && !values[field.key]?.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <HardDrive className="h-5 w-5 text-indigo-600" />
+          <span>Storage</span>
+        </CardTitle>
+        <CardDescription>
+          Every new record and attachment is encrypted and then stored on each enabled provider. Disabled providers are still read from.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="space-y-3">
+            {data?.usingDefaults && (
+              <Alert>
+                <AlertDescription>
+                  No providers are enabled, so this hospital uses the server's default storage. Add one to keep data on your own infrastructure.
+                </AlertDescription>
+              </Alert>
+            )}
+            {providers.map(provider => (
+              <div key={provider.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{provider.name}</span>
+                    <Badge variant="secondary">{STORAGE_PROVIDER_LABELS[provider.kind]}</Badge>
+                  </div>
+                  <p className="text-sm text-slate-600">{describe(provider)}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Button variant="outline" size="sm" onClick={() => testMutation.mutate(provider)} disabled={testMutation.isPending}>
+                    Test
+                  </Button>
+                  <Switch checked={provider.enabled} onCheckedChange={() => toggleMutation.mutate(provider)} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <h4 className="font-medium text-slate-900">Add a provider</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => { setKind(value as StorageProviderKind); setValues({}); }}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {STORAGE_PROVIDER_KINDS.map(k => (
+                    <SelectItem key={k} value={k}>{STORAGE_PROVIDER_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="storage-provider-name">Name</Label>
+              <Input id="storage-provider-name" placeholder="e.g. Nairobi data centre" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            {FIELDS[kind].map(field => (
+              <div key={field.key}>
+                <Label htmlFor={`storage-provider-${field.key}`}>{field.label}{field.optional ? " (optional)" : ""}</Label>
+                <Input
+                  id={`storage-provider-${field.key}`}
+                  type={field.secret ? "password" : "text"}
+                  placeholder={field.placeholder}
+                  value={values[field.key] || ""}
+                  onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => addMutation.mutate()} disabled={addMutation.isPending || !name.trim() || missingRequired}>
+              {addMutation.isPending ? "Adding..." : "Add Provider"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,18 +4,23 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, User, InsertUser } from "@shared/schema";
+import type { Capability } from "@shared/permissions";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useCsrf } from "@/hooks/use-csrf";
 
+// The auth endpoints add the capabilities the user holds at their hospital
+type SelectUser = User & { capabilities?: Capability[] };
+
 type AuthContextType = {
   user: SelectUser | null;
+  hasCapability: (capability: Capability) => boolean;
   isLoading: boolean;
   error: Error | null;
   loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser & { hospitalName: string; hospitalType: string }>;
+  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
@@ -70,7 +75,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser & { hospitalName: string; hospitalType: string }) => {
+    mutationFn: async (credentials: InsertUser) => {
       const res = await apiRequestWithCsrf("POST", "/api/register", credentials);
       let data;
       try {
@@ -124,6 +129,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     <AuthContext.Provider
       value={{
         user: user ?? null,
+        hasCapability: (capability: Capability) => !!user?.capabilities?.includes(capability),
         isLoading,
         error,
         loginMutation,
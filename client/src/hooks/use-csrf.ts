@@ -79,7 +79,7 @@ export function useCsrf() {
   };
 
   // Get headers with CSRF token
-  const getCsrfHeaders = () => {
+  const getCsrfHeaders = (): Record<string, string> => {
     if (!csrfToken) {
       return {};
     }
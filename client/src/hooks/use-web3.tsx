@@ -41,7 +41,7 @@ interface Web3ContextType {
   generatePatientIdentity: () => Promise<void>;
   
   // Medical Records
-  submitRecordToIPFS: (recordData: any) => Promise<void>;
+  submitRecordToIPFS: (recordData: any) => Promise<any>;
   requestRecordAccess: (patientDID: string) => Promise<any>;
   
   // Consent Management
@@ -0,0 +1,194 @@
+import { verifyJWS } from "did-jwt";
+
+// Offline verification of signed ZK proof bundles (see server/proof-bundle-service.ts)
+
+const TRUST_ANCHORS_KEY = "zkp-trust-anchors";
+
+export interface TrustAnchors {
+  issuer: string;
+  publicKeyHex: string;
+  verificationKeys: Record<string, { fingerprint: string; verificationKey: any }>;
+  syncedAt: string;
+}
+
+export interface OfflineProofResult {
+  proofId: number;
+  type: string;
+  statement: string;
+  expiresAt: string;
+  valid: boolean;
+  error?: string;
+  revoked?: boolean;
+}
+
+export interface OfflineBundleResult {
+  valid: boolean;
+  error?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  proofs: OfflineProofResult[];
+  revocationChecked: boolean;
+}
+
+// A bundle is a compact JWS; a visit code is six digits
+export function isProofBundle(input: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(input.trim());
+}
+
+export function getTrustAnchors(): TrustAnchors | null {
+  try {
+    const stored = localStorage.getItem(TRUST_ANCHORS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cache the issuer key and verification keys, and warm the ZoKrates module,
+ * so bundles can be verified once the device is offline
+ */
+export async function syncTrustAnchors(): Promise<TrustAnchors | null> {
+  if (!navigator.onLine) return getTrustAnchors();
+  try {
+    const response = await fetch("/api/zkp/offline/trust-anchors");
+    if (!response.ok) return getTrustAnchors();
+    const anchors: TrustAnchors = { ...(await response.json()), syncedAt: new Date().toISOString() };
+    localStorage.setItem(TRUST_ANCHORS_KEY, JSON.stringify(anchors));
+    loadZokrates().catch(() => undefined);
+    return anchors;
+  } catch {
+    return getTrustAnchors();
+  }
+}
+
+let zokratesProvider: Promise<any> | null = null;
+
+function loadZokrates(): Promise<any> {
+  if (!zokratesProvider) {
+    zokratesProvider = import("zokrates-js").then(({ initialize }) => initialize()).catch((error) => {
+      zokratesProvider = null;
+      throw error;
+    });
+  }
+  return zokratesProvider;
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Bundle field elements are 32-byte big-endian values; ZoKrates expects 0x-prefixed hex
+function decodeField(value: string): string {
+  return "0x" + Array.from(base64UrlToBytes(value), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Ask the server which proofs have been revoked since the bundle was issued.
+ * Returns null when offline or the registry cannot be reached.
+ */
+async function fetchRevokedProofIds(proofIds: number[]): Promise<Set<number> | null> {
+  if (!navigator.onLine) return null;
+  try {
+    const revoked = new Set<number>();
+    for (const proofId of proofIds) {
+      const response = await fetch(`/api/zkp/revocations/${proofId}`);
+      if (!response.ok) return null;
+      const data = await response.json();
+      if (data.revoked) revoked.add(proofId);
+    }
+    return revoked;
+  } catch {
+    return null;
+  }
+}
+
+export async function verifyProofBundle(bundle: string): Promise<OfflineBundleResult> {
+  const anchors = getTrustAnchors() || (await syncTrustAnchors());
+  if (!anchors) {
+    return { valid: false, error: "Verifier keys not available. Connect once to download them.", proofs: [], revocationChecked: false };
+  }
+
+  let payload: any;
+  try {
+    verifyJWS(bundle.trim(), {
+      id: `${anchors.issuer}#bundle-key`,
+      type: "EcdsaSecp256k1VerificationKey2019",
+      controller: anchors.issuer,
+      publicKeyHex: anchors.publicKeyHex,
+    });
+    payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(bundle.trim().split(".")[1])));
+  } catch {
+    return { valid: false, error: "Bundle signature is not valid", proofs: [], revocationChecked: false };
+  }
+
+  const now = Date.now() / 1000;
+  const issuedAt = new Date(payload.iat * 1000).toISOString();
+  const expiresAt = new Date(payload.exp * 1000).toISOString();
+  if (payload.iss !== anchors.issuer) {
+    return { valid: false, error: "Bundle was issued by an unknown issuer", proofs: [], revocationChecked: false };
+  }
+  if (payload.exp < now) {
+    return { valid: false, error: "Bundle has expired", issuedAt, expiresAt, proofs: [], revocationChecked: false };
+  }
+
+  const provider = await loadZokrates();
+  const proofs: OfflineProofResult[] = [];
+  for (const entry of payload.p || []) {
+    const result: OfflineProofResult = {
+      proofId: entry.id,
+      type: entry.t,
+      statement: entry.s,
+      expiresAt: new Date(entry.e * 1000).toISOString(),
+      valid: false,
+    };
+    const key = anchors.verificationKeys[entry.c];
+    if (entry.e < now) {
+      result.error = "Proof has expired";
+    } else if (!key || payload.vk?.[entry.c] !== key.fingerprint || (await sha256Hex(JSON.stringify(key.verificationKey))) !== key.fingerprint) {
+      result.error = "Unknown verification key";
+    } else {
+      const [a0, a1, b00, b01, b10, b11, c0, c1] = entry.pr.map(decodeField);
+      try {
+        result.valid = provider.verify(key.verificationKey, {
+          scheme: "g16",
+          curve: "bn128",
+          proof: { a: [a0, a1], b: [[b00, b01], [b10, b11]], c: [c0, c1] },
+          inputs: entry.in.map(decodeField),
+        });
+        if (!result.valid) result.error = "Proof did not verify";
+      } catch {
+        result.error = "Proof did not verify";
+      }
+    }
+    proofs.push(result);
+  }
+
+  // Signature and proofs check out offline; revocation needs the registry when we can reach it
+  const revoked = await fetchRevokedProofIds(proofs.filter((p) => p.valid).map((p) => p.proofId));
+  if (revoked) {
+    for (const proof of proofs) {
+      if (revoked.has(proof.proofId)) {
+        proof.valid = false;
+        proof.revoked = true;
+        proof.error = "Proof has been revoked";
+      }
+    }
+  }
+
+  const valid = proofs.some((p) => p.valid);
+  return {
+    valid,
+    error: valid ? undefined : "No valid proofs in this bundle",
+    issuedAt,
+    expiresAt,
+    proofs,
+    revocationChecked: revoked !== null,
+  };
+}
@@ -26,9 +26,9 @@ import {
 } from "lucide-react";
 
 const STAFF_ROLES = [
-  { value: "HOSPITAL_A_ONLY", label: "Hospital A Only (Record Creation)", icon: Building2, color: "bg-blue-100 text-blue-700" },
-  { value: "HOSPITAL_B_ONLY", label: "Hospital B Only (Record Access)", icon: Eye, color: "bg-green-100 text-green-700" },
-  { value: "BOTH_A_B", label: "Both Hospitals (Full Access)", icon: Building2, color: "bg-purple-100 text-purple-700" },
+  { value: "CLINICIAN", label: "Clinician (Create & Access Records)", icon: Building2, color: "bg-purple-100 text-purple-700" },
+  { value: "RECORD_SUBMITTER", label: "Record Submitter", icon: Building2, color: "bg-blue-100 text-blue-700" },
+  { value: "RECORD_ACCESSOR", label: "Record Accessor", icon: Eye, color: "bg-green-100 text-green-700" },
   { value: "EMERGENCY_AUTHORIZER", label: "Emergency Authorizer", icon: AlertTriangle, color: "bg-red-100 text-red-700" }
 ];
 
@@ -6,7 +6,6 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Stethoscope, Shield, Users, Lock } from "lucide-react";
 import { Link } from "wouter";
 
@@ -19,7 +18,6 @@ export default function AuthPage() {
     username: "", 
     password: "", 
     hospitalName: "", 
-    hospitalType: "",
     // Placeholder; backend assigns real hospital_id on registration
     hospital_id: 0
   });
@@ -154,21 +152,6 @@ export default function AuthPage() {
                         required
                       />
                     </div>
-                    <div>
-                      <Label htmlFor="register-type">Hospital Type</Label>
-                      <Select 
-                        value={registerData.hospitalType} 
-                        onValueChange={(value) => setRegisterData({ ...registerData, hospitalType: value })}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select hospital type" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="A">Hospital A (Record Submission)</SelectItem>
-                          <SelectItem value="B">Hospital B (Record Retrieval)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
                     <Button 
                       type="submit" 
                       className="w-full bg-blue-600 hover:bg-blue-700"
@@ -1,8 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import NavigationHeader from "@/components/navigation-header";
-import HospitalAInterface from "@/components/hospital-a-interface";
-import HospitalBInterface from "@/components/hospital-b-interface";
+import HospitalWorkspace from "@/components/hospital-workspace";
 import ConsentModal from "@/components/consent-modal";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Globe, Building } from "lucide-react";
@@ -12,7 +11,6 @@ import { useQuery } from "@tanstack/react-query";
 export default function HomePage() {
   const { user } = useAuth();
   if (!user) return null;
-  const [currentHospital, setCurrentHospital] = useState<"A" | "B">(user?.hospitalType as "A" | "B" || "A");
   const [consentModalData, setConsentModalData] = useState<{
     patientName: string;
     patientDID: string;
@@ -80,8 +78,6 @@ export default function HomePage() {
   return (
     <div className="min-h-screen bg-slate-50">
       <NavigationHeader 
-        currentHospital={currentHospital}
-        onHospitalSwitch={setCurrentHospital}
         user={user!}
         showStaffProfileModal={showStaffProfileModal}
         setShowStaffProfileModal={setShowStaffProfileModal}
@@ -90,11 +86,7 @@ export default function HomePage() {
       />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
-        {currentHospital === "A" ? (
-          <HospitalAInterface />
-        ) : (
-          <HospitalBInterface onShowConsentModal={showConsentModal} />
-        )}
+        <HospitalWorkspace onShowConsentModal={showConsentModal} />
       </main>
 
       {consentModalData && (
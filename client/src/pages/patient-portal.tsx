@@ -4,16 +4,24 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useCsrf } from "@/hooks/use-csrf";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Phone, Shield, FileText, Clock, Key, Globe, User, ArrowLeft, Stethoscope, AlertTriangle, Calendar, Building, CreditCard, Mail, CheckCircle, ChevronDown, Settings, LogOut } from "lucide-react";
+import { Phone, Shield, FileText, Clock, Key, Globe, User, ArrowLeft, Stethoscope, AlertTriangle, Calendar, Building, CreditCard, Mail, CheckCircle, ChevronDown, Settings, LogOut, Ban, QrCode } from "lucide-react";
 import PatientLoginModal from "@/components/patient-login-modal";
 import { Link, useLocation } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import PatientProfileCompletion from "@/components/patient-profile-completion";
+import ConsentScopeForm, { describeConsentScope, type ConsentScope } from "@/components/consent-scope-form";
+import GuardianDelegations from "@/components/guardian-delegations";
+import ClinicalDetailsView, { AllergySeverityBadge } from "@/components/clinical-details-view";
+import RecordAttachmentList from "@/components/record-attachments";
+import { AmendedBadge } from "@/components/record-history";
+import RecordCorrectionRequestPanel from "@/components/record-correction-request";
+import type { RecordClinicalDetails } from "@shared/schema";
 
 interface PatientRecord {
   id: number;
@@ -27,6 +35,9 @@ interface PatientRecord {
   recordType: string;
   ipfsHash?: string;
   consentGiven: boolean;
+  clinical?: RecordClinicalDetails;
+  currentVersion?: number;
+  amendedAt?: string | null;
   consentRecords: Array<{
     accessedBy: number;
     consentGrantedBy: string;
@@ -42,6 +53,10 @@ export default function PatientPortal() {
   const [patient, setPatient] = useState<any>(null);
   const [showProfileCompletion, setShowProfileCompletion] = useState(false);
   const [currentPatientForEdit, setCurrentPatientForEdit] = useState<any>(null);
+  const [revokeVisitCode, setRevokeVisitCode] = useState("");
+  const [passVisitCode, setPassVisitCode] = useState("");
+  const [offlinePass, setOfflinePass] = useState<{ bundle: string; qrCode: string | null; expiresAt: string; totalProofs: number } | null>(null);
+  const [approvingRequestId, setApprovingRequestId] = useState<number | null>(null);
 
   // Check if patient is already logged in
   const { data: currentPatient, refetch } = useQuery({
@@ -65,6 +80,17 @@ export default function PatientPortal() {
     retry: false,
   });
 
+  // Active allergies across all visits
+  const { data: patientAllergies, refetch: refetchAllergies } = useQuery({
+    queryKey: ["/api/patient/allergies"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/patient/allergies");
+      return response.json();
+    },
+    enabled: false,
+    retry: false,
+  });
+
   // Fetch patient consents
   const { data: patientConsents, refetch: refetchConsents } = useQuery({
     queryKey: ["/api/patient/consents"],
@@ -76,6 +102,17 @@ export default function PatientPortal() {
     retry: false,
   });
 
+  // Fetch scoped consent grants
+  const { data: consentGrants, refetch: refetchConsentGrants } = useQuery({
+    queryKey: ["/api/patient/consent-grants"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/patient/consent-grants");
+      return response.json();
+    },
+    enabled: false,
+    retry: false,
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       console.debug('[CSRF] Using apiRequestWithCsrf for /api/patient/logout');
@@ -94,14 +131,15 @@ export default function PatientPortal() {
   });
 
   const consentResponseMutation = useMutation({
-    mutationFn: async ({ requestId, action }: { requestId: number; action: 'approve' | 'deny' }) => {
+    mutationFn: async ({ requestId, action, scope }: { requestId: number; action: 'approve' | 'deny'; scope?: ConsentScope }) => {
       const consentType = patient?.patientDID ? 'web3' : 'traditional';
       console.debug('[CSRF] Using apiRequestWithCsrf for /api/patient/respond-to-consent');
       const response = await apiRequestWithCsrf("POST", "/api/patient/respond-to-consent", {
         requestId,
         action,
         reason: action === 'approve' ? 'Patient approved consent' : 'Patient denied consent',
-        consentType: consentType
+        consentType: consentType,
+        scope,
       });
       return response.json();
     },
@@ -111,7 +149,9 @@ export default function PatientPortal() {
         description: data.message,
       });
       // Refresh consents to show updated status
+      setApprovingRequestId(null);
       refetchConsents();
+      refetchConsentGrants();
     },
     onError: (error: Error) => {
       toast({
@@ -122,13 +162,75 @@ export default function PatientPortal() {
     },
   });
 
+  const revokeGrantMutation = useMutation({
+    mutationFn: async (grantId: number) => {
+      const response = await apiRequestWithCsrf("POST", `/api/patient/consent-grants/${grantId}/revoke`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Access Revoked",
+        description: data.message,
+      });
+      refetchConsentGrants();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revocation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeVisitCodeMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequestWithCsrf("POST", "/api/zkp/revoke-visit-code", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Proofs Revoked",
+        description: data.message,
+      });
+      setRevokeVisitCode("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revocation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const offlinePassMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequestWithCsrf("POST", "/api/zkp/offline-bundle", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setOfflinePass(data);
+    },
+    onError: (error: Error) => {
+      setOfflinePass(null);
+      toast({
+        title: "Offline Pass Unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handlePatientLogin = (patientData: any) => {
     setPatient(patientData);
     setShowLogin(false);
     // Fetch records and consents after login
     refetch();
     refetchRecords();
+    refetchAllergies();
     refetchConsents();
+    refetchConsentGrants();
     toast({
       title: "Welcome!",
       description: patientData.isNewUser 
@@ -137,8 +239,26 @@ export default function PatientPortal() {
     });
   };
 
-  const handleConsentResponse = (requestId: number, action: 'approve' | 'deny') => {
-    consentResponseMutation.mutate({ requestId, action });
+  // Standard FHIR R4 Bundle of all the patient's records, to take to another provider
+  const downloadFhirBundle = async () => {
+    try {
+      const response = await apiRequest("GET", "/api/patient/fhir");
+      const blob = new Blob([await response.text()], { type: "application/fhir+json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `my-health-records-${new Date().toISOString().slice(0, 10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Download Failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleConsentResponse = (requestId: number, action: 'approve' | 'deny', scope?: ConsentScope) => {
+    consentResponseMutation.mutate({ requestId, action, scope });
   };
 
   const handleEditProfile = () => {
@@ -169,6 +289,7 @@ export default function PatientPortal() {
     // Refetch patient data to get updated profile
     await refetch();
     await refetchRecords();
+    await refetchAllergies();
     await refetchConsents();
     
     toast({
@@ -480,9 +601,31 @@ export default function PatientPortal() {
                   {patientRecords?.totalRecords > 0 && (
                     <Badge variant="secondary" className="text-xs sm:text-sm">{patientRecords.totalRecords} records</Badge>
                   )}
+                  {patientRecords?.totalRecords > 0 && (
+                    <Button variant="outline" size="sm" className="ml-auto" onClick={downloadFhirBundle}>
+                      <FileText className="h-3 w-3 mr-1" />
+                      Download (FHIR)
+                    </Button>
+                  )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {patientAllergies?.allergies?.length > 0 && (
+                  <Alert className="mb-4 border-red-200 bg-red-50">
+                    <AlertTriangle className="h-4 w-4 text-red-600" />
+                    <AlertDescription>
+                      <span className="font-medium text-red-900 mr-2">Active allergies:</span>
+                      <span className="inline-flex flex-wrap gap-2 align-middle">
+                        {patientAllergies.allergies.map((allergy: { id: number; substance: string; severity: string }) => (
+                          <span key={allergy.id} className="inline-flex items-center gap-1 text-sm text-red-900">
+                            {allergy.substance}
+                            <AllergySeverityBadge severity={allergy.severity} />
+                          </span>
+                        ))}
+                      </span>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 {patientRecords?.records && patientRecords.records.length > 0 ? (
                   <div className="space-y-3 sm:space-y-4">
                     {patientRecords.records.map((record: PatientRecord) => (
@@ -517,6 +660,7 @@ export default function PatientPortal() {
                                   Consent Given
                                 </Badge>
                               )}
+                              <AmendedBadge currentVersion={record.currentVersion} />
                             </div>
                           </div>
                           
@@ -539,6 +683,10 @@ export default function PatientPortal() {
                                 <p className="text-xs sm:text-sm text-slate-600">{record.department}</p>
                               </div>
                             )}
+
+                            <ClinicalDetailsView clinical={record.clinical} />
+                            <RecordAttachmentList recordId={record.id} scope="patient" />
+                            <RecordCorrectionRequestPanel recordId={record.id} />
                           </div>
                           
                           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-slate-200 space-y-2 sm:space-y-0">
@@ -561,7 +709,7 @@ export default function PatientPortal() {
                               <div className="space-y-2">
                                 {record.consentRecords.map((consent, index) => (
                                   <div key={index} className="flex items-center justify-between text-xs text-slate-600">
-                                    <span>Accessed by Hospital B</span>
+                                    <span>Accessed by another hospital</span>
                                     <span>{new Date(consent.accessedAt).toLocaleDateString()}</span>
                                   </div>
                                 ))}
@@ -619,9 +767,6 @@ export default function PatientPortal() {
                               <div className="flex items-center space-x-2 mb-2">
                                 <Building className="h-4 w-4 text-amber-600" />
                                 <p className="font-medium text-slate-900">{request.hospitalName}</p>
-                                <Badge variant="outline" className="text-xs">
-                                  {request.hospitalType === 'B' ? 'Hospital B' : 'Unknown'}
-                                </Badge>
                                 <Badge variant={request.consentType === 'web3' ? 'default' : 'secondary'} className={`text-xs ${request.consentType === 'web3' ? 'bg-purple-100 text-purple-800' : ''}`}>
                                   {request.consentType === 'web3' ? 'Web3' : 'Traditional'}
                                 </Badge>
@@ -647,13 +792,54 @@ export default function PatientPortal() {
                               <Button
                                 size="sm"
                                 className="bg-green-600 hover:bg-green-700"
-                                onClick={() => handleConsentResponse(request.id, 'approve')}
-                                disabled={consentResponseMutation.isPending}
+                                onClick={() => setApprovingRequestId(request.id)}
+                                disabled={consentResponseMutation.isPending || approvingRequestId === request.id}
                               >
-                                {consentResponseMutation.isPending ? 'Approving...' : 'Approve'}
+                                Approve
                               </Button>
                             </div>
                           </div>
+                          {approvingRequestId === request.id && (
+                            <div className="mt-4">
+                              <ConsentScopeForm
+                                records={patientRecords?.records || []}
+                                isPending={consentResponseMutation.isPending}
+                                onSubmit={(scope) => handleConsentResponse(request.id, 'approve', scope)}
+                                onCancel={() => setApprovingRequestId(null)}
+                              />
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+
+                {/* Scoped Consent Grants */}
+                {consentGrants?.grants && consentGrants.grants.some((g: any) => g.active) && (
+                  <div className="space-y-4 mb-8">
+                    <h4 className="font-medium text-slate-900">Active Access Grants</h4>
+                    {consentGrants.grants.filter((g: any) => g.active).map((grant: any) => (
+                      <Card key={grant.id} className="border-l-4 border-l-blue-500">
+                        <CardContent className="pt-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium text-slate-900">{grant.hospitalName}</p>
+                              <p className="text-sm text-slate-600">{describeConsentScope(grant)}</p>
+                              <p className="text-xs text-slate-500">
+                                Expires {new Date(grant.expiresAt).toLocaleString()}
+                              </p>
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="border-red-200 text-red-700 hover:bg-red-50"
+                              onClick={() => revokeGrantMutation.mutate(grant.id)}
+                              disabled={revokeGrantMutation.isPending}
+                            >
+                              Revoke
+                            </Button>
+                          </div>
                         </CardContent>
                       </Card>
                     ))}
@@ -670,7 +856,7 @@ export default function PatientPortal() {
                           <div className="flex items-center justify-between">
                             <div>
                               <div className="flex items-center space-x-2 mb-1">
-                              <p className="font-medium text-slate-900">Hospital B Access</p>
+                              <p className="font-medium text-slate-900">{consent.hospitalName || "Hospital"} Access</p>
                                 <Badge variant="secondary" className="text-xs">
                                   Traditional
                                 </Badge>
@@ -743,6 +929,89 @@ export default function PatientPortal() {
                 )}
               </CardContent>
             </Card>
+
+            <GuardianDelegations />
+
+            <Card className="mt-4 sm:mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <QrCode className="h-5 w-5 text-blue-600" />
+                  <span>Offline Proof Pass</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-slate-600">
+                  Turn a visit code into a signed QR pass that verifiers can check even without an internet connection.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={passVisitCode}
+                    onChange={(e) => setPassVisitCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                    placeholder="Visit code"
+                    inputMode="numeric"
+                    className="sm:max-w-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => offlinePassMutation.mutate(passVisitCode)}
+                    disabled={passVisitCode.length !== 6 || offlinePassMutation.isPending}
+                  >
+                    {offlinePassMutation.isPending ? 'Generating...' : 'Generate Pass'}
+                  </Button>
+                </div>
+                {offlinePass && (
+                  <div className="flex flex-col items-center space-y-2 pt-2">
+                    {offlinePass.qrCode ? (
+                      <img src={offlinePass.qrCode} alt="Offline proof pass QR code" className="w-56 h-56" />
+                    ) : (
+                      <Alert>
+                        <AlertDescription>
+                          This visit has too many proofs for one QR code. Copy the pass text below and share it instead.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    <p className="text-xs text-slate-500">
+                      {offlinePass.totalProofs} proof(s) · valid until {new Date(offlinePass.expiresAt).toLocaleString()}
+                    </p>
+                    <Button size="sm" variant="ghost" onClick={() => navigator.clipboard.writeText(offlinePass.bundle)}>
+                      Copy pass text
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="mt-4 sm:mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Ban className="h-5 w-5 text-red-600" />
+                  <span>Revoke Visit Proofs</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-slate-600">
+                  Enter the 6-digit visit code you received by SMS to revoke every health proof issued for that visit.
+                  Revoked proofs fail verification immediately, including copies already shared.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={revokeVisitCode}
+                    onChange={(e) => setRevokeVisitCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                    placeholder="Visit code"
+                    inputMode="numeric"
+                    className="sm:max-w-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    className="border-red-200 text-red-700 hover:bg-red-50"
+                    onClick={() => revokeVisitCodeMutation.mutate(revokeVisitCode)}
+                    disabled={revokeVisitCode.length !== 6 || revokeVisitCodeMutation.isPending}
+                  >
+                    {revokeVisitCodeMutation.isPending ? 'Revoking...' : 'Revoke Proofs'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </main>
@@ -1,18 +1,66 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useLocation } from "wouter";
+import { isProofBundle, syncTrustAnchors, verifyProofBundle } from "@/lib/offline-proof-verifier";
+
+// Mirrors the summary /api/zkp/verify-code returns, so both paths render the same way
+function summarizeProofs(proofs: Array<{ type: string; statement: string }>) {
+  const contagious = proofs.some(pr => pr.type === 'contagious_flag' || /contagious/i.test(pr.statement || ''));
+  const categories = Array.from(new Set(
+    proofs
+      .filter(pr => pr.type === 'icd_category' || pr.type === 'icd_chapter')
+      .map(pr => (pr.statement || '').replace(/^Patient condition falls under\s*/i, '').replace(/^ICD-11 category:\s*/i, '').trim())
+  ));
+  return { contagious, categories };
+}
 
 export default function VerifierPage() {
   const [code, setCode] = useState("");
   const [result, setResult] = useState<string | null>(null);
   const [struct, setStruct] = useState<any | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
   const [, navigate] = useLocation();
+  const canScan = useMemo(() => typeof window !== "undefined" && "BarcodeDetector" in window && !!navigator.mediaDevices?.getUserMedia, []);
+
+  // Download issuer and verification keys while online so bundles can be checked offline later
+  useEffect(() => {
+    syncTrustAnchors();
+  }, []);
+
+  const verifyBundle = async (bundle: string) => {
+    setResult("Verifying offline...");
+    const data = await verifyProofBundle(bundle);
+    if (data.valid) {
+      const proofs = data.proofs.filter(p => p.valid);
+      setStruct({
+        offline: true,
+        revocationChecked: data.revocationChecked,
+        totalProofs: proofs.length,
+        summary: summarizeProofs(proofs),
+        proofs,
+        rejected: data.proofs.filter(p => !p.valid),
+      });
+      setResult(null);
+    } else {
+      setStruct(null);
+      setResult(`❌ ${data.error || 'Invalid bundle'}`);
+    }
+  };
 
-  const handleVerify = async () => {
+  const handleVerify = async (input: string = code) => {
+    if (isProofBundle(input)) {
+      return verifyBundle(input);
+    }
+    if (!navigator.onLine) {
+      setStruct(null);
+      setResult("❌ Verifying a 6-digit code needs a connection. Scan the patient's QR bundle instead.");
+      return;
+    }
     setResult("Verifying...");
     const resp = await fetch("/api/zkp/verify-code", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ code }),
+      body: JSON.stringify({ code: input }),
     });
     const data = await resp.json();
     if (data.valid) {
@@ -24,6 +72,41 @@ export default function VerifierPage() {
     }
   };
 
+  const stopScan = () => {
+    const stream = videoRef.current?.srcObject as MediaStream | null;
+    stream?.getTracks().forEach(track => track.stop());
+    setScanning(false);
+  };
+
+  const startScan = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      setScanning(true);
+      setStruct(null);
+      setResult(null);
+      const video = videoRef.current!;
+      video.srcObject = stream;
+      await video.play();
+      const detector = new (window as any).BarcodeDetector({ formats: ["qr_code"] });
+      const scan = async () => {
+        if (!video.srcObject) return;
+        const codes = await detector.detect(video).catch(() => []);
+        if (codes.length > 0) {
+          const value = codes[0].rawValue as string;
+          stopScan();
+          setCode(value);
+          handleVerify(value);
+          return;
+        }
+        requestAnimationFrame(scan);
+      };
+      requestAnimationFrame(scan);
+    } catch (error: any) {
+      stopScan();
+      setResult(`❌ Camera unavailable: ${error.message}`);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-green-50 py-8">
       <div className="w-full max-w-md bg-white rounded-2xl shadow-xl border border-slate-200 p-8 relative">
@@ -43,30 +126,38 @@ export default function VerifierPage() {
         <input
           className="border border-slate-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 rounded-lg p-3 w-full text-lg mb-4 transition"
           value={code}
-          onChange={e => setCode(e.target.value)}
-          maxLength={32}
+          onChange={e => setCode(e.target.value.trim())}
           placeholder="e.g. 932841 or paste QR payload"
         />
         <div className="flex gap-2 mb-4">
           <button
             className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold flex-1 transition"
-            onClick={handleVerify}
+            onClick={() => handleVerify()}
           >
             Verify
           </button>
           <button
-            className="bg-slate-100 hover:bg-slate-200 text-blue-700 px-4 py-2 rounded-lg font-semibold flex-1 transition cursor-not-allowed"
-            disabled
+            className={`bg-slate-100 hover:bg-slate-200 text-blue-700 px-4 py-2 rounded-lg font-semibold flex-1 transition ${canScan ? '' : 'cursor-not-allowed'}`}
+            onClick={scanning ? stopScan : startScan}
+            disabled={!canScan}
           >
-            Scan QR (soon)
+            {scanning ? 'Stop scanning' : canScan ? 'Scan QR' : 'Scan QR (unsupported)'}
           </button>
         </div>
+        <video ref={videoRef} className={`w-full rounded-lg mb-4 ${scanning ? '' : 'hidden'}`} muted playsInline />
         {result && (
           <div className={`mt-4 text-lg font-semibold text-center ${result.includes('VALID') ? 'text-green-600' : 'text-red-600'}`}>{result.split('\n').map((line, i) => <div key={i}>{line}</div>)}</div>
         )}
         {struct && (
           <div className="mt-4 space-y-3">
             <div className="text-green-700 font-bold text-center">✅ Proofs VALID ({struct.totalProofs})</div>
+            {struct.offline && (
+              <div className={`text-xs text-center rounded px-3 py-2 border ${struct.revocationChecked ? 'text-slate-600 bg-slate-50 border-slate-200' : 'text-amber-700 bg-amber-50 border-amber-200'}`}>
+                {struct.revocationChecked
+                  ? 'Verified offline from the signed bundle; revocation status confirmed online.'
+                  : 'Verified offline from the signed bundle. Revocation could not be checked without a connection.'}
+              </div>
+            )}
             {struct.summary?.contagious && (
               <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded px-3 py-2 text-center">Contagious condition</div>
             )}
@@ -88,6 +179,12 @@ export default function VerifierPage() {
                   <div className="text-xs text-slate-500 mt-1">Expires: {p.expiresAt ? new Date(p.expiresAt).toLocaleString() : '—'}</div>
                 </div>
               ))}
+              {struct.rejected?.map((p: any) => (
+                <div key={p.proofId} className="border border-red-200 bg-red-50 rounded-lg p-3">
+                  <div className="font-medium text-slate-800 line-through">{p.statement}</div>
+                  <div className="text-xs text-red-700 mt-1">{p.error}</div>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -0,0 +1,14 @@
+-- ZKP proof revocation registry (Merkle-accumulated, root anchored to the Hedera audit topic)
+CREATE TABLE IF NOT EXISTS zkp_proof_revocations (
+  id SERIAL PRIMARY KEY,
+  proof_id INTEGER NOT NULL UNIQUE REFERENCES zkp_proofs(id),
+  proof_hash TEXT NOT NULL,
+  patient_did TEXT NOT NULL,
+  reason TEXT,
+  revoked_by TEXT NOT NULL,
+  merkle_root TEXT NOT NULL,
+  list_size INTEGER NOT NULL,
+  revoked_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_zkp_proof_revocations_patient_did ON zkp_proof_revocations(patient_did);
@@ -0,0 +1,10 @@
+-- USSD PINs (hashed) with failed-attempt lockout
+CREATE TABLE IF NOT EXISTS ussd_pins (
+  id SERIAL PRIMARY KEY,
+  phone_number TEXT NOT NULL UNIQUE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,18 @@
+-- Per-record consent grants with a patient-chosen expiry
+CREATE TABLE IF NOT EXISTS consent_grants (
+  id SERIAL PRIMARY KEY,
+  patient_id TEXT NOT NULL,
+  patient_did TEXT,
+  granted_to INTEGER NOT NULL REFERENCES users(id),
+  record_ids JSONB,
+  record_types JSONB,
+  date_from TEXT,
+  date_to TEXT,
+  consent_request_id INTEGER,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  hospital_id INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_grants_patient_grantee ON consent_grants (patient_id, granted_to);
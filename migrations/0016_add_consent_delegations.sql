@@ -0,0 +1,21 @@
+-- Guardians and caregivers acting on a patient's consent
+CREATE TABLE IF NOT EXISTS consent_delegations (
+  id SERIAL PRIMARY KEY,
+  patient_did TEXT NOT NULL,
+  patient_id TEXT NOT NULL,
+  delegate_phone TEXT,
+  delegate_did TEXT,
+  delegate_name TEXT NOT NULL,
+  relationship TEXT NOT NULL,
+  powers JSONB NOT NULL,
+  authority_type TEXT NOT NULL,
+  authority_reference TEXT,
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_delegations_patient ON consent_delegations (patient_did);
+CREATE INDEX IF NOT EXISTS idx_consent_delegations_phone ON consent_delegations (delegate_phone);
+CREATE INDEX IF NOT EXISTS idx_consent_delegations_did ON consent_delegations (delegate_did);
@@ -0,0 +1,17 @@
+-- Post-emergency review queue for break-glass access
+CREATE TABLE IF NOT EXISTS emergency_access_reviews (
+  id SERIAL PRIMARY KEY,
+  emergency_consent_id TEXT NOT NULL UNIQUE REFERENCES emergency_consent_records(id),
+  status TEXT NOT NULL DEFAULT 'pending',
+  due_at TIMESTAMP NOT NULL,
+  reviewer_id INTEGER REFERENCES users(id),
+  reviewer_notes TEXT,
+  decided_at TIMESTAMP,
+  reminders_sent INTEGER NOT NULL DEFAULT 0,
+  last_reminder_at TIMESTAMP,
+  patient_notified_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  hospital_id INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_access_reviews_status ON emergency_access_reviews (hospital_id, status, due_at);
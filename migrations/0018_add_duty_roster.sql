@@ -0,0 +1,30 @@
+-- Duty roster: shift templates per department and staff assignments
+CREATE TABLE IF NOT EXISTS shift_templates (
+  id SERIAL PRIMARY KEY,
+  hospital_id TEXT NOT NULL,
+  department TEXT NOT NULL,
+  name TEXT NOT NULL,
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  days_of_week JSONB NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'Africa/Nairobi',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS shift_assignments (
+  id SERIAL PRIMARY KEY,
+  template_id INTEGER NOT NULL REFERENCES shift_templates(id),
+  hospital_id TEXT NOT NULL,
+  staff_id TEXT NOT NULL REFERENCES hospital_staff(staff_id),
+  shift_date TEXT NOT NULL,
+  handover_notes TEXT,
+  handover_at TIMESTAMP,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT one_assignment_per_shift UNIQUE (template_id, staff_id, shift_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shift_templates_hospital ON shift_templates (hospital_id, department);
+CREATE INDEX IF NOT EXISTS idx_shift_assignments_staff_date ON shift_assignments (staff_id, shift_date);
+CREATE INDEX IF NOT EXISTS idx_shift_assignments_hospital_date ON shift_assignments (hospital_id, shift_date);
@@ -0,0 +1,38 @@
+-- Replace the fixed Hospital A / Hospital B split with roles and per-hospital capabilities
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'CLINICIAN';
+
+-- Keep existing accounts to what they could do before
+UPDATE users SET role = CASE
+  WHEN is_admin THEN 'ADMIN'
+  WHEN hospital_type = 'A' THEN 'RECORD_SUBMITTER'
+  WHEN hospital_type = 'B' THEN 'RECORD_ACCESSOR'
+  ELSE 'CLINICIAN'
+END;
+
+UPDATE hospital_staff_invitations SET role = CASE role
+  WHEN 'HOSPITAL_A_ONLY' THEN 'RECORD_SUBMITTER'
+  WHEN 'HOSPITAL_B_ONLY' THEN 'RECORD_ACCESSOR'
+  WHEN 'BOTH_A_B' THEN 'CLINICIAN'
+  ELSE role
+END;
+
+-- Invited staff take the role they were invited with
+UPDATE users u SET role = i.role
+FROM hospital_staff_invitations i
+WHERE i.accepted_user_id = u.id AND NOT u.is_admin;
+
+UPDATE users u SET role = i.role
+FROM hospital_staff_invitations i
+WHERE i.status = 'pending' AND i.email = u.email AND u.is_invitation_active AND NOT u.is_admin;
+
+ALTER TABLE users DROP COLUMN IF EXISTS hospital_type;
+
+CREATE TABLE IF NOT EXISTS hospital_permissions (
+  id SERIAL PRIMARY KEY,
+  hospital_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  capabilities JSONB NOT NULL,
+  updated_by INTEGER REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT one_permission_row_per_role UNIQUE (hospital_id, role)
+);
@@ -0,0 +1,71 @@
+-- Structured clinical sub-records linked to a patient record (visit)
+CREATE TABLE IF NOT EXISTS record_allergies (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  substance TEXT NOT NULL,
+  reaction TEXT,
+  severity TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS record_medications (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  name TEXT NOT NULL,
+  dose TEXT,
+  route TEXT,
+  frequency TEXT,
+  start_date TEXT,
+  end_date TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS record_vital_signs (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  systolic INTEGER,
+  diastolic INTEGER,
+  heart_rate INTEGER,
+  respiratory_rate INTEGER,
+  temperature_c REAL,
+  oxygen_saturation INTEGER,
+  weight_kg REAL,
+  height_cm REAL,
+  measured_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS record_lab_results (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  test_name TEXT NOT NULL,
+  code TEXT,
+  value TEXT NOT NULL,
+  numeric_value REAL,
+  unit TEXT,
+  reference_low REAL,
+  reference_high REAL,
+  reference_text TEXT,
+  interpretation TEXT,
+  collected_at TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS record_immunizations (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  vaccine TEXT NOT NULL,
+  dose_number INTEGER,
+  lot_number TEXT,
+  administered_date TEXT NOT NULL,
+  site TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_allergies_record ON record_allergies (record_id);
+CREATE INDEX IF NOT EXISTS idx_record_allergies_severity ON record_allergies (severity);
+CREATE INDEX IF NOT EXISTS idx_record_medications_record ON record_medications (record_id);
+CREATE INDEX IF NOT EXISTS idx_record_vital_signs_record ON record_vital_signs (record_id);
+CREATE INDEX IF NOT EXISTS idx_record_lab_results_record ON record_lab_results (record_id);
+CREATE INDEX IF NOT EXISTS idx_record_lab_results_code ON record_lab_results (code);
+CREATE INDEX IF NOT EXISTS idx_record_immunizations_record ON record_immunizations (record_id);
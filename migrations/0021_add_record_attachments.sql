@@ -0,0 +1,21 @@
+-- Encrypted documents (lab reports, imaging, scans) attached to a patient record
+CREATE TABLE IF NOT EXISTS record_attachments (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other',
+  size_bytes INTEGER NOT NULL,
+  sha256 TEXT NOT NULL,
+  ipfs_cid TEXT,
+  filecoin_cid TEXT,
+  local_path TEXT,
+  encryption_key TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  auth_tag TEXT NOT NULL,
+  uploaded_by INTEGER NOT NULL REFERENCES users(id),
+  hospital_id INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_attachments_record ON record_attachments (record_id);
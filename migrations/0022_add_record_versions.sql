@@ -0,0 +1,25 @@
+-- Record amendments: hash-chained versions of a record's clinical text
+ALTER TABLE patient_records ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE patient_records ADD COLUMN IF NOT EXISTS amended_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS record_versions (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  version INTEGER NOT NULL,
+  visit_date TEXT NOT NULL,
+  visit_type TEXT,
+  diagnosis TEXT NOT NULL,
+  prescription TEXT,
+  physician TEXT,
+  department TEXT,
+  enc_keys JSONB,
+  reason TEXT,
+  content_hash TEXT NOT NULL,
+  previous_hash TEXT,
+  amended_by INTEGER NOT NULL REFERENCES users(id),
+  hospital_id INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (record_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_versions_record ON record_versions (record_id);
@@ -0,0 +1,20 @@
+-- Patient-initiated correction requests, resolved by the hospital that submitted the record
+CREATE TABLE IF NOT EXISTS record_correction_requests (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  patient_did TEXT NOT NULL,
+  description TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'portal',
+  locale TEXT NOT NULL DEFAULT 'en',
+  status TEXT NOT NULL DEFAULT 'pending',
+  resolution_note TEXT,
+  amendment_version INTEGER,
+  reviewed_by INTEGER REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  patient_notified_at TIMESTAMP,
+  hospital_id INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_correction_requests_hospital ON record_correction_requests (hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_record_correction_requests_patient ON record_correction_requests (patient_did);
@@ -0,0 +1,19 @@
+-- Per-hospital storage backends (Pinata, Kubo, S3-compatible, local disk)
+CREATE TABLE IF NOT EXISTS hospital_storage_providers (
+  id SERIAL PRIMARY KEY,
+  hospital_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  name TEXT NOT NULL,
+  config JSONB NOT NULL,
+  credentials TEXT,
+  priority INTEGER NOT NULL DEFAULT 10,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hospital_storage_providers_hospital ON hospital_storage_providers (hospital_id);
+
+-- Every copy of an attachment, alongside the legacy ipfs_cid / filecoin_cid / local_path columns
+ALTER TABLE record_attachments ADD COLUMN IF NOT EXISTS locations JSONB;
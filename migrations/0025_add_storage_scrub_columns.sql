@@ -0,0 +1,6 @@
+-- Let the integrity scrubber resolve each copy's provider and owning record
+ALTER TABLE storage_locations ADD COLUMN IF NOT EXISTS provider_id INTEGER REFERENCES hospital_storage_providers(id);
+ALTER TABLE storage_locations ADD COLUMN IF NOT EXISTS record_id INTEGER REFERENCES patient_records(id);
+
+CREATE INDEX IF NOT EXISTS idx_storage_locations_content_hash ON storage_locations (content_hash);
+CREATE INDEX IF NOT EXISTS idx_storage_locations_last_verified ON storage_locations (last_verified NULLS FIRST);
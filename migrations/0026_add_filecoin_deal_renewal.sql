@@ -0,0 +1,22 @@
+-- Link Filecoin deals to their record, hospital and the deal they renewed
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS cid TEXT;
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS record_id INTEGER REFERENCES patient_records(id);
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS hospital_id TEXT;
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS renewed_from_id INTEGER REFERENCES filecoin_deals(id);
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS renewal_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS last_renewal_attempt_at TIMESTAMP;
+ALTER TABLE filecoin_deals ADD COLUMN IF NOT EXISTS last_renewal_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_filecoin_deals_status_expires ON filecoin_deals (deal_status, expires_at);
+
+-- Per-hospital retention period and deal renewal settings
+CREATE TABLE IF NOT EXISTS hospital_retention_policies (
+  id SERIAL PRIMARY KEY,
+  hospital_id TEXT NOT NULL UNIQUE,
+  retention_years INTEGER NOT NULL,
+  deal_duration_days INTEGER NOT NULL,
+  renewal_lead_days INTEGER NOT NULL,
+  auto_renew BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by INTEGER REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
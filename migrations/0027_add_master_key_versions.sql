@@ -0,0 +1,18 @@
+-- Master key version each patient key is wrapped with; existing keys use MASTER_KEY (version 1)
+ALTER TABLE secure_key_store ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_secure_key_store_key_version ON secure_key_store (key_version);
+
+-- Progress of re-wrapping stored keys under a new master key version
+CREATE TABLE IF NOT EXISTS master_key_rotations (
+  id SERIAL PRIMARY KEY,
+  target_version INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  stage TEXT NOT NULL,
+  cursor TEXT,
+  progress JSONB NOT NULL,
+  last_error TEXT,
+  started_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
@@ -0,0 +1,8 @@
+-- Patient keys are envelope-encrypted: a per-key data key wrapped by the configured key
+-- encryption backend. Existing keys have no wrapped data key and stay derived from MASTER_KEY
+-- until the rotation job moves them.
+ALTER TABLE secure_key_store ADD COLUMN IF NOT EXISTS wrapped_dek TEXT;
+ALTER TABLE secure_key_store ADD COLUMN IF NOT EXISTS key_backend TEXT NOT NULL DEFAULT 'local';
+
+-- Backend each rotation re-wraps keys under; earlier rotations were between master key versions
+ALTER TABLE master_key_rotations ADD COLUMN IF NOT EXISTS backend TEXT NOT NULL DEFAULT 'local';
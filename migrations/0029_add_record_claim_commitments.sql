@@ -0,0 +1,14 @@
+-- Salted commitments to record fields that claim proofs are generated against. The committed
+-- value, salt and event type are encrypted; only the commitment itself is stored in the clear.
+CREATE TABLE IF NOT EXISTS record_claim_commitments (
+  id SERIAL PRIMARY KEY,
+  record_id INTEGER NOT NULL REFERENCES patient_records(id),
+  patient_did TEXT NOT NULL,
+  field TEXT NOT NULL,
+  encrypted_claim TEXT NOT NULL,
+  encryption_key TEXT NOT NULL,
+  commitment TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_claim_commitments_record ON record_claim_commitments (record_id);
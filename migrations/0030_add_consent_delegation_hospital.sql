@@ -0,0 +1,2 @@
+-- Hospital whose admin recorded a delegation, so admins only revoke their own hospital's delegations
+ALTER TABLE consent_delegations ADD COLUMN IF NOT EXISTS hospital_id TEXT;
@@ -0,0 +1,33 @@
+-- Carry consents that were active before consent_grants into it with full scope, so
+-- hospitals keep the access they were given until it expires.
+
+-- Traditional consents: access lasted 12 hours from the latest granted consent record
+INSERT INTO consent_grants (patient_id, patient_did, granted_to, expires_at, hospital_id)
+SELECT cr.patient_id, pp.patient_did, cr.accessed_by, MAX(cr.accessed_at) + INTERVAL '12 hours', MAX(cr.hospital_id)
+FROM consent_records cr
+LEFT JOIN patient_profiles pp ON pp.national_id = cr.patient_id
+WHERE cr.consent_granted_by ~ '^\d+$' AND cr.accessed_at IS NOT NULL
+GROUP BY cr.patient_id, pp.patient_did, cr.accessed_by
+HAVING MAX(cr.accessed_at) + INTERVAL '12 hours' > NOW()
+  AND NOT EXISTS (
+    SELECT 1 FROM consent_grants g
+    WHERE g.patient_id = cr.patient_id AND g.granted_to = cr.accessed_by
+      AND g.revoked_at IS NULL AND g.expires_at > NOW()
+      AND g.record_ids IS NULL AND g.record_types IS NULL AND g.date_from IS NULL AND g.date_to IS NULL
+  );
+
+-- Web3 consents not tied to one stored file. Those without an expiry get the default 12 hours.
+INSERT INTO consent_grants (patient_id, patient_did, granted_to, expires_at, hospital_id)
+SELECT pp.national_id, cm.patient_did, u.id, MAX(COALESCE(cm.expires_at, NOW() + INTERVAL '12 hours')), u.hospital_id
+FROM consent_management cm
+JOIN patient_profiles pp ON pp.patient_did = cm.patient_did
+JOIN users u ON cm.requester_id = 'did:medbridge:hospital:' || u.id
+WHERE cm.consent_given AND cm.revoked_at IS NULL AND cm.content_hash IS NULL
+  AND (cm.expires_at IS NULL OR cm.expires_at > NOW())
+  AND NOT EXISTS (
+    SELECT 1 FROM consent_grants g
+    WHERE g.patient_id = pp.national_id AND g.granted_to = u.id
+      AND g.revoked_at IS NULL AND g.expires_at > NOW()
+      AND g.record_ids IS NULL AND g.record_types IS NULL AND g.date_from IS NULL AND g.date_to IS NULL
+  )
+GROUP BY pp.national_id, cm.patient_did, u.id, u.hospital_id;
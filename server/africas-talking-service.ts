@@ -4,90 +4,396 @@
 import { db } from './db';
 import { ussdSessions, clinicCodes, ussdAnalytics } from '../shared/schema';
 import { smsService } from './sms-service';
+import { storage } from './storage';
+import { zkpService } from './zkp-service';
+import { UssdFlowEngine, logUSSDEvent, type UssdContext, type UssdFlowDefinition, type USSDRequest } from './ussd-flow-engine';
+import { ussdPinService, PIN_LOCKOUT_MINUTES } from './ussd-pin-service';
+import { messageCatalog, SUPPORTED_LOCALES, type Locale } from './message-catalog';
+import { consentDelegationService } from './consent-delegation-service';
+import { consentGrantService, DEFAULT_CONSENT_HOURS } from './consent-grant-service';
+import { recordCorrectionService, DuplicateCorrectionRequestError } from './record-correction-service';
 import { eq } from 'drizzle-orm';
 
 const africasTalkingApiKey = process.env.AFRICAS_TALKING_API_KEY;
 const africasTalkingUsername = process.env.AFRICAS_TALKING_USERNAME;
 
-const MENUS = {
-  main: {
-    en: `CON Welcome to MediBridge\n1. Prove Health Status\n2. Emergency Proof\n3. My Proofs\n4. Give Feedback (Get Airtime)\n5. Help & Language`,
-    sw: `CON Karibu MediBridge\n1. Thibitisha Hali ya Afya\n2. Uthibitisho wa Dharura\n3. Uthibitisho Wangu\n4. Toa Maoni (Pata Airtime)\n5. Msaada & Lugha`
+// Main USSD flow. Adding a menu means adding a node here and pointing an option at it.
+// Texts are keys into the message catalog (server/locales).
+const USSD_FLOW: UssdFlowDefinition = {
+  start: 'main',
+  labels: {
+    back: 'ussd.back',
+    more: 'ussd.more',
+    invalid: 'ussd.invalid',
+    unavailable: 'ussd.unavailable',
   },
-  language: {
-    en: `CON Choose your preferred language:\n1. English\n2. Kiswahili`,
-    sw: `CON Chagua lugha unayopendelea:\n1. Kiingereza\n2. Kiswahili`
-  },
-  languageSaved: {
-    en: `CON Language preference saved.\n\nWelcome to MediBridge\n1. Prove Health Status\n2. Emergency Proof\n3. Renew My Proof\n4. Give Feedback (Get Airtime)\n5. Help & Language`,
-    sw: `CON Lugha imehifadhiwa.\n\nKaribu MediBridge\n1. Thibitisha Hali ya Afya\n2. Uthibitisho wa Dharura\n3. Fanya Upya Uthibitisho\n4. Toa Maoni (Pata Airtime)\n5. Msaada & Lugha`
-  },
-  // Prove Health Status menus
-  proofType: {
-    en: `CON Select proof to share:\n1. HIV Negative (last 90 days)\n2. Vaccination Proof\n3. Insurance/Subsidy Status\n4. Community Health Worker ID\n5. Back`,
-    sw: `CON Chagua uthibitisho wa kushiriki:\n1. HIV Hasi (siku 90 za mwisho)\n2. Uthibitisho wa Chanjo\n3. Hali ya Bima/Msaada\n4. Kitambulisho cha Mfanyakazi wa Afya wa Jamii\n5. Rudi Nyuma`
-  },
-  recipient: {
-    en: `CON Select recipient:\n1. Employer\n2. Partner\n3. Clinic\n4. NGO / Program\n5. Back`,
-    sw: `CON Chagua mpokeaji:\n1. Mwajiri\n2. Mpenzi\n3. Kliniki\n4. NGO / Mpango\n5. Rudi Nyuma`
-  },
-  confirmShare: {
-    en: `CON Confirm share? (No personal details are shared)\n1. Yes\n2. Cancel`,
-    sw: `CON Thibitisha kushiriki? (Hakuna maelezo ya kibinafsi yanayoshirikiwa)\n1. Ndiyo\n2. Ghairi`
-  },
-  proofShared: {
-    en: `END Success! Proof shared securely.\nYou've earned 10 KES airtime. Thank you.`,
-    sw: `END Imefanikiwa! Uthibitisho umeshirikiwa kwa usalama.\nUmepata airtime ya KES 10. Asante.`
-  },
-  cancelled: {
-    en: `END Cancelled.`,
-    sw: `END Imekatwa.`
-  },
-  // Emergency Proof
-  emergencySent: {
-    en: `END Emergency proof sent.\nYour contact has been notified.\nYou'll be contacted shortly.`,
-    sw: `END Uthibitisho wa dharura umetumwa.\nMtu wako ameonywa.\nUtawasiliana hivi karibuni.`
-  },
-  // Renew My Proof
-  renewPrompt: {
-    en: `CON Your last HIV proof expired on May 12.\nRenew now?\n1. Yes, I visited a clinic\n2. No, remind me later`,
-    sw: `CON Uthibitisho wako wa mwisho wa HIV ulikoma Mei 12.\nFanya upya sasa?\n1. Ndiyo, nilitembelea kliniki\n2. Hapana, nikumbushe baadaye`
-  },
-  clinicCode: {
-    en: `CON Enter 4-digit clinic code:`,
-    sw: `CON Weka msimbo wa kliniki wa tarakimu 4:`
-  },
-  visitDate: {
-    en: `CON Date of visit (DDMM):`,
-    sw: `CON Tarehe ya ziara (DDMM):`
-  },
-  proofRenewed: {
-    en: `END ZK Proof renewed!\nExpires in 90 days.`,
-    sw: `END Uthibitisho wa ZK umefanywa upya!\nUtaisha kwa siku 90.`
-  },
-  remindLater: {
-    en: `END We'll remind you later.`,
-    sw: `END Tutakukumbusha baadaye.`
-  },
-  // Give Feedback
-  satisfaction: {
-    en: `CON Help us improve!\nHow satisfied are you with MediBridge?\n1. Very Satisfied\n2. Satisfied\n3. Neutral\n4. Unsatisfied`,
-    sw: `CON Tusaidie kuboresha!\nUnafurahia MediBridge kiasi gani?\n1. Nimefurahia Sana\n2. Nimefurahia\n3. Sina Uamuzi\n4. Sijafurahia`
-  },
-  recommend: {
-    en: `CON Would you recommend us to others?\n1. Yes\n2. No`,
-    sw: `CON Ungependekeza kwetu kwa wengine?\n1. Ndiyo\n2. Hapana`
-  },
-  feedbackThanks: {
-    en: `END Thank you!\nYou've earned 5 KES airtime.`,
-    sw: `END Asante!\nUmepata airtime ya KES 5.`
+  nodes: {
+    main: {
+      type: 'menu',
+      title: 'ussd.main.title',
+      options: [
+        { label: 'ussd.main.prove', next: 'proofType' },
+        { label: 'ussd.main.emergencyProof', next: 'emergency' },
+        { label: 'ussd.main.myProofs', next: 'myVisits' },
+        { label: 'ussd.main.feedback', next: 'satisfaction' },
+        { label: 'ussd.main.help', next: 'language' },
+        { label: 'ussd.main.guardian', next: 'wards' },
+        { label: 'ussd.main.correction', next: 'correctionRecords' },
+        { label: 'ussd.main.emergency', next: 'emergency', key: '911', hidden: true },
+      ],
+    },
+
+    // Prove Health Status
+    proofType: {
+      type: 'menu',
+      guard: requirePin,
+      title: 'ussd.proofType.title',
+      saveAs: 'proofType',
+      options: [
+        { label: 'ussd.proofType.hiv', value: 'HIV Negative', next: 'recipient' },
+        { label: 'ussd.proofType.vaccination', value: 'Vaccination', next: 'recipient' },
+        { label: 'ussd.proofType.insurance', value: 'Insurance', next: 'recipient' },
+        { label: 'ussd.proofType.chw', value: 'Community Health Worker', next: 'recipient' },
+      ],
+    },
+    recipient: {
+      type: 'menu',
+      title: 'ussd.recipient.title',
+      saveAs: 'recipient',
+      options: [
+        { label: 'ussd.recipient.employer', value: 'Employer', next: 'confirmShare' },
+        { label: 'ussd.recipient.partner', value: 'Partner', next: 'confirmShare' },
+        { label: 'ussd.recipient.clinic', value: 'Clinic', next: 'confirmShare' },
+        { label: 'ussd.recipient.ngo', value: 'NGO', next: 'confirmShare' },
+      ],
+    },
+    confirmShare: {
+      type: 'menu',
+      title: 'ussd.share.confirm',
+      options: [
+        { label: 'ussd.yes', next: 'shareProof' },
+        { label: 'ussd.share.cancel', next: 'cancelled' },
+      ],
+    },
+    shareProof: {
+      type: 'action',
+      guard: requirePin,
+      run: async (ctx) => {
+        const success = await shareHealthProof(ctx.sessionId, ctx.data.proofType, ctx.data.recipient, ctx.phoneNumber);
+        return success
+          ? { end: { key: 'ussd.share.success', params: { amount: 10 } } }
+          : { end: 'ussd.share.failed' };
+      },
+    },
+    cancelled: {
+      type: 'end',
+      message: 'ussd.cancelled',
+    },
+
+    // Emergency Proof (also reachable with the 911 shortcut)
+    emergency: {
+      type: 'action',
+      run: async (ctx) => {
+        const success = await handleEmergencyProof(ctx.sessionId, ctx.phoneNumber);
+        return success ? { end: 'ussd.emergency.sent' } : { end: 'ussd.emergency.failed' };
+      },
+    },
+
+    // My Proofs: recent visits are loaded once per session and paged
+    myVisits: {
+      type: 'list',
+      guard: requirePin,
+      title: 'ussd.visits.title',
+      empty: 'ussd.visits.empty',
+      saveAs: 'visit',
+      next: 'visitDetail',
+      pageSize: 4,
+      load: async (ctx) => (await getRecentVisitsByPhone(ctx.phoneNumber, 20)).map(v => ({
+        label: `${v.date} - ${v.summary}`,
+        value: { code: v.code, date: v.date, proofs: v.proofs.map((p: any) => ({ type: p.type, statement: p.statement })) },
+      })),
+    },
+    visitDetail: {
+      type: 'menu',
+      title: (ctx) => {
+        const visit = ctx.data.visit;
+        const header = messageCatalog.format('ussd.visit.header', ctx.language, { date: visit.date });
+        const proofs = visit.proofs.map((p: any) => `- ${p.type}: ${p.statement}`).join('\n');
+        return `${header}\n${proofs}\n\n${messageCatalog.format('ussd.visit.code', ctx.language, { code: visit.code })}`;
+      },
+      options: [
+        { label: 'ussd.visit.resend', next: 'resendCode' },
+      ],
+    },
+    resendCode: {
+      type: 'action',
+      guard: requirePin,
+      run: async (ctx) => {
+        const visit = ctx.data.visit;
+        await smsService.sendVisitCodeSMS({ to: ctx.phoneNumber, visitCode: visit.code, visitDate: visit.date, locale: ctx.language });
+        return { end: 'ussd.visit.resent' };
+      },
+    },
+
+    // Report a Record Error: the patient picks a visit and describes the error for the hospital to review
+    correctionRecords: {
+      type: 'list',
+      guard: requirePin,
+      title: 'ussd.correction.title',
+      empty: 'ussd.correction.empty',
+      saveAs: 'correctionRecord',
+      next: 'correctionDescribe',
+      pageSize: 4,
+      load: async (ctx) => (await getRecordsByPhone(ctx.phoneNumber, 20)).map(r => ({
+        label: `${r.visitDate} - ${r.hospitalName}`,
+        value: r,
+      })),
+    },
+    correctionDescribe: {
+      type: 'input',
+      title: 'ussd.correction.describe',
+      saveAs: 'correctionDescription',
+      next: 'submitCorrection',
+      validate: (value) => value.length >= 10,
+      invalid: 'ussd.correction.tooShort',
+    },
+    submitCorrection: {
+      type: 'action',
+      guard: requirePin,
+      run: async (ctx) => {
+        const { correctionRecord, correctionDescription } = ctx.data;
+        const outcome = await submitCorrectionRequest(ctx.sessionId, ctx.phoneNumber, correctionRecord.id, correctionDescription, ctx.language);
+        if (outcome === 'sent') return { end: { key: 'ussd.correction.sent', params: { hospital: correctionRecord.hospitalName } } };
+        return { end: outcome === 'duplicate' ? 'ussd.correction.duplicate' : 'ussd.correction.failed' };
+      },
+    },
+
+    // Give Feedback
+    satisfaction: {
+      type: 'menu',
+      title: 'ussd.feedback.title',
+      saveAs: 'satisfaction',
+      options: [
+        { label: 'ussd.feedback.verySatisfied', value: '1', next: 'recommend' },
+        { label: 'ussd.feedback.satisfied', value: '2', next: 'recommend' },
+        { label: 'ussd.feedback.neutral', value: '3', next: 'recommend' },
+        { label: 'ussd.feedback.unsatisfied', value: '4', next: 'recommend' },
+      ],
+    },
+    recommend: {
+      type: 'menu',
+      title: 'ussd.feedback.recommend',
+      saveAs: 'recommend',
+      options: [
+        { label: 'ussd.yes', value: '1', next: 'submitFeedback' },
+        { label: 'ussd.no', value: '2', next: 'submitFeedback' },
+      ],
+    },
+    submitFeedback: {
+      type: 'action',
+      run: async (ctx) => {
+        const success = await handleFeedback(ctx.sessionId, ctx.phoneNumber, ctx.data.satisfaction, ctx.data.recommend);
+        return success
+          ? { end: { key: 'ussd.feedback.thanks', params: { amount: 5 } } }
+          : { end: 'ussd.feedback.pending' };
+      },
+    },
+
+    // Act for Someone: guardians answer consent requests for the patients they are delegates of
+    wards: {
+      type: 'list',
+      guard: requirePin,
+      title: 'ussd.guardian.patients',
+      empty: 'ussd.guardian.none',
+      saveAs: 'ward',
+      next: 'wardRequests',
+      load: async (ctx) => {
+        const delegations = (await consentDelegationService.getDelegationsForDelegate({ phone: ctx.phoneNumber }))
+          .filter(d => d.powers.includes('respond_consent'));
+        return Promise.all(delegations.map(async d => {
+          const profile = await storage.getPatientProfileByDID(d.patientDID);
+          const name = profile?.fullName || d.patientId;
+          return { label: name, value: { patientDID: d.patientDID, patientId: d.patientId, name } };
+        }));
+      },
+    },
+    wardRequests: {
+      type: 'list',
+      title: (ctx) => messageCatalog.format('ussd.guardian.requests', ctx.language, { name: ctx.data.ward.name }),
+      empty: (ctx) => messageCatalog.format('ussd.guardian.noRequests', ctx.language, { name: ctx.data.ward.name }),
+      saveAs: 'wardRequest',
+      next: 'wardDecision',
+      load: async (ctx) => (await storage.getPendingConsentRequests(ctx.data.ward.patientId)).map(r => ({
+        label: r.hospitalName,
+        value: { id: r.id, hospitalName: r.hospitalName },
+      })),
+    },
+    wardDecision: {
+      type: 'menu',
+      title: (ctx) => messageCatalog.format('ussd.guardian.request', ctx.language, {
+        hospital: ctx.data.wardRequest.hospitalName,
+        name: ctx.data.ward.name,
+      }),
+      saveAs: 'wardAction',
+      options: [
+        { label: { key: 'ussd.guardian.approve', params: { hours: DEFAULT_CONSENT_HOURS } }, value: 'approve', next: 'wardRespond' },
+        { label: 'ussd.guardian.deny', value: 'deny', next: 'wardRespond' },
+      ],
+    },
+    wardRespond: {
+      type: 'action',
+      guard: requirePin,
+      run: async (ctx) => {
+        const outcome = await respondAsGuardian(ctx.phoneNumber, ctx.data.ward, ctx.data.wardRequest.id, ctx.data.wardAction);
+        if (outcome === 'ended') return { end: 'ussd.guardian.ended' };
+        if (outcome === 'failed') return { end: 'ussd.unavailable' };
+        return ctx.data.wardAction === 'approve'
+          ? { end: { key: 'ussd.guardian.approved', params: { hospital: ctx.data.wardRequest.hospitalName, hours: DEFAULT_CONSENT_HOURS } } }
+          : { end: 'ussd.guardian.denied' };
+      },
+    },
+
+    // PIN checks in front of sharing, visits and code resends (see requirePin)
+    pinCreate: {
+      type: 'input',
+      transient: true,
+      title: 'ussd.pin.create',
+      saveAs: 'newPin',
+      next: 'stashPin',
+      validate: (value) => /^\d{4}$/.test(value),
+      invalid: 'ussd.pin.format',
+    },
+    stashPin: {
+      type: 'action',
+      run: async (ctx) => {
+        // Only the hash is kept in session data between the two prompts
+        ctx.data.newPinHash = await ussdPinService.hashPin(ctx.data.newPin);
+        delete ctx.data.newPin;
+        return { goto: 'pinConfirm' };
+      },
+    },
+    pinConfirm: {
+      type: 'input',
+      transient: true,
+      title: 'ussd.pin.confirm',
+      saveAs: 'confirmPin',
+      next: 'savePin',
+    },
+    savePin: {
+      type: 'action',
+      run: async (ctx) => {
+        const { newPinHash, confirmPin, pinResetVerified } = ctx.data;
+        delete ctx.data.confirmPin;
+        if (!newPinHash || !(await ussdPinService.matchesHash(confirmPin ?? '', newPinHash))) {
+          delete ctx.data.newPinHash;
+          return { goto: 'pinCreate', notice: 'ussd.pin.mismatch' };
+        }
+        // An existing PIN can only be replaced after the SMS reset code was confirmed
+        if (!pinResetVerified && await ussdPinService.hasPin(ctx.phoneNumber)) {
+          delete ctx.data.newPinHash;
+          return { goto: 'pinEnter' };
+        }
+        await ussdPinService.setPin(ctx.sessionId, ctx.phoneNumber, newPinHash, !!pinResetVerified);
+        delete ctx.data.newPinHash;
+        delete ctx.data.pinResetVerified;
+        ctx.data.pinVerified = true;
+        return { goto: ctx.data.returnTo || 'main', notice: 'ussd.pin.saved' };
+      },
+    },
+    pinEnter: {
+      type: 'input',
+      transient: true,
+      title: 'ussd.pin.enter',
+      saveAs: 'pin',
+      next: 'checkPin',
+      shortcuts: { '99': 'pinResetStart' },
+      validate: (value) => /^\d{4}$/.test(value),
+      invalid: 'ussd.pin.format',
+    },
+    checkPin: {
+      type: 'action',
+      run: async (ctx) => {
+        const pin = ctx.data.pin;
+        delete ctx.data.pin;
+        const result = await ussdPinService.verifyPin(ctx.sessionId, ctx.phoneNumber, pin);
+        if (result.status === 'ok') {
+          ctx.data.pinVerified = true;
+          return { goto: ctx.data.returnTo || 'main' };
+        }
+        if (result.status === 'locked') {
+          return { end: { key: 'ussd.pin.locked', params: { minutes: PIN_LOCKOUT_MINUTES } } };
+        }
+        return { goto: 'pinEnter', notice: { key: 'ussd.pin.wrong', params: { attempts: result.attemptsLeft } } };
+      },
+    },
+    pinResetStart: {
+      type: 'action',
+      run: async (ctx) => {
+        const result = await ussdPinService.requestReset(ctx.sessionId, ctx.phoneNumber, ctx.language);
+        if (result.status === 'locked') {
+          return { end: { key: 'ussd.pin.locked', params: { minutes: PIN_LOCKOUT_MINUTES } } };
+        }
+        if (result.status === 'invalid') {
+          return { end: 'ussd.pin.resetInvalid' };
+        }
+        return { goto: 'pinResetOtp' };
+      },
+    },
+    pinResetOtp: {
+      type: 'input',
+      transient: true,
+      title: 'ussd.pin.resetCode',
+      saveAs: 'resetCode',
+      next: 'checkResetCode',
+      validate: (value) => /^\d{6}$/.test(value),
+      invalid: 'ussd.pin.resetFormat',
+    },
+    checkResetCode: {
+      type: 'action',
+      run: async (ctx) => {
+        const code = ctx.data.resetCode;
+        delete ctx.data.resetCode;
+        const result = await ussdPinService.verifyResetCode(ctx.sessionId, ctx.phoneNumber, code);
+        if (result.status === 'locked') {
+          return { end: { key: 'ussd.pin.locked', params: { minutes: PIN_LOCKOUT_MINUTES } } };
+        }
+        if (result.status === 'invalid') {
+          return { end: 'ussd.pin.resetInvalid' };
+        }
+        ctx.data.pinResetVerified = true;
+        return { goto: 'pinCreate' };
+      },
+    },
+
+    // Help & Language: each language is listed under its own name
+    language: {
+      type: 'menu',
+      title: 'ussd.language.title',
+      saveAs: 'language',
+      options: SUPPORTED_LOCALES.map(locale => ({
+        label: () => messageCatalog.format('language.name', locale),
+        value: locale,
+        next: 'saveLanguage',
+      })),
+    },
+    saveLanguage: {
+      type: 'action',
+      run: async (ctx) => {
+        ctx.setLanguage(ctx.data.language);
+        return { goto: 'main', notice: 'ussd.language.saved' };
+      },
+    },
   },
-  invalidOption: {
-    en: `END Invalid option.`,
-    sw: `END Chaguo si sahihi.`
-  }
 };
 
+const ussdFlowEngine = new UssdFlowEngine(USSD_FLOW);
+
+// Guard for PIN-protected nodes; verification lasts for the rest of the USSD session
+async function requirePin(ctx: UssdContext): Promise<string | undefined> {
+  if (ctx.data.pinVerified) return undefined;
+  return (await ussdPinService.hasPin(ctx.phoneNumber)) ? 'pinEnter' : 'pinCreate';
+}
+
 export interface VoiceCallData {
   to: string;
   message: string;
@@ -99,12 +405,7 @@ export interface AirtimeData {
   amount: number; // Amount in KES
 }
 
-export interface USSDData {
-  sessionId: string;
-  phoneNumber: string;
-  text: string;
-  serviceCode: string;
-}
+export type USSDData = USSDRequest;
 
 export class AfricasTalkingService {
   private static instance: AfricasTalkingService;
@@ -185,179 +486,7 @@ export class AfricasTalkingService {
    * Handle USSD session
    */
   async handleUSSD(data: USSDData): Promise<string> {
-    const { sessionId, phoneNumber, text } = data;
-    const input = text ? text.split('*') : [];
-    const step = input.length;
-    
-    // Get or create session
-    const session = await getOrCreateSession(sessionId, phoneNumber);
-    if (!session) {
-      return 'END Service temporarily unavailable. Please try again.';
-    }
-    
-    const lang = (session.language as 'en' | 'sw') || 'en';
-
-    // Main menu
-    if (step === 0 || text === '') {
-      return MENUS.main[lang];
-    }
-
-    // Main menu selection
-    switch (input[0]) {
-      case '1': // Prove Health Status
-        if (step === 1) {
-          return MENUS.proofType[lang];
-        }
-        if (step === 2) {
-          if (input[1] === '5') { // Back
-            return MENUS.main[lang];
-          }
-          return MENUS.recipient[lang];
-        }
-        if (step === 3) {
-          if (input[2] === '5') { // Back
-            return MENUS.proofType[lang];
-          }
-          return MENUS.confirmShare[lang];
-        }
-        if (step === 4) {
-          if (input[3] === '1') { // Yes, share proof
-            const proofTypes = ['HIV Negative', 'Vaccination', 'Insurance', 'Community Health Worker'];
-            const recipients = ['Employer', 'Partner', 'Clinic', 'NGO'];
-            
-            const proofType = proofTypes[parseInt(input[1]) - 1];
-            const recipient = recipients[parseInt(input[2]) - 1];
-            
-            const success = await shareHealthProof(sessionId, proofType, recipient, phoneNumber);
-            if (success) {
-              return MENUS.proofShared[lang];
-            } else {
-              return lang === 'en' 
-                ? `END Sorry, unable to share proof. Please try again.`
-                : `END Samahani, haiwezi kushiriki uthibitisho. Jaribu tena.`;
-            }
-          } else { // Cancel
-            return MENUS.cancelled[lang];
-          }
-        }
-        break;
-
-      case '2': // Emergency Proof
-        const emergencySuccess = await handleEmergencyProof(sessionId, phoneNumber);
-        if (emergencySuccess) {
-          return MENUS.emergencySent[lang];
-        } else {
-          return lang === 'en'
-            ? `END Emergency service temporarily unavailable. Please contact support.`
-            : `END Huduma ya dharura haipatikani kwa sasa. Wasiliana na msaada.`;
-        }
-
-      case '3': // My Proofs (NEW)
-        // Step 1: Show list of recent visits (by date or type)
-        if (step === 1) {
-          // Fetch recent visits/codes for this phone number
-          const visits = await getRecentVisitsByPhone(phoneNumber, 5); // returns [{date, code, summary}]
-          if (!visits.length) {
-            return lang === 'en'
-              ? 'END No proofs found for your number.'
-              : 'END Hakuna uthibitisho uliopatikana kwa nambari yako.';
-          }
-          let menu = lang === 'en' ? 'CON Your Recent Visits:\n' : 'CON Ziara Zako za Hivi Karibuni:\n';
-          visits.forEach((v, i) => {
-            menu += `${i + 1}. ${v.date} - ${v.summary}\n`;
-          });
-          menu += `${visits.length + 1}. Back`;
-          return menu;
-        }
-        // Step 2: Show proofs for selected visit
-        if (step === 2) {
-          const visitIdx = parseInt(input[1], 10) - 1;
-          const visits = await getRecentVisitsByPhone(phoneNumber, 5);
-          if (visitIdx < 0 || visitIdx >= visits.length) {
-            return MENUS.main[lang];
-          }
-          const visit = visits[visitIdx];
-          let proofMenu = lang === 'en'
-            ? `CON Proofs for visit on ${visit.date}:\n`
-            : `CON Uthibitisho wa ziara tarehe ${visit.date}:\n`;
-          visit.proofs.forEach((p: any, i: number) => {
-            proofMenu += `- ${p.type}: ${p.statement}\n`;
-          });
-          proofMenu += `\nCode: ${visit.code}\n1. Resend Code via SMS\n2. Back`;
-          return proofMenu;
-        }
-        // Step 3: Resend code or go back
-        if (step === 3) {
-          const visitIdx = parseInt(input[1], 10) - 1;
-          const visits = await getRecentVisitsByPhone(phoneNumber, 5);
-          if (visitIdx < 0 || visitIdx >= visits.length) {
-            return MENUS.main[lang];
-          }
-          const visit = visits[visitIdx];
-          if (input[2] === '1') {
-            // Resend code via SMS
-            await smsService.sendOTPSMS({
-              to: phoneNumber,
-              otpCode: `MediBridge: Your code for your visit on ${visit.date} is ${visit.code}. Use this code to share your medical proofs.`,
-              expiresInMinutes: 43200
-            });
-            return lang === 'en'
-              ? 'END Code resent via SMS.'
-              : 'END Msimbo umetumwa tena kwa SMS.';
-          } else {
-            return MENUS.main[lang];
-          }
-        }
-        break;
-
-      case '4': // Give Feedback
-        if (step === 1) {
-          return MENUS.satisfaction[lang];
-        }
-        if (step === 2) {
-          return MENUS.recommend[lang];
-        }
-        if (step === 3) {
-          const satisfaction = input[1];
-          const recommend = input[2];
-          
-          const feedbackSuccess = await handleFeedback(sessionId, phoneNumber, satisfaction, recommend);
-          if (feedbackSuccess) {
-            return MENUS.feedbackThanks[lang];
-          } else {
-            return lang === 'en'
-              ? `END Thank you for feedback. Airtime will be sent shortly.`
-              : `END Asante kwa maoni. Airtime itatumwa hivi karibuni.`;
-          }
-        }
-        break;
-
-      case '5': // Help & Language
-        if (step === 1) {
-          return MENUS.language[lang];
-        }
-        if (step === 2) {
-          const newLang = input[1] === '2' ? 'sw' : 'en';
-          await updateSessionLanguage(sessionId, newLang);
-          return MENUS.languageSaved[newLang];
-        }
-        break;
-
-      case '911': // Emergency shortcut
-        const emergencyShortcutSuccess = await handleEmergencyProof(sessionId, phoneNumber);
-        if (emergencyShortcutSuccess) {
-          return MENUS.emergencySent[lang];
-        } else {
-          return lang === 'en'
-            ? `END Emergency service temporarily unavailable. Please contact support.`
-            : `END Huduma ya dharura haipatikani kwa sasa. Wasiliana na msaada.`;
-        }
-
-      default:
-        return MENUS.invalidOption[lang];
-    }
-    // Fallback return to satisfy linter
-    return MENUS.main[lang];
+    return ussdFlowEngine.handle(data);
   }
 
   /**
@@ -415,68 +544,47 @@ export class AfricasTalkingService {
 export const africasTalkingService = AfricasTalkingService.getInstance();
 
 // Backend integration functions
-async function getOrCreateSession(sessionId: string, phoneNumber: string): Promise<any> {
-  try {
-    let session = await db.select().from(ussdSessions).where(eq(ussdSessions.sessionId, sessionId)).limit(1);
-    
-    if (session.length === 0) {
-      // Create new session
-      const newSession = await db.insert(ussdSessions).values({
-        sessionId,
-        phoneNumber,
-        language: 'en',
-        expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
-      }).returning();
-      return newSession[0];
-    }
-    
-    // Update last activity
-    await db.update(ussdSessions)
-      .set({ lastActivityAt: new Date() })
-      .where(eq(ussdSessions.sessionId, sessionId));
-    
-    return session[0];
-  } catch (error) {
-    console.error('[USSD] Error managing session:', error);
-    return null;
+// USSD proof menu entries backed by committed-claim circuits, matched on the stored claim
+const USSD_PROOF_CLAIMS: Record<string, (claim: any) => boolean> = {
+  'HIV Negative': (claim) => claim?.kind === 'event_recency' && claim.eventType === 'HIV_NEGATIVE',
+  'Vaccination': (claim) => claim?.kind === 'event_recency' && typeof claim.eventType === 'string' && claim.eventType.startsWith('VACCINATION:'),
+};
+
+// Find the patient's newest active proof for a USSD proof type that still verifies
+async function findValidHealthProof(phoneNumber: string, proofType: string): Promise<number | null> {
+  const matchesClaim = USSD_PROOF_CLAIMS[proofType];
+  if (!matchesClaim) {
+    throw new Error(`${proofType} proofs are not supported yet`);
   }
-}
 
-async function updateSessionLanguage(sessionId: string, language: 'en' | 'sw'): Promise<void> {
-  try {
-    await db.update(ussdSessions)
-      .set({ language, lastActivityAt: new Date() })
-      .where(eq(ussdSessions.sessionId, sessionId));
-  } catch (error) {
-    console.error('[USSD] Error updating session language:', error);
+  const profile = await storage.getPatientProfileByPhone(phoneNumber);
+  if (!profile) {
+    throw new Error('No patient profile for this phone number');
   }
-}
 
-async function logUSSDEvent(sessionId: string, phoneNumber: string, eventType: string, eventData: any, success: boolean = true, errorMessage?: string): Promise<void> {
-  try {
-    const session = await db.select().from(ussdSessions).where(eq(ussdSessions.sessionId, sessionId)).limit(1);
-    const language = session.length > 0 ? session[0].language : 'en';
-    
-    await db.insert(ussdAnalytics).values({
-      sessionId,
-      phoneNumber,
-      eventType,
-      eventData,
-      language,
-      success,
-      errorMessage,
-    });
-  } catch (error) {
-    console.error('[USSD] Error logging analytics:', error);
+  const now = new Date();
+  const candidates = (await storage.getPatientZKPProofs(profile.patientDID))
+    .filter(p => p.isActive && p.expiresAt > now && matchesClaim((p.proofData as any)?.claim))
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+
+  const zkpServiceInstance = await zkpService;
+  for (const proof of candidates) {
+    const result = await zkpServiceInstance.verifyProof(proof.id, 0, '', 'ussd-proof-share', false);
+    if (result.isValid) {
+      return proof.id;
+    }
   }
+  return null;
 }
 
 async function shareHealthProof(sessionId: string, proofType: string, recipient: string, phoneNumber: string): Promise<boolean> {
   try {
     console.log(`[USSD] Sharing ${proofType} proof to ${recipient} for ${phoneNumber}`);
     
-    // TODO: Generate ZK proof based on proofType
-    // const zkProof = await zkpService.generateProof(proofType, phoneNumber);
+    const proofId = await findValidHealthProof(phoneNumber, proofType);
+    if (!proofId) {
+      throw new Error(`No valid ${proofType} proof on record`);
+    }
     
     // TODO: Send SMS/voice to recipient
     const recipientMessage = `MediBridge: Health verification received. Patient ${phoneNumber} has shared their ${proofType} proof.`;
@@ -486,7 +594,7 @@ async function shareHealthProof(sessionId: string, proofType: string, recipient:
     // await africasTalkingService.sendAirtime({ to: phoneNumber, amount: 10 });
     
     // Log to analytics
-    await logUSSDEvent(sessionId, phoneNumber, 'PROOF_SHARED', { proofType, recipient });
+    await logUSSDEvent(sessionId, phoneNumber, 'PROOF_SHARED', { proofType, recipient, proofId });
     
     console.log(`[USSD] Successfully shared ${proofType} proof to ${recipient}`);
     return true;
@@ -587,6 +695,63 @@ async function handleFeedback(sessionId: string, phoneNumber: string, satisfacti
 }
 
 // Helper function to hash phone number for anonymous storage
+// Re-checks the delegation at decision time, since it may have been revoked mid-session
+async function respondAsGuardian(
+  phoneNumber: string,
+  ward: { patientDID: string; patientId: string },
+  requestId: number,
+  action: 'approve' | 'deny'
+): Promise<'done' | 'ended' | 'failed'> {
+  const delegation = await consentDelegationService.findActiveDelegation(ward.patientDID, { phone: phoneNumber }, 'respond_consent');
+  if (!delegation) return 'ended';
+
+  const consentRequest = await storage.getConsentRequestById(requestId);
+  if (!consentRequest || consentRequest.patientId !== ward.patientId || consentRequest.consentGrantedBy !== 'pending') return 'failed';
+
+  try {
+    await consentGrantService.respondToRequest({
+      consentRequest,
+      patient: { nationalId: ward.patientId, patientDID: ward.patientDID },
+      action,
+      actor: phoneNumber,
+      reason: 'Guardian responded via USSD',
+      delegation,
+    });
+    return 'done';
+  } catch (error) {
+    console.error('[USSD] Guardian consent response failed:', error);
+    return 'failed';
+  }
+}
+
+// Re-checks ownership at submission time; the record list was loaded earlier in the session
+async function submitCorrectionRequest(
+  sessionId: string,
+  phoneNumber: string,
+  recordId: number,
+  description: string,
+  language: Locale
+): Promise<'sent' | 'duplicate' | 'failed'> {
+  try {
+    const profile = await storage.getPatientProfileByPhone(phoneNumber);
+    const record = await storage.getPatientRecordById(recordId);
+    const owns = !!profile && !!record &&
+      (record.patientDID === profile.patientDID || (!!profile.nationalId && record.nationalId === profile.nationalId));
+    if (!owns) {
+      throw new Error('Record does not belong to this phone number');
+    }
+
+    const request = await recordCorrectionService.submit(record!, profile.patientDID, description, 'ussd', language);
+    await logUSSDEvent(sessionId, phoneNumber, 'CORRECTION_REQUESTED', { recordId, correctionRequestId: request.id });
+    return 'sent';
+  } catch (error) {
+    await logUSSDEvent(sessionId, phoneNumber, 'CORRECTION_REQUESTED', { recordId }, false, (error as Error).message);
+    if (error instanceof DuplicateCorrectionRequestError) return 'duplicate';
+    console.error('[USSD] Correction request failed:', error);
+    return 'failed';
+  }
+}
+
 function hashPhone(phoneNumber: string): string {
   // Simple hash for demo - use proper crypto in production
   return Buffer.from(phoneNumber).toString('base64').substring(0, 16);
@@ -608,4 +773,21 @@ async function getRecentVisitsByPhone(phoneNumber: string, limit: number) {
       proofs: v.proofs as any[]
     }));
   return visits;
-} 
\ No newline at end of file
+} 
+
+// Helper: The patient's records, newest visit first, with the submitting hospital's name
+async function getRecordsByPhone(phoneNumber: string, limit: number) {
+  const profile = await storage.getPatientProfileByPhone(phoneNumber);
+  if (!profile) return [];
+
+  const records = profile.nationalId
+    ? await storage.getPatientRecordsByNationalId(profile.nationalId)
+    : await storage.getPatientRecordsByDID(profile.patientDID);
+  const recent = [...records].sort((a, b) => b.visitDate.localeCompare(a.visitDate)).slice(0, limit);
+
+  const hospitalNames = new Map<number, string>();
+  for (const submittedBy of Array.from(new Set(recent.map(r => r.submittedBy)))) {
+    hospitalNames.set(submittedBy, (await storage.getUser(submittedBy))?.hospitalName || 'Hospital');
+  }
+  return recent.map(r => ({ id: r.id, visitDate: r.visitDate, hospitalName: hospitalNames.get(r.submittedBy)! }));
+}
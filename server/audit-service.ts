@@ -145,8 +145,8 @@ export class AuditService {
    */
   async logSecurityViolation(violation: InsertSecurityViolation, req?: Request): Promise<void> {
     try {
-      // Extract hospital_id from authenticated user if available
-      let hospital_id: number | undefined;
+      // Extract hospital_id from authenticated user if available; background jobs pass it in
+      let hospital_id: number | undefined = violation.hospital_id ?? undefined;
       if (req?.user && typeof req.user === 'object' && 'hospital_id' in req.user) {
         hospital_id = (req.user as any).hospital_id;
       } else if (req?.user && typeof req.user === 'object' && 'id' in req.user) {
@@ -303,6 +303,39 @@ export class AuditService {
     }, req);
   }
 
+  /**
+   * Anchor the current ZKP revocation list Merkle root to the audit topic (non-blocking)
+   */
+  async anchorRevocationRoot(merkleRoot: string, listSize: number): Promise<void> {
+    if (!this.hederaEnabled) return;
+
+    this.submitHashToHCS(this.auditTopicId, {
+      eventType: "ZKP_REVOCATION_ROOT",
+      merkleRoot,
+      listSize,
+      timestamp: new Date().toISOString()
+    }, { merkleRoot, listSize }).catch(err =>
+      console.error('[HCS_ERROR] Failed to anchor revocation root:', err)
+    );
+  }
+
+  /**
+   * Anchor a record version's content hash to the audit topic (non-blocking)
+   */
+  async anchorRecordVersion(recordId: number, version: number, contentHash: string, previousHash: string | null): Promise<void> {
+    if (!this.hederaEnabled) return;
+
+    this.submitHashToHCS(this.auditTopicId, {
+      eventType: "RECORD_VERSION",
+      recordId,
+      version,
+      contentHash,
+      timestamp: new Date().toISOString()
+    }, { recordId, version, contentHash, previousHash }).catch(err =>
+      console.error('[HCS_ERROR] Failed to anchor record version:', err)
+    );
+  }
+
   /**
    * Submit hash to Hedera HCS topic (non-blocking)
    * Uses hash anchoring: PostgreSQL stores data, Hedera stores proof
@@ -10,6 +10,7 @@ import { storage } from "./storage";
 import { User as SelectUser, User } from "@shared/schema";
 import { auditService } from "./audit-service";
 import { redisService } from "./redis-service";
+import { permissionService } from "./permission-service";
 
 declare global {
   namespace Express {
@@ -25,7 +26,7 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
@@ -119,11 +120,12 @@ export async function setupAuth(app: Express) {
       password: await hashPassword(req.body.password),
       hospital_id: newHospitalId, // Assign unique hospital_id
       isAdmin: true, // Make new hospital registrations admin by default
+      role: 'ADMIN',
     });
 
-    req.login(user, (err) => {
+    req.login(user, async (err) => {
       if (err) return next(err);
-      res.status(201).json(user);
+      res.status(201).json(await permissionService.withCapabilities(user));
     });
   });
 
@@ -183,11 +185,11 @@ export async function setupAuth(app: Express) {
           targetId: "login",
           action: "AUTHENTICATE",
           outcome: "SUCCESS",
-          metadata: { hospitalId: user.id, hospitalType: user.hospitalType },
+          metadata: { hospitalId: user.id, role: user.role },
           severity: "info",
         }, req);
         
-        res.status(200).json(user);
+        res.status(200).json(await permissionService.withCapabilities(user));
       });
     })(req, res, next);
   });
@@ -202,7 +204,7 @@ export async function setupAuth(app: Express) {
         targetId: "logout",
         action: "LOGOUT",
         outcome: "SUCCESS",
-        metadata: { hospitalId: req.user?.id, hospitalType: req.user?.hospitalType },
+        metadata: { hospitalId: req.user?.id, role: req.user?.role },
         severity: "info",
       }, req);
     }
@@ -213,8 +215,12 @@ export async function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    try {
+      res.json(await permissionService.withCapabilities(req.user));
+    } catch (error) {
+      next(error);
+    }
   });
 }
@@ -0,0 +1,32 @@
+import type { Request, Response, NextFunction } from 'express';
+import { CAPABILITY_LABELS, type Capability } from '@shared/permissions';
+import { permissionService } from './permission-service';
+import { auditService } from './audit-service';
+
+/**
+ * Allow the request only when the signed-in user holds the capability
+ */
+export function requireCapability(capability: Capability) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      if (await permissionService.hasCapability(req.user, capability)) {
+        return next();
+      }
+
+      await auditService.logSecurityViolation({
+        violationType: "MISSING_CAPABILITY",
+        severity: "medium",
+        actorId: req.user.username,
+        targetResource: req.path,
+        details: { capability, role: permissionService.roleOf(req.user) },
+      }, req);
+      return res.status(403).json({ message: `You do not have permission to ${CAPABILITY_LABELS[capability].toLowerCase()}` });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { storage, type NewRecordClinicalDetails } from "./storage";
+import type { RecordAllergy, RecordClinicalDetails } from "@shared/schema";
+import {
+  ALLERGY_SEVERITIES,
+  isClinicalDetailsEmpty,
+  interpretLabResult,
+  parseLabValue,
+  type AllergySeverity,
+  type ClinicalDetails,
+} from "@shared/clinical";
+
+const EMPTY_DETAILS: RecordClinicalDetails = { allergies: [], medications: [], vitals: [], labResults: [], immunizations: [] };
+
+/**
+ * Clinical Record Service
+ * Stores the typed sub-records (allergies, medications, vitals, labs, immunizations)
+ * submitted with a visit and attaches them to patient records on read.
+ */
+class ClinicalRecordService {
+  private static instance: ClinicalRecordService;
+
+  static getInstance(): ClinicalRecordService {
+    if (!ClinicalRecordService.instance) {
+      ClinicalRecordService.instance = new ClinicalRecordService();
+    }
+    return ClinicalRecordService.instance;
+  }
+
+  /**
+   * Save validated clinical details against a newly created record
+   */
+  async saveDetails(recordId: number, details: ClinicalDetails): Promise<RecordClinicalDetails> {
+    if (isClinicalDetailsEmpty(details)) {
+      return EMPTY_DETAILS;
+    }
+
+    return storage.createRecordClinicalDetails(recordId, this.toRows(details));
+  }
+
+  /**
+   * Validated clinical details as sub-record rows, not yet keyed to a record
+   */
+  toRows(details: ClinicalDetails): NewRecordClinicalDetails {
+    return {
+      allergies: details.allergies,
+      medications: details.medications,
+      vitals: details.vitals.map(({ measuredAt, ...v }) => ({
+        ...v,
+        ...(measuredAt ? { measuredAt: new Date(measuredAt) } : {}),
+      })),
+      labResults: details.labResults.map(({ critical, ...lab }) => ({
+        ...lab,
+        numericValue: parseLabValue(lab.value),
+        interpretation: interpretLabResult({ ...lab, critical }),
+      })),
+      immunizations: details.immunizations,
+    };
+  }
+
+  /**
+   * Records with their structured sub-records under `clinical`
+   */
+  async attachDetails<T extends { id: number }>(records: T[]): Promise<Array<T & { clinical: RecordClinicalDetails }>> {
+    const details = await storage.getClinicalDetailsByRecordIds(records.map(r => r.id));
+    const forRecord = (id: number): RecordClinicalDetails => ({
+      allergies: details.allergies.filter(a => a.recordId === id),
+      medications: details.medications.filter(m => m.recordId === id),
+      vitals: details.vitals.filter(v => v.recordId === id),
+      labResults: details.labResults.filter(l => l.recordId === id),
+      immunizations: details.immunizations.filter(i => i.recordId === id),
+    });
+    return records.map(record => ({ ...record, clinical: forRecord(record.id) }));
+  }
+
+  /**
+   * A patient's active allergies across all visits, one per substance at its most
+   * severe recorded level. A substance whose latest entry is resolved is left out.
+   */
+  async getActiveAllergies(nationalId: string): Promise<Array<RecordAllergy & { visitDate: string }>> {
+    const rank = (severity: string) => ALLERGY_SEVERITIES.indexOf(severity as AllergySeverity);
+    const bySubstance = new Map<string, RecordAllergy & { visitDate: string }>();
+    const resolved = new Set<string>();
+
+    // Newest visit first, so the first entry seen for a substance is its current status
+    for (const allergy of await storage.getAllergiesByNationalId(nationalId)) {
+      const key = allergy.substance.trim().toLowerCase();
+      if (resolved.has(key)) continue;
+      if (allergy.status !== 'active') {
+        if (!bySubstance.has(key)) resolved.add(key);
+        continue;
+      }
+      const current = bySubstance.get(key);
+      if (!current || rank(allergy.severity) > rank(current.severity)) {
+        bySubstance.set(key, allergy);
+      }
+    }
+
+    return Array.from(bySubstance.values()).sort((a, b) => rank(b.severity) - rank(a.severity));
+  }
+}
+
+export const clinicalRecordService = ClinicalRecordService.getInstance();
@@ -0,0 +1,181 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireAdminAuth } from "./admin-auth-middleware";
+import { permissionService } from "./permission-service";
+import { consentDelegationService, delegationRequestSchema } from "./consent-delegation-service";
+
+/**
+ * Consent Delegation Routes
+ * Patients (or hospital admins with documented authority) link guardians and caregivers;
+ * delegates see the patients they act for. The consent actions themselves stay on the
+ * existing patient routes, which accept a valid delegate in place of the patient.
+ */
+export function registerConsentDelegationRoutes(app: Express): void {
+
+  const sessionDelegate = (req: Request) => ({ did: req.session.patientDID, phone: req.session.phoneNumber });
+
+  /**
+   * List delegations the patient has created
+   * GET /api/patient/delegations
+   */
+  app.get("/api/patient/delegations", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const delegations = await consentDelegationService.getDelegationsForPatient(req.session.patientDID);
+      const now = new Date();
+      res.json({
+        success: true,
+        delegations: delegations.map(d => ({ ...d, active: !d.revokedAt && new Date(d.expiresAt) > now })),
+      });
+    } catch (error: any) {
+      console.error("Error fetching delegations:", error);
+      res.status(500).json({ error: "Failed to fetch delegations" });
+    }
+  });
+
+  /**
+   * Add a guardian or caregiver
+   * POST /api/patient/delegations
+   */
+  app.post("/api/patient/delegations", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const patientProfile = await storage.getPatientProfileByDID(req.session.patientDID);
+      if (!patientProfile?.nationalId) {
+        return res.status(400).json({ error: "Complete your profile before adding a guardian" });
+      }
+
+      const request = delegationRequestSchema.parse(req.body);
+      const delegation = await consentDelegationService.createDelegation(
+        { patientDID: patientProfile.patientDID, nationalId: patientProfile.nationalId },
+        request,
+        { type: 'patient', createdBy: req.session.patientDID },
+        req
+      );
+
+      res.json({ success: true, delegation });
+    } catch (error: any) {
+      console.error("Error creating delegation:", error);
+      res.status(400).json({ error: `Failed to add guardian: ${error.message}` });
+    }
+  });
+
+  /**
+   * Revoke a guardian's delegation
+   * POST /api/patient/delegations/:id/revoke
+   */
+  app.post("/api/patient/delegations/:id/revoke", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid delegation id" });
+      }
+
+      await consentDelegationService.revokeDelegation(id, req.session.patientDID, { patientDID: req.session.patientDID }, req);
+      res.json({ success: true, message: "Guardian access revoked" });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Patients the logged-in user acts for, with their pending requests and active grants
+   * GET /api/patient/delegated-patients
+   */
+  app.get("/api/patient/delegated-patients", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const delegations = await consentDelegationService.getDelegationsForDelegate(sessionDelegate(req));
+      const patients = await Promise.all(delegations.map(async delegation => {
+        const profile = await storage.getPatientProfileByDID(delegation.patientDID);
+        const canRespond = delegation.powers.includes('respond_consent');
+        const canRevoke = delegation.powers.includes('revoke_consent');
+        const now = new Date();
+        return {
+          delegationId: delegation.id,
+          patientDID: delegation.patientDID,
+          patientName: profile?.fullName || "Patient",
+          relationship: delegation.relationship,
+          powers: delegation.powers,
+          expiresAt: delegation.expiresAt,
+          pendingRequests: canRespond ? await storage.getPendingConsentRequests(delegation.patientId) : [],
+          grants: canRevoke
+            ? (await storage.getConsentGrantsByPatientId(delegation.patientId))
+                .filter(g => !g.revokedAt && new Date(g.expiresAt) > now)
+            : [],
+        };
+      }));
+
+      res.json({ success: true, patients });
+    } catch (error: any) {
+      console.error("Error fetching delegated patients:", error);
+      res.status(500).json({ error: "Failed to fetch delegated patients" });
+    }
+  });
+
+  /**
+   * Admin: record a delegation backed by documented authority (guardianship order, power of attorney)
+   * for a patient with records at the admin's hospital
+   * POST /api/admin/delegations
+   */
+  app.post("/api/admin/delegations", requireAdminAuth, async (req, res) => {
+    try {
+      const admin = req.user!;
+      const { nationalId, ...rest } = z.object({ nationalId: z.string().min(1) }).passthrough().parse(req.body);
+      const request = delegationRequestSchema.parse(rest);
+
+      const patientProfile = await storage.getPatientProfileByNationalId(nationalId.trim());
+      if (!patientProfile?.patientDID) {
+        return res.status(404).json({ error: "No patient identity found for this national ID" });
+      }
+      const records = await storage.getPatientRecordsByNationalId(patientProfile.nationalId);
+      if (!records.some(r => r.hospital_id === admin.hospital_id)) {
+        return res.status(403).json({ error: "Patient has no records at your hospital" });
+      }
+
+      const delegation = await consentDelegationService.createDelegation(
+        { patientDID: patientProfile.patientDID, nationalId: patientProfile.nationalId },
+        request,
+        { type: 'hospital_admin', createdBy: `admin:${admin.id}`, hospitalId: permissionService.hospitalKeyFor(admin) },
+        req
+      );
+
+      res.json({ success: true, delegation });
+    } catch (error: any) {
+      console.error("Error creating delegation:", error);
+      res.status(400).json({ error: `Failed to create delegation: ${error.message}` });
+    }
+  });
+
+  /**
+   * Admin: revoke a delegation the admin's hospital recorded
+   * POST /api/admin/delegations/:id/revoke
+   */
+  app.post("/api/admin/delegations/:id/revoke", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid delegation id" });
+      }
+
+      await consentDelegationService.revokeDelegation(id, `admin:${req.user!.id}`, { hospitalId: permissionService.hospitalKeyFor(req.user!) }, req);
+      res.json({ success: true, message: "Delegation revoked" });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message });
+    }
+  });
+}
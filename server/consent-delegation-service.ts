@@ -0,0 +1,161 @@
+import type { Request } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { auditService } from './audit-service';
+import type { ConsentDelegation } from '@shared/schema';
+
+// What a delegate may do for the patient
+export const DELEGATION_POWERS = ['respond_consent', 'revoke_consent', 'grant_consent'] as const;
+export type DelegationPower = typeof DELEGATION_POWERS[number];
+
+const MAX_DELEGATION_DAYS = 365 * 5;
+
+export const delegationRequestSchema = z.object({
+  delegateName: z.string().min(1),
+  relationship: z.string().min(1),
+  delegatePhone: z.string().regex(/^\+\d{9,15}$/, 'Use international format like +254712345678').optional(),
+  delegateDID: z.string().startsWith('did:').optional(),
+  powers: z.array(z.enum(DELEGATION_POWERS)).min(1),
+  durationDays: z.number().int().positive().max(MAX_DELEGATION_DAYS),
+  authorityReference: z.string().min(1).optional(),
+}).refine(d => !!d.delegatePhone || !!d.delegateDID, {
+  message: 'A delegate phone number or DID is required',
+});
+
+export type DelegationRequest = z.infer<typeof delegationRequestSchema>;
+
+// Delegation fields copied into audit metadata whenever a delegate acts
+export function delegationAuditMetadata(delegation: ConsentDelegation): Record<string, any> {
+  return {
+    delegationId: delegation.id,
+    delegateName: delegation.delegateName,
+    relationship: delegation.relationship,
+    authorityType: delegation.authorityType,
+  };
+}
+
+export interface DelegateIdentity {
+  phone?: string | null;
+  did?: string | null;
+}
+
+/**
+ * Consent Delegation Service
+ * Links guardians and caregivers to a patient with scoped powers and an expiry.
+ * Patients delegate for themselves; hospital admins may delegate when they hold
+ * documented authority (guardianship order, medical power of attorney).
+ * Every delegation change and delegated consent action lands in the consent audit trail.
+ */
+class ConsentDelegationService {
+  private static instance: ConsentDelegationService;
+
+  static getInstance(): ConsentDelegationService {
+    if (!ConsentDelegationService.instance) {
+      ConsentDelegationService.instance = new ConsentDelegationService();
+    }
+    return ConsentDelegationService.instance;
+  }
+
+  async createDelegation(
+    patient: { patientDID: string; nationalId: string },
+    request: DelegationRequest,
+    authority: { type: 'patient' | 'hospital_admin'; createdBy: string; hospitalId?: string },
+    req?: Request
+  ): Promise<ConsentDelegation> {
+    if (authority.type === 'hospital_admin' && !request.authorityReference) {
+      throw new Error('Hospital admins must reference the documented authority for a delegation');
+    }
+    if (request.delegateDID === patient.patientDID) {
+      throw new Error('Patients cannot delegate to themselves');
+    }
+
+    const delegation = await storage.createConsentDelegation({
+      patientDID: patient.patientDID,
+      patientId: patient.nationalId,
+      delegatePhone: request.delegatePhone ?? null,
+      delegateDID: request.delegateDID ?? null,
+      delegateName: request.delegateName,
+      relationship: request.relationship,
+      powers: request.powers,
+      authorityType: authority.type,
+      authorityReference: request.authorityReference ?? null,
+      createdBy: authority.createdBy,
+      hospitalId: authority.hospitalId ?? null,
+      expiresAt: new Date(Date.now() + request.durationDays * 24 * 60 * 60 * 1000),
+    });
+
+    await this.audit(delegation, 'DELEGATION_CREATED', authority.createdBy, req);
+    return delegation;
+  }
+
+  /**
+   * Revoke a delegation; patients may revoke their own, admins those their hospital recorded
+   */
+  async revokeDelegation(id: number, revokedBy: string, scope: { patientDID?: string; hospitalId?: string }, req?: Request): Promise<void> {
+    const delegation = await storage.getConsentDelegationById(id);
+    if (!delegation || (scope.patientDID && delegation.patientDID !== scope.patientDID) || (scope.hospitalId && delegation.hospitalId !== scope.hospitalId)) {
+      throw new Error('Delegation not found');
+    }
+
+    await storage.revokeConsentDelegation(id);
+    await this.audit(delegation, 'DELEGATION_REVOKED', revokedBy, req);
+  }
+
+  /**
+   * The active delegation letting this delegate use a power for the patient, if any
+   */
+  async findActiveDelegation(patientDID: string, delegate: DelegateIdentity, power: DelegationPower): Promise<ConsentDelegation | undefined> {
+    const delegations = await storage.getActiveConsentDelegationsForDelegate(delegate);
+    return delegations.find(d => d.patientDID === patientDID && d.powers.includes(power));
+  }
+
+  async getDelegationsForDelegate(delegate: DelegateIdentity): Promise<ConsentDelegation[]> {
+    return storage.getActiveConsentDelegationsForDelegate(delegate);
+  }
+
+  async getDelegationsForPatient(patientDID: string): Promise<ConsentDelegation[]> {
+    return storage.getConsentDelegationsByPatientDID(patientDID);
+  }
+
+  /**
+   * Record a consent decision a delegate made that has no grant of its own (e.g. a denial)
+   */
+  async logDelegatedAction(
+    delegation: ConsentDelegation,
+    consentAction: string,
+    actor: string,
+    details: { hospitalDID: string; metadata?: Record<string, any> },
+    req?: Request
+  ): Promise<void> {
+    await auditService.logConsentEvent({
+      patientDID: delegation.patientDID,
+      hospitalDID: details.hospitalDID,
+      recordId: null,
+      consentAction,
+      verificationMethod: 'delegate',
+      grantedBy: actor,
+      expiresAt: null,
+      metadata: { ...details.metadata, ...delegationAuditMetadata(delegation) },
+    }, req);
+  }
+
+  private async audit(delegation: ConsentDelegation, consentAction: string, actor: string, req?: Request): Promise<void> {
+    await auditService.logConsentEvent({
+      patientDID: delegation.patientDID,
+      // Delegations are not hospital-specific; the delegate stands in the hospital slot
+      hospitalDID: delegation.delegateDID || `tel:${delegation.delegatePhone}`,
+      recordId: null,
+      consentAction,
+      verificationMethod: delegation.authorityType,
+      grantedBy: actor,
+      expiresAt: delegation.expiresAt,
+      metadata: {
+        ...delegationAuditMetadata(delegation),
+        powers: delegation.powers,
+        authorityReference: delegation.authorityReference,
+      },
+    }, req);
+  }
+}
+
+export const consentDelegationService = ConsentDelegationService.getInstance();
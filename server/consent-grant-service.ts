@@ -0,0 +1,348 @@
+import type { Request } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { auditService } from './audit-service';
+import { consentDelegationService, delegationAuditMetadata } from './consent-delegation-service';
+import type { ConsentDelegation, ConsentGrant, PatientRecord } from '@shared/schema';
+
+export const DEFAULT_CONSENT_HOURS = 12;
+export const MAX_CONSENT_HOURS = 24 * 90;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+/**
+ * What a grant covers. Omitted fields are unrestricted; supplied fields must all match.
+ */
+export const consentScopeSchema = z.object({
+  recordIds: z.array(z.number().int().positive()).min(1).optional(),
+  recordTypes: z.array(z.string().min(1)).min(1).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  durationHours: z.number().int().positive().max(MAX_CONSENT_HOURS).default(DEFAULT_CONSENT_HOURS),
+}).refine(s => !s.dateFrom || !s.dateTo || s.dateFrom <= s.dateTo, {
+  message: 'dateFrom must not be after dateTo',
+});
+
+export type ConsentScope = z.infer<typeof consentScopeSchema>;
+
+export interface GrantConsentParams {
+  patientId: string; // National ID
+  patientDID?: string | null;
+  grantedTo: number; // Hospital user id
+  hospitalId: number;
+  scope: ConsentScope;
+  grantedBy: string; // Patient DID, delegate DID/phone or hospital user id
+  verificationMethod: string;
+  consentRequestId?: number;
+  delegation?: ConsentDelegation; // Set when a guardian or caregiver grants for the patient
+}
+
+export interface ConsentResponseParams {
+  consentRequest: any; // Pending request from storage.getConsentRequestById
+  patient: { nationalId: string; patientDID: string };
+  action: 'approve' | 'deny';
+  actor: string; // Patient DID, or the delegate's DID / phone number
+  reason?: string;
+  scope?: ConsentScope;
+  delegation?: ConsentDelegation;
+}
+
+export interface ConsentResponseResult {
+  message: string;
+  recordsGranted?: number;
+  consentGrantId?: number;
+  expiresAt?: Date;
+}
+
+export interface CoveredRecords {
+  records: PatientRecord[];
+  grants: ConsentGrant[];
+  expiresAt: Date | null;
+}
+
+/**
+ * Consent Grant Service
+ * Patient consent scoped to named records, visit types or a visit-date range, with a
+ * patient-chosen expiry. Hospitals only ever see records covered by an active grant.
+ */
+class ConsentGrantService {
+  private static instance: ConsentGrantService;
+
+  static getInstance(): ConsentGrantService {
+    if (!ConsentGrantService.instance) {
+      ConsentGrantService.instance = new ConsentGrantService();
+    }
+    return ConsentGrantService.instance;
+  }
+
+  private static hospitalDID(userId: number): string {
+    return `did:medbridge:hospital:${userId}`;
+  }
+
+  /**
+   * Create a grant after checking any named records belong to the patient
+   */
+  async grant(params: GrantConsentParams, req?: Request): Promise<ConsentGrant> {
+    const { scope } = params;
+
+    if (scope.recordIds) {
+      const ownIds = new Set((await storage.getPatientRecordsByNationalId(params.patientId)).map(r => r.id));
+      const foreign = scope.recordIds.filter(id => !ownIds.has(id));
+      if (foreign.length > 0) {
+        throw new Error(`Records ${foreign.join(', ')} do not belong to this patient`);
+      }
+    }
+
+    // Only the patient, or someone acting for them, may choose more than the default duration
+    const durationHours = params.verificationMethod === 'hospital_attested'
+      ? Math.min(scope.durationHours, DEFAULT_CONSENT_HOURS)
+      : scope.durationHours;
+    const expiresAt = new Date(Date.now() + durationHours * 60 * 60 * 1000);
+    const grant = await storage.createConsentGrant({
+      patientId: params.patientId,
+      patientDID: params.patientDID || null,
+      grantedTo: params.grantedTo,
+      recordIds: scope.recordIds ?? null,
+      recordTypes: scope.recordTypes ?? null,
+      dateFrom: scope.dateFrom ?? null,
+      dateTo: scope.dateTo ?? null,
+      consentRequestId: params.consentRequestId ?? null,
+      expiresAt,
+      hospital_id: params.hospitalId,
+    });
+
+    await this.audit(grant, 'GRANTED', params.grantedBy, params.verificationMethod, req, params.delegation);
+    return grant;
+  }
+
+  /**
+   * Approve or deny a pending hospital consent request. Callers have already checked
+   * the actor is the patient or holds a delegation with respond_consent.
+   */
+  async respondToRequest(params: ConsentResponseParams, req?: Request): Promise<ConsentResponseResult> {
+    const { consentRequest, patient, action, actor, reason, delegation } = params;
+    const consentType = consentRequest.consentType || 'traditional';
+    const hospitalUserId = Number(consentRequest.accessedBy);
+    const actorType = delegation ? 'DELEGATE' : 'PATIENT';
+    const delegationMetadata = delegation ? delegationAuditMetadata(delegation) : {};
+
+    if (action === 'deny') {
+      await storage.updateConsentRequestStatus(patient.nationalId, hospitalUserId, "denied");
+      await auditService.logEvent({
+        eventType: consentType === 'web3' ? "WEB3_CONSENT_DENIED" : "CONSENT_DENIED",
+        actorType,
+        actorId: actor,
+        targetType: "HOSPITAL",
+        targetId: hospitalUserId.toString(),
+        action: consentType === 'web3' ? "DENY_WEB3_CONSENT" : "DENY_CONSENT",
+        outcome: "SUCCESS",
+        metadata: {
+          requestId: consentRequest.id,
+          reason: reason || "Patient denied consent",
+          ...delegationMetadata,
+        },
+        severity: "info",
+      }, req);
+      if (delegation) {
+        await consentDelegationService.logDelegatedAction(delegation, 'DENIED', actor, {
+          hospitalDID: ConsentGrantService.hospitalDID(hospitalUserId),
+          metadata: { requestId: consentRequest.id, reason },
+        }, req);
+      }
+      return { message: "Consent denied" };
+    }
+
+    const grant = await this.grant({
+      patientId: patient.nationalId,
+      patientDID: patient.patientDID,
+      grantedTo: hospitalUserId,
+      hospitalId: consentRequest.hospital_id,
+      scope: params.scope ?? consentScopeSchema.parse({}),
+      grantedBy: actor,
+      verificationMethod: delegation ? 'delegate' : consentType,
+      consentRequestId: consentRequest.id,
+      delegation,
+    }, req);
+
+    // --- Web3 Consent ---
+    if (consentType === 'web3') {
+      // Legacy Web3 consent rows cover every record, so only unscoped approvals get one
+      if (isUnscoped(grant)) {
+        await storage.createWeb3Consent({
+          patientDID: patient.patientDID,
+          requesterId: ConsentGrantService.hospitalDID(hospitalUserId),
+          consentType: 'read',
+          consentGiven: true,
+          // Same patient-chosen expiry as the grant
+          expiresAt: grant.expiresAt,
+          revokedAt: null,
+        });
+      }
+      await storage.updateConsentRequestStatus(patient.nationalId, hospitalUserId, "granted");
+      await auditService.logEvent({
+        eventType: "WEB3_CONSENT_APPROVED",
+        actorType,
+        actorId: actor,
+        targetType: "HOSPITAL",
+        targetId: hospitalUserId.toString(),
+        action: "APPROVE_WEB3_CONSENT",
+        outcome: "SUCCESS",
+        metadata: {
+          requestId: consentRequest.id,
+          consentGrantId: grant.id,
+          reason: reason || "Patient approved Web3 consent",
+          ...delegationMetadata,
+        },
+        severity: "info",
+      }, req);
+      return { message: "Web3 consent approved successfully", consentGrantId: grant.id, expiresAt: grant.expiresAt };
+    }
+
+    // --- Traditional Consent (default) ---
+    const records = this.filterCoveredRecords(await storage.getPatientRecordsByNationalId(patient.nationalId), [grant]);
+    for (const record of records) {
+      await storage.createConsentRecord({
+        patientId: patient.nationalId,
+        accessedBy: hospitalUserId,
+        recordId: record.id,
+        consentGrantedBy: patient.patientDID,
+        hospital_id: hospitalUserId,
+        consent_type: 'traditional',
+      });
+    }
+    await storage.updateConsentRequestStatus(patient.nationalId, hospitalUserId, "granted");
+    await auditService.logEvent({
+      eventType: "CONSENT_APPROVED",
+      actorType,
+      actorId: actor,
+      targetType: "HOSPITAL",
+      targetId: hospitalUserId.toString(),
+      action: "APPROVE_CONSENT",
+      outcome: "SUCCESS",
+      metadata: {
+        requestId: consentRequest.id,
+        consentGrantId: grant.id,
+        recordCount: records.length,
+        reason: reason || "Patient approved consent",
+        ...delegationMetadata,
+      },
+      severity: "info",
+    }, req);
+    return {
+      message: "Consent approved successfully",
+      recordsGranted: records.length,
+      consentGrantId: grant.id,
+      expiresAt: grant.expiresAt,
+    };
+  }
+
+  /**
+   * Revoke a single grant; only the patient it belongs to may do so
+   */
+  async revoke(grantId: number, patientId: string, revokedBy: string, req?: Request, delegation?: ConsentDelegation): Promise<ConsentGrant> {
+    const grant = await storage.getConsentGrantById(grantId);
+    if (!grant || grant.patientId !== patientId) {
+      throw new Error('Consent grant not found');
+    }
+
+    await storage.revokeConsentGrant(grantId);
+    await this.audit(grant, 'REVOKED', revokedBy, delegation ? 'delegate' : 'patient_portal', req, delegation);
+    return { ...grant, revokedAt: new Date() };
+  }
+
+  covers(grant: ConsentGrant, record: PatientRecord): boolean {
+    if (grant.recordIds && !grant.recordIds.includes(record.id)) return false;
+    if (grant.recordTypes && !grant.recordTypes.includes(record.visitType || '')) return false;
+
+    // visit_date is free text from the hospital form; compare on its YYYY-MM-DD prefix
+    const visitDay = record.visitDate?.slice(0, 10) || '';
+    if (grant.dateFrom && visitDay < grant.dateFrom) return false;
+    if (grant.dateTo && visitDay > grant.dateTo) return false;
+    return true;
+  }
+
+  filterCoveredRecords(records: PatientRecord[], grants: ConsentGrant[]): PatientRecord[] {
+    return records.filter(record => grants.some(grant => this.covers(grant, record)));
+  }
+
+  /**
+   * Records a hospital may read right now. Active Web3 consents that name a
+   * contentHash also cover the record stored under that IPFS hash.
+   */
+  async getCoveredRecords(records: PatientRecord[], patientId: string, hospitalUserId: number, patientDID?: string | null): Promise<CoveredRecords> {
+    const grants = await storage.getActiveConsentGrants(patientId, hospitalUserId);
+    const covered = new Set(this.filterCoveredRecords(records, grants).map(r => r.id));
+    const expiries = grants.map(g => new Date(g.expiresAt).getTime());
+
+    if (patientDID) {
+      const now = new Date();
+      const web3Consents = (await storage.getConsentByPatientAndRequester(patientDID, ConsentGrantService.hospitalDID(hospitalUserId)))
+        .filter(c => c.consentGiven && c.contentHash && !c.revokedAt && !!c.expiresAt && now < c.expiresAt);
+      for (const consent of web3Consents) {
+        const matches = records.filter(r => r.ipfsHash && r.ipfsHash === consent.contentHash);
+        if (matches.length === 0) continue;
+        matches.forEach(r => covered.add(r.id));
+        expiries.push(new Date(consent.expiresAt as any).getTime());
+      }
+    }
+
+    return {
+      records: records.filter(r => covered.has(r.id)),
+      grants,
+      expiresAt: expiries.length > 0 ? new Date(Math.min(...expiries)) : null,
+    };
+  }
+
+  /**
+   * Whether a hospital may read a single record right now
+   */
+  async coversRecord(record: PatientRecord, hospitalUserId: number): Promise<boolean> {
+    const covered = await this.getCoveredRecords([record], record.nationalId, hospitalUserId, record.patientDID);
+    return covered.records.length > 0;
+  }
+
+  private async audit(grant: ConsentGrant, consentAction: 'GRANTED' | 'REVOKED', actor: string, verificationMethod: string, req?: Request, delegation?: ConsentDelegation): Promise<void> {
+    const scope = {
+      ...(delegation ? delegationAuditMetadata(delegation) : {}),
+      grantId: grant.id,
+      recordIds: grant.recordIds,
+      recordTypes: grant.recordTypes,
+      dateFrom: grant.dateFrom,
+      dateTo: grant.dateTo,
+      consentRequestId: grant.consentRequestId,
+    };
+
+    if (grant.patientDID) {
+      await auditService.logConsentEvent({
+        patientDID: grant.patientDID,
+        hospitalDID: ConsentGrantService.hospitalDID(grant.grantedTo),
+        recordId: grant.recordIds?.length === 1 ? grant.recordIds[0] : null,
+        consentAction,
+        verificationMethod,
+        grantedBy: actor,
+        expiresAt: grant.expiresAt,
+        metadata: scope,
+      }, req);
+      return;
+    }
+
+    // Traditional patients without a DID cannot go in the consent audit trail
+    await auditService.logEvent({
+      eventType: `CONSENT_${consentAction}`,
+      actorType: consentAction === 'GRANTED' && verificationMethod === 'hospital_attested' ? 'HOSPITAL' : 'PATIENT',
+      actorId: actor,
+      targetType: 'PATIENT',
+      targetId: grant.patientId,
+      action: consentAction === 'GRANTED' ? 'GRANT_CONSENT' : 'REVOKE_CONSENT',
+      outcome: 'SUCCESS',
+      metadata: { ...scope, expiresAt: grant.expiresAt },
+      severity: 'info',
+    }, req);
+  }
+}
+
+function isUnscoped(grant: ConsentGrant): boolean {
+  return !grant.recordIds && !grant.recordTypes && !grant.dateFrom && !grant.dateTo;
+}
+
+export const consentGrantService = ConsentGrantService.getInstance();
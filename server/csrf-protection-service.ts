@@ -15,6 +15,9 @@ const cookieOptions = {
   maxAge: 24 * 60 * 60 * 1000,
 };
 
+// Server-to-server callbacks (relative to /api) that never carry a browser session
+const csrfExemptPaths = ['/ussd', '/ussd/simulate'];
+
 /**
  * Selective CSRF Protection Middleware
  * Only applies CSRF protection to state-changing operations (POST, PUT, DELETE, PATCH)
@@ -22,6 +25,7 @@ const cookieOptions = {
 export const csrfProtection = (req: Request, res: Response, next: NextFunction) => {
   const stateChanging = ['POST', 'PUT', 'DELETE', 'PATCH'];
   if (!stateChanging.includes(req.method)) return next();
+  if (csrfExemptPaths.includes(req.path)) return next();
 
   try {
     const headerToken = (req.headers['x-csrf-token'] || req.headers['x-xsrf-token'] || req.body?.csrfToken || req.query?.csrfToken) as string | undefined;
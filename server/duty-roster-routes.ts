@@ -0,0 +1,181 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { requireAdminAuth } from "./admin-auth-middleware";
+import { storage } from "./storage";
+import { dutyRosterService } from "./duty-roster-service";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const templateSchema = z.object({
+  department: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  startTime: timeSchema,
+  endTime: timeSchema,
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1),
+  timezone: z.string().min(1).optional(),
+});
+
+const assignmentSchema = z.object({
+  templateId: z.number().int(),
+  staffId: z.string().min(1),
+  fromDate: dateSchema,
+  toDate: dateSchema,
+});
+
+const handoverSchema = z.object({
+  notes: z.string().trim().min(1).max(4000),
+});
+
+/**
+ * Duty Roster Routes
+ * Admins define shifts per department and assign staff; on-duty status for
+ * emergency authorization is derived from these assignments.
+ */
+export function registerDutyRosterRoutes(app: Express): void {
+
+  /**
+   * Shift templates for the admin's hospital, including inactive ones
+   * GET /api/roster/templates
+   */
+  app.get("/api/roster/templates", requireAdminAuth, async (req, res, next) => {
+    try {
+      const templates = await dutyRosterService.listTemplates(req.user!.id.toString());
+      res.json({ success: true, templates });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/roster/templates
+   */
+  app.post("/api/roster/templates", requireAdminAuth, async (req, res) => {
+    try {
+      const input = templateSchema.parse(req.body);
+      const template = await dutyRosterService.createTemplate(req.user!.id.toString(), input, req.user!, req);
+      res.json({ success: true, template });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to create shift template: ${error.message}` });
+    }
+  });
+
+  /**
+   * Edit or deactivate a shift template
+   * PATCH /api/roster/templates/:id
+   */
+  app.patch("/api/roster/templates/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid template id" });
+      }
+
+      const updates = templateSchema.partial().extend({ isActive: z.boolean().optional() }).parse(req.body);
+      const template = await dutyRosterService.updateTemplate(id, req.user!.id.toString(), updates, req.user!, req);
+      res.json({ success: true, template });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to update shift template: ${error.message}` });
+    }
+  });
+
+  /**
+   * Assignments between two dates, defaulting to the coming week
+   * GET /api/roster/assignments?from=YYYY-MM-DD&to=YYYY-MM-DD
+   */
+  app.get("/api/roster/assignments", requireAdminAuth, async (req, res) => {
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const fromDate = typeof req.query.from === "string" ? req.query.from : today;
+      const toDate = typeof req.query.to === "string"
+        ? req.query.to
+        : new Date(Date.parse(`${fromDate}T00:00:00Z`) + 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+      const assignments = await dutyRosterService.getRoster(req.user!.id.toString(), fromDate, toDate);
+      res.json({ success: true, fromDate, toDate, assignments });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to get roster: ${error.message}` });
+    }
+  });
+
+  /**
+   * Assign a staff member to a shift on every matching day in a date range
+   * POST /api/roster/assignments
+   */
+  app.post("/api/roster/assignments", requireAdminAuth, async (req, res) => {
+    try {
+      const params = assignmentSchema.parse(req.body);
+      const assignments = await dutyRosterService.assignStaff(req.user!.id.toString(), params, req.user!, req);
+      res.json({ success: true, assignments });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to assign shift: ${error.message}` });
+    }
+  });
+
+  /**
+   * DELETE /api/roster/assignments/:id
+   */
+  app.delete("/api/roster/assignments/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid assignment id" });
+      }
+
+      await dutyRosterService.removeAssignment(id, req.user!.id.toString(), req.user!, req);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Handover notes for the incoming shift, written by the admin or the staff member on the shift
+   * POST /api/roster/assignments/:id/handover
+   */
+  app.post("/api/roster/assignments/:id/handover", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid assignment id" });
+      }
+
+      const { notes } = handoverSchema.parse(req.body);
+      const assignment = await dutyRosterService.recordHandover(id, notes, req.user, req);
+      res.json({ success: true, assignment });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to record handover: ${error.message}` });
+    }
+  });
+
+  /**
+   * Recent handover notes, optionally for one department
+   * GET /api/roster/handovers?department=
+   */
+  app.get("/api/roster/handovers", requireAdminAuth, async (req, res, next) => {
+    try {
+      const department = typeof req.query.department === "string" ? req.query.department : undefined;
+      const handovers = await dutyRosterService.getHandoverNotes(req.user!.id.toString(), department);
+      res.json({ success: true, handovers });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * Staff on duty right now according to the roster
+   * GET /api/roster/on-duty
+   */
+  app.get("/api/roster/on-duty", requireAdminAuth, async (req, res, next) => {
+    try {
+      const staff = await storage.getHospitalStaffByHospitalId(req.user!.id.toString());
+      const withStatus = await dutyRosterService.withDutyStatus(staff);
+      res.json({ success: true, staff: withStatus.filter(s => s.isOnDuty) });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,419 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import type { HospitalStaff, ShiftAssignment, ShiftTemplate, User } from "@shared/schema";
+
+export const DEFAULT_HOSPITAL_TIMEZONE = process.env.HOSPITAL_TIMEZONE || 'Africa/Nairobi';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest range a single assignment request may fill in
+const MAX_ASSIGNMENT_DAYS = 62;
+
+export interface ShiftTemplateInput {
+  department: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[];
+  timezone?: string;
+}
+
+export interface DutyStatus {
+  onDuty: boolean;
+  // 'roster' once the hospital has shift templates, otherwise the manual isOnDuty flag
+  source: 'roster' | 'manual';
+  shift?: {
+    assignmentId: number;
+    templateName: string;
+    department: string;
+    shiftDate: string;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+  };
+}
+
+export interface RosterEntry extends ShiftAssignment {
+  template: Pick<ShiftTemplate, 'name' | 'department' | 'startTime' | 'endTime' | 'timezone'> | null;
+  staffName: string | null;
+}
+
+/**
+ * Duty Roster Service
+ * Derives whether a staff member is on duty from the shifts they are assigned to,
+ * evaluated in the hospital's local time. Hospitals that have not set up a roster
+ * keep using the manually toggled hospital_staff.is_on_duty flag.
+ */
+class DutyRosterService {
+  private static instance: DutyRosterService;
+
+  static getInstance(): DutyRosterService {
+    if (!DutyRosterService.instance) {
+      DutyRosterService.instance = new DutyRosterService();
+    }
+    return DutyRosterService.instance;
+  }
+
+  async listTemplates(hospitalId: string): Promise<ShiftTemplate[]> {
+    return storage.getShiftTemplates(hospitalId, true);
+  }
+
+  async createTemplate(hospitalId: string, input: ShiftTemplateInput, actor: User, req?: Request): Promise<ShiftTemplate> {
+    const timezone = input.timezone || DEFAULT_HOSPITAL_TIMEZONE;
+    this.validateTemplate({ ...input, timezone });
+
+    const template = await storage.createShiftTemplate({
+      hospitalId,
+      department: input.department,
+      name: input.name,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      daysOfWeek: Array.from(new Set(input.daysOfWeek)).sort(),
+      timezone,
+    });
+
+    await this.audit("SHIFT_TEMPLATE_CREATED", "CREATE", actor, "SHIFT_TEMPLATE", template.id, {
+      department: template.department,
+      name: template.name,
+      startTime: template.startTime,
+      endTime: template.endTime,
+      daysOfWeek: template.daysOfWeek,
+      timezone: template.timezone,
+    }, req);
+    return template;
+  }
+
+  async updateTemplate(
+    id: number,
+    hospitalId: string,
+    updates: Partial<ShiftTemplateInput> & { isActive?: boolean },
+    actor: User,
+    req?: Request
+  ): Promise<ShiftTemplate> {
+    const existing = await this.getScopedTemplate(id, hospitalId);
+    const merged = {
+      department: updates.department ?? existing.department,
+      name: updates.name ?? existing.name,
+      startTime: updates.startTime ?? existing.startTime,
+      endTime: updates.endTime ?? existing.endTime,
+      daysOfWeek: updates.daysOfWeek ?? existing.daysOfWeek,
+      timezone: updates.timezone ?? existing.timezone,
+    };
+    this.validateTemplate(merged);
+
+    const template = await storage.updateShiftTemplate(id, {
+      ...merged,
+      daysOfWeek: Array.from(new Set(merged.daysOfWeek)).sort(),
+      isActive: updates.isActive ?? existing.isActive,
+    });
+
+    await this.audit("SHIFT_TEMPLATE_UPDATED", "UPDATE", actor, "SHIFT_TEMPLATE", id, { updates }, req);
+    return template;
+  }
+
+  /**
+   * Assign a staff member to every occurrence of a shift between two local dates (inclusive)
+   */
+  async assignStaff(
+    hospitalId: string,
+    params: { templateId: number; staffId: string; fromDate: string; toDate: string },
+    actor: User,
+    req?: Request
+  ): Promise<ShiftAssignment[]> {
+    const template = await this.getScopedTemplate(params.templateId, hospitalId);
+    if (!template.isActive) {
+      throw new Error('Shift template is inactive');
+    }
+
+    const staff = await storage.getHospitalStaffByStaffId(params.staffId);
+    if (!staff || staff.hospitalId !== hospitalId || !staff.isActive) {
+      throw new Error('Staff member not found');
+    }
+
+    const dates = this.datesBetween(params.fromDate, params.toDate)
+      .filter(date => template.daysOfWeek.includes(this.weekdayOf(date)));
+    if (dates.length === 0) {
+      throw new Error('No shift occurrences fall within the selected dates');
+    }
+
+    const existing = await storage.getShiftAssignments({ staffId: staff.staffId, fromDate: params.fromDate, toDate: params.toDate });
+    const taken = new Set(existing.filter(a => a.templateId === template.id).map(a => a.shiftDate));
+
+    const created: ShiftAssignment[] = [];
+    for (const shiftDate of dates.filter(date => !taken.has(date))) {
+      created.push(await storage.createShiftAssignment({
+        templateId: template.id,
+        hospitalId,
+        staffId: staff.staffId,
+        shiftDate,
+        createdBy: actor.id,
+      }));
+    }
+
+    await this.audit("SHIFT_ASSIGNED", "ASSIGN", actor, "HOSPITAL_STAFF", staff.id, {
+      staffId: staff.staffId,
+      templateId: template.id,
+      fromDate: params.fromDate,
+      toDate: params.toDate,
+      createdCount: created.length,
+      skippedCount: dates.length - created.length,
+    }, req);
+    return created;
+  }
+
+  async removeAssignment(id: number, hospitalId: string, actor: User, req?: Request): Promise<void> {
+    const assignment = await this.getScopedAssignment(id, hospitalId);
+    await storage.deleteShiftAssignment(id);
+    await this.audit("SHIFT_ASSIGNMENT_REMOVED", "DELETE", actor, "SHIFT_ASSIGNMENT", id, {
+      staffId: assignment.staffId,
+      templateId: assignment.templateId,
+      shiftDate: assignment.shiftDate,
+    }, req);
+  }
+
+  /**
+   * Record handover notes for the next shift. The admin or the staff member working the shift may write them.
+   */
+  async recordHandover(id: number, notes: string, actor: User, req?: Request): Promise<ShiftAssignment> {
+    const assignment = await storage.getShiftAssignmentById(id);
+    const isHospitalAdmin = actor.isAdmin && assignment?.hospitalId === actor.id.toString();
+    if (!assignment || (!isHospitalAdmin && assignment.staffId !== actor.username)) {
+      throw new Error('Shift assignment not found');
+    }
+
+    const updated = await storage.updateShiftAssignment(id, { handoverNotes: notes, handoverAt: new Date() });
+    await this.audit("SHIFT_HANDOVER_RECORDED", "HANDOVER", actor, "SHIFT_ASSIGNMENT", id, {
+      staffId: assignment.staffId,
+      shiftDate: assignment.shiftDate,
+    }, req);
+    return updated;
+  }
+
+  /**
+   * Assignments between two local dates with their shift and staff names
+   */
+  async getRoster(hospitalId: string, fromDate: string, toDate: string): Promise<RosterEntry[]> {
+    this.datesBetween(fromDate, toDate);
+    const [assignments, templates, staff] = await Promise.all([
+      storage.getShiftAssignments({ hospitalId, fromDate, toDate }),
+      storage.getShiftTemplates(hospitalId, true),
+      storage.getHospitalStaffByHospitalId(hospitalId),
+    ]);
+    const templateById = new Map(templates.map(t => [t.id, t]));
+    const staffById = new Map(staff.map(s => [s.staffId, s]));
+
+    return assignments.map(assignment => {
+      const template = templateById.get(assignment.templateId);
+      return {
+        ...assignment,
+        template: template ? {
+          name: template.name,
+          department: template.department,
+          startTime: template.startTime,
+          endTime: template.endTime,
+          timezone: template.timezone,
+        } : null,
+        staffName: staffById.get(assignment.staffId)?.name ?? null,
+      };
+    });
+  }
+
+  /**
+   * Whether a staff member is on duty at a given moment, and which shift puts them there
+   */
+  async getDutyStatus(staff: HospitalStaff, at: Date = new Date(), templates?: ShiftTemplate[]): Promise<DutyStatus> {
+    const hospitalTemplates = templates ?? await storage.getShiftTemplates(staff.hospitalId);
+    if (hospitalTemplates.length === 0) {
+      return { onDuty: staff.isActive && staff.isOnDuty, source: 'manual' };
+    }
+    if (!staff.isActive) {
+      return { onDuty: false, source: 'roster' };
+    }
+
+    // Local dates run up to a day either side of UTC, and overnight shifts start the day before
+    const utcDate = at.toISOString().slice(0, 10);
+    const assignments = await storage.getShiftAssignments({
+      staffId: staff.staffId,
+      fromDate: this.addDays(utcDate, -2),
+      toDate: this.addDays(utcDate, 1),
+    });
+
+    const templateById = new Map(hospitalTemplates.map(t => [t.id, t]));
+    for (const assignment of assignments) {
+      const template = templateById.get(assignment.templateId);
+      if (template && this.coversMoment(template, assignment.shiftDate, at)) {
+        return {
+          onDuty: true,
+          source: 'roster',
+          shift: {
+            assignmentId: assignment.id,
+            templateName: template.name,
+            department: template.department,
+            shiftDate: assignment.shiftDate,
+            startTime: template.startTime,
+            endTime: template.endTime,
+            timezone: template.timezone,
+          },
+        };
+      }
+    }
+    return { onDuty: false, source: 'roster' };
+  }
+
+  /**
+   * Used by emergency dual authorization
+   */
+  async isOnDuty(staff: HospitalStaff, at: Date = new Date()): Promise<boolean> {
+    return (await this.getDutyStatus(staff, at)).onDuty;
+  }
+
+  /**
+   * Replace the stored isOnDuty flag of each staff member with the derived status
+   */
+  async withDutyStatus<T extends HospitalStaff>(staff: T[], at: Date = new Date()): Promise<Array<T & { dutySource: DutyStatus['source']; currentShift?: DutyStatus['shift'] }>> {
+    const templatesByHospital = new Map<string, ShiftTemplate[]>();
+    const result = [];
+    for (const member of staff) {
+      if (!templatesByHospital.has(member.hospitalId)) {
+        templatesByHospital.set(member.hospitalId, await storage.getShiftTemplates(member.hospitalId));
+      }
+      const status = await this.getDutyStatus(member, at, templatesByHospital.get(member.hospitalId));
+      result.push({ ...member, isOnDuty: status.onDuty, dutySource: status.source, currentShift: status.shift });
+    }
+    return result;
+  }
+
+  /**
+   * Handover notes written for a department's shifts over the last few days, newest first
+   */
+  async getHandoverNotes(hospitalId: string, department?: string, days: number = 3): Promise<RosterEntry[]> {
+    const today = new Date().toISOString().slice(0, 10);
+    const roster = await this.getRoster(hospitalId, this.addDays(today, -days), this.addDays(today, 1));
+    return roster
+      .filter(entry => entry.handoverNotes && (!department || entry.template?.department === department))
+      .sort((a, b) => (b.handoverAt?.getTime() ?? 0) - (a.handoverAt?.getTime() ?? 0));
+  }
+
+  private coversMoment(template: ShiftTemplate, shiftDate: string, at: Date): boolean {
+    const start = this.toMinutes(template.startTime);
+    const end = this.toMinutes(template.endTime);
+    // An end at or before the start means the shift runs past midnight
+    const overnight = end <= start;
+    const local = this.localTime(at, template.timezone);
+
+    if (shiftDate === local.date) {
+      return local.minutes >= start && (overnight || local.minutes < end);
+    }
+    return overnight && shiftDate === this.addDays(local.date, -1) && local.minutes < end;
+  }
+
+  private localTime(at: Date, timezone: string): { date: string; minutes: number } {
+    const parts: Record<string, string> = {};
+    for (const part of new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at)) {
+      parts[part.type] = part.value;
+    }
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  }
+
+  private validateTemplate(template: Required<ShiftTemplateInput>): void {
+    for (const time of [template.startTime, template.endTime]) {
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+        throw new Error(`Invalid shift time ${time}, expected HH:MM`);
+      }
+    }
+    if (template.daysOfWeek.length === 0 || template.daysOfWeek.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new Error('Days of week must be numbers from 0 (Sunday) to 6 (Saturday)');
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: template.timezone });
+    } catch {
+      throw new Error(`Unknown timezone ${template.timezone}`);
+    }
+  }
+
+  private datesBetween(fromDate: string, toDate: string): string[] {
+    const from = this.parseDate(fromDate);
+    const to = this.parseDate(toDate);
+    const days = Math.round((to - from) / DAY_MS);
+    if (days < 0) {
+      throw new Error('End date must not be before start date');
+    }
+    if (days >= MAX_ASSIGNMENT_DAYS) {
+      throw new Error(`Date range cannot exceed ${MAX_ASSIGNMENT_DAYS} days`);
+    }
+    return Array.from({ length: days + 1 }, (_, i) => this.addDays(fromDate, i));
+  }
+
+  private parseDate(date: string): number {
+    const time = /^\d{4}-\d{2}-\d{2}$/.test(date) ? Date.parse(`${date}T00:00:00Z`) : NaN;
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid date ${date}, expected YYYY-MM-DD`);
+    }
+    return time;
+  }
+
+  private addDays(date: string, days: number): string {
+    return new Date(this.parseDate(date) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private weekdayOf(date: string): number {
+    return new Date(this.parseDate(date)).getUTCDay();
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private async getScopedTemplate(id: number, hospitalId: string): Promise<ShiftTemplate> {
+    const template = await storage.getShiftTemplateById(id);
+    if (!template || template.hospitalId !== hospitalId) {
+      throw new Error('Shift template not found');
+    }
+    return template;
+  }
+
+  private async getScopedAssignment(id: number, hospitalId: string): Promise<ShiftAssignment> {
+    const assignment = await storage.getShiftAssignmentById(id);
+    if (!assignment || assignment.hospitalId !== hospitalId) {
+      throw new Error('Shift assignment not found');
+    }
+    return assignment;
+  }
+
+  private async audit(
+    eventType: string,
+    action: string,
+    actor: User,
+    targetType: string,
+    targetId: number,
+    metadata: Record<string, unknown>,
+    req?: Request
+  ): Promise<void> {
+    await auditService.logEvent({
+      eventType,
+      actorType: actor.isAdmin ? "HOSPITAL_ADMIN" : "MEDICAL_STAFF",
+      actorId: actor.id.toString(),
+      targetType,
+      targetId: targetId.toString(),
+      action,
+      outcome: "SUCCESS",
+      metadata,
+      severity: "info",
+      hospital_id: actor.hospital_id,
+    }, req);
+  }
+}
+
+export const dutyRosterService = DutyRosterService.getInstance();
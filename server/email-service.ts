@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
+import { messageCatalog, type Locale, type MessageKey, type MessageParams } from './message-catalog';
 
 // Configure Nodemailer transporter
 let transporter: Transporter | null = null;
@@ -25,10 +26,21 @@ function getTransporter(): Transporter {
   return transporter!;
 }
 
+// Bind the catalog to one locale so templates read like the HTML they fill
+function translator(locale?: Locale) {
+  return (key: MessageKey, params?: MessageParams) => messageCatalog.format(key, locale, params);
+}
+
+// Free text typed by patients or staff is escaped before it goes into HTML
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+}
+
 export interface EmailOTPData {
   to: string;
   otpCode: string;
   expiresInMinutes: number;
+  locale?: Locale;
 }
 
 export interface EmergencyConsentEmailData {
@@ -39,6 +51,34 @@ export interface EmergencyConsentEmailData {
   emergencyType: string;
   hospitalName: string;
   contactPhone: string;
+  locale?: Locale;
+}
+
+export interface EmergencyReviewReminderEmailData {
+  to: string;
+  hospitalName: string;
+  pendingCount: number;
+  overdueCount: number;
+  locale?: Locale;
+}
+
+export interface FilecoinRenewalFailedEmailData {
+  to: string;
+  hospitalName: string;
+  failedCount: number;
+  earliestExpiry: string;
+  locale?: Locale;
+}
+
+export interface RecordCorrectionEmailData {
+  to: string;
+  patientName: string;
+  hospitalName: string;
+  visitDate: string;
+  outcome: 'accepted' | 'rejected';
+  description: string;
+  response?: string | null;
+  locale?: Locale;
 }
 
 export class EmailService {
@@ -54,31 +94,32 @@ export class EmailService {
   async sendOTPEmail(data: EmailOTPData): Promise<boolean> {
     try {
       const { to, otpCode, expiresInMinutes } = data;
+      const t = translator(data.locale);
       
       const htmlContent = `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #2563eb;">MediBridge Healthcare System</h2>
-          <p>Your OTP code for authentication is:</p>
+          <h2 style="color: #2563eb;">${t('email.otp.heading')}</h2>
+          <p>${t('email.otp.intro')}</p>
           <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
             <h1 style="color: #1f2937; font-size: 32px; letter-spacing: 4px; margin: 0;">${otpCode}</h1>
           </div>
-          <p><strong>This code will expire in ${expiresInMinutes} minutes.</strong></p>
-          <p>If you didn't request this code, please ignore this email.</p>
+          <p><strong>${t('email.otp.expires', { minutes: expiresInMinutes })}</strong></p>
+          <p>${t('email.otp.ignore')}</p>
           <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
           <p style="color: #6b7280; font-size: 14px;">
-            This is an automated message from MediBridge Healthcare System.
+            ${t('email.otp.footer')}
           </p>
         </div>
       `;
 
       const textContent = `
-        MediBridge Healthcare System
+        ${t('email.otp.heading')}
         
-        Your OTP code for authentication is: ${otpCode}
+        ${t('email.otp.intro')} ${otpCode}
         
-        This code will expire in ${expiresInMinutes} minutes.
+        ${t('email.otp.expires', { minutes: expiresInMinutes })}
         
-        If you didn't request this code, please ignore this email.
+        ${t('email.otp.ignore')}
       `;
 
       const transport = getTransporter();
@@ -87,7 +128,7 @@ export class EmailService {
         await transport.sendMail({
           from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
           to,
-          subject: 'MediBridge - Your OTP Code',
+          subject: t('email.otp.subject'),
           html: htmlContent,
           text: textContent,
         });
@@ -116,23 +157,24 @@ export class EmailService {
     }
   }
 
-  async sendWelcomeEmail(to: string, patientDID: string): Promise<boolean> {
+  async sendWelcomeEmail(to: string, patientDID: string, locale?: Locale): Promise<boolean> {
     try {
+      const t = translator(locale);
       const htmlContent = `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #2563eb;">Welcome to MediBridge!</h2>
-          <p>Your digital identity has been successfully created.</p>
+          <h2 style="color: #2563eb;">${t('email.welcome.heading')}</h2>
+          <p>${t('email.welcome.created')}</p>
           <div style="background-color: #f0f9ff; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <p><strong>Your Digital Identity (DID):</strong></p>
+            <p><strong>${t('email.welcome.did')}</strong></p>
             <code style="background-color: #e5e7eb; padding: 8px; border-radius: 4px; font-family: monospace;">${patientDID}</code>
           </div>
-          <p>You can now:</p>
+          <p>${t('email.welcome.canNow')}</p>
           <ul>
-            <li>Access your medical records securely</li>
-            <li>Grant consent to healthcare providers</li>
-            <li>Manage your privacy settings</li>
+            <li>${t('email.welcome.records')}</li>
+            <li>${t('email.welcome.consent')}</li>
+            <li>${t('email.welcome.privacy')}</li>
           </ul>
-          <p>Thank you for choosing MediBridge for your healthcare needs!</p>
+          <p>${t('email.welcome.thanks')}</p>
         </div>
       `;
 
@@ -142,7 +184,7 @@ export class EmailService {
         await transport.sendMail({
           from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
           to,
-          subject: 'Welcome to MediBridge - Your Digital Identity is Ready',
+          subject: t('email.welcome.subject'),
           html: htmlContent,
         });
         console.log(`[EMAIL SENT] Welcome email sent to ${to}`);
@@ -165,59 +207,61 @@ export class EmailService {
   async sendEmergencyConsentEmail(data: EmergencyConsentEmailData): Promise<boolean> {
     try {
       const { to, nextOfKinName, patientRelationship, verificationCode, emergencyType, hospitalName, contactPhone } = data;
+      const t = translator(data.locale);
+      const subject = t('email.emergency.subject', { hospital: hospitalName });
       
       const htmlContent = `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #dc2626;">🚨 EMERGENCY MEDICAL CONSENT REQUIRED</h2>
-          <p><strong>Dear ${nextOfKinName},</strong></p>
-          <p>This is an urgent notification from ${hospitalName} regarding a medical emergency involving your ${patientRelationship}.</p>
+          <h2 style="color: #dc2626;">🚨 ${t('email.emergency.heading')}</h2>
+          <p><strong>${t('email.emergency.greeting', { name: nextOfKinName })}</strong></p>
+          <p>${t('email.emergency.intro', { hospital: hospitalName, relationship: patientRelationship })}</p>
           
           <div style="background-color: #fef2f2; border: 2px solid #dc2626; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h3 style="color: #dc2626; margin-top: 0;">Emergency Details:</h3>
-            <p><strong>Emergency Type:</strong> ${emergencyType}</p>
-            <p><strong>Hospital:</strong> ${hospitalName}</p>
-            <p><strong>Contact Phone:</strong> ${contactPhone}</p>
+            <h3 style="color: #dc2626; margin-top: 0;">${t('email.emergency.details')}</h3>
+            <p><strong>${t('email.emergency.type')}</strong> ${emergencyType}</p>
+            <p><strong>${t('email.emergency.hospital')}</strong> ${hospitalName}</p>
+            <p><strong>${t('email.emergency.phone')}</strong> ${contactPhone}</p>
           </div>
           
-          <p>To provide consent for emergency medical treatment, please use the following verification code:</p>
+          <p>${t('email.emergency.useCode')}</p>
           <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
             <h1 style="color: #1f2937; font-size: 32px; letter-spacing: 4px; margin: 0;">${verificationCode}</h1>
           </div>
           
-          <p><strong>Please contact the hospital immediately with this verification code to provide consent.</strong></p>
+          <p><strong>${t('email.emergency.contact')}</strong></p>
           
           <div style="background-color: #f0f9ff; padding: 15px; border-radius: 8px; margin: 20px 0;">
-            <p style="margin: 0; color: #1e40af;"><strong>Important:</strong> This consent is required for emergency medical treatment. Time is critical.</p>
+            <p style="margin: 0; color: #1e40af;"><strong>${t('email.emergency.important')}</strong> ${t('email.emergency.critical')}</p>
           </div>
           
           <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
           <p style="color: #6b7280; font-size: 14px;">
-            This is an automated emergency notification from ${hospitalName}.
+            ${t('email.emergency.footer', { hospital: hospitalName })}
           </p>
         </div>
       `;
 
       const textContent = `
-        URGENT: Emergency Medical Consent Required - ${hospitalName}
+        ${subject}
         
-        Dear ${nextOfKinName},
+        ${t('email.emergency.greeting', { name: nextOfKinName })}
         
-        This is an urgent notification from ${hospitalName} regarding a medical emergency involving your ${patientRelationship}.
+        ${t('email.emergency.intro', { hospital: hospitalName, relationship: patientRelationship })}
         
-        Emergency Details:
-        - Emergency Type: ${emergencyType}
-        - Hospital: ${hospitalName}
-        - Contact Phone: ${contactPhone}
+        ${t('email.emergency.details')}
+        - ${t('email.emergency.type')} ${emergencyType}
+        - ${t('email.emergency.hospital')} ${hospitalName}
+        - ${t('email.emergency.phone')} ${contactPhone}
         
-        To provide consent for emergency medical treatment, please use the following verification code:
+        ${t('email.emergency.useCode')}
         
         ${verificationCode}
         
-        Please contact the hospital immediately with this verification code to provide consent.
+        ${t('email.emergency.contact')}
         
-        Important: This consent is required for emergency medical treatment. Time is critical.
+        ${t('email.emergency.important')} ${t('email.emergency.critical')}
         
-        This is an automated emergency notification from ${hospitalName}.
+        ${t('email.emergency.footer', { hospital: hospitalName })}
       `;
 
       const transport = getTransporter();
@@ -226,7 +270,7 @@ export class EmailService {
         await transport.sendMail({
           from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
           to,
-          subject: `URGENT: Emergency Medical Consent Required - ${hospitalName}`,
+          subject,
           html: htmlContent,
           text: textContent,
         });
@@ -246,6 +290,151 @@ export class EmailService {
       throw error;
     }
   }
+
+  async sendEmergencyReviewReminderEmail(data: EmergencyReviewReminderEmailData): Promise<boolean> {
+    try {
+      const { to, hospitalName, pendingCount, overdueCount } = data;
+      const t = translator(data.locale);
+      const subject = t('email.emergencyReview.subject', { count: pendingCount });
+
+      const htmlContent = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #d97706;">${t('email.emergencyReview.heading')}</h2>
+          <p>${t('email.emergencyReview.intro', { count: pendingCount, hospital: hospitalName })}</p>
+          ${overdueCount > 0 ? `<p style="color: #dc2626;"><strong>${t('email.emergencyReview.overdue', { count: overdueCount })}</strong></p>` : ''}
+          <p>${t('email.emergencyReview.action')}</p>
+        </div>
+      `;
+
+      const textContent = `
+        ${t('email.emergencyReview.heading')}
+
+        ${t('email.emergencyReview.intro', { count: pendingCount, hospital: hospitalName })}
+        ${overdueCount > 0 ? t('email.emergencyReview.overdue', { count: overdueCount }) : ''}
+
+        ${t('email.emergencyReview.action')}
+      `;
+
+      const transport = getTransporter();
+
+      if (transport) {
+        await transport.sendMail({
+          from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+          to,
+          subject,
+          html: htmlContent,
+          text: textContent,
+        });
+        console.log(`[EMAIL SENT] Emergency review reminder sent to ${to}`);
+        return true;
+      } else {
+        console.log(`[DEV MODE] Emergency review reminder would be sent to ${to}: ${pendingCount} pending, ${overdueCount} overdue`);
+        return true;
+      }
+    } catch (error: any) {
+      console.error('[EMERGENCY REVIEW EMAIL ERROR]', error);
+      throw error;
+    }
+  }
+
+  async sendFilecoinRenewalFailedEmail(data: FilecoinRenewalFailedEmailData): Promise<boolean> {
+    try {
+      const { to, hospitalName, failedCount, earliestExpiry } = data;
+      const t = translator(data.locale);
+      const subject = t('email.filecoinRenewal.subject', { count: failedCount });
+
+      const htmlContent = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #dc2626;">${t('email.filecoinRenewal.heading')}</h2>
+          <p>${t('email.filecoinRenewal.intro', { count: failedCount, hospital: hospitalName })}</p>
+          <p><strong>${t('email.filecoinRenewal.expiry', { date: earliestExpiry })}</strong></p>
+          <p>${t('email.filecoinRenewal.action')}</p>
+        </div>
+      `;
+
+      const textContent = `
+        ${t('email.filecoinRenewal.heading')}
+
+        ${t('email.filecoinRenewal.intro', { count: failedCount, hospital: hospitalName })}
+        ${t('email.filecoinRenewal.expiry', { date: earliestExpiry })}
+
+        ${t('email.filecoinRenewal.action')}
+      `;
+
+      const transport = getTransporter();
+
+      if (transport) {
+        await transport.sendMail({
+          from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+          to,
+          subject,
+          html: htmlContent,
+          text: textContent,
+        });
+        console.log(`[EMAIL SENT] Filecoin renewal failure notice sent to ${to}`);
+        return true;
+      } else {
+        console.log(`[DEV MODE] Filecoin renewal failure notice would be sent to ${to}: ${failedCount} deal(s), earliest expiry ${earliestExpiry}`);
+        return true;
+      }
+    } catch (error: any) {
+      console.error('[FILECOIN RENEWAL EMAIL ERROR]', error);
+      throw error;
+    }
+  }
+
+  async sendRecordCorrectionOutcomeEmail(data: RecordCorrectionEmailData): Promise<boolean> {
+    try {
+      const { to, patientName, hospitalName, visitDate, outcome, description, response } = data;
+      const t = translator(data.locale);
+      const subject = t('email.correction.subject');
+      const summary = t(outcome === 'accepted' ? 'email.correction.accepted' : 'email.correction.rejected', { hospital: hospitalName, date: visitDate });
+
+      const htmlContent = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">${t('email.correction.heading')}</h2>
+          <p>${t('email.correction.greeting', { name: patientName })}</p>
+          <p>${summary}</p>
+          <div style="background-color: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
+            <p style="margin: 0;"><strong>${t('email.correction.request')}</strong> ${escapeHtml(description)}</p>
+            ${response ? `<p style="margin: 10px 0 0;"><strong>${t('email.correction.response')}</strong> ${escapeHtml(response)}</p>` : ''}
+          </div>
+          <p>${t('email.correction.footer')}</p>
+        </div>
+      `;
+
+      const textContent = `
+        ${t('email.correction.greeting', { name: patientName })}
+
+        ${summary}
+
+        ${t('email.correction.request')} ${description}
+        ${response ? `${t('email.correction.response')} ${response}` : ''}
+
+        ${t('email.correction.footer')}
+      `;
+
+      const transport = getTransporter();
+
+      if (transport) {
+        await transport.sendMail({
+          from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+          to,
+          subject,
+          html: htmlContent,
+          text: textContent,
+        });
+        console.log(`[EMAIL SENT] Record correction outcome sent to ${to}`);
+        return true;
+      } else {
+        console.log(`[DEV MODE] Record correction outcome (${outcome}) would be sent to ${to}`);
+        return true;
+      }
+    } catch (error: any) {
+      console.error('[RECORD CORRECTION EMAIL ERROR]', error);
+      throw error;
+    }
+  }
 }
 
 export const emailService = EmailService.getInstance(); 
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { ZKPService } from "./zkp-service";
+
+export const EMERGENCY_TYPES = [
+  'LIFE_THREATENING',
+  'UNCONSCIOUS_PATIENT',
+  'CRITICAL_CARE',
+  'SURGERY_REQUIRED',
+  'MENTAL_HEALTH_CRISIS',
+] as const;
+
+export type EmergencyType = typeof EMERGENCY_TYPES[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Which records an emergency type may see.
+ * A record must fall inside `withinDays` (when set) and, when any category
+ * criteria are set, match at least one of them. Keyword criteria are
+ * case-insensitive substring matches.
+ */
+export interface EmergencyRecordFilter {
+  departments?: string[];
+  visitTypes?: string[];
+  icdChapters?: number[]; // ICD-11 chapter numbers, see ZKPService.ICD11_CHAPTER_PREFIXES
+  diagnosisKeywords?: string[];
+  withAllergies?: boolean; // Records carrying an active structured allergy entry
+  withPrescription?: boolean; // Free-text prescription or structured medications
+  withinDays?: number;
+}
+
+export interface EmergencyAccessPolicy {
+  emergencyType: EmergencyType;
+  accessLevel: string;
+  maxDurationMs: number;
+  filter: EmergencyRecordFilter;
+  limitations: string[];
+}
+
+export interface RecordAccessDecision {
+  recordId: number;
+  source: string;
+  included: boolean;
+  reason: string;
+}
+
+export interface PolicyEvaluation<T> {
+  records: T[];
+  decisions: RecordAccessDecision[];
+}
+
+// Allergies (ICD-11 chapter 4) and blood disorders (chapter 3) matter to most acute care
+const ALLERGY_KEYWORDS = ['allerg', 'anaphyla'];
+
+export const EMERGENCY_ACCESS_POLICIES: Record<EmergencyType, EmergencyAccessPolicy> = {
+  LIFE_THREATENING: {
+    emergencyType: 'LIFE_THREATENING',
+    accessLevel: 'CRITICAL_CARE_RECORDS',
+    maxDurationMs: 6 * HOUR_MS,
+    filter: {
+      departments: ['emergency', 'icu', 'critical', 'cardio', 'trauma'],
+      visitTypes: ['emergency', 'inpatient', 'admission'],
+      // 4 immune, 5 endocrine, 11 circulatory, 12 respiratory, 22 injury
+      icdChapters: [4, 5, 11, 12, 22],
+      diagnosisKeywords: [...ALLERGY_KEYWORDS, 'diabet', 'epilep', 'asthma'],
+      withAllergies: true,
+      withinDays: 365 * 2,
+    },
+    limitations: [
+      'Access limited to critical care records',
+      'Automatic expiration in 6 hours unless renewed',
+    ],
+  },
+  UNCONSCIOUS_PATIENT: {
+    emergencyType: 'UNCONSCIOUS_PATIENT',
+    accessLevel: 'RECENT_MEDICAL_HISTORY',
+    maxDurationMs: 24 * HOUR_MS,
+    filter: {
+      withinDays: 30,
+    },
+    limitations: [
+      'Access limited to recent medical history',
+      'Revokes automatically when patient regains consciousness',
+    ],
+  },
+  CRITICAL_CARE: {
+    emergencyType: 'CRITICAL_CARE',
+    accessLevel: 'EMERGENCY_RELEVANT_RECORDS',
+    maxDurationMs: 24 * HOUR_MS,
+    filter: {
+      departments: ['emergency', 'icu', 'critical', 'cardio', 'renal', 'trauma'],
+      visitTypes: ['emergency', 'inpatient', 'admission'],
+      // 3 blood, 4 immune, 5 endocrine, 11 circulatory, 12 respiratory, 16 genitourinary, 22 injury
+      icdChapters: [3, 4, 5, 11, 12, 16, 22],
+      diagnosisKeywords: ALLERGY_KEYWORDS,
+      withAllergies: true,
+      withPrescription: true,
+      withinDays: 365,
+    },
+    limitations: [
+      'Access limited to records relevant to intensive care',
+      'Automatic expiration in 24 hours unless renewed',
+    ],
+  },
+  SURGERY_REQUIRED: {
+    emergencyType: 'SURGERY_REQUIRED',
+    accessLevel: 'SURGICAL_RELEVANT_RECORDS',
+    maxDurationMs: 24 * HOUR_MS,
+    filter: {
+      departments: ['surg', 'anaesth', 'anesth', 'theatre'],
+      visitTypes: ['surg', 'operation', 'procedure'],
+      // 3 blood, 4 immune
+      icdChapters: [3, 4],
+      diagnosisKeywords: [...ALLERGY_KEYWORDS, 'bleeding', 'anticoagul'],
+      withAllergies: true,
+    },
+    limitations: [
+      'Access limited to surgical history and allergies',
+      'Expires after surgical procedure completion',
+    ],
+  },
+  MENTAL_HEALTH_CRISIS: {
+    emergencyType: 'MENTAL_HEALTH_CRISIS',
+    accessLevel: 'PSYCHIATRIC_RECORDS',
+    maxDurationMs: 12 * HOUR_MS,
+    filter: {
+      departments: ['psych', 'mental'],
+      visitTypes: ['psych', 'mental'],
+      // 6 mental, behavioural or neurodevelopmental disorders
+      icdChapters: [6],
+      withPrescription: true,
+    },
+    limitations: [
+      'Access limited to psychiatric and medication records',
+      'Requires patient consent renewal within 12 hours',
+    ],
+  },
+};
+
+// Appended to every emergency type's own limitations
+const COMMON_LIMITATIONS = [
+  'All access logged and subject to post-emergency review',
+  'Cannot grant further access to third parties',
+];
+
+/**
+ * Emergency Access Policy Engine
+ * Turns an emergency type into concrete record filters and a maximum access
+ * duration, and explains every include/exclude decision so it can be audited.
+ */
+class EmergencyAccessPolicyEngine {
+  private static instance: EmergencyAccessPolicyEngine;
+
+  static getInstance(): EmergencyAccessPolicyEngine {
+    if (!EmergencyAccessPolicyEngine.instance) {
+      EmergencyAccessPolicyEngine.instance = new EmergencyAccessPolicyEngine();
+    }
+    return EmergencyAccessPolicyEngine.instance;
+  }
+
+  getPolicy(emergencyType: string): EmergencyAccessPolicy {
+    const policy = EMERGENCY_ACCESS_POLICIES[emergencyType as EmergencyType];
+    if (!policy) {
+      throw new Error(`No emergency access policy for type ${emergencyType}`);
+    }
+    return policy;
+  }
+
+  limitationsFor(emergencyType: string): string[] {
+    return [...this.getPolicy(emergencyType).limitations, ...COMMON_LIMITATIONS];
+  }
+
+  /**
+   * Latest moment access granted at `grantedAt` may last under the policy
+   */
+  maxExpiry(emergencyType: string, grantedAt: Date): Date {
+    return new Date(grantedAt.getTime() + this.getPolicy(emergencyType).maxDurationMs);
+  }
+
+  /**
+   * Split records into those the policy releases and a decision for each one
+   */
+  evaluate<T extends { id: number; source?: string }>(emergencyType: string, records: T[], now: Date = new Date()): PolicyEvaluation<T> {
+    const { filter } = this.getPolicy(emergencyType);
+    const released: T[] = [];
+    const decisions: RecordAccessDecision[] = [];
+
+    for (const record of records) {
+      const reason = this.matchRecord(filter, record, now);
+      const included = !reason.startsWith('excluded:');
+      if (included) released.push(record);
+      decisions.push({ recordId: record.id, source: record.source || 'traditional', included, reason });
+    }
+
+    return { records: released, decisions };
+  }
+
+  /**
+   * Short description of the criteria, for API responses and audit metadata
+   */
+  describe(emergencyType: string): Record<string, any> {
+    const policy = this.getPolicy(emergencyType);
+    return {
+      emergencyType: policy.emergencyType,
+      accessLevel: policy.accessLevel,
+      maxDurationHours: policy.maxDurationMs / HOUR_MS,
+      ...policy.filter,
+    };
+  }
+
+  // Returns the first criterion that matched, or "excluded:<why>"
+  private matchRecord(filter: EmergencyRecordFilter, record: any, now: Date): string {
+    if (filter.withinDays !== undefined) {
+      const visitDate = new Date(record.visitDate);
+      const cutoff = now.getTime() - filter.withinDays * 24 * HOUR_MS;
+      if (Number.isNaN(visitDate.getTime()) || visitDate.getTime() < cutoff) {
+        return `excluded:older_than_${filter.withinDays}_days`;
+      }
+    }
+
+    const hasCategories = !!(
+      filter.departments?.length ||
+      filter.visitTypes?.length ||
+      filter.icdChapters?.length ||
+      filter.diagnosisKeywords?.length ||
+      filter.withAllergies ||
+      filter.withPrescription
+    );
+    if (!hasCategories) {
+      return filter.withinDays !== undefined ? `within_${filter.withinDays}_days` : 'unrestricted';
+    }
+
+    const includesAny = (value: unknown, needles?: string[]) =>
+      typeof value === 'string' && !!needles?.some(n => value.toLowerCase().includes(n));
+
+    if (includesAny(record.department, filter.departments)) return `department:${record.department}`;
+    if (includesAny(record.visitType, filter.visitTypes)) return `visit_type:${record.visitType}`;
+
+    const chapter = this.icdChapters(record).find(c => filter.icdChapters?.includes(c));
+    if (chapter !== undefined) return `icd_chapter:${chapter}`;
+
+    if (includesAny(record.diagnosis, filter.diagnosisKeywords)) return 'diagnosis_keyword';
+    if (filter.withAllergies && record.clinical?.allergies?.some((a: any) => a.status === 'active')) return 'structured_allergy';
+    if (filter.withPrescription && (record.prescription || record.clinical?.medications?.length)) return 'has_prescription';
+
+    return 'excluded:outside_policy_scope';
+  }
+
+  // ICD-11 chapters of the codes the NLP analysis attached to the record
+  private icdChapters(record: any): number[] {
+    const codes: Array<{ icd_code?: string; code?: string }> = Array.isArray(record.icd_codes) ? record.icd_codes : [];
+    return codes
+      .map(c => c.icd_code || c.code)
+      .filter((code): code is string => typeof code === 'string' && code.length > 0)
+      .map(code => ZKPService.icdChapterOf(code))
+      .filter((chapter): chapter is number => chapter !== undefined);
+  }
+}
+
+export const emergencyAccessPolicy = EmergencyAccessPolicyEngine.getInstance();
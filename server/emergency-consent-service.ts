@@ -1,7 +1,13 @@
+import type { Request } from "express";
 import { auditService } from "./audit-service";
 import { storage } from "./storage";
 import { emailService } from "./email-service";
 import { smsService } from "./sms-service";
+import { emergencyAccessPolicy, EMERGENCY_TYPES, type EmergencyType } from "./emergency-access-policy";
+import { emergencyReviewService } from "./emergency-review-service";
+import { dutyRosterService } from "./duty-roster-service";
+import { didService, vcService } from "./web3-services";
+import { EMERGENCY_CREDENTIAL_TYPE, parseCredentialBinding, type EmergencyCredentialBinding } from "./emergency-credential-service";
 
 /**
  * Emergency Consent Service
@@ -36,9 +42,12 @@ export class EmergencyConsentService {
       // Create emergency consent record
       const emergencyConsent = await this.createEmergencyConsentRecord(request, nextOfKinConsent);
 
-      // Issue temporary access credential
+      // Issue temporary access credential and bind it to the consent record
       const temporaryCredential = await this.issueTemporaryCredential(request, emergencyConsent);
 
+      // Queue the post-emergency review promised in every limitation list, once there is access to review
+      await emergencyReviewService.openReview(emergencyConsent.id, new Date(emergencyConsent.expiresAt), request.requestingHospitalId);
+
       // Comprehensive audit logging
       await auditService.logEvent({
         eventType: "EMERGENCY_CONSENT_GRANTED",
@@ -94,15 +103,7 @@ export class EmergencyConsentService {
    */
   private validateEmergencyConditions(request: EmergencyConsentRequest): void {
     // Check if it's a valid emergency type
-    const validEmergencyTypes = [
-      'LIFE_THREATENING',
-      'UNCONSCIOUS_PATIENT',
-      'CRITICAL_CARE',
-      'SURGERY_REQUIRED',
-      'MENTAL_HEALTH_CRISIS'
-    ];
-
-    if (!validEmergencyTypes.includes(request.emergencyType)) {
+    if (!EMERGENCY_TYPES.includes(request.emergencyType)) {
       throw new Error('Invalid emergency type for consent override');
     }
 
@@ -215,7 +216,17 @@ export class EmergencyConsentService {
     nextOfKinConsent: NextOfKinConsentResult
   ): Promise<EmergencyConsentRecord> {
     const recordId = `emergency_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const expiresAt = new Date(Date.now() + request.requestedDurationMs);
+    const grantedAt = new Date();
+
+    // The emergency type's policy caps how long access may last, whatever was requested
+    const requestedExpiry = new Date(grantedAt.getTime() + request.requestedDurationMs);
+    const policyExpiry = emergencyAccessPolicy.maxExpiry(request.emergencyType, grantedAt);
+    const expiresAt = requestedExpiry > policyExpiry ? policyExpiry : requestedExpiry;
+
+    const limitations = emergencyAccessPolicy.limitationsFor(request.emergencyType);
+    if (requestedExpiry > policyExpiry) {
+      limitations.push(`Requested duration shortened to the ${request.emergencyType} maximum; expires ${expiresAt.toISOString()}`);
+    }
 
     const emergencyConsent = await storage.createEmergencyConsentRecord({
       id: recordId,
@@ -248,7 +259,7 @@ export class EmergencyConsentService {
         timestamp: nextOfKinConsent.timestamp,
         verificationCode: nextOfKinConsent.verificationCode,
       } : null,
-      limitations: this.determineAccessLimitations(request.emergencyType),
+      limitations,
       auditTrail: `Emergency consent granted by ${request.primaryPhysician.name} and ${request.secondaryAuthorizer.name} at ${new Date().toISOString()}`,
     });
 
@@ -256,104 +267,111 @@ export class EmergencyConsentService {
       id: recordId,
       patientId: request.patientId,
       emergencyType: request.emergencyType,
-      grantedAt: new Date().toISOString(),
+      grantedAt: grantedAt.toISOString(),
       expiresAt: expiresAt.toISOString(),
       primaryPhysician: request.primaryPhysician,
       secondaryAuthorizer: request.secondaryAuthorizer,
       nextOfKinConsent: nextOfKinConsent,
       medicalJustification: request.medicalJustification,
-      limitations: this.determineAccessLimitations(request.emergencyType),
+      limitations,
       hospitalId: request.hospitalId,
       auditTrail: emergencyConsent.auditTrail || '',
     };
   }
 
   /**
-   * Issue temporary access credential for emergency consent
+   * Issue the emergency access credential as a JWT-VC signed by the hospital's DID
+   * and bound to the staff member who requested it
    */
   private async issueTemporaryCredential(
     request: EmergencyConsentRequest,
     emergencyConsentRecord: EmergencyConsentRecord // The record from createEmergencyConsentRecord method
   ): Promise<string> {
-    // This is the object that will be base64 encoded for the temporary credential string
-    const credentialPayload = {
-      id: `temp_${emergencyConsentRecord.id}`,
-      type: 'EmergencyAccessCredential',
-      issuer: 'MediBridge_Emergency_System', // System issues this
-      subject: request.hospitalId, // Hospital receiving access
+    if (request.requestingHospitalId === undefined || !request.requestingUserDID) {
+      throw new Error('Emergency credentials can only be issued to an authenticated hospital user');
+    }
+
+    const issuer = didService.deriveHospitalIssuer(request.requestingHospitalId);
+    const expiresInHours = (new Date(emergencyConsentRecord.expiresAt).getTime() - Date.now()) / (60 * 60 * 1000);
+
+    const credentialString = await vcService.issueCredential(
+      issuer.did,
+      request.requestingUserDID, // Holder: only this staff member may present it
+      EMERGENCY_CREDENTIAL_TYPE,
+      {
+        patientId: request.patientId,
+        hospitalId: request.hospitalId,
+        emergencyType: request.emergencyType,
+        grantedToPersonnel: [request.primaryPhysician.id, request.secondaryAuthorizer.id],
+        accessLevel: emergencyAccessPolicy.getPolicy(request.emergencyType).accessLevel,
+        limitations: emergencyConsentRecord.limitations,
+        emergencyConsentRecordId: emergencyConsentRecord.id, // Link back to the persisted record
+      },
+      issuer.privateKeyHex,
+      expiresInHours
+    );
+
+    // Remember who issued it and to whom, so a credential can only be presented against its own record
+    const binding: EmergencyCredentialBinding = {
+      issuerDID: issuer.did,
+      holderDID: request.requestingUserDID,
+      hospital_id: request.requestingHospitalId,
       issuedAt: new Date().toISOString(),
-      expiresAt: emergencyConsentRecord.expiresAt,
-      grantedToPersonnel: [request.primaryPhysician.id, request.secondaryAuthorizer.id],
-      patientId: request.patientId,
-      accessLevel: this.determineAccessLevel(request.emergencyType),
-      limitations: emergencyConsentRecord.limitations,
-      emergencyConsentRecordId: emergencyConsentRecord.id, // Link back to the persisted record
     };
-
-    const credentialString = Buffer.from(JSON.stringify(credentialPayload)).toString('base64');
-
-    // Optionally, update the persisted emergencyConsentRecord with these credential details
-    // This would require an update method in storage.ts and modification to emergencyConsentRecords schema
-    // For now, this detail is part of the returned EmergencyConsentResult.
-    // e.g., await storage.updateEmergencyConsentRecord(emergencyConsentRecord.id, { temporaryCredentialDetails: credentialString });
+    await storage.updateEmergencyConsentRecord(emergencyConsentRecord.id, {
+      temporaryCredentialDetails: JSON.stringify(binding),
+    });
 
     return credentialString;
   }
 
   /**
-   * Determine access limitations based on emergency type
+   * End emergency access early. The holder of the credential or an admin of the
+   * issuing hospital may revoke; every later presentation of the credential fails.
    */
-  private determineAccessLimitations(emergencyType: string): string[] {
-    const limitations: string[] = [];
-
-    switch (emergencyType) {
-      case 'LIFE_THREATENING':
-        limitations.push('Access limited to critical care records');
-        limitations.push('Automatic expiration in 6 hours unless renewed');
-        break;
-      case 'UNCONSCIOUS_PATIENT':
-        limitations.push('Access limited to recent medical history');
-        limitations.push('Revokes automatically when patient regains consciousness');
-        break;
-      case 'SURGERY_REQUIRED':
-        limitations.push('Access limited to surgical history and allergies');
-        limitations.push('Expires after surgical procedure completion');
-        break;
-      case 'MENTAL_HEALTH_CRISIS':
-        limitations.push('Access limited to psychiatric and medication records');
-        limitations.push('Requires patient consent renewal within 12 hours');
-        break;
-      default:
-        limitations.push('General emergency access with 24-hour expiration');
+  async revokeEmergencyConsent(
+    emergencyConsentId: string,
+    actor: { did: string; isAdmin: boolean; hospital_id: number },
+    reason: string,
+    req?: Request
+  ): Promise<void> {
+    const record = await storage.getEmergencyConsentRecord(emergencyConsentId);
+    const binding = parseCredentialBinding(record?.temporaryCredentialDetails);
+    if (!record || !binding) {
+      throw new Error('Emergency consent not found');
     }
 
-    limitations.push('All access logged and subject to post-emergency review');
-    limitations.push('Cannot grant further access to third parties');
-
-    return limitations;
-  }
-
-  /**
-   * Determine access level for emergency type
-   */
-  private determineAccessLevel(emergencyType: string): string {
-    switch (emergencyType) {
-      case 'LIFE_THREATENING':
-        return 'CRITICAL_CARE_RECORDS';
-      case 'UNCONSCIOUS_PATIENT':
-        return 'RECENT_MEDICAL_HISTORY';
-      case 'SURGERY_REQUIRED':
-        return 'SURGICAL_RELEVANT_RECORDS';
-      case 'MENTAL_HEALTH_CRISIS':
-        return 'PSYCHIATRIC_RECORDS';
-      default:
-        return 'EMERGENCY_RELEVANT_RECORDS';
+    const isHolder = binding.holderDID === actor.did;
+    const isHospitalAdmin = actor.isAdmin && binding.hospital_id === actor.hospital_id;
+    if (!isHolder && !isHospitalAdmin) {
+      throw new Error('Only the credential holder or a hospital admin can revoke emergency access');
+    }
+    if (record.revokedAt) {
+      return;
     }
+
+    await storage.revokeEmergencyConsentRecord(emergencyConsentId);
+
+    await auditService.logEvent({
+      eventType: "EMERGENCY_CONSENT_REVOKED",
+      actorType: isHolder ? "MEDICAL_STAFF" : "HOSPITAL_ADMIN",
+      actorId: actor.did,
+      targetType: "EMERGENCY_CONSENT",
+      targetId: emergencyConsentId,
+      action: "REVOKE",
+      outcome: "SUCCESS",
+      metadata: {
+        patientId: record.patientId,
+        emergencyType: record.emergencyType,
+        reason,
+      },
+      severity: "warning",
+    }, req);
   }
 
   /**
    * Verify staff member is on duty and authenticated
-   * Production implementation: Check against hospital staff database
+   * Production implementation: Check against hospital staff database and duty roster
    */
   private async verifyStaffOnDuty(staffId: string): Promise<boolean> {
     try {
@@ -401,9 +419,9 @@ export class EmergencyConsentService {
    */
   private async checkStaffExists(staffId: string): Promise<boolean> {
     try {
-      // REAL PRODUCTION: Query the hospital_staff table using storage service
+      // On duty per the hospital's roster, or the manual flag when it has no roster
       const staff = await storage.getHospitalStaffByStaffId(staffId);
-      return staff !== undefined && staff.isActive && staff.isOnDuty;
+      return staff !== undefined && staff.isActive && await dutyRosterService.isOnDuty(staff);
     } catch (error) {
       console.error(`[EmergencyConsentService] Staff check failed: ${error}`);
       return false;
@@ -544,7 +562,7 @@ export class EmergencyConsentService {
 interface EmergencyConsentRequest {
   patientId: string;
   hospitalId: string;
-  emergencyType: 'LIFE_THREATENING' | 'UNCONSCIOUS_PATIENT' | 'CRITICAL_CARE' | 'SURGERY_REQUIRED' | 'MENTAL_HEALTH_CRISIS';
+  emergencyType: EmergencyType;
   medicalJustification: string;
   primaryPhysician: AuthorizedPersonnel;
   secondaryAuthorizer: AuthorizedPersonnel;
@@ -553,6 +571,8 @@ interface EmergencyConsentRequest {
   requestedDurationMs: number;
   requestingUserId: string; // Added to link request to authenticated user
   requestingUserIsAdmin?: boolean; // Added to handle admin authorization
+  requestingHospitalId?: number; // Tenant whose admins review the access afterwards
+  requestingUserDID?: string; // Holder the credential is bound to
 }
 
 interface AuthorizedPersonnel {
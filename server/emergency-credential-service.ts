@@ -1,5 +1,10 @@
 import { storage } from "./storage";
 import { auditService } from "./audit-service";
+import { emergencyAccessPolicy } from "./emergency-access-policy";
+import { clinicalRecordService } from "./clinical-record-service";
+import { vcService } from "./web3-services";
+
+export const EMERGENCY_CREDENTIAL_TYPE = 'EmergencyAccessCredential';
 
 interface EmergencyCredential {
   id: string;
@@ -15,6 +20,24 @@ interface EmergencyCredential {
   emergencyConsentRecordId: string;
 }
 
+// Stored in emergencyConsentRecords.temporaryCredentialDetails when the credential is issued
+export interface EmergencyCredentialBinding {
+  issuerDID: string;
+  holderDID: string;
+  hospital_id: number;
+  issuedAt: string;
+}
+
+export function parseCredentialBinding(details?: string | null): EmergencyCredentialBinding | null {
+  if (!details) return null;
+  try {
+    const binding = JSON.parse(details);
+    return typeof binding?.issuerDID === 'string' && typeof binding?.holderDID === 'string' ? binding : null;
+  } catch {
+    return null;
+  }
+}
+
 export class EmergencyCredentialService {
   private static instance: EmergencyCredentialService;
 
@@ -26,36 +49,41 @@ export class EmergencyCredentialService {
   }
 
   /**
-   * Validate emergency temporary credential
+   * Verify an emergency JWT-VC: signature and expiry, issuing hospital, the staff
+   * member presenting it, revocation, and the emergency type's maximum duration
    */
-  async validateCredential(credentialString: string): Promise<{
+  async validateCredential(credentialString: string, presenterDID: string): Promise<{
     isValid: boolean;
     credential?: EmergencyCredential;
     error?: string;
   }> {
     try {
-      // Decode base64 credential
-      const decodedString = Buffer.from(credentialString, 'base64').toString('utf-8');
-      const credential: EmergencyCredential = JSON.parse(decodedString);
-
-      // Validate credential structure
-      if (!this.validateCredentialStructure(credential)) {
+      const verification = await vcService.verifyCredential(credentialString);
+      if (!verification.isValid || !verification.verifiedJwt) {
+        await auditService.logSecurityViolation({
+          violationType: "EMERGENCY_CREDENTIAL_VALIDATION_FAILURE",
+          severity: "high",
+          actorId: presenterDID,
+          details: { error: verification.error },
+        });
         return {
           isValid: false,
-          error: "Invalid credential structure"
+          error: verification.error || "Invalid emergency credential"
         };
       }
 
-      // Check if credential has expired
-      if (new Date() > new Date(credential.expiresAt)) {
+      const { payload } = verification.verifiedJwt;
+      const vc = payload.vc;
+      const claims = vc.credentialSubject || {};
+      if (!vc.type?.includes(EMERGENCY_CREDENTIAL_TYPE) || typeof claims.emergencyConsentRecordId !== 'string') {
         return {
           isValid: false,
-          error: "Emergency credential has expired"
+          error: "Invalid credential structure"
         };
       }
 
       // Verify emergency consent record exists and is not revoked
-      const emergencyRecord = await storage.getEmergencyConsentRecord(credential.emergencyConsentRecordId);
+      const emergencyRecord = await storage.getEmergencyConsentRecord(claims.emergencyConsentRecordId);
       if (!emergencyRecord) {
         return {
           isValid: false,
@@ -63,6 +91,32 @@ export class EmergencyCredentialService {
         };
       }
 
+      // A validly signed credential must still be the one issued for this record
+      const binding = parseCredentialBinding(emergencyRecord.temporaryCredentialDetails);
+      if (!binding || binding.issuerDID !== payload.iss || binding.holderDID !== payload.sub || emergencyRecord.patientId !== claims.patientId) {
+        return {
+          isValid: false,
+          error: "Credential was not issued for this emergency consent"
+        };
+      }
+
+      if (payload.sub !== presenterDID) {
+        await auditService.logSecurityViolation({
+          violationType: "EMERGENCY_CREDENTIAL_HOLDER_MISMATCH",
+          severity: "high",
+          actorId: presenterDID,
+          targetResource: `patient:${emergencyRecord.patientId}`,
+          details: {
+            emergencyConsentRecordId: emergencyRecord.id,
+            holderDID: payload.sub,
+          },
+        });
+        return {
+          isValid: false,
+          error: "Emergency credential was issued to a different staff member"
+        };
+      }
+
       if (emergencyRecord.revokedAt) {
         return {
           isValid: false,
@@ -70,6 +124,32 @@ export class EmergencyCredentialService {
         };
       }
 
+      // The stored record and its policy decide when access ends, whatever the token says
+      const policyExpiry = emergencyAccessPolicy.maxExpiry(emergencyRecord.emergencyType, new Date(emergencyRecord.grantedAt));
+      const tokenExpiry = payload.exp ? new Date(payload.exp * 1000) : new Date(emergencyRecord.expiresAt);
+      const effectiveExpiry = [tokenExpiry, new Date(emergencyRecord.expiresAt), policyExpiry]
+        .reduce((earliest, date) => (date < earliest ? date : earliest));
+      if (new Date() > effectiveExpiry) {
+        return {
+          isValid: false,
+          error: `Emergency access has exceeded the maximum duration for ${emergencyRecord.emergencyType}`
+        };
+      }
+
+      const credential: EmergencyCredential = {
+        id: vc.id,
+        type: EMERGENCY_CREDENTIAL_TYPE,
+        issuer: payload.iss,
+        subject: payload.sub,
+        issuedAt: new Date((payload.iat ?? 0) * 1000).toISOString(),
+        expiresAt: effectiveExpiry.toISOString(),
+        grantedToPersonnel: claims.grantedToPersonnel || [],
+        patientId: claims.patientId,
+        accessLevel: claims.accessLevel,
+        limitations: claims.limitations || [],
+        emergencyConsentRecordId: emergencyRecord.id,
+      };
+
       // Log credential validation
       await auditService.logEvent({
         eventType: "EMERGENCY_CREDENTIAL_VALIDATED",
@@ -84,6 +164,8 @@ export class EmergencyCredentialService {
           accessLevel: credential.accessLevel,
           expiresAt: credential.expiresAt,
           emergencyConsentRecordId: credential.emergencyConsentRecordId,
+          issuerDID: credential.issuer,
+          holderDID: credential.subject,
         },
         severity: "info",
       });
@@ -110,26 +192,6 @@ export class EmergencyCredentialService {
     }
   }
 
-  /**
-   * Validate credential structure
-   */
-  private validateCredentialStructure(credential: any): credential is EmergencyCredential {
-    return (
-      credential &&
-      typeof credential.id === 'string' &&
-      credential.type === 'EmergencyAccessCredential' &&
-      typeof credential.issuer === 'string' &&
-      typeof credential.subject === 'string' &&
-      typeof credential.issuedAt === 'string' &&
-      typeof credential.expiresAt === 'string' &&
-      Array.isArray(credential.grantedToPersonnel) &&
-      typeof credential.patientId === 'string' &&
-      typeof credential.accessLevel === 'string' &&
-      Array.isArray(credential.limitations) &&
-      typeof credential.emergencyConsentRecordId === 'string'
-    );
-  }
-
   /**
    * Get patient records using emergency credential
    */
@@ -140,9 +202,16 @@ export class EmergencyCredentialService {
     success: boolean;
     records?: any[];
     patientInfo?: any;
+    policy?: Record<string, any>;
+    withheldRecordCount?: number;
     error?: string;
   }> {
     try {
+      const emergencyRecord = await storage.getEmergencyConsentRecord(credential.emergencyConsentRecordId);
+      if (!emergencyRecord) {
+        throw new Error("Emergency consent record not found");
+      }
+
       // Get traditional records
       const traditionalRecords = await storage.getPatientRecordsByNationalId(credential.patientId);
       
@@ -155,8 +224,8 @@ export class EmergencyCredentialService {
         web3Records = await storage.getPatientRecordsByDID(patientProfile.patientDID);
       }
 
-      // Combine and format records
-      const allRecords = [
+      // Combine and format records; structured sub-records feed the policy's allergy criterion
+      const allRecords = await clinicalRecordService.attachDetails([
         ...traditionalRecords.map(record => ({
           ...record,
           recordType: 'traditional',
@@ -167,10 +236,31 @@ export class EmergencyCredentialService {
           recordType: 'web3',
           source: 'web3'
         }))
-      ];
+      ]);
+
+      // Release only what the emergency type's policy allows, and record why for each record
+      const evaluation = emergencyAccessPolicy.evaluate(emergencyRecord.emergencyType, allRecords);
+      const filteredRecords = evaluation.records;
+      const policy = emergencyAccessPolicy.describe(emergencyRecord.emergencyType);
 
-      // Filter records based on emergency access level
-      const filteredRecords = this.filterRecordsByAccessLevel(allRecords, credential.accessLevel);
+      await auditService.logEvent({
+        eventType: "EMERGENCY_ACCESS_POLICY_APPLIED",
+        actorType: "SYSTEM",
+        actorId: "emergency_access_policy",
+        targetType: "PATIENT",
+        targetId: credential.patientId,
+        action: "FILTER_RECORDS",
+        outcome: "SUCCESS",
+        metadata: {
+          emergencyConsentRecordId: credential.emergencyConsentRecordId,
+          requestingUserId,
+          policy,
+          releasedCount: filteredRecords.length,
+          withheldCount: allRecords.length - filteredRecords.length,
+          decisions: evaluation.decisions,
+        },
+        severity: "info",
+      });
 
       // Log emergency record access
       await auditService.logEvent({
@@ -184,7 +274,9 @@ export class EmergencyCredentialService {
         metadata: {
           emergencyConsentRecordId: credential.emergencyConsentRecordId,
           recordCount: filteredRecords.length,
-          accessLevel: credential.accessLevel,
+          withheldCount: allRecords.length - filteredRecords.length,
+          emergencyType: emergencyRecord.emergencyType,
+          accessLevel: policy.accessLevel,
           traditionalRecords: traditionalRecords.length,
           web3Records: web3Records.length,
           patientHasWeb3Profile: !!patientProfile?.patientDID,
@@ -195,12 +287,14 @@ export class EmergencyCredentialService {
       return {
         success: true,
         records: filteredRecords,
+        policy,
+        withheldRecordCount: allRecords.length - filteredRecords.length,
         patientInfo: {
           patientId: credential.patientId,
           patientName: traditionalRecords[0]?.patientName || 'Unknown',
           patientDID: patientProfile?.patientDID,
           hasWeb3Profile: !!patientProfile?.patientDID,
-          emergencyType: credential.accessLevel,
+          emergencyType: emergencyRecord.emergencyType,
           accessExpiresAt: credential.expiresAt,
         }
       };
@@ -223,39 +317,6 @@ export class EmergencyCredentialService {
       };
     }
   }
-
-  /**
-   * Filter records based on emergency access level
-   */
-  private filterRecordsByAccessLevel(records: any[], accessLevel: string): any[] {
-    switch (accessLevel) {
-      case 'CRITICAL_CARE_RECORDS':
-        // Return all records for critical care
-        return records;
-      case 'RECENT_MEDICAL_HISTORY':
-        // Return records from last 30 days
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        return records.filter(record => new Date(record.visitDate) >= thirtyDaysAgo);
-      case 'SURGICAL_RELEVANT_RECORDS':
-        // Return surgical and allergy records
-        return records.filter(record => 
-          record.visitType?.toLowerCase().includes('surgery') ||
-          record.diagnosis?.toLowerCase().includes('allergy') ||
-          record.department?.toLowerCase().includes('surgery')
-        );
-      case 'PSYCHIATRIC_RECORDS':
-        // Return psychiatric and medication records
-        return records.filter(record => 
-          record.department?.toLowerCase().includes('psych') ||
-          record.visitType?.toLowerCase().includes('psych') ||
-          record.prescription // Include records with prescriptions
-        );
-      default:
-        // Return all records for general emergency access
-        return records;
-    }
-  }
 }
 
 export const emergencyCredentialService = EmergencyCredentialService.getInstance(); 
\ No newline at end of file
@@ -0,0 +1,67 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { requireAdminAuth } from "./admin-auth-middleware";
+import { emergencyReviewService, REVIEW_DECISIONS } from "./emergency-review-service";
+
+const decisionSchema = z.object({
+  decision: z.enum(REVIEW_DECISIONS),
+  notes: z.string().trim().min(10, "Reviewer notes must explain the decision"),
+});
+
+/**
+ * Post-Emergency Review Routes
+ * Hospital admins work through the break-glass accesses granted at their hospital.
+ */
+export function registerEmergencyReviewRoutes(app: Express): void {
+
+  /**
+   * Review queue, oldest deadline first
+   * GET /api/admin/emergency-reviews?status=pending
+   */
+  app.get("/api/admin/emergency-reviews", requireAdminAuth, async (req, res, next) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      const reviews = await emergencyReviewService.getQueue(req.user!.hospital_id, status);
+      res.json({ success: true, reviews });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * One review with the justification, authorizers, next-of-kin outcome and records viewed
+   * GET /api/admin/emergency-reviews/:id
+   */
+  app.get("/api/admin/emergency-reviews/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid review id" });
+      }
+
+      const review = await emergencyReviewService.getDetail(id, req.user!.hospital_id);
+      res.json({ success: true, review });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Approve the access or flag it as misuse; the patient is notified by SMS
+   * POST /api/admin/emergency-reviews/:id/decision
+   */
+  app.post("/api/admin/emergency-reviews/:id/decision", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ error: "Invalid review id" });
+      }
+
+      const { decision, notes } = decisionSchema.parse(req.body);
+      const result = await emergencyReviewService.decide(id, decision, notes, req.user!, req);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to record review decision: ${error.message}` });
+    }
+  });
+}
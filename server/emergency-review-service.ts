@@ -0,0 +1,314 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { smsService } from "./sms-service";
+import { emailService } from "./email-service";
+import type { EmergencyAccessReview, EmergencyConsentRecordSchema, User } from "@shared/schema";
+
+// Reviews are due this long after the emergency access itself expires
+const REVIEW_WINDOW_MS = 72 * 60 * 60 * 1000;
+// Admins are reminded once a day about reviews due within a day or already overdue
+const REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+const REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const REMINDER_CHECK_MS = 60 * 60 * 1000;
+
+export const REVIEW_DECISIONS = ['approved', 'flagged'] as const;
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+export interface EmergencyReviewSummary {
+  review: EmergencyAccessReview;
+  overdue: boolean;
+  emergency: {
+    id: string;
+    patientId: string;
+    hospitalName: string;
+    emergencyType: string;
+    grantedAt: Date;
+    expiresAt: Date;
+    revokedAt: Date | null;
+  } | null;
+}
+
+export interface EmergencyReviewDetail extends EmergencyReviewSummary {
+  medicalJustification?: string;
+  primaryPhysician?: unknown;
+  secondaryAuthorizer?: unknown;
+  nextOfKin?: unknown;
+  limitations?: unknown;
+  accesses: Array<{
+    accessedAt: Date | null;
+    accessedBy: string;
+    releasedCount: number;
+    withheldCount: number;
+    records: Array<{ recordId: number; source: string; reason: string }>;
+  }>;
+  viewedRecordCount: number;
+}
+
+/**
+ * Emergency Review Service
+ * Every break-glass access opens a review that a hospital admin must close by
+ * approving it or flagging it as misuse. Admins get deadline reminders, and the
+ * patient is told by SMS once the review closes.
+ */
+class EmergencyReviewService {
+  private static instance: EmergencyReviewService;
+  private reminderTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): EmergencyReviewService {
+    if (!EmergencyReviewService.instance) {
+      EmergencyReviewService.instance = new EmergencyReviewService();
+    }
+    return EmergencyReviewService.instance;
+  }
+
+  /**
+   * Open the review for a newly granted emergency consent
+   */
+  async openReview(emergencyConsentId: string, expiresAt: Date, hospital_id?: number): Promise<EmergencyAccessReview> {
+    return storage.createEmergencyAccessReview({
+      emergencyConsentId,
+      status: 'pending',
+      dueAt: new Date(expiresAt.getTime() + REVIEW_WINDOW_MS),
+      hospital_id: hospital_id ?? null,
+    });
+  }
+
+  async getQueue(hospital_id: number, status?: string): Promise<EmergencyReviewSummary[]> {
+    const reviews = await storage.getEmergencyAccessReviews({ hospital_id, status });
+    return Promise.all(reviews.map(async review => {
+      const record = await storage.getEmergencyConsentRecord(review.emergencyConsentId);
+      return this.summarize(review, record);
+    }));
+  }
+
+  /**
+   * Everything a reviewer needs: justification, authorizers, next-of-kin outcome and the records actually released
+   */
+  async getDetail(id: number, hospital_id: number): Promise<EmergencyReviewDetail> {
+    const review = await this.getScopedReview(id, hospital_id);
+    const record = await storage.getEmergencyConsentRecord(review.emergencyConsentId);
+    const events = await storage.getEmergencyAccessEvents(review.emergencyConsentId);
+
+    const accesses = events.map(event => {
+      const metadata = (event.metadata || {}) as Record<string, any>;
+      const decisions: Array<{ recordId: number; source: string; included: boolean; reason: string }> = metadata.decisions || [];
+      return {
+        accessedAt: event.createdAt,
+        accessedBy: metadata.requestingUserId || 'unknown',
+        releasedCount: metadata.releasedCount ?? 0,
+        withheldCount: metadata.withheldCount ?? 0,
+        records: decisions
+          .filter(d => d.included)
+          .map(({ recordId, source, reason }) => ({ recordId, source, reason })),
+      };
+    });
+    const viewed = new Set(accesses.flatMap(a => a.records.map(r => `${r.source}:${r.recordId}`)));
+
+    return {
+      ...this.summarize(review, record),
+      medicalJustification: record?.medicalJustification,
+      primaryPhysician: record?.primaryPhysicianDetails,
+      secondaryAuthorizer: record?.secondaryAuthorizerDetails,
+      nextOfKin: record?.nextOfKinConsentDetails,
+      limitations: record?.limitations,
+      accesses,
+      viewedRecordCount: viewed.size,
+    };
+  }
+
+  /**
+   * Close a review and notify the patient
+   */
+  async decide(
+    id: number,
+    decision: ReviewDecision,
+    notes: string,
+    reviewer: User,
+    req?: Request
+  ): Promise<{ review: EmergencyAccessReview; patientNotified: boolean }> {
+    const existing = await this.getScopedReview(id, reviewer.hospital_id);
+    if (existing.status !== 'pending') {
+      throw new Error('This review has already been closed');
+    }
+
+    const record = await storage.getEmergencyConsentRecord(existing.emergencyConsentId);
+    if (!record) {
+      throw new Error('Emergency consent record not found');
+    }
+
+    // The people who broke the glass cannot sign off on it
+    const authorizerIds = [record.primaryPhysicianDetails, record.secondaryAuthorizerDetails]
+      .map(details => (details as { id?: string } | null)?.id);
+    if (authorizerIds.includes(reviewer.username)) {
+      throw new Error('Authorizers of an emergency access cannot review it');
+    }
+
+    // Only the first of two concurrent decisions closes the review
+    const review = await storage.updateEmergencyAccessReview(id, {
+      status: decision,
+      reviewerId: reviewer.id,
+      reviewerNotes: notes,
+      decidedAt: new Date(),
+    }, 'pending');
+    if (!review) {
+      throw new Error('This review has already been closed');
+    }
+
+    await auditService.logEvent({
+      eventType: decision === 'approved' ? "EMERGENCY_REVIEW_APPROVED" : "EMERGENCY_REVIEW_FLAGGED",
+      actorType: "HOSPITAL_ADMIN",
+      actorId: reviewer.id.toString(),
+      targetType: "EMERGENCY_CONSENT",
+      targetId: record.id,
+      action: "REVIEW",
+      outcome: "SUCCESS",
+      metadata: {
+        reviewId: id,
+        patientId: record.patientId,
+        emergencyType: record.emergencyType,
+        decision,
+        notes,
+      },
+      severity: decision === 'approved' ? "info" : "warning",
+    }, req);
+
+    if (decision === 'flagged') {
+      await auditService.logSecurityViolation({
+        violationType: "EMERGENCY_ACCESS_MISUSE",
+        severity: "high",
+        actorId: authorizerIds.filter(Boolean).join(','),
+        targetResource: `patient:${record.patientId}`,
+        details: {
+          emergencyConsentRecordId: record.id,
+          reviewId: id,
+          reviewerId: reviewer.id,
+          notes,
+        },
+      }, req);
+    }
+
+    const patientNotified = await this.notifyPatient(review, record, decision);
+    return { review: patientNotified ? { ...review, patientNotifiedAt: new Date() } : review, patientNotified };
+  }
+
+  /**
+   * Email hospital admins about reviews that are due soon or overdue, at most once a day per review
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    const pending = await storage.getEmergencyAccessReviews({ status: 'pending' });
+    const due = pending.filter(review =>
+      review.hospital_id !== null &&
+      review.dueAt.getTime() - now.getTime() <= REMINDER_LEAD_MS &&
+      (!review.lastReminderAt || now.getTime() - review.lastReminderAt.getTime() >= REMINDER_INTERVAL_MS)
+    );
+
+    const byHospital = new Map<number, EmergencyAccessReview[]>();
+    for (const review of due) {
+      byHospital.set(review.hospital_id!, [...(byHospital.get(review.hospital_id!) || []), review]);
+    }
+
+    let reminded = 0;
+    for (const [hospital_id, reviews] of Array.from(byHospital.entries())) {
+      const admins = (await storage.getHospitalAdmins(hospital_id)).filter(admin => !!admin.email);
+      if (admins.length === 0) continue;
+
+      const overdueCount = reviews.filter(r => r.dueAt <= now).length;
+      for (const admin of admins) {
+        try {
+          await emailService.sendEmergencyReviewReminderEmail({
+            to: admin.email!,
+            hospitalName: admin.hospitalName,
+            pendingCount: reviews.length,
+            overdueCount,
+          });
+        } catch (error) {
+          console.error(`[EmergencyReviewService] Reminder to ${admin.email} failed: ${error}`);
+        }
+      }
+
+      for (const review of reviews) {
+        await storage.updateEmergencyAccessReview(review.id, {
+          remindersSent: review.remindersSent + 1,
+          lastReminderAt: now,
+        });
+      }
+      reminded += reviews.length;
+
+      await auditService.logEvent({
+        eventType: "EMERGENCY_REVIEW_REMINDER_SENT",
+        actorType: "SYSTEM",
+        actorId: "emergency_review_service",
+        targetType: "HOSPITAL",
+        targetId: hospital_id.toString(),
+        action: "REMIND",
+        outcome: "SUCCESS",
+        metadata: { reviewIds: reviews.map(r => r.id), overdueCount, adminCount: admins.length },
+        severity: overdueCount > 0 ? "warning" : "info",
+        hospital_id,
+      });
+    }
+
+    return reminded;
+  }
+
+  /**
+   * Check for due reviews every hour while the server runs
+   */
+  startReminderSchedule(): void {
+    if (this.reminderTimer) return;
+    this.reminderTimer = setInterval(() => {
+      this.sendDueReminders().catch(error =>
+        console.error(`[EmergencyReviewService] Reminder run failed: ${error}`)
+      );
+    }, REMINDER_CHECK_MS);
+    this.reminderTimer.unref();
+  }
+
+  private async getScopedReview(id: number, hospital_id: number): Promise<EmergencyAccessReview> {
+    const review = await storage.getEmergencyAccessReviewById(id);
+    if (!review || review.hospital_id !== hospital_id) {
+      throw new Error('Emergency review not found');
+    }
+    return review;
+  }
+
+  private summarize(review: EmergencyAccessReview, record?: EmergencyConsentRecordSchema): EmergencyReviewSummary {
+    return {
+      review,
+      overdue: review.status === 'pending' && review.dueAt <= new Date(),
+      emergency: record ? {
+        id: record.id,
+        patientId: record.patientId,
+        hospitalName: record.hospitalId,
+        emergencyType: record.emergencyType,
+        grantedAt: record.grantedAt,
+        expiresAt: record.expiresAt,
+        revokedAt: record.revokedAt,
+      } : null,
+    };
+  }
+
+  // SMS failures are logged but never reopen a closed review
+  private async notifyPatient(review: EmergencyAccessReview, record: EmergencyConsentRecordSchema, decision: ReviewDecision): Promise<boolean> {
+    try {
+      const profile = await storage.getPatientProfileByNationalId(record.patientId);
+      if (!profile?.phoneNumber) {
+        return false;
+      }
+
+      await smsService.sendTemplateSMS({
+        to: profile.phoneNumber,
+        key: decision === 'approved' ? 'sms.emergencyReviewApproved' : 'sms.emergencyReviewFlagged',
+        params: { hospital: record.hospitalId, date: record.grantedAt.toISOString().slice(0, 10) },
+      });
+      await storage.updateEmergencyAccessReview(review.id, { patientNotifiedAt: new Date() });
+      return true;
+    } catch (error) {
+      console.error(`[EmergencyReviewService] Patient notification for review ${review.id} failed: ${error}`);
+      return false;
+    }
+  }
+}
+
+export const emergencyReviewService = EmergencyReviewService.getInstance();
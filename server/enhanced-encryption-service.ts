@@ -145,6 +145,32 @@ export class EnhancedEncryptionService {
     }
   }
 
+  /**
+   * Streaming counterpart of encryptRecord for file attachments.
+   * The patient DID is bound as AAD so ciphertext cannot be replayed against another patient.
+   */
+  createAttachmentCipher(patientDID: string): {
+    cipher: crypto.CipherGCM;
+    encryptionKey: string;
+    iv: string;
+  } {
+    const encryptionKey = this.generateSecureKey();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(encryptionKey, 'hex'), iv);
+    cipher.setAAD(Buffer.from(patientDID));
+    return { cipher, encryptionKey, iv: iv.toString('hex') };
+  }
+
+  /**
+   * Decipher for an attachment stream; the auth tag is checked when the stream ends
+   */
+  createAttachmentDecipher(encryptionKey: string, iv: string, authTag: string, patientDID: string): crypto.DecipherGCM {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', Buffer.from(encryptionKey, 'hex'), Buffer.from(iv, 'hex'));
+    decipher.setAAD(Buffer.from(patientDID));
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+    return decipher;
+  }
+
   /**
    * Generate secure encryption key with entropy validation
    */
@@ -1,16 +1,20 @@
 import { filecoinService } from "./filecoin-service";
 import { ipfsService } from "./web3-services";
 import { ipfsRedundancyService } from "./ipfs-redundancy-service";
+import { storageProviderService } from "./storage-provider-service";
+import { readStream, type StorageProvider } from "./storage-providers";
 import { auditService } from "./audit-service";
 import { storage } from "./storage";
 import crypto from "crypto";
-import { promises as fs } from 'fs';
-import path from 'path';
+import { promises as fs, createReadStream } from 'fs';
+import { Readable } from 'stream';
+import type { StoredLocation } from "@shared/storage-providers";
 
 export interface StorageResult {
-  ipfsCid: string;
-  filecoinCid: string;
-  localPath?: string;
+  ipfsCid: string | null; // First IPFS copy (Pinata or Kubo), if the hospital stores on IPFS
+  filecoinCid: string | null; // Pinata copy, which Pinata can back with Filecoin deals
+  locations: StoredLocation[];
+  contentHash: string; // SHA-256 of the stored ciphertext
   storageCost: number;
   redundancyLevel: 'SINGLE' | 'DOUBLE' | 'TRIPLE';
   encryptionKey: string;
@@ -22,6 +26,19 @@ export interface StorageResult {
   };
 }
 
+export type FileStorageResult = Omit<StorageResult, 'encryptionKey'>;
+
+/**
+ * Where stored content can be read back from. Content stored before storage
+ * providers were configurable has only the legacy CID and path fields.
+ */
+export interface StoredContentRef {
+  locations?: StoredLocation[] | null;
+  ipfsCid?: string | null;
+  filecoinCid?: string | null;
+  localPath?: string | null;
+}
+
 export interface StorageStrategy {
   primary: 'ipfs' | 'filecoin' | 'filecoin_5_year' | 'local';
   archival: 'filecoin_1_year' | 'filecoin_5_year' | 'filecoin_10_year';
@@ -29,6 +46,11 @@ export interface StorageStrategy {
   estimatedCost: number;
 }
 
+interface ContentSource {
+  label: string;
+  open: () => Promise<Readable>;
+}
+
 export class EnhancedStorageService {
   private static instance: EnhancedStorageService;
 
@@ -40,15 +62,15 @@ export class EnhancedStorageService {
   }
 
   /**
-   * Store medical record with triple redundancy
-   * 1. IPFS (immediate access)
-   * 2. Filecoin (long-term archival)
-   * 3. Local hospital node (fast access)
+   * Store medical record on every storage provider the hospital has configured
+   * (or the server defaults), e.g. IPFS for immediate access, an object store
+   * for archival and a local copy for fast access
    */
   async storeWithTripleRedundancy(
     content: any,
     metadata: any,
-    patientDID: string
+    patientDID: string,
+    hospitalKey?: string | null
   ): Promise<StorageResult> {
     const startTime = Date.now();
     const contentString = JSON.stringify(content);
@@ -60,76 +82,34 @@ export class EnhancedStorageService {
     const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
     const ciphertext = Buffer.concat([cipher.update(contentBuffer), cipher.final()]);
     const authTag = cipher.getAuthTag();
-    const encryptedPayload = Buffer.concat([iv, authTag, ciphertext]).toString('base64');
+    const encryptedPayload = Buffer.from(Buffer.concat([iv, authTag, ciphertext]).toString('base64'), 'utf8');
 
-    try {
-      // 1. Store on IPFS with redundancy
-      const ipfsResult = await ipfsRedundancyService.storeWithRedundancy(
-        encryptedPayload,
-        { ...metadata, patientDID, encryptionMethod: 'AES-256-GCM' },
-        patientDID
-      );
+    const recordType = metadata.recordType || 'medical_record';
+    const name = metadata.filename || `medical_record_${Date.now()}.enc`;
+    const providerMetadata = { ...metadata, patientDID, recordType, encryptionMethod: 'AES-256-GCM', storedAt: new Date().toISOString() };
 
-      // 2. Store on Filecoin for long-term archival
-      const filecoinResult = await filecoinService.storeOnFilecoin(
-        Buffer.from(encryptedPayload, 'utf8'),
-        { 
-          filename: `medical_record_${Date.now()}.enc`,
-          patientDID, 
-          recordType: metadata.recordType || 'medical_record',
-          ipfsCid: ipfsResult.cid,
-          encryptionMethod: 'AES-256-GCM'
-        }
+    try {
+      const stored = await this.storeOnProviders(
+        await storageProviderService.getProviders(hospitalKey),
+        provider => provider.put(encryptedPayload, name, providerMetadata)
       );
 
-      if (filecoinResult.status !== 'success') {
-        throw new Error(`Filecoin storage failed: ${filecoinResult.status}`);
-      }
-
-      // 3. Store local copy (optional, based on hospital policy)
-      let localPath: string | undefined;
-      if (process.env.ENABLE_LOCAL_STORAGE === 'true') {
-        localPath = await this.storeLocally(Buffer.from(encryptedPayload, 'utf8'), ipfsResult.cid);
-      }
-
       const result: StorageResult = {
-        ipfsCid: ipfsResult.cid,
-        filecoinCid: filecoinResult.cid,
-        localPath,
+        ...stored,
+        contentHash: crypto.createHash('sha256').update(encryptedPayload).digest('hex'),
         storageCost: 0, // Pinata free tier available
-        redundancyLevel: 'TRIPLE',
         encryptionKey: encryptionKey.toString('hex'),
         metadata: {
           patientDID,
-          recordType: metadata.recordType || 'medical_record',
+          recordType,
           size: contentBuffer.length,
           storedAt: new Date()
         }
       };
 
-      // Log successful storage
-      await auditService.logEvent({
-        eventType: "TRIPLE_REDUNDANT_STORAGE",
-        actorType: "SYSTEM",
-        actorId: "enhanced_storage_service",
-        targetType: "RECORD",
-        targetId: ipfsResult.cid,
-        action: "STORE",
-        outcome: "SUCCESS",
-        metadata: {
-          patientDID,
-          ipfsCid: ipfsResult.cid,
-          filecoinCid: filecoinResult.cid,
-          redundancyLevel: 'TRIPLE',
-          duration: Date.now() - startTime
-        },
-        severity: "info",
-      });
+      await this.logStored(result, patientDID, Date.now() - startTime);
 
-      console.log(`[ENHANCED_STORAGE] Stored record with triple redundancy:
-        IPFS CID: ${ipfsResult.cid}
-        Filecoin CID: ${filecoinResult.cid}
-        Duration: ${Date.now() - startTime}ms`);
+      console.log(`[ENHANCED_STORAGE] Stored record on ${result.locations.map(l => l.provider).join(', ')} in ${Date.now() - startTime}ms`);
 
       return result;
 
@@ -150,45 +130,21 @@ export class EnhancedStorageService {
 
   /**
    * Retrieve medical record with failover
-   * Attempts IPFS first, then Filecoin, then local storage
+   * Tries each stored copy in the order it was written until one can be read
    */
-  async retrieveWithFailover(
-    ipfsCid: string,
-    filecoinCid: string,
-    encryptionKey: string,
-    localPath?: string
-  ): Promise<any> {
+  async retrieveWithFailover(source: StoredContentRef, encryptionKey: string): Promise<any> {
     const startTime = Date.now();
     let retrievedContent: string | null = null;
-    let source: string = '';
+    let retrievedFrom = '';
 
     try {
-      // 1. Try IPFS first (fastest)
-      try {
-        retrievedContent = await ipfsRedundancyService.retrieveWithFailover(ipfsCid);
-        source = 'ipfs';
-      } catch (ipfsError) {
-        console.log(`[ENHANCED_STORAGE] IPFS retrieval failed, trying Filecoin: ${ipfsError}`);
-      }
-
-      // 2. Try Filecoin if IPFS failed
-      if (!retrievedContent) {
+      for (const candidate of this.sourcesFor(source)) {
         try {
-          const filecoinBuffer = await filecoinService.retrieveFromFilecoin(filecoinCid);
-          retrievedContent = filecoinBuffer.toString('utf8');
-          source = 'filecoin';
-        } catch (filecoinError) {
-          console.log(`[ENHANCED_STORAGE] Filecoin retrieval failed: ${filecoinError}`);
-        }
-      }
-
-      // 3. Try local storage if both IPFS and Filecoin failed
-      if (!retrievedContent && localPath) {
-        try {
-          retrievedContent = await this.retrieveLocally(localPath);
-          source = 'local';
-        } catch (localError) {
-          console.log(`[ENHANCED_STORAGE] Local retrieval failed: ${localError}`);
+          retrievedContent = this.unwrapPayload((await readStream(await candidate.open())).toString('utf8'));
+          retrievedFrom = candidate.label;
+          break;
+        } catch (error) {
+          console.log(`[ENHANCED_STORAGE] Retrieval from ${candidate.label} failed: ${error}`);
         }
       }
 
@@ -207,7 +163,7 @@ export class EnhancedStorageService {
       const plaintext = Buffer.concat([decipher.update(ctBuf), decipher.final()]);
       const parsedContent = JSON.parse(plaintext.toString('utf8'));
 
-      console.log(`[ENHANCED_STORAGE] Retrieved record from ${source} in ${Date.now() - startTime}ms`);
+      console.log(`[ENHANCED_STORAGE] Retrieved record from ${retrievedFrom} in ${Date.now() - startTime}ms`);
       return parsedContent;
 
     } catch (error: any) {
@@ -215,8 +171,9 @@ export class EnhancedStorageService {
         violationType: "TRIPLE_REDUNDANT_RETRIEVAL_FAILURE",
         severity: "high",
         details: { 
-          ipfsCid, 
-          filecoinCid, 
+          ipfsCid: source.ipfsCid, 
+          filecoinCid: source.filecoinCid, 
+          locations: source.locations,
           error: error.message 
         },
       });
@@ -225,6 +182,189 @@ export class EnhancedStorageService {
     }
   }
 
+  /**
+   * Store an already-encrypted file on every configured storage provider
+   * Streaming counterpart of storeWithTripleRedundancy for attachments; the caller
+   * owns the encryption key and the file is never read fully into memory.
+   */
+  async storeFileWithTripleRedundancy(
+    filePath: string,
+    metadata: any,
+    patientDID: string,
+    hospitalKey?: string | null
+  ): Promise<FileStorageResult> {
+    const startTime = Date.now();
+    const { size } = await fs.stat(filePath);
+    const recordType = metadata.recordType || 'attachment';
+    const name = metadata.filename || `attachment_${Date.now()}.enc`;
+    const providerMetadata = { ...metadata, patientDID, recordType, encryptionMethod: 'AES-256-GCM', storedAt: new Date().toISOString() };
+
+    try {
+      const hash = crypto.createHash('sha256');
+      for await (const chunk of createReadStream(filePath)) {
+        hash.update(chunk);
+      }
+
+      const stored = await this.storeOnProviders(
+        await storageProviderService.getProviders(hospitalKey),
+        provider => provider.putFile(filePath, name, providerMetadata)
+      );
+
+      const result: FileStorageResult = {
+        ...stored,
+        contentHash: hash.digest('hex'),
+        storageCost: 0,
+        metadata: {
+          patientDID,
+          recordType,
+          size,
+          storedAt: new Date()
+        }
+      };
+
+      await this.logStored(result, patientDID, Date.now() - startTime);
+      return result;
+
+    } catch (error: any) {
+      await auditService.logSecurityViolation({
+        violationType: "TRIPLE_REDUNDANT_STORAGE_FAILURE",
+        severity: "high",
+        details: { error: error.message, patientDID, contentSize: size },
+      });
+
+      throw new Error(`Triple redundant storage failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Open a stream of stored (still encrypted) content with failover
+   * Same order as retrieveWithFailover
+   */
+  async openStreamWithFailover(source: StoredContentRef): Promise<{ stream: Readable; source: string }> {
+    for (const candidate of this.sourcesFor(source)) {
+      try {
+        return { stream: await candidate.open(), source: candidate.label };
+      } catch (error) {
+        console.log(`[ENHANCED_STORAGE] Stream from ${candidate.label} failed: ${error}`);
+      }
+    }
+
+    await auditService.logSecurityViolation({
+      violationType: "TRIPLE_REDUNDANT_RETRIEVAL_FAILURE",
+      severity: "high",
+      details: { ipfsCid: source.ipfsCid, filecoinCid: source.filecoinCid, locations: source.locations, error: 'All storage layers failed to open content stream' },
+    });
+    throw new Error('Triple redundant retrieval failed: all storage layers failed to open content stream');
+  }
+
+  /**
+   * Register each stored copy so the integrity scrubber verifies it
+   */
+  async trackLocations(stored: FileStorageResult, recordId: number): Promise<void> {
+    for (const location of stored.locations) {
+      await storage.createStorageLocation({
+        contentHash: stored.contentHash,
+        storageType: location.provider,
+        locationId: location.ref,
+        providerId: location.providerId ?? null,
+        recordId,
+        status: 'active'
+      });
+    }
+  }
+
+  /**
+   * Write to all providers at once; succeeds if at least one copy was stored
+   */
+  private async storeOnProviders(
+    providers: StorageProvider[],
+    write: (provider: StorageProvider) => Promise<string>
+  ): Promise<Pick<StorageResult, 'ipfsCid' | 'filecoinCid' | 'locations' | 'redundancyLevel'>> {
+    if (providers.length === 0) {
+      throw new Error('No storage providers are configured');
+    }
+
+    const attempts = await Promise.allSettled(providers.map(write));
+    const locations: StoredLocation[] = [];
+    const failures: string[] = [];
+    attempts.forEach((attempt, i) => {
+      const provider = providers[i];
+      if (attempt.status === 'fulfilled') {
+        locations.push({ provider: provider.kind, ...(provider.providerId ? { providerId: provider.providerId } : {}), ref: attempt.value });
+      } else {
+        failures.push(`${provider.name}: ${attempt.reason?.message || attempt.reason}`);
+      }
+    });
+
+    if (locations.length === 0) {
+      throw new Error(`All storage providers failed (${failures.join('; ')})`);
+    }
+    if (failures.length > 0) {
+      console.warn(`[ENHANCED_STORAGE] Stored ${locations.length}/${providers.length} copies; failed: ${failures.join('; ')}`);
+    }
+
+    return {
+      ipfsCid: locations.find(l => l.provider === 'pinata' || l.provider === 'kubo')?.ref ?? null,
+      filecoinCid: locations.find(l => l.provider === 'pinata')?.ref ?? null,
+      locations,
+      redundancyLevel: locations.length >= 3 ? 'TRIPLE' : locations.length === 2 ? 'DOUBLE' : 'SINGLE',
+    };
+  }
+
+  private sourcesFor(ref: StoredContentRef): ContentSource[] {
+    const sources: ContentSource[] = (ref.locations || []).map(location => ({
+      label: location.provider,
+      open: async () => (await storageProviderService.providerFor(location)).openStream(location.ref),
+    }));
+
+    if (sources.length === 0) {
+      // Stored before providers were configurable: public IPFS gateways, then Pinata, then local disk
+      const { ipfsCid, filecoinCid, localPath } = ref;
+      if (ipfsCid) sources.push({ label: 'ipfs', open: () => ipfsRedundancyService.openStreamWithFailover(ipfsCid) });
+      if (filecoinCid) sources.push({ label: 'filecoin', open: () => filecoinService.openFilecoinStream(filecoinCid) });
+      if (localPath) sources.push({
+        label: 'local',
+        open: async () => {
+          await fs.access(localPath);
+          return createReadStream(localPath);
+        },
+      });
+    }
+    return sources;
+  }
+
+  // Records pinned as JSON by earlier versions wrap the ciphertext in { payload }
+  private unwrapPayload(raw: string): string {
+    try {
+      const json = JSON.parse(raw);
+      if (json && typeof json === 'object') {
+        if (typeof json.payload === 'string') return json.payload;
+        if (typeof json.pinataContent === 'string') return json.pinataContent;
+      }
+    } catch {}
+    return raw;
+  }
+
+  private async logStored(result: FileStorageResult, patientDID: string, duration: number): Promise<void> {
+    await auditService.logEvent({
+      eventType: "TRIPLE_REDUNDANT_STORAGE",
+      actorType: "SYSTEM",
+      actorId: "enhanced_storage_service",
+      targetType: "RECORD",
+      targetId: result.ipfsCid || result.contentHash,
+      action: "STORE",
+      outcome: "SUCCESS",
+      metadata: {
+        patientDID,
+        locations: result.locations,
+        redundancyLevel: result.redundancyLevel,
+        size: result.metadata.size,
+        duration
+      },
+      severity: result.redundancyLevel === 'SINGLE' ? "warning" : "info",
+    });
+  }
+
   /**
    * Optimize storage strategy based on access patterns and cost
    */
@@ -277,38 +417,6 @@ export class EnhancedStorageService {
     return strategy;
   }
 
-  /**
-   * Store content locally on hospital server
-   */
-  private async storeLocally(content: Buffer, cid: string): Promise<string> {
-    const localStorageDir = process.env.LOCAL_STORAGE_DIR || './local_storage';
-    const filePath = path.join(localStorageDir, `${cid}.enc`);
-    
-    try {
-      await fs.mkdir(localStorageDir, { recursive: true });
-      await fs.writeFile(filePath, content);
-      
-      console.log(`[ENHANCED_STORAGE] Stored locally: ${filePath}`);
-      return filePath;
-    } catch (error: any) {
-      console.error(`[ENHANCED_STORAGE] Local storage failed: ${error.message}`);
-      throw error;
-    }
-  }
-
-  /**
-   * Retrieve content from local storage
-   */
-  private async retrieveLocally(filePath: string): Promise<string> {
-    try {
-      const content = await fs.readFile(filePath);
-      return content.toString('utf8');
-    } catch (error: any) {
-      console.error(`[ENHANCED_STORAGE] Local retrieval failed: ${error.message}`);
-      throw error;
-    }
-  }
-
   /**
    * Get storage health metrics
    */
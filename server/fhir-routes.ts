@@ -0,0 +1,117 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { requireCapability } from "./capability-middleware";
+import { consentGrantService } from "./consent-grant-service";
+import { fhirService, FhirValidationError, FHIR_CONTENT_TYPE, type FhirResource } from "./fhir-service";
+
+function sendFhir(res: Response, status: number, resource: FhirResource) {
+  res.status(status).type(FHIR_CONTENT_TYPE).send(JSON.stringify(resource));
+}
+
+/**
+ * HL7 FHIR R4 Routes
+ * Export consented records as a Bundle and import Bundles from partner EMRs.
+ */
+export function registerFhirRoutes(app: Express): void {
+
+  /**
+   * POST /api/fhir/export
+   * Bundle of the records the requesting hospital holds consent for
+   */
+  app.post("/api/fhir/export", requireCapability("lookup_records"), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const { nationalId } = z.object({ nationalId: z.string().min(1) }).parse(req.body);
+
+      const records = await storage.getPatientRecordsByNationalId(nationalId);
+      if (records.length === 0) {
+        return res.status(404).json({ error: "No records found for this patient" });
+      }
+
+      const profile = await storage.getPatientProfileByNationalId(nationalId);
+      const covered = await consentGrantService.getCoveredRecords(records, nationalId, user.id, profile?.patientDID);
+      if (covered.records.length === 0) {
+        return res.status(403).json({ error: "No active consent covers this patient's records", requiresConsent: true });
+      }
+
+      const bundle = await fhirService.exportForHospital(user, nationalId, covered.records, req);
+      sendFhir(res, 200, bundle);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/fhir/import
+   * Body: FHIR R4 Bundle with one Patient and one or more Encounters
+   */
+  app.post("/api/fhir/import", requireCapability("submit_records"), async (req, res, next) => {
+    try {
+      const result = await fhirService.importBundle(req.body, req.user!, req);
+      res.status(201).json({
+        success: true,
+        message: `Imported ${result.recordIds.length} record(s)`,
+        recordIds: result.recordIds,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      if (error instanceof FhirValidationError) {
+        await auditService.logEvent({
+          eventType: "FHIR_BUNDLE_IMPORTED",
+          actorType: "HOSPITAL",
+          actorId: req.user!.id.toString(),
+          targetType: "PATIENT",
+          targetId: "unknown",
+          action: "IMPORT",
+          outcome: "FAILURE",
+          metadata: { issues: error.issues.slice(0, 20) },
+          severity: "warning",
+          hospital_id: req.user!.hospital_id,
+        }, req);
+        return sendFhir(res, 400, error.toOperationOutcome());
+      }
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/patient/fhir
+   * The signed-in patient's own records as a Bundle
+   */
+  app.get("/api/patient/fhir", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const profile = await storage.getPatientProfileByDID(req.session.patientDID);
+      if (!profile) {
+        return res.status(401).json({ error: "Invalid session" });
+      }
+
+      const records = profile.nationalId
+        ? await storage.getPatientRecordsByNationalId(profile.nationalId)
+        : await storage.getPatientRecordsByDID(profile.patientDID);
+      const bundle = await fhirService.exportBundle(records, profile);
+
+      await auditService.logEvent({
+        eventType: "FHIR_BUNDLE_EXPORTED",
+        actorType: "PATIENT",
+        actorId: profile.patientDID,
+        targetType: "PATIENT_RECORDS",
+        targetId: profile.patientDID,
+        action: "EXPORT",
+        outcome: "SUCCESS",
+        metadata: { recordCount: records.length, resourceCount: bundle.entry.length },
+        severity: "info",
+      }, req);
+
+      res.setHeader("Content-Disposition", `attachment; filename="medibridge-records-${new Date().toISOString().slice(0, 10)}.json"`);
+      sendFhir(res, 200, bundle);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to export records" });
+    }
+  });
+}
@@ -0,0 +1,815 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { storage, type NewPatientRecord } from "./storage";
+import { auditService } from "./audit-service";
+import { clinicalRecordService } from "./clinical-record-service";
+import { zkpService } from "./zkp-service";
+import type { PatientRecord, RecordClinicalDetails, User } from "@shared/schema";
+import {
+  ALLERGY_SEVERITIES,
+  MEDICATION_ROUTES,
+  MEDICATION_ROUTE_LABELS,
+  clinicalDetailsSchema,
+  type AllergyEntry,
+  type ClinicalDetails,
+  type MedicationEntry,
+  type VitalSignsEntry,
+} from "@shared/clinical";
+
+export const FHIR_CONTENT_TYPE = "application/fhir+json";
+
+// Identifier system for the national ID; partners can align it with their own registry
+export const NATIONAL_ID_SYSTEM = process.env.FHIR_NATIONAL_ID_SYSTEM || "urn:medibridge:national-id";
+
+const ICD11_SYSTEM = "http://id.who.int/icd/release/11/mms";
+const LOINC_SYSTEM = "http://loinc.org";
+const ACT_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const OBSERVATION_CATEGORY_SYSTEM = "http://terminology.hl7.org/CodeSystem/observation-category";
+const INTERPRETATION_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation";
+const CONDITION_CLINICAL_SYSTEM = "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const ALLERGY_CLINICAL_SYSTEM = "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical";
+
+const MAX_IMPORT_ENTRIES = 500;
+
+// LOINC codes for the vital signs profile; blood pressure goes in a panel with two components
+const VITAL_SIGN_CODES: Array<{ key: keyof VitalSignsEntry; code: string; display: string; unit: string; ucum: string }> = [
+  { key: "heartRate", code: "8867-4", display: "Heart rate", unit: "beats/minute", ucum: "/min" },
+  { key: "respiratoryRate", code: "9279-1", display: "Respiratory rate", unit: "breaths/minute", ucum: "/min" },
+  { key: "temperatureC", code: "8310-5", display: "Body temperature", unit: "Cel", ucum: "Cel" },
+  { key: "oxygenSaturation", code: "2708-6", display: "Oxygen saturation in Arterial blood", unit: "%", ucum: "%" },
+  { key: "weightKg", code: "29463-7", display: "Body weight", unit: "kg", ucum: "kg" },
+  { key: "heightCm", code: "8302-2", display: "Body height", unit: "cm", ucum: "cm" },
+];
+const BP_PANEL = { code: "85354-9", systolic: "8480-6", diastolic: "8462-4" };
+
+const INTERPRETATION_CODES: Record<string, string> = { normal: "N", low: "L", high: "H", critical: "AA" };
+
+export type FhirResource = { resourceType: string; id?: string; [key: string]: any };
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id?: string;
+  type: string;
+  timestamp?: string;
+  meta?: Record<string, any>;
+  total?: number;
+  entry: Array<{ fullUrl?: string; resource: FhirResource }>;
+}
+
+export interface FhirIssue {
+  severity: "error" | "warning";
+  code: string;
+  diagnostics: string;
+  expression?: string[];
+}
+
+/**
+ * OperationOutcome carrying import validation issues
+ */
+export class FhirValidationError extends Error {
+  constructor(public readonly issues: FhirIssue[]) {
+    super(issues.map(i => i.diagnostics).join("; "));
+    this.name = "FhirValidationError";
+  }
+
+  toOperationOutcome(): FhirResource {
+    return { resourceType: "OperationOutcome", issue: this.issues };
+  }
+}
+
+const codeableConcept = z.object({
+  text: z.string().optional(),
+  coding: z.array(z.object({ system: z.string().optional(), code: z.string().optional(), display: z.string().optional() }).passthrough()).optional(),
+}).passthrough();
+
+const reference = z.object({ reference: z.string().optional(), display: z.string().optional() }).passthrough();
+
+const bundleSchema = z.object({
+  resourceType: z.literal("Bundle"),
+  type: z.enum(["collection", "transaction", "batch", "document", "searchset"]),
+  entry: z.array(z.object({
+    fullUrl: z.string().optional(),
+    resource: z.object({ resourceType: z.string(), id: z.string().optional() }).passthrough(),
+  }).passthrough()).min(1).max(MAX_IMPORT_ENTRIES),
+}).passthrough();
+
+const patientSchema = z.object({
+  identifier: z.array(z.object({ system: z.string().optional(), value: z.string().optional() }).passthrough()).min(1),
+  name: z.array(z.object({ text: z.string().optional(), given: z.array(z.string()).optional(), family: z.string().optional() }).passthrough()).min(1),
+}).passthrough();
+
+const encounterSchema = z.object({
+  class: z.object({ code: z.string().optional() }).passthrough().optional(),
+  type: z.array(codeableConcept).optional(),
+  serviceType: codeableConcept.optional(),
+  period: z.object({ start: z.string().regex(/^\d{4}-\d{2}-\d{2}/, "period.start must be a FHIR date or dateTime") }).passthrough(),
+  participant: z.array(z.object({ individual: reference.optional() }).passthrough()).optional(),
+}).passthrough();
+
+const conditionSchema = z.object({
+  code: codeableConcept,
+  encounter: reference.optional(),
+}).passthrough();
+
+const medicationRequestSchema = z.object({
+  medicationCodeableConcept: codeableConcept,
+  encounter: reference.optional(),
+  dosageInstruction: z.array(z.object({
+    text: z.string().optional(),
+    route: codeableConcept.optional(),
+    timing: z.object({
+      code: codeableConcept.optional(),
+      repeat: z.object({ boundsPeriod: z.object({ start: z.string().optional(), end: z.string().optional() }).passthrough().optional() }).passthrough().optional(),
+    }).passthrough().optional(),
+    doseAndRate: z.array(z.object({ doseQuantity: z.object({ value: z.number().optional(), unit: z.string().optional() }).passthrough().optional() }).passthrough()).optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const allergySchema = z.object({
+  code: codeableConcept,
+  encounter: reference.optional(),
+  criticality: z.string().optional(),
+  clinicalStatus: codeableConcept.optional(),
+  reaction: z.array(z.object({
+    severity: z.string().optional(),
+    manifestation: z.array(codeableConcept).optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const quantity = z.object({ value: z.number().optional(), unit: z.string().optional() }).passthrough();
+
+const observationSchema = z.object({
+  code: codeableConcept,
+  encounter: reference.optional(),
+  category: z.array(codeableConcept).optional(),
+  valueQuantity: quantity.optional(),
+  valueString: z.string().optional(),
+  component: z.array(z.object({ code: codeableConcept, valueQuantity: quantity.optional() }).passthrough()).optional(),
+  referenceRange: z.array(z.object({ low: quantity.optional(), high: quantity.optional(), text: z.string().optional() }).passthrough()).optional(),
+  interpretation: z.array(codeableConcept).optional(),
+  effectiveDateTime: z.string().optional(),
+}).passthrough();
+
+const immunizationSchema = z.object({
+  vaccineCode: codeableConcept,
+  encounter: reference.optional(),
+  occurrenceDateTime: z.string().regex(/^\d{4}-\d{2}-\d{2}/, "occurrenceDateTime must be a FHIR date or dateTime"),
+  lotNumber: z.string().optional(),
+  site: codeableConcept.optional(),
+  protocolApplied: z.array(z.object({ doseNumberPositiveInt: z.number().int().positive().optional() }).passthrough()).optional(),
+}).passthrough();
+
+const IMPORTED_TYPES = ["Patient", "Encounter", "Condition", "MedicationRequest", "AllergyIntolerance", "Observation", "Immunization"];
+
+export interface ImportedEncounter {
+  patientName: string;
+  nationalId: string;
+  visitDate: string;
+  visitType?: string;
+  department?: string;
+  physician?: string;
+  diagnosis: string;
+  prescription?: string;
+  icdCodes: Array<{ icd_code: string; icd_description?: string }>;
+  clinical?: ClinicalDetails;
+}
+
+export interface FhirImportResult {
+  recordIds: number[];
+  warnings: FhirIssue[];
+}
+
+type ExportRecord = PatientRecord & { clinical: RecordClinicalDetails };
+
+/**
+ * FHIR Service
+ * Maps patient records and their structured sub-records to HL7 FHIR R4 resources and
+ * back, so partner EMRs can exchange records without custom adapters.
+ */
+class FhirService {
+  private static instance: FhirService;
+
+  static getInstance(): FhirService {
+    if (!FhirService.instance) {
+      FhirService.instance = new FhirService();
+    }
+    return FhirService.instance;
+  }
+
+  /**
+   * Collection Bundle of the given (already consent-checked) records
+   */
+  async exportBundle(records: PatientRecord[], patient: { nationalId: string; fullName: string; patientDID?: string | null }): Promise<FhirBundle> {
+    const withClinical = await clinicalRecordService.attachDetails(records);
+    const entries: FhirBundle["entry"] = [];
+    const add = (resource: FhirResource) => {
+      const fullUrl = `urn:uuid:${crypto.randomUUID()}`;
+      entries.push({ fullUrl, resource });
+      return fullUrl;
+    };
+
+    const patientRef = add(this.toPatient(patient));
+    for (const record of withClinical) {
+      this.addRecordResources(record, patientRef, add);
+    }
+
+    return {
+      resourceType: "Bundle",
+      id: crypto.randomUUID(),
+      type: "collection",
+      timestamp: new Date().toISOString(),
+      meta: { lastUpdated: new Date().toISOString(), source: "medibridge" },
+      total: entries.length,
+      entry: entries,
+    };
+  }
+
+  /**
+   * Export the records a hospital user holds consent for, audited like any record release
+   */
+  async exportForHospital(user: User, nationalId: string, records: PatientRecord[], req?: Request): Promise<FhirBundle> {
+    const profile = await storage.getPatientProfileByNationalId(nationalId);
+    const bundle = await this.exportBundle(records, {
+      nationalId,
+      fullName: records[0]?.patientName || profile?.fullName || "",
+      patientDID: profile?.patientDID,
+    });
+
+    await auditService.logEvent({
+      eventType: "FHIR_BUNDLE_EXPORTED",
+      actorType: "HOSPITAL",
+      actorId: user.id.toString(),
+      targetType: "PATIENT",
+      targetId: nationalId,
+      action: "EXPORT",
+      outcome: "SUCCESS",
+      metadata: { recordIds: records.map(r => r.id), resourceCount: bundle.entry.length },
+      severity: "info",
+      hospital_id: user.hospital_id,
+    }, req);
+
+    return bundle;
+  }
+
+  /**
+   * Validate a Bundle and create one patient record per Encounter through the normal
+   * submission path. Nothing is written unless the whole Bundle validates, and the
+   * records are inserted in one transaction.
+   */
+  async importBundle(input: unknown, user: User, req?: Request): Promise<FhirImportResult> {
+    const { encounters, warnings } = this.parseBundle(input);
+    const entries: Array<{ record: NewPatientRecord; clinical?: ClinicalDetails }> = [];
+
+    for (const encounter of encounters) {
+      const profile = await storage.getPatientProfileByNationalId(encounter.nationalId);
+      const recordData: NewPatientRecord = {
+        patientName: encounter.patientName,
+        nationalId: encounter.nationalId,
+        visitDate: encounter.visitDate,
+        visitType: encounter.visitType,
+        diagnosis: encounter.diagnosis,
+        prescription: encounter.prescription,
+        physician: encounter.physician,
+        department: encounter.department,
+        patientDID: profile?.patientDID || null,
+        recordType: profile ? "web3" : "traditional",
+        submittedBy: user.id,
+        hospital_id: user.hospital_id,
+        icd_codes: encounter.icdCodes,
+        entities: [],
+      };
+
+      // Without coded conditions, fall back to the same NLP analysis as a form submission
+      if (encounter.icdCodes.length === 0) {
+        try {
+          const analysis = await (await zkpService).analyzeMedicalData(recordData);
+          recordData.entities = analysis.entities || [];
+          recordData.icd_codes = analysis.icd_codes || [];
+        } catch (err) {
+          console.error("[FHIR] NLP analysis skipped for imported encounter:", err);
+        }
+      }
+
+      entries.push({ record: recordData, clinical: encounter.clinical });
+    }
+
+    const records = await storage.createPatientRecordsWithDetails(entries.map(({ record, clinical }) => ({
+      record,
+      clinical: clinical ? clinicalRecordService.toRows(clinical) : undefined,
+    })));
+    const recordIds = records.map(record => record.id);
+
+    // Fire-and-forget, as on submission: commit claimable fields, then generate ZK proofs
+    try {
+      const zkp = await zkpService;
+      records.forEach((record, index) => {
+        const { record: recordData, clinical } = entries[index];
+        const patientDID = record.patientDID;
+        if (!patientDID) return;
+        zkp.commitRecordClaims(record, clinical)
+          .then(commitments => zkp.generateProofsFromMedicalData(patientDID, { ...recordData, clinical }, {
+            entities: recordData.entities || [],
+            icd_codes: recordData.icd_codes || [],
+          }, commitments))
+          .catch(err => console.error("[ZKP] Proof generation failed for imported record:", err));
+      });
+    } catch (e) {
+      console.error("[ZKP] Skipping auto-proof generation for import:", e);
+    }
+
+    await auditService.logEvent({
+      eventType: "FHIR_BUNDLE_IMPORTED",
+      actorType: "HOSPITAL",
+      actorId: user.id.toString(),
+      targetType: "PATIENT",
+      targetId: encounters[0]?.nationalId || "unknown",
+      action: "IMPORT",
+      outcome: "SUCCESS",
+      metadata: { recordIds, warningCount: warnings.length },
+      severity: "info",
+      hospital_id: user.hospital_id,
+    }, req);
+
+    return { recordIds, warnings };
+  }
+
+  /**
+   * Turn a Bundle into one record per Encounter, or throw FhirValidationError listing every problem
+   */
+  parseBundle(input: unknown): { encounters: ImportedEncounter[]; warnings: FhirIssue[] } {
+    const issues: FhirIssue[] = [];
+    const error = (diagnostics: string, expression?: string) =>
+      issues.push({ severity: "error", code: "invalid", diagnostics, ...(expression ? { expression: [expression] } : {}) });
+    const warn = (diagnostics: string, expression?: string) =>
+      issues.push({ severity: "warning", code: "not-supported", diagnostics, ...(expression ? { expression: [expression] } : {}) });
+
+    const parsedBundle = bundleSchema.safeParse(input);
+    if (!parsedBundle.success) {
+      throw new FhirValidationError(parsedBundle.error.issues.map(i => ({
+        severity: "error" as const,
+        code: "structure",
+        diagnostics: i.message,
+        expression: [["Bundle", ...i.path].join(".")],
+      })));
+    }
+
+    // Resolve references by fullUrl or by ResourceType/id
+    const byKey = new Map<string, { resource: FhirResource; path: string }>();
+    const resources: Array<{ resource: FhirResource; path: string }> = [];
+    parsedBundle.data.entry.forEach((entry, index) => {
+      const item = { resource: entry.resource as FhirResource, path: `Bundle.entry[${index}].resource` };
+      resources.push(item);
+      if (entry.fullUrl) byKey.set(entry.fullUrl, item);
+      if (entry.resource.id) byKey.set(`${entry.resource.resourceType}/${entry.resource.id}`, item);
+      if (!IMPORTED_TYPES.includes(entry.resource.resourceType)) {
+        warn(`${entry.resource.resourceType} resources are not imported`, item.path);
+      }
+    });
+
+    const validate = <T extends z.ZodTypeAny>(schema: T, item: { resource: FhirResource; path: string }): z.infer<T> | null => {
+      const result = schema.safeParse(item.resource);
+      if (!result.success) {
+        result.error.issues.forEach(i => error(`${item.resource.resourceType}: ${i.message}`, [item.path, ...i.path].join(".")));
+        return null;
+      }
+      return result.data;
+    };
+    const ofType = (type: string) => resources.filter(r => r.resource.resourceType === type);
+
+    // Patient
+    const patients = ofType("Patient");
+    if (patients.length !== 1) {
+      error(`Bundle must contain exactly one Patient, found ${patients.length}`, "Bundle.entry");
+    }
+    const patient = patients.length === 1 ? validate(patientSchema, patients[0]) : null;
+    const nationalId = patient
+      ? (patient.identifier.find(i => i.system === NATIONAL_ID_SYSTEM && i.value) || patient.identifier.find(i => i.value))?.value
+      : undefined;
+    if (patient && !nationalId) {
+      error("Patient.identifier must carry the national ID", `${patients[0].path}.identifier`);
+    }
+    const patientName = patient ? this.nameOf(patient.name[0]) : "";
+    if (patient && !patientName) {
+      error("Patient.name must have text or given/family", `${patients[0].path}.name`);
+    }
+
+    // Encounters, then everything that points at one
+    const encounterItems = ofType("Encounter");
+    if (encounterItems.length === 0) {
+      error("Bundle must contain at least one Encounter", "Bundle.entry");
+    }
+
+    const encounterOf = (item: { resource: FhirResource; path: string }, ref?: { reference?: string }) => {
+      if (ref?.reference) {
+        const target = byKey.get(ref.reference);
+        if (target && target.resource.resourceType === "Encounter") return target;
+        error(`Unresolved encounter reference ${ref.reference}`, `${item.path}.encounter`);
+        return undefined;
+      }
+      // With a single visit in the Bundle, unlinked resources belong to it
+      if (encounterItems.length === 1) return encounterItems[0];
+      warn(`${item.resource.resourceType} has no encounter and the Bundle has several; it was skipped`, item.path);
+      return undefined;
+    };
+
+    const drafts = new Map(encounterItems.map(item => [item, {
+      item,
+      encounter: validate(encounterSchema, item),
+      diagnoses: [] as string[],
+      icdCodes: [] as Array<{ icd_code: string; icd_description?: string }>,
+      prescriptions: [] as string[],
+      clinical: { allergies: [], medications: [], vitals: [], labResults: [], immunizations: [] } as ClinicalDetails,
+    }]));
+    const draftFor = (item: { resource: FhirResource; path: string }, ref?: { reference?: string }) => {
+      const encounter = encounterOf(item, ref);
+      return encounter ? drafts.get(encounter) : undefined;
+    };
+
+    for (const item of ofType("Condition")) {
+      const condition = validate(conditionSchema, item);
+      const draft = condition && draftFor(item, condition.encounter);
+      if (!condition || !draft) continue;
+      const text = this.textOf(condition.code);
+      if (!text) {
+        error("Condition.code needs text or a coding display", `${item.path}.code`);
+        continue;
+      }
+      draft.diagnoses.push(text);
+      for (const coding of condition.code.coding || []) {
+        if (coding.system === ICD11_SYSTEM && coding.code) {
+          draft.icdCodes.push({ icd_code: coding.code, icd_description: coding.display || text });
+        }
+      }
+    }
+
+    for (const item of ofType("MedicationRequest")) {
+      const request = validate(medicationRequestSchema, item);
+      const draft = request && draftFor(item, request.encounter);
+      if (!request || !draft) continue;
+      const name = this.textOf(request.medicationCodeableConcept);
+      if (!name) {
+        error("MedicationRequest.medicationCodeableConcept needs text or a coding display", `${item.path}.medicationCodeableConcept`);
+        continue;
+      }
+      const dosage = request.dosageInstruction?.[0];
+      const doseQuantity = dosage?.doseAndRate?.[0]?.doseQuantity;
+      const medication: MedicationEntry = {
+        name,
+        dose: doseQuantity?.value !== undefined ? `${doseQuantity.value}${doseQuantity.unit ? ` ${doseQuantity.unit}` : ""}` : undefined,
+        route: this.routeOf(dosage?.route),
+        frequency: dosage?.timing?.code ? this.textOf(dosage.timing.code) : undefined,
+        startDate: this.dateOf(dosage?.timing?.repeat?.boundsPeriod?.start),
+        endDate: this.dateOf(dosage?.timing?.repeat?.boundsPeriod?.end),
+      };
+      draft.clinical.medications.push(medication);
+      draft.prescriptions.push(dosage?.text ? `${name}: ${dosage.text}` : [name, medication.dose, medication.frequency].filter(Boolean).join(" "));
+    }
+
+    for (const item of ofType("AllergyIntolerance")) {
+      const allergy = validate(allergySchema, item);
+      const draft = allergy && draftFor(item, allergy.encounter);
+      if (!allergy || !draft) continue;
+      const substance = this.textOf(allergy.code);
+      if (!substance) {
+        error("AllergyIntolerance.code needs text or a coding display", `${item.path}.code`);
+        continue;
+      }
+      const reaction = allergy.reaction?.[0];
+      const reactionSeverity = reaction?.severity;
+      const severity = allergy.criticality === "high" && reactionSeverity === "severe"
+        ? "life_threatening"
+        : (ALLERGY_SEVERITIES as readonly string[]).includes(reactionSeverity || "") ? reactionSeverity as AllergyEntry["severity"] : "moderate";
+      const status = allergy.clinicalStatus?.coding?.some(c => c.code === "resolved" || c.code === "inactive") ? "resolved" : "active";
+      draft.clinical.allergies.push({
+        substance,
+        reaction: reaction?.manifestation?.map(m => this.textOf(m)).filter(Boolean).join(", ") || undefined,
+        severity,
+        status,
+      });
+    }
+
+    for (const item of ofType("Observation")) {
+      const observation = validate(observationSchema, item);
+      const draft = observation && draftFor(item, observation.encounter);
+      if (!observation || !draft) continue;
+      const categories = (observation.category || []).flatMap(c => (c.coding || []).map(coding => coding.code));
+      const loinc = observation.code.coding?.find(c => c.system === LOINC_SYSTEM)?.code;
+
+      if (categories.includes("vital-signs")) {
+        const vitals = this.vitalsOf(observation, loinc);
+        // One entry per measurement time, however the sender split the Observations
+        const sameTime = vitals && draft.clinical.vitals.find(v => v.measuredAt === vitals.measuredAt);
+        if (sameTime) Object.assign(sameTime, vitals);
+        else if (vitals) draft.clinical.vitals.push(vitals);
+        else warn("Vital-signs Observation with an unsupported code was skipped", item.path);
+        continue;
+      }
+
+      const testName = this.textOf(observation.code);
+      const value = observation.valueQuantity?.value !== undefined ? String(observation.valueQuantity.value) : observation.valueString;
+      if (!testName || !value) {
+        error("Observation needs a code and a valueQuantity or valueString", item.path);
+        continue;
+      }
+      const range = observation.referenceRange?.[0];
+      draft.clinical.labResults.push({
+        testName,
+        code: loinc,
+        value,
+        unit: observation.valueQuantity?.unit || range?.low?.unit || range?.high?.unit,
+        referenceLow: range?.low?.value,
+        referenceHigh: range?.high?.value,
+        referenceText: range?.text,
+        critical: observation.interpretation?.some(i => i.coding?.some(c => ["AA", "HH", "LL"].includes(c.code || ""))) || undefined,
+        collectedAt: this.dateOf(observation.effectiveDateTime),
+      });
+    }
+
+    for (const item of ofType("Immunization")) {
+      const immunization = validate(immunizationSchema, item);
+      const draft = immunization && draftFor(item, immunization.encounter);
+      if (!immunization || !draft) continue;
+      const vaccine = this.textOf(immunization.vaccineCode);
+      if (!vaccine) {
+        error("Immunization.vaccineCode needs text or a coding display", `${item.path}.vaccineCode`);
+        continue;
+      }
+      draft.clinical.immunizations.push({
+        vaccine,
+        doseNumber: immunization.protocolApplied?.[0]?.doseNumberPositiveInt,
+        lotNumber: immunization.lotNumber,
+        administeredDate: this.dateOf(immunization.occurrenceDateTime)!,
+        site: immunization.site ? this.textOf(immunization.site) : undefined,
+      });
+    }
+
+    const encounters: ImportedEncounter[] = [];
+    for (const draft of Array.from(drafts.values())) {
+      if (!draft.encounter) continue;
+      if (draft.diagnoses.length === 0) {
+        error("Every Encounter needs at least one Condition for the diagnosis", draft.item.path);
+        continue;
+      }
+      const clinical = clinicalDetailsSchema.safeParse(draft.clinical);
+      if (!clinical.success) {
+        clinical.error.issues.forEach(i => error(`Clinical details: ${i.message}`, [draft.item.path, ...i.path].join(".")));
+        continue;
+      }
+      const hasClinical = Object.values(clinical.data).some(list => list.length > 0);
+      encounters.push({
+        patientName,
+        nationalId: nationalId || "",
+        visitDate: this.dateOf(draft.encounter.period.start)!,
+        visitType: this.visitTypeOf(draft.encounter),
+        department: draft.encounter.serviceType ? this.textOf(draft.encounter.serviceType) : undefined,
+        physician: draft.encounter.participant?.find(p => p.individual?.display)?.individual?.display,
+        diagnosis: draft.diagnoses.join("; "),
+        prescription: draft.prescriptions.length ? draft.prescriptions.join("\n") : undefined,
+        icdCodes: draft.icdCodes,
+        clinical: hasClinical ? clinical.data : undefined,
+      });
+    }
+
+    const errors = issues.filter(i => i.severity === "error");
+    if (errors.length > 0) {
+      throw new FhirValidationError(issues);
+    }
+    return { encounters, warnings: issues };
+  }
+
+  private toPatient(patient: { nationalId: string; fullName: string; patientDID?: string | null }): FhirResource {
+    const identifier = [{ system: NATIONAL_ID_SYSTEM, value: patient.nationalId }];
+    if (patient.patientDID) {
+      identifier.push({ system: "urn:ietf:rfc:3986", value: patient.patientDID });
+    }
+    const parts = patient.fullName.trim().split(/\s+/);
+    return {
+      resourceType: "Patient",
+      identifier,
+      name: [{
+        text: patient.fullName,
+        ...(parts.length > 1 ? { family: parts[parts.length - 1], given: parts.slice(0, -1) } : {}),
+      }],
+    };
+  }
+
+  private addRecordResources(record: ExportRecord, patientRef: string, add: (resource: FhirResource) => string): void {
+    const subject = { reference: patientRef };
+    const visitType = (record.visitType || "").toLowerCase();
+    const classCode = visitType.includes("emergency") ? "EMER" : visitType.includes("inpatient") || visitType.includes("admission") ? "IMP" : "AMB";
+
+    const encounterRef = add({
+      resourceType: "Encounter",
+      identifier: [{ system: "urn:medibridge:record-id", value: record.id.toString() }],
+      status: "finished",
+      class: { system: ACT_CODE_SYSTEM, code: classCode },
+      ...(record.visitType ? { type: [{ text: record.visitType }] } : {}),
+      ...(record.department ? { serviceType: { text: record.department } } : {}),
+      subject,
+      ...(record.physician ? { participant: [{ individual: { display: record.physician } }] } : {}),
+      period: { start: record.visitDate },
+    });
+    const encounter = { reference: encounterRef };
+
+    const icdCodes: Array<{ icd_code?: string; code?: string; icd_description?: string; title?: string }> =
+      Array.isArray(record.icd_codes) ? record.icd_codes as any[] : [];
+    add({
+      resourceType: "Condition",
+      clinicalStatus: { coding: [{ system: CONDITION_CLINICAL_SYSTEM, code: "active" }] },
+      category: [{ coding: [{ system: "http://terminology.hl7.org/CodeSystem/condition-category", code: "encounter-diagnosis" }] }],
+      code: {
+        text: record.diagnosis,
+        coding: icdCodes
+          .filter(c => c.icd_code || c.code)
+          .map(c => ({ system: ICD11_SYSTEM, code: c.icd_code || c.code, display: c.icd_description || c.title })),
+      },
+      subject,
+      encounter,
+      recordedDate: record.visitDate,
+    });
+
+    const { allergies, medications, vitals, labResults, immunizations } = record.clinical;
+
+    if (medications.length > 0) {
+      for (const medication of medications) {
+        add({
+          resourceType: "MedicationRequest",
+          status: "active",
+          intent: "order",
+          medicationCodeableConcept: { text: medication.name },
+          subject,
+          encounter,
+          authoredOn: record.visitDate,
+          dosageInstruction: [{
+            text: [medication.dose, medication.route && MEDICATION_ROUTE_LABELS[medication.route as keyof typeof MEDICATION_ROUTE_LABELS], medication.frequency].filter(Boolean).join(" "),
+            ...(this.doseQuantityOf(medication.dose) ? { doseAndRate: [{ doseQuantity: this.doseQuantityOf(medication.dose) }] } : {}),
+            ...(medication.route ? { route: { text: MEDICATION_ROUTE_LABELS[medication.route as keyof typeof MEDICATION_ROUTE_LABELS] || medication.route } } : {}),
+            ...(medication.frequency || medication.startDate || medication.endDate ? {
+              timing: {
+                ...(medication.frequency ? { code: { text: medication.frequency } } : {}),
+                ...(medication.startDate || medication.endDate ? { repeat: { boundsPeriod: { start: medication.startDate || undefined, end: medication.endDate || undefined } } } : {}),
+              },
+            } : {}),
+          }],
+        });
+      }
+    } else if (record.prescription) {
+      // Free-text prescriptions become a single request carrying the text
+      add({
+        resourceType: "MedicationRequest",
+        status: "active",
+        intent: "order",
+        medicationCodeableConcept: { text: record.prescription },
+        subject,
+        encounter,
+        authoredOn: record.visitDate,
+        dosageInstruction: [{ text: record.prescription }],
+      });
+    }
+
+    for (const allergy of allergies) {
+      add({
+        resourceType: "AllergyIntolerance",
+        clinicalStatus: { coding: [{ system: ALLERGY_CLINICAL_SYSTEM, code: allergy.status === "resolved" ? "resolved" : "active" }] },
+        criticality: allergy.severity === "severe" || allergy.severity === "life_threatening" ? "high" : "low",
+        code: { text: allergy.substance },
+        patient: subject,
+        encounter,
+        reaction: [{
+          manifestation: [{ text: allergy.reaction || "unspecified" }],
+          severity: allergy.severity === "life_threatening" ? "severe" : allergy.severity,
+        }],
+      });
+    }
+
+    for (const v of vitals) {
+      const effectiveDateTime = v.measuredAt ? new Date(v.measuredAt).toISOString() : record.visitDate;
+      const vitalCategory = [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: "vital-signs" }] }];
+      if (v.systolic != null || v.diastolic != null) {
+        add({
+          resourceType: "Observation",
+          status: "final",
+          category: vitalCategory,
+          code: { coding: [{ system: LOINC_SYSTEM, code: BP_PANEL.code, display: "Blood pressure panel" }], text: "Blood pressure" },
+          subject,
+          encounter,
+          effectiveDateTime,
+          component: [
+            ...(v.systolic != null ? [{ code: { coding: [{ system: LOINC_SYSTEM, code: BP_PANEL.systolic, display: "Systolic blood pressure" }] }, valueQuantity: { value: v.systolic, unit: "mmHg", system: "http://unitsofmeasure.org", code: "mm[Hg]" } }] : []),
+            ...(v.diastolic != null ? [{ code: { coding: [{ system: LOINC_SYSTEM, code: BP_PANEL.diastolic, display: "Diastolic blood pressure" }] }, valueQuantity: { value: v.diastolic, unit: "mmHg", system: "http://unitsofmeasure.org", code: "mm[Hg]" } }] : []),
+          ],
+        });
+      }
+      for (const sign of VITAL_SIGN_CODES) {
+        const value = v[sign.key as keyof typeof v];
+        if (value == null) continue;
+        add({
+          resourceType: "Observation",
+          status: "final",
+          category: vitalCategory,
+          code: { coding: [{ system: LOINC_SYSTEM, code: sign.code, display: sign.display }], text: sign.display },
+          subject,
+          encounter,
+          effectiveDateTime,
+          valueQuantity: { value, unit: sign.unit, system: "http://unitsofmeasure.org", code: sign.ucum },
+        });
+      }
+    }
+
+    for (const lab of labResults) {
+      add({
+        resourceType: "Observation",
+        status: "final",
+        category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: "laboratory" }] }],
+        code: { text: lab.testName, ...(lab.code ? { coding: [{ system: LOINC_SYSTEM, code: lab.code }] } : {}) },
+        subject,
+        encounter,
+        effectiveDateTime: lab.collectedAt || record.visitDate,
+        ...(lab.numericValue != null ? { valueQuantity: { value: lab.numericValue, ...(lab.unit ? { unit: lab.unit } : {}) } } : { valueString: lab.value }),
+        ...(lab.referenceLow != null || lab.referenceHigh != null || lab.referenceText ? {
+          referenceRange: [{
+            ...(lab.referenceLow != null ? { low: { value: lab.referenceLow, ...(lab.unit ? { unit: lab.unit } : {}) } } : {}),
+            ...(lab.referenceHigh != null ? { high: { value: lab.referenceHigh, ...(lab.unit ? { unit: lab.unit } : {}) } } : {}),
+            ...(lab.referenceText ? { text: lab.referenceText } : {}),
+          }],
+        } : {}),
+        ...(lab.interpretation ? { interpretation: [{ coding: [{ system: INTERPRETATION_SYSTEM, code: INTERPRETATION_CODES[lab.interpretation] }], text: lab.interpretation }] } : {}),
+      });
+    }
+
+    for (const immunization of immunizations) {
+      add({
+        resourceType: "Immunization",
+        status: "completed",
+        vaccineCode: { text: immunization.vaccine },
+        patient: subject,
+        encounter,
+        occurrenceDateTime: immunization.administeredDate,
+        ...(immunization.lotNumber ? { lotNumber: immunization.lotNumber } : {}),
+        ...(immunization.site ? { site: { text: immunization.site } } : {}),
+        ...(immunization.doseNumber != null ? { protocolApplied: [{ doseNumberPositiveInt: immunization.doseNumber }] } : {}),
+      });
+    }
+  }
+
+  private vitalsOf(observation: z.infer<typeof observationSchema>, loinc?: string): VitalSignsEntry | null {
+    const measuredAt = observation.effectiveDateTime && !Number.isNaN(Date.parse(observation.effectiveDateTime))
+      ? new Date(observation.effectiveDateTime).toISOString()
+      : undefined;
+
+    if (loinc === BP_PANEL.code) {
+      const componentValue = (code: string) =>
+        observation.component?.find(c => c.code.coding?.some(coding => coding.code === code))?.valueQuantity?.value;
+      const systolic = componentValue(BP_PANEL.systolic);
+      const diastolic = componentValue(BP_PANEL.diastolic);
+      if (systolic === undefined && diastolic === undefined) return null;
+      return { systolic: systolic !== undefined ? Math.round(systolic) : undefined, diastolic: diastolic !== undefined ? Math.round(diastolic) : undefined, measuredAt };
+    }
+
+    const sign = VITAL_SIGN_CODES.find(s => s.code === loinc);
+    const value = observation.valueQuantity?.value;
+    if (!sign || value === undefined) return null;
+    const integerValued = ["heartRate", "respiratoryRate", "oxygenSaturation"].includes(sign.key);
+    return { [sign.key]: integerValued ? Math.round(value) : value, measuredAt } as VitalSignsEntry;
+  }
+
+  // "500 mg" as a Quantity; free-form doses ("1 tab", "2 puffs") stay in the dosage text only
+  private doseQuantityOf(dose?: string | null): { value: number; unit?: string } | undefined {
+    const match = dose?.trim().match(/^(\d+(?:\.\d+)?)\s*([a-zA-Zµ%/]+)?$/);
+    return match ? { value: Number(match[1]), ...(match[2] ? { unit: match[2] } : {}) } : undefined;
+  }
+
+  private visitTypeOf(encounter: z.infer<typeof encounterSchema>): string | undefined {
+    const typeText = encounter.type?.map(t => this.textOf(t)).find(Boolean);
+    if (typeText) return typeText;
+    switch (encounter.class?.code) {
+      case "EMER": return "emergency";
+      case "IMP": return "inpatient";
+      case "AMB": return "consultation";
+      default: return undefined;
+    }
+  }
+
+  private routeOf(route?: z.infer<typeof codeableConcept>): MedicationEntry["route"] {
+    if (!route) return undefined;
+    const text = (this.textOf(route) || "").toLowerCase();
+    const known = MEDICATION_ROUTES.find(r => r === text || MEDICATION_ROUTE_LABELS[r].toLowerCase() === text);
+    return known || (text ? "other" : undefined);
+  }
+
+  private textOf(concept: z.infer<typeof codeableConcept>): string | undefined {
+    return concept.text?.trim() || concept.coding?.find(c => c.display)?.display?.trim() || undefined;
+  }
+
+  private nameOf(name: { text?: string; given?: string[]; family?: string }): string {
+    return name.text?.trim() || [...(name.given || []), name.family].filter(Boolean).join(" ").trim();
+  }
+
+  // FHIR date or dateTime to YYYY-MM-DD
+  private dateOf(value?: string): string | undefined {
+    return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+  }
+}
+
+export const fhirService = FhirService.getInstance();
@@ -0,0 +1,315 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { emailService } from "./email-service";
+import { filecoinService } from "./filecoin-service";
+import { storageProviderService } from "./storage-provider-service";
+import { enhancedStorageService, type FileStorageResult } from "./enhanced-storage-service";
+import {
+  DEFAULT_RETENTION_POLICY,
+  EPOCHS_PER_DAY,
+  MAX_RENEWAL_LEAD_DAYS,
+  type RetentionPolicy,
+} from "@shared/filecoin-deals";
+import { isStorageProviderKind, type StoredLocation } from "@shared/storage-providers";
+import type { FilecoinDeal, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RENEWAL_CHECK_MS = 60 * 60 * 1000;
+const RETRY_INTERVAL_MS = DAY_MS; // A failed renewal is retried, and the admin told again, once a day
+const COPY_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface RenewalReport {
+  renewed: number;
+  failed: number;
+  expired: number; // Deals that lapsed without being renewed
+}
+
+/**
+ * Filecoin Deal Service
+ * Tracks a deal for every copy pinned on Pinata. Pinata makes and renews the Filecoin
+ * deals behind a pin itself, so renewal here is bookkeeping: ahead of expiry the
+ * content is checked against its hash, kept pinned and tracked for another term, for
+ * as long as the hospital's retention policy requires. Tracked deals that lapse are
+ * marked expired, and hospital admins are emailed when a renewal fails.
+ */
+class FilecoinDealService {
+  private static instance: FilecoinDealService;
+  private renewalTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance(): FilecoinDealService {
+    if (!FilecoinDealService.instance) {
+      FilecoinDealService.instance = new FilecoinDealService();
+    }
+    return FilecoinDealService.instance;
+  }
+
+  async getPolicy(hospitalKey?: string | null): Promise<RetentionPolicy> {
+    const row = hospitalKey ? await storage.getHospitalRetentionPolicy(hospitalKey) : undefined;
+    if (!row) return DEFAULT_RETENTION_POLICY;
+    return {
+      retentionYears: row.retentionYears,
+      dealDurationDays: row.dealDurationDays,
+      renewalLeadDays: row.renewalLeadDays,
+      autoRenew: row.autoRenew,
+    };
+  }
+
+  async setPolicy(admin: User, hospitalKey: string, policy: RetentionPolicy, req?: Request): Promise<RetentionPolicy> {
+    await storage.setHospitalRetentionPolicy(hospitalKey, policy, admin.id);
+
+    await auditService.logEvent({
+      eventType: "FILECOIN_RETENTION_POLICY_UPDATED",
+      actorType: "HOSPITAL_ADMIN",
+      actorId: admin.id.toString(),
+      targetType: "HOSPITAL",
+      targetId: hospitalKey,
+      action: "UPDATE",
+      outcome: "SUCCESS",
+      metadata: { ...policy },
+      severity: "warning",
+      hospital_id: admin.hospital_id,
+    }, req);
+    return policy;
+  }
+
+  /**
+   * Record a deal for each Pinata copy of newly stored content
+   */
+  async openDeals(stored: FileStorageResult, recordId: number, hospitalKey: string): Promise<FilecoinDeal[]> {
+    const policy = await this.getPolicy(hospitalKey);
+    const dealDuration = policy.dealDurationDays * EPOCHS_PER_DAY;
+    const dealCost = await filecoinService.estimateStorageCost(stored.metadata.size, dealDuration);
+    const deals: FilecoinDeal[] = [];
+
+    for (const location of stored.locations.filter(l => l.provider === 'pinata')) {
+      if (await storage.getFilecoinDealByDealId(location.ref)) continue; // Same ciphertext already under a deal
+
+      deals.push(await storage.createFilecoinDeal({
+        dealId: location.ref, // The CID serves as the first deal's ID
+        contentHash: stored.contentHash,
+        patientDID: stored.metadata.patientDID,
+        storageProvider: 'pinata',
+        dealSize: stored.metadata.size,
+        dealCost: dealCost.toFixed(8),
+        dealDuration,
+        dealStatus: 'active',
+        cid: location.ref,
+        recordId,
+        hospitalId: hospitalKey,
+        expiresAt: new Date(Date.now() + policy.dealDurationDays * DAY_MS),
+      }));
+      await storage.createStorageCost({
+        patientDID: stored.metadata.patientDID,
+        storageType: 'filecoin',
+        costAmount: dealCost.toFixed(8),
+        billingPeriod: 'one_time',
+        metadata: { dealId: location.ref, recordId, dealDuration },
+      });
+    }
+    return deals;
+  }
+
+  /**
+   * Expire lapsed deals and renew those inside their hospital's renewal window;
+   * returns null if a run is already in progress
+   */
+  async runRenewals(now: Date = new Date(), retryFailed: boolean = false): Promise<RenewalReport | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const report: RenewalReport = { renewed: 0, failed: 0, expired: 0 };
+
+      const expired = await storage.expireFilecoinDeals(now);
+      for (const deal of expired) {
+        await this.logDealEvent(deal, "FILECOIN_DEAL_EXPIRED", "EXPIRE", "SUCCESS", { expiresAt: deal.expiresAt }, "warning");
+      }
+      report.expired = expired.length;
+
+      const policies = new Map<string, RetentionPolicy>();
+      const failures: FilecoinDeal[] = [];
+      for (const deal of await storage.getExpiringFilecoinDeals(MAX_RENEWAL_LEAD_DAYS)) {
+        const key = deal.hospitalId ?? '';
+        if (!policies.has(key)) policies.set(key, await this.getPolicy(deal.hospitalId));
+        const policy = policies.get(key)!;
+
+        if (!policy.autoRenew || deal.expiresAt.getTime() - now.getTime() > policy.renewalLeadDays * DAY_MS) continue;
+        if (!retryFailed && deal.lastRenewalAttemptAt && now.getTime() - deal.lastRenewalAttemptAt.getTime() < RETRY_INTERVAL_MS) continue;
+        if (await this.retainedUntil(deal, policy) <= deal.expiresAt) continue; // Retention period ends with this deal
+
+        try {
+          await this.extendTrackedDeal(deal, policy, now);
+          report.renewed++;
+        } catch (error: any) {
+          await storage.updateFilecoinDeal(deal.id, {
+            renewalAttempts: deal.renewalAttempts + 1,
+            lastRenewalAttemptAt: now,
+            lastRenewalError: error.message,
+          });
+          await this.logDealEvent(deal, "FILECOIN_DEAL_RENEWAL_FAILED", "RENEW", "FAILURE", {
+            attempts: deal.renewalAttempts + 1,
+            expiresAt: deal.expiresAt,
+            error: error.message,
+          }, "error");
+          failures.push(deal);
+          report.failed++;
+        }
+      }
+
+      await this.notifyFailures(failures);
+      if (report.renewed + report.failed + report.expired > 0) {
+        console.log(`[FilecoinDealService] ${report.renewed} renewed, ${report.failed} failed, ${report.expired} expired`);
+      }
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Check for deals to renew every hour while the server runs
+   */
+  startRenewalSchedule(): void {
+    if (this.renewalTimer) return;
+    this.renewalTimer = setInterval(() => {
+      this.runRenewals().catch(error =>
+        console.error(`[FilecoinDealService] Renewal run failed: ${error}`)
+      );
+    }, RENEWAL_CHECK_MS);
+    this.renewalTimer.unref();
+  }
+
+  // Check a healthy replica against the content hash, make sure Pinata still holds the pin
+  // and track it for another term. No new deal is made and the pin is not billed again.
+  private async extendTrackedDeal(deal: FilecoinDeal, policy: RetentionPolicy, now: Date): Promise<FilecoinDeal> {
+    const pinata = (await storageProviderService.getProviders(deal.hospitalId)).find(p => p.kind === 'pinata');
+    if (!pinata) {
+      throw new Error('No Pinata storage provider is configured to hold the renewed deal');
+    }
+
+    const tempPath = path.join(os.tmpdir(), `renew_${crypto.randomBytes(8).toString("hex")}.enc`);
+    try {
+      const { stream } = await enhancedStorageService.openStreamWithFailover({
+        locations: await this.locationsOf(deal),
+        filecoinCid: deal.cid ?? deal.dealId,
+      });
+      await pipeline(stream, fs.createWriteStream(tempPath), { signal: AbortSignal.timeout(COPY_TIMEOUT_MS) });
+
+      if (/^[a-f0-9]{64}$/.test(deal.contentHash)) {
+        const hash = crypto.createHash("sha256");
+        for await (const chunk of fs.createReadStream(tempPath)) hash.update(chunk);
+        if (hash.digest("hex") !== deal.contentHash) {
+          throw new Error('Stored content no longer matches its hash');
+        }
+      }
+
+      const cid = await pinata.putFile(tempPath, `${deal.contentHash}.enc`, {
+        patientDID: deal.patientDID,
+        renewalOf: deal.dealId,
+      });
+      const dealDuration = policy.dealDurationDays * EPOCHS_PER_DAY;
+      const dealCost = (await filecoinService.estimateStorageCost(deal.dealSize, dealDuration)).toFixed(8);
+      const dealId = `${cid}:${now.getTime()}`; // Re-pinning returns the same CID, so each tracked term is keyed by its start
+
+      const renewed = await storage.renewFilecoinDeal(deal.id, {
+        dealId,
+        contentHash: deal.contentHash,
+        patientDID: deal.patientDID,
+        storageProvider: 'pinata',
+        dealSize: deal.dealSize,
+        dealCost,
+        dealDuration,
+        dealStatus: 'active',
+        cid,
+        recordId: deal.recordId,
+        hospitalId: deal.hospitalId,
+        expiresAt: new Date(now.getTime() + policy.dealDurationDays * DAY_MS),
+      });
+
+      await this.logDealEvent(deal, "FILECOIN_DEAL_RENEWED", "RENEW", "SUCCESS", {
+        newDealId: dealId,
+        expiresAt: renewed.expiresAt,
+        trackingOnly: true,
+      }, "info");
+      return renewed;
+    } finally {
+      fs.promises.unlink(tempPath).catch(() => {});
+    }
+  }
+
+  private async locationsOf(deal: FilecoinDeal): Promise<StoredLocation[]> {
+    const rows = await storage.getStorageLocationsByContentHash(deal.contentHash);
+    return rows
+      .filter(row => row.status === 'active')
+      .flatMap(row => isStorageProviderKind(row.storageType)
+        ? [{ provider: row.storageType, ...(row.providerId ? { providerId: row.providerId } : {}), ref: row.locationId }]
+        : []);
+  }
+
+  // Retention runs from when the record was submitted; content without a record counts from its first deal
+  private async retainedUntil(deal: FilecoinDeal, policy: RetentionPolicy): Promise<Date> {
+    const record = deal.recordId ? await storage.getPatientRecordById(deal.recordId) : undefined;
+    const until = new Date(record?.submittedAt ?? deal.createdAt ?? Date.now());
+    until.setFullYear(until.getFullYear() + policy.retentionYears);
+    return until;
+  }
+
+  // One email per admin per run, covering all of the hospital's failed deals
+  private async notifyFailures(failures: FilecoinDeal[]): Promise<void> {
+    const byHospital = new Map<number, FilecoinDeal[]>();
+    for (const deal of failures) {
+      const record = deal.recordId ? await storage.getPatientRecordById(deal.recordId) : undefined;
+      if (record?.hospital_id == null) continue;
+      byHospital.set(record.hospital_id, [...(byHospital.get(record.hospital_id) || []), deal]);
+    }
+
+    for (const [hospital_id, deals] of Array.from(byHospital.entries())) {
+      const earliest = new Date(Math.min(...deals.map(d => d.expiresAt.getTime())));
+      const admins = (await storage.getHospitalAdmins(hospital_id)).filter(admin => !!admin.email);
+      for (const admin of admins) {
+        try {
+          await emailService.sendFilecoinRenewalFailedEmail({
+            to: admin.email!,
+            hospitalName: admin.hospitalName,
+            failedCount: deals.length,
+            earliestExpiry: earliest.toISOString().slice(0, 10),
+          });
+        } catch (error) {
+          console.error(`[FilecoinDealService] Renewal failure notice to ${admin.email} failed: ${error}`);
+        }
+      }
+    }
+  }
+
+  private async logDealEvent(
+    deal: FilecoinDeal,
+    eventType: string,
+    action: string,
+    outcome: string,
+    metadata: Record<string, unknown>,
+    severity: string
+  ): Promise<void> {
+    const record = deal.recordId ? await storage.getPatientRecordById(deal.recordId) : undefined;
+    await auditService.logEvent({
+      eventType,
+      actorType: "SYSTEM",
+      actorId: "filecoin_deal_service",
+      targetType: "RECORD",
+      targetId: deal.recordId ? deal.recordId.toString() : deal.contentHash,
+      action,
+      outcome,
+      metadata: { dealId: deal.dealId, contentHash: deal.contentHash, ...metadata },
+      severity,
+      hospital_id: record?.hospital_id ?? undefined,
+    });
+  }
+}
+
+export const filecoinDealService = FilecoinDealService.getInstance();
@@ -1,24 +1,26 @@
 import type { Express } from "express";
 import { z } from "zod";
 import { enhancedStorageService } from "./enhanced-storage-service";
+import { filecoinDealService } from "./filecoin-deal-service";
 import { secureKeyVault } from "./secure-key-vault";
 import { filecoinService } from "./filecoin-service";
 import { storage } from "./storage";
 import { auditService } from "./audit-service";
 import { requireAdminAuth } from "./admin-auth-middleware";
+import { requireCapability } from "./capability-middleware";
+import { permissionService } from "./permission-service";
+import { storageScrubberService } from "./storage-scrubber-service";
+import { retentionPolicySchema } from "@shared/filecoin-deals";
 
 export function registerFilecoinRoutes(app: Express): void {
   // Store medical record with Filecoin integration
-  app.post("/api/filecoin/store-record", async (req, res) => {
+  app.post("/api/filecoin/store-record", requireCapability("submit_records"), async (req, res) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "A") {
-        return res.status(403).json({ error: "Only Hospital A can submit records" });
-      }
 
       const schema = z.object({
         patientDID: z.string(),
@@ -46,7 +48,8 @@ export function registerFilecoinRoutes(app: Express): void {
           hospitalId: user.id,
           hospitalName: user.hospitalName
         },
-        patientDID
+        patientDID,
+        permissionService.hospitalKeyFor(user)
       );
 
       // Create traditional record with Filecoin references
@@ -68,11 +71,12 @@ export function registerFilecoinRoutes(app: Express): void {
       // Update record with storage metadata
       const storageMeta: any = {
         ipfsCid: storageResult.ipfsCid,
+        locations: storageResult.locations,
+        contentHash: storageResult.contentHash,
         redundancyLevel: storageResult.redundancyLevel,
         encryptionMethod: 'AES-256-GCM',
         accessPattern,
       };
-      if (storageResult.localPath) storageMeta.localPath = storageResult.localPath;
       if (storageResult.metadata && storageResult.metadata.storedAt) storageMeta.storedAt = storageResult.metadata.storedAt;
       await storage.updateRecordFilecoin(
         patientRecord.id,
@@ -88,29 +92,9 @@ export function registerFilecoinRoutes(app: Express): void {
         console.error('[FILECOIN] Failed to persist encrypted DEK:', e);
       }
 
-      // Create storage location records
-      await storage.createStorageLocation({
-        contentHash: storageResult.ipfsCid,
-        storageType: 'ipfs',
-        locationId: storageResult.ipfsCid,
-        status: 'active'
-      });
-
-      await storage.createStorageLocation({
-        contentHash: storageResult.filecoinCid,
-        storageType: 'filecoin',
-        locationId: storageResult.filecoinCid,
-        status: 'active'
-      });
-
-      if (storageResult.localPath) {
-        await storage.createStorageLocation({
-          contentHash: storageResult.ipfsCid,
-          storageType: 'local',
-          locationId: storageResult.localPath,
-          status: 'active'
-        });
-      }
+      // Track each copy for the integrity scrubber and open Filecoin deals for the Pinata ones
+      await enhancedStorageService.trackLocations(storageResult, patientRecord.id);
+      await filecoinDealService.openDeals(storageResult, patientRecord.id, permissionService.hospitalKeyFor(user));
 
       res.status(201).json({
         message: "Record stored with Filecoin integration",
@@ -118,7 +102,7 @@ export function registerFilecoinRoutes(app: Express): void {
         storage: {
           ipfsCid: storageResult.ipfsCid,
           filecoinCid: storageResult.filecoinCid,
-          localPath: storageResult.localPath,
+          locations: storageResult.locations,
           redundancyLevel: storageResult.redundancyLevel,
           cost: storageResult.storageCost
         }
@@ -130,16 +114,13 @@ export function registerFilecoinRoutes(app: Express): void {
   });
 
   // Retrieve medical record with Filecoin failover
-  app.post("/api/filecoin/retrieve-record", async (req, res) => {
+  app.post("/api/filecoin/retrieve-record", requireCapability("lookup_records"), async (req, res) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "B") {
-        return res.status(403).json({ error: "Only Hospital B can retrieve records" });
-      }
 
       const schema = z.object({
         recordId: z.number(),
@@ -153,7 +134,8 @@ export function registerFilecoinRoutes(app: Express): void {
         return res.status(404).json({ error: "Record not found" });
       }
 
-      if (!record.ipfsHash || !record.filecoinCid) {
+      const storageMetadata = (record.storageMetadata as any) || {};
+      if (!storageMetadata.locations?.length && (!record.ipfsHash || !record.filecoinCid)) {
         return res.status(400).json({ error: "Record not stored with Filecoin integration" });
       }
 
@@ -171,12 +153,12 @@ export function registerFilecoinRoutes(app: Express): void {
       }
 
       // Retrieve with failover
-      const recordData = await enhancedStorageService.retrieveWithFailover(
-        record.ipfsHash,
-        record.filecoinCid,
-        plaintextDekHex,
-        (record.storageMetadata as any)?.localPath
-      );
+      const recordData = await enhancedStorageService.retrieveWithFailover({
+        locations: storageMetadata.locations,
+        ipfsCid: record.ipfsHash,
+        filecoinCid: record.filecoinCid,
+        localPath: storageMetadata.localPath,
+      }, plaintextDekHex);
 
       // Log access
       await auditService.logEvent({
@@ -202,7 +184,7 @@ export function registerFilecoinRoutes(app: Express): void {
           recordId: record.id,
           patientName: record.patientName,
           visitDate: record.visitDate,
-          storedAt: (record.storageMetadata as any)?.storedAt
+          storedAt: storageMetadata.storedAt
         }
       });
 
@@ -327,6 +309,76 @@ export function registerFilecoinRoutes(app: Express): void {
     }
   });
 
+  // Run an integrity scrub now instead of waiting for the hourly one
+  app.post("/api/filecoin/scrub", requireAdminAuth, async (req, res) => {
+    try {
+      const report = await storageScrubberService.runOnce();
+      if (!report) {
+        return res.status(409).json({ error: "A scrub is already running" });
+      }
+
+      res.json({
+        message: "Storage scrub completed",
+        report
+      });
+
+    } catch (error: any) {
+      return res.status(500).json({ error: `Failed to scrub storage: ${error.message}` });
+    }
+  });
+
+  // Get the hospital's retention policy, which decides how long deals are renewed
+  app.get("/api/filecoin/retention-policy", requireAdminAuth, async (req, res) => {
+    try {
+      const policy = await filecoinDealService.getPolicy(permissionService.hospitalKeyFor(req.user!));
+      res.json({
+        message: "Retention policy retrieved",
+        policy
+      });
+
+    } catch (error: any) {
+      return res.status(500).json({ error: `Failed to get retention policy: ${error.message}` });
+    }
+  });
+
+  // Update the hospital's retention policy
+  app.put("/api/filecoin/retention-policy", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = retentionPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid retention policy" });
+      }
+
+      const admin = req.user!;
+      const policy = await filecoinDealService.setPolicy(admin, permissionService.hospitalKeyFor(admin), parsed.data, req);
+      res.json({
+        message: "Retention policy updated",
+        policy
+      });
+
+    } catch (error: any) {
+      return res.status(500).json({ error: `Failed to update retention policy: ${error.message}` });
+    }
+  });
+
+  // Renew due deals now, including ones that failed within the last day
+  app.post("/api/filecoin/renew-deals", requireAdminAuth, async (req, res) => {
+    try {
+      const report = await filecoinDealService.runRenewals(new Date(), true);
+      if (!report) {
+        return res.status(409).json({ error: "A renewal run is already in progress" });
+      }
+
+      res.json({
+        message: "Deal renewal completed",
+        report
+      });
+
+    } catch (error: any) {
+      return res.status(500).json({ error: `Failed to renew deals: ${error.message}` });
+    }
+  });
+
   // Get storage strategy recommendation
   app.post("/api/filecoin/storage-strategy", async (req, res) => {
     try {
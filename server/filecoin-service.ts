@@ -5,6 +5,7 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { promisify } from 'util';
+import { Readable } from 'stream';
 
 /**
  * Filecoin Service
@@ -36,20 +37,27 @@ export interface FilecoinStorageResult {
 
 export class FilecoinService {
   private static instance: FilecoinService;
-  private client: PinataClient;
-
-  private constructor() {
-    const pinataApiKey = process.env.PINATA_API_KEY;
-    const pinataSecretApiKey = process.env.PINATA_SECRET_API_KEY;
-    const pinataJWT = process.env.PINATA_JWT;
-    
-    if (!pinataApiKey && !pinataSecretApiKey && !pinataJWT) {
-      throw new Error('Pinata credentials not set in environment');
+  private pinata: PinataClient | null = null;
+  private gatewayUrl = (process.env.PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud').replace(/\/$/, '');
+
+  private constructor() {}
+
+  // Created on first use so servers that store elsewhere can run without Pinata credentials
+  private get client(): PinataClient {
+    if (!this.pinata) {
+      const pinataApiKey = process.env.PINATA_API_KEY;
+      const pinataSecretApiKey = process.env.PINATA_SECRET_API_KEY;
+      const pinataJWT = process.env.PINATA_JWT;
+
+      if (!pinataJWT && !(pinataApiKey && pinataSecretApiKey)) {
+        throw new Error('Pinata credentials not set in environment');
+      }
+
+      this.pinata = pinataJWT
+        ? new PinataClient({ pinataJWTKey: pinataJWT })
+        : new PinataClient(pinataApiKey!, pinataSecretApiKey!);
     }
-    
-    this.client = pinataJWT
-      ? new PinataClient({ pinataJWTKey: pinataJWT })
-      : new PinataClient(pinataApiKey!, pinataSecretApiKey!);
+    return this.pinata;
   }
 
   static getInstance(): FilecoinService {
@@ -71,12 +79,25 @@ export class FilecoinService {
     const writeFile = promisify(fs.writeFile);
     const unlink = promisify(fs.unlink);
     try {
-      // Write buffer to temp file
+      // Write buffer to temp file and upload it as a stream
       await writeFile(tempPath, buffer);
-      // Create a read stream
-      const readStream = fs.createReadStream(tempPath);
+      return await this.storeFileOnFilecoin(tempPath, { ...metadata, filename });
+    } finally {
+      // Clean up temp file
+      try { await unlink(tempPath); } catch {}
+    }
+  }
+
+  /**
+   * Store a file from disk on Filecoin/IPFS via Pinata, streaming it to the upload
+   * @param filePath Path of the encrypted file
+   * @param metadata Metadata object (should include filename, patientDID, etc.)
+   */
+  async storeFileOnFilecoin(filePath: string, metadata: any) {
+    const filename = metadata.filename || path.basename(filePath);
+    try {
       // Upload to Pinata
-      const result = await this.client.pinFileToIPFS(readStream, {
+      const result = await this.client.pinFileToIPFS(fs.createReadStream(filePath), {
         pinataMetadata: {
           name: filename,
           keyvalues: {
@@ -88,8 +109,6 @@ export class FilecoinService {
           }
         }
       });
-      // Clean up temp file
-      await unlink(tempPath);
       await auditService.logEvent({
         eventType: 'FILECOIN_STORAGE',
         actorType: 'SYSTEM',
@@ -107,8 +126,6 @@ export class FilecoinService {
         provider: 'pinata',
       };
     } catch (error: any) {
-      // Clean up temp file on error
-      try { await unlink(tempPath); } catch {}
       await auditService.logEvent({
         eventType: 'FILECOIN_STORAGE',
         actorType: 'SYSTEM',
@@ -130,13 +147,24 @@ export class FilecoinService {
    * @returns Buffer of the file content
    */
   async retrieveFromFilecoin(cid: string): Promise<Buffer> {
-    const gatewayUrl = `https://gateway.pinata.cloud/ipfs/${cid}`;
+    const gatewayUrl = `${this.gatewayUrl}/ipfs/${cid}`;
     const res = await fetch(gatewayUrl);
     if (!res.ok) throw new Error('Failed to fetch from Filecoin/IPFS via Pinata');
     const arrayBuffer = await res.arrayBuffer();
     return Buffer.from(arrayBuffer);
   }
 
+  /**
+   * Stream content from Filecoin/IPFS via Pinata gateway without buffering it
+   * @param cid Content identifier (CID)
+   */
+  async openFilecoinStream(cid: string): Promise<Readable> {
+    const gatewayUrl = `${this.gatewayUrl}/ipfs/${cid}`;
+    const res = await fetch(gatewayUrl);
+    if (!res.ok || !res.body) throw new Error('Failed to fetch from Filecoin/IPFS via Pinata');
+    return Readable.fromWeb(res.body as any);
+  }
+
   /**
    * Check deal status on Filecoin network via Pinata
    * Note: Pinata provides IPFS pinning with optional Filecoin deals
@@ -149,7 +177,7 @@ export class FilecoinService {
   }> {
     try {
       // Check if CID is available via Pinata gateway
-      const gatewayUrl = `https://gateway.pinata.cloud/ipfs/${dealId}`;
+      const gatewayUrl = `${this.gatewayUrl}/ipfs/${dealId}`;
       const res = await fetch(gatewayUrl, { method: 'HEAD' });
       
       if (res.ok) {
@@ -8,6 +8,10 @@ import { applyRateLimiting, getRateLimitStats } from "./rate-limiting-service";
 import { csrfProtection, csrfTokenEndpoint, csrfHealthCheck } from "./csrf-protection-service";
 import { auditService } from "./audit-service";
 import { setupAuth } from "./auth";
+import { emergencyReviewService } from "./emergency-review-service";
+import { storageScrubberService } from "./storage-scrubber-service";
+import { filecoinDealService } from "./filecoin-deal-service";
+import { keyRotationService } from "./key-rotation-service";
 
 const app = express();
 
@@ -42,7 +46,7 @@ app.use(helmet({
 }));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' })); // Limit request body size
+app.use(express.json({ limit: '10mb', type: ['application/json', 'application/fhir+json'] })); // Limit request body size; FHIR clients send application/fhir+json
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Apply rate limiting to all API routes
@@ -111,6 +115,20 @@ app.use((req, res, next) => {
   // Register all routes (which may also apply CSRF as needed)
   const server = await registerRoutes(app);
 
+  // Remind hospital admins about post-emergency reviews nearing their deadline
+  emergencyReviewService.startReminderSchedule();
+
+  // Re-hash stored copies and repair damaged ones from a healthy replica
+  storageScrubberService.startScrubSchedule();
+
+  // Renew Filecoin deals before they lapse, for as long as each hospital retains records
+  filecoinDealService.startRenewalSchedule();
+
+  // Re-wrap stored keys in the background after a new master key version is added
+  keyRotationService.resumeOrStart().catch(error =>
+    console.error(`[KeyRotationService] Could not start key rotation: ${error}`)
+  );
+
   // Health check endpoint (excluded from rate limiting)
   app.get('/health', (req, res) => {
     res.json({
@@ -1,31 +1,27 @@
 import { auditService } from "./audit-service";
-import PinataClient from '@pinata/sdk';
-import { FilecoinService } from './filecoin-service';
+import { storageProviderService } from "./storage-provider-service";
+import { Readable } from 'stream';
 
-const pinataApiKey = process.env.PINATA_API_KEY;
-const pinataSecretApiKey = process.env.PINATA_SECRET_API_KEY;
-const pinataJWT = process.env.PINATA_JWT;
-
-const pinata = pinataJWT
-  ? new PinataClient({ pinataJWTKey: pinataJWT })
-  : (pinataApiKey && pinataSecretApiKey) ? new PinataClient(pinataApiKey, pinataSecretApiKey) : undefined;
-
-// TODO: If storage fails, test your Pinata credentials with a minimal script outside the app to confirm they work.
+// Public gateways tried when reading by CID; set IPFS_PUBLIC_GATEWAYS (comma-separated)
+// to replace them, e.g. with only in-country gateways, or to an empty string for none
+const DEFAULT_PUBLIC_GATEWAYS = [
+  "https://gateway.pinata.cloud",
+  "https://ipfs.io",
+  "https://cloudflare-ipfs.com",
+];
 
 /**
  * IPFS Redundancy Service
  * Addresses Q4: Multi-location pinning and failover handling
  * Ensures high availability with redundant storage
- * Now uses Pinata as primary storage provider
+ * Pins on every IPFS provider configured on the server (Pinata and/or a Kubo node)
  */
 export class IPFSRedundancyService {
   private static instance: IPFSRedundancyService;
-  private primaryGateway = "pinata";
-  private secondaryGateways = [
-    "https://ipfs.infura.io",
-    "https://cloudflare-ipfs.com",
-  ];
-  private localGateway = "http://localhost:8080"; // Hospital local IPFS node
+  private publicGateways = process.env.IPFS_PUBLIC_GATEWAYS !== undefined
+    ? process.env.IPFS_PUBLIC_GATEWAYS.split(',').map(g => g.trim().replace(/\/$/, '')).filter(Boolean)
+    : DEFAULT_PUBLIC_GATEWAYS;
+  private localGateway = process.env.IPFS_LOCAL_GATEWAY || "http://localhost:8080"; // Hospital local IPFS node
 
   static getInstance(): IPFSRedundancyService {
     if (!IPFSRedundancyService.instance) {
@@ -36,7 +32,7 @@ export class IPFSRedundancyService {
 
   /**
    * Store content with multi-location pinning
-   * Files are pinned on Pinata and secondary nodes for high availability
+   * Content is pinned on each configured IPFS provider for high availability
    */
   async storeWithRedundancy(
     content: string,
@@ -44,46 +40,28 @@ export class IPFSRedundancyService {
     patientDID: string
   ): Promise<RedundantStorageResult> {
     const results: StorageAttempt[] = [];
-    let primaryCID: string | null = null;
+    const providers = storageProviderService.getDefaultProviders().filter(p => p.kind === 'pinata' || p.kind === 'kubo');
 
     try {
-      // Primary storage: Pinata
-      if (!pinata) throw new Error('Pinata credentials not set');
-      const pinataResult = await pinata.pinJSONToIPFS(
-        { payload: content },
-        {
-          pinataMetadata: {
-            name: metadata.filename || 'medical_record.json',
-            keyvalues: {
-              patientDID,
-              recordType: metadata.recordType || 'medical_record',
-              storedAt: new Date().toISOString(),
-              ...metadata
-            }
-          }
-        }
-      );
-      primaryCID = pinataResult.IpfsHash;
-      results.push({
-        gateway: "pinata",
-        success: true,
-        cid: primaryCID,
-        pinned: true,
-      });
-      await auditService.logEvent({
-        eventType: "IPFS_PRIMARY_STORAGE",
-        actorType: "SYSTEM",
-        actorId: "ipfs_service",
-        targetType: "RECORD",
-        targetId: primaryCID,
-        action: "STORE",
-        outcome: "SUCCESS",
-        metadata: { patientDID, size: content.length, provider: 'pinata' },
-        severity: "info",
-      });
+      if (providers.length === 0) throw new Error('No IPFS storage provider configured');
+
+      const buffer = Buffer.from(content, 'utf8');
+      const name = metadata.filename || 'medical_record.json';
+      const keyvalues = {
+        patientDID,
+        recordType: metadata.recordType || 'medical_record',
+        storedAt: new Date().toISOString(),
+        ...metadata
+      };
 
-      // Optionally, add logic for Infura/Cloudflare/local node if you want real pinning there
-      // For now, just log the attempt
+      for (const provider of providers) {
+        try {
+          const cid = await provider.put(buffer, name, keyvalues);
+          results.push({ gateway: provider.kind, success: true, cid, pinned: true });
+        } catch (error: any) {
+          results.push({ gateway: provider.kind, success: false, error: error.message });
+        }
+      }
 
       const totalSuccessful = results.filter(r => r.success).length;
       const redundancyLevel = this.calculateRedundancyLevel(totalSuccessful);
@@ -92,53 +70,77 @@ export class IPFSRedundancyService {
         throw new Error("All IPFS storage attempts failed");
       }
 
+      const primaryCID = results.find(r => r.success)!.cid!;
+
       await auditService.logEvent({
         eventType: "IPFS_REDUNDANT_STORAGE",
         actorType: "SYSTEM",
         actorId: "ipfs_service",
         targetType: "RECORD",
-        targetId: primaryCID || "unknown",
+        targetId: primaryCID,
         action: "STORE",
-        outcome: totalSuccessful > 0 ? "SUCCESS" : "FAILURE",
+        outcome: "SUCCESS",
         metadata: {
           patientDID,
           redundancyLevel,
           successfulNodes: totalSuccessful,
           totalNodes: results.length,
-          provider: 'pinata'
+          providers: results.map(r => r.gateway)
         },
         severity: redundancyLevel === 'HIGH' ? 'info' : 'warning',
       });
 
       return {
-        cid: primaryCID || results.find(r => r.success)?.cid || '',
+        cid: primaryCID,
         redundancyLevel,
         storageResults: results,
         recommendedAction: this.getRecommendedAction(redundancyLevel),
       };
 
     } catch (error: any) {
-      console.error('[PINATA ERROR]', error && (error.response?.data || error.message || error));
+      console.error('[IPFS ERROR]', error && (error.response?.data || error.message || error));
       await auditService.logSecurityViolation({
         violationType: "IPFS_STORAGE_FAILURE",
         severity: "high",
-        details: { error: error.message, patientDID, results, pinataError: error && (error.response?.data || error.message || error) },
+        details: { error: error.message, patientDID, results },
       });
       throw error;
     }
   }
 
+  /**
+   * Open a content stream from the first gateway that responds
+   */
+  async openStreamWithFailover(cid: string): Promise<Readable> {
+    const gateways = this.gatewayUrls(cid);
+    let lastError: Error | null = null;
+
+    for (const gateway of gateways) {
+      try {
+        const response = await fetch(gateway);
+        if (!response.ok || !response.body) throw new Error(`Failed to fetch from ${gateway}`);
+        return Readable.fromWeb(response.body as any);
+      } catch (error: any) {
+        lastError = error;
+        console.log(`Failed to open stream from ${gateway}: ${error.message}`);
+      }
+    }
+
+    await auditService.logSecurityViolation({
+      violationType: "IPFS_RETRIEVAL_FAILURE",
+      severity: "high",
+      details: { cid, lastError: lastError?.message, attemptedGateways: gateways.length, streamed: true },
+    });
+
+    throw new Error(`Failed to open content stream from all IPFS gateways: ${lastError?.message}`);
+  }
+
   /**
    * Retrieve content with failover
    * Attempts multiple gateways until successful retrieval
    */
   async retrieveWithFailover(cid: string): Promise<string> {
-    const gateways = [
-      `https://gateway.pinata.cloud/ipfs/${cid}`,
-      `https://ipfs.io/ipfs/${cid}`,
-      `https://cloudflare-ipfs.com/ipfs/${cid}`,
-      this.localGateway ? `${this.localGateway}/ipfs/${cid}` : null
-    ].filter((g): g is string => typeof g === 'string');
+    const gateways = this.gatewayUrls(cid);
     let lastError: Error | null = null;
 
     for (const gateway of gateways) {
@@ -190,11 +192,9 @@ export class IPFSRedundancyService {
    * Check content availability across all nodes
    */
   async checkContentAvailability(cid: string): Promise<AvailabilityReport> {
-    const checks = await Promise.allSettled([
-      this.checkGatewayAvailability(cid, this.primaryGateway),
-      ...this.secondaryGateways.map(gateway => this.checkGatewayAvailability(cid, gateway)),
-      this.checkGatewayAvailability(cid, this.localGateway),
-    ]);
+    const checks = await Promise.allSettled(
+      this.gatewayUrls(cid).map(url => this.checkGatewayAvailability(url))
+    );
 
     const available = checks.filter(check => 
       check.status === 'fulfilled' && check.value
@@ -214,24 +214,18 @@ export class IPFSRedundancyService {
   }
 
   /**
-   * Check if content is available on specific gateway
+   * Gateway URLs for a CID: the configured public gateways, then the hospital's local node
    */
-  private async checkGatewayAvailability(cid: string, gateway: string): Promise<boolean> {
+  private gatewayUrls(cid: string): string[] {
+    return [...this.publicGateways, this.localGateway].map(gateway => `${gateway}/ipfs/${cid}`);
+  }
+
+  /**
+   * Check if content is available at a gateway URL
+   */
+  private async checkGatewayAvailability(url: string): Promise<boolean> {
     try {
       // Make a real HTTP HEAD request to check availability
-      let url = gateway;
-      if (!gateway.startsWith('http')) {
-        // If gateway is a label (e.g., 'pinata'), map to a real URL
-        switch (gateway) {
-          case 'pinata':
-            url = `https://gateway.pinata.cloud/ipfs/${cid}`;
-            break;
-          default:
-            url = `https://ipfs.io/ipfs/${cid}`;
-        }
-      } else {
-        url = `${gateway}/ipfs/${cid}`;
-      }
       const response = await fetch(url, { method: 'HEAD' });
       return response.status === 200;
     } catch {
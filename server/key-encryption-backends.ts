@@ -0,0 +1,426 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type * as Pkcs11 from 'pkcs11js';
+
+export const KEY_ENCRYPTION_BACKEND_KINDS = ['local', 'vault-transit', 'pkcs11'] as const;
+export type KeyEncryptionBackendKind = typeof KEY_ENCRYPTION_BACKEND_KINDS[number];
+
+const LEGACY_DEV_MASTER_KEY_FILE = path.resolve('dev-master.key'); // Written into the working directory before DEV_MASTER_KEY_FILE
+const DEK_ENCRYPTION_SALT = 'medbridge-dek-salt'; // Salt for KEK derivation for DEKs
+const DEK_AAD = Buffer.from('dek-encryption-context');
+const KMS_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Holds the key encryption key (KEK) that data keys are wrapped with. Wrapped keys
+ * are self-describing strings, so the backend and KEK version that produced one can
+ * be told from the string alone.
+ */
+export interface KeyEncryptionBackend {
+  readonly kind: KeyEncryptionBackendKind;
+
+  /** KEK version new wraps are made with */
+  activeKeyVersion(): Promise<number>;
+
+  /** Whether the wrapped key was produced by this backend */
+  owns(wrapped: string): boolean;
+
+  keyVersionOf(wrapped: string): number;
+
+  wrap(plaintext: Buffer): Promise<string>;
+
+  unwrap(wrapped: string): Promise<Buffer>;
+
+  /** Wrap again under the active KEK version */
+  rewrap(wrapped: string): Promise<string>;
+}
+
+/**
+ * Versioned master keys from the environment: MASTER_KEY is version 1 and
+ * MASTER_KEY_V2, MASTER_KEY_V3, ... add later versions. Wrapped keys are
+ * "[vN:]IV:Ciphertext:AuthTag", with no prefix for version 1.
+ */
+export class LocalKeyEncryptionBackend implements KeyEncryptionBackend {
+  readonly kind = 'local' as const;
+  private readonly keks = new Map<number, Buffer>(); // Cache of each version's DEK KEK
+
+  constructor(private readonly masterKeys: Map<number, Buffer>) {}
+
+  /**
+   * Master keys from the environment, or null if none are set. Outside production a
+   * development key can be generated instead, kept across restarts in DEV_MASTER_KEY_FILE
+   * (default ~/.medibridge/dev-master.key, outside the source tree).
+   */
+  static fromEnv(options: { allowDevKey: boolean }): LocalKeyEncryptionBackend | null {
+    const keys = new Map<number, Buffer>();
+    if (process.env.MASTER_KEY) {
+      keys.set(1, Buffer.from(process.env.MASTER_KEY, 'hex'));
+    }
+    for (const [name, value] of Object.entries(process.env)) {
+      const match = /^MASTER_KEY_V(\d+)$/.exec(name);
+      if (match && value && parseInt(match[1], 10) > 1) {
+        keys.set(parseInt(match[1], 10), Buffer.from(value, 'hex'));
+      }
+    }
+    if (keys.size > 0) return new LocalKeyEncryptionBackend(keys);
+    if (!options.allowDevKey) return null;
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('MASTER_KEY must be set in production to initialize SecureKeyVault');
+    }
+    const keyFile = path.resolve(process.env.DEV_MASTER_KEY_FILE || path.join(os.homedir(), '.medibridge', 'dev-master.key'));
+    if (!fs.existsSync(keyFile)) {
+      fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+      // Keep keys stored under an earlier development key readable
+      const key = fs.existsSync(LEGACY_DEV_MASTER_KEY_FILE)
+        ? fs.readFileSync(LEGACY_DEV_MASTER_KEY_FILE, 'utf8').trim()
+        : crypto.randomBytes(32).toString('hex');
+      fs.writeFileSync(keyFile, key, { mode: 0o600 });
+      if (fs.existsSync(LEGACY_DEV_MASTER_KEY_FILE)) fs.unlinkSync(LEGACY_DEV_MASTER_KEY_FILE);
+    }
+    console.warn(`[SecureKeyVault] MASTER_KEY is not set; using the development key in ${keyFile}`);
+    keys.set(1, Buffer.from(fs.readFileSync(keyFile, 'utf8').trim(), 'hex'));
+    return new LocalKeyEncryptionBackend(keys);
+  }
+
+  get keyVersions(): number[] {
+    return Array.from(this.masterKeys.keys()).sort((a, b) => a - b);
+  }
+
+  async activeKeyVersion(): Promise<number> {
+    return Math.max(...this.keyVersions);
+  }
+
+  owns(wrapped: string): boolean {
+    return /^(v\d+:)?[0-9a-f]+:[0-9a-f]*:[0-9a-f]+$/.test(wrapped);
+  }
+
+  keyVersionOf(wrapped: string): number {
+    const match = /^v(\d+):/.exec(wrapped);
+    return match ? parseInt(match[1], 10) : 1;
+  }
+
+  async wrap(plaintext: Buffer): Promise<string> {
+    const version = await this.activeKeyVersion();
+    const iv = crypto.randomBytes(12); // Recommended for AES-GCM
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.kek(version), iv);
+    cipher.setAAD(DEK_AAD);
+
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const wrapped = `${iv.toString('hex')}:${encrypted.toString('hex')}:${cipher.getAuthTag().toString('hex')}`;
+    return version > 1 ? `v${version}:${wrapped}` : wrapped;
+  }
+
+  async unwrap(wrapped: string): Promise<Buffer> {
+    const version = this.keyVersionOf(wrapped);
+    const parts = wrapped.split(':').slice(version > 1 ? 1 : 0);
+    if (parts.length !== 3) {
+      throw new Error('Invalid encrypted DEK format. Expected IV:Ciphertext:AuthTag.');
+    }
+    const [ivHex, encryptedHex, authTagHex] = parts;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.kek(version), Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+    decipher.setAAD(DEK_AAD);
+    return Buffer.concat([decipher.update(Buffer.from(encryptedHex, 'hex')), decipher.final()]);
+  }
+
+  async rewrap(wrapped: string): Promise<string> {
+    return this.wrap(await this.unwrap(wrapped));
+  }
+
+  /**
+   * Key for patient keys stored before envelope encryption, derived from the master
+   * key and the patient-specific salt
+   */
+  derivePatientKey(version: number, patientSalt: string): Buffer {
+    return crypto.pbkdf2Sync(this.masterKey(version), patientSalt, 100000, 32, 'sha256');
+  }
+
+  private masterKey(version: number): Buffer {
+    const key = this.masterKeys.get(version);
+    if (!key) {
+      throw new Error(`Master key version ${version} is not configured`);
+    }
+    return key;
+  }
+
+  private kek(version: number): Buffer {
+    let kek = this.keks.get(version);
+    if (!kek) {
+      kek = crypto.pbkdf2Sync(this.masterKey(version), DEK_ENCRYPTION_SALT, 100000, 32, 'sha256');
+      this.keks.set(version, kek);
+    }
+    return kek;
+  }
+}
+
+/**
+ * HashiCorp Vault (or OpenBao) transit secrets engine. Wrapped keys are Vault's own
+ * "vault:vN:..." ciphertext and the KEK never leaves Vault; rotating the transit key
+ * in Vault makes its new version active.
+ */
+export class VaultTransitKeyEncryptionBackend implements KeyEncryptionBackend {
+  readonly kind = 'vault-transit' as const;
+  private readonly address: string;
+
+  constructor(private readonly config: {
+    address: string;      // e.g. http://127.0.0.1:8200
+    token: string;
+    mount: string;        // Path the transit engine is mounted at
+    keyName: string;
+    namespace?: string;   // Vault Enterprise namespace
+  }) {
+    this.address = config.address.replace(/\/$/, '');
+  }
+
+  async activeKeyVersion(): Promise<number> {
+    const { data } = await this.request('GET', `keys/${this.config.keyName}`);
+    return data.latest_version;
+  }
+
+  owns(wrapped: string): boolean {
+    return /^vault:v\d+:/.test(wrapped);
+  }
+
+  keyVersionOf(wrapped: string): number {
+    const match = /^vault:v(\d+):/.exec(wrapped);
+    if (!match) {
+      throw new Error('Not a Vault transit ciphertext');
+    }
+    return parseInt(match[1], 10);
+  }
+
+  async wrap(plaintext: Buffer): Promise<string> {
+    const { data } = await this.request('POST', `encrypt/${this.config.keyName}`, { plaintext: plaintext.toString('base64') });
+    return data.ciphertext;
+  }
+
+  async unwrap(wrapped: string): Promise<Buffer> {
+    const { data } = await this.request('POST', `decrypt/${this.config.keyName}`, { ciphertext: wrapped });
+    return Buffer.from(data.plaintext, 'base64');
+  }
+
+  // Vault re-encrypts server-side, so the data key is never seen here
+  async rewrap(wrapped: string): Promise<string> {
+    const { data } = await this.request('POST', `rewrap/${this.config.keyName}`, { ciphertext: wrapped });
+    return data.ciphertext;
+  }
+
+  private async request(method: string, endpoint: string, body?: unknown): Promise<any> {
+    const headers: Record<string, string> = { 'X-Vault-Token': this.config.token };
+    if (this.config.namespace) headers['X-Vault-Namespace'] = this.config.namespace;
+    if (body) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${this.address}/v1/${this.config.mount}/${endpoint}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(KMS_REQUEST_TIMEOUT_MS),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Vault transit ${endpoint.split('/')[0]} returned ${response.status}: ${(result.errors || []).join('; ')}`);
+    }
+    return result;
+  }
+}
+
+/**
+ * AES key on a PKCS#11 token such as SoftHSM or a network HSM. Each KEK version is a
+ * secret key object labelled "<label>-v<n>", and the highest one found wraps new keys;
+ * encryption happens on the token with AES-GCM. Wrapped keys are
+ * "pkcs11:vN:IV:Ciphertext+AuthTag".
+ */
+export class Pkcs11KeyEncryptionBackend implements KeyEncryptionBackend {
+  readonly kind = 'pkcs11' as const;
+  private connecting: Promise<Pkcs11Session> | null = null;
+  private current: Pkcs11Session | null = null;
+
+  constructor(private readonly config: {
+    modulePath: string;   // e.g. /usr/lib/softhsm/libsofthsm2.so
+    tokenLabel: string;
+    pin: string;
+    keyLabel: string;
+  }) {}
+
+  async activeKeyVersion(): Promise<number> {
+    const { keys } = await this.session();
+    return Math.max(...Array.from(keys.keys()));
+  }
+
+  owns(wrapped: string): boolean {
+    return /^pkcs11:v\d+:/.test(wrapped);
+  }
+
+  keyVersionOf(wrapped: string): number {
+    const match = /^pkcs11:v(\d+):/.exec(wrapped);
+    if (!match) {
+      throw new Error('Not a PKCS#11 wrapped key');
+    }
+    return parseInt(match[1], 10);
+  }
+
+  async wrap(plaintext: Buffer): Promise<string> {
+    return this.withSession(session => {
+      const version = Math.max(...Array.from(session.keys.keys()));
+      const iv = crypto.randomBytes(12);
+
+      const { lib, mod, handle } = session;
+      lib.C_EncryptInit(handle, gcmMechanism(mod, iv), session.keys.get(version)!);
+      const encrypted = lib.C_Encrypt(handle, plaintext, Buffer.alloc(plaintext.length + 16));
+      return `pkcs11:v${version}:${iv.toString('hex')}:${encrypted.toString('hex')}`;
+    });
+  }
+
+  async unwrap(wrapped: string): Promise<Buffer> {
+    const version = this.keyVersionOf(wrapped);
+    const [ivHex, encryptedHex] = wrapped.split(':').slice(2);
+    return this.withSession(session => {
+      const key = session.keys.get(version);
+      if (!key) {
+        throw new Error(`No key labelled ${this.config.keyLabel}-v${version} on token ${this.config.tokenLabel}`);
+      }
+
+      const { lib, mod, handle } = session;
+      const encrypted = Buffer.from(encryptedHex, 'hex');
+      lib.C_DecryptInit(handle, gcmMechanism(mod, Buffer.from(ivHex, 'hex')), key);
+      return lib.C_Decrypt(handle, encrypted, Buffer.alloc(encrypted.length));
+    });
+  }
+
+  async rewrap(wrapped: string): Promise<string> {
+    return this.wrap(await this.unwrap(wrapped));
+  }
+
+  // One logged-in session shared until the token drops it; a failed login is retried on next use
+  private session(): Promise<Pkcs11Session> {
+    if (!this.connecting) {
+      this.connecting = this.connect().then(session => {
+        this.current = session;
+        return session;
+      }).catch(error => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  // The HSM can drop the session (restart, failover, token pulled); log in again once before failing
+  private async withSession<T>(operation: (session: Pkcs11Session) => T): Promise<T> {
+    const session = await this.session();
+    try {
+      return operation(session);
+    } catch (error) {
+      if (!isLostSession(session.mod, error)) throw error;
+      console.warn(`[SecureKeyVault] PKCS#11 session lost (${(error as Error).message}), logging in again`);
+      this.dropSession(session);
+      return operation(await this.session());
+    }
+  }
+
+  private dropSession(stale: Pkcs11Session): void {
+    if (this.current !== stale) return; // Another caller has already reconnected
+    this.current = null;
+    this.connecting = null;
+    try {
+      stale.lib.C_Finalize();
+    } catch {
+      // The device may already be gone
+    }
+  }
+
+  private async connect(): Promise<Pkcs11Session> {
+    // Optional dependency loaded on first use, so only hosts using an HSM need the native module
+    const imported = await import('pkcs11js').catch(() => {
+      throw new Error('The pkcs11js package must be installed to use the pkcs11 key backend');
+    });
+    const mod: Pkcs11Module = (imported as { default?: Pkcs11Module }).default ?? imported;
+    const lib = new mod.PKCS11();
+    lib.load(this.config.modulePath);
+    lib.C_Initialize();
+
+    const slot = lib.C_GetSlotList(true).find(s =>
+      lib.C_GetTokenInfo(s).label.trim() === this.config.tokenLabel
+    );
+    if (!slot) {
+      throw new Error(`PKCS#11 token ${this.config.tokenLabel} not found`);
+    }
+    const handle = lib.C_OpenSession(slot, mod.CKF_SERIAL_SESSION);
+    lib.C_Login(handle, mod.CKU_USER, this.config.pin);
+
+    const keys = new Map<number, Pkcs11.Handle>();
+    lib.C_FindObjectsInit(handle, [{ type: mod.CKA_CLASS, value: mod.CKO_SECRET_KEY }]);
+    for (let object = lib.C_FindObjects(handle); object; object = lib.C_FindObjects(handle)) {
+      const [{ value }] = lib.C_GetAttributeValue(handle, object, [{ type: mod.CKA_LABEL }]);
+      const match = new RegExp(`^${escapeRegExp(this.config.keyLabel)}-v(\\d+)$`).exec(String(value));
+      if (match) keys.set(parseInt(match[1], 10), object);
+    }
+    lib.C_FindObjectsFinal(handle);
+
+    if (keys.size === 0) {
+      throw new Error(`No key labelled ${this.config.keyLabel}-v<n> on token ${this.config.tokenLabel}`);
+    }
+    return { lib, mod, handle, keys };
+  }
+}
+
+type Pkcs11Module = typeof Pkcs11;
+
+interface Pkcs11Session {
+  lib: Pkcs11.PKCS11;
+  mod: Pkcs11Module;
+  handle: Pkcs11.Handle;
+  keys: Map<number, Pkcs11.Handle>; // Object handle of each KEK version
+}
+
+function isLostSession(mod: Pkcs11Module, error: unknown): boolean {
+  return error instanceof mod.Pkcs11Error &&
+    (error.code === mod.CKR_SESSION_HANDLE_INVALID || error.code === mod.CKR_DEVICE_REMOVED);
+}
+
+// SoftHSM 2.5+ and current HSMs take the PKCS#11 v2.40 GCM parameters
+function gcmMechanism(mod: Pkcs11Module, iv: Buffer): Pkcs11.Mechanism {
+  const parameter: Pkcs11.AesGCM = { type: mod.CK_PARAMS_AES_GCM_v240 ?? mod.CK_PARAMS_AES_GCM, iv, ivBits: iv.length * 8, tagBits: 128 };
+  return { mechanism: mod.CKM_AES_GCM, parameter };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The backend chosen by KEY_ENCRYPTION_BACKEND, 'local' by default
+ */
+export function createKeyEncryptionBackend(env: NodeJS.ProcessEnv = process.env): KeyEncryptionBackend {
+  const kind = (env.KEY_ENCRYPTION_BACKEND || 'local') as KeyEncryptionBackendKind;
+  switch (kind) {
+    case 'local':
+      return LocalKeyEncryptionBackend.fromEnv({ allowDevKey: true })!;
+    case 'vault-transit':
+      if (!env.VAULT_ADDR || !env.VAULT_TOKEN) {
+        throw new Error('VAULT_ADDR and VAULT_TOKEN must be set to use the vault-transit key backend');
+      }
+      return new VaultTransitKeyEncryptionBackend({
+        address: env.VAULT_ADDR,
+        token: env.VAULT_TOKEN,
+        mount: env.VAULT_TRANSIT_MOUNT || 'transit',
+        keyName: env.VAULT_TRANSIT_KEY || 'medbridge',
+        namespace: env.VAULT_NAMESPACE,
+      });
+    case 'pkcs11':
+      if (!env.PKCS11_MODULE || !env.PKCS11_TOKEN_LABEL || !env.PKCS11_PIN) {
+        throw new Error('PKCS11_MODULE, PKCS11_TOKEN_LABEL and PKCS11_PIN must be set to use the pkcs11 key backend');
+      }
+      return new Pkcs11KeyEncryptionBackend({
+        modulePath: env.PKCS11_MODULE,
+        tokenLabel: env.PKCS11_TOKEN_LABEL,
+        pin: env.PKCS11_PIN,
+        keyLabel: env.PKCS11_KEY_LABEL || 'medbridge-kek',
+      });
+    default:
+      throw new Error(`Unknown KEY_ENCRYPTION_BACKEND: ${kind}. Expected one of ${KEY_ENCRYPTION_BACKEND_KINDS.join(', ')}`);
+  }
+}
@@ -0,0 +1,196 @@
+import { storage, type WrappedKeySource } from "./storage";
+import { auditService } from "./audit-service";
+import { secureKeyVault } from "./secure-key-vault";
+import type { MasterKeyRotation } from "@shared/schema";
+
+const REWRAP_BATCH_SIZE = 100;
+const REWRAP_PAUSE_MS = 200; // Between batches, so the job never starves request handling
+
+export const KEY_ROTATION_STAGES = ['patient_keys', 'record_keys', 'attachment_keys', 'provider_credentials', 'claim_keys'] as const;
+export type KeyRotationStage = typeof KEY_ROTATION_STAGES[number];
+
+const WRAPPED_KEY_SOURCES: Record<Exclude<KeyRotationStage, 'patient_keys'>, WrappedKeySource> = {
+  record_keys: 'record',
+  attachment_keys: 'attachment',
+  provider_credentials: 'storage_provider',
+  claim_keys: 'claim_commitment',
+};
+
+interface BatchResult {
+  cursor: string;
+  migrated: number;
+  failed: number;
+}
+
+/**
+ * Key Rotation Service
+ * Re-wraps every stored patient key, record, attachment and claim commitment DEK and
+ * storage provider credential with the vault's active key encryption key: a new master key version, a
+ * new KMS or HSM key version, or a different key backend altogether. Runs in the background in
+ * small batches while the server handles requests, saving its stage and cursor after
+ * each batch so a restart picks up where it stopped. Rows that cannot be re-wrapped
+ * are skipped and counted, and the rotation is retried on the next start until none are
+ * left; the old key must stay configured until then.
+ */
+class KeyRotationService {
+  private static instance: KeyRotationService;
+  private running: Promise<void> | null = null;
+
+  static getInstance(): KeyRotationService {
+    if (!KeyRotationService.instance) {
+      KeyRotationService.instance = new KeyRotationService();
+    }
+    return KeyRotationService.instance;
+  }
+
+  /**
+   * Resume an interrupted rotation to the active key backend and version, or start
+   * one the first time they are seen. Returns the rotation now running, if any.
+   */
+  async resumeOrStart(): Promise<MasterKeyRotation | null> {
+    if (this.running) return null;
+
+    const backend = secureKeyVault.backendKind;
+    const targetVersion = await secureKeyVault.activeKeyVersion();
+    const latest = await storage.getLatestMasterKeyRotation();
+    let rotation: MasterKeyRotation;
+
+    if (latest?.backend === backend && latest.targetVersion === targetVersion) {
+      if (latest.status === 'completed') return null;
+      if (latest.status === 'incomplete') {
+        // Retry the keys a previous pass could not re-wrap; keys already moved are skipped
+        rotation = { ...latest, status: 'running', stage: KEY_ROTATION_STAGES[0], cursor: null, progress: {}, lastError: null };
+        await storage.updateMasterKeyRotation(rotation.id, { status: 'running', stage: rotation.stage, cursor: null, progress: {}, lastError: null });
+        await this.logStage(rotation, "KEY_ROTATION_RETRIED", "RETRY", { previousProgress: latest.progress });
+      } else {
+        rotation = { ...latest, status: 'running', lastError: null };
+        await storage.updateMasterKeyRotation(rotation.id, { status: 'running', lastError: null });
+        await this.logStage(rotation, "KEY_ROTATION_RESUMED", "RESUME", { stage: rotation.stage, cursor: rotation.cursor });
+      }
+    } else {
+      if (backend === 'local' && targetVersion === 1 && !latest) return null; // Never rotated
+      rotation = await storage.createMasterKeyRotation({
+        backend,
+        targetVersion,
+        status: 'running',
+        stage: KEY_ROTATION_STAGES[0],
+        cursor: null,
+        progress: {},
+      });
+      await this.logStage(rotation, "KEY_ROTATION_STARTED", "START", {
+        previousBackend: latest?.backend ?? 'local',
+        previousVersion: latest?.targetVersion ?? 1,
+      });
+    }
+
+    this.running = this.run(rotation).finally(() => { this.running = null; });
+    return rotation;
+  }
+
+  async getStatus(): Promise<MasterKeyRotation | undefined> {
+    return storage.getLatestMasterKeyRotation();
+  }
+
+  private async run(rotation: MasterKeyRotation): Promise<void> {
+    const progress = { ...rotation.progress };
+    let cursor = rotation.cursor;
+
+    try {
+      for (let i = Math.max(KEY_ROTATION_STAGES.indexOf(rotation.stage as KeyRotationStage), 0); i < KEY_ROTATION_STAGES.length; i++) {
+        const stage = KEY_ROTATION_STAGES[i];
+        const counts = progress[stage] ??= { migrated: 0, failed: 0 };
+
+        for (let batch = await this.rewrapBatch(stage, rotation.targetVersion, cursor); batch; batch = await this.rewrapBatch(stage, rotation.targetVersion, cursor)) {
+          counts.migrated += batch.migrated;
+          counts.failed += batch.failed;
+          cursor = batch.cursor;
+          await storage.updateMasterKeyRotation(rotation.id, { stage, cursor, progress });
+          await new Promise(resolve => setTimeout(resolve, REWRAP_PAUSE_MS));
+        }
+
+        await this.logStage(rotation, "KEY_ROTATION_STAGE_COMPLETED", "REWRAP", { stage, ...counts }, counts.failed > 0 ? "warning" : "info");
+        cursor = null;
+        if (i + 1 < KEY_ROTATION_STAGES.length) {
+          await storage.updateMasterKeyRotation(rotation.id, { stage: KEY_ROTATION_STAGES[i + 1], cursor, progress });
+        }
+      }
+
+      const failed = Object.values(progress).reduce((sum, c) => sum + c.failed, 0);
+      if (failed > 0) {
+        // Left resumable: the next resumeOrStart retries the keys still on older versions
+        await storage.updateMasterKeyRotation(rotation.id, { status: 'incomplete', lastError: `${failed} key(s) could not be re-wrapped`, progress });
+        await this.logStage(rotation, "KEY_ROTATION_INCOMPLETE", "REWRAP", { progress, failed }, "warning", "FAILURE");
+        console.warn(`[KeyRotationService] Rotation to ${rotation.backend} key v${rotation.targetVersion} left ${failed} key(s) on older versions; retrying on next start`);
+        return;
+      }
+      await storage.updateMasterKeyRotation(rotation.id, { status: 'completed', completedAt: new Date(), progress });
+      await this.logStage(rotation, "KEY_ROTATION_COMPLETED", "COMPLETE", { progress, failed }, "info");
+      console.log(`[KeyRotationService] Rotation to ${rotation.backend} key v${rotation.targetVersion} completed`);
+    } catch (error: any) {
+      await storage.updateMasterKeyRotation(rotation.id, { status: 'failed', lastError: error.message, progress });
+      await this.logStage(rotation, "KEY_ROTATION_FAILED", "REWRAP", { cursor, progress, error: error.message }, "error", "FAILURE");
+      console.error(`[KeyRotationService] Rotation to ${rotation.backend} key v${rotation.targetVersion} stopped: ${error.message}`);
+    }
+  }
+
+  // Null once the stage has no rows left after the cursor
+  private async rewrapBatch(stage: KeyRotationStage, targetVersion: number, cursor: string | null): Promise<BatchResult | null> {
+    const result: BatchResult = { cursor: cursor ?? '', migrated: 0, failed: 0 };
+
+    if (stage === 'patient_keys') {
+      const rows = await storage.getPatientKeysForRewrap(secureKeyVault.backendKind, targetVersion, cursor, REWRAP_BATCH_SIZE);
+      if (rows.length === 0) return null;
+
+      for (const row of rows) {
+        try {
+          const wrapped = await secureKeyVault.rewrapPatientKey(row.patientDid, row);
+          if (await storage.updatePatientKeyWrap(row.patientDid, row, wrapped)) result.migrated++;
+        } catch (error) {
+          console.error(`[KeyRotationService] Could not re-wrap key for ${row.patientDid}: ${error}`);
+          result.failed++;
+        }
+      }
+      result.cursor = rows[rows.length - 1].patientDid;
+      return result;
+    }
+
+    const source = WRAPPED_KEY_SOURCES[stage];
+    const rows = await storage.getWrappedKeys(source, cursor ? parseInt(cursor, 10) : 0, REWRAP_BATCH_SIZE);
+    if (rows.length === 0) return null;
+
+    for (const row of rows.filter(r => secureKeyVault.needsRewrap(r.wrapped, targetVersion))) {
+      try {
+        const wrapped = await secureKeyVault.rewrapDataKey(row.wrapped);
+        if (await storage.updateWrappedKey(source, row.id, row.wrapped, wrapped)) result.migrated++;
+      } catch (error) {
+        console.error(`[KeyRotationService] Could not re-wrap ${source} ${row.id}: ${error}`);
+        result.failed++;
+      }
+    }
+    result.cursor = rows[rows.length - 1].id.toString();
+    return result;
+  }
+
+  private async logStage(
+    rotation: MasterKeyRotation,
+    eventType: string,
+    action: string,
+    metadata: Record<string, unknown>,
+    severity: string = "warning",
+    outcome: string = "SUCCESS"
+  ): Promise<void> {
+    await auditService.logEvent({
+      eventType,
+      actorType: "SYSTEM",
+      actorId: "key_rotation_service",
+      targetType: "MASTER_KEY",
+      targetId: `${rotation.backend}:v${rotation.targetVersion}`,
+      action,
+      outcome,
+      metadata: { rotationId: rotation.id, ...metadata },
+      severity,
+    });
+  }
+}
+
+export const keyRotationService = KeyRotationService.getInstance();
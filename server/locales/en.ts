@@ -0,0 +1,168 @@
+// English is the reference catalog: every key exists here and every other locale
+// must use the same {placeholders}. Keys prefixed "ussd." must fit a 182-char screen.
+export const en = {
+  'language.name': 'English',
+
+  // USSD navigation
+  'ussd.back': 'Back',
+  'ussd.more': 'More',
+  'ussd.invalid': 'Invalid option.',
+  'ussd.unavailable': 'Service temporarily unavailable. Please try again.',
+  'ussd.yes': 'Yes',
+  'ussd.no': 'No',
+
+  // USSD main menu
+  'ussd.main.title': 'Welcome to MediBridge',
+  'ussd.main.prove': 'Prove Health Status',
+  'ussd.main.emergencyProof': 'Emergency Proof',
+  'ussd.main.myProofs': 'My Proofs',
+  'ussd.main.feedback': 'Give Feedback (Get Airtime)',
+  'ussd.main.help': 'Help & Language',
+  'ussd.main.emergency': 'Emergency',
+  'ussd.main.guardian': 'Act for Someone',
+  'ussd.main.correction': 'Report a Record Error',
+
+  // USSD proof sharing
+  'ussd.proofType.title': 'Select proof to share:',
+  'ussd.proofType.hiv': 'HIV Negative (last 90 days)',
+  'ussd.proofType.vaccination': 'Vaccination Proof',
+  'ussd.proofType.insurance': 'Insurance/Subsidy Status',
+  'ussd.proofType.chw': 'Community Health Worker ID',
+  'ussd.recipient.title': 'Select recipient:',
+  'ussd.recipient.employer': 'Employer',
+  'ussd.recipient.partner': 'Partner',
+  'ussd.recipient.clinic': 'Clinic',
+  'ussd.recipient.ngo': 'NGO / Program',
+  'ussd.share.confirm': 'Confirm share? (No personal details are shared)',
+  'ussd.share.cancel': 'Cancel',
+  'ussd.share.success': "Success! Proof shared securely.\nYou've earned {amount} KES airtime. Thank you.",
+  'ussd.share.failed': 'Sorry, unable to share proof. Please try again.',
+  'ussd.cancelled': 'Cancelled.',
+
+  // USSD emergency
+  'ussd.emergency.sent': "Emergency proof sent.\nYour contact has been notified.\nYou'll be contacted shortly.",
+  'ussd.emergency.failed': 'Emergency service temporarily unavailable. Please contact support.',
+
+  // USSD visits
+  'ussd.visits.title': 'Your Recent Visits:',
+  'ussd.visits.empty': 'No proofs found for your number.',
+  'ussd.visit.header': 'Proofs for visit on {date}:',
+  'ussd.visit.code': 'Code: {code}',
+  'ussd.visit.resend': 'Resend Code via SMS',
+  'ussd.visit.resent': 'Code resent via SMS.',
+
+  // USSD record corrections
+  'ussd.correction.title': 'Which visit has an error?',
+  'ussd.correction.empty': 'No records found for your number.',
+  'ussd.correction.describe': 'Describe what is wrong with this record:',
+  'ussd.correction.tooShort': 'Please describe the error in at least 10 characters.',
+  'ussd.correction.sent': 'Request sent to {hospital}. You will get an SMS with the outcome.',
+  'ussd.correction.duplicate': 'You already have an open request for this record.',
+  'ussd.correction.failed': 'Sorry, unable to send your request. Please try again.',
+
+  // USSD feedback
+  'ussd.feedback.title': 'Help us improve!\nHow satisfied are you with MediBridge?',
+  'ussd.feedback.verySatisfied': 'Very Satisfied',
+  'ussd.feedback.satisfied': 'Satisfied',
+  'ussd.feedback.neutral': 'Neutral',
+  'ussd.feedback.unsatisfied': 'Unsatisfied',
+  'ussd.feedback.recommend': 'Would you recommend us to others?',
+  'ussd.feedback.thanks': "Thank you!\nYou've earned {amount} KES airtime.",
+  'ussd.feedback.pending': 'Thank you for feedback. Airtime will be sent shortly.',
+
+  // USSD language
+  'ussd.language.title': 'Choose your preferred language:',
+  'ussd.language.saved': 'Language preference saved.',
+
+  // USSD PIN
+  'ussd.pin.create': 'Create a 4-digit PIN to protect your proofs:',
+  'ussd.pin.format': 'PIN must be 4 digits.',
+  'ussd.pin.confirm': 'Confirm your new PIN:',
+  'ussd.pin.mismatch': 'PINs did not match.',
+  'ussd.pin.saved': 'PIN saved.',
+  'ussd.pin.enter': 'Enter your PIN:\n99. Forgot PIN',
+  'ussd.pin.wrong': 'Wrong PIN. {attempts} attempt(s) left.',
+  'ussd.pin.locked': 'Too many wrong PINs. Try again after {minutes} minutes or reset your PIN.',
+  'ussd.pin.resetCode': 'Enter the 6-digit reset code sent by SMS:',
+  'ussd.pin.resetFormat': 'Code must be 6 digits.',
+  'ussd.pin.resetInvalid': 'Invalid or expired reset code.',
+
+  // USSD guardian (consent delegation)
+  'ussd.guardian.patients': 'Who are you acting for?',
+  'ussd.guardian.none': 'You are not registered as a guardian for anyone.',
+  'ussd.guardian.requests': 'Access requests for {name}:',
+  'ussd.guardian.noRequests': 'No pending requests for {name}.',
+  'ussd.guardian.request': "{hospital} asks to see {name}'s records.",
+  'ussd.guardian.approve': 'Approve for {hours} hours',
+  'ussd.guardian.deny': 'Deny',
+  'ussd.guardian.approved': 'Access granted to {hospital} for {hours} hours.',
+  'ussd.guardian.denied': 'Request denied.',
+  'ussd.guardian.ended': 'Your guardian access for this person has ended.',
+
+  // SMS
+  'sms.otp': 'Your MediBridge verification code is: {code}. Valid for {minutes} minutes. Do not share this code with anyone.',
+  'sms.visitCode': 'MediBridge: Your code for your visit on {date} is {code}. Use this code to share your medical proofs.',
+  'sms.emergencyConsent': 'URGENT: {name}, you are listed as {relationship} for a patient requiring emergency medical care at {hospital}. Verification code: {code}. Please respond immediately.',
+  'sms.welcome': 'Welcome to MediBridge! Your patient DID is: {did}. You can now securely access and manage your medical records.',
+  'sms.visitReady': 'MediBridge: Your medical proofs for your recent hospital visit are ready!\nYour code: {code}\nValid for {days} days.\nTo retrieve or share your proofs, dial {ussdCode}.',
+  'sms.visitReadyNamed': 'MediBridge: Hello {name}, your medical proofs for your recent hospital visit are ready!\nYour code: {code}\nValid for {days} days.\nTo retrieve or share your proofs, dial {ussdCode}.',
+  'sms.proofShared': 'MediBridge: Patient verified as {statement}. No personal information shared.',
+  'sms.emergencyAuthorized': 'URGENT: Patient has valid health proof. Emergency treatment authorized.',
+  'sms.emergencyReviewApproved': 'MediBridge: {hospital} used emergency access to your records on {date}. A review confirmed the access was justified. Log in to see what was viewed.',
+  'sms.emergencyReviewFlagged': 'MediBridge: {hospital} used emergency access to your records on {date}. A review found the access was not justified and it has been escalated. Log in to see what was viewed.',
+  'sms.correctionAccepted': 'MediBridge: {hospital} accepted your correction request for your visit on {date} and updated the record. Log in to see the changes.',
+  'sms.correctionRejected': 'MediBridge: {hospital} did not change your record for the visit on {date}. Reason: {reason}',
+
+  // Email
+  'email.otp.subject': 'MediBridge - Your OTP Code',
+  'email.otp.heading': 'MediBridge Healthcare System',
+  'email.otp.intro': 'Your OTP code for authentication is:',
+  'email.otp.expires': 'This code will expire in {minutes} minutes.',
+  'email.otp.ignore': "If you didn't request this code, please ignore this email.",
+  'email.otp.footer': 'This is an automated message from MediBridge Healthcare System.',
+  'email.welcome.subject': 'Welcome to MediBridge - Your Digital Identity is Ready',
+  'email.welcome.heading': 'Welcome to MediBridge!',
+  'email.welcome.created': 'Your digital identity has been successfully created.',
+  'email.welcome.did': 'Your Digital Identity (DID):',
+  'email.welcome.canNow': 'You can now:',
+  'email.welcome.records': 'Access your medical records securely',
+  'email.welcome.consent': 'Grant consent to healthcare providers',
+  'email.welcome.privacy': 'Manage your privacy settings',
+  'email.welcome.thanks': 'Thank you for choosing MediBridge for your healthcare needs!',
+  'email.emergency.subject': 'URGENT: Emergency Medical Consent Required - {hospital}',
+  'email.emergency.heading': 'EMERGENCY MEDICAL CONSENT REQUIRED',
+  'email.emergency.greeting': 'Dear {name},',
+  'email.emergency.intro': 'This is an urgent notification from {hospital} regarding a medical emergency involving your {relationship}.',
+  'email.emergency.details': 'Emergency Details:',
+  'email.emergency.type': 'Emergency Type:',
+  'email.emergency.hospital': 'Hospital:',
+  'email.emergency.phone': 'Contact Phone:',
+  'email.emergency.useCode': 'To provide consent for emergency medical treatment, please use the following verification code:',
+  'email.emergency.contact': 'Please contact the hospital immediately with this verification code to provide consent.',
+  'email.emergency.important': 'Important:',
+  'email.emergency.critical': 'This consent is required for emergency medical treatment. Time is critical.',
+  'email.emergency.footer': 'This is an automated emergency notification from {hospital}.',
+  'email.emergencyReview.subject': 'MediBridge - {count} emergency access review(s) due',
+  'email.emergencyReview.heading': 'Post-Emergency Reviews Pending',
+  'email.emergencyReview.intro': '{count} break-glass access(es) at {hospital} still need a post-emergency review.',
+  'email.emergencyReview.overdue': '{count} of them are past their review deadline.',
+  'email.emergencyReview.action': 'Open the Emergency Reviews tab of the admin dashboard to approve each access or flag it as misuse.',
+  'email.filecoinRenewal.subject': 'MediBridge - {count} Filecoin deal(s) could not be renewed',
+  'email.filecoinRenewal.heading': 'Filecoin Deal Renewal Failed',
+  'email.filecoinRenewal.intro': '{count} Filecoin storage deal(s) for records at {hospital} could not be renewed. Renewal is retried daily until the deal expires.',
+  'email.filecoinRenewal.expiry': 'The first of them expires on {date}.',
+  'email.filecoinRenewal.action': 'Check that the hospital\'s Pinata storage is reachable, then use Renew Now in the Storage tab of the admin dashboard.',
+  'email.correction.subject': 'MediBridge - Update on your record correction request',
+  'email.correction.heading': 'Record Correction Request',
+  'email.correction.greeting': 'Dear {name},',
+  'email.correction.accepted': '{hospital} reviewed your request about your visit on {date} and corrected the record.',
+  'email.correction.rejected': '{hospital} reviewed your request about your visit on {date} and did not change the record.',
+  'email.correction.request': 'Your request:',
+  'email.correction.response': 'Hospital response:',
+  'email.correction.footer': 'Log in to the MediBridge patient portal to view the record and its history.',
+} satisfies Record<string, string>;
+
+export type MessageKey = keyof typeof en;
+
+// Other locales may omit keys; missing ones fall back along the locale's chain
+export type LocaleMessages = Partial<Record<MessageKey, string>>;
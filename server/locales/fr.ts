@@ -0,0 +1,141 @@
+import type { LocaleMessages } from './en';
+
+// Accents are left out so USSD and SMS texts stay within the GSM 7-bit alphabet
+export const fr: LocaleMessages = {
+  'language.name': 'Francais',
+
+  'ussd.back': 'Retour',
+  'ussd.more': 'Suite',
+  'ussd.invalid': 'Option invalide.',
+  'ussd.unavailable': 'Service temporairement indisponible. Veuillez reessayer.',
+  'ussd.yes': 'Oui',
+  'ussd.no': 'Non',
+
+  'ussd.main.title': 'Bienvenue sur MediBridge',
+  'ussd.main.prove': 'Prouver mon etat de sante',
+  'ussd.main.emergencyProof': "Preuve d'urgence",
+  'ussd.main.myProofs': 'Mes preuves',
+  'ussd.main.feedback': 'Donner mon avis (credit offert)',
+  'ussd.main.help': 'Aide & Langue',
+  'ussd.main.emergency': 'Urgence',
+  'ussd.main.guardian': 'Agir pour un proche',
+  'ussd.main.correction': 'Signaler une erreur',
+
+  'ussd.proofType.title': 'Choisissez la preuve a partager:',
+  'ussd.proofType.hiv': 'VIH negatif (90 derniers jours)',
+  'ussd.proofType.vaccination': 'Preuve de vaccination',
+  'ussd.proofType.insurance': 'Assurance/Subvention',
+  'ussd.proofType.chw': 'ID agent de sante communautaire',
+  'ussd.recipient.title': 'Choisissez le destinataire:',
+  'ussd.recipient.employer': 'Employeur',
+  'ussd.recipient.partner': 'Partenaire',
+  'ussd.recipient.clinic': 'Clinique',
+  'ussd.recipient.ngo': 'ONG / Programme',
+  'ussd.share.confirm': 'Confirmer le partage? (Aucune donnee personnelle partagee)',
+  'ussd.share.cancel': 'Annuler',
+  'ussd.share.success': 'Preuve partagee en toute securite.\nVous avez gagne {amount} KES de credit. Merci.',
+  'ussd.share.failed': 'Desole, partage impossible. Veuillez reessayer.',
+  'ussd.cancelled': 'Annule.',
+
+  'ussd.emergency.sent': "Preuve d'urgence envoyee.\nVotre contact a ete prevenu.\nVous serez contacte rapidement.",
+  'ussd.emergency.failed': "Service d'urgence indisponible. Contactez l'assistance.",
+
+  'ussd.visits.title': 'Vos visites recentes:',
+  'ussd.visits.empty': 'Aucune preuve pour votre numero.',
+  'ussd.visit.header': 'Preuves de la visite du {date}:',
+  'ussd.visit.code': 'Code: {code}',
+  'ussd.visit.resend': 'Renvoyer le code par SMS',
+  'ussd.visit.resent': 'Code renvoye par SMS.',
+  'ussd.correction.title': 'Quelle visite contient une erreur?',
+  'ussd.correction.empty': 'Aucun dossier pour votre numero.',
+  'ussd.correction.describe': "Decrivez l'erreur dans ce dossier:",
+  'ussd.correction.tooShort': "Decrivez l'erreur en au moins 10 caracteres.",
+  'ussd.correction.sent': 'Demande envoyee a {hospital}. Vous recevrez le resultat par SMS.',
+  'ussd.correction.duplicate': 'Une demande est deja en cours pour ce dossier.',
+  'ussd.correction.failed': "Desole, impossible d'envoyer votre demande. Veuillez reessayer.",
+
+  'ussd.feedback.title': 'Aidez-nous a progresser!\nEtes-vous satisfait de MediBridge?',
+  'ussd.feedback.verySatisfied': 'Tres satisfait',
+  'ussd.feedback.satisfied': 'Satisfait',
+  'ussd.feedback.neutral': 'Neutre',
+  'ussd.feedback.unsatisfied': 'Insatisfait',
+  'ussd.feedback.recommend': 'Nous recommanderiez-vous?',
+  'ussd.feedback.thanks': 'Merci!\nVous avez gagne {amount} KES de credit.',
+  'ussd.feedback.pending': 'Merci pour votre avis. Le credit sera envoye bientot.',
+
+  'ussd.language.title': 'Choisissez votre langue:',
+  'ussd.language.saved': 'Langue enregistree.',
+
+  'ussd.pin.create': 'Creez un code PIN a 4 chiffres pour proteger vos preuves:',
+  'ussd.pin.format': 'Le PIN doit comporter 4 chiffres.',
+  'ussd.pin.confirm': 'Confirmez votre nouveau PIN:',
+  'ussd.pin.mismatch': 'Les PIN ne correspondent pas.',
+  'ussd.pin.saved': 'PIN enregistre.',
+  'ussd.pin.enter': 'Saisissez votre PIN:\n99. PIN oublie',
+  'ussd.pin.wrong': 'PIN incorrect. {attempts} essai(s) restant(s).',
+  'ussd.pin.locked': 'Trop de PIN incorrects. Reessayez dans {minutes} minutes ou reinitialisez votre PIN.',
+  'ussd.pin.resetCode': 'Saisissez le code a 6 chiffres recu par SMS:',
+  'ussd.pin.resetFormat': 'Le code doit comporter 6 chiffres.',
+  'ussd.pin.resetInvalid': 'Code invalide ou expire.',
+
+  'ussd.guardian.patients': 'Pour qui agissez-vous?',
+  'ussd.guardian.none': "Vous n'etes tuteur de personne.",
+  'ussd.guardian.requests': "Demandes d'acces pour {name}:",
+  'ussd.guardian.noRequests': 'Aucune demande en attente pour {name}.',
+  'ussd.guardian.request': '{hospital} demande a voir le dossier de {name}.',
+  'ussd.guardian.approve': 'Accepter pour {hours} heures',
+  'ussd.guardian.deny': 'Refuser',
+  'ussd.guardian.approved': 'Acces accorde a {hospital} pour {hours} heures.',
+  'ussd.guardian.denied': 'Demande refusee.',
+  'ussd.guardian.ended': 'Votre acces de tuteur pour cette personne a pris fin.',
+
+  'sms.otp': 'Votre code de verification MediBridge est: {code}. Valable {minutes} minutes. Ne le partagez avec personne.',
+  'sms.visitCode': 'MediBridge: le code de votre visite du {date} est {code}. Utilisez-le pour partager vos preuves medicales.',
+  'sms.emergencyConsent': "URGENT: {name}, vous etes indique comme {relationship} d'un patient necessitant des soins d'urgence a {hospital}. Code de verification: {code}. Repondez immediatement.",
+  'sms.welcome': 'Bienvenue sur MediBridge! Votre DID patient est: {did}. Vous pouvez maintenant consulter et gerer vos dossiers medicaux en toute securite.',
+  'sms.visitReady': 'MediBridge: Les preuves medicales de votre derniere visite sont pretes!\nVotre code: {code}\nValable {days} jours.\nPour les consulter ou les partager, composez {ussdCode}.',
+  'sms.visitReadyNamed': 'MediBridge: Bonjour {name}, les preuves medicales de votre derniere visite sont pretes!\nVotre code: {code}\nValable {days} jours.\nPour les consulter ou les partager, composez {ussdCode}.',
+  'sms.proofShared': 'MediBridge: Patient verifie: {statement}. Aucune donnee personnelle partagee.',
+  'sms.emergencyAuthorized': "URGENT: Le patient a une preuve de sante valide. Traitement d'urgence autorise.",
+  'sms.emergencyReviewApproved': "MediBridge: {hospital} a utilise l'acces d'urgence a vos dossiers le {date}. Un examen a confirme que l'acces etait justifie. Connectez-vous pour voir ce qui a ete consulte.",
+  'sms.emergencyReviewFlagged': "MediBridge: {hospital} a utilise l'acces d'urgence a vos dossiers le {date}. Un examen a conclu que l'acces n'etait pas justifie et l'a signale. Connectez-vous pour voir ce qui a ete consulte.",
+  'sms.correctionAccepted': 'MediBridge: {hospital} a accepte votre demande de correction pour la visite du {date} et a mis a jour le dossier. Connectez-vous pour voir les changements.',
+  'sms.correctionRejected': "MediBridge: {hospital} n'a pas modifie votre dossier de la visite du {date}. Motif: {reason}",
+
+  'email.otp.subject': 'MediBridge - Votre code OTP',
+  'email.otp.heading': 'Systeme de sante MediBridge',
+  'email.otp.intro': "Votre code OTP d'authentification est:",
+  'email.otp.expires': 'Ce code expirera dans {minutes} minutes.',
+  'email.otp.ignore': "Si vous n'avez pas demande ce code, ignorez cet e-mail.",
+  'email.otp.footer': 'Ceci est un message automatique du systeme de sante MediBridge.',
+  'email.welcome.subject': 'Bienvenue sur MediBridge - Votre identite numerique est prete',
+  'email.welcome.heading': 'Bienvenue sur MediBridge!',
+  'email.welcome.created': 'Votre identite numerique a ete creee avec succes.',
+  'email.welcome.did': 'Votre identite numerique (DID):',
+  'email.welcome.canNow': 'Vous pouvez maintenant:',
+  'email.welcome.records': 'Consulter vos dossiers medicaux en toute securite',
+  'email.welcome.consent': 'Donner votre consentement aux professionnels de sante',
+  'email.welcome.privacy': 'Gerer vos parametres de confidentialite',
+  'email.welcome.thanks': "Merci d'avoir choisi MediBridge pour vos besoins de sante!",
+  'email.emergency.subject': "URGENT: Consentement medical d'urgence requis - {hospital}",
+  'email.emergency.heading': "CONSENTEMENT MEDICAL D'URGENCE REQUIS",
+  'email.emergency.greeting': 'Cher/Chere {name},',
+  'email.emergency.intro': "Ceci est une notification urgente de {hospital} concernant une urgence medicale impliquant votre {relationship}.",
+  'email.emergency.details': "Details de l'urgence:",
+  'email.emergency.type': "Type d'urgence:",
+  'email.emergency.hospital': 'Hopital:',
+  'email.emergency.phone': 'Telephone de contact:',
+  'email.emergency.useCode': "Pour consentir au traitement d'urgence, utilisez le code de verification suivant:",
+  'email.emergency.contact': "Veuillez contacter l'hopital immediatement avec ce code pour donner votre consentement.",
+  'email.emergency.important': 'Important:',
+  'email.emergency.critical': "Ce consentement est requis pour le traitement d'urgence. Chaque minute compte.",
+  'email.emergency.footer': "Ceci est une notification d'urgence automatique de {hospital}.",
+  'email.correction.subject': 'MediBridge - Suite donnee a votre demande de correction',
+  'email.correction.heading': 'Demande de correction de dossier',
+  'email.correction.greeting': 'Bonjour {name},',
+  'email.correction.accepted': '{hospital} a examine votre demande concernant la visite du {date} et a corrige le dossier.',
+  'email.correction.rejected': "{hospital} a examine votre demande concernant la visite du {date} et n'a pas modifie le dossier.",
+  'email.correction.request': 'Votre demande:',
+  'email.correction.response': "Reponse de l'hopital:",
+  'email.correction.footer': "Connectez-vous au portail patient MediBridge pour consulter le dossier et son historique.",
+};
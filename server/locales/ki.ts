@@ -0,0 +1,80 @@
+import type { LocaleMessages } from './en';
+
+// Gikuyu. Tildes on i/u are dropped for GSM 7-bit handsets; email texts fall back to Kiswahili.
+export const ki: LocaleMessages = {
+  'language.name': 'Gikuyu',
+
+  'ussd.back': 'Cooka Thutha',
+  'ussd.more': 'Ingi',
+  'ussd.invalid': 'Ucio ti wa ma.',
+  'ussd.unavailable': 'Utungata ndurakinyika riu. Geria ringi.',
+  'ussd.yes': 'Iini',
+  'ussd.no': 'Aca',
+
+  'ussd.main.title': 'Wamukirwo MediBridge',
+  'ussd.main.prove': 'Onania Ugima wa Mwiri',
+  'ussd.main.emergencyProof': 'Uira wa Ugwati',
+  'ussd.main.myProofs': 'Uira Wakwa',
+  'ussd.main.feedback': 'Heana Woni (Kwamukira Airtime)',
+  'ussd.main.help': 'Uteithio & Ruthiomi',
+  'ussd.main.emergency': 'Ugwati',
+
+  'ussd.proofType.title': 'Thuura uira wa kuheana:',
+  'ussd.proofType.hiv': 'HIV Ti Muri (thiku 90)',
+  'ussd.proofType.vaccination': 'Uira wa Kuhurwo Ndawa',
+  'ussd.proofType.insurance': 'Bima/Uteithio',
+  'ussd.proofType.chw': 'Kiandiko kia Muruti wa Ugima',
+  'ussd.recipient.title': 'Thuura ukwamukira:',
+  'ussd.recipient.employer': 'Mwandiki wa Wira',
+  'ussd.recipient.partner': 'Muthuri/Mutumia',
+  'ussd.recipient.clinic': 'Kiliniki',
+  'ussd.recipient.ngo': 'NGO / Mubango',
+  'ussd.share.confirm': 'Itikira guheana? (Gutiri uhoro waku wa mwene uraheanwo)',
+  'ussd.share.cancel': 'Tiga',
+  'ussd.share.success': 'Niwahota! Uira niwaheanwo na ugitiri.\nNiwagia airtime ya KES {amount}. Ni wega.',
+  'ussd.share.failed': 'Tuthiriirwo, uira ndurahota guheanwo. Geria ringi.',
+  'ussd.cancelled': 'Niwatigwo.',
+
+  'ussd.emergency.sent': 'Uira wa ugwati niwatumwo.\nMundu waku niamenyithitio.\nNiukuhurirwo thimu narua.',
+  'ussd.emergency.failed': 'Utungata wa ugwati ndurakinyika. Hurira uteithio.',
+
+  'ussd.visits.title': 'Ceera Ciaku cia Hingo Ino:',
+  'ussd.visits.empty': 'Gutiri uira wonekete wa namba yaku.',
+  'ussd.visit.header': 'Uira wa ceera ya {date}:',
+  'ussd.visit.code': 'Namba: {code}',
+  'ussd.visit.resend': 'Tuma Namba Ringi na SMS',
+  'ussd.visit.resent': 'Namba niyatumwo ringi na SMS.',
+
+  'ussd.feedback.title': 'Uteithie gutheremia!\nMediBridge ikugenagia atia?',
+  'ussd.feedback.verySatisfied': 'Ngenete Muno',
+  'ussd.feedback.satisfied': 'Ngenete',
+  'ussd.feedback.neutral': 'Ndi Gatagati',
+  'ussd.feedback.unsatisfied': 'Ndiagenete',
+  'ussd.feedback.recommend': 'No ukiuge andu angi matuhuthire?',
+  'ussd.feedback.thanks': 'Ni wega!\nNiwagia airtime ya KES {amount}.',
+  'ussd.feedback.pending': 'Ni wega niundu wa woni. Airtime niigutumwo narua.',
+
+  'ussd.language.title': 'Thuura ruthiomi:',
+  'ussd.language.saved': 'Ruthiomi niruigitwo.',
+
+  'ussd.pin.create': 'Thondeka PIN ya namba 4 ya kugitira uira waku:',
+  'ussd.pin.format': 'PIN no nginya ikorwo na namba 4.',
+  'ussd.pin.confirm': 'Itikira PIN yaku njeru:',
+  'ussd.pin.mismatch': 'PIN itiraiganania.',
+  'ussd.pin.saved': 'PIN niyaigwo.',
+  'ussd.pin.enter': 'Ikira PIN yaku:\n99. Ndiriganiirwo ni PIN',
+  'ussd.pin.wrong': 'PIN ti njagiriru. Magerio {attempts} nimatigaru.',
+  'ussd.pin.locked': 'PIN nyingi ti njagiriru. Geria thutha wa ndagika {minutes} kana ucenjie PIN.',
+  'ussd.pin.resetCode': 'Ikira namba ya 6 iria watumiirwo na SMS:',
+  'ussd.pin.resetFormat': 'Namba no nginya ikorwo na 6.',
+  'ussd.pin.resetInvalid': 'Namba ti njagiriru kana ihitukitwo ni hingo.',
+
+  'sms.otp': 'Namba yaku ya MediBridge ni: {code}. Ni ya ndagika {minutes}. Ndukaheane namba ino kwa mundu.',
+  'sms.visitCode': 'MediBridge: Namba ya ceera yaku ya {date} ni {code}. Huthira namba ino guheana uira waku wa ugima.',
+  'sms.emergencyConsent': 'UGWATI: {name}, niwandikitwo ta {relationship} wa murwaru ubatarite uteithio wa ugwati kuu {hospital}. Namba: {code}. Cookia narua.',
+  'sms.welcome': 'Wamukirwo MediBridge! DID yaku ya murwaru ni: {did}. Riu no uone na umenyerere maandiko maku ma ugima na ugitiri.',
+  'sms.visitReady': 'MediBridge: Uira waku wa ugima wa ceera yaku ya hingo ino ni muhaaririe!\nNamba yaku: {code}\nNi ya thiku {days}.\nGuthondeka kana guheana uira, hura {ussdCode}.',
+  'sms.visitReadyNamed': 'MediBridge: Wimwega {name}, uira waku wa ugima wa ceera yaku ya hingo ino ni muhaaririe!\nNamba yaku: {code}\nNi ya thiku {days}.\nGuthondeka kana guheana uira, hura {ussdCode}.',
+  'sms.proofShared': 'MediBridge: Murwaru niakuoneka ari {statement}. Gutiri uhoro wa mwene waheanwo.',
+  'sms.emergencyAuthorized': 'UGWATI: Murwaru ari na uira wa ugima wa ma. Uteithio wa ugwati niwetikiritwo.',
+};
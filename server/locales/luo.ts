@@ -0,0 +1,80 @@
+import type { LocaleMessages } from './en';
+
+// Dholuo. Email texts fall back to Kiswahili.
+export const luo: LocaleMessages = {
+  'language.name': 'Dholuo',
+
+  'ussd.back': 'Dog Chien',
+  'ussd.more': 'Moko',
+  'ussd.invalid': 'Yierno ok kare.',
+  'ussd.unavailable': 'Tich ok nyal yudore sani. Tem kendo.',
+  'ussd.yes': 'Ee',
+  'ussd.no': 'Ooyo',
+
+  'ussd.main.title': 'Orwaru e MediBridge',
+  'ussd.main.prove': 'Nyis Kaka Ngimani Ni',
+  'ussd.main.emergencyProof': 'Ranyisi mar Masira',
+  'ussd.main.myProofs': 'Ranyisena',
+  'ussd.main.feedback': 'Chiw Paro (Yud Airtime)',
+  'ussd.main.help': 'Kony & Dhok',
+  'ussd.main.emergency': 'Masira',
+
+  'ussd.proofType.title': 'Yier ranyisi ma ipogo:',
+  'ussd.proofType.hiv': 'HIV Onge (ndalo 90)',
+  'ussd.proofType.vaccination': 'Ranyisi mar Chanjo',
+  'ussd.proofType.insurance': 'Bima/Kony',
+  'ussd.proofType.chw': 'ID mar Jatich Ngima e Gweng',
+  'ussd.recipient.title': 'Yier ngama iorone:',
+  'ussd.recipient.employer': 'Jatich',
+  'ussd.recipient.partner': 'Jaherani',
+  'ussd.recipient.clinic': 'Kilinik',
+  'ussd.recipient.ngo': 'NGO / Program',
+  'ussd.share.confirm': 'Ipogo adier? (Onge weche mari ma ipogo)',
+  'ussd.share.cancel': 'Wee',
+  'ussd.share.success': 'Osetimore! Ranyisi osepog maber.\nIseyudo airtime mar KES {amount}. Erokamano.',
+  'ussd.share.failed': 'Ok wanyal pogo ranyisi. Tem kendo.',
+  'ussd.cancelled': 'Oseweyo.',
+
+  'ussd.emergency.sent': 'Ranyisi mar masira oseor.\nJanyuolni osenyis.\nIbiro gochni piyo.',
+  'ussd.emergency.failed': 'Tich mar masira ok nyal yudore. Tudri gi kony.',
+
+  'ussd.visits.title': 'Limbe Mari Machiegni:',
+  'ussd.visits.empty': 'Onge ranyisi moyudi ne namba ni.',
+  'ussd.visit.header': 'Ranyisi mar limbo mar {date}:',
+  'ussd.visit.code': 'Namba: {code}',
+  'ussd.visit.resend': 'Or Namba Kendo gi SMS',
+  'ussd.visit.resent': 'Namba oseor kendo gi SMS.',
+
+  'ussd.feedback.title': 'Konywa mondo wamedre!\nMediBridge mori nade?',
+  'ussd.feedback.verySatisfied': 'Omora Ahinya',
+  'ussd.feedback.satisfied': 'Omora',
+  'ussd.feedback.neutral': 'Adiera',
+  'ussd.feedback.unsatisfied': 'Ok omora',
+  'ussd.feedback.recommend': 'Inyalo nyiso jomoko kuomwa?',
+  'ussd.feedback.thanks': 'Erokamano!\nIseyudo airtime mar KES {amount}.',
+  'ussd.feedback.pending': 'Erokamano kuom parono. Airtime biro oruok piyo.',
+
+  'ussd.language.title': 'Yier dhok mihero:',
+  'ussd.language.saved': 'Dhok osekan.',
+
+  'ussd.pin.create': 'Los PIN mar namba 4 mondo ing\'e ranyisi mari:',
+  'ussd.pin.format': 'PIN nyaka bed gi namba 4.',
+  'ussd.pin.confirm': 'Ket PIN manyien kendo:',
+  'ussd.pin.mismatch': 'PIN ok rwaki.',
+  'ussd.pin.saved': 'PIN osekan.',
+  'ussd.pin.enter': 'Ket PIN mari:\n99. Wiya Owil gi PIN',
+  'ussd.pin.wrong': 'PIN ok kare. Temo {attempts} odong.',
+  'ussd.pin.locked': 'PIN mang\'eny ok kare. Tem bang dakika {minutes} kata iloki PIN.',
+  'ussd.pin.resetCode': 'Ket namba 6 mioroni gi SMS:',
+  'ussd.pin.resetFormat': 'Namba nyaka bed 6.',
+  'ussd.pin.resetInvalid': 'Namba ok kare kata kinde oserumo.',
+
+  'sms.otp': 'Namba mari mar MediBridge en: {code}. Tiyo kuom dakika {minutes}. Kik ipog namba ni gi ng\'ato.',
+  'sms.visitCode': 'MediBridge: Namba mar limbo mari mar {date} en {code}. Ti gi namba ni mondo ipog ranyisi mag thieth.',
+  'sms.emergencyConsent': 'MASIRA: {name}, indik kaka {relationship} mar jatuo madwaro thieth mar masira e {hospital}. Namba: {code}. Dwok piyo.',
+  'sms.welcome': 'Orwaru e MediBridge! DID mari mar jatuo en: {did}. Koro inyalo neno kendo rito ndiko mag thieth mari maber.',
+  'sms.visitReady': 'MediBridge: Ranyisi mag thieth mag limbo mari machiegni oseikore!\nNamba mari: {code}\nTiyo kuom ndalo {days}.\nMondo iyud kata ipog ranyisi, goy {ussdCode}.',
+  'sms.visitReadyNamed': 'MediBridge: Oyawore {name}, ranyisi mag thieth mag limbo mari machiegni oseikore!\nNamba mari: {code}\nTiyo kuom ndalo {days}.\nMondo iyud kata ipog ranyisi, goy {ussdCode}.',
+  'sms.proofShared': 'MediBridge: Jatuo osenen ni {statement}. Onge weche mage ma osepog.',
+  'sms.emergencyAuthorized': 'MASIRA: Jatuo nigi ranyisi mar ngima makare. Thieth mar masira oyie.',
+};
@@ -0,0 +1,89 @@
+import type { LocaleMessages } from './en';
+
+// Somali. Email texts fall back to English.
+export const so: LocaleMessages = {
+  'language.name': 'Soomaali',
+
+  'ussd.back': 'Dib u noqo',
+  'ussd.more': 'Wax kale',
+  'ussd.invalid': 'Doorasho khaldan.',
+  'ussd.unavailable': 'Adeegga hadda lama heli karo. Fadlan isku day mar kale.',
+  'ussd.yes': 'Haa',
+  'ussd.no': 'Maya',
+
+  'ussd.main.title': 'Ku soo dhowow MediBridge',
+  'ussd.main.prove': 'Caddee Xaaladda Caafimaadka',
+  'ussd.main.emergencyProof': 'Caddeynta Degdegga',
+  'ussd.main.myProofs': 'Caddeymahayga',
+  'ussd.main.feedback': 'Bixi Fikrad (Hel Airtime)',
+  'ussd.main.help': 'Caawimo & Luqad',
+  'ussd.main.emergency': 'Degdeg',
+  'ussd.main.guardian': 'U matal qof kale',
+  'ussd.main.correction': 'Soo sheeg khalad diiwaanka',
+
+  'ussd.proofType.title': 'Dooro caddeynta la wadaagayo:',
+  'ussd.proofType.hiv': 'HIV Taban (90kii maalmood)',
+  'ussd.proofType.vaccination': 'Caddeynta Tallaalka',
+  'ussd.proofType.insurance': 'Caymis/Kaalmo',
+  'ussd.proofType.chw': 'Aqoonsiga Shaqaalaha Caafimaadka Bulshada',
+  'ussd.recipient.title': 'Dooro qaataha:',
+  'ussd.recipient.employer': 'Loo shaqeeye',
+  'ussd.recipient.partner': 'Lammaane',
+  'ussd.recipient.clinic': 'Rugta caafimaadka',
+  'ussd.recipient.ngo': 'NGO / Barnaamij',
+  'ussd.share.confirm': 'Xaqiiji wadaagga? (Xog shakhsi ah lama wadaagayo)',
+  'ussd.share.cancel': 'Jooji',
+  'ussd.share.success': 'Waa lagu guuleystay! Caddeynta si ammaan ah ayaa loo wadaagay.\nWaxaad heshay {amount} KES airtime. Mahadsanid.',
+  'ussd.share.failed': 'Waan ka xunnahay, caddeynta lama wadaagi karo. Isku day mar kale.',
+  'ussd.cancelled': 'Waa la joojiyay.',
+
+  'ussd.emergency.sent': 'Caddeynta degdegga waa la diray.\nXiriirkaaga waa la ogeysiiyay.\nDhowaan ayaa lagula soo xiriiri doonaa.',
+  'ussd.emergency.failed': 'Adeegga degdegga lama heli karo. La xiriir taageerada.',
+
+  'ussd.visits.title': 'Booqashooyinkaagii Dhowaa:',
+  'ussd.visits.empty': 'Caddeyn looma helin lambarkaaga.',
+  'ussd.visit.header': 'Caddeymaha booqashada {date}:',
+  'ussd.visit.code': 'Koodh: {code}',
+  'ussd.visit.resend': 'Koodhka mar kale SMS ku dir',
+  'ussd.visit.resent': 'Koodhka mar kale ayaa SMS lagu diray.',
+  'ussd.correction.title': 'Booqashadee khalad leh?',
+  'ussd.correction.empty': 'Diiwaan looma helin lambarkaaga.',
+  'ussd.correction.describe': 'Sharax waxa khaldan diiwaankan:',
+  'ussd.correction.tooShort': 'Fadlan khaladka ku sharax ugu yaraan 10 xaraf.',
+  'ussd.correction.sent': 'Codsiga waxaa loo diray {hospital}. Natiijada SMS ayaad ku heli doontaa.',
+  'ussd.correction.duplicate': 'Horay ayaad codsi furan ugu haysataa diiwaankan.',
+  'ussd.correction.failed': 'Waan ka xunnahay, codsigaaga lama diri karo. Fadlan isku day mar kale.',
+
+  'ussd.feedback.title': 'Naga caawi horumarka!\nIntee ku qanacsan tahay MediBridge?',
+  'ussd.feedback.verySatisfied': 'Aad u qanacsan',
+  'ussd.feedback.satisfied': 'Qanacsan',
+  'ussd.feedback.neutral': 'Dhexdhexaad',
+  'ussd.feedback.unsatisfied': 'Aan qanacsanayn',
+  'ussd.feedback.recommend': 'Ma nagu talin lahayd dadka kale?',
+  'ussd.feedback.thanks': 'Mahadsanid!\nWaxaad heshay {amount} KES airtime.',
+  'ussd.feedback.pending': 'Mahadsanid fikradaada. Airtime dhowaan ayaa la diri doonaa.',
+
+  'ussd.language.title': 'Dooro luqadda aad doorbidayso:',
+  'ussd.language.saved': 'Luqadda waa la keydiyay.',
+
+  'ussd.pin.create': 'Samee PIN 4 god ah si aad u ilaaliso caddeymahaaga:',
+  'ussd.pin.format': 'PIN-ku waa inuu noqdaa 4 god.',
+  'ussd.pin.confirm': 'Xaqiiji PIN-kaaga cusub:',
+  'ussd.pin.mismatch': 'PIN-nadu isma laha.',
+  'ussd.pin.saved': 'PIN-ka waa la keydiyay.',
+  'ussd.pin.enter': 'Geli PIN-kaaga:\n99. PIN-ka waan ilaaway',
+  'ussd.pin.wrong': 'PIN khaldan. {attempts} isku day ayaa haray.',
+  'ussd.pin.locked': 'PIN khaldan oo badan. Isku day {minutes} daqiiqo kadib ama dib u deji PIN-ka.',
+  'ussd.pin.resetCode': 'Geli koodhka 6 god ah ee SMS laguugu soo diray:',
+  'ussd.pin.resetFormat': 'Koodhku waa inuu noqdaa 6 god.',
+  'ussd.pin.resetInvalid': 'Koodh khaldan ama dhacay.',
+
+  'sms.otp': 'Koodhkaaga xaqiijinta MediBridge waa: {code}. Wuxuu shaqeynayaa {minutes} daqiiqo. Koodhkan cidna ha la wadaagin.',
+  'sms.visitCode': 'MediBridge: Koodhka booqashadaada {date} waa {code}. Isticmaal koodhkan si aad u wadaagto caddeymahaaga caafimaadka.',
+  'sms.emergencyConsent': 'DEGDEG: {name}, waxaad u diiwaangashan tahay {relationship} bukaan u baahan daryeel degdeg ah oo ku sugan {hospital}. Koodhka xaqiijinta: {code}. Fadlan si degdeg ah uga jawaab.',
+  'sms.welcome': 'Ku soo dhowow MediBridge! DID-gaaga bukaan waa: {did}. Hadda si ammaan ah ayaad u geli kartaa una maamuli kartaa diiwaanadaada caafimaadka.',
+  'sms.visitReady': 'MediBridge: Caddeymaha caafimaadka booqashadaadii dhoweyd waa diyaar!\nKoodhkaaga: {code}\nWuxuu shaqeynayaa {days} maalmood.\nSi aad u hesho ama u wadaagto, garaac {ussdCode}.',
+  'sms.visitReadyNamed': 'MediBridge: Salaan {name}, caddeymaha caafimaadka booqashadaadii dhoweyd waa diyaar!\nKoodhkaaga: {code}\nWuxuu shaqeynayaa {days} maalmood.\nSi aad u hesho ama u wadaagto, garaac {ussdCode}.',
+  'sms.proofShared': 'MediBridge: Bukaanka waxaa lagu xaqiijiyay {statement}. Xog shakhsi ah lama wadaagin.',
+  'sms.emergencyAuthorized': 'DEGDEG: Bukaanku wuxuu haystaa caddeyn caafimaad oo sax ah. Daaweynta degdegga waa la oggolaaday.',
+};
@@ -0,0 +1,140 @@
+import type { LocaleMessages } from './en';
+
+export const sw: LocaleMessages = {
+  'language.name': 'Kiswahili',
+
+  'ussd.back': 'Rudi Nyuma',
+  'ussd.more': 'Zaidi',
+  'ussd.invalid': 'Chaguo si sahihi.',
+  'ussd.unavailable': 'Huduma haipatikani kwa sasa. Jaribu tena.',
+  'ussd.yes': 'Ndiyo',
+  'ussd.no': 'Hapana',
+
+  'ussd.main.title': 'Karibu MediBridge',
+  'ussd.main.prove': 'Thibitisha Hali ya Afya',
+  'ussd.main.emergencyProof': 'Uthibitisho wa Dharura',
+  'ussd.main.myProofs': 'Uthibitisho Wangu',
+  'ussd.main.feedback': 'Toa Maoni (Pata Airtime)',
+  'ussd.main.help': 'Msaada & Lugha',
+  'ussd.main.emergency': 'Dharura',
+  'ussd.main.guardian': 'Tenda kwa Niaba ya Mtu',
+  'ussd.main.correction': 'Ripoti Kosa kwenye Rekodi',
+
+  'ussd.proofType.title': 'Chagua uthibitisho wa kushiriki:',
+  'ussd.proofType.hiv': 'HIV Hasi (siku 90 za mwisho)',
+  'ussd.proofType.vaccination': 'Uthibitisho wa Chanjo',
+  'ussd.proofType.insurance': 'Hali ya Bima/Msaada',
+  'ussd.proofType.chw': 'Kitambulisho cha Mfanyakazi wa Afya wa Jamii',
+  'ussd.recipient.title': 'Chagua mpokeaji:',
+  'ussd.recipient.employer': 'Mwajiri',
+  'ussd.recipient.partner': 'Mpenzi',
+  'ussd.recipient.clinic': 'Kliniki',
+  'ussd.recipient.ngo': 'NGO / Mpango',
+  'ussd.share.confirm': 'Thibitisha kushiriki? (Hakuna maelezo ya kibinafsi yanayoshirikiwa)',
+  'ussd.share.cancel': 'Ghairi',
+  'ussd.share.success': 'Imefanikiwa! Uthibitisho umeshirikiwa kwa usalama.\nUmepata airtime ya KES {amount}. Asante.',
+  'ussd.share.failed': 'Samahani, haiwezi kushiriki uthibitisho. Jaribu tena.',
+  'ussd.cancelled': 'Imekatwa.',
+
+  'ussd.emergency.sent': 'Uthibitisho wa dharura umetumwa.\nMtu wako ameonywa.\nUtawasiliana hivi karibuni.',
+  'ussd.emergency.failed': 'Huduma ya dharura haipatikani kwa sasa. Wasiliana na msaada.',
+
+  'ussd.visits.title': 'Ziara Zako za Hivi Karibuni:',
+  'ussd.visits.empty': 'Hakuna uthibitisho uliopatikana kwa nambari yako.',
+  'ussd.visit.header': 'Uthibitisho wa ziara tarehe {date}:',
+  'ussd.visit.code': 'Msimbo: {code}',
+  'ussd.visit.resend': 'Tuma Msimbo Tena kwa SMS',
+  'ussd.visit.resent': 'Msimbo umetumwa tena kwa SMS.',
+  'ussd.correction.title': 'Ziara ipi ina kosa?',
+  'ussd.correction.empty': 'Hakuna rekodi zilizopatikana kwa nambari yako.',
+  'ussd.correction.describe': 'Eleza kosa lililo kwenye rekodi hii:',
+  'ussd.correction.tooShort': 'Tafadhali eleza kosa kwa angalau herufi 10.',
+  'ussd.correction.sent': 'Ombi limetumwa kwa {hospital}. Utapokea SMS yenye matokeo.',
+  'ussd.correction.duplicate': 'Tayari una ombi linalosubiri kwa rekodi hii.',
+  'ussd.correction.failed': 'Samahani, imeshindikana kutuma ombi lako. Tafadhali jaribu tena.',
+
+  'ussd.feedback.title': 'Tusaidie kuboresha!\nUnafurahia MediBridge kiasi gani?',
+  'ussd.feedback.verySatisfied': 'Nimefurahia Sana',
+  'ussd.feedback.satisfied': 'Nimefurahia',
+  'ussd.feedback.neutral': 'Sina Uamuzi',
+  'ussd.feedback.unsatisfied': 'Sijafurahia',
+  'ussd.feedback.recommend': 'Ungependekeza kwetu kwa wengine?',
+  'ussd.feedback.thanks': 'Asante!\nUmepata airtime ya KES {amount}.',
+  'ussd.feedback.pending': 'Asante kwa maoni. Airtime itatumwa hivi karibuni.',
+
+  'ussd.language.title': 'Chagua lugha unayopendelea:',
+  'ussd.language.saved': 'Lugha imehifadhiwa.',
+
+  'ussd.pin.create': 'Unda PIN ya tarakimu 4 kulinda uthibitisho wako:',
+  'ussd.pin.format': 'PIN lazima iwe tarakimu 4.',
+  'ussd.pin.confirm': 'Thibitisha PIN yako mpya:',
+  'ussd.pin.mismatch': 'PIN hazilingani.',
+  'ussd.pin.saved': 'PIN imehifadhiwa.',
+  'ussd.pin.enter': 'Weka PIN yako:\n99. Umesahau PIN',
+  'ussd.pin.wrong': 'PIN si sahihi. Majaribio {attempts} yamebaki.',
+  'ussd.pin.locked': 'PIN zisizo sahihi nyingi. Jaribu tena baada ya dakika {minutes} au weka upya PIN yako.',
+  'ussd.pin.resetCode': 'Weka msimbo wa tarakimu 6 uliotumwa kwa SMS:',
+  'ussd.pin.resetFormat': 'Msimbo lazima uwe tarakimu 6.',
+  'ussd.pin.resetInvalid': 'Msimbo wa kuweka upya si sahihi au umeisha muda.',
+
+  'ussd.guardian.patients': 'Unatenda kwa niaba ya nani?',
+  'ussd.guardian.none': 'Hujasajiliwa kama mlezi wa mtu yeyote.',
+  'ussd.guardian.requests': 'Maombi ya ufikiaji kwa {name}:',
+  'ussd.guardian.noRequests': 'Hakuna maombi yanayosubiri kwa {name}.',
+  'ussd.guardian.request': '{hospital} inaomba kuona rekodi za {name}.',
+  'ussd.guardian.approve': 'Kubali kwa saa {hours}',
+  'ussd.guardian.deny': 'Kataa',
+  'ussd.guardian.approved': 'Ufikiaji umetolewa kwa {hospital} kwa saa {hours}.',
+  'ussd.guardian.denied': 'Ombi limekataliwa.',
+  'ussd.guardian.ended': 'Ruhusa yako ya ulezi kwa mtu huyu imeisha.',
+
+  'sms.otp': 'Msimbo wako wa uthibitisho wa MediBridge ni: {code}. Unatumika kwa dakika {minutes}. Usimpe mtu yeyote msimbo huu.',
+  'sms.visitCode': 'MediBridge: Msimbo wa ziara yako ya tarehe {date} ni {code}. Tumia msimbo huu kushiriki uthibitisho wako wa matibabu.',
+  'sms.emergencyConsent': 'DHARURA: {name}, umeorodheshwa kama {relationship} wa mgonjwa anayehitaji huduma ya dharura katika {hospital}. Msimbo wa uthibitisho: {code}. Tafadhali jibu mara moja.',
+  'sms.welcome': 'Karibu MediBridge! DID yako ya mgonjwa ni: {did}. Sasa unaweza kufikia na kusimamia rekodi zako za matibabu kwa usalama.',
+  'sms.visitReady': 'MediBridge: Uthibitisho wako wa matibabu wa ziara yako ya hivi karibuni uko tayari!\nMsimbo wako: {code}\nUnatumika kwa siku {days}.\nKupata au kushiriki uthibitisho wako, piga {ussdCode}.',
+  'sms.visitReadyNamed': 'MediBridge: Habari {name}, uthibitisho wako wa matibabu wa ziara yako ya hivi karibuni uko tayari!\nMsimbo wako: {code}\nUnatumika kwa siku {days}.\nKupata au kushiriki uthibitisho wako, piga {ussdCode}.',
+  'sms.proofShared': 'MediBridge: Mgonjwa amethibitishwa kama {statement}. Hakuna maelezo ya kibinafsi yaliyoshirikiwa.',
+  'sms.emergencyAuthorized': 'DHARURA: Mgonjwa ana uthibitisho halali wa afya. Matibabu ya dharura yameidhinishwa.',
+  'sms.emergencyReviewApproved': 'MediBridge: {hospital} ilitumia ufikiaji wa dharura kwa rekodi zako tarehe {date}. Ukaguzi umethibitisha kuwa ufikiaji ulihalalishwa. Ingia kuona kilichotazamwa.',
+  'sms.emergencyReviewFlagged': 'MediBridge: {hospital} ilitumia ufikiaji wa dharura kwa rekodi zako tarehe {date}. Ukaguzi umeona ufikiaji haukuhalalishwa na umepelekwa ngazi ya juu. Ingia kuona kilichotazamwa.',
+  'sms.correctionAccepted': 'MediBridge: {hospital} imekubali ombi lako la kusahihisha rekodi ya ziara ya {date} na kuisasisha. Ingia kuona mabadiliko.',
+  'sms.correctionRejected': 'MediBridge: {hospital} haikubadilisha rekodi yako ya ziara ya {date}. Sababu: {reason}',
+
+  'email.otp.subject': 'MediBridge - Msimbo Wako wa OTP',
+  'email.otp.heading': 'Mfumo wa Afya wa MediBridge',
+  'email.otp.intro': 'Msimbo wako wa OTP wa kuingia ni:',
+  'email.otp.expires': 'Msimbo huu utaisha baada ya dakika {minutes}.',
+  'email.otp.ignore': 'Kama hukuomba msimbo huu, tafadhali puuza barua pepe hii.',
+  'email.otp.footer': 'Huu ni ujumbe wa kiotomatiki kutoka Mfumo wa Afya wa MediBridge.',
+  'email.welcome.subject': 'Karibu MediBridge - Utambulisho Wako wa Kidijitali uko Tayari',
+  'email.welcome.heading': 'Karibu MediBridge!',
+  'email.welcome.created': 'Utambulisho wako wa kidijitali umeundwa kwa mafanikio.',
+  'email.welcome.did': 'Utambulisho Wako wa Kidijitali (DID):',
+  'email.welcome.canNow': 'Sasa unaweza:',
+  'email.welcome.records': 'Kufikia rekodi zako za matibabu kwa usalama',
+  'email.welcome.consent': 'Kutoa idhini kwa watoa huduma za afya',
+  'email.welcome.privacy': 'Kusimamia mipangilio yako ya faragha',
+  'email.welcome.thanks': 'Asante kwa kuchagua MediBridge kwa mahitaji yako ya afya!',
+  'email.emergency.subject': 'DHARURA: Idhini ya Matibabu ya Dharura Inahitajika - {hospital}',
+  'email.emergency.heading': 'IDHINI YA MATIBABU YA DHARURA INAHITAJIKA',
+  'email.emergency.greeting': 'Mpendwa {name},',
+  'email.emergency.intro': 'Hii ni taarifa ya dharura kutoka {hospital} kuhusu dharura ya matibabu inayomhusu {relationship} wako.',
+  'email.emergency.details': 'Maelezo ya Dharura:',
+  'email.emergency.type': 'Aina ya Dharura:',
+  'email.emergency.hospital': 'Hospitali:',
+  'email.emergency.phone': 'Simu ya Mawasiliano:',
+  'email.emergency.useCode': 'Ili kutoa idhini ya matibabu ya dharura, tafadhali tumia msimbo huu wa uthibitisho:',
+  'email.emergency.contact': 'Tafadhali wasiliana na hospitali mara moja ukiwa na msimbo huu ili kutoa idhini.',
+  'email.emergency.important': 'Muhimu:',
+  'email.emergency.critical': 'Idhini hii inahitajika kwa matibabu ya dharura. Muda ni muhimu sana.',
+  'email.emergency.footer': 'Hii ni taarifa ya dharura ya kiotomatiki kutoka {hospital}.',
+  'email.correction.subject': 'MediBridge - Taarifa kuhusu ombi lako la kusahihisha rekodi',
+  'email.correction.heading': 'Ombi la Kusahihisha Rekodi',
+  'email.correction.greeting': 'Mpendwa {name},',
+  'email.correction.accepted': '{hospital} imekagua ombi lako kuhusu ziara ya {date} na kusahihisha rekodi.',
+  'email.correction.rejected': '{hospital} imekagua ombi lako kuhusu ziara ya {date} na haikubadilisha rekodi.',
+  'email.correction.request': 'Ombi lako:',
+  'email.correction.response': 'Jibu la hospitali:',
+  'email.correction.footer': 'Ingia kwenye tovuti ya wagonjwa ya MediBridge kuona rekodi na historia yake.',
+};
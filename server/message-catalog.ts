@@ -0,0 +1,133 @@
+import { en, type MessageKey, type LocaleMessages } from './locales/en';
+import { sw } from './locales/sw';
+import { ki } from './locales/ki';
+import { luo } from './locales/luo';
+import { so } from './locales/so';
+import { fr } from './locales/fr';
+
+export type { MessageKey } from './locales/en';
+
+export const SUPPORTED_LOCALES = ['en', 'sw', 'ki', 'luo', 'so', 'fr'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export type MessageParams = Record<string, string | number>;
+
+// Africa's Talking truncates USSD screens longer than this
+export const USSD_MAX_LENGTH = 182;
+
+// Where a locale looks when it has no translation for a key. English always ends the chain.
+const FALLBACK_CHAINS: Record<Locale, Locale[]> = {
+  en: ['en'],
+  sw: ['sw', 'en'],
+  ki: ['ki', 'sw', 'en'],
+  luo: ['luo', 'sw', 'en'],
+  so: ['so', 'en'],
+  fr: ['fr', 'en'],
+};
+
+const CATALOGS: Record<Locale, LocaleMessages> = { en, sw, ki, luo, so, fr };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Message Catalog
+ * Keyed, per-locale templates shared by USSD menus, SMS and email.
+ * Templates use {name} placeholders; missing translations fall back along FALLBACK_CHAINS.
+ */
+class MessageCatalog {
+  private static instance: MessageCatalog;
+
+  private constructor() {
+    for (const issue of this.validate()) {
+      console.warn(`[I18N] ${issue}`);
+    }
+  }
+
+  static getInstance(): MessageCatalog {
+    if (!MessageCatalog.instance) {
+      MessageCatalog.instance = new MessageCatalog();
+    }
+    return MessageCatalog.instance;
+  }
+
+  isSupported(locale: unknown): locale is Locale {
+    return typeof locale === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(locale);
+  }
+
+  /**
+   * Map a stored or requested language (e.g. "sw-KE") onto a supported locale
+   */
+  resolveLocale(locale?: string | null): Locale {
+    if (!locale) return 'en';
+    const base = locale.toLowerCase().split(/[-_]/)[0];
+    return this.isSupported(base) ? base : 'en';
+  }
+
+  /**
+   * Find the template for a key, walking the locale's fallback chain
+   */
+  template(key: MessageKey, locale: Locale): string {
+    for (const candidate of FALLBACK_CHAINS[locale]) {
+      const template = CATALOGS[candidate][key];
+      if (template !== undefined) return template;
+    }
+    return en[key];
+  }
+
+  format(key: MessageKey, locale: Locale | string = 'en', params: MessageParams = {}): string {
+    const resolved = this.isSupported(locale) ? locale : this.resolveLocale(locale);
+    return this.template(key, resolved).replace(PLACEHOLDER, (match, name: string) => {
+      if (params[name] === undefined) {
+        console.warn(`[I18N] Missing parameter "${name}" for ${key} (${resolved})`);
+        return match;
+      }
+      return String(params[name]);
+    });
+  }
+
+  fitsUssd(text: string): boolean {
+    return text.length <= USSD_MAX_LENGTH;
+  }
+
+  /**
+   * Check every locale against the English reference: placeholders must match
+   * and USSD templates must leave room on a single screen
+   */
+  validate(): string[] {
+    const issues: string[] = [];
+    const keys = Object.keys(en) as MessageKey[];
+
+    for (const locale of SUPPORTED_LOCALES) {
+      const catalog = CATALOGS[locale];
+      for (const key of Object.keys(catalog)) {
+        if (!(key in en)) issues.push(`${locale}: unknown key ${key}`);
+      }
+
+      for (const key of keys) {
+        const template = catalog[key];
+        if (template === undefined) continue;
+
+        const expected = placeholders(en[key]);
+        const actual = placeholders(template);
+        if (expected.join() !== actual.join()) {
+          issues.push(`${locale}: ${key} has placeholders [${actual}] but English has [${expected}]`);
+        }
+
+        if (key.startsWith('ussd.')) {
+          const staticLength = template.replace(PLACEHOLDER, '').length;
+          if (staticLength > USSD_MAX_LENGTH) {
+            issues.push(`${locale}: ${key} is ${staticLength} characters, over the ${USSD_MAX_LENGTH}-character USSD limit`);
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+}
+
+function placeholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER), m => m[1]).sort();
+}
+
+export const messageCatalog = MessageCatalog.getInstance();
@@ -1,4 +1,6 @@
 import type { Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+import type { PatientRecord } from '@shared/schema';
 
 // Extend SessionData interface
 declare module 'express-session' {
@@ -17,3 +19,14 @@ export function requirePatientAuth(req: Request, res: Response, next: NextFuncti
   // This ensures session integrity and prevents access with invalid sessions.
   next();
 }
+
+/**
+ * The signed-in patient owns the record; resolves to their DID, or null
+ */
+export async function sessionPatientOwnsRecord(req: Request, record: PatientRecord): Promise<string | null> {
+  if (!req.session.patientDID) return null;
+  const profile = await storage.getPatientProfileByDID(req.session.patientDID);
+  if (!profile) return null;
+  const owns = record.patientDID === profile.patientDID || (!!profile.nationalId && record.nationalId === profile.nationalId);
+  return owns ? profile.patientDID : null;
+}
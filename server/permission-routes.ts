@@ -0,0 +1,44 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { CAPABILITIES, USER_ROLES } from "@shared/permissions";
+import { requireAdminAuth } from "./admin-auth-middleware";
+import { permissionService } from "./permission-service";
+
+const capabilityList = z.array(z.enum(CAPABILITIES));
+
+const updatePermissionsSchema = z.object({
+  hospitalCapabilities: capabilityList.optional(),
+  roles: z.record(z.enum(USER_ROLES), capabilityList).optional(),
+});
+
+/**
+ * Hospital Permission Routes
+ * Admins choose which capabilities their hospital uses and what each staff role holds.
+ */
+export function registerPermissionRoutes(app: Express): void {
+
+  /**
+   * GET /api/admin/permissions
+   */
+  app.get("/api/admin/permissions", requireAdminAuth, async (req, res, next) => {
+    try {
+      const settings = await permissionService.getSettings(permissionService.hospitalKeyFor(req.user!));
+      res.json({ success: true, settings });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/admin/permissions
+   */
+  app.put("/api/admin/permissions", requireAdminAuth, async (req, res) => {
+    try {
+      const updates = updatePermissionsSchema.parse(req.body);
+      const settings = await permissionService.updateSettings(req.user!, updates, req);
+      res.json({ success: true, settings });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to update permissions: ${error.message}` });
+    }
+  });
+}
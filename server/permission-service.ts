@@ -0,0 +1,135 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import type { HospitalPermission, User } from "@shared/schema";
+import {
+  CAPABILITIES,
+  DEFAULT_HOSPITAL_CAPABILITIES,
+  DEFAULT_ROLE_CAPABILITIES,
+  USER_ROLES,
+  isUserRole,
+  type Capability,
+  type UserRole,
+} from "@shared/permissions";
+
+// hospital_permissions.role value holding the capabilities enabled for the whole hospital
+const HOSPITAL_WIDE = '*';
+
+export interface HospitalPermissionSettings {
+  hospitalCapabilities: Capability[];
+  roles: Record<UserRole, Capability[]>;
+  customizedRoles: UserRole[];
+}
+
+/**
+ * Permission Service
+ * Resolves what a user may do from their role and the capabilities their hospital
+ * has enabled. Any facility can hold any capability; there are no fixed
+ * record-submitting or record-consuming hospitals.
+ */
+class PermissionService {
+  private static instance: PermissionService;
+
+  static getInstance(): PermissionService {
+    if (!PermissionService.instance) {
+      PermissionService.instance = new PermissionService();
+    }
+    return PermissionService.instance;
+  }
+
+  /**
+   * Hospital key shared with hospital_staff.hospital_id: the admin account's id.
+   * Staff accounts point at it through invitedBy.
+   */
+  hospitalKeyFor(user: User): string {
+    return (user.isAdmin ? user.id : user.invitedBy ?? user.hospital_id).toString();
+  }
+
+  roleOf(user: User): UserRole {
+    if (user.isAdmin) return 'ADMIN';
+    return isUserRole(user.role) ? user.role : 'CLINICIAN';
+  }
+
+  async getSettings(hospitalKey: string): Promise<HospitalPermissionSettings> {
+    return this.resolveSettings(await storage.getHospitalPermissions(hospitalKey));
+  }
+
+  async getCapabilities(user: User): Promise<Capability[]> {
+    const settings = await this.getSettings(this.hospitalKeyFor(user));
+    const role = this.roleOf(user);
+    const capabilities = settings.roles[role].filter(c => settings.hospitalCapabilities.includes(c));
+    // Admins can always reach the settings, so a hospital cannot lock itself out
+    return role === 'ADMIN' && !capabilities.includes('admin') ? [...capabilities, 'admin'] : capabilities;
+  }
+
+  async hasCapability(user: User, capability: Capability): Promise<boolean> {
+    return (await this.getCapabilities(user)).includes(capability);
+  }
+
+  /**
+   * User as returned by the auth endpoints, with the capabilities the workspace should offer
+   */
+  async withCapabilities<T extends User>(user: T): Promise<T & { role: UserRole; capabilities: Capability[] }> {
+    return { ...user, role: this.roleOf(user), capabilities: await this.getCapabilities(user) };
+  }
+
+  /**
+   * Change the hospital-wide capabilities and/or per-role capabilities of the admin's hospital
+   */
+  async updateSettings(
+    admin: User,
+    updates: { hospitalCapabilities?: Capability[]; roles?: Partial<Record<UserRole, Capability[]>> },
+    req?: Request
+  ): Promise<HospitalPermissionSettings> {
+    const hospitalKey = this.hospitalKeyFor(admin);
+
+    if (updates.hospitalCapabilities) {
+      await storage.setHospitalPermission(hospitalKey, HOSPITAL_WIDE, this.normalize(updates.hospitalCapabilities), admin.id);
+    }
+
+    for (const [role, capabilities] of Object.entries(updates.roles || {})) {
+      if (!isUserRole(role) || !capabilities) {
+        throw new Error(`Unknown role ${role}`);
+      }
+      if (role !== 'ADMIN' && capabilities.includes('admin')) {
+        throw new Error('Only the ADMIN role can hold the admin capability');
+      }
+      await storage.setHospitalPermission(hospitalKey, role, this.normalize(capabilities), admin.id);
+    }
+
+    await auditService.logEvent({
+      eventType: "HOSPITAL_PERMISSIONS_UPDATED",
+      actorType: "HOSPITAL_ADMIN",
+      actorId: admin.id.toString(),
+      targetType: "HOSPITAL",
+      targetId: hospitalKey,
+      action: "UPDATE_PERMISSIONS",
+      outcome: "SUCCESS",
+      metadata: updates,
+      severity: "warning",
+      hospital_id: admin.hospital_id,
+    }, req);
+
+    return this.getSettings(hospitalKey);
+  }
+
+  private resolveSettings(rows: HospitalPermission[]): HospitalPermissionSettings {
+    const byRole = new Map(rows.map(row => [row.role, this.normalize(row.capabilities)]));
+    const roles = {} as Record<UserRole, Capability[]>;
+    for (const role of USER_ROLES) {
+      roles[role] = byRole.get(role) ?? DEFAULT_ROLE_CAPABILITIES[role];
+    }
+    return {
+      hospitalCapabilities: byRole.get(HOSPITAL_WIDE) ?? DEFAULT_HOSPITAL_CAPABILITIES,
+      roles,
+      customizedRoles: USER_ROLES.filter(role => byRole.has(role)),
+    };
+  }
+
+  // Drops unknown values and keeps the canonical order
+  private normalize(capabilities: string[]): Capability[] {
+    return CAPABILITIES.filter(c => capabilities.includes(c));
+  }
+}
+
+export const permissionService = PermissionService.getInstance();
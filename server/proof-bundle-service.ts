@@ -0,0 +1,178 @@
+import { createHash } from "crypto";
+import { ethers } from "ethers";
+import { createJWS, ES256KSigner } from "did-jwt";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { zkpService } from "./zkp-service";
+import { auditService } from "./audit-service";
+
+// Development-only fallback; production refuses to start without ZKP_BUNDLE_SIGNING_KEY
+const DEV_SIGNING_KEY = "1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
+
+export const PROOF_BUNDLE_VERSION = 1;
+
+// Same limit as the USSD code check; a code is locked once it has been tried this often
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * One proof inside an offline bundle. Field elements are base64url-encoded
+ * 32-byte big-endian values to keep the QR payload small.
+ */
+export interface ProofBundleEntry {
+  id: number;
+  c: string; // circuit
+  t: string; // proof type
+  s: string; // public statement
+  e: number; // proof expiry (unix seconds)
+  pr: string[]; // Groth16 proof points a, b, c flattened
+  in: string[]; // public inputs
+}
+
+export interface ProofBundlePayload {
+  v: number;
+  iss: string;
+  iat: number;
+  exp: number;
+  vk: Record<string, string>; // circuit -> verification key fingerprint
+  p: ProofBundleEntry[];
+}
+
+/**
+ * Offline Proof Bundle Service
+ * Packs every currently valid proof behind a visit code into a compact
+ * ES256K-signed JWS that the verifier page can check without the server.
+ */
+class ProofBundleService {
+  private static instance: ProofBundleService;
+  private signingKeyHex: string;
+  private issuer: string;
+
+  private constructor() {
+    if (!process.env.ZKP_BUNDLE_SIGNING_KEY && process.env.NODE_ENV === "production") {
+      throw new Error("ZKP_BUNDLE_SIGNING_KEY must be set in production to sign offline proof bundles");
+    }
+    this.signingKeyHex = process.env.ZKP_BUNDLE_SIGNING_KEY || DEV_SIGNING_KEY;
+    this.issuer = process.env.ZKP_BUNDLE_ISSUER || "medibridge";
+  }
+
+  static getInstance(): ProofBundleService {
+    if (!ProofBundleService.instance) {
+      ProofBundleService.instance = new ProofBundleService();
+    }
+    return ProofBundleService.instance;
+  }
+
+  private static encodeField(value: string): string {
+    const hex = BigInt(value).toString(16).padStart(64, "0");
+    return Buffer.from(hex, "hex").toString("base64url");
+  }
+
+  private static flattenProof(proof: any): string[] {
+    return [...proof.a, ...proof.b[0], ...proof.b[1], ...proof.c];
+  }
+
+  /**
+   * Everything a verifier needs to cache before going offline
+   */
+  async getTrustAnchors(): Promise<{
+    issuer: string;
+    publicKeyHex: string;
+    verificationKeys: Record<string, { fingerprint: string; verificationKey: any }>;
+  }> {
+    const zkpServiceInstance = await zkpService;
+    return {
+      issuer: this.issuer,
+      publicKeyHex: new ethers.SigningKey("0x" + this.signingKeyHex).publicKey.slice(2),
+      verificationKeys: await zkpServiceInstance.getVerificationKeys(),
+    };
+  }
+
+  /**
+   * Build the signed bundle (and a QR image of it) for a visit code.
+   * Only proofs that pass full server-side verification are included. Like code
+   * verification, used or locked codes are refused, every attempt is counted and
+   * the codes are marked used once the bundle is issued.
+   */
+  async createBundle(visitCode: string): Promise<{ bundle: string; qrCode: string | null; expiresAt: Date; totalProofs: number }> {
+    const codeHash = createHash("sha256").update(visitCode).digest("hex");
+    const codeRows = await storage.getProofCodesByHash(codeHash);
+    const now = new Date();
+
+    const zkpServiceInstance = await zkpService;
+    const { verificationKeys } = await this.getTrustAnchors();
+    const entries: ProofBundleEntry[] = [];
+    const vk: Record<string, string> = {};
+    let expiresAt: number = Infinity;
+    const bundledCodeIds: number[] = [];
+
+    for (const row of codeRows) {
+      if (row.used || row.expiresAt < now || (row.attempts ?? 0) >= MAX_CODE_ATTEMPTS) continue;
+      await storage.incrementProofCodeAttempts(row.id);
+      const proof = await storage.getZKPProof(row.proofId);
+      if (!proof) continue;
+
+      const proofData = proof.proofData as any;
+      const circuit: string = proofData.circuit || "medical_proof";
+      const key = verificationKeys[circuit];
+      if (!key || (proofData.verificationKeyHash && proofData.verificationKeyHash !== key.fingerprint)) continue;
+
+      const result = await zkpServiceInstance.verifyProof(proof.id, 0, "", "offline-bundle", false);
+      if (!result.isValid) continue;
+
+      const proofExpiry = Math.min(proof.expiresAt.getTime(), row.expiresAt.getTime());
+      expiresAt = Math.min(expiresAt, proofExpiry);
+      vk[circuit] = key.fingerprint;
+      bundledCodeIds.push(row.id);
+      entries.push({
+        id: proof.id,
+        c: circuit,
+        t: proof.proofType,
+        s: proof.publicStatement,
+        e: Math.floor(proofExpiry / 1000),
+        pr: ProofBundleService.flattenProof(proofData.proof).map(ProofBundleService.encodeField),
+        in: (proofData.publicSignals as string[]).map(ProofBundleService.encodeField),
+      });
+    }
+
+    if (entries.length === 0) {
+      throw new Error("No valid proofs found for this code");
+    }
+
+    const payload: ProofBundlePayload = {
+      v: PROOF_BUNDLE_VERSION,
+      iss: this.issuer,
+      iat: Math.floor(now.getTime() / 1000),
+      exp: Math.floor(expiresAt / 1000),
+      vk,
+      p: entries,
+    };
+    const bundle = await createJWS(payload as any, ES256KSigner(Buffer.from(this.signingKeyHex, "hex")), { alg: "ES256K" });
+    for (const id of bundledCodeIds) {
+      await storage.markProofCodeUsed(id);
+    }
+
+    // Large visits may not fit a single QR code; the bundle text can still be pasted into the verifier
+    let qrCode: string | null = null;
+    try {
+      qrCode = await QRCode.toDataURL(bundle, { errorCorrectionLevel: "L" });
+    } catch (error: any) {
+      console.warn("[PROOF_BUNDLE] Bundle too large for a QR code:", error.message);
+    }
+
+    await auditService.logEvent({
+      eventType: "ZKP_OFFLINE_BUNDLE_ISSUED",
+      actorType: "ANONYMOUS",
+      actorId: "",
+      targetType: "ZKP_PROOF",
+      targetId: entries[0].id.toString(),
+      action: "ISSUE_BUNDLE",
+      outcome: "SUCCESS",
+      metadata: { codeHash, proofIds: entries.map(e => e.id), expiresAt: new Date(expiresAt).toISOString() },
+      severity: "info",
+    });
+
+    return { bundle, qrCode, expiresAt: new Date(expiresAt), totalProofs: entries.length };
+  }
+}
+
+export const proofBundleService = ProofBundleService.getInstance();
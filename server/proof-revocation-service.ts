@@ -0,0 +1,170 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import type { ZKPProof, ZKPProofRevocation } from "@shared/schema";
+
+export interface RevocationInclusionProof {
+  proofId: number;
+  leaf: string;
+  index: number;
+  siblings: Array<{ hash: string; position: 'left' | 'right' }>;
+  merkleRoot: string;
+  listSize: number;
+}
+
+const EMPTY_ROOT = createHash('sha256').update('medibridge:zkp-revocations:empty').digest('hex');
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Proof Revocation Registry
+ * Append-only list of revoked ZKP proofs accumulated into a Merkle tree.
+ * Every append recomputes the root, stores it alongside the new entry and
+ * anchors it to the Hedera audit topic so verifiers can check the list has
+ * not been rewritten.
+ */
+class ProofRevocationRegistry {
+  private static instance: ProofRevocationRegistry;
+  private revokedIds: Set<number> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ProofRevocationRegistry {
+    if (!ProofRevocationRegistry.instance) {
+      ProofRevocationRegistry.instance = new ProofRevocationRegistry();
+    }
+    return ProofRevocationRegistry.instance;
+  }
+
+  /**
+   * Hash of the stored proof material, bound into the revocation leaf
+   */
+  static proofHash(proof: ZKPProof): string {
+    return sha256(JSON.stringify(proof.proofData));
+  }
+
+  private static leafHash(entry: { proofId: number; proofHash: string }): string {
+    return sha256(`${entry.proofId}:${entry.proofHash}`);
+  }
+
+  // Odd levels duplicate their last node
+  private static merkleLevels(leaves: string[]): string[][] {
+    if (leaves.length === 0) return [[EMPTY_ROOT]];
+    const levels = [leaves];
+    while (levels[levels.length - 1].length > 1) {
+      const level = levels[levels.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(sha256(level[i] + (level[i + 1] ?? level[i])));
+      }
+      levels.push(next);
+    }
+    return levels;
+  }
+
+  private async loadRevokedIds(): Promise<Set<number>> {
+    if (!this.revokedIds) {
+      const entries = await storage.getZKPProofRevocations();
+      this.revokedIds = new Set(entries.map(e => e.proofId));
+    }
+    return this.revokedIds;
+  }
+
+  /**
+   * Revoke proofs: deactivate them and append them to the registry.
+   * Proofs not owned by `patientDID` (when given) or already revoked are skipped.
+   */
+  async revokeProofs(
+    proofIds: number[],
+    options: { revokedBy: string; patientDID?: string; reason?: string }
+  ): Promise<{ revoked: number[]; merkleRoot: string; listSize: number }> {
+    const revokedIds = await this.loadRevokedIds();
+    const revoked: number[] = [];
+
+    for (const proofId of Array.from(new Set(proofIds))) {
+      const proof = await storage.getZKPProof(proofId);
+      if (!proof || (options.patientDID && proof.patientDID !== options.patientDID)) continue;
+
+      await storage.deactivateZKPProof(proofId);
+      if (revokedIds.has(proofId)) continue;
+
+      const entries = await storage.getZKPProofRevocations();
+      const proofHash = ProofRevocationRegistry.proofHash(proof);
+      const leaves = [...entries, { proofId, proofHash }].map(e => ProofRevocationRegistry.leafHash(e));
+      const levels = ProofRevocationRegistry.merkleLevels(leaves);
+
+      await storage.createZKPProofRevocation({
+        proofId,
+        proofHash,
+        patientDID: proof.patientDID,
+        reason: options.reason,
+        revokedBy: options.revokedBy,
+        merkleRoot: levels[levels.length - 1][0],
+        listSize: leaves.length,
+      });
+      revokedIds.add(proofId);
+      revoked.push(proofId);
+    }
+
+    const { merkleRoot, listSize } = await this.getRevocationListRoot();
+    if (revoked.length > 0) {
+      await auditService.anchorRevocationRoot(merkleRoot, listSize);
+    }
+
+    return { revoked, merkleRoot, listSize };
+  }
+
+  /**
+   * Whether a proof is on the revocation list
+   */
+  async isRevoked(proofId: number): Promise<boolean> {
+    const revokedIds = await this.loadRevokedIds();
+    if (revokedIds.has(proofId)) return true;
+
+    // Another instance may have revoked it since the cache was loaded
+    const entry = await storage.getZKPProofRevocation(proofId);
+    if (entry) revokedIds.add(proofId);
+    return !!entry;
+  }
+
+  /**
+   * Current Merkle root of the revocation list
+   */
+  async getRevocationListRoot(): Promise<{ merkleRoot: string; listSize: number }> {
+    const entries = await storage.getZKPProofRevocations();
+    const levels = ProofRevocationRegistry.merkleLevels(entries.map(e => ProofRevocationRegistry.leafHash(e)));
+    return { merkleRoot: levels[levels.length - 1][0], listSize: entries.length };
+  }
+
+  /**
+   * Merkle inclusion proof showing a proof is on the revocation list
+   */
+  async getInclusionProof(proofId: number): Promise<RevocationInclusionProof | null> {
+    const entries: ZKPProofRevocation[] = await storage.getZKPProofRevocations();
+    const index = entries.findIndex(e => e.proofId === proofId);
+    if (index === -1) return null;
+
+    const leaves = entries.map(e => ProofRevocationRegistry.leafHash(e));
+    const levels = ProofRevocationRegistry.merkleLevels(leaves);
+    const siblings: RevocationInclusionProof['siblings'] = [];
+
+    let position = index;
+    for (const level of levels.slice(0, -1)) {
+      const isRight = position % 2 === 1;
+      const sibling = isRight ? level[position - 1] : (level[position + 1] ?? level[position]);
+      siblings.push({ hash: sibling, position: isRight ? 'left' : 'right' });
+      position = Math.floor(position / 2);
+    }
+
+    return {
+      proofId,
+      leaf: leaves[index],
+      index,
+      siblings,
+      merkleRoot: levels[levels.length - 1][0],
+      listSize: entries.length,
+    };
+  }
+}
+
+export const proofRevocationRegistry = ProofRevocationRegistry.getInstance();
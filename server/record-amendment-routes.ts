@@ -0,0 +1,79 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { requireCapability } from "./capability-middleware";
+import { consentGrantService } from "./consent-grant-service";
+import { recordAmendmentService } from "./record-amendment-service";
+import { recordAmendmentSchema } from "@shared/schema";
+
+/**
+ * Record Amendment Routes
+ * The submitting hospital appends corrected versions; consented readers see the history.
+ */
+export function registerRecordAmendmentRoutes(app: Express): void {
+
+  /**
+   * POST /api/records/:recordId/amendments
+   * Body: corrected fields plus a reason
+   */
+  app.post("/api/records/:recordId/amendments", requireCapability("submit_records"), async (req, res) => {
+    try {
+      const recordId = parseInt(req.params.recordId, 10);
+      if (isNaN(recordId)) {
+        return res.status(400).json({ error: "Invalid record id" });
+      }
+
+      const parsed = recordAmendmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid amendment" });
+      }
+
+      const record = await storage.getPatientRecordById(recordId);
+      if (!record) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+      if (record.hospital_id !== req.user!.hospital_id) {
+        return res.status(403).json({ error: "Only the hospital that submitted this record can amend it" });
+      }
+
+      const result = await recordAmendmentService.amendRecord(record, parsed.data, req.user!, req);
+      res.status(201).json({
+        success: true,
+        recordId,
+        version: result.version,
+        amendedAt: result.record.amendedAt,
+      });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to amend record: ${error.message}` });
+    }
+  });
+
+  /**
+   * GET /api/records/:recordId/versions
+   * Full history for the submitting hospital or a consented reader
+   */
+  app.get("/api/records/:recordId/versions", requireCapability("lookup_records"), async (req, res) => {
+    try {
+      const recordId = parseInt(req.params.recordId, 10);
+      if (isNaN(recordId)) {
+        return res.status(400).json({ error: "Invalid record id" });
+      }
+
+      const record = await storage.getPatientRecordById(recordId);
+      if (!record) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+      const user = req.user!;
+      if (record.hospital_id !== user.hospital_id && !(await consentGrantService.coversRecord(record, user.id))) {
+        return res.status(403).json({ error: "No active consent covers this record", requiresConsent: true });
+      }
+
+      res.json({
+        recordId,
+        currentVersion: record.currentVersion,
+        versions: await recordAmendmentService.getHistory(recordId),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to load record history" });
+    }
+  });
+}
@@ -0,0 +1,199 @@
+import type { Request } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { zkpService } from "./zkp-service";
+import { proofRevocationRegistry } from "./proof-revocation-service";
+import type { InsertRecordVersion, PatientRecord, RecordAmendment, RecordClinicalDetails, RecordVersion, User } from "@shared/schema";
+
+const AMENDABLE_FIELDS = ["visitDate", "visitType", "diagnosis", "prescription", "physician", "department"] as const;
+type AmendableField = typeof AMENDABLE_FIELDS[number];
+type VersionContent = Pick<PatientRecord, AmendableField>;
+
+export type VerifiedRecordVersion = RecordVersion & {
+  amendedByName: string | null;
+  verified: boolean;
+};
+
+/**
+ * Record Amendment Service
+ * Appends corrected versions to a record. Every version is hashed, chained to its
+ * predecessor and anchored to HCS; the record row always holds the latest one.
+ */
+class RecordAmendmentService {
+  private static instance: RecordAmendmentService;
+
+  static getInstance(): RecordAmendmentService {
+    if (!RecordAmendmentService.instance) {
+      RecordAmendmentService.instance = new RecordAmendmentService();
+    }
+    return RecordAmendmentService.instance;
+  }
+
+  /**
+   * sha256 over the plaintext content, bound to the record, version and predecessor
+   */
+  hashVersion(recordId: number, version: number, content: VersionContent, previousHash: string | null): string {
+    const canonical = JSON.stringify({
+      recordId,
+      version,
+      previousHash,
+      ...Object.fromEntries(AMENDABLE_FIELDS.map(field => [field, content[field] ?? null])),
+    });
+    return createHash("sha256").update(canonical).digest("hex");
+  }
+
+  private contentOf(source: VersionContent): VersionContent {
+    return Object.fromEntries(AMENDABLE_FIELDS.map(field => [field, source[field] ?? null])) as VersionContent;
+  }
+
+  /**
+   * Append a corrected version of a record. Only the submitting hospital may amend.
+   */
+  async amendRecord(record: PatientRecord, amendment: RecordAmendment, user: User, req?: Request): Promise<{ record: PatientRecord; version: number }> {
+    if (record.hospital_id !== user.hospital_id) {
+      throw new Error("Only the hospital that submitted this record can amend it");
+    }
+
+    const current = this.contentOf(record);
+    const next: VersionContent = { ...current };
+    for (const field of AMENDABLE_FIELDS) {
+      if (amendment[field] !== undefined) {
+        (next as any)[field] = amendment[field] === "" && field !== "diagnosis" ? null : amendment[field];
+      }
+    }
+    const changedFields = AMENDABLE_FIELDS.filter(field => next[field] !== current[field]);
+    if (changedFields.length === 0) {
+      throw new Error("The amendment does not change the record");
+    }
+
+    // Records submitted before versioning get their original captured as version 1
+    const history = await storage.getRecordVersions(record.id);
+    const toInsert: InsertRecordVersion[] = [];
+    let previousHash = history.length > 0 ? history[history.length - 1].contentHash : null;
+    if (history.length === 0) {
+      const originalHash = this.hashVersion(record.id, 1, current, null);
+      toInsert.push({
+        recordId: record.id,
+        version: 1,
+        ...current,
+        contentHash: originalHash,
+        previousHash: null,
+        amendedBy: record.submittedBy,
+        hospital_id: record.hospital_id,
+        createdAt: record.submittedAt ?? undefined,
+      });
+      previousHash = originalHash;
+    }
+
+    const version = record.currentVersion + 1;
+    const contentHash = this.hashVersion(record.id, version, next, previousHash);
+    toInsert.push({
+      recordId: record.id,
+      version,
+      ...next,
+      reason: amendment.reason,
+      contentHash,
+      previousHash,
+      amendedBy: user.id,
+      hospital_id: user.hospital_id,
+    });
+
+    // Codes follow the corrected text
+    let analysis: { entities?: any; icd_codes?: any } = {};
+    if (changedFields.includes("diagnosis") || changedFields.includes("prescription")) {
+      try {
+        const zkp = await zkpService;
+        const result = await zkp.analyzeMedicalData({ ...record, ...next });
+        analysis = { entities: result.entities || [], icd_codes: result.icd_codes || [] };
+      } catch (err) {
+        console.error("[NLP/ICD] Failed to analyze amended record:", err);
+      }
+    }
+
+    // Claim commitments are re-sealed from the amended content and swapped in with it
+    const zkp = await zkpService;
+    const [clinical, birthDate] = await Promise.all([
+      storage.getClinicalDetailsByRecordIds([record.id]),
+      zkp.findClaimCommitment(record.id, "birth_date"),
+    ]);
+    const claimCommitments = await zkp.sealRecordClaims({ ...record, ...next, ...analysis }, clinical, birthDate?.value);
+
+    const amended = await storage.amendPatientRecord(record.id, record.currentVersion, { ...next, ...analysis }, toInsert, claimCommitments);
+    await this.reissueClaimProofs(amended, record.currentVersion, user, clinical);
+
+    for (const inserted of toInsert) {
+      await auditService.anchorRecordVersion(record.id, inserted.version, inserted.contentHash, inserted.previousHash ?? null);
+    }
+
+    await auditService.logEvent({
+      eventType: "RECORD_AMENDED",
+      actorType: "HOSPITAL",
+      actorId: user.id.toString(),
+      targetType: "RECORD",
+      targetId: record.id.toString(),
+      action: "AMEND",
+      outcome: "SUCCESS",
+      metadata: {
+        fromVersion: record.currentVersion,
+        toVersion: version,
+        changedFields,
+        reason: amendment.reason,
+        contentHash,
+        previousHash,
+      },
+      severity: "info",
+      hospital_id: user.hospital_id,
+    }, req);
+
+    return { record: amended, version };
+  }
+
+  /**
+   * Revoke the proofs made from the superseded version's commitments and prove the
+   * amended record's claims in the background, as a fresh submission would.
+   */
+  private async reissueClaimProofs(record: PatientRecord, supersededVersion: number, user: User, clinical: RecordClinicalDetails): Promise<void> {
+    if (!record.patientDID) return;
+    const patientDID = record.patientDID;
+    const superseded = (await storage.getZKPProofsByPatientDID(patientDID))
+      .filter(proof => proof.isActive && (proof.proofData as { recordId?: number } | null)?.recordId === record.id)
+      .map(proof => proof.id);
+    if (superseded.length > 0) {
+      await proofRevocationRegistry.revokeProofs(superseded, {
+        revokedBy: user.id.toString(),
+        patientDID,
+        reason: `Record ${record.id} version ${supersededVersion} was amended`,
+      });
+    }
+
+    const zkp = await zkpService;
+    zkp.openRecordClaims(record.id)
+      .then(commitments => zkp.generateProofsFromMedicalData(patientDID, { ...record, clinical }, {
+        entities: record.entities || [],
+        icd_codes: record.icd_codes || [],
+      }, commitments))
+      .catch(err => console.error("[ZKP] Proof generation for amended record failed:", err));
+  }
+
+  /**
+   * All versions, oldest first, each checked against its stored hash and chain link
+   */
+  async getHistory(recordId: number): Promise<VerifiedRecordVersion[]> {
+    const versions = await storage.getRecordVersions(recordId);
+    const names = new Map<number, string | null>();
+    for (const id of Array.from(new Set(versions.map(v => v.amendedBy)))) {
+      names.set(id, (await storage.getUser(id))?.hospitalName ?? null);
+    }
+
+    return versions.map((version, index) => {
+      const expectedPrevious = index === 0 ? null : versions[index - 1].contentHash;
+      const verified = version.previousHash === expectedPrevious &&
+        this.hashVersion(recordId, version.version, version, version.previousHash) === version.contentHash;
+      const { encKeys, ...rest } = version;
+      return { ...rest, encKeys: null, amendedByName: names.get(version.amendedBy) ?? null, verified };
+    });
+  }
+}
+
+export const recordAmendmentService = RecordAmendmentService.getInstance();
@@ -0,0 +1,246 @@
+import type { Express, Request, Response } from "express";
+import busboy from "busboy";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { requireCapability } from "./capability-middleware";
+import { consentGrantService } from "./consent-grant-service";
+import { sessionPatientOwnsRecord } from "./patient-auth-middleware";
+import { recordAttachmentService, AttachmentTooLargeError, type AttachmentSummary, type DownloadActor } from "./record-attachment-service";
+import type { PatientRecord, RecordAttachment } from "@shared/schema";
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  isAttachmentCategory,
+} from "@shared/attachments";
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Decrypt an attachment straight into the response
+ */
+async function streamAttachment(res: Response, attachment: RecordAttachment, record: PatientRecord): Promise<void> {
+  const plaintext = await recordAttachmentService.openDecryptedStream(attachment, record);
+  res.setHeader("Content-Type", attachment.mimeType);
+  res.setHeader("Content-Length", attachment.sizeBytes.toString());
+  res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(attachment.filename)}"`);
+  res.setHeader("Cache-Control", "no-store");
+  await pipeline(plaintext, res);
+}
+
+/**
+ * Stream an attachment and log the download; a failure before the first byte is a 502
+ */
+async function sendAttachment(
+  req: Request,
+  res: Response,
+  attachment: RecordAttachment,
+  record: PatientRecord,
+  actor: DownloadActor
+): Promise<void> {
+  try {
+    await streamAttachment(res, attachment, record);
+    await recordAttachmentService.logDownload(attachment, actor, "SUCCESS", req);
+  } catch (error: any) {
+    await recordAttachmentService.logDownload(attachment, actor, "FAILURE", req, error.message);
+    if (!res.headersSent) {
+      res.status(502).json({ error: "Failed to retrieve attachment" });
+      return;
+    }
+    res.destroy(error);
+  }
+}
+
+/**
+ * Record Attachment Routes
+ * Upload encrypted documents to a record and download them under consent.
+ */
+export function registerRecordAttachmentRoutes(app: Express): void {
+
+  /**
+   * POST /api/records/:recordId/attachments
+   * multipart/form-data with a `category` field followed by a single `file` part
+   */
+  app.post("/api/records/:recordId/attachments", requireCapability("submit_records"), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const recordId = parseId(req.params.recordId);
+      if (!recordId) {
+        return res.status(400).json({ error: "Invalid record id" });
+      }
+      if (!req.is("multipart/form-data")) {
+        return res.status(400).json({ error: "Expected multipart/form-data" });
+      }
+
+      const record = await storage.getPatientRecordById(recordId);
+      if (!record) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+      if (record.hospital_id !== user.hospital_id) {
+        return res.status(403).json({ error: "Attachments can only be added by the hospital that created the record" });
+      }
+
+      let parser: busboy.Busboy;
+      try {
+        // Allow a byte past the limit so oversized files reach the service check
+        parser = busboy({ headers: req.headers, limits: { files: 1, fields: 5, fileSize: MAX_ATTACHMENT_BYTES + 1 } });
+      } catch (error: any) {
+        return res.status(400).json({ error: `Invalid upload: ${error.message}` });
+      }
+
+      const fields: Record<string, string> = {};
+      const parsed: { upload?: Promise<AttachmentSummary>; rejection?: { status: number; error: string } } = {};
+
+      parser.on("field", (name, value) => {
+        fields[name] = value;
+      });
+
+      parser.on("file", (name, file, info) => {
+        const category = fields.category || "other";
+        if (name !== "file" || parsed.upload || parsed.rejection) {
+          file.resume();
+          return;
+        }
+        if (!isAttachmentCategory(category)) {
+          parsed.rejection = { status: 400, error: "Invalid attachment category" };
+          file.resume();
+          return;
+        }
+        if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(info.mimeType)) {
+          parsed.rejection = { status: 415, error: `Unsupported file type: ${info.mimeType}` };
+          file.resume();
+          return;
+        }
+
+        parsed.upload = recordAttachmentService.storeUpload(
+          record,
+          file,
+          { filename: info.filename || "attachment", mimeType: info.mimeType, category },
+          user,
+          req
+        );
+        // Awaited once the request has been parsed
+        parsed.upload.catch(() => {});
+      });
+
+      try {
+        await pipeline(req, parser);
+        if (parsed.rejection) {
+          return res.status(parsed.rejection.status).json({ error: parsed.rejection.error });
+        }
+        if (!parsed.upload) {
+          return res.status(400).json({ error: "No file provided" });
+        }
+
+        const attachment = await parsed.upload;
+        res.status(201).json({ success: true, attachment });
+      } catch (error: any) {
+        if (error instanceof AttachmentTooLargeError) {
+          return res.status(413).json({ error: error.message });
+        }
+        res.status(500).json({ error: `Failed to store attachment: ${error.message}` });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/records/:recordId/attachments
+   */
+  app.get("/api/records/:recordId/attachments", requireCapability("lookup_records"), async (req, res) => {
+    try {
+      const recordId = parseId(req.params.recordId);
+      if (!recordId) {
+        return res.status(400).json({ error: "Invalid record id" });
+      }
+
+      const record = await storage.getPatientRecordById(recordId);
+      if (!record) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+      if (!(await consentGrantService.coversRecord(record, req.user!.id))) {
+        return res.status(403).json({ error: "No active consent covers this record", requiresConsent: true });
+      }
+
+      res.json({ attachments: await recordAttachmentService.listForRecord(recordId) });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to list attachments" });
+    }
+  });
+
+  /**
+   * GET /api/records/:recordId/attachments/:attachmentId/download
+   */
+  app.get("/api/records/:recordId/attachments/:attachmentId/download", requireCapability("lookup_records"), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const actor = { type: "HOSPITAL" as const, id: user.id.toString(), hospitalId: user.hospital_id };
+      const recordId = parseId(req.params.recordId);
+      const attachmentId = parseId(req.params.attachmentId);
+      if (!recordId || !attachmentId) {
+        return res.status(400).json({ error: "Invalid attachment id" });
+      }
+
+      const attachment = await storage.getRecordAttachmentById(attachmentId);
+      const record = attachment?.recordId === recordId ? await storage.getPatientRecordById(recordId) : undefined;
+      if (!attachment || !record) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      if (!(await consentGrantService.coversRecord(record, user.id))) {
+        await recordAttachmentService.logDownload(attachment, actor, "FAILURE", req, "no_consent");
+        return res.status(403).json({ error: "No active consent covers this record", requiresConsent: true });
+      }
+
+      await sendAttachment(req, res, attachment, record, actor);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/patient/records/:recordId/attachments
+   * The signed-in patient's own attachments
+   */
+  app.get("/api/patient/records/:recordId/attachments", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      const recordId = parseId(req.params.recordId);
+      const record = recordId ? await storage.getPatientRecordById(recordId) : undefined;
+      if (!record || !(await sessionPatientOwnsRecord(req, record))) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+
+      res.json({ attachments: await recordAttachmentService.listForRecord(record.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to list attachments" });
+    }
+  });
+
+  /**
+   * GET /api/patient/attachments/:attachmentId/download
+   */
+  app.get("/api/patient/attachments/:attachmentId/download", async (req, res, next) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      const attachmentId = parseId(req.params.attachmentId);
+      const attachment = attachmentId ? await storage.getRecordAttachmentById(attachmentId) : undefined;
+      const record = attachment ? await storage.getPatientRecordById(attachment.recordId) : undefined;
+      const patientDID = record ? await sessionPatientOwnsRecord(req, record) : null;
+      if (!attachment || !record || !patientDID) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      await sendAttachment(req, res, attachment, record, { type: "PATIENT", id: patientDID });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,229 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { secureKeyVault } from "./secure-key-vault";
+import { enhancedEncryptionService } from "./enhanced-encryption-service";
+import { enhancedStorageService } from "./enhanced-storage-service";
+import { filecoinDealService } from "./filecoin-deal-service";
+import { permissionService } from "./permission-service";
+import type { PatientRecord, RecordAttachment, User } from "@shared/schema";
+import { MAX_ATTACHMENT_BYTES, type AttachmentCategory } from "@shared/attachments";
+
+/**
+ * Raised when an upload stream passes MAX_ATTACHMENT_BYTES
+ */
+export class AttachmentTooLargeError extends Error {
+  constructor() {
+    super(`Attachment exceeds the ${Math.round(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB limit`);
+    this.name = "AttachmentTooLargeError";
+  }
+}
+
+export interface AttachmentUpload {
+  filename: string;
+  mimeType: string;
+  category: AttachmentCategory;
+}
+
+export type AttachmentSummary = Omit<RecordAttachment, "encryptionKey" | "iv" | "authTag" | "localPath" | "locations">;
+
+export type DownloadActor = { type: "HOSPITAL" | "PATIENT"; id: string; hospitalId?: number };
+
+/**
+ * Record Attachment Service
+ * Encrypts uploaded documents chunk by chunk, stores the ciphertext with triple
+ * redundancy and streams it back decrypted; files never sit in memory whole.
+ */
+class RecordAttachmentService {
+  private static instance: RecordAttachmentService;
+
+  static getInstance(): RecordAttachmentService {
+    if (!RecordAttachmentService.instance) {
+      RecordAttachmentService.instance = new RecordAttachmentService();
+    }
+    return RecordAttachmentService.instance;
+  }
+
+  /**
+   * Identity the ciphertext is bound to; traditional records have no DID
+   */
+  private patientBinding(record: PatientRecord): string {
+    return record.patientDID || record.nationalId;
+  }
+
+  /**
+   * Encrypt an upload stream to a temp file, store it and link it to the record
+   */
+  async storeUpload(record: PatientRecord, file: Readable, upload: AttachmentUpload, user: User, req?: Request): Promise<AttachmentSummary> {
+    const binding = this.patientBinding(record);
+    const { cipher, encryptionKey, iv } = enhancedEncryptionService.createAttachmentCipher(binding);
+    const tempPath = path.join(os.tmpdir(), `attachment_${crypto.randomBytes(8).toString("hex")}.enc`);
+    const hash = crypto.createHash("sha256");
+    let size = 0;
+
+    try {
+      // Hash and measure the plaintext on its way into the cipher
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length;
+          if (size > MAX_ATTACHMENT_BYTES) {
+            return callback(new AttachmentTooLargeError());
+          }
+          hash.update(chunk);
+          callback(null, chunk);
+        },
+      });
+      // Piped rather than pipelined so a failure leaves the source drainable;
+      // destroying a multipart part stalls the parser reading the request
+      file.once("error", (error) => meter.destroy(error));
+      file.pipe(meter);
+      try {
+        await pipeline(meter, cipher, fs.createWriteStream(tempPath));
+      } catch (error) {
+        file.unpipe(meter);
+        file.resume();
+        throw error;
+      }
+
+      if (size === 0) {
+        throw new Error("Attachment is empty");
+      }
+
+      const stored = await enhancedStorageService.storeFileWithTripleRedundancy(
+        tempPath,
+        {
+          filename: `attachment_${record.id}_${Date.now()}.enc`,
+          recordType: "attachment",
+          recordId: record.id,
+          hospitalId: user.hospital_id,
+        },
+        binding,
+        permissionService.hospitalKeyFor(user)
+      );
+
+      const attachment = await storage.createRecordAttachment({
+        recordId: record.id,
+        filename: upload.filename,
+        mimeType: upload.mimeType,
+        category: upload.category,
+        sizeBytes: size,
+        sha256: hash.digest("hex"),
+        ipfsCid: stored.ipfsCid,
+        filecoinCid: stored.filecoinCid,
+        locations: stored.locations,
+        encryptionKey: await secureKeyVault.encryptDataKey(encryptionKey),
+        iv,
+        authTag: cipher.getAuthTag().toString("hex"),
+        uploadedBy: user.id,
+        hospital_id: user.hospital_id,
+      });
+      await enhancedStorageService.trackLocations(stored, record.id);
+      await filecoinDealService.openDeals(stored, record.id, permissionService.hospitalKeyFor(user));
+
+      await auditService.logEvent({
+        eventType: "RECORD_ATTACHMENT_UPLOADED",
+        actorType: "HOSPITAL",
+        actorId: user.id.toString(),
+        targetType: "RECORD",
+        targetId: record.id.toString(),
+        action: "UPLOAD",
+        outcome: "SUCCESS",
+        metadata: {
+          attachmentId: attachment.id,
+          category: attachment.category,
+          mimeType: attachment.mimeType,
+          sizeBytes: attachment.sizeBytes,
+          ipfsCid: attachment.ipfsCid,
+        },
+        severity: "info",
+        hospital_id: user.hospital_id,
+      }, req);
+
+      return this.summarize(attachment);
+    } catch (error: any) {
+      await auditService.logEvent({
+        eventType: "RECORD_ATTACHMENT_UPLOADED",
+        actorType: "HOSPITAL",
+        actorId: user.id.toString(),
+        targetType: "RECORD",
+        targetId: record.id.toString(),
+        action: "UPLOAD",
+        outcome: "FAILURE",
+        metadata: { filename: upload.filename, sizeBytes: size, error: error.message },
+        severity: "warning",
+        hospital_id: user.hospital_id,
+      }, req);
+      throw error;
+    } finally {
+      fs.promises.unlink(tempPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Attachments of a record without their key material
+   */
+  async listForRecord(recordId: number): Promise<AttachmentSummary[]> {
+    const attachments = await storage.getRecordAttachments(recordId);
+    return attachments.map(a => this.summarize(a));
+  }
+
+  /**
+   * Plaintext stream of an attachment. A tampered ciphertext fails the GCM tag
+   * check at the end of the stream, which then errors instead of ending.
+   */
+  async openDecryptedStream(attachment: RecordAttachment, record: PatientRecord): Promise<Readable> {
+    const binding = this.patientBinding(record);
+    const encryptionKey = await secureKeyVault.decryptDataKey(attachment.encryptionKey);
+    const decipher = enhancedEncryptionService.createAttachmentDecipher(encryptionKey, attachment.iv, attachment.authTag, binding);
+    const { stream, source } = await enhancedStorageService.openStreamWithFailover(attachment);
+
+    decipher.once("error", (error: Error) => {
+      auditService.logSecurityViolation({
+        violationType: "ATTACHMENT_INTEGRITY_VIOLATION",
+        severity: "critical",
+        targetResource: `attachment:${attachment.id}`,
+        details: { recordId: record.id, source, sha256: attachment.sha256, error: error.message },
+      }).catch(() => {});
+    });
+
+    stream.once("error", (error) => decipher.destroy(error));
+    return stream.pipe(decipher);
+  }
+
+  /**
+   * Audit a completed or refused download
+   */
+  async logDownload(
+    attachment: RecordAttachment,
+    actor: DownloadActor,
+    outcome: "SUCCESS" | "FAILURE",
+    req?: Request,
+    reason?: string
+  ): Promise<void> {
+    await auditService.logEvent({
+      eventType: "RECORD_ATTACHMENT_DOWNLOADED",
+      actorType: actor.type,
+      actorId: actor.id,
+      targetType: "RECORD",
+      targetId: attachment.recordId.toString(),
+      action: "DOWNLOAD",
+      outcome,
+      metadata: { attachmentId: attachment.id, category: attachment.category, sizeBytes: attachment.sizeBytes, reason },
+      severity: outcome === "SUCCESS" ? "info" : "warning",
+      hospital_id: actor.hospitalId,
+    }, req);
+  }
+
+  private summarize(attachment: RecordAttachment): AttachmentSummary {
+    const { encryptionKey, iv, authTag, localPath, locations, ...summary } = attachment;
+    return summary;
+  }
+}
+
+export const recordAttachmentService = RecordAttachmentService.getInstance();
@@ -0,0 +1,123 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { requireCapability } from "./capability-middleware";
+import { requirePatientAuth, sessionPatientOwnsRecord } from "./patient-auth-middleware";
+import { recordCorrectionService, DuplicateCorrectionRequestError } from "./record-correction-service";
+import {
+  acceptCorrectionRequestSchema,
+  recordCorrectionRequestSchema,
+  rejectCorrectionRequestSchema,
+} from "@shared/schema";
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Record Correction Routes
+ * Patients dispute their records; the submitting hospital works through the queue.
+ */
+export function registerRecordCorrectionRoutes(app: Express): void {
+
+  /**
+   * POST /api/patient/records/:recordId/corrections
+   * Body: { description }
+   */
+  app.post("/api/patient/records/:recordId/corrections", requirePatientAuth, async (req, res) => {
+    try {
+      const recordId = parseId(req.params.recordId);
+      const record = recordId ? await storage.getPatientRecordById(recordId) : undefined;
+      const patientDID = record ? await sessionPatientOwnsRecord(req, record) : null;
+      if (!record || !patientDID) {
+        return res.status(404).json({ error: "Record not found" });
+      }
+
+      const parsed = recordCorrectionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid correction request" });
+      }
+
+      const request = await recordCorrectionService.submit(record, patientDID, parsed.data.description, "portal", "en", req);
+      res.status(201).json({ success: true, request });
+    } catch (error: any) {
+      if (error instanceof DuplicateCorrectionRequestError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to submit correction request" });
+    }
+  });
+
+  /**
+   * The signed-in patient's correction requests and their outcomes
+   * GET /api/patient/correction-requests
+   */
+  app.get("/api/patient/correction-requests", requirePatientAuth, async (req, res) => {
+    try {
+      const requests = await recordCorrectionService.listForPatient(req.session.patientDID!);
+      res.json({ success: true, requests });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to load correction requests" });
+    }
+  });
+
+  /**
+   * Correction requests against this hospital's records
+   * GET /api/correction-requests?status=pending
+   */
+  app.get("/api/correction-requests", requireCapability("submit_records"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      const requests = await recordCorrectionService.getQueue(req.user!.hospital_id, status);
+      res.json({ success: true, requests });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to load correction requests" });
+    }
+  });
+
+  /**
+   * Accept: apply the corrected fields as a new record version
+   * POST /api/correction-requests/:id/accept
+   */
+  app.post("/api/correction-requests/:id/accept", requireCapability("submit_records"), async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (!id) {
+        return res.status(400).json({ error: "Invalid correction request id" });
+      }
+
+      const parsed = acceptCorrectionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid correction" });
+      }
+
+      const result = await recordCorrectionService.accept(id, parsed.data, req.user!, req);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to accept correction request: ${error.message}` });
+    }
+  });
+
+  /**
+   * Reject with a reason the patient will see
+   * POST /api/correction-requests/:id/reject
+   */
+  app.post("/api/correction-requests/:id/reject", requireCapability("submit_records"), async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (!id) {
+        return res.status(400).json({ error: "Invalid correction request id" });
+      }
+
+      const parsed = rejectCorrectionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid rejection" });
+      }
+
+      const result = await recordCorrectionService.reject(id, parsed.data.reason, req.user!, req);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to reject correction request: ${error.message}` });
+    }
+  });
+}
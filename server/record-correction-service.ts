@@ -0,0 +1,274 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { smsService } from "./sms-service";
+import { emailService } from "./email-service";
+import { messageCatalog, type Locale } from "./message-catalog";
+import { recordAmendmentService } from "./record-amendment-service";
+import type { AcceptCorrectionRequest, PatientRecord, RecordCorrectionRequest, User } from "@shared/schema";
+
+export const CORRECTION_CHANNELS = ['portal', 'ussd'] as const;
+export type CorrectionChannel = typeof CORRECTION_CHANNELS[number];
+
+export class DuplicateCorrectionRequestError extends Error {
+  constructor() {
+    super('A correction request for this record is already pending');
+    this.name = 'DuplicateCorrectionRequestError';
+  }
+}
+
+export interface CorrectionQueueEntry {
+  request: RecordCorrectionRequest;
+  patientName: string | null;
+  record: Pick<PatientRecord, 'id' | 'visitDate' | 'visitType' | 'diagnosis' | 'prescription' | 'physician' | 'department' | 'currentVersion'> | null;
+}
+
+/**
+ * Record Correction Service
+ * Patients dispute a record from the portal or USSD; staff at the hospital that
+ * submitted it accept (appending an amendment) or reject with a reason. The patient
+ * hears the outcome by SMS and email, and every step lands in the audit trail.
+ */
+class RecordCorrectionService {
+  private static instance: RecordCorrectionService;
+
+  static getInstance(): RecordCorrectionService {
+    if (!RecordCorrectionService.instance) {
+      RecordCorrectionService.instance = new RecordCorrectionService();
+    }
+    return RecordCorrectionService.instance;
+  }
+
+  /**
+   * Open a request against one of the patient's records; one pending request per record
+   */
+  async submit(
+    record: PatientRecord,
+    patientDID: string,
+    description: string,
+    channel: CorrectionChannel,
+    locale: Locale = 'en',
+    req?: Request
+  ): Promise<RecordCorrectionRequest> {
+    const pending = await storage.getRecordCorrectionRequests({ recordId: record.id, patientDID, status: 'pending' });
+    if (pending.length > 0) {
+      throw new DuplicateCorrectionRequestError();
+    }
+
+    const request = await storage.createRecordCorrectionRequest({
+      recordId: record.id,
+      patientDID,
+      description,
+      channel,
+      locale,
+      status: 'pending',
+      hospital_id: record.hospital_id,
+    });
+
+    await auditService.logEvent({
+      eventType: "RECORD_CORRECTION_REQUESTED",
+      actorType: "PATIENT",
+      actorId: patientDID,
+      targetType: "RECORD",
+      targetId: record.id.toString(),
+      action: "REQUEST_CORRECTION",
+      outcome: "SUCCESS",
+      metadata: { correctionRequestId: request.id, channel },
+      severity: "info",
+      hospital_id: record.hospital_id,
+    }, req);
+
+    return request;
+  }
+
+  async listForPatient(patientDID: string): Promise<RecordCorrectionRequest[]> {
+    return storage.getRecordCorrectionRequests({ patientDID });
+  }
+
+  /**
+   * Requests against the hospital's own records, oldest first, with the disputed record alongside
+   */
+  async getQueue(hospital_id: number, status?: string): Promise<CorrectionQueueEntry[]> {
+    const requests = await storage.getRecordCorrectionRequests({ hospital_id, status });
+    return Promise.all(requests.map(async request => {
+      const record = await storage.getPatientRecordById(request.recordId);
+      const profile = await storage.getPatientProfileByDID(request.patientDID);
+      return {
+        request,
+        patientName: profile?.fullName ?? null,
+        record: record ? {
+          id: record.id,
+          visitDate: record.visitDate,
+          visitType: record.visitType,
+          diagnosis: record.diagnosis,
+          prescription: record.prescription,
+          physician: record.physician,
+          department: record.department,
+          currentVersion: record.currentVersion,
+        } : null,
+      };
+    }));
+  }
+
+  /**
+   * Apply the corrected fields as an amendment and close the request
+   */
+  async accept(
+    id: number,
+    correction: AcceptCorrectionRequest,
+    reviewer: User,
+    req?: Request
+  ): Promise<{ request: RecordCorrectionRequest; version: number; patientNotified: string[] }> {
+    const existing = await this.getScopedRequest(id, reviewer.hospital_id);
+    const record = await storage.getPatientRecordById(existing.recordId);
+    if (!record) {
+      throw new Error('Record not found');
+    }
+
+    // Claim the request first so two reviewers cannot both resolve it
+    const claimed = await storage.updateRecordCorrectionRequest(id, {
+      status: 'accepted',
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      resolutionNote: correction.note || null,
+    }, 'pending');
+    if (!claimed) {
+      throw new Error('This correction request has already been resolved');
+    }
+
+    const { note, ...fields } = correction;
+    let version: number;
+    try {
+      ({ version } = await recordAmendmentService.amendRecord(record, {
+        ...fields,
+        reason: `Patient correction request #${id}${note ? `: ${note}` : ''}`,
+      }, reviewer, req));
+    } catch (error) {
+      await storage.updateRecordCorrectionRequest(id, { status: 'pending', reviewedBy: null, reviewedAt: null, resolutionNote: null });
+      throw error;
+    }
+
+    let request = (await storage.updateRecordCorrectionRequest(id, { amendmentVersion: version }))!;
+    const patientNotified = await this.notifyPatient(request, record, reviewer.hospitalName);
+    if (patientNotified.length > 0) {
+      request = { ...request, patientNotifiedAt: new Date() };
+    }
+
+    await auditService.logEvent({
+      eventType: "RECORD_CORRECTION_ACCEPTED",
+      actorType: "HOSPITAL",
+      actorId: reviewer.id.toString(),
+      targetType: "RECORD",
+      targetId: record.id.toString(),
+      action: "RESOLVE_CORRECTION",
+      outcome: "SUCCESS",
+      metadata: { correctionRequestId: id, patientDID: existing.patientDID, version, note: note || null, patientNotified },
+      severity: "info",
+      hospital_id: reviewer.hospital_id,
+    }, req);
+
+    return { request, version, patientNotified };
+  }
+
+  /**
+   * Close the request without changing the record
+   */
+  async reject(
+    id: number,
+    reason: string,
+    reviewer: User,
+    req?: Request
+  ): Promise<{ request: RecordCorrectionRequest; patientNotified: string[] }> {
+    const existing = await this.getScopedRequest(id, reviewer.hospital_id);
+    let request = await storage.updateRecordCorrectionRequest(id, {
+      status: 'rejected',
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      resolutionNote: reason,
+    }, 'pending');
+    if (!request) {
+      throw new Error('This correction request has already been resolved');
+    }
+
+    const record = await storage.getPatientRecordById(existing.recordId);
+    const patientNotified = record ? await this.notifyPatient(request, record, reviewer.hospitalName) : [];
+    if (patientNotified.length > 0) {
+      request = { ...request, patientNotifiedAt: new Date() };
+    }
+
+    await auditService.logEvent({
+      eventType: "RECORD_CORRECTION_REJECTED",
+      actorType: "HOSPITAL",
+      actorId: reviewer.id.toString(),
+      targetType: "RECORD",
+      targetId: existing.recordId.toString(),
+      action: "RESOLVE_CORRECTION",
+      outcome: "SUCCESS",
+      metadata: { correctionRequestId: id, patientDID: existing.patientDID, reason, patientNotified },
+      severity: "info",
+      hospital_id: reviewer.hospital_id,
+    }, req);
+
+    return { request, patientNotified };
+  }
+
+  private async getScopedRequest(id: number, hospital_id: number): Promise<RecordCorrectionRequest> {
+    const request = await storage.getRecordCorrectionRequestById(id);
+    if (!request || request.hospital_id !== hospital_id) {
+      throw new Error('Correction request not found');
+    }
+    if (request.status !== 'pending') {
+      throw new Error('This correction request has already been resolved');
+    }
+    return request;
+  }
+
+  // Delivery failures are logged but never reopen a resolved request; returns the channels that worked
+  private async notifyPatient(request: RecordCorrectionRequest, record: PatientRecord, hospitalName: string): Promise<string[]> {
+    const profile = await storage.getPatientProfileByDID(request.patientDID);
+    if (!profile) return [];
+
+    const accepted = request.status === 'accepted';
+    const locale = messageCatalog.resolveLocale(request.locale);
+    const notified: string[] = [];
+
+    if (profile.phoneNumber) {
+      try {
+        await smsService.sendTemplateSMS({
+          to: profile.phoneNumber,
+          key: accepted ? 'sms.correctionAccepted' : 'sms.correctionRejected',
+          params: { hospital: hospitalName, date: record.visitDate, reason: request.resolutionNote || '' },
+          locale,
+        });
+        notified.push('sms');
+      } catch (error) {
+        console.error(`[RecordCorrectionService] SMS for correction request ${request.id} failed: ${error}`);
+      }
+    }
+
+    if (profile.email) {
+      try {
+        await emailService.sendRecordCorrectionOutcomeEmail({
+          to: profile.email,
+          patientName: profile.fullName,
+          hospitalName,
+          visitDate: record.visitDate,
+          outcome: accepted ? 'accepted' : 'rejected',
+          description: request.description,
+          response: request.resolutionNote,
+          locale,
+        });
+        notified.push('email');
+      } catch (error) {
+        console.error(`[RecordCorrectionService] Email for correction request ${request.id} failed: ${error}`);
+      }
+    }
+
+    if (notified.length > 0) {
+      await storage.updateRecordCorrectionRequest(request.id, { patientNotifiedAt: new Date() });
+    }
+    return notified;
+  }
+}
+
+export const recordCorrectionService = RecordCorrectionService.getInstance();
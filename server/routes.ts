@@ -3,10 +3,22 @@ import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
 import { insertPatientRecordSchema, insertConsentRecordSchema } from "@shared/schema";
+import { clinicalDetailsSchema } from "@shared/clinical";
 import { registerWeb3Routes } from "./web3-routes";
 import { registerSimplifiedPatientRoutes } from "./simplified-patient-routes";
 import { registerSecurityTestingRoutes } from "./security-testing-routes";
 import { registerFilecoinRoutes } from "./filecoin-routes";
+import { registerUssdRoutes } from "./ussd-routes";
+import { registerConsentDelegationRoutes } from "./consent-delegation-routes";
+import { registerEmergencyReviewRoutes } from "./emergency-review-routes";
+import { registerDutyRosterRoutes } from "./duty-roster-routes";
+import { registerPermissionRoutes } from "./permission-routes";
+import { registerFhirRoutes } from "./fhir-routes";
+import { registerRecordAttachmentRoutes } from "./record-attachment-routes";
+import { registerRecordAmendmentRoutes } from "./record-amendment-routes";
+import { registerRecordCorrectionRoutes } from "./record-correction-routes";
+import { registerStorageProviderRoutes } from "./storage-provider-routes";
+import { dutyRosterService } from "./duty-roster-service";
 
 import staffManagementRoutes from "./staff-management-routes";
 import { patientLookupService } from "./patient-lookup-service";
@@ -14,12 +26,16 @@ import { emergencyConsentService } from "./emergency-consent-service"; // Import
 import { emergencyCredentialService } from "./emergency-credential-service"; // Import EmergencyCredentialService
 import { z } from "zod";
 import { auditService } from "./audit-service";
+import { consentGrantService, consentScopeSchema } from "./consent-grant-service";
 import { consentService, ipfsService } from "./web3-services";
 import { secureKeyVault } from "./secure-key-vault";
 import { ipfsRedundancyService } from "./ipfs-redundancy-service";
 import { smsService } from "./sms-service";
 import { redisService } from "./redis-service";
 import { requireAdminAuth } from "./admin-auth-middleware";
+import { requireCapability } from "./capability-middleware";
+import { permissionService } from "./permission-service";
+import { clinicalRecordService } from "./clinical-record-service";
 import zkpRoutes from "./zkp-routes";
 import { StaffInvitationService } from "./staff-invitation-service";
 import { zkpService } from "./zkp-service";
@@ -61,6 +77,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Simplified patient routes with Web3 backend, Web2 UX
   registerSimplifiedPatientRoutes(app);
 
+  // Guardian / caregiver consent delegation
+  registerConsentDelegationRoutes(app);
+  registerEmergencyReviewRoutes(app);
+  registerDutyRosterRoutes(app);
+  registerPermissionRoutes(app);
+  registerFhirRoutes(app);
+  registerRecordAttachmentRoutes(app);
+  registerRecordAmendmentRoutes(app);
+  registerRecordCorrectionRoutes(app);
+  registerStorageProviderRoutes(app);
+
   // Setup Web3 routes
   registerWeb3Routes(app);
 
@@ -70,6 +97,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup ZKP routes
   app.use('/api/zkp', zkpRoutes);
 
+  // Setup USSD routes (Africa's Talking callback and local simulator)
+  registerUssdRoutes(app);
+
   // Analytics: Disease summary from verified ZK proofs (aggregated, privacy-preserving)
   app.get('/api/analytics/disease-summary', async (req, res, next) => {
     try {
@@ -96,19 +126,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Staff Management routes
   app.use('/api/staff', staffManagementRoutes);
 
-  // Submit patient record (Hospital A)
-  app.post("/api/submit_record", async (req, res, next) => {
+  // Submit patient record
+  app.post("/api/submit_record", requireCapability("submit_records"), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "A") {
-        return res.status(403).json({ message: "Only Hospital A can submit records" });
-      }
 
       const validatedData = insertPatientRecordSchema.parse(req.body);
+      const clinical = clinicalDetailsSchema.optional().parse(req.body.clinical);
+      // Optional birth date, committed with the record so age claims can be proven later
+      const { dateOfBirth } = z.object({ dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional() }).parse(req.body);
       
       // Check if a patient profile exists for this National ID
       const patientProfile = await storage.getPatientProfileByNationalId(validatedData.nationalId);
@@ -138,15 +168,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log("Record data prepared for insert");
       }
       const record = await storage.createPatientRecord(recordData);
+      const clinicalDetails = clinical ? await clinicalRecordService.saveDetails(record.id, clinical) : undefined;
 
-      // Fire-and-forget: generate dynamic ZK proofs from NLP/ICD analysis (non-blocking)
+      // Fire-and-forget: commit claimable fields, then generate dynamic ZK proofs from NLP/ICD analysis (non-blocking)
       try {
         const zkp = await zkpService;
-        if (recordData.patientDID) {
-          zkp.generateProofsFromMedicalData(recordData.patientDID, validatedData, {
-            entities: recordData.entities || [],
-            icd_codes: recordData.icd_codes || [],
-          }).catch(err => console.error('[ZKP] Proof generation failed:', err));
+        const patientDID = recordData.patientDID;
+        if (patientDID) {
+          zkp.commitRecordClaims(record, clinical, dateOfBirth)
+            .then(commitments => zkp.generateProofsFromMedicalData(patientDID, { ...validatedData, clinical }, {
+              entities: recordData.entities || [],
+              icd_codes: recordData.icd_codes || [],
+            }, commitments))
+            .catch(err => console.error('[ZKP] Proof generation failed:', err));
         }
       } catch (e) {
         console.error('[ZKP] Skipping auto-proof generation:', e);
@@ -157,23 +191,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         recordId: record.id,
         recordType: recordData.recordType,
         patientDID: recordData.patientDID,
+        clinical: clinicalDetails,
       });
     } catch (error) {
       next(error);
     }
   });
 
-  // Phone-based patient lookup for Web3 (Hospital B)
-  app.post("/api/patient-lookup/phone", async (req, res, next) => {
+  // Phone-based patient lookup for Web3
+  app.post("/api/patient-lookup/phone", requireCapability("lookup_records"), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "B") {
-        return res.status(403).json({ message: "Only Hospital B can access patient lookup" });
-      }
 
       const { phoneNumber } = z.object({ phoneNumber: z.string() }).parse(req.body);
       
@@ -189,17 +221,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get patient records (Hospital B)
-  app.post("/api/get_records", async (req, res, next) => {
+  // Get patient records
+  app.post("/api/get_records", requireCapability("lookup_records"), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "B") {
-        return res.status(403).json({ message: "Only Hospital B can retrieve records" });
-      }
 
       const { nationalId } = z.object({ nationalId: z.string() }).parse(req.body);
       
@@ -212,42 +241,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if patient has a Web3 profile
       const patientProfile = await storage.getPatientProfileByNationalId(nationalId);
 
-      // Check if consent has been granted for this hospital
-      const consentRecords = await storage.getConsentRecordsByPatientId(nationalId, user.id);
-      // Compute traditional consent validity as last GRANTED access within 12 hours
-      // Only consider consent records where consentGrantedBy is a numeric hospital id (not "pending")
-      const grantedRecords = consentRecords.filter((r: any) => typeof r.consentGrantedBy === 'string' && /^\d+$/.test(r.consentGrantedBy));
-      let hasConsent = false;
-      let traditionalConsentExpiresAt: Date | undefined = undefined;
-      if (grantedRecords.length > 0) {
-        const lastAccessed = grantedRecords
-          .map(r => r.accessedAt)
-          .filter((d: any) => !!d)
-          .sort((a: any, b: any) => new Date(b as any).getTime() - new Date(a as any).getTime())[0] as Date | undefined;
-        if (lastAccessed) {
-          const expires = new Date(new Date(lastAccessed).getTime() + 12 * 60 * 60 * 1000);
-          traditionalConsentExpiresAt = expires;
-          hasConsent = new Date() < expires;
-        }
-      }
-
-      // If patient has DID, also consider Web3 consent (stricter, stored with explicit expiresAt)
-      let web3ConsentExpiresAt: Date | undefined = undefined;
-      if (patientProfile?.patientDID) {
-        const web3Consents = await storage.getConsentByPatientAndRequester(
-          patientProfile.patientDID,
-          `did:medbridge:hospital:${user.id}`
-        );
-        const active = web3Consents.filter(c => c.consentGiven && !c.revokedAt && (!c.expiresAt || new Date() < c.expiresAt));
-        if (active.length > 0) {
-          // Take the soonest expiry among active consents
-          const expList = active.map(c => c.expiresAt).filter(Boolean) as Date[];
-          if (expList.length > 0) {
-            web3ConsentExpiresAt = new Date(Math.min(...expList.map(d => new Date(d).getTime())));
-          }
-          hasConsent = true;
-        }
-      }
+      // Only records named by an active consent grant are released
+      const covered = await consentGrantService.getCoveredRecords(records, nationalId, user.id, patientProfile?.patientDID);
+      const hasConsent = covered.records.length > 0;
 
       // If consent is NOT valid, avoid returning PII or medical details
       if (!hasConsent) {
@@ -266,10 +262,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         patientDID: patientProfile?.patientDID,
         hasWeb3Profile: !!patientProfile,
         hasConsent: true,
-        consentExpiresAt: web3ConsentExpiresAt || traditionalConsentExpiresAt || null,
-        consentType: web3ConsentExpiresAt ? 'web3' : 'traditional',
+        consentExpiresAt: covered.expiresAt,
+        consentType: patientProfile?.patientDID ? 'web3' : 'traditional',
         totalRecords: records.length,
-        records: records.map(record => ({
+        coveredRecordCount: covered.records.length,
+        consentGrants: covered.grants.map(g => ({
+          id: g.id,
+          recordIds: g.recordIds,
+          recordTypes: g.recordTypes,
+          dateFrom: g.dateFrom,
+          dateTo: g.dateTo,
+          expiresAt: g.expiresAt,
+        })),
+        records: (await clinicalRecordService.attachDetails(covered.records)).map(record => ({
           id: record.id,
           visitDate: record.visitDate,
           visitType: record.visitType,
@@ -279,6 +284,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           department: record.department,
           submittedAt: record.submittedAt,
           recordType: record.recordType,
+          clinical: record.clinical,
+          currentVersion: record.currentVersion,
+          amendedAt: record.amendedAt,
+          canAmend: record.hospital_id === user.hospital_id,
         })),
       });
     } catch (error) {
@@ -287,16 +296,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Request consent for patient records
-  app.post("/api/request-consent", async (req, res, next) => {
+  app.post("/api/request-consent", requireCapability("request_consent"), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "B") {
-        return res.status(403).json({ message: "Only Hospital B can request consent" });
-      }
 
       console.log("Consent request user object:", user);
       console.log("Consent request hospital_id value:", user.hospital_id);
@@ -373,9 +379,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = req.user!;
-      const { nationalId, consentType } = z.object({
+      const { nationalId, consentType, scope } = z.object({
         nationalId: z.string(),
         consentType: z.enum(['web3', 'traditional']),
+        scope: consentScopeSchema.optional(),
       }).parse(req.body);
 
       // Normalize the nationalId to handle potential whitespace and type issues
@@ -416,32 +423,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         const patientDID = patientProfile.patientDID;
-        const requesterId = `did:medbridge:hospital:${user.id.toString()}`;
-        
-        const existingWeb3Consents = await storage.getConsentByPatientAndRequester(patientDID, requesterId);
-        
-        const hasConsent = existingWeb3Consents.some(c => c.consentGiven && !c.revokedAt);
 
-        if (!hasConsent) {
+        // Only records covered by an active, unexpired grant for this hospital
+        const covered = await consentGrantService.getCoveredRecords(
+          await storage.getPatientRecordsByDID(patientDID),
+          patientProfile.nationalId,
+          user.id,
+          patientDID
+        );
+
+        if (covered.records.length === 0) {
           return res.status(403).json({ message: "Patient has not approved Web3 consent yet" });
         }
 
-        // Fetch and return Web3 records
-        const records = await storage.getPatientRecordsByDID(patientDID);
-        
         return res.json({
           message: "Web3 consent verified",
-          records,
+          records: covered.records,
           patientDID,
+          consentExpiresAt: covered.expiresAt,
         });
       }
 
-      const records = await storage.getPatientRecordsByNationalId(normalizedNationalId);
+      const allRecords = await storage.getPatientRecordsByNationalId(normalizedNationalId);
       
-      if (records.length === 0) {
+      if (allRecords.length === 0) {
         return res.status(404).json({ message: "No records found for this patient" });
       }
 
+      // Hospital-attested consent; without a scope it covers every record for the default duration
+      const grant = await consentGrantService.grant({
+        patientId: normalizedNationalId,
+        patientDID: allRecords[0].patientDID,
+        grantedTo: user.id,
+        hospitalId: user.hospital_id,
+        scope: scope ?? consentScopeSchema.parse({}),
+        grantedBy: user.id.toString(),
+        verificationMethod: 'hospital_attested',
+      }, req);
+      const records = consentGrantService.filterCoveredRecords(allRecords, [grant]);
+
       // Check if consent records already exist for this patient and hospital
       const existingConsents = await storage.getConsentRecordsByPatientId(normalizedNationalId, user.id);
       
@@ -529,6 +549,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           "Consent renewed successfully" : 
           "Consent granted successfully",
         records: records,
+        consentGrantId: grant.id,
+        consentExpiresAt: grant.expiresAt,
         updatedExisting: existingConsents.length > 0,
       });
     } catch (error) {
@@ -548,8 +570,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         nationalId: z.string(),
       }).parse(req.body);
 
-      // Revoke all consent records for this patient and hospital
+      // Revoke all consent records and grants for this patient and hospital
       await storage.revokeConsentRecords(nationalId, user.id);
+      await storage.revokeConsentGrants(nationalId, user.id);
 
       await auditService.logEvent({
         eventType: "CONSENT_REVOKED",
@@ -573,17 +596,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get Web3 patient records (Hospital B)
-  app.post("/api/web3/get-records", async (req, res, next) => {
+  // Get Web3 patient records
+  app.post("/api/web3/get-records", requireCapability("lookup_records"), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "B") {
-        return res.status(403).json({ message: "Only Hospital B can retrieve Web3 records" });
-      }
 
       const { patientDID } = z.object({ patientDID: z.string() }).parse(req.body);
       
@@ -597,21 +617,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No Web3 records found for this patient" });
       }
 
-      // Check if consent has been granted for this hospital and is not expired
-      const consentRecords = await storage.getConsentByPatientAndRequester(patientDID, `did:medbridge:hospital:${user.id}`);
-      const now = new Date();
-      // Require explicit expiry; null expiry is NOT considered valid
-      const validConsents = consentRecords.filter(c => c.consentGiven && !c.revokedAt && !!c.expiresAt && now < c.expiresAt);
-      const hasConsent = validConsents.length > 0;
-      let consentExpiresAt: Date | null = null;
-      if (hasConsent) {
-        const expiries = validConsents.map(c => new Date(c.expiresAt as any).getTime()).filter(Boolean);
-        if (expiries.length > 0) {
-          consentExpiresAt = new Date(Math.min(...expiries));
-        }
-      }
+      // Only records covered by an active, unexpired grant for this hospital
+      const covered = await consentGrantService.getCoveredRecords(web3Records, web3Records[0].nationalId, user.id, patientDID);
+      const consentExpiresAt = covered.expiresAt;
 
-      if (!hasConsent) {
+      if (covered.records.length === 0) {
         return res.status(403).json({ 
           message: "Patient consent required to access Web3 records",
           patientDID,
@@ -623,10 +633,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Return full records if consent is granted
       res.json({
         patientDID,
-        recordCount: web3Records.length,
+        recordCount: covered.records.length,
         hasConsent: true,
         consentExpiresAt,
-        records: web3Records.map(record => ({
+        records: covered.records.map(record => ({
           id: record.id,
           visitDate: record.visitDate,
           visitType: record.visitType,
@@ -855,16 +865,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required for emergency consent." });
       }
 
-      // Role check for emergency consent authorization
+      // Capability check for emergency consent authorization
       const user = req.user!;
-      const authorizedRoles = ['PHYSICIAN', 'SURGEON', 'EMERGENCY_DOCTOR', 'CHIEF_RESIDENT'];
-      
-      // Role-based authorization for emergency consent
-      // Admins can always authorize emergency consent
-      const hasEmergencyAuth = user.isAdmin || 
-        (user.hospitalType === "A" && user.username.includes("doctor")) ||
-        (user.hospitalType === "B" && user.username.includes("emergency"));
-      
+      const hasEmergencyAuth = await permissionService.hasCapability(user, "emergency_access");
+
       if (!hasEmergencyAuth) {
         await auditService.logSecurityViolation({
           violationType: "UNAUTHORIZED_EMERGENCY_CONSENT_ATTEMPT",
@@ -872,7 +876,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           actorId: user.username,
           targetResource: "emergency_consent",
           details: {
-            userRole: user.hospitalType,
+            userRole: permissionService.roleOf(user),
             isAdmin: user.isAdmin,
             attemptedAction: "emergency_consent_grant",
           },
@@ -893,6 +897,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...validationResult.data,
         requestingUserId: req.user!.username, // or req.user!.id if integer ID is preferred and available
         requestingUserIsAdmin: req.user!.isAdmin, // Pass admin status
+        requestingHospitalId: req.user!.hospital_id,
+        requestingUserDID: `did:medbridge:hospital:${req.user!.id}`,
       };
 
       // Add the authenticated user (requesting staff member) details if needed by the service,
@@ -917,7 +923,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Emergency Record Access APIs
-  app.post("/api/emergency/access-records", async (req, res, next) => {
+  app.post("/api/emergency/access-records", requireCapability("emergency_access"), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Authentication required for emergency record access." });
@@ -930,7 +936,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }).parse(req.body);
 
       // Validate emergency credential
-      const validationResult = await emergencyCredentialService.validateCredential(temporaryCredential);
+      const validationResult = await emergencyCredentialService.validateCredential(temporaryCredential, `did:medbridge:hospital:${user.id}`);
       
       if (!validationResult.isValid || !validationResult.credential) {
         return res.status(403).json({ 
@@ -977,10 +983,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         patientInfo: recordsResult.patientInfo,
         records: recordsResult.records,
         emergencyAccess: {
-          accessLevel: validationResult.credential.accessLevel,
+          accessLevel: recordsResult.policy?.accessLevel ?? validationResult.credential.accessLevel,
           limitations: validationResult.credential.limitations,
           expiresAt: validationResult.credential.expiresAt,
           emergencyConsentRecordId: validationResult.credential.emergencyConsentRecordId,
+          policy: recordsResult.policy,
+          withheldRecordCount: recordsResult.withheldRecordCount,
         },
         accessedAt: new Date().toISOString(),
       });
@@ -990,6 +998,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // End emergency access early; the credential stops validating immediately
+  app.post("/api/emergency/consent/:id/revoke", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required to revoke emergency access." });
+      }
+
+      const { reason } = z.object({ reason: z.string().default("Closed by staff") }).parse(req.body ?? {});
+      await emergencyConsentService.revokeEmergencyConsent(
+        req.params.id,
+        { did: `did:medbridge:hospital:${req.user!.id}`, isAdmin: req.user!.isAdmin, hospital_id: req.user!.hospital_id },
+        reason,
+        req
+      );
+      res.json({ success: true, message: "Emergency access revoked" });
+    } catch (error: any) {
+      res.status(400).json({ message: `Failed to revoke emergency access: ${error.message}` });
+    }
+  });
+
   // Test endpoint to create a consent request (for debugging)
   app.post("/api/test/create-consent-request", async (req, res, next) => {
     try {
@@ -1406,8 +1434,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "You can only view staff for your own hospital" });
       }
 
-      // Get staff for this hospital
-      const staff = await storage.getHospitalStaffByHospitalId(hospitalId);
+      // Get staff for this hospital, with on-duty status taken from the roster when there is one
+      const staff = await dutyRosterService.withDutyStatus(await storage.getHospitalStaffByHospitalId(hospitalId));
 
       // Get admin license for this hospital (from the admin user)
       const adminUser = await storage.getUser(parseInt(hospitalId));
@@ -1531,7 +1559,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.user!.id,
         {
           email: staff.email || "",
-          role: (staff.role as any) || "BOTH_A_B",
+          // hospital_staff.role is the clinical role; invitations take an access role
+          role: staff.role === "EMERGENCY_DOCTOR" ? "EMERGENCY_AUTHORIZER" : "CLINICIAN",
           department: staff.department,
           name: staff.name,
         },
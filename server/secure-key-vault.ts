@@ -2,40 +2,48 @@ import crypto from "crypto";
 import bip39 from 'bip39';
 import { auditService } from "./audit-service";
 import { db } from "./db";
-import { secureKeyStore } from "@shared/schema";
+import { secureKeyStore, type SecureKeyEntry } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import {
+  createKeyEncryptionBackend,
+  LocalKeyEncryptionBackend,
+  type KeyEncryptionBackend,
+  type KeyEncryptionBackendKind,
+} from "./key-encryption-backends";
 
 /**
  * Secure Key Vault - Patient Private Key Management
  * Addresses Q1: Where and how are patient private keys stored and protected
+ *
+ * Keys are envelope-encrypted: each patient key is encrypted with its own random data
+ * key, and data keys are wrapped by the key encryption backend chosen with
+ * KEY_ENCRYPTION_BACKEND. With the vault-transit or pkcs11 backend the key encryption
+ * key stays in the KMS or HSM and never enters this process. Master keys are still
+ * read, if set, to unwrap keys stored before the switch until the rotation job has
+ * moved them to the configured backend.
  */
 export class SecureKeyVault {
   private static instance: SecureKeyVault;
-  private readonly masterKey: Buffer; // Store as Buffer
+  private readonly backend: KeyEncryptionBackend;
+  private readonly masterKeyBackend: LocalKeyEncryptionBackend | null;
   private readonly keyStore = new Map<string, EncryptedKeyData>();
-  private readonly DEK_ENCRYPTION_SALT = "medbridge-dek-salt"; // Salt for KEK derivation for DEKs
-  private dekKek: Buffer | null = null; // Cache for the DEK's Key Encryption Key
 
   private constructor() {
-    // In production, this would be loaded from a secure environment variable
-    // or hardware security module (HSM)
-    if (process.env.NODE_ENV === 'production' && !process.env.MASTER_KEY) {
-      throw new Error("MASTER_KEY must be set in production to initialize SecureKeyVault");
-    }
-    const masterKeyString = process.env.MASTER_KEY || crypto.randomBytes(32).toString('hex');
-    this.masterKey = Buffer.from(masterKeyString, 'hex');
-    this.deriveDekKek();
+    this.backend = createKeyEncryptionBackend();
+    this.masterKeyBackend = this.backend instanceof LocalKeyEncryptionBackend
+      ? this.backend
+      : LocalKeyEncryptionBackend.fromEnv({ allowDevKey: false });
+  }
+
+  get backendKind(): KeyEncryptionBackendKind {
+    return this.backend.kind;
   }
 
-  private async deriveDekKek() {
-    // Derive the KEK for DEKs once and cache it
-    this.dekKek = crypto.pbkdf2Sync(
-      this.masterKey,
-      this.DEK_ENCRYPTION_SALT,
-      100000, // Iterations
-      32,     // Key length in bytes (AES-256)
-      'sha256'
-    );
+  /**
+   * Version of the backend's key encryption key that new keys are wrapped with
+   */
+  activeKeyVersion(): Promise<number> {
+    return this.backend.activeKeyVersion();
   }
 
   static getInstance(): SecureKeyVault {
@@ -47,57 +55,29 @@ export class SecureKeyVault {
 
   /**
    * Store patient private key securely
-   * Uses AES-256-GCM with patient-specific salt and PBKDF2 key derivation
+   * Uses AES-256-GCM under a fresh data key wrapped by the key encryption backend
    */
   async storePatientKey(patientDID: string, privateKey: string, patientSalt: string): Promise<void> {
     try {
-      // Derive encryption key using PBKDF2 with patient-specific salt
-      const derivedKey = crypto.pbkdf2Sync(
-        this.masterKey, 
-        patientSalt, 
-        100000, // 100k iterations
-        32, 
-        'sha256'
-      );
-
-      // Encrypt private key using AES-256-GCM
-      const iv = crypto.randomBytes(12); // 12 bytes for GCM
-      const cipher = crypto.createCipheriv('aes-256-gcm', derivedKey, iv);
-      cipher.setAAD(Buffer.from(patientDID)); // Additional authenticated data
-
-      let encrypted = cipher.update(privateKey, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-      const authTag = cipher.getAuthTag();
-
-      const encryptedKeyData: EncryptedKeyData = {
-        encryptedKey: encrypted,
-        iv: iv.toString('hex'),
-        authTag: authTag.toString('hex'),
-        patientSalt,
-        createdAt: new Date().toISOString(),
-        accessCount: 0,
-      };
+      const wrapped = await this.wrapPatientKey(patientDID, privateKey);
 
       // Persist to secure database table for durability
       await db
         .insert(secureKeyStore)
         .values({
           patientDid: patientDID,
-          encryptedKey: encrypted,
-          iv: iv.toString('hex'),
-          authTag: authTag.toString('hex'),
+          ...wrapped,
           patientSalt,
           accessCount: 0,
         })
         .onConflictDoUpdate({
           target: secureKeyStore.patientDid,
           set: {
-            encryptedKey: encrypted,
-            iv: iv.toString('hex'),
-            authTag: authTag.toString('hex'),
+            ...wrapped,
             patientSalt,
           }
         });
+      this.keyStore.delete(patientDID);
 
       // Audit log key storage
       await auditService.logEvent({
@@ -108,7 +88,7 @@ export class SecureKeyVault {
         targetId: patientDID,
         action: "STORE",
         outcome: "SUCCESS",
-        metadata: { keyLength: privateKey.length },
+        metadata: { keyLength: privateKey.length, keyBackend: wrapped.keyBackend, keyVersion: wrapped.keyVersion },
         severity: "info",
       });
 
@@ -138,6 +118,9 @@ export class SecureKeyVault {
           iv: row.iv,
           authTag: row.authTag,
           patientSalt: row.patientSalt,
+          wrappedDek: row.wrappedDek,
+          keyBackend: row.keyBackend,
+          keyVersion: row.keyVersion,
           createdAt: row.createdAt?.toISOString?.() || new Date().toISOString(),
           accessCount: row.accessCount || 0,
           lastAccessed: row.lastAccessed?.toISOString?.(),
@@ -145,22 +128,7 @@ export class SecureKeyVault {
         this.keyStore.set(patientDID, encryptedData);
       }
 
-      // Derive decryption key
-      const derivedKey = crypto.pbkdf2Sync(
-        this.masterKey,
-        encryptedData.patientSalt,
-        100000,
-        32,
-        'sha256'
-      );
-
-      // Decrypt private key
-      const decipher = crypto.createDecipheriv('aes-256-gcm', derivedKey, Buffer.from(encryptedData.iv, 'hex'));
-      decipher.setAAD(Buffer.from(patientDID));
-      decipher.setAuthTag(Buffer.from(encryptedData.authTag, 'hex'));
-
-      let decrypted = decipher.update(encryptedData.encryptedKey, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
+      const decrypted = await this.unwrapPatientKey(patientDID, encryptedData);
 
       // Update access count and audit
       encryptedData.accessCount++;
@@ -199,6 +167,104 @@ export class SecureKeyVault {
     }
   }
 
+  /**
+   * Re-wrap a stored patient key with the active key encryption key. Only the data
+   * key is re-wrapped unless the patient key predates envelope encryption. Used by
+   * the key rotation job; does not count as an access.
+   */
+  async rewrapPatientKey(patientDID: string, stored: StoredPatientKey): Promise<WrappedPatientKey> {
+    const wrapped = stored.wrappedDek
+      ? { encryptedKey: stored.encryptedKey, iv: stored.iv, authTag: stored.authTag, ...await this.wrapDek(stored.wrappedDek) }
+      : await this.wrapPatientKey(patientDID, await this.unwrapPatientKey(patientDID, stored));
+    this.keyStore.delete(patientDID);
+    return wrapped;
+  }
+
+  /**
+   * Whether a stored patient key or wrapped DEK is not yet under the active key
+   * encryption key
+   */
+  needsRewrap(wrapped: string | null, targetVersion: number): boolean {
+    return !wrapped || !this.backend.owns(wrapped) || this.backend.keyVersionOf(wrapped) !== targetVersion;
+  }
+
+  /**
+   * Re-wrap a DEK or credential blob with the active key encryption key
+   */
+  async rewrapDataKey(wrapped: string): Promise<string> {
+    return (await this.wrapDek(wrapped)).wrappedDek;
+  }
+
+  // AES-256-GCM under a fresh data key, with the patient DID as additional authenticated data
+  private async wrapPatientKey(patientDID: string, privateKey: string): Promise<WrappedPatientKey> {
+    const dek = crypto.randomBytes(32);
+    try {
+      const iv = crypto.randomBytes(12); // 12 bytes for GCM
+      const cipher = crypto.createCipheriv('aes-256-gcm', dek, iv);
+      cipher.setAAD(Buffer.from(patientDID));
+
+      let encrypted = cipher.update(privateKey, 'utf8', 'hex');
+      encrypted += cipher.final('hex');
+      const wrappedDek = await this.backend.wrap(dek);
+      return {
+        encryptedKey: encrypted,
+        iv: iv.toString('hex'),
+        authTag: cipher.getAuthTag().toString('hex'),
+        wrappedDek,
+        keyBackend: this.backend.kind,
+        keyVersion: this.backend.keyVersionOf(wrappedDek),
+      };
+    } finally {
+      dek.fill(0);
+    }
+  }
+
+  // Keys stored before envelope encryption have no wrapped DEK and are derived from the master key
+  private async unwrapPatientKey(patientDID: string, stored: StoredPatientKey): Promise<string> {
+    let key: Buffer;
+    if (stored.wrappedDek) {
+      key = await this.backendFor(stored.wrappedDek).unwrap(stored.wrappedDek);
+    } else if (this.masterKeyBackend) {
+      key = this.masterKeyBackend.derivePatientKey(stored.keyVersion, stored.patientSalt);
+    } else {
+      throw new Error('Key was stored under MASTER_KEY, which is not configured');
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(stored.iv, 'hex'));
+      decipher.setAAD(Buffer.from(patientDID));
+      decipher.setAuthTag(Buffer.from(stored.authTag, 'hex'));
+
+      let decrypted = decipher.update(stored.encryptedKey, 'hex', 'utf8');
+      decrypted += decipher.final('utf8');
+      return decrypted;
+    } finally {
+      key.fill(0);
+    }
+  }
+
+  // Backends re-wrap their own keys; keys from another backend are unwrapped and wrapped again
+  private async wrapDek(wrapped: string): Promise<Pick<WrappedPatientKey, 'wrappedDek' | 'keyBackend' | 'keyVersion'>> {
+    let wrappedDek: string;
+    if (this.backend.owns(wrapped)) {
+      wrappedDek = await this.backend.rewrap(wrapped);
+    } else {
+      const dek = await this.backendFor(wrapped).unwrap(wrapped);
+      try {
+        wrappedDek = await this.backend.wrap(dek);
+      } finally {
+        dek.fill(0);
+      }
+    }
+    return { wrappedDek, keyBackend: this.backend.kind, keyVersion: this.backend.keyVersionOf(wrappedDek) };
+  }
+
+  private backendFor(wrapped: string): KeyEncryptionBackend {
+    if (this.backend.owns(wrapped)) return this.backend;
+    if (this.masterKeyBackend?.owns(wrapped)) return this.masterKeyBackend;
+    throw new Error(`Key was wrapped by a key encryption backend other than ${this.backend.kind}, which is not configured`);
+  }
+
   /**
    * Generate patient recovery phrase (12-word mnemonic)
    * Now uses BIP39 standard for production-grade security.
@@ -248,33 +314,20 @@ export class SecureKeyVault {
   }
 
   /**
-   * Encrypts a Data Encryption Key (DEK) using a derived Key Encryption Key (KEK).
+   * Encrypts a Data Encryption Key (DEK) with the key encryption backend.
    * @param dataKey Plaintext Data Encryption Key (hex string).
-   * @returns A string combining IV:Ciphertext:AuthTag (all hex encoded).
+   * @returns The wrapped DEK in the backend's format, e.g. [vN:]IV:Ciphertext:AuthTag
+   * for master keys or vault:vN:... for Vault transit.
    */
   async encryptDataKey(dataKey: string): Promise<string> {
-    if (!this.dekKek) {
-      // Should have been initialized in constructor
-      await this.deriveDekKek();
-    }
     try {
-      const iv = crypto.randomBytes(12); // Recommended for AES-GCM
-      // Using a fixed AAD for all DEKs encrypted with this KEK, or could be context-specific
-      const aad = Buffer.from("dek-encryption-context");
-      const cipher = crypto.createCipheriv('aes-256-gcm', this.dekKek!, iv);
-      cipher.setAAD(aad);
-
-      let encrypted = cipher.update(dataKey, 'hex', 'hex'); // Assuming DEK is hex
-      encrypted += cipher.final('hex');
-      const authTag = cipher.getAuthTag();
-
-      return `${iv.toString('hex')}:${encrypted}:${authTag.toString('hex')}`;
+      return await this.backend.wrap(Buffer.from(dataKey, 'hex'));
     } catch (error: any) {
       // Log this critical failure with auditService
       await auditService.logSecurityViolation({
         violationType: "DEK_ENCRYPTION_FAILURE",
         severity: "critical",
-        details: { error: error.message },
+        details: { error: error.message, keyBackend: this.backend.kind },
       });
       console.error("Failed to encrypt DEK:", error);
       throw new Error(`Failed to encrypt Data Key: ${error.message}`);
@@ -283,38 +336,19 @@ export class SecureKeyVault {
 
   /**
    * Decrypts an encrypted Data Encryption Key (DEK).
-   * @param encryptedDekString The "IV:Ciphertext:AuthTag" string.
+   * @param encryptedDekString The wrapped DEK from encryptDataKey.
    * @returns The plaintext Data Encryption Key (hex string).
    */
   async decryptDataKey(encryptedDekString: string): Promise<string> {
-    if (!this.dekKek) {
-      await this.deriveDekKek();
-    }
     try {
-      const parts = encryptedDekString.split(':');
-      if (parts.length !== 3) {
-        throw new Error('Invalid encrypted DEK format. Expected IV:Ciphertext:AuthTag.');
-      }
-      const [ivHex, encryptedHex, authTagHex] = parts;
-
-      const iv = Buffer.from(ivHex, 'hex');
-      const authTag = Buffer.from(authTagHex, 'hex');
-      const aad = Buffer.from("dek-encryption-context"); // Must match AAD used during encryption
-
-      const decipher = crypto.createDecipheriv('aes-256-gcm', this.dekKek!, iv);
-      decipher.setAuthTag(authTag);
-      decipher.setAAD(aad);
-
-      let decrypted = decipher.update(encryptedHex, 'hex', 'hex'); // Outputting hex
-      decrypted += decipher.final('hex');
-
-      return decrypted;
+      const dek = await this.backendFor(encryptedDekString).unwrap(encryptedDekString);
+      return dek.toString('hex');
     } catch (error: any) {
       // Log this critical failure with auditService
       await auditService.logSecurityViolation({
         violationType: "DEK_DECRYPTION_FAILURE",
         severity: "critical",
-        details: { error: error.message },
+        details: { error: error.message, keyBackend: this.backend.kind },
       });
       console.error("Failed to decrypt DEK:", error);
       throw new Error(`Failed to decrypt Data Key: ${error.message}`);
@@ -322,11 +356,17 @@ export class SecureKeyVault {
   }
 }
 
+type StoredPatientKey = Pick<SecureKeyEntry, 'encryptedKey' | 'iv' | 'authTag' | 'patientSalt' | 'wrappedDek' | 'keyVersion'>;
+type WrappedPatientKey = Pick<SecureKeyEntry, 'encryptedKey' | 'iv' | 'authTag' | 'keyBackend' | 'keyVersion'> & { wrappedDek: string };
+
 interface EncryptedKeyData {
   encryptedKey: string;
   iv: string;
   authTag: string;
   patientSalt: string;
+  wrappedDek: string | null;
+  keyBackend: string;
+  keyVersion: number;
   createdAt: string;
   accessCount: number;
   lastAccessed?: string;
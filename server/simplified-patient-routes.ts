@@ -3,6 +3,9 @@ import { z } from "zod";
 import { storage } from "./storage";
 import { patientWeb3Service } from "./patient-web3-service";
 import { auditService } from "./audit-service";
+import { clinicalRecordService } from "./clinical-record-service";
+import { consentGrantService, consentScopeSchema } from "./consent-grant-service";
+import { consentDelegationService } from "./consent-delegation-service";
 import { emailService } from "./email-service";
 import { smsService } from "./sms-service";
 import { nanoid } from 'nanoid';
@@ -396,8 +399,8 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
         0 // 0 means all hospitals
       );
 
-      // Format records with consent information
-      const formattedRecords = records.map(record => {
+      // Format records with consent information and structured sub-records
+      const formattedRecords = (await clinicalRecordService.attachDetails(records)).map(record => {
         const recordConsents = consentRecords.filter(cr => cr.recordId === record.id);
         return {
           id: record.id,
@@ -411,6 +414,9 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
           recordType: record.recordType,
           ipfsHash: record.ipfsHash,
           consentGiven: record.consentGiven,
+          clinical: record.clinical,
+          currentVersion: record.currentVersion,
+          amendedAt: record.amendedAt,
           consentRecords: recordConsents.map(cr => ({
             accessedBy: cr.accessedBy,
             consentGrantedBy: cr.consentGrantedBy,
@@ -458,6 +464,30 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
     }
   });
 
+  /**
+   * Get patient's active allergies across all visits
+   * GET /api/patient/allergies
+   */
+  app.get("/api/patient/allergies", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const patientProfile = await storage.getPatientProfileByDID(req.session.patientDID);
+      if (!patientProfile) {
+        return res.status(401).json({ error: "Invalid session" });
+      }
+
+      const allergies = patientProfile.nationalId
+        ? await clinicalRecordService.getActiveAllergies(patientProfile.nationalId)
+        : [];
+      res.json({ success: true, allergies });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to fetch allergies" });
+    }
+  });
+
   /**
    * Get patient's consent requests and history
    * GET /api/patient/consents
@@ -503,7 +533,6 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
         return {
           ...consent,
           hospitalName: hospital?.hospitalName || "Unknown Hospital",
-          hospitalType: hospital?.hospitalType || "Unknown",
         };
       };
 
@@ -551,6 +580,88 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
     }
   });
 
+  /**
+   * Get the patient's scoped consent grants, newest first
+   * GET /api/patient/consent-grants
+   */
+  app.get("/api/patient/consent-grants", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const patientProfile = await storage.getPatientProfileByDID(req.session.patientDID);
+      if (!patientProfile?.nationalId) {
+        return res.status(401).json({ error: "Invalid session" });
+      }
+
+      const grants = await storage.getConsentGrantsByPatientId(patientProfile.nationalId);
+      const now = new Date();
+      const withHospital = await Promise.all(grants.map(async grant => {
+        const hospital = await storage.getUser(grant.grantedTo);
+        return {
+          ...grant,
+          hospitalName: hospital?.hospitalName || "Unknown Hospital",
+          active: !grant.revokedAt && new Date(grant.expiresAt) > now,
+        };
+      }));
+
+      res.json({ success: true, grants: withHospital });
+    } catch (error: any) {
+      console.error("Error fetching consent grants:", error);
+      res.status(500).json({ error: "Failed to fetch consent grants" });
+    }
+  });
+
+  /**
+   * Revoke one of the patient's consent grants
+   * POST /api/patient/consent-grants/:id/revoke
+   */
+  app.post("/api/patient/consent-grants/:id/revoke", async (req, res) => {
+    try {
+      if (!req.session.patientDID) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const patientProfile = await storage.getPatientProfileByDID(req.session.patientDID);
+      if (!patientProfile?.nationalId) {
+        return res.status(401).json({ error: "Invalid session" });
+      }
+
+      const grantId = parseInt(req.params.id, 10);
+      if (Number.isNaN(grantId)) {
+        return res.status(400).json({ error: "Invalid consent grant id" });
+      }
+
+      const grant = await storage.getConsentGrantById(grantId);
+      if (!grant) {
+        return res.status(404).json({ error: "Consent grant not found" });
+      }
+
+      // Guardians may revoke for the patient when their delegation includes revoke_consent
+      let delegation;
+      if (grant.patientId !== patientProfile.nationalId) {
+        delegation = grant.patientDID
+          ? await consentDelegationService.findActiveDelegation(
+              grant.patientDID,
+              { did: req.session.patientDID, phone: req.session.phoneNumber },
+              'revoke_consent'
+            )
+          : undefined;
+        if (!delegation) {
+          return res.status(404).json({ error: "Consent grant not found" });
+        }
+      }
+
+      await consentGrantService.revoke(grantId, grant.patientId, req.session.patientDID, req, delegation);
+
+      res.json({ success: true, message: "Consent revoked" });
+    } catch (error: any) {
+      console.error("Error revoking consent grant:", error);
+      res.status(500).json({ error: "Failed to revoke consent" });
+    }
+  });
+
   /**
    * Get pending consent requests for patient
    * GET /api/patient/pending-requests
@@ -599,12 +710,14 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
         return res.status(401).json({ error: "Authentication required. Please log in to respond to consent requests." });
       }
 
-      // Accept consentType ("web3" or "traditional") for correct consent creation
-      const { requestId, action, reason, consentType } = z.object({
+      // Accept consentType ("web3" or "traditional") for correct consent creation.
+      // scope limits an approval to chosen records, visit types or dates for a chosen duration.
+      const { requestId, action, reason, consentType, scope } = z.object({
         requestId: z.number(),
         action: z.enum(['approve', 'deny']),
         reason: z.string().optional(),
         consentType: z.enum(['web3', 'traditional']).optional(),
+        scope: consentScopeSchema.optional(),
       }).parse(req.body);
 
       // Get the consent request
@@ -631,134 +744,32 @@ export function registerSimplifiedPatientRoutes(app: Express): void {
         return res.status(404).json({ error: "No Web3 identity found for this patient. Please contact support." });
       }
 
-      // Use the consentType from the pending request, not from the frontend
-      const effectiveConsentType = consentRequest.consentType || 'traditional';
-
-      // Verify this request belongs to the authenticated patient
-      if (consentRequest.patientId !== patientProfile.nationalId) {
-        return res.status(403).json({ error: "Unauthorized to respond to this request. This consent request does not belong to your account." });
-      }
-
-      if (action === 'approve') {
-        // --- Web3 Consent ---
-        if (effectiveConsentType === 'web3') {
-          // Create a Web3 consent record with proper DID format for requesterId
-          await storage.createWeb3Consent({
-            patientDID: patientProfile.patientDID,
-            requesterId: `did:medbridge:hospital:${consentRequest.accessedBy}`,
-            consentType: 'read',
-            consentGiven: true,
-            // Grant time-limited access (12 hours)
-            expiresAt: new Date(Date.now() + 12 * 60 * 60 * 1000),
-            revokedAt: null,
-          });
-
-          // Update consent request status
-          await storage.updateConsentRequestStatus(patientProfile.nationalId, consentRequest.accessedBy, "granted");
-
-          await auditService.logEvent({
-            eventType: "WEB3_CONSENT_APPROVED",
-            actorType: "PATIENT",
-            actorId: req.session.patientDID,
-            targetType: "HOSPITAL",
-            targetId: consentRequest.accessedBy.toString(),
-            action: "APPROVE_WEB3_CONSENT",
-            outcome: "SUCCESS",
-            metadata: {
-              requestId,
-              reason: reason || "Patient approved Web3 consent",
-            },
-            severity: "info",
-          });
-
-          // Log to consent audit trail
-          await auditService.logConsentEvent({
-            patientDID: patientProfile.patientDID,
-            hospitalDID: `did:medbridge:hospital:${consentRequest.accessedBy}`,
-            recordId: null, // Web3 may not have a single recordId
-            consentAction: "GRANTED",
-            verificationMethod: "web3",
-            grantedBy: req.session.patientDID,
-            expiresAt: null,
-            metadata: { requestId, reason },
-            ipAddress: req.ip,
-            userAgent: req.get('User-Agent'),
-          }, req);
-
-          return res.json({
-            success: true,
-            message: "Web3 consent approved successfully",
-          });
+      // The patient answers for themselves; anyone else needs an active delegation with respond_consent
+      let delegation;
+      if (patientProfile.patientDID !== req.session.patientDID) {
+        delegation = await consentDelegationService.findActiveDelegation(
+          patientProfile.patientDID,
+          { did: req.session.patientDID, phone: req.session.phoneNumber },
+          'respond_consent'
+        );
+        if (!delegation) {
+          return res.status(403).json({ error: "Unauthorized to respond to this request. This consent request does not belong to your account." });
         }
-        // --- Traditional Consent (default) ---
-        const records = await storage.getPatientRecordsByNationalId(patientProfile.nationalId);
-        for (const record of records) {
-          await storage.createConsentRecord({
-            patientId: patientProfile.nationalId,
-            accessedBy: consentRequest.accessedBy,
-            recordId: record.id,
-            consentGrantedBy: patientProfile.patientDID,
-            hospital_id: Number(consentRequest.accessedBy),
-            consent_type: 'traditional',
-          });
-        }
-        await storage.updateConsentRequestStatus(patientProfile.nationalId, consentRequest.accessedBy, "granted");
-        await auditService.logEvent({
-          eventType: "CONSENT_APPROVED",
-          actorType: "PATIENT",
-          actorId: req.session.patientDID,
-          targetType: "HOSPITAL",
-          targetId: consentRequest.accessedBy.toString(),
-          action: "APPROVE_CONSENT",
-          outcome: "SUCCESS",
-          metadata: {
-            requestId,
-            recordCount: records.length,
-            reason: reason || "Patient approved consent",
-          },
-          severity: "info",
-        });
-        // Log to consent audit trail for each record
-        for (const record of records) {
-          await auditService.logConsentEvent({
-            patientDID: patientProfile.patientDID,
-            hospitalDID: `did:medbridge:hospital:${consentRequest.accessedBy}`,
-            recordId: record.id,
-            consentAction: "GRANTED",
-            verificationMethod: "traditional",
-            grantedBy: req.session.patientDID,
-            expiresAt: null,
-            metadata: { requestId, reason },
-            ipAddress: req.ip,
-            userAgent: req.get('User-Agent'),
-          }, req);
-        }
-        res.json({
-          success: true,
-          message: "Consent approved successfully",
-          recordsGranted: records.length,
-        });
-      } else {
-        // Deny consent
-        await storage.updateConsentRequestStatus(patientProfile.nationalId, consentRequest.accessedBy, "denied");
-        await auditService.logEvent({
-          eventType: effectiveConsentType === 'web3' ? "WEB3_CONSENT_DENIED" : "CONSENT_DENIED",
-          actorType: "PATIENT",
-          actorId: req.session.patientDID,
-          targetType: "HOSPITAL",
-          targetId: consentRequest.accessedBy.toString(),
-          action: effectiveConsentType === 'web3' ? "DENY_WEB3_CONSENT" : "DENY_CONSENT",
-          outcome: "SUCCESS",
-          metadata: {
-            requestId,
-            reason: reason || "Patient denied consent",
-          },
-          severity: "info",
-        });
-        res.json({
-          success: true,
-          message: "Consent denied",
-        });
+      }
+
+      try {
+        const result = await consentGrantService.respondToRequest({
+          consentRequest,
+          patient: { nationalId: patientProfile.nationalId, patientDID: patientProfile.patientDID },
+          action,
+          actor: req.session.patientDID,
+          reason,
+          scope,
+          delegation,
+        }, req);
+        res.json({ success: true, ...result });
+      } catch (error: any) {
+        return res.status(400).json({ error: `Failed to respond to consent request: ${error.message}` });
       }
 
     } catch (error: any) {
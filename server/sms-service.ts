@@ -27,12 +27,29 @@ const plivoFromNumber = process.env.PLIVO_FROM_NUMBER;
 // Remove Twilio dependency - no longer needed
 
 import { africasTalkingService } from "./africas-talking-service";
+import { messageCatalog, type Locale, type MessageKey, type MessageParams } from "./message-catalog";
 const africasTalkingSenderId = process.env.AFRICAS_TALKING_SENDER_ID || undefined;
 
+// Every message accepts an optional locale; texts come from the message catalog (English by default)
 export interface SMSOTPData {
   to: string;
   otpCode: string;
   expiresInMinutes: number;
+  locale?: Locale;
+}
+
+export interface VisitCodeSMSData {
+  to: string;
+  visitCode: string;
+  visitDate: string;
+  locale?: Locale;
+}
+
+export interface TemplateSMSData {
+  to: string;
+  key: MessageKey;
+  params?: MessageParams;
+  locale?: Locale;
 }
 
 export interface EmergencyConsentSMSData {
@@ -42,11 +59,13 @@ export interface EmergencyConsentSMSData {
   verificationCode: string;
   emergencyType: string;
   hospitalName: string;
+  locale?: Locale;
 }
 
 export interface WelcomeSMSData {
   to: string;
   patientDID: string;
+  locale?: Locale;
 }
 
 class SMSService {
@@ -65,16 +84,39 @@ class SMSService {
    * Send OTP via SMS using Africa's Talking only
    */
   async sendOTPSMS(data: SMSOTPData): Promise<void> {
-    const message = `Your MediBridge verification code is: ${data.otpCode}. Valid for ${data.expiresInMinutes} minutes. Do not share this code with anyone.`;
+    const message = messageCatalog.format('sms.otp', data.locale, { code: data.otpCode, minutes: data.expiresInMinutes });
     await africasTalkingService.sendSMS(data.to, message, africasTalkingSenderId);
     console.log(`[SMSService] OTP SMS sent via Africa's Talking to ${data.to}`);
   }
 
+  /**
+   * Resend a visit code so the patient can share proofs again
+   */
+  async sendVisitCodeSMS(data: VisitCodeSMSData): Promise<void> {
+    const message = messageCatalog.format('sms.visitCode', data.locale, { code: data.visitCode, date: data.visitDate });
+    await africasTalkingService.sendSMS(data.to, message, africasTalkingSenderId);
+    console.log(`[SMSService] Visit code SMS sent via Africa's Talking to ${data.to}`);
+  }
+
+  /**
+   * Send any catalog message (e.g. proof share and visit notices)
+   */
+  async sendTemplateSMS(data: TemplateSMSData): Promise<void> {
+    const message = messageCatalog.format(data.key, data.locale, data.params);
+    await africasTalkingService.sendSMS(data.to, message, africasTalkingSenderId);
+    console.log(`[SMSService] ${data.key} SMS sent via Africa's Talking to ${data.to}`);
+  }
+
   /**
    * Send emergency consent notification via SMS
    */
   async sendEmergencyConsentSMS(data: EmergencyConsentSMSData): Promise<void> {
-    const message = `URGENT: ${data.nextOfKinName}, you are listed as ${data.patientRelationship} for a patient requiring emergency medical care at ${data.hospitalName}. Verification code: ${data.verificationCode}. Please respond immediately.`;
+    const message = messageCatalog.format('sms.emergencyConsent', data.locale, {
+      name: data.nextOfKinName,
+      relationship: data.patientRelationship,
+      hospital: data.hospitalName,
+      code: data.verificationCode,
+    });
 
     // Use the same service selection logic as OTP
     // Intentionally skipping provider-specific implementations in this build
@@ -102,7 +144,7 @@ class SMSService {
    * Send welcome SMS for new patients
    */
   async sendWelcomeSMS(data: WelcomeSMSData): Promise<void> {
-    const message = `Welcome to MediBridge! Your patient DID is: ${data.patientDID}. You can now securely access and manage your medical records.`;
+    const message = messageCatalog.format('sms.welcome', data.locale, { did: data.patientDID });
 
     // Use the same service selection logic
     // (MSG91 path omitted in this build)
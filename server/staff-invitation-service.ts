@@ -7,10 +7,11 @@ import { z } from "zod";
 import { generateStaffVCPdf } from "./pdf-util";
 import { VCService } from "./web3-services";
 import nodemailer from "nodemailer";
+import type { STAFF_ROLES } from "@shared/permissions";
 
 export interface StaffInvitationData {
   email: string;
-  role: 'HOSPITAL_A_ONLY' | 'HOSPITAL_B_ONLY' | 'BOTH_A_B' | 'EMERGENCY_AUTHORIZER';
+  role: typeof STAFF_ROLES[number];
   department: string;
   name: string;
 }
@@ -144,7 +145,7 @@ export class StaffInvitationService {
         username: tempUsername,
         password: await hashPassword(tempPassword),
         hospitalName: await this.getHospitalName(hospitalId),
-        hospitalType: this.getHospitalTypeFromRole(invitationData.role),
+        role: invitationData.role,
         email: invitationData.email,
         invitedBy: invitedBy,
         invitationExpiresAt: expiresAt,
@@ -405,23 +406,6 @@ export class StaffInvitationService {
     return hospital?.hospitalName || 'Unknown Hospital';
   }
 
-  /**
-   * Map role to hospital type
-   */
-  private getHospitalTypeFromRole(role: string): string {
-    switch (role) {
-      case 'HOSPITAL_A_ONLY':
-        return 'A';
-      case 'HOSPITAL_B_ONLY':
-        return 'B';
-      case 'BOTH_A_B':
-      case 'EMERGENCY_AUTHORIZER':
-        return 'A'; // Default to A for dual access
-      default:
-        return 'A';
-    }
-  }
-
   /**
    * Map invitation role to staff role
    */
@@ -429,9 +413,9 @@ export class StaffInvitationService {
     switch (invitationRole) {
       case 'EMERGENCY_AUTHORIZER':
         return 'EMERGENCY_DOCTOR';
-      case 'HOSPITAL_A_ONLY':
-      case 'HOSPITAL_B_ONLY':
-      case 'BOTH_A_B':
+      case 'CLINICIAN':
+      case 'RECORD_SUBMITTER':
+      case 'RECORD_ACCESSOR':
         return 'PHYSICIAN';
       default:
         return 'PHYSICIAN';
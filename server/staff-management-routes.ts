@@ -2,7 +2,9 @@ import express from 'express';
 import { staffInvitationService } from './staff-invitation-service';
 import { storage } from './storage';
 import { auditService } from './audit-service';
+import { dutyRosterService } from './duty-roster-service';
 import { z } from 'zod';
+import { STAFF_ROLES } from '@shared/permissions';
 
 const router = express.Router();
 
@@ -11,7 +13,7 @@ import { requireAdminAuth } from './admin-auth-middleware';
 // Validation schemas
 const createInvitationSchema = z.object({
   email: z.string().email(),
-  role: z.enum(['HOSPITAL_A_ONLY', 'HOSPITAL_B_ONLY', 'BOTH_A_B', 'EMERGENCY_AUTHORIZER']),
+  role: z.enum(STAFF_ROLES as [typeof STAFF_ROLES[number], ...typeof STAFF_ROLES[number][]]),
   department: z.string().min(1),
   name: z.string().min(1),
 });
@@ -101,7 +103,7 @@ router.get('/list', requireAdminAuth, async (req, res) => {
       return res.status(403).json({ error: 'Forbidden: Admin access required.' });
     }
     const hospitalId = req.user.id.toString();
-    const staff = await storage.getHospitalStaffByHospitalId(hospitalId);
+    const staff = await dutyRosterService.withDutyStatus(await storage.getHospitalStaffByHospitalId(hospitalId));
     const invitations = await storage.getInvitationsByHospitalId(req.user.id);
     const now = new Date();
     const pendingInvitations = invitations.filter(inv => {
@@ -118,6 +120,8 @@ router.get('/list', requireAdminAuth, async (req, res) => {
         department: s.department,
         isActive: s.isActive,
         isOnDuty: s.isOnDuty,
+        dutySource: s.dutySource,
+        currentShift: s.currentShift,
         createdAt: s.createdAt,
       })),
       pendingInvitations: pendingInvitations.map(inv => ({
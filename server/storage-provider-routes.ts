@@ -0,0 +1,76 @@
+import type { Express } from "express";
+import { requireAdminAuth } from "./admin-auth-middleware";
+import { permissionService } from "./permission-service";
+import { storageProviderService } from "./storage-provider-service";
+import { createStorageProviderSchema, updateStorageProviderSchema } from "@shared/storage-providers";
+
+/**
+ * Hospital Storage Provider Routes
+ * Admins choose where their hospital's encrypted records and attachments are kept.
+ * Credentials are write-only: responses only say whether they are set.
+ */
+export function registerStorageProviderRoutes(app: Express): void {
+
+  /**
+   * GET /api/admin/storage-providers
+   */
+  app.get("/api/admin/storage-providers", requireAdminAuth, async (req, res, next) => {
+    try {
+      const providers = await storageProviderService.list(permissionService.hospitalKeyFor(req.user!));
+      res.json({ success: true, providers, usingDefaults: !providers.some(p => p.enabled) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/admin/storage-providers
+   * Body: { name, priority, kind, config, credentials }
+   */
+  app.post("/api/admin/storage-providers", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = createStorageProviderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid storage provider" });
+      }
+
+      const admin = req.user!;
+      const provider = await storageProviderService.create(admin, permissionService.hospitalKeyFor(admin), parsed.data, req);
+      res.status(201).json({ success: true, provider });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to add storage provider: ${error.message}` });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/storage-providers/:id
+   * Disabling stops new writes; content already stored there stays readable
+   */
+  app.patch("/api/admin/storage-providers/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const parsed = updateStorageProviderSchema.safeParse(req.body);
+      if (!Number.isInteger(id) || !parsed.success) {
+        return res.status(400).json({ error: parsed.error?.issues[0]?.message || "Invalid storage provider" });
+      }
+
+      const admin = req.user!;
+      const provider = await storageProviderService.update(admin, permissionService.hospitalKeyFor(admin), id, parsed.data, req);
+      res.json({ success: true, provider });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to update storage provider: ${error.message}` });
+    }
+  });
+
+  /**
+   * POST /api/admin/storage-providers/:id/test
+   */
+  app.post("/api/admin/storage-providers/:id/test", requireAdminAuth, async (req, res) => {
+    try {
+      const result = await storageProviderService.test(parseInt(req.params.id, 10), permissionService.hospitalKeyFor(req.user!));
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(400).json({ error: `Failed to test storage provider: ${error.message}` });
+    }
+  });
+}
@@ -0,0 +1,305 @@
+import type { Request } from "express";
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { secureKeyVault } from "./secure-key-vault";
+import { createStorageProvider, type StorageProvider } from "./storage-providers";
+import {
+  isStorageProviderKind,
+  storageProviderSettingsSchema,
+  type StorageProviderKind,
+  type StorageProviderSettings,
+  type StoredLocation,
+} from "@shared/storage-providers";
+import type { HospitalStorageProvider, User } from "@shared/schema";
+
+export interface StorageProviderSummary {
+  id: number;
+  kind: StorageProviderKind;
+  name: string;
+  config: Record<string, unknown>;
+  hasCredentials: boolean;
+  priority: number;
+  enabled: boolean;
+  updatedAt: Date | null;
+}
+
+/**
+ * Storage Provider Service
+ * Resolves which backends a hospital's data is written to and read from. A hospital
+ * with providers of its own uses only those, so data can stay on in-country
+ * infrastructure; everyone else gets the server-wide defaults from the environment.
+ */
+class StorageProviderService {
+  private static instance: StorageProviderService;
+  private defaults: StorageProvider[] | null = null;
+  private configured = new Map<number, StorageProvider>();
+
+  static getInstance(): StorageProviderService {
+    if (!StorageProviderService.instance) {
+      StorageProviderService.instance = new StorageProviderService();
+    }
+    return StorageProviderService.instance;
+  }
+
+  /**
+   * Providers new content is written to, in priority order
+   */
+  async getProviders(hospitalKey?: string | null): Promise<StorageProvider[]> {
+    if (hospitalKey) {
+      const rows = (await storage.getHospitalStorageProviders(hospitalKey)).filter(row => row.enabled);
+      if (rows.length > 0) {
+        return Promise.all(rows.map(row => this.instantiate(row)));
+      }
+    }
+    return this.getDefaultProviders();
+  }
+
+  /**
+   * Server-wide providers configured through the environment
+   */
+  getDefaultProviders(): StorageProvider[] {
+    if (!this.defaults) {
+      const env = process.env;
+      const providers: StorageProvider[] = [];
+
+      if (env.PINATA_JWT || (env.PINATA_API_KEY && env.PINATA_SECRET_API_KEY)) {
+        providers.push(createStorageProvider({ name: 'Pinata' }, {
+          kind: 'pinata',
+          config: { gatewayUrl: env.PINATA_GATEWAY_URL },
+          credentials: env.PINATA_JWT ? { jwt: env.PINATA_JWT } : { apiKey: env.PINATA_API_KEY!, apiSecret: env.PINATA_SECRET_API_KEY! },
+        }));
+      }
+      if (env.IPFS_API_URL) {
+        providers.push(createStorageProvider({ name: 'IPFS node' }, {
+          kind: 'kubo',
+          config: { apiUrl: env.IPFS_API_URL },
+          credentials: { authorization: env.IPFS_API_AUTHORIZATION },
+        }));
+      }
+      if (env.S3_BUCKET && env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY) {
+        providers.push(createStorageProvider({ name: 'Object store' }, {
+          kind: 's3',
+          config: {
+            endpoint: env.S3_ENDPOINT,
+            region: env.S3_REGION || 'us-east-1',
+            bucket: env.S3_BUCKET,
+            prefix: env.S3_PREFIX,
+          },
+          credentials: { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY },
+        }));
+      }
+      if (env.ENABLE_LOCAL_STORAGE === 'true') {
+        providers.push(createStorageProvider({ name: 'Local disk' }, {
+          kind: 'local',
+          config: { directory: env.LOCAL_STORAGE_DIR || './local_storage' },
+        }));
+      }
+
+      this.defaults = providers;
+    }
+    return this.defaults;
+  }
+
+  /**
+   * The provider holding one stored copy. Disabled providers still resolve so
+   * content written before they were switched off stays readable.
+   */
+  async providerFor(location: StoredLocation): Promise<StorageProvider> {
+    if (location.providerId) {
+      const row = await storage.getHospitalStorageProviderById(location.providerId);
+      if (!row) {
+        throw new Error(`Storage provider ${location.providerId} no longer exists`);
+      }
+      return this.instantiate(row);
+    }
+
+    const provider = this.getDefaultProviders().find(p => p.kind === location.provider);
+    if (!provider) {
+      throw new Error(`No ${location.provider} storage provider is configured on this server`);
+    }
+    return provider;
+  }
+
+  async list(hospitalKey: string): Promise<StorageProviderSummary[]> {
+    const rows = await storage.getHospitalStorageProviders(hospitalKey);
+    return rows.map(row => this.summarize(row));
+  }
+
+  async create(
+    admin: User,
+    hospitalKey: string,
+    input: { name: string; priority: number } & StorageProviderSettings,
+    req?: Request
+  ): Promise<StorageProviderSummary> {
+    await StorageProviderService.checkHospitalConfig(input);
+    const row = await storage.createHospitalStorageProvider({
+      hospitalId: hospitalKey,
+      kind: input.kind,
+      name: input.name,
+      config: input.config,
+      credentials: input.credentials ? await this.wrapCredentials(input.credentials) : null,
+      priority: input.priority,
+      enabled: true,
+      updatedBy: admin.id,
+    });
+
+    await this.logChange(admin, hospitalKey, "ADD_STORAGE_PROVIDER", { providerId: row.id, kind: row.kind, name: row.name }, req);
+    return this.summarize(row);
+  }
+
+  async update(
+    admin: User,
+    hospitalKey: string,
+    id: number,
+    updates: { name?: string; priority?: number; enabled?: boolean; config?: Record<string, unknown>; credentials?: Record<string, unknown> },
+    req?: Request
+  ): Promise<StorageProviderSummary> {
+    const existing = await this.getScoped(id, hospitalKey);
+    const kind = existing.kind as StorageProviderKind;
+
+    const config = updates.config ?? existing.config;
+    const credentials = updates.credentials ?? (existing.credentials ? await this.unwrapCredentials(existing.credentials) : undefined);
+    const settings = storageProviderSettingsSchema.parse({ kind, config, credentials });
+    await StorageProviderService.checkHospitalConfig(settings);
+
+    const row = await storage.updateHospitalStorageProvider(id, {
+      name: updates.name,
+      priority: updates.priority,
+      enabled: updates.enabled,
+      config: updates.config ? settings.config : undefined,
+      credentials: updates.credentials ? await this.wrapCredentials(settings.credentials!) : undefined,
+      updatedBy: admin.id,
+    });
+    this.configured.delete(id);
+
+    await this.logChange(admin, hospitalKey, "UPDATE_STORAGE_PROVIDER", {
+      providerId: id,
+      kind,
+      changed: Object.keys(updates).filter(key => updates[key as keyof typeof updates] !== undefined),
+    }, req);
+    return this.summarize(row!);
+  }
+
+  /**
+   * Check that the provider is reachable with its saved settings
+   */
+  async test(id: number, hospitalKey: string): Promise<{ healthy: boolean }> {
+    const row = await this.getScoped(id, hospitalKey);
+    const provider = await this.instantiate(row);
+    return { healthy: await provider.isHealthy() };
+  }
+
+  private async getScoped(id: number, hospitalKey: string): Promise<HospitalStorageProvider> {
+    const row = await storage.getHospitalStorageProviderById(id);
+    if (!row || row.hospitalId !== hospitalKey) {
+      throw new Error('Storage provider not found');
+    }
+    return row;
+  }
+
+  private async instantiate(row: HospitalStorageProvider): Promise<StorageProvider> {
+    const cached = this.configured.get(row.id);
+    if (cached) return cached;
+
+    if (!isStorageProviderKind(row.kind)) {
+      throw new Error(`Unknown storage provider: ${row.kind}`);
+    }
+    const credentials = row.credentials ? await this.unwrapCredentials(row.credentials) : undefined;
+    const settings = await StorageProviderService.checkHospitalConfig(
+      storageProviderSettingsSchema.parse({ kind: row.kind, config: row.config, credentials })
+    );
+    const provider = createStorageProvider({ providerId: row.id, name: row.name }, settings);
+    this.configured.set(row.id, provider);
+    return provider;
+  }
+
+  /**
+   * Hospital providers only reach what the operator allows: local directories under
+   * HOSPITAL_STORAGE_ROOT and hosts listed in STORAGE_ENDPOINT_ALLOWLIST. Returns the
+   * settings with a local directory resolved, symlinks included, under the root.
+   */
+  private static async checkHospitalConfig(settings: StorageProviderSettings): Promise<StorageProviderSettings> {
+    switch (settings.kind) {
+      case 'local': {
+        if (!process.env.HOSPITAL_STORAGE_ROOT) {
+          throw new Error('Local disk providers are disabled on this server (HOSPITAL_STORAGE_ROOT is not set)');
+        }
+        const root = await StorageProviderService.realpathAllowingMissing(path.resolve(process.env.HOSPITAL_STORAGE_ROOT));
+        const directory = await StorageProviderService.realpathAllowingMissing(path.resolve(root, settings.config.directory));
+        if (directory !== root && !directory.startsWith(root + path.sep)) {
+          throw new Error('Local storage directory must be inside the server storage root');
+        }
+        return { ...settings, config: { ...settings.config, directory } };
+      }
+      case 'kubo':
+        StorageProviderService.checkEndpoint(settings.config.apiUrl);
+        return settings;
+      case 's3':
+      case 'pinata': {
+        const endpoint = settings.kind === 's3' ? settings.config.endpoint : settings.config.gatewayUrl;
+        if (endpoint) StorageProviderService.checkEndpoint(endpoint);
+        return settings;
+      }
+    }
+  }
+
+  // Directories are created on first write, so resolve the deepest existing ancestor
+  private static async realpathAllowingMissing(target: string): Promise<string> {
+    try {
+      return await fs.promises.realpath(target);
+    } catch (error: any) {
+      const parent = path.dirname(target);
+      if (error.code !== 'ENOENT' || parent === target) throw error;
+      return path.join(await StorageProviderService.realpathAllowingMissing(parent), path.basename(target));
+    }
+  }
+
+  private static checkEndpoint(endpoint: string): void {
+    const allowed = (process.env.STORAGE_ENDPOINT_ALLOWLIST || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+    const url = new URL(endpoint);
+    if (!['http:', 'https:'].includes(url.protocol) || !(allowed.includes(url.hostname.toLowerCase()) || allowed.includes(url.host.toLowerCase()))) {
+      throw new Error(`Storage endpoint ${url.host} is not on this server's STORAGE_ENDPOINT_ALLOWLIST`);
+    }
+  }
+
+  // Credentials are kept as JSON wrapped by the key vault's data-key KEK
+  private async wrapCredentials(credentials: Record<string, unknown>): Promise<string> {
+    return secureKeyVault.encryptDataKey(Buffer.from(JSON.stringify(credentials), 'utf8').toString('hex'));
+  }
+
+  private async unwrapCredentials(wrapped: string): Promise<Record<string, unknown>> {
+    return JSON.parse(Buffer.from(await secureKeyVault.decryptDataKey(wrapped), 'hex').toString('utf8'));
+  }
+
+  private summarize(row: HospitalStorageProvider): StorageProviderSummary {
+    return {
+      id: row.id,
+      kind: row.kind as StorageProviderKind,
+      name: row.name,
+      config: row.config,
+      hasCredentials: Boolean(row.credentials),
+      priority: row.priority,
+      enabled: row.enabled,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private async logChange(admin: User, hospitalKey: string, action: string, metadata: Record<string, unknown>, req?: Request) {
+    await auditService.logEvent({
+      eventType: "STORAGE_PROVIDERS_UPDATED",
+      actorType: "HOSPITAL_ADMIN",
+      actorId: admin.id.toString(),
+      targetType: "HOSPITAL",
+      targetId: hospitalKey,
+      action,
+      outcome: "SUCCESS",
+      metadata,
+      severity: "warning",
+      hospital_id: admin.hospital_id,
+    }, req);
+  }
+}
+
+export const storageProviderService = StorageProviderService.getInstance();
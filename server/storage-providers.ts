@@ -0,0 +1,326 @@
+import PinataClient from '@pinata/sdk';
+import { create as createKuboClient, type KuboRPCClient } from 'kubo-rpc-client';
+import type S3 from 'aws-sdk/clients/s3';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageProviderKind, StorageProviderSettings } from '@shared/storage-providers';
+
+/**
+ * A backend that holds encrypted blobs. Content is always encrypted before it
+ * reaches a provider, so providers only ever see ciphertext.
+ */
+export interface StorageProvider {
+  readonly kind: StorageProviderKind;
+  readonly providerId?: number; // Set for hospital-configured providers
+  readonly name: string;
+
+  /** Store content and return the reference it is read back by */
+  put(content: Buffer, name: string, metadata: Record<string, unknown>): Promise<string>;
+
+  /** Store a file from disk without reading it into memory */
+  putFile(filePath: string, name: string, metadata: Record<string, unknown>): Promise<string>;
+
+  openStream(ref: string): Promise<Readable>;
+
+  isHealthy(): Promise<boolean>;
+}
+
+export interface ProviderIdentity {
+  providerId?: number;
+  name: string;
+}
+
+/**
+ * Pinata hosted pinning; references are CIDs
+ */
+export class PinataStorageProvider implements StorageProvider {
+  readonly kind = 'pinata' as const;
+  readonly providerId?: number;
+  readonly name: string;
+  private client: PinataClient;
+  private gatewayUrl: string;
+
+  constructor(
+    identity: ProviderIdentity,
+    credentials: { jwt: string } | { apiKey: string; apiSecret: string },
+    config: { gatewayUrl?: string } = {}
+  ) {
+    this.providerId = identity.providerId;
+    this.name = identity.name;
+    this.client = 'jwt' in credentials
+      ? new PinataClient({ pinataJWTKey: credentials.jwt })
+      : new PinataClient(credentials.apiKey, credentials.apiSecret);
+    this.gatewayUrl = (config.gatewayUrl || 'https://gateway.pinata.cloud').replace(/\/$/, '');
+  }
+
+  // The SDK needs a named file stream, so buffers go through a temp file
+  async put(content: Buffer, name: string, metadata: Record<string, unknown>): Promise<string> {
+    const tempPath = path.join(os.tmpdir(), `pinata_${crypto.randomBytes(8).toString('hex')}_${path.basename(name)}`);
+    try {
+      await fs.promises.writeFile(tempPath, content);
+      return await this.putFile(tempPath, name, metadata);
+    } finally {
+      fs.promises.unlink(tempPath).catch(() => {});
+    }
+  }
+
+  async putFile(filePath: string, name: string, metadata: Record<string, unknown>): Promise<string> {
+    const result = await this.client.pinFileToIPFS(fs.createReadStream(filePath), {
+      pinataMetadata: { name, keyvalues: metadata as any },
+    });
+    return result.IpfsHash;
+  }
+
+  async openStream(ref: string): Promise<Readable> {
+    const response = await fetch(`${this.gatewayUrl}/ipfs/${ref}`);
+    if (!response.ok || !response.body) {
+      throw new Error(`Pinata gateway returned ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.client.testAuthentication();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * A Kubo (go-ipfs) node reached over its RPC API, typically inside the hospital
+ * network; references are CIDs pinned on that node
+ */
+export class KuboStorageProvider implements StorageProvider {
+  readonly kind = 'kubo' as const;
+  readonly providerId?: number;
+  readonly name: string;
+  private client: KuboRPCClient;
+
+  constructor(identity: ProviderIdentity, config: { apiUrl: string }, credentials: { authorization?: string } = {}) {
+    this.providerId = identity.providerId;
+    this.name = identity.name;
+    this.client = createKuboClient({
+      url: config.apiUrl,
+      headers: credentials.authorization ? { authorization: credentials.authorization } : undefined,
+    });
+  }
+
+  async put(content: Buffer): Promise<string> {
+    const { cid } = await this.client.add(content, { pin: true, cidVersion: 1 });
+    return cid.toString();
+  }
+
+  async putFile(filePath: string): Promise<string> {
+    const { cid } = await this.client.add(fs.createReadStream(filePath), { pin: true, cidVersion: 1 });
+    return cid.toString();
+  }
+
+  async openStream(ref: string): Promise<Readable> {
+    return primedStream(this.client.cat(ref));
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.client.id();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * AWS S3 or any S3-compatible store (MinIO, Ceph); objects are keyed by the
+ * SHA-256 of their content
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly kind = 's3' as const;
+  readonly providerId?: number;
+  readonly name: string;
+  private client: Promise<S3> | null = null;
+
+  constructor(
+    identity: ProviderIdentity,
+    private config: { endpoint?: string; region: string; bucket: string; prefix?: string },
+    private credentials: { accessKeyId: string; secretAccessKey: string }
+  ) {
+    this.providerId = identity.providerId;
+    this.name = identity.name;
+  }
+
+  async put(content: Buffer, _name: string, metadata: Record<string, unknown>): Promise<string> {
+    const ref = `${sha256(content)}.enc`;
+    const s3 = await this.getClient();
+    await s3.upload({ Bucket: this.config.bucket, Key: this.keyFor(ref), Body: content, Metadata: toObjectMetadata(metadata) }).promise();
+    return ref;
+  }
+
+  async putFile(filePath: string, _name: string, metadata: Record<string, unknown>): Promise<string> {
+    const ref = `${await sha256File(filePath)}.enc`;
+    const s3 = await this.getClient();
+    await s3.upload({
+      Bucket: this.config.bucket,
+      Key: this.keyFor(ref),
+      Body: fs.createReadStream(filePath),
+      Metadata: toObjectMetadata(metadata),
+    }).promise();
+    return ref;
+  }
+
+  async openStream(ref: string): Promise<Readable> {
+    const s3 = await this.getClient();
+    const params = { Bucket: this.config.bucket, Key: this.keyFor(ref) };
+    // getObject streams report a missing key only once read; check first so failover can move on
+    await s3.headObject(params).promise();
+    return s3.getObject(params).createReadStream();
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      const s3 = await this.getClient();
+      await s3.headBucket({ Bucket: this.config.bucket }).promise();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private keyFor(ref: string): string {
+    if (path.posix.basename(ref) !== ref) {
+      throw new Error('Invalid object reference');
+    }
+    return this.config.prefix ? `${this.config.prefix.replace(/\/$/, '')}/${ref}` : ref;
+  }
+
+  // aws-sdk is large; load it only for hospitals that use S3
+  private getClient(): Promise<S3> {
+    if (!this.client) {
+      this.client = import('aws-sdk/clients/s3').then(({ default: S3Client }) => new S3Client({
+        endpoint: this.config.endpoint,
+        region: this.config.region,
+        accessKeyId: this.credentials.accessKeyId,
+        secretAccessKey: this.credentials.secretAccessKey,
+        s3ForcePathStyle: Boolean(this.config.endpoint), // MinIO and most self-hosted stores
+        signatureVersion: 'v4',
+      }));
+    }
+    return this.client;
+  }
+}
+
+/**
+ * A directory on the application server or a mounted volume; files are named
+ * by the SHA-256 of their content
+ */
+export class LocalDiskStorageProvider implements StorageProvider {
+  readonly kind = 'local' as const;
+  readonly providerId?: number;
+  readonly name: string;
+  private directory: string;
+
+  constructor(identity: ProviderIdentity, config: { directory: string }) {
+    this.providerId = identity.providerId;
+    this.name = identity.name;
+    this.directory = path.resolve(config.directory);
+  }
+
+  async put(content: Buffer): Promise<string> {
+    const ref = `${sha256(content)}.enc`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.pathFor(ref), content);
+    return ref;
+  }
+
+  async putFile(filePath: string): Promise<string> {
+    const ref = `${await sha256File(filePath)}.enc`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.copyFile(filePath, this.pathFor(ref));
+    return ref;
+  }
+
+  async openStream(ref: string): Promise<Readable> {
+    const filePath = this.pathFor(ref);
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath);
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.access(this.directory, fs.constants.W_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private pathFor(ref: string): string {
+    if (path.basename(ref) !== ref) {
+      throw new Error('Invalid file reference');
+    }
+    return path.join(this.directory, ref);
+  }
+}
+
+/**
+ * Build a provider from its kind, non-secret config and decrypted credentials
+ */
+export function createStorageProvider(identity: ProviderIdentity, settings: StorageProviderSettings): StorageProvider {
+  switch (settings.kind) {
+    case 'pinata':
+      return new PinataStorageProvider(identity, settings.credentials, settings.config);
+    case 'kubo':
+      return new KuboStorageProvider(identity, settings.config, settings.credentials);
+    case 's3':
+      return new S3StorageProvider(identity, settings.config, settings.credentials);
+    case 'local':
+      return new LocalDiskStorageProvider(identity, settings.config);
+  }
+}
+
+export async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+// S3 user metadata is string-only and travels as HTTP headers
+function toObjectMetadata(metadata: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(metadata)
+      .filter(([, value]) => value !== undefined && value !== null && typeof value !== 'object')
+      .map(([key, value]) => [key.toLowerCase(), String(value)])
+  );
+}
+
+// Wait for the first chunk so a missing object fails here rather than mid-response
+async function primedStream(source: AsyncIterable<Uint8Array>): Promise<Readable> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  return Readable.from((async function* () {
+    if (!first.done) yield Buffer.from(first.value);
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield Buffer.from(next.value);
+    }
+  })());
+}
@@ -0,0 +1,287 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { auditService } from "./audit-service";
+import { storageProviderService } from "./storage-provider-service";
+import { ipfsRedundancyService } from "./ipfs-redundancy-service";
+import { filecoinService } from "./filecoin-service";
+import { isStorageProviderKind, type StorageProviderKind } from "@shared/storage-providers";
+import type { StorageLocation } from "@shared/schema";
+
+const SCRUB_INTERVAL_MS = 60 * 60 * 1000;
+const SCRUB_BATCH_SIZE = 50; // Copies picked per run; every other copy of their content is checked too
+const REVERIFY_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+const COPY_TIMEOUT_MS = 2 * 60 * 1000;
+
+type CopyOutcome = 'verified' | 'missing' | 'corrupt';
+
+interface CopyCheck {
+  location: StorageLocation;
+  outcome: CopyOutcome;
+  durationMs: number;
+  repaired?: boolean;
+  error?: string;
+}
+
+export interface ScrubReport {
+  contentChecked: number;
+  copiesChecked: number;
+  verified: number;
+  failed: number;
+  repaired: number;
+  lost: number; // Content with no readable, intact copy left
+}
+
+/**
+ * Storage Scrubber Service
+ * Periodically reads every stored copy back, re-hashes it against the content hash
+ * recorded at upload and re-uploads damaged or missing copies from a healthy one.
+ * Copies stored before storage providers were configurable are keyed by CID rather
+ * than SHA-256, so for those only retrievability is checked and nothing is repaired.
+ */
+class StorageScrubberService {
+  private static instance: StorageScrubberService;
+  private scrubTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance(): StorageScrubberService {
+    if (!StorageScrubberService.instance) {
+      StorageScrubberService.instance = new StorageScrubberService();
+    }
+    return StorageScrubberService.instance;
+  }
+
+  /**
+   * Scrub the copies verified longest ago; returns null if a run is already in progress
+   */
+  async runOnce(): Promise<ScrubReport | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const due = await storage.getStorageLocationsDueForVerification(new Date(Date.now() - REVERIFY_AFTER_MS), SCRUB_BATCH_SIZE);
+      const report: ScrubReport = { contentChecked: 0, copiesChecked: 0, verified: 0, failed: 0, repaired: 0, lost: 0 };
+      const checks: CopyCheck[] = [];
+
+      for (const contentHash of Array.from(new Set(due.map(location => location.contentHash)))) {
+        const locations = (await storage.getStorageLocationsByContentHash(contentHash)).filter(l => l.status !== 'archived');
+        const contentChecks = await this.scrubContent(contentHash, locations);
+
+        report.contentChecked++;
+        report.copiesChecked += contentChecks.length;
+        report.verified += contentChecks.filter(c => c.outcome === 'verified').length;
+        report.failed += contentChecks.filter(c => c.outcome !== 'verified').length;
+        report.repaired += contentChecks.filter(c => c.repaired).length;
+        if (!contentChecks.some(c => c.outcome === 'verified')) report.lost++;
+        checks.push(...contentChecks);
+      }
+
+      await this.recordMetrics(checks);
+      if (report.copiesChecked > 0) {
+        console.log(`[StorageScrubber] Checked ${report.copiesChecked} copies of ${report.contentChecked} objects: ${report.failed} failed, ${report.repaired} repaired, ${report.lost} lost`);
+      }
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Scrub a batch every hour while the server runs
+   */
+  startScrubSchedule(): void {
+    if (this.scrubTimer) return;
+    this.scrubTimer = setInterval(() => {
+      this.runOnce().catch(error =>
+        console.error(`[StorageScrubber] Scrub run failed: ${error}`)
+      );
+    }, SCRUB_INTERVAL_MS);
+    this.scrubTimer.unref();
+  }
+
+  private async scrubContent(contentHash: string, locations: StorageLocation[]): Promise<CopyCheck[]> {
+    const checks: CopyCheck[] = [];
+    for (const location of locations) {
+      checks.push(await this.verifyCopy(location));
+    }
+
+    const healthy = checks.find(c => c.outcome === 'verified');
+    const failed = checks.filter(c => c.outcome !== 'verified');
+    if (healthy && failed.length > 0 && isSha256(contentHash)) {
+      await this.repair(contentHash, healthy.location, failed);
+    }
+
+    const verifiedAt = new Date();
+    for (const check of checks) {
+      if (check.repaired) continue; // repair() already saved the new reference
+      await storage.updateStorageLocation(check.location.id, {
+        status: check.outcome === 'verified' ? 'active' : 'failed',
+        lastVerified: verifiedAt,
+      });
+    }
+
+    const recordId = locations.find(l => l.recordId)?.recordId ?? null;
+    const hospital_id = recordId ? (await storage.getPatientRecordById(recordId))?.hospital_id : undefined;
+    const failures = failed.map(c => ({ locationId: c.location.id, storageType: c.location.storageType, outcome: c.outcome, repaired: Boolean(c.repaired), error: c.error }));
+
+    if (!healthy) {
+      await auditService.logSecurityViolation({
+        violationType: "STORAGE_ALL_REPLICAS_LOST",
+        severity: "critical",
+        targetResource: recordId ? `record:${recordId}` : `content:${contentHash}`,
+        details: { contentHash, recordId, copies: failures },
+        hospital_id,
+      });
+    } else if (failed.length > 0) {
+      await auditService.logEvent({
+        eventType: "STORAGE_INTEGRITY_SCRUB",
+        actorType: "SYSTEM",
+        actorId: "storage_scrubber",
+        targetType: "RECORD",
+        targetId: recordId ? recordId.toString() : contentHash,
+        action: "REPAIR",
+        outcome: failed.every(c => c.repaired) ? "SUCCESS" : "FAILURE",
+        metadata: { contentHash, copies: failures },
+        severity: "warning",
+        hospital_id,
+      });
+    }
+
+    return checks;
+  }
+
+  private async verifyCopy(location: StorageLocation): Promise<CopyCheck> {
+    const startTime = Date.now();
+    try {
+      const actual = await hashStream(await withTimeout(this.openCopy(location), COPY_TIMEOUT_MS));
+      const intact = !isSha256(location.contentHash) || actual === location.contentHash;
+      return {
+        location,
+        outcome: intact ? 'verified' : 'corrupt',
+        durationMs: Date.now() - startTime,
+        error: intact ? undefined : `Hash mismatch: got ${actual}`,
+      };
+    } catch (error: any) {
+      return { location, outcome: 'missing', durationMs: Date.now() - startTime, error: error.message };
+    }
+  }
+
+  // Copy the healthy replica to a temp file once, then re-upload it to each failed location
+  private async repair(contentHash: string, source: StorageLocation, failed: CopyCheck[]): Promise<void> {
+    const tempPath = path.join(os.tmpdir(), `scrub_${crypto.randomBytes(8).toString("hex")}.enc`);
+    try {
+      const stream = await withTimeout(this.openCopy(source), COPY_TIMEOUT_MS);
+      await pipeline(stream, fs.createWriteStream(tempPath), { signal: AbortSignal.timeout(COPY_TIMEOUT_MS) });
+      if (await hashStream(fs.createReadStream(tempPath)) !== contentHash) {
+        throw new Error('Healthy copy changed while repairing');
+      }
+
+      for (const check of failed) {
+        const { location } = check;
+        try {
+          const provider = await storageProviderService.providerFor({
+            provider: location.storageType as StorageProviderKind,
+            providerId: location.providerId ?? undefined,
+            ref: location.locationId,
+          });
+          const ref = await provider.putFile(tempPath, `${contentHash}.enc`, { contentHash, repairedAt: new Date().toISOString() });
+          await storage.updateStorageLocation(location.id, { status: 'active', locationId: ref, lastVerified: new Date() });
+          check.repaired = true;
+        } catch (error: any) {
+          check.error = `${check.error}; repair failed: ${error.message}`;
+        }
+      }
+    } catch (error: any) {
+      failed.forEach(check => { check.error = `${check.error}; repair failed: ${error.message}`; });
+    } finally {
+      fs.promises.unlink(tempPath).catch(() => {});
+    }
+  }
+
+  private async openCopy(location: StorageLocation): Promise<Readable> {
+    if (isSha256(location.contentHash)) {
+      if (!isStorageProviderKind(location.storageType)) {
+        throw new Error(`Unknown storage provider: ${location.storageType}`);
+      }
+      const provider = await storageProviderService.providerFor({
+        provider: location.storageType,
+        providerId: location.providerId ?? undefined,
+        ref: location.locationId,
+      });
+      return provider.openStream(location.locationId);
+    }
+
+    // Legacy copies: CID on public gateways or Pinata, or a full local path
+    switch (location.storageType) {
+      case 'ipfs':
+        return ipfsRedundancyService.openStreamWithFailover(location.locationId);
+      case 'filecoin':
+        return filecoinService.openFilecoinStream(location.locationId);
+      case 'local':
+        await fs.promises.access(location.locationId);
+        return fs.createReadStream(location.locationId);
+      default:
+        throw new Error(`Unknown storage type: ${location.storageType}`);
+    }
+  }
+
+  private async recordMetrics(checks: CopyCheck[]): Promise<void> {
+    const byType = new Map<string, CopyCheck[]>();
+    for (const check of checks) {
+      byType.set(check.location.storageType, [...(byType.get(check.location.storageType) || []), check]);
+    }
+
+    for (const [storageType, typeChecks] of Array.from(byType.entries())) {
+      const verified = typeChecks.filter(c => c.outcome === 'verified').length;
+      const ratio = verified / typeChecks.length;
+      await storage.createStorageHealthMetric({
+        storageType,
+        healthStatus: ratio >= 0.99 ? 'healthy' : ratio >= 0.9 ? 'degraded' : 'critical',
+        responseTimeMs: Math.round(typeChecks.reduce((sum, c) => sum + c.durationMs, 0) / typeChecks.length),
+        availabilityPercentage: (ratio * 100).toFixed(2),
+        details: {
+          source: 'integrity_scrub',
+          checked: typeChecks.length,
+          verified,
+          corrupt: typeChecks.filter(c => c.outcome === 'corrupt').length,
+          missing: typeChecks.filter(c => c.outcome === 'missing').length,
+          repaired: typeChecks.filter(c => c.repaired).length,
+        },
+      });
+    }
+  }
+}
+
+function isSha256(value: string): boolean {
+  return /^[a-f0-9]{64}$/.test(value);
+}
+
+// Gives up if the copy stalls rather than holding up the rest of the run
+async function hashStream(stream: Readable): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  const timer = setTimeout(() => stream.destroy(new Error('Timed out reading stored copy')), COPY_TIMEOUT_MS);
+  try {
+    for await (const chunk of stream) {
+      hash.update(chunk);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+  return hash.digest("hex");
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Timed out opening stored copy')), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+export const storageScrubberService = StorageScrubberService.getInstance();
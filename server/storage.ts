@@ -1,4 +1,4 @@
-import { users, patientRecords, consentRecords, type User, type InsertUser, type PatientRecord, type InsertPatientRecord, type InsertConsentRecord, type ConsentRecord, patientProfiles, filecoinDeals, storageLocations, storageCosts, storageHealthMetrics, type InsertFilecoinDeal, type FilecoinDeal, type InsertStorageLocation, type StorageLocation, type InsertStorageCost, type StorageCost, type InsertStorageHealthMetric, type StorageHealthMetric, zkpProofs, zkpVerifications, type InsertZKPProof, type ZKPProof, type InsertZKPVerification, type ZKPVerification, hospitalStaff, patientEmergencyContacts, hospitalStaffInvitations, type HospitalStaff, type InsertHospitalStaff, type PatientEmergencyContact, type InsertPatientEmergencyContact, type HospitalStaffInvitation, type InsertHospitalStaffInvitation, feedback, proofCodes } from "@shared/schema";
+import { users, patientRecords, consentRecords, consentGrants, type ConsentGrant, type InsertConsentGrant, consentDelegations, type ConsentDelegation, type InsertConsentDelegation, type User, type InsertUser, type PatientRecord, type InsertPatientRecord, type InsertConsentRecord, type ConsentRecord, patientProfiles, filecoinDeals, storageLocations, storageCosts, storageHealthMetrics, type InsertFilecoinDeal, type FilecoinDeal, type InsertStorageLocation, type StorageLocation, type InsertStorageCost, type StorageCost, type InsertStorageHealthMetric, type StorageHealthMetric, zkpProofs, zkpVerifications, type InsertZKPProof, type ZKPProof, type InsertZKPVerification, type ZKPVerification, zkpProofRevocations, type InsertZKPProofRevocation, type ZKPProofRevocation, recordClaimCommitments, type InsertRecordClaimCommitment, type RecordClaimCommitment, hospitalStaff, patientEmergencyContacts, hospitalStaffInvitations, type HospitalStaff, type InsertHospitalStaff, type PatientEmergencyContact, type InsertPatientEmergencyContact, type HospitalStaffInvitation, type InsertHospitalStaffInvitation, feedback, proofCodes } from "@shared/schema";
 import { 
   patientIdentities, 
   verifiableCredentials, 
@@ -17,24 +17,86 @@ import {
   auditEvents,
   consentAuditTrail,
   securityViolations,
-  type SecurityViolation
+  type SecurityViolation,
+  type AuditEvent
 } from "@shared/audit-schema"; // Import audit tables
 import {
   emergencyConsentRecords,
+  emergencyAccessReviews,
   type InsertEmergencyConsentRecord,
-  type EmergencyConsentRecordSchema
+  type EmergencyConsentRecordSchema,
+  type InsertEmergencyAccessReview,
+  type EmergencyAccessReview,
+  hospitalPermissions,
+  type HospitalPermission,
+  hospitalStorageProviders,
+  type InsertHospitalStorageProvider,
+  type HospitalStorageProvider,
+  hospitalRetentionPolicies,
+  type HospitalRetentionPolicy,
+  shiftTemplates,
+  shiftAssignments,
+  type InsertShiftTemplate,
+  type ShiftTemplate,
+  type InsertShiftAssignment,
+  type ShiftAssignment,
+  recordAllergies,
+  recordMedications,
+  recordVitalSigns,
+  recordLabResults,
+  recordImmunizations,
+  type InsertRecordAllergy,
+  type InsertRecordMedication,
+  type InsertRecordVitalSigns,
+  type InsertRecordLabResult,
+  type InsertRecordImmunization,
+  type RecordAllergy,
+  type RecordClinicalDetails,
+  recordAttachments,
+  type InsertRecordAttachment,
+  type RecordAttachment,
+  recordVersions,
+  type InsertRecordVersion,
+  type RecordVersion,
+  recordCorrectionRequests,
+  type InsertRecordCorrectionRequest,
+  type RecordCorrectionRequest,
+  secureKeyStore,
+  type SecureKeyEntry,
+  masterKeyRotations,
+  type InsertMasterKeyRotation,
+  type MasterKeyRotation
 } from "@shared/schema"; // Import emergency consent schema
 import { db } from "./db";
-import { eq, and, or, sql, isNull, gt, desc, inArray, lt, gte, lte } from "drizzle-orm"; // Import sql and inArray
+import { eq, and, or, sql, isNull, gt, desc, inArray, lt, gte, lte, asc } from "drizzle-orm"; // Import sql and inArray
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 import type { InsertPatientProfile } from "@shared/schema";
+import type { FilecoinDealStatus, RetentionPolicy } from "@shared/filecoin-deals";
 import crypto from "crypto";
 import { enhancedEncryptionService } from "./enhanced-encryption-service";
 
 const PostgresSessionStore = connectPg(session);
 
+// Columns holding DEKs or credentials wrapped by the key vault
+export type WrappedKeySource = 'record' | 'attachment' | 'storage_provider' | 'claim_commitment';
+
+// A validated submission plus the columns the server fills in
+export type NewPatientRecord = InsertPatientRecord & Pick<typeof patientRecords.$inferInsert, "submittedBy" | "hospital_id" | "recordType">;
+
+// Structured sub-records of a record, keyed to it on insert
+export type NewRecordClinicalDetails = {
+  allergies: Omit<InsertRecordAllergy, "recordId">[];
+  medications: Omit<InsertRecordMedication, "recordId">[];
+  vitals: Omit<InsertRecordVitalSigns, "recordId">[];
+  labResults: Omit<InsertRecordLabResult, "recordId">[];
+  immunizations: Omit<InsertRecordImmunization, "recordId">[];
+};
+
+// Clinical fields an amendment may change
+export type RecordAmendmentFields = Pick<InsertPatientRecord, "visitDate" | "visitType" | "diagnosis" | "prescription" | "physician" | "department" | "entities" | "icd_codes">;
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -44,12 +106,43 @@ export interface IStorage {
   
   // Patient Records
   createPatientRecord(record: Omit<InsertPatientRecord, "hospital_id"> & { submittedBy: number, hospital_id: number }): Promise<PatientRecord>;
+  createPatientRecordsWithDetails(entries: Array<{ record: NewPatientRecord; clinical?: NewRecordClinicalDetails }>): Promise<PatientRecord[]>;
   getPatientRecordsByNationalId(nationalId: string): Promise<PatientRecord[]>;
   getPatientRecordsByDID(patientDID: string): Promise<PatientRecord[]>;
   getWeb3PatientRecordsByDID(patientDID: string): Promise<PatientRecord[]>;
   getPatientRecordById(id: number): Promise<PatientRecord | undefined>;
-  updateRecordIPFS(recordId: number, ipfsCid: string, encryptionKey: string): Promise<void>;
-  updateRecordFilecoin(recordId: number, filecoinCid: string, storageCost: number, storageMetadata: any): Promise<void>;
+
+  // Structured Clinical Sub-records
+  createRecordClinicalDetails(recordId: number, details: NewRecordClinicalDetails): Promise<RecordClinicalDetails>;
+  getClinicalDetailsByRecordIds(recordIds: number[]): Promise<RecordClinicalDetails>;
+  getAllergiesByNationalId(nationalId: string): Promise<Array<RecordAllergy & { visitDate: string }>>;
+
+  // Record Amendments
+  amendPatientRecord(
+    recordId: number,
+    expectedVersion: number,
+    amendment: RecordAmendmentFields,
+    versions: InsertRecordVersion[],
+    claimCommitments: InsertRecordClaimCommitment[]
+  ): Promise<PatientRecord>;
+  getRecordVersions(recordId: number): Promise<RecordVersion[]>;
+
+  // Record Correction Requests
+  createRecordCorrectionRequest(request: InsertRecordCorrectionRequest): Promise<RecordCorrectionRequest>;
+  getRecordCorrectionRequestById(id: number): Promise<RecordCorrectionRequest | undefined>;
+  getRecordCorrectionRequests(filters: { hospital_id?: number; patientDID?: string; recordId?: number; status?: string }): Promise<RecordCorrectionRequest[]>;
+  updateRecordCorrectionRequest(
+    id: number,
+    updates: Partial<InsertRecordCorrectionRequest>,
+    expectedStatus?: string
+  ): Promise<RecordCorrectionRequest | undefined>;
+
+  // Record Attachments
+  createRecordAttachment(attachment: InsertRecordAttachment): Promise<RecordAttachment>;
+  getRecordAttachments(recordId: number): Promise<RecordAttachment[]>;
+  getRecordAttachmentById(id: number): Promise<RecordAttachment | undefined>;
+  updateRecordIPFS(recordId: number, ipfsCid: string | null, encryptionKey: string): Promise<void>;
+  updateRecordFilecoin(recordId: number, filecoinCid: string | null, storageCost: number, storageMetadata: any): Promise<void>;
   
   // Consent Management
   createConsentRecord(consent: InsertConsentRecord): Promise<ConsentRecord>;
@@ -64,6 +157,21 @@ export interface IStorage {
   getConsentRequestById(requestId: number): Promise<any>;
   updateConsentRequestStatus(patientId: string, hospitalId: number, status: string): Promise<void>;
   revokeConsentRecords(patientId: string, hospitalId: number): Promise<void>;
+
+  // Scoped Consent Grants
+  createConsentGrant(grant: InsertConsentGrant): Promise<ConsentGrant>;
+  getConsentGrantById(id: number): Promise<ConsentGrant | undefined>;
+  getActiveConsentGrants(patientId: string, grantedTo: number): Promise<ConsentGrant[]>;
+  getConsentGrantsByPatientId(patientId: string): Promise<ConsentGrant[]>;
+  revokeConsentGrant(id: number): Promise<void>;
+  revokeConsentGrants(patientId: string, grantedTo: number): Promise<void>;
+
+  // Consent Delegations (guardians / caregivers)
+  createConsentDelegation(delegation: InsertConsentDelegation): Promise<ConsentDelegation>;
+  getConsentDelegationById(id: number): Promise<ConsentDelegation | undefined>;
+  getConsentDelegationsByPatientDID(patientDID: string): Promise<ConsentDelegation[]>;
+  getActiveConsentDelegationsForDelegate(delegate: { phone?: string | null; did?: string | null }): Promise<ConsentDelegation[]>;
+  revokeConsentDelegation(id: number): Promise<void>;
   
   // Web3 Patient Identities (for existing features)
   createPatientIdentity(identity: InsertPatientIdentity): Promise<PatientIdentity>;
@@ -119,6 +227,20 @@ export interface IStorage {
   // Emergency Consent Methods
   createEmergencyConsentRecord(record: InsertEmergencyConsentRecord): Promise<EmergencyConsentRecordSchema>;
   getEmergencyConsentRecord(id: string): Promise<EmergencyConsentRecordSchema | undefined>;
+  updateEmergencyConsentRecord(id: string, updates: Partial<InsertEmergencyConsentRecord>): Promise<void>;
+  revokeEmergencyConsentRecord(id: string): Promise<void>;
+  getEmergencyAccessEvents(emergencyConsentId: string): Promise<AuditEvent[]>;
+
+  // Post-emergency review methods
+  createEmergencyAccessReview(review: InsertEmergencyAccessReview): Promise<EmergencyAccessReview>;
+  getEmergencyAccessReviewById(id: number): Promise<EmergencyAccessReview | undefined>;
+  getEmergencyAccessReviews(filters?: { status?: string; hospital_id?: number }): Promise<EmergencyAccessReview[]>;
+  updateEmergencyAccessReview(
+    id: number,
+    updates: Partial<InsertEmergencyAccessReview>,
+    expectedStatus?: string
+  ): Promise<EmergencyAccessReview | undefined>;
+  getHospitalAdmins(hospital_id: number): Promise<User[]>;
 
   // Admin/Audit Data Retrieval
   getSecurityViolations(options?: { limit?: number; offset?: number; resolved?: boolean; hospital_id?: number }): Promise<SecurityViolation[]>;
@@ -172,14 +294,19 @@ export interface IStorage {
   getFilecoinDealById(id: number): Promise<FilecoinDeal | undefined>;
   getFilecoinDealByDealId(dealId: string): Promise<FilecoinDeal | undefined>;
   getFilecoinDealsByPatientDID(patientDID: string): Promise<FilecoinDeal[]>;
-  updateFilecoinDealStatus(dealId: string, status: 'active' | 'expired' | 'terminated'): Promise<void>;
+  updateFilecoinDealStatus(dealId: string, status: FilecoinDealStatus): Promise<void>;
+  updateFilecoinDeal(id: number, updates: Partial<InsertFilecoinDeal>): Promise<void>;
   getExpiringFilecoinDeals(daysUntilExpiry: number): Promise<FilecoinDeal[]>;
+  expireFilecoinDeals(now: Date): Promise<FilecoinDeal[]>;
+  renewFilecoinDeal(previousId: number, deal: InsertFilecoinDeal): Promise<FilecoinDeal>;
 
   // Storage Locations Methods
   createStorageLocation(location: InsertStorageLocation): Promise<StorageLocation>;
   getStorageLocationsByContentHash(contentHash: string): Promise<StorageLocation[]>;
   updateStorageLocationStatus(id: number, status: 'active' | 'archived' | 'failed'): Promise<void>;
   getStorageLocationsByType(storageType: 'ipfs' | 'filecoin' | 'local'): Promise<StorageLocation[]>;
+  getStorageLocationsDueForVerification(verifiedBefore: Date, limit: number): Promise<StorageLocation[]>;
+  updateStorageLocation(id: number, updates: Partial<InsertStorageLocation>): Promise<void>;
 
   // Storage Costs Methods
   createStorageCost(cost: InsertStorageCost): Promise<StorageCost>;
@@ -201,6 +328,40 @@ export interface IStorage {
   updateHospitalStaff(id: number, updates: Partial<InsertHospitalStaff>): Promise<HospitalStaff>;
   getHospitalStaffByHospitalId(hospitalId: string): Promise<HospitalStaff[]>;
 
+  // Hospital Permission Methods
+  getHospitalPermissions(hospitalId: string): Promise<HospitalPermission[]>;
+  setHospitalPermission(hospitalId: string, role: string, capabilities: string[], updatedBy: number): Promise<HospitalPermission>;
+
+  // Hospital Storage Provider Methods
+  createHospitalStorageProvider(provider: InsertHospitalStorageProvider): Promise<HospitalStorageProvider>;
+  getHospitalStorageProviderById(id: number): Promise<HospitalStorageProvider | undefined>;
+  getHospitalStorageProviders(hospitalId: string): Promise<HospitalStorageProvider[]>;
+  updateHospitalStorageProvider(id: number, updates: Partial<InsertHospitalStorageProvider>): Promise<HospitalStorageProvider | undefined>;
+
+  // Master Key Rotation Methods
+  createMasterKeyRotation(rotation: InsertMasterKeyRotation): Promise<MasterKeyRotation>;
+  getLatestMasterKeyRotation(): Promise<MasterKeyRotation | undefined>;
+  updateMasterKeyRotation(id: number, updates: Partial<InsertMasterKeyRotation>): Promise<void>;
+  getPatientKeysForRewrap(backend: string, targetVersion: number, afterDid: string | null, limit: number): Promise<SecureKeyEntry[]>;
+  updatePatientKeyWrap(patientDid: string, previous: Pick<SecureKeyEntry, 'encryptedKey' | 'wrappedDek'>, wrapped: Pick<SecureKeyEntry, 'encryptedKey' | 'iv' | 'authTag' | 'wrappedDek' | 'keyBackend' | 'keyVersion'>): Promise<boolean>;
+  getWrappedKeys(source: WrappedKeySource, afterId: number, limit: number): Promise<Array<{ id: number; wrapped: string }>>;
+  updateWrappedKey(source: WrappedKeySource, id: number, previous: string, wrapped: string): Promise<boolean>;
+
+  // Hospital Retention Policy Methods
+  getHospitalRetentionPolicy(hospitalId: string): Promise<HospitalRetentionPolicy | undefined>;
+  setHospitalRetentionPolicy(hospitalId: string, policy: RetentionPolicy, updatedBy: number): Promise<HospitalRetentionPolicy>;
+
+  // Duty Roster Methods
+  createShiftTemplate(template: InsertShiftTemplate): Promise<ShiftTemplate>;
+  getShiftTemplateById(id: number): Promise<ShiftTemplate | undefined>;
+  getShiftTemplates(hospitalId: string, includeInactive?: boolean): Promise<ShiftTemplate[]>;
+  updateShiftTemplate(id: number, updates: Partial<InsertShiftTemplate>): Promise<ShiftTemplate>;
+  createShiftAssignment(assignment: InsertShiftAssignment): Promise<ShiftAssignment>;
+  getShiftAssignmentById(id: number): Promise<ShiftAssignment | undefined>;
+  getShiftAssignments(filters: { hospitalId?: string; staffId?: string; fromDate: string; toDate: string }): Promise<ShiftAssignment[]>;
+  updateShiftAssignment(id: number, updates: Partial<InsertShiftAssignment>): Promise<ShiftAssignment>;
+  deleteShiftAssignment(id: number): Promise<void>;
+
   // Patient Emergency Contacts Methods
   getPatientEmergencyContacts(patientId: string): Promise<PatientEmergencyContact[]>;
   getVerifiedPatientEmergencyContacts(patientId: string): Promise<PatientEmergencyContact[]>;
@@ -216,6 +377,11 @@ export interface IStorage {
   deactivateZKPProof(id: number): Promise<void>;
   createZKPVerification(verification: InsertZKPVerification): Promise<ZKPVerification>;
   getZKPVerificationsByProofId(proofId: number): Promise<ZKPVerification[]>;
+  createZKPProofRevocation(revocation: InsertZKPProofRevocation): Promise<ZKPProofRevocation>;
+  getZKPProofRevocation(proofId: number): Promise<ZKPProofRevocation | undefined>;
+  getZKPProofRevocations(): Promise<ZKPProofRevocation[]>;
+  createRecordClaimCommitments(commitments: InsertRecordClaimCommitment[]): Promise<RecordClaimCommitment[]>;
+  getRecordClaimCommitments(recordId: number): Promise<RecordClaimCommitment[]>;
 
   // Staff Invitation Methods
   createHospitalStaffInvitation(invitation: InsertHospitalStaffInvitation): Promise<HospitalStaffInvitation>;
@@ -234,6 +400,7 @@ export interface IStorage {
   getProofCodeByHash(codeHash: string): Promise<any>;
   markProofCodeUsed(id: number): Promise<void>;
   incrementProofCodeAttempts(id: number): Promise<void>;
+  getProofCodesByHash(codeHash: string): Promise<any[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -274,38 +441,75 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPatientRecord(record: Omit<InsertPatientRecord, "hospital_id"> & { submittedBy: number, hospital_id: number }): Promise<PatientRecord> {
+    const [patientRecord] = await db
+      .insert(patientRecords)
+      .values(await this.sealPatientRecord(record))
+      .returning();
+    return patientRecord;
+  }
+
+  /**
+   * Insert several records with their structured sub-records; all or none are written
+   */
+  async createPatientRecordsWithDetails(entries: Array<{ record: NewPatientRecord; clinical?: NewRecordClinicalDetails }>): Promise<PatientRecord[]> {
+    const sealed = await Promise.all(entries.map(({ record }) => this.sealPatientRecord(record)));
+    return db.transaction(async (tx) => {
+      const created: PatientRecord[] = [];
+      for (let i = 0; i < entries.length; i++) {
+        const [patientRecord] = await tx.insert(patientRecords).values(sealed[i]).returning();
+        const clinical = entries[i].clinical;
+        if (clinical) {
+          await this.insertClinicalDetails(tx, patientRecord.id, clinical);
+        }
+        created.push(patientRecord);
+      }
+      return created;
+    });
+  }
+
+  // Hash the national ID and encrypt the clinical text for insert
+  private async sealPatientRecord(record: typeof patientRecords.$inferInsert): Promise<typeof patientRecords.$inferInsert> {
     const nationalIdHash = this.computeDeterministicHash(record.nationalId);
     const encryptedRecord: any = { ...record, nationalIdHash };
+    const encrypted = await this.encryptClinicalText(record, record.patientDID || "");
+    if (encrypted) {
+      encryptedRecord.diagnosis = encrypted.diagnosis;
+      encryptedRecord.prescription = encrypted.prescription;
+      encryptedRecord.storageMetadata = {
+        ...(record as any).storageMetadata,
+        encKeys: {
+          ...(record as any).storageMetadata?.encKeys,
+          ...encrypted.encKeys,
+        },
+      };
+    }
+    return encryptedRecord;
+  }
+
+  /**
+   * Encrypt diagnosis and prescription at rest; null leaves them in plaintext
+   */
+  private async encryptClinicalText(
+    fields: { diagnosis: string; prescription?: string | null },
+    patientDID: string
+  ): Promise<{ diagnosis: string; prescription?: string | null; encKeys: Record<string, string> } | null> {
     try {
-      const patientDID = record.patientDID || "";
-      if (record.diagnosis) {
-        const encDiag = await enhancedEncryptionService.encryptRecord({ v: record.diagnosis }, patientDID);
-        encryptedRecord.diagnosis = encDiag.encryptedData;
-        encryptedRecord.storageMetadata = {
-          ...(record as any).storageMetadata,
-          encKeys: {
-            ...(record as any).storageMetadata?.encKeys,
-            diagnosis: encDiag.encryptionKey,
-          },
-        };
+      const encKeys: Record<string, string> = {};
+      let { diagnosis, prescription } = fields;
+      if (diagnosis) {
+        const encDiag = await enhancedEncryptionService.encryptRecord({ v: diagnosis }, patientDID);
+        diagnosis = encDiag.encryptedData;
+        encKeys.diagnosis = encDiag.encryptionKey;
       }
-      if (record.prescription) {
-        const encRx = await enhancedEncryptionService.encryptRecord({ v: record.prescription }, record.patientDID || "");
-        encryptedRecord.prescription = encRx.encryptedData;
-        encryptedRecord.storageMetadata = {
-          ...(encryptedRecord.storageMetadata || (record as any).storageMetadata),
-          encKeys: {
-            ...((encryptedRecord.storageMetadata || {}).encKeys || {}),
-            prescription: encRx.encryptionKey,
-          },
-        };
+      if (prescription) {
+        const encRx = await enhancedEncryptionService.encryptRecord({ v: prescription }, patientDID);
+        prescription = encRx.encryptedData;
+        encKeys.prescription = encRx.encryptionKey;
       }
-    } catch (_e) {}
-    const [patientRecord] = await db
-      .insert(patientRecords)
-      .values(encryptedRecord)
-      .returning();
-    return patientRecord;
+      return { diagnosis, prescription, encKeys };
+    } catch (_e) {
+      return null;
+    }
   }
 
   async getPatientRecordsByNationalId(nationalId: string): Promise<PatientRecord[]> {
@@ -351,6 +555,181 @@ export class DatabaseStorage implements IStorage {
     return dec;
   }
 
+  // Structured Clinical Sub-records
+  async createRecordClinicalDetails(recordId: number, details: NewRecordClinicalDetails): Promise<RecordClinicalDetails> {
+    return db.transaction(async (tx) => this.insertClinicalDetails(tx, recordId, details));
+  }
+
+  private async insertClinicalDetails(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    recordId: number,
+    details: NewRecordClinicalDetails
+  ): Promise<RecordClinicalDetails> {
+    const keyed = <T>(rows: T[]) => rows.map(row => ({ ...row, recordId }));
+    return {
+      allergies: details.allergies.length ? await tx.insert(recordAllergies).values(keyed(details.allergies)).returning() : [],
+      medications: details.medications.length ? await tx.insert(recordMedications).values(keyed(details.medications)).returning() : [],
+      vitals: details.vitals.length ? await tx.insert(recordVitalSigns).values(keyed(details.vitals)).returning() : [],
+      labResults: details.labResults.length ? await tx.insert(recordLabResults).values(keyed(details.labResults)).returning() : [],
+      immunizations: details.immunizations.length ? await tx.insert(recordImmunizations).values(keyed(details.immunizations)).returning() : [],
+    };
+  }
+
+  async getClinicalDetailsByRecordIds(recordIds: number[]): Promise<RecordClinicalDetails> {
+    if (recordIds.length === 0) {
+      return { allergies: [], medications: [], vitals: [], labResults: [], immunizations: [] };
+    }
+    const [allergies, medications, vitals, labResults, immunizations] = await Promise.all([
+      db.select().from(recordAllergies).where(inArray(recordAllergies.recordId, recordIds)).orderBy(asc(recordAllergies.id)),
+      db.select().from(recordMedications).where(inArray(recordMedications.recordId, recordIds)).orderBy(asc(recordMedications.id)),
+      db.select().from(recordVitalSigns).where(inArray(recordVitalSigns.recordId, recordIds)).orderBy(asc(recordVitalSigns.measuredAt)),
+      db.select().from(recordLabResults).where(inArray(recordLabResults.recordId, recordIds)).orderBy(asc(recordLabResults.id)),
+      db.select().from(recordImmunizations).where(inArray(recordImmunizations.recordId, recordIds)).orderBy(asc(recordImmunizations.administeredDate)),
+    ]);
+    return { allergies, medications, vitals, labResults, immunizations };
+  }
+
+  async getAllergiesByNationalId(nationalId: string): Promise<Array<RecordAllergy & { visitDate: string }>> {
+    const nationalIdHash = this.computeDeterministicHash(nationalId);
+    const rows = await db
+      .select({ allergy: recordAllergies, visitDate: patientRecords.visitDate })
+      .from(recordAllergies)
+      .innerJoin(patientRecords, eq(recordAllergies.recordId, patientRecords.id))
+      .where(or(eq(patientRecords.nationalIdHash, nationalIdHash), eq(patientRecords.nationalId, nationalId)))
+      .orderBy(desc(patientRecords.visitDate));
+    return rows.map(row => ({ ...row.allergy, visitDate: row.visitDate }));
+  }
+
+  // Record Amendments
+  async amendPatientRecord(
+    recordId: number,
+    expectedVersion: number,
+    amendment: RecordAmendmentFields,
+    versions: InsertRecordVersion[],
+    claimCommitments: InsertRecordClaimCommitment[]
+  ): Promise<PatientRecord> {
+    const [current] = await db.select().from(patientRecords).where(eq(patientRecords.id, recordId));
+    if (!current) {
+      throw new Error("Record not found");
+    }
+    const patientDID = current.patientDID || "";
+    const encrypted = await this.encryptClinicalText(amendment, patientDID);
+    const encryptedVersions = await Promise.all(versions.map(async (version) => {
+      const enc = await this.encryptClinicalText(version, patientDID);
+      return enc ? { ...version, diagnosis: enc.diagnosis, prescription: enc.prescription, encKeys: enc.encKeys } : version;
+    }));
+    const storageMetadata: any = { ...(current.storageMetadata as any) };
+    const encKeys = { ...(storageMetadata.encKeys || {}) };
+    // A cleared prescription must not keep the previous version's key
+    delete encKeys.diagnosis;
+    delete encKeys.prescription;
+    storageMetadata.encKeys = { ...encKeys, ...(encrypted?.encKeys || {}) };
+
+    return db.transaction(async (tx) => {
+      await tx.insert(recordVersions).values(encryptedVersions);
+      const [updated] = await tx
+        .update(patientRecords)
+        .set({
+          ...amendment,
+          diagnosis: encrypted ? encrypted.diagnosis : amendment.diagnosis,
+          prescription: encrypted ? encrypted.prescription : amendment.prescription,
+          storageMetadata,
+          currentVersion: expectedVersion + 1,
+          amendedAt: new Date(),
+        })
+        .where(and(eq(patientRecords.id, recordId), eq(patientRecords.currentVersion, expectedVersion)))
+        .returning();
+      if (!updated) {
+        throw new Error("Record was amended by someone else; reload and try again");
+      }
+      // Claims are only provable against the current version's content
+      await tx.delete(recordClaimCommitments).where(eq(recordClaimCommitments.recordId, recordId));
+      if (claimCommitments.length > 0) {
+        await tx.insert(recordClaimCommitments).values(claimCommitments);
+      }
+      const [decrypted] = await this.tryDecryptPatientRecords([updated]);
+      return decrypted;
+    });
+  }
+
+  async getRecordVersions(recordId: number): Promise<RecordVersion[]> {
+    const versions = await db
+      .select({ version: recordVersions, patientDID: patientRecords.patientDID })
+      .from(recordVersions)
+      .innerJoin(patientRecords, eq(recordVersions.recordId, patientRecords.id))
+      .where(eq(recordVersions.recordId, recordId))
+      .orderBy(asc(recordVersions.version));
+    // Versions carry their own keys; decrypt them through the record path
+    const decrypted = await this.tryDecryptPatientRecords(versions.map(({ version, patientDID }) => ({
+      ...version,
+      patientDID,
+      storageMetadata: { encKeys: version.encKeys },
+    })) as any);
+    return decrypted.map((version: any) => {
+      const { patientDID, storageMetadata, ...rest } = version;
+      return rest as RecordVersion;
+    });
+  }
+
+  // Record Correction Requests
+  async createRecordCorrectionRequest(request: InsertRecordCorrectionRequest): Promise<RecordCorrectionRequest> {
+    const [created] = await db.insert(recordCorrectionRequests).values(request).returning();
+    return created;
+  }
+
+  async getRecordCorrectionRequestById(id: number): Promise<RecordCorrectionRequest | undefined> {
+    const [request] = await db.select().from(recordCorrectionRequests).where(eq(recordCorrectionRequests.id, id));
+    return request;
+  }
+
+  async getRecordCorrectionRequests(filters: { hospital_id?: number; patientDID?: string; recordId?: number; status?: string }): Promise<RecordCorrectionRequest[]> {
+    const conditions = [];
+    if (filters.hospital_id !== undefined) conditions.push(eq(recordCorrectionRequests.hospital_id, filters.hospital_id));
+    if (filters.patientDID) conditions.push(eq(recordCorrectionRequests.patientDID, filters.patientDID));
+    if (filters.recordId !== undefined) conditions.push(eq(recordCorrectionRequests.recordId, filters.recordId));
+    if (filters.status) conditions.push(eq(recordCorrectionRequests.status, filters.status));
+    return db
+      .select()
+      .from(recordCorrectionRequests)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(recordCorrectionRequests.createdAt));
+  }
+
+  // With expectedStatus the update only applies while the request is still in that status
+  async updateRecordCorrectionRequest(
+    id: number,
+    updates: Partial<InsertRecordCorrectionRequest>,
+    expectedStatus?: string
+  ): Promise<RecordCorrectionRequest | undefined> {
+    const [updated] = await db
+      .update(recordCorrectionRequests)
+      .set(updates)
+      .where(expectedStatus
+        ? and(eq(recordCorrectionRequests.id, id), eq(recordCorrectionRequests.status, expectedStatus))
+        : eq(recordCorrectionRequests.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Record Attachments
+  async createRecordAttachment(attachment: InsertRecordAttachment): Promise<RecordAttachment> {
+    const [created] = await db.insert(recordAttachments).values(attachment).returning();
+    return created;
+  }
+
+  async getRecordAttachments(recordId: number): Promise<RecordAttachment[]> {
+    return db
+      .select()
+      .from(recordAttachments)
+      .where(eq(recordAttachments.recordId, recordId))
+      .orderBy(asc(recordAttachments.createdAt));
+  }
+
+  async getRecordAttachmentById(id: number): Promise<RecordAttachment | undefined> {
+    const [attachment] = await db.select().from(recordAttachments).where(eq(recordAttachments.id, id));
+    return attachment;
+  }
+
   async createConsentRecord(consent: InsertConsentRecord): Promise<ConsentRecord> {
     const [consentRecord] = await db
       .insert(consentRecords)
@@ -391,14 +770,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(consentRecords.accessedAt);
   }
 
-  async updateRecordIPFS(recordId: number, ipfsCid: string, encryptionKey: string): Promise<void> {
+  async updateRecordIPFS(recordId: number, ipfsCid: string | null, encryptionKey: string): Promise<void> {
     await db
       .update(patientRecords)
       .set({ ipfsHash: ipfsCid, encryptionKey })
       .where(eq(patientRecords.id, recordId));
   }
 
-  async updateRecordFilecoin(recordId: number, filecoinCid: string, storageCost: number, storageMetadata: any): Promise<void> {
+  async updateRecordFilecoin(recordId: number, filecoinCid: string | null, storageCost: number, storageMetadata: any): Promise<void> {
     await db
       .update(patientRecords)
       .set({ 
@@ -714,7 +1093,6 @@ export class DatabaseStorage implements IStorage {
           ...request,
           consentType: request.consent_type || 'traditional',
           hospitalName: hospital?.hospitalName || "Unknown Hospital",
-          hospitalType: hospital?.hospitalType || "Unknown",
         };
       })
     );
@@ -733,7 +1111,6 @@ export class DatabaseStorage implements IStorage {
         ...request,
         consentType: (request as any).consent_type || 'traditional',
         hospitalName: hospital?.hospitalName || "Unknown Hospital",
-        hospitalType: hospital?.hospitalType || "Unknown",
       };
     }
     return null;
@@ -770,6 +1147,115 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async createConsentGrant(grant: InsertConsentGrant): Promise<ConsentGrant> {
+    const [created] = await db
+      .insert(consentGrants)
+      .values(grant as typeof consentGrants.$inferInsert)
+      .returning();
+    return created;
+  }
+
+  async getConsentGrantById(id: number): Promise<ConsentGrant | undefined> {
+    const [grant] = await db
+      .select()
+      .from(consentGrants)
+      .where(eq(consentGrants.id, id));
+    return grant || undefined;
+  }
+
+  async getActiveConsentGrants(patientId: string, grantedTo: number): Promise<ConsentGrant[]> {
+    return await db
+      .select()
+      .from(consentGrants)
+      .where(
+        and(
+          eq(consentGrants.patientId, patientId),
+          eq(consentGrants.grantedTo, grantedTo),
+          isNull(consentGrants.revokedAt),
+          gt(consentGrants.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(consentGrants.expiresAt));
+  }
+
+  async getConsentGrantsByPatientId(patientId: string): Promise<ConsentGrant[]> {
+    return await db
+      .select()
+      .from(consentGrants)
+      .where(eq(consentGrants.patientId, patientId))
+      .orderBy(desc(consentGrants.createdAt));
+  }
+
+  async revokeConsentGrant(id: number): Promise<void> {
+    await db
+      .update(consentGrants)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(consentGrants.id, id), isNull(consentGrants.revokedAt)));
+  }
+
+  async revokeConsentGrants(patientId: string, grantedTo: number): Promise<void> {
+    await db
+      .update(consentGrants)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(consentGrants.patientId, patientId),
+          eq(consentGrants.grantedTo, grantedTo),
+          isNull(consentGrants.revokedAt)
+        )
+      );
+  }
+
+  async createConsentDelegation(delegation: InsertConsentDelegation): Promise<ConsentDelegation> {
+    const [created] = await db
+      .insert(consentDelegations)
+      .values(delegation as typeof consentDelegations.$inferInsert)
+      .returning();
+    return created;
+  }
+
+  async getConsentDelegationById(id: number): Promise<ConsentDelegation | undefined> {
+    const [delegation] = await db
+      .select()
+      .from(consentDelegations)
+      .where(eq(consentDelegations.id, id));
+    return delegation || undefined;
+  }
+
+  async getConsentDelegationsByPatientDID(patientDID: string): Promise<ConsentDelegation[]> {
+    return await db
+      .select()
+      .from(consentDelegations)
+      .where(eq(consentDelegations.patientDID, patientDID))
+      .orderBy(desc(consentDelegations.createdAt));
+  }
+
+  async getActiveConsentDelegationsForDelegate(delegate: { phone?: string | null; did?: string | null }): Promise<ConsentDelegation[]> {
+    const matchers = [];
+    if (delegate.phone) matchers.push(eq(consentDelegations.delegatePhone, delegate.phone));
+    if (delegate.did) matchers.push(eq(consentDelegations.delegateDID, delegate.did));
+    if (matchers.length === 0) return [];
+
+    return await db
+      .select()
+      .from(consentDelegations)
+      .where(
+        and(
+          or(...matchers),
+          isNull(consentDelegations.revokedAt),
+          gt(consentDelegations.expiresAt, new Date())
+        )
+      )
+      .orderBy(asc(consentDelegations.patientDID));
+  }
+
+  async revokeConsentDelegation(id: number): Promise<void> {
+    await db
+      .update(consentDelegations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(consentDelegations.id, id), isNull(consentDelegations.revokedAt)));
+  }
+
   async updateConsentRecord(id: number, updates: Partial<ConsentRecord>): Promise<void> {
     await db
       .update(consentRecords)
@@ -866,6 +1352,82 @@ export class DatabaseStorage implements IStorage {
     return record || undefined;
   }
 
+  async updateEmergencyConsentRecord(id: string, updates: Partial<InsertEmergencyConsentRecord>): Promise<void> {
+    await db
+      .update(emergencyConsentRecords)
+      .set(updates)
+      .where(eq(emergencyConsentRecords.id, id));
+  }
+
+  async revokeEmergencyConsentRecord(id: string): Promise<void> {
+    await db
+      .update(emergencyConsentRecords)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(emergencyConsentRecords.id, id), isNull(emergencyConsentRecords.revokedAt)));
+  }
+
+  // Record releases written by the emergency access policy, oldest first
+  async getEmergencyAccessEvents(emergencyConsentId: string): Promise<AuditEvent[]> {
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(and(
+        eq(auditEvents.eventType, "EMERGENCY_ACCESS_POLICY_APPLIED"),
+        sql`${auditEvents.metadata}->>'emergencyConsentRecordId' = ${emergencyConsentId}`
+      ))
+      .orderBy(asc(auditEvents.createdAt));
+  }
+
+  // Post-emergency Review Implementation
+  async createEmergencyAccessReview(review: InsertEmergencyAccessReview): Promise<EmergencyAccessReview> {
+    const [newReview] = await db
+      .insert(emergencyAccessReviews)
+      .values(review)
+      .returning();
+    return newReview;
+  }
+
+  async getEmergencyAccessReviewById(id: number): Promise<EmergencyAccessReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(emergencyAccessReviews)
+      .where(eq(emergencyAccessReviews.id, id));
+    return review || undefined;
+  }
+
+  async getEmergencyAccessReviews(filters?: { status?: string; hospital_id?: number }): Promise<EmergencyAccessReview[]> {
+    const conditions = [];
+    if (filters?.status) conditions.push(eq(emergencyAccessReviews.status, filters.status));
+    if (filters?.hospital_id !== undefined) conditions.push(eq(emergencyAccessReviews.hospital_id, filters.hospital_id));
+    return await db
+      .select()
+      .from(emergencyAccessReviews)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(emergencyAccessReviews.dueAt));
+  }
+
+  async updateEmergencyAccessReview(
+    id: number,
+    updates: Partial<InsertEmergencyAccessReview>,
+    expectedStatus?: string
+  ): Promise<EmergencyAccessReview | undefined> {
+    const [review] = await db
+      .update(emergencyAccessReviews)
+      .set(updates)
+      .where(expectedStatus
+        ? and(eq(emergencyAccessReviews.id, id), eq(emergencyAccessReviews.status, expectedStatus))
+        : eq(emergencyAccessReviews.id, id))
+      .returning();
+    return review;
+  }
+
+  async getHospitalAdmins(hospital_id: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(eq(users.hospital_id, hospital_id), eq(users.isAdmin, true)));
+  }
+
   async getSecurityViolations(options?: { limit?: number; offset?: number; resolved?: boolean; hospital_id?: number }): Promise<SecurityViolation[]> {
     const { limit = 10, offset = 0, resolved, hospital_id } = options || {};
     let query = db.select().from(securityViolations);
@@ -1060,7 +1622,7 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(filecoinDeals.createdAt));
   }
 
-  async updateFilecoinDealStatus(dealId: string, status: 'active' | 'expired' | 'terminated'): Promise<void> {
+  async updateFilecoinDealStatus(dealId: string, status: FilecoinDealStatus): Promise<void> {
     await db
       .update(filecoinDeals)
       .set({ dealStatus: status })
@@ -1081,6 +1643,37 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async updateFilecoinDeal(id: number, updates: Partial<InsertFilecoinDeal>): Promise<void> {
+    await db
+      .update(filecoinDeals)
+      .set(updates)
+      .where(eq(filecoinDeals.id, id));
+  }
+
+  // Active deals whose term has ended without a renewal
+  async expireFilecoinDeals(now: Date): Promise<FilecoinDeal[]> {
+    return await db
+      .update(filecoinDeals)
+      .set({ dealStatus: 'expired' })
+      .where(and(
+        eq(filecoinDeals.dealStatus, 'active'),
+        lte(filecoinDeals.expiresAt, now)
+      ))
+      .returning();
+  }
+
+  // The new deal, its cost and the old deal's status change land together
+  async renewFilecoinDeal(previousId: number, deal: InsertFilecoinDeal): Promise<FilecoinDeal> {
+    return db.transaction(async (tx) => {
+      const [renewed] = await tx.insert(filecoinDeals).values({ ...deal, renewedFromId: previousId }).returning();
+      await tx
+        .update(filecoinDeals)
+        .set({ dealStatus: 'renewed', renewalAttempts: 0, lastRenewalError: null })
+        .where(eq(filecoinDeals.id, previousId));
+      return renewed;
+    });
+  }
+
   // Storage Locations Methods
   async createStorageLocation(location: InsertStorageLocation): Promise<StorageLocation> {
     const [storageLocation] = await db
@@ -1111,6 +1704,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(storageLocations.storageType, storageType));
   }
 
+  async getStorageLocationsDueForVerification(verifiedBefore: Date, limit: number): Promise<StorageLocation[]> {
+    return await db
+      .select()
+      .from(storageLocations)
+      .where(and(
+        sql`${storageLocations.status} <> 'archived'`,
+        or(isNull(storageLocations.lastVerified), lt(storageLocations.lastVerified, verifiedBefore))
+      ))
+      .orderBy(sql`${storageLocations.lastVerified} ASC NULLS FIRST`)
+      .limit(limit);
+  }
+
+  async updateStorageLocation(id: number, updates: Partial<InsertStorageLocation>): Promise<void> {
+    await db
+      .update(storageLocations)
+      .set(updates)
+      .where(eq(storageLocations.id, id));
+  }
+
   // Storage Costs Methods
   async createStorageCost(cost: InsertStorageCost): Promise<StorageCost> {
     const [storageCost] = await db
@@ -1219,6 +1831,190 @@ export class DatabaseStorage implements IStorage {
     return staff;
   }
 
+  // Hospital Permission Methods
+  async getHospitalPermissions(hospitalId: string): Promise<HospitalPermission[]> {
+    return db.select().from(hospitalPermissions).where(eq(hospitalPermissions.hospitalId, hospitalId));
+  }
+
+  async setHospitalPermission(hospitalId: string, role: string, capabilities: string[], updatedBy: number): Promise<HospitalPermission> {
+    const [row] = await db.insert(hospitalPermissions)
+      .values({ hospitalId, role, capabilities, updatedBy })
+      .onConflictDoUpdate({
+        target: [hospitalPermissions.hospitalId, hospitalPermissions.role],
+        set: { capabilities, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  // Hospital Storage Provider Methods
+  async createHospitalStorageProvider(provider: InsertHospitalStorageProvider): Promise<HospitalStorageProvider> {
+    const [created] = await db.insert(hospitalStorageProviders).values(provider).returning();
+    return created;
+  }
+
+  async getHospitalStorageProviderById(id: number): Promise<HospitalStorageProvider | undefined> {
+    const [provider] = await db.select().from(hospitalStorageProviders).where(eq(hospitalStorageProviders.id, id));
+    return provider || undefined;
+  }
+
+  async getHospitalStorageProviders(hospitalId: string): Promise<HospitalStorageProvider[]> {
+    return db.select().from(hospitalStorageProviders)
+      .where(eq(hospitalStorageProviders.hospitalId, hospitalId))
+      .orderBy(asc(hospitalStorageProviders.priority), asc(hospitalStorageProviders.id));
+  }
+
+  async updateHospitalStorageProvider(id: number, updates: Partial<InsertHospitalStorageProvider>): Promise<HospitalStorageProvider | undefined> {
+    const [updated] = await db.update(hospitalStorageProviders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(hospitalStorageProviders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Master Key Rotation Methods
+  async createMasterKeyRotation(rotation: InsertMasterKeyRotation): Promise<MasterKeyRotation> {
+    const [created] = await db.insert(masterKeyRotations).values(rotation).returning();
+    return created;
+  }
+
+  async getLatestMasterKeyRotation(): Promise<MasterKeyRotation | undefined> {
+    const [rotation] = await db.select().from(masterKeyRotations).orderBy(desc(masterKeyRotations.id)).limit(1);
+    return rotation || undefined;
+  }
+
+  async updateMasterKeyRotation(id: number, updates: Partial<InsertMasterKeyRotation>): Promise<void> {
+    await db.update(masterKeyRotations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(masterKeyRotations.id, id));
+  }
+
+  // Keys under another backend or KEK version, and keys that predate envelope encryption
+  async getPatientKeysForRewrap(backend: string, targetVersion: number, afterDid: string | null, limit: number): Promise<SecureKeyEntry[]> {
+    const conditions = [sql`(${secureKeyStore.wrappedDek} IS NULL OR ${secureKeyStore.keyBackend} <> ${backend} OR ${secureKeyStore.keyVersion} <> ${targetVersion})`];
+    if (afterDid) {
+      conditions.push(gt(secureKeyStore.patientDid, afterDid));
+    }
+    return db.select().from(secureKeyStore)
+      .where(and(...conditions))
+      .orderBy(asc(secureKeyStore.patientDid))
+      .limit(limit);
+  }
+
+  // Only replaces the key that was read, so a concurrent store is never overwritten
+  async updatePatientKeyWrap(
+    patientDid: string,
+    previous: Pick<SecureKeyEntry, 'encryptedKey' | 'wrappedDek'>,
+    wrapped: Pick<SecureKeyEntry, 'encryptedKey' | 'iv' | 'authTag' | 'wrappedDek' | 'keyBackend' | 'keyVersion'>
+  ): Promise<boolean> {
+    const updated = await db.update(secureKeyStore)
+      .set(wrapped)
+      .where(and(
+        eq(secureKeyStore.patientDid, patientDid),
+        eq(secureKeyStore.encryptedKey, previous.encryptedKey),
+        previous.wrappedDek ? eq(secureKeyStore.wrappedDek, previous.wrappedDek) : isNull(secureKeyStore.wrappedDek)
+      ))
+      .returning({ patientDid: secureKeyStore.patientDid });
+    return updated.length > 0;
+  }
+
+  async getWrappedKeys(source: WrappedKeySource, afterId: number, limit: number): Promise<Array<{ id: number; wrapped: string }>> {
+    const { table, id, column } = wrappedKeyColumns(source);
+    const rows = await db.select({ id, wrapped: column }).from(table)
+      .where(and(gt(id, afterId), sql`${column} IS NOT NULL`))
+      .orderBy(asc(id))
+      .limit(limit);
+    return rows as Array<{ id: number; wrapped: string }>;
+  }
+
+  async updateWrappedKey(source: WrappedKeySource, id: number, previous: string, wrapped: string): Promise<boolean> {
+    const { table, id: idColumn, column } = wrappedKeyColumns(source);
+    const updated = await db.update(table)
+      .set({ [source === 'storage_provider' ? 'credentials' : 'encryptionKey']: wrapped })
+      .where(and(eq(idColumn, id), eq(column, previous)))
+      .returning({ id: idColumn });
+    return updated.length > 0;
+  }
+
+  // Hospital Retention Policy Methods
+  async getHospitalRetentionPolicy(hospitalId: string): Promise<HospitalRetentionPolicy | undefined> {
+    const [policy] = await db.select().from(hospitalRetentionPolicies).where(eq(hospitalRetentionPolicies.hospitalId, hospitalId));
+    return policy || undefined;
+  }
+
+  async setHospitalRetentionPolicy(hospitalId: string, policy: RetentionPolicy, updatedBy: number): Promise<HospitalRetentionPolicy> {
+    const [row] = await db.insert(hospitalRetentionPolicies)
+      .values({ hospitalId, ...policy, updatedBy })
+      .onConflictDoUpdate({
+        target: hospitalRetentionPolicies.hospitalId,
+        set: { ...policy, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  // Duty Roster Methods
+  async createShiftTemplate(template: InsertShiftTemplate): Promise<ShiftTemplate> {
+    const [created] = await db.insert(shiftTemplates).values(template).returning();
+    return created;
+  }
+
+  async getShiftTemplateById(id: number): Promise<ShiftTemplate | undefined> {
+    const [template] = await db.select().from(shiftTemplates).where(eq(shiftTemplates.id, id));
+    return template || undefined;
+  }
+
+  async getShiftTemplates(hospitalId: string, includeInactive: boolean = false): Promise<ShiftTemplate[]> {
+    const conditions = [eq(shiftTemplates.hospitalId, hospitalId)];
+    if (!includeInactive) {
+      conditions.push(eq(shiftTemplates.isActive, true));
+    }
+    return db.select().from(shiftTemplates)
+      .where(and(...conditions))
+      .orderBy(asc(shiftTemplates.department), asc(shiftTemplates.startTime));
+  }
+
+  async updateShiftTemplate(id: number, updates: Partial<InsertShiftTemplate>): Promise<ShiftTemplate> {
+    const [updated] = await db.update(shiftTemplates).set(updates).where(eq(shiftTemplates.id, id)).returning();
+    return updated;
+  }
+
+  async createShiftAssignment(assignment: InsertShiftAssignment): Promise<ShiftAssignment> {
+    const [created] = await db.insert(shiftAssignments).values(assignment).returning();
+    return created;
+  }
+
+  async getShiftAssignmentById(id: number): Promise<ShiftAssignment | undefined> {
+    const [assignment] = await db.select().from(shiftAssignments).where(eq(shiftAssignments.id, id));
+    return assignment || undefined;
+  }
+
+  // Dates are 'YYYY-MM-DD' strings, so lexical comparison orders them correctly
+  async getShiftAssignments(filters: { hospitalId?: string; staffId?: string; fromDate: string; toDate: string }): Promise<ShiftAssignment[]> {
+    const conditions = [
+      gte(shiftAssignments.shiftDate, filters.fromDate),
+      lte(shiftAssignments.shiftDate, filters.toDate),
+    ];
+    if (filters.hospitalId) {
+      conditions.push(eq(shiftAssignments.hospitalId, filters.hospitalId));
+    }
+    if (filters.staffId) {
+      conditions.push(eq(shiftAssignments.staffId, filters.staffId));
+    }
+    return db.select().from(shiftAssignments)
+      .where(and(...conditions))
+      .orderBy(asc(shiftAssignments.shiftDate), asc(shiftAssignments.templateId));
+  }
+
+  async updateShiftAssignment(id: number, updates: Partial<InsertShiftAssignment>): Promise<ShiftAssignment> {
+    const [updated] = await db.update(shiftAssignments).set(updates).where(eq(shiftAssignments.id, id)).returning();
+    return updated;
+  }
+
+  async deleteShiftAssignment(id: number): Promise<void> {
+    await db.delete(shiftAssignments).where(eq(shiftAssignments.id, id));
+  }
+
   // Patient Emergency Contacts Methods
   async getPatientEmergencyContacts(patientId: string): Promise<PatientEmergencyContact[]> {
     const contacts = await db.select().from(patientEmergencyContacts).where(eq(patientEmergencyContacts.patientId, patientId));
@@ -1342,6 +2138,30 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(zkpVerifications).where(eq(zkpVerifications.proofId, proofId));
   }
 
+  async createZKPProofRevocation(revocation: InsertZKPProofRevocation): Promise<ZKPProofRevocation> {
+    const [result] = await db.insert(zkpProofRevocations).values(revocation).returning();
+    return result;
+  }
+
+  async getZKPProofRevocation(proofId: number): Promise<ZKPProofRevocation | undefined> {
+    const [result] = await db.select().from(zkpProofRevocations).where(eq(zkpProofRevocations.proofId, proofId));
+    return result || undefined;
+  }
+
+  // Ordered by insertion so Merkle leaves are stable
+  async getZKPProofRevocations(): Promise<ZKPProofRevocation[]> {
+    return await db.select().from(zkpProofRevocations).orderBy(asc(zkpProofRevocations.id));
+  }
+
+  async createRecordClaimCommitments(commitments: InsertRecordClaimCommitment[]): Promise<RecordClaimCommitment[]> {
+    if (commitments.length === 0) return [];
+    return db.insert(recordClaimCommitments).values(commitments).returning();
+  }
+
+  async getRecordClaimCommitments(recordId: number): Promise<RecordClaimCommitment[]> {
+    return db.select().from(recordClaimCommitments).where(eq(recordClaimCommitments.recordId, recordId));
+  }
+
   // --- ADMIN DASHBOARD METHODS ---
   async getAuditSummary(hospital_id?: number): Promise<any> {
     // Aggregate metrics for the admin dashboard, filtered by hospital_id
@@ -1456,7 +2276,8 @@ export class DatabaseStorage implements IStorage {
 
   // === Helpers ===
   private computeDeterministicHash(value: string): string {
-    const secret = process.env.MASTER_KEY || "dev-master-key";
+    // Hashes are stored, so they must outlive master key rotation: set LOOKUP_HASH_KEY to the old MASTER_KEY before retiring it
+    const secret = process.env.LOOKUP_HASH_KEY || process.env.MASTER_KEY || "dev-master-key";
     return crypto.createHmac('sha256', secret).update(value).digest('hex');
   }
 
@@ -1560,4 +2381,17 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
+function wrappedKeyColumns(source: WrappedKeySource) {
+  switch (source) {
+    case 'record':
+      return { table: patientRecords, id: patientRecords.id, column: patientRecords.encryptionKey };
+    case 'attachment':
+      return { table: recordAttachments, id: recordAttachments.id, column: recordAttachments.encryptionKey };
+    case 'storage_provider':
+      return { table: hospitalStorageProviders, id: hospitalStorageProviders.id, column: hospitalStorageProviders.credentials };
+    case 'claim_commitment':
+      return { table: recordClaimCommitments, id: recordClaimCommitments.id, column: recordClaimCommitments.encryptionKey };
+  }
+}
+
 export const storage = new DatabaseStorage();
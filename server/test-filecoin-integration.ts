@@ -40,6 +40,7 @@ async function testFilecoinIntegration() {
     console.log("✅ Enhanced storage successful:", {
       ipfsCid: storageResult.ipfsCid,
       filecoinCid: storageResult.filecoinCid,
+      providers: storageResult.locations.map(location => location.provider),
       redundancyLevel: storageResult.redundancyLevel
     });
 
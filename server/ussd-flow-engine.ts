@@ -0,0 +1,372 @@
+// USSD Flow Engine - declarative menus driven by node definitions
+// Session state lives in ussdSessions.currentStep (node id) and ussdSessions.sessionData
+
+import { db } from './db';
+import { ussdSessions, ussdAnalytics } from '../shared/schema';
+import { eq } from 'drizzle-orm';
+import { messageCatalog, USSD_MAX_LENGTH, type Locale, type MessageKey, type MessageParams } from './message-catalog';
+
+export type UssdLanguage = Locale;
+
+// A catalog key (optionally with placeholder values), or text computed from the session (e.g. a selected visit)
+export type UssdText = MessageKey | { key: MessageKey; params: MessageParams } | ((ctx: UssdContext) => string);
+
+export interface UssdContext {
+  sessionId: string;
+  phoneNumber: string;
+  language: UssdLanguage;
+  data: Record<string, any>;
+  setLanguage(language: UssdLanguage): void;
+}
+
+export type UssdTransition =
+  | { goto: string; notice?: UssdText }
+  | { end: UssdText };
+
+export interface UssdMenuOption {
+  label: UssdText;
+  next: string;
+  value?: any;
+  key?: string; // Explicit key for hidden shortcuts such as 911
+  hidden?: boolean;
+}
+
+export interface UssdListItem {
+  label: string;
+  value: any;
+}
+
+// Options shared by every node type
+export interface UssdNodeOptions {
+  // Runs before the node renders; returning a node id redirects there and stores this node in data.returnTo
+  guard?: (ctx: UssdContext) => Promise<string | undefined> | string | undefined;
+  // Transient nodes (e.g. PIN prompts) are never pushed onto the back history
+  transient?: boolean;
+}
+
+export type UssdNode = UssdNodeOptions & (
+  | { type: 'menu'; title: UssdText; options: UssdMenuOption[]; saveAs?: string }
+  | { type: 'list'; title: UssdText; load: (ctx: UssdContext) => Promise<UssdListItem[]>; saveAs: string; next: string; empty: UssdText; pageSize?: number }
+  | { type: 'input'; title: UssdText; saveAs: string; next: string; validate?: (value: string, ctx: UssdContext) => boolean; invalid?: UssdText; shortcuts?: Record<string, string> }
+  | { type: 'action'; run: (ctx: UssdContext) => Promise<UssdTransition> }
+  | { type: 'end'; message: UssdText }
+);
+
+export interface UssdFlowDefinition {
+  start: string;
+  nodes: Record<string, UssdNode>;
+  labels: { back: MessageKey; more: MessageKey; invalid: MessageKey; unavailable: MessageKey };
+}
+
+export interface USSDRequest {
+  sessionId: string;
+  phoneNumber: string;
+  text: string;
+  serviceCode: string;
+}
+
+// Reserved navigation inputs, available on every node
+export const USSD_BACK = '0';
+export const USSD_HOME = '00';
+export const USSD_MORE = '98';
+
+const DEFAULT_PAGE_SIZE = 5;
+const MAX_CHAINED_ACTIONS = 10;
+
+interface UssdSessionState {
+  data: Record<string, any>;
+  history: string[];
+  page: number;
+  inputCount: number; // Africa's Talking resends the whole `text`; only segments past this are new
+  lists: Record<string, UssdListItem[]>;
+}
+
+const emptyState = (): UssdSessionState => ({ data: {}, history: [], page: 0, inputCount: 0, lists: {} });
+
+export class UssdFlowEngine {
+  constructor(private flow: UssdFlowDefinition) {
+    for (const [id, node] of Object.entries(flow.nodes)) {
+      const targets = node.type === 'menu' ? node.options.map(o => o.next)
+        : node.type === 'list' ? [node.next]
+        : node.type === 'input' ? [node.next, ...Object.values(node.shortcuts ?? {})]
+        : [];
+      for (const target of targets) {
+        if (!flow.nodes[target]) {
+          throw new Error(`USSD node "${id}" points to unknown node "${target}"`);
+        }
+      }
+    }
+    if (!flow.nodes[flow.start]) {
+      throw new Error(`USSD start node "${flow.start}" is not defined`);
+    }
+  }
+
+  /**
+   * Handle one Africa's Talking USSD request and return the CON/END response
+   */
+  async handle(request: USSDRequest): Promise<string> {
+    const { sessionId, phoneNumber, text } = request;
+    const session = await getOrCreateSession(sessionId, phoneNumber);
+    if (!session) {
+      return `END ${messageCatalog.format(this.flow.labels.unavailable, 'en')}`;
+    }
+
+    const segments = text ? text.split('*') : [];
+    let state: UssdSessionState = { ...emptyState(), ...(session.sessionData as Partial<UssdSessionState> || {}) };
+    let current: string = session.currentStep && this.flow.nodes[session.currentStep] ? session.currentStep : this.flow.start;
+
+    // A fresh dial, or a text shorter than what we have seen, restarts the flow
+    if (segments.length === 0 || segments.length < state.inputCount) {
+      state = emptyState();
+      current = this.flow.start;
+    }
+
+    let language: UssdLanguage = messageCatalog.resolveLocale(session.language);
+    const ctx: UssdContext = {
+      sessionId,
+      phoneNumber,
+      get language() { return language; },
+      data: state.data,
+      setLanguage: (lang) => { language = lang; },
+    };
+
+    let response: string | null = null;
+    let notice: string | null = null;
+    try {
+      for (const input of segments.slice(state.inputCount)) {
+        state.inputCount += 1;
+        const result = await this.applyInput(current, input.trim(), state, ctx);
+        if ('end' in result) {
+          response = `END ${this.text(result.end, ctx)}`;
+          break;
+        }
+        current = result.goto;
+        notice = result.notice ? this.text(result.notice, ctx) : null;
+      }
+
+      if (!response) {
+        const rendered = await this.render(current, state, ctx, notice);
+        current = rendered.node;
+        response = rendered.response;
+      }
+    } catch (error) {
+      console.error('[USSD] Flow error:', error);
+      response = `END ${messageCatalog.format(this.flow.labels.unavailable, language)}`;
+    }
+
+    // Screens are composed from several templates, so the limit can only be checked once rendered
+    const screen = response.slice(4); // Drop "CON " / "END "
+    if (!messageCatalog.fitsUssd(screen)) {
+      console.warn(`[USSD] Screen "${current}" is ${screen.length} characters in ${language}, over the ${USSD_MAX_LENGTH}-character limit`);
+    }
+
+    await saveSessionState(sessionId, {
+      currentStep: current,
+      sessionData: state,
+      language,
+      isActive: !response.startsWith('END'),
+    });
+
+    return response;
+  }
+
+  private text(value: UssdText, ctx: UssdContext): string {
+    if (typeof value === 'function') return value(ctx);
+    if (typeof value === 'string') return messageCatalog.format(value, ctx.language);
+    return messageCatalog.format(value.key, ctx.language, value.params);
+  }
+
+  private go(state: UssdSessionState, from: string, to: string): UssdTransition {
+    if (!this.flow.nodes[from].transient) {
+      state.history.push(from);
+    }
+    state.page = 0;
+    return { goto: to };
+  }
+
+  /**
+   * Apply one input segment to the current node and return where the flow goes next
+   */
+  private async applyInput(nodeId: string, input: string, state: UssdSessionState, ctx: UssdContext): Promise<UssdTransition> {
+    const node = this.flow.nodes[nodeId];
+    const invalid: UssdTransition = { goto: nodeId, notice: this.flow.labels.invalid };
+
+    if (input === USSD_HOME) {
+      state.history = [];
+      state.page = 0;
+      return { goto: this.flow.start };
+    }
+    if (input === USSD_BACK && state.history.length > 0) {
+      state.page = 0;
+      return { goto: state.history.pop()! };
+    }
+
+    switch (node.type) {
+      case 'menu': {
+        const visible = node.options.filter(o => !o.hidden);
+        const option = node.options.find(o => o.key === input) ?? visible[parseInt(input, 10) - 1];
+        if (!option || !/^\d+$/.test(input)) return invalid;
+        if (node.saveAs && option.value !== undefined) {
+          ctx.data[node.saveAs] = option.value;
+        }
+        return this.go(state, nodeId, option.next);
+      }
+
+      case 'list': {
+        const items = state.lists[nodeId] ?? [];
+        const pageSize = node.pageSize ?? DEFAULT_PAGE_SIZE;
+        if (input === USSD_MORE && (state.page + 1) * pageSize < items.length) {
+          state.page += 1;
+          return { goto: nodeId };
+        }
+        const item = /^\d+$/.test(input) && parseInt(input, 10) >= 1 && parseInt(input, 10) <= pageSize
+          ? items[state.page * pageSize + parseInt(input, 10) - 1]
+          : undefined;
+        if (!item) return invalid;
+        ctx.data[node.saveAs] = item.value;
+        return this.go(state, nodeId, node.next);
+      }
+
+      case 'input': {
+        if (node.shortcuts?.[input]) {
+          return this.go(state, nodeId, node.shortcuts[input]);
+        }
+        if (node.validate && !node.validate(input, ctx)) {
+          return { goto: nodeId, notice: node.invalid ?? this.flow.labels.invalid };
+        }
+        ctx.data[node.saveAs] = input;
+        return this.go(state, nodeId, node.next);
+      }
+
+      default:
+        // Action and end nodes never wait for input
+        return invalid;
+    }
+  }
+
+  /**
+   * Render a node, running any action nodes on the way
+   */
+  private async render(nodeId: string, state: UssdSessionState, ctx: UssdContext, notice: string | null): Promise<{ node: string; response: string }> {
+    for (let hops = 0; hops < MAX_CHAINED_ACTIONS; hops++) {
+      const node = this.flow.nodes[nodeId];
+      if (nodeId === this.flow.start) {
+        state.history = [];
+      }
+      const redirect = node.guard ? await node.guard(ctx) : undefined;
+      if (redirect && redirect !== nodeId) {
+        ctx.data.returnTo = nodeId;
+        nodeId = redirect;
+        continue;
+      }
+      const prefix = notice ? `${notice}\n` : '';
+      const back = state.history.length > 0 ? `\n${USSD_BACK}. ${this.text(this.flow.labels.back, ctx)}` : '';
+
+      switch (node.type) {
+        case 'action': {
+          const result = await node.run(ctx);
+          if ('end' in result) {
+            return { node: nodeId, response: `END ${this.text(result.end, ctx)}` };
+          }
+          nodeId = result.goto;
+          notice = result.notice ? this.text(result.notice, ctx) : notice;
+          continue;
+        }
+
+        case 'end':
+          return { node: nodeId, response: `END ${prefix}${this.text(node.message, ctx)}` };
+
+        case 'menu': {
+          const lines = node.options.filter(o => !o.hidden).map((o, i) => `${i + 1}. ${this.text(o.label, ctx)}`);
+          return { node: nodeId, response: `CON ${prefix}${this.text(node.title, ctx)}\n${lines.join('\n')}${back}` };
+        }
+
+        case 'list': {
+          if (!state.lists[nodeId]) {
+            state.lists[nodeId] = await node.load(ctx);
+          }
+          const items = state.lists[nodeId];
+          if (items.length === 0) {
+            return { node: nodeId, response: `END ${this.text(node.empty, ctx)}` };
+          }
+          const pageSize = node.pageSize ?? DEFAULT_PAGE_SIZE;
+          const pageItems = items.slice(state.page * pageSize, (state.page + 1) * pageSize);
+          const lines = pageItems.map((item, i) => `${i + 1}. ${item.label}`);
+          if ((state.page + 1) * pageSize < items.length) {
+            lines.push(`${USSD_MORE}. ${this.text(this.flow.labels.more, ctx)}`);
+          }
+          return { node: nodeId, response: `CON ${prefix}${this.text(node.title, ctx)}\n${lines.join('\n')}${back}` };
+        }
+
+        case 'input':
+          return { node: nodeId, response: `CON ${prefix}${this.text(node.title, ctx)}` };
+      }
+    }
+    throw new Error(`USSD flow exceeded ${MAX_CHAINED_ACTIONS} chained actions at "${nodeId}"`);
+  }
+}
+
+// Session persistence. A session belongs to the phone that opened it and ends at expiresAt;
+// anything else gets no session, so PIN-verified state never carries over.
+export async function getOrCreateSession(sessionId: string, phoneNumber: string): Promise<any> {
+  try {
+    let session = await db.select().from(ussdSessions).where(eq(ussdSessions.sessionId, sessionId)).limit(1);
+
+    if (session.length > 0 && session[0].phoneNumber !== phoneNumber) {
+      console.warn(`[USSD] Session ${sessionId} used from a different phone number`);
+      return null;
+    }
+    if (session.length > 0 && (!session[0].isActive || session[0].expiresAt <= new Date())) {
+      return null;
+    }
+
+    if (session.length === 0) {
+      // Create new session
+      const newSession = await db.insert(ussdSessions).values({
+        sessionId,
+        phoneNumber,
+        language: 'en',
+        expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
+      }).returning();
+      return newSession[0];
+    }
+
+    return session[0];
+  } catch (error) {
+    console.error('[USSD] Error managing session:', error);
+    return null;
+  }
+}
+
+async function saveSessionState(
+  sessionId: string,
+  updates: { currentStep: string; sessionData: UssdSessionState; language: UssdLanguage; isActive: boolean }
+): Promise<void> {
+  try {
+    await db.update(ussdSessions)
+      .set({ ...updates, lastActivityAt: new Date() })
+      .where(eq(ussdSessions.sessionId, sessionId));
+  } catch (error) {
+    console.error('[USSD] Error saving session state:', error);
+  }
+}
+
+// Analytics
+export async function logUSSDEvent(sessionId: string, phoneNumber: string, eventType: string, eventData: any, success: boolean = true, errorMessage?: string): Promise<void> {
+  try {
+    const session = await db.select().from(ussdSessions).where(eq(ussdSessions.sessionId, sessionId)).limit(1);
+    const language = session.length > 0 ? session[0].language : 'en';
+    
+    await db.insert(ussdAnalytics).values({
+      sessionId,
+      phoneNumber,
+      eventType,
+      eventData,
+      language,
+      success,
+      errorMessage,
+    });
+  } catch (error) {
+    console.error('[USSD] Error logging analytics:', error);
+  }
+}
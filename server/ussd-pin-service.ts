@@ -0,0 +1,167 @@
+import { randomInt } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { ussdPins } from '../shared/schema';
+import { hashPassword, comparePasswords } from './auth';
+import { redisService } from './redis-service';
+import { smsService } from './sms-service';
+import { logUSSDEvent } from './ussd-flow-engine';
+import type { Locale } from './message-catalog';
+
+const MAX_FAILED_ATTEMPTS = 3;
+export const PIN_LOCKOUT_MINUTES = 30;
+const RESET_OTP_MINUTES = 10;
+
+export type PinVerification =
+  | { status: 'ok' }
+  | { status: 'invalid'; attemptsLeft: number }
+  | { status: 'locked'; lockedUntil: Date };
+
+/**
+ * USSD PIN Service
+ * Patient-set 4-digit PINs guarding visits, code resends and proof sharing on USSD.
+ * PINs are scrypt-hashed like staff passwords; every failure and lockout lands in ussdAnalytics.
+ * Wrong PINs and wrong reset codes share one failure counter and lockout per phone.
+ */
+class UssdPinService {
+  private static instance: UssdPinService;
+
+  static getInstance(): UssdPinService {
+    if (!UssdPinService.instance) {
+      UssdPinService.instance = new UssdPinService();
+    }
+    return UssdPinService.instance;
+  }
+
+  private static resetKey(phoneNumber: string): string {
+    return `${phoneNumber}:ussd-pin`;
+  }
+
+  async hasPin(phoneNumber: string): Promise<boolean> {
+    const [row] = await db.select({ id: ussdPins.id }).from(ussdPins).where(eq(ussdPins.phoneNumber, phoneNumber)).limit(1);
+    return !!row;
+  }
+
+  /**
+   * Create or replace the PIN for a phone number and clear any lockout
+   */
+  async setPin(sessionId: string, phoneNumber: string, pinHash: string, isReset: boolean): Promise<void> {
+    await db.insert(ussdPins)
+      .values({ phoneNumber, pinHash })
+      .onConflictDoUpdate({
+        target: ussdPins.phoneNumber,
+        set: { pinHash, failedAttempts: 0, lockedUntil: null, updatedAt: new Date() },
+      });
+
+    await logUSSDEvent(sessionId, phoneNumber, isReset ? 'PIN_RESET' : 'PIN_SET', {});
+  }
+
+  async hashPin(pin: string): Promise<string> {
+    return hashPassword(pin);
+  }
+
+  async matchesHash(pin: string, pinHash: string): Promise<boolean> {
+    return comparePasswords(pin, pinHash);
+  }
+
+  async verifyPin(sessionId: string, phoneNumber: string, pin: string): Promise<PinVerification> {
+    const [row] = await db.select().from(ussdPins).where(eq(ussdPins.phoneNumber, phoneNumber)).limit(1);
+    if (!row) {
+      return { status: 'invalid', attemptsLeft: 0 };
+    }
+
+    const now = new Date();
+    if (row.lockedUntil && row.lockedUntil > now) {
+      await logUSSDEvent(sessionId, phoneNumber, 'PIN_LOCKED', { lockedUntil: row.lockedUntil.toISOString() }, false, 'PIN locked');
+      return { status: 'locked', lockedUntil: row.lockedUntil };
+    }
+
+    if (await comparePasswords(pin, row.pinHash)) {
+      if (row.failedAttempts > 0 || row.lockedUntil) {
+        await db.update(ussdPins)
+          .set({ failedAttempts: 0, lockedUntil: null, updatedAt: now })
+          .where(eq(ussdPins.id, row.id));
+      }
+      return { status: 'ok' };
+    }
+
+    return this.recordFailure(sessionId, row, 'PIN_FAILED', 'Incorrect PIN');
+  }
+
+  /**
+   * Send a reset code by SMS using the same OTP store as patient login. Refused while
+   * the phone is locked out, and for phones with no PIN to reset.
+   */
+  async requestReset(sessionId: string, phoneNumber: string, locale?: Locale): Promise<PinVerification> {
+    const [row] = await db.select().from(ussdPins).where(eq(ussdPins.phoneNumber, phoneNumber)).limit(1);
+    if (!row) {
+      return { status: 'invalid', attemptsLeft: 0 };
+    }
+    if (row.lockedUntil && row.lockedUntil > new Date()) {
+      await logUSSDEvent(sessionId, phoneNumber, 'PIN_LOCKED', { lockedUntil: row.lockedUntil.toISOString() }, false, 'PIN locked');
+      return { status: 'locked', lockedUntil: row.lockedUntil };
+    }
+
+    const code = randomInt(100000, 1000000).toString();
+    await redisService.storeOTP(UssdPinService.resetKey(phoneNumber), {
+      code,
+      expires: Date.now() + RESET_OTP_MINUTES * 60 * 1000,
+      method: 'ussd_pin_reset',
+    });
+    await smsService.sendOTPSMS({ to: phoneNumber, otpCode: code, expiresInMinutes: RESET_OTP_MINUTES, locale });
+    await logUSSDEvent(sessionId, phoneNumber, 'PIN_RESET_REQUESTED', {});
+    return { status: 'ok' };
+  }
+
+  /**
+   * Check a reset code. Wrong codes count towards the PIN lockout, and the code is
+   * discarded once the phone locks, so it cannot be guessed within its lifetime.
+   */
+  async verifyResetCode(sessionId: string, phoneNumber: string, code: string): Promise<PinVerification> {
+    const key = UssdPinService.resetKey(phoneNumber);
+    const [row] = await db.select().from(ussdPins).where(eq(ussdPins.phoneNumber, phoneNumber)).limit(1);
+    if (!row) {
+      await redisService.deleteOTP(key);
+      return { status: 'invalid', attemptsLeft: 0 };
+    }
+    if (row.lockedUntil && row.lockedUntil > new Date()) {
+      await redisService.deleteOTP(key);
+      await logUSSDEvent(sessionId, phoneNumber, 'PIN_LOCKED', { lockedUntil: row.lockedUntil.toISOString() }, false, 'PIN locked');
+      return { status: 'locked', lockedUntil: row.lockedUntil };
+    }
+
+    const stored = await redisService.getOTP(key);
+    if (stored && stored.method === 'ussd_pin_reset' && stored.expires > Date.now() && stored.code === code) {
+      await redisService.deleteOTP(key);
+      return { status: 'ok' };
+    }
+
+    const result = await this.recordFailure(sessionId, row, 'PIN_RESET_FAILED', 'Invalid reset code');
+    if (result.status === 'locked') {
+      await redisService.deleteOTP(key);
+    }
+    return result;
+  }
+
+  // An expired lockout starts a fresh set of attempts
+  private async recordFailure(sessionId: string, row: typeof ussdPins.$inferSelect, eventType: string, message: string): Promise<PinVerification> {
+    const now = new Date();
+    const failedAttempts = (row.lockedUntil ? 0 : row.failedAttempts) + 1;
+    if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + PIN_LOCKOUT_MINUTES * 60 * 1000);
+      await db.update(ussdPins)
+        .set({ failedAttempts, lockedUntil, updatedAt: now })
+        .where(eq(ussdPins.id, row.id));
+      await logUSSDEvent(sessionId, row.phoneNumber, 'PIN_LOCKED', { failedAttempts, lockedUntil: lockedUntil.toISOString() }, false, `Too many failed attempts: ${message}`);
+      return { status: 'locked', lockedUntil };
+    }
+
+    await db.update(ussdPins)
+      .set({ failedAttempts, lockedUntil: null, updatedAt: now })
+      .where(eq(ussdPins.id, row.id));
+    await logUSSDEvent(sessionId, row.phoneNumber, eventType, { failedAttempts }, false, message);
+    return { status: 'invalid', attemptsLeft: MAX_FAILED_ATTEMPTS - failedAttempts };
+  }
+}
+
+export const ussdPinService = UssdPinService.getInstance();
@@ -0,0 +1,100 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { timingSafeEqual } from "crypto";
+import { africasTalkingService } from "./africas-talking-service";
+import { auditService } from "./audit-service";
+
+/**
+ * Only Africa's Talking may drive the callback: the callback URL carries
+ * USSD_CALLBACK_SECRET (`/api/ussd?secret=...`), or the request comes from an
+ * address in USSD_ALLOWED_IPS. Production rejects everything when neither is set.
+ */
+async function requireUssdCallbackAuth(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.USSD_CALLBACK_SECRET;
+  const allowedIps = (process.env.USSD_ALLOWED_IPS || "").split(",").map(ip => ip.trim()).filter(Boolean);
+
+  if (!secret && allowedIps.length === 0 && process.env.NODE_ENV !== "production") {
+    return next();
+  }
+
+  const given = typeof req.query.secret === "string" ? Buffer.from(req.query.secret) : null;
+  const secretMatches = Boolean(secret && given && given.length === Buffer.byteLength(secret) && timingSafeEqual(given, Buffer.from(secret)));
+  const ipAllowed = Boolean(req.ip && allowedIps.includes(req.ip.replace(/^::ffff:/, "")));
+  if (secretMatches || ipAllowed) {
+    return next();
+  }
+
+  await auditService.logSecurityViolation({
+    violationType: "UNAUTHENTICATED_USSD_CALLBACK",
+    severity: "high",
+    actorId: "unknown",
+    targetResource: req.path,
+    details: { phoneNumber: req.body?.phoneNumber, sessionId: req.body?.sessionId },
+  }, req);
+  res.status(403).type("text/plain").send("END Unauthorized");
+}
+
+/**
+ * USSD Routes
+ * Africa's Talking posts every USSD step (form-encoded) to /api/ussd and expects
+ * a plain-text CON/END response.
+ */
+export function registerUssdRoutes(app: Express): void {
+  // Africa's Talking USSD callback
+  app.post("/api/ussd", requireUssdCallbackAuth, async (req, res) => {
+    const { sessionId, serviceCode, phoneNumber, text } = req.body;
+
+    if (!sessionId || !serviceCode || !phoneNumber) {
+      return res.status(400).type("text/plain").send("END Missing required USSD parameters");
+    }
+
+    try {
+      const response = await africasTalkingService.handleUSSD({ sessionId, serviceCode, phoneNumber, text: text || "" });
+      res.type("text/plain").send(response);
+    } catch (error: any) {
+      console.error("[USSD] Callback error:", error);
+      res.type("text/plain").send("END Service temporarily unavailable. Please try again.");
+    }
+  });
+
+  // Local simulator: replays a dial plus key presses as Africa's Talking would send them
+  app.post("/api/ussd/simulate", async (req, res) => {
+    if (process.env.NODE_ENV === "production") {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    try {
+      const { phoneNumber, inputs, serviceCode, sessionId } = z.object({
+        phoneNumber: z.string().min(1),
+        inputs: z.array(z.string()).default([]),
+        serviceCode: z.string().default("*384*1#"),
+        sessionId: z.string().optional(),
+      }).parse(req.body);
+
+      const simulatedSessionId = sessionId || `sim-${nanoid()}`;
+      const transcript: Array<{ text: string; response: string }> = [];
+
+      // Each request carries the full `*`-joined history, starting with the empty dial
+      for (let i = 0; i <= inputs.length; i++) {
+        const text = inputs.slice(0, i).join("*");
+        const response = await africasTalkingService.handleUSSD({
+          sessionId: simulatedSessionId,
+          serviceCode,
+          phoneNumber,
+          text,
+        });
+        transcript.push({ text, response });
+        if (response.startsWith("END")) break;
+      }
+
+      res.json({
+        sessionId: simulatedSessionId,
+        transcript,
+        response: transcript[transcript.length - 1].response,
+      });
+    } catch (error: any) {
+      res.status(400).json({ error: `USSD simulation failed: ${error.message}` });
+    }
+  });
+}
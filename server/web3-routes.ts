@@ -3,10 +3,17 @@ import { storage } from "./storage";
 import { didService, vcService, ipfsService, consentService, WalletService } from "./web3-services";
 import { secureKeyVault } from "./secure-key-vault"; // Import SecureKeyVault
 import { enhancedStorageService } from "./enhanced-storage-service"; // Import EnhancedStorageService
+import { filecoinDealService } from "./filecoin-deal-service";
 import { z } from "zod";
 import crypto from "crypto";
 import { requirePatientAuth } from "./patient-auth-middleware"; // Import the middleware
+import { consentDelegationService } from "./consent-delegation-service";
+import { consentGrantService } from "./consent-grant-service";
+import { requireCapability } from "./capability-middleware";
+import { permissionService } from "./permission-service";
+import { clinicalRecordService } from "./clinical-record-service";
 import { InsertPatientRecord } from "@shared/schema";
+import { clinicalDetailsSchema } from "@shared/clinical";
 
 export function registerWeb3Routes(app: Express): void {
   
@@ -49,16 +56,13 @@ export function registerWeb3Routes(app: Express): void {
   });
 
   // Submit Medical Record to IPFS with Phone Number
-  app.post("/api/web3/submit-record", async (req, res) => {
+  app.post("/api/web3/submit-record", requireCapability("submit_records"), async (req, res) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Authentication required. Please log in to submit medical records." });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "A") {
-        return res.status(403).json({ error: "Only Hospital A can submit records. Your hospital type does not have permission for this action." });
-      }
 
       // More flexible schema to handle different field names from frontend
       const recordData = z.object({
@@ -72,6 +76,7 @@ export function registerWeb3Routes(app: Express): void {
         prescription: z.string().optional(),
         physician: z.string().optional(),
         department: z.string().optional(),
+        clinical: clinicalDetailsSchema.optional(),
       }).parse(req.body);
 
       // Extract phone number from multiple possible field names
@@ -167,6 +172,7 @@ export function registerWeb3Routes(app: Express): void {
         prescription: recordData.prescription,
         physician: recordData.physician,
         department: recordData.department,
+        clinical: recordData.clinical,
         submittedBy: user.hospitalName,
         submittedAt: new Date().toISOString(),
       };
@@ -180,7 +186,8 @@ export function registerWeb3Routes(app: Express): void {
           hospitalId: user.id,
           hospitalName: user.hospitalName
         },
-        patientDID
+        patientDID,
+        permissionService.hospitalKeyFor(user)
       );
 
       // Store traditional record with storage references
@@ -201,6 +208,9 @@ export function registerWeb3Routes(app: Express): void {
       console.log('[DEBUG] Creating Web3 record with data:', recordToSave);
       const patientRecord = await storage.createPatientRecord(recordToSave);
       console.log('[DEBUG] Web3 record created with ID:', patientRecord.id, 'recordType:', patientRecord.recordType);
+      if (recordData.clinical) {
+        await clinicalRecordService.saveDetails(patientRecord.id, recordData.clinical);
+      }
 
       // Generate and store Medical Record VC
       try {
@@ -248,7 +258,8 @@ export function registerWeb3Routes(app: Express): void {
         storageResult.storageCost,
         {
           ipfsCid: storageResult.ipfsCid,
-          localPath: storageResult.localPath,
+          locations: storageResult.locations,
+          contentHash: storageResult.contentHash,
           redundancyLevel: storageResult.redundancyLevel,
           encryptionMethod: 'AES-256-GCM',
           accessPattern: 'frequent',
@@ -263,29 +274,9 @@ export function registerWeb3Routes(app: Express): void {
         console.error('[WEB3] Failed to persist encrypted DEK:', e);
       }
 
-      // Create storage location records
-      await storage.createStorageLocation({
-        contentHash: storageResult.ipfsCid,
-        storageType: 'ipfs',
-        locationId: storageResult.ipfsCid,
-        status: 'active'
-      });
-
-      await storage.createStorageLocation({
-        contentHash: storageResult.filecoinCid,
-        storageType: 'filecoin',
-        locationId: storageResult.filecoinCid,
-        status: 'active'
-      });
-
-      if (storageResult.localPath) {
-        await storage.createStorageLocation({
-          contentHash: storageResult.ipfsCid,
-          storageType: 'local',
-          locationId: storageResult.localPath,
-          status: 'active'
-        });
-      }
+      // Track each copy for the integrity scrubber and open Filecoin deals for the Pinata ones
+      await enhancedStorageService.trackLocations(storageResult, patientRecord.id);
+      await filecoinDealService.openDeals(storageResult, patientRecord.id, permissionService.hospitalKeyFor(user));
 
       res.status(201).json({
         success: true,
@@ -296,7 +287,7 @@ export function registerWeb3Routes(app: Express): void {
         storage: {
           ipfsCid: storageResult.ipfsCid,
           filecoinCid: storageResult.filecoinCid,
-          localPath: storageResult.localPath,
+          locations: storageResult.locations,
           redundancyLevel: storageResult.redundancyLevel,
           cost: storageResult.storageCost
         }
@@ -307,16 +298,13 @@ export function registerWeb3Routes(app: Express): void {
   });
 
   // Request Access to Patient Records via DID
-  app.post("/api/web3/request-access", async (req, res) => {
+  app.post("/api/web3/request-access", requireCapability("request_consent"), async (req, res) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Authentication required. Please log in to request access to patient records." });
       }
 
       const user = req.user!;
-      if (user.hospitalType !== "B") {
-        return res.status(403).json({ error: "Only Hospital B can request access. Your hospital type does not have permission for this action." });
-      }
 
       const { patientDID } = z.object({
         patientDID: z.string(),
@@ -363,16 +351,27 @@ export function registerWeb3Routes(app: Express): void {
   // This route is now intended for wallet-based signature authorization
   app.post("/api/web3/grant-consent", async (req: Request, res, next) => {
     try {
-      const { patientDID, requesterId, contentHashes, consentType, patientSignature } = z.object({
+      const { patientDID, requesterId, contentHashes, consentType, patientSignature, delegateDID } = z.object({
         patientDID: z.string(),
         requesterId: z.string(),
         contentHashes: z.array(z.string()),
         consentType: z.string(),
-        patientSignature: z.string(), // Signature from patient's wallet
+        patientSignature: z.string(), // Signature from patient's wallet (or the delegate's, with delegateDID)
+        delegateDID: z.string().optional(), // Guardian signing on the patient's behalf
       }).parse(req.body);
 
-      // Verify patient identity
-      const patientIdentity = await storage.getPatientIdentityByDID(patientDID);
+      // A guardian may sign instead of the patient when their delegation includes grant_consent
+      let delegation;
+      if (delegateDID) {
+        delegation = await consentDelegationService.findActiveDelegation(patientDID, { did: delegateDID }, 'grant_consent');
+        if (!delegation) {
+          return res.status(403).json({ error: "No active delegation lets this DID grant consent for the patient." });
+        }
+      }
+
+      // Verify the signer's identity (the patient, or the delegate)
+      const signerDID = delegateDID || patientDID;
+      const patientIdentity = await storage.getPatientIdentityByDID(signerDID);
       if (!patientIdentity || !patientIdentity.walletAddress) {
         return res.status(404).json({ error: "Patient DID not found or no wallet address associated. Please ensure the patient has a valid Web3 identity." });
       }
@@ -380,7 +379,9 @@ export function registerWeb3Routes(app: Express): void {
       // Construct the message that was signed on the frontend
       // IMPORTANT: This must exactly match the message signed on the frontend.
       // OMITTING TIMESTAMP for now for simplicity, but this is a security weakness.
-      const messageToVerify = `I, ${patientDID}, authorize granting ${consentType} consent to ${requesterId} for the following content hashes: ${contentHashes.join(', ')}.`;
+      const messageToVerify = delegateDID
+        ? `I, ${delegateDID}, on behalf of ${patientDID}, authorize granting ${consentType} consent to ${requesterId} for the following content hashes: ${contentHashes.join(', ')}.`
+        : `I, ${patientDID}, authorize granting ${consentType} consent to ${requesterId} for the following content hashes: ${contentHashes.join(', ')}.`;
       // const messageToVerify = `I, ${patientDID}, authorize granting ${consentType} consent to ${requesterId} for the following content hashes: ${contentHashes.join(', ')}. Timestamp: ${SOME_TIMESTAMP_IF_PASSED_FROM_CLIENT}`;
 
 
@@ -433,6 +434,13 @@ export function registerWeb3Routes(app: Express): void {
         issuedJwtVCs.push(storedCredential);
       }
 
+      if (delegation) {
+        await consentDelegationService.logDelegatedAction(delegation, 'GRANTED', delegateDID!, {
+          hospitalDID: requesterId,
+          metadata: { contentHashes, consentType },
+        }, req);
+      }
+
       res.json({
         success: true,
         message: "Consent granted via verifiable credentials",
@@ -452,28 +460,24 @@ export function registerWeb3Routes(app: Express): void {
       }
 
       const user = req.user!;
-      const { patientDID, requesterId } = z.object({
+      const { patientDID } = z.object({
         patientDID: z.string(),
-        requesterId: z.string(),
+        requesterId: z.string().optional(), // Ignored; consent is always checked for the logged-in hospital
       }).parse(req.body);
 
-      // Verify consent exists and is valid
-      const consents = await storage.getConsentByPatientAndRequester(patientDID, requesterId);
-      const validConsents = consents.filter(consent => 
-        consent.consentGiven && 
-        (!consent.revokedAt) &&
-        (!consent.expiresAt || new Date() < consent.expiresAt)
-      );
+      // Only records covered by an active grant for this hospital, within its scope and expiry
+      const patientRecords = await storage.getPatientRecordsByDID(patientDID);
+      const covered = patientRecords.length > 0
+        ? await consentGrantService.getCoveredRecords(patientRecords, patientRecords[0].nationalId, user.id, patientDID)
+        : null;
 
-      if (validConsents.length === 0) {
+      if (!covered || covered.records.length === 0) {
         return res.status(403).json({ error: "No valid consent found for accessing patient records. Please ensure the patient has granted consent for your hospital." });
       }
 
-      // Get patient's records from IPFS
-      const patientRecords = await storage.getPatientRecordsByDID(patientDID);
       const accessibleRecords = [];
 
-      for (const record of patientRecords) {
+      for (const record of covered.records) {
         if (record.ipfsHash && record.encryptionKey) {
           try {
             // Decrypt the DEK from the record using SecureKeyVault
@@ -503,6 +507,7 @@ export function registerWeb3Routes(app: Express): void {
         recordCount: accessibleRecords.length,
         records: accessibleRecords,
         consentVerified: true,
+        consentExpiresAt: covered.expiresAt,
         accessedAt: new Date().toISOString()
       });
     } catch (error) {
@@ -42,6 +42,17 @@ const pinata = pinataJWT
 
 const PINATA_GATEWAY = 'https://gateway.pinata.cloud/ipfs/';
 
+// Development-only fallback for hospital VC signing when HOSPITAL_VC_PRIVATE_KEY is unset
+const DEV_HOSPITAL_VC_KEY = '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+function hospitalVcMasterKey(): string {
+  if (process.env.HOSPITAL_VC_PRIVATE_KEY) return process.env.HOSPITAL_VC_PRIVATE_KEY;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('HOSPITAL_VC_PRIVATE_KEY must be set in production to sign hospital credentials');
+  }
+  return DEV_HOSPITAL_VC_KEY;
+}
+
 // DID Service for managing decentralized identities (did:key + did:hedera)
 export class DIDService {
   private static instance: DIDService;
@@ -237,6 +248,21 @@ export class DIDService {
   isKeyDID(did: string): boolean {
     return did.startsWith('did:key:');
   }
+
+  /**
+   * Signing identity for a hospital: a secp256k1 key derived from the hospital VC
+   * master key, published as a resolvable did:key so anyone can verify what it signs
+   */
+  deriveHospitalIssuer(hospitalId: number): { did: string; privateKeyHex: string } {
+    const masterKey = hospitalVcMasterKey();
+    const privateKeyHex = crypto.createHmac('sha256', Buffer.from(masterKey, 'hex'))
+      .update(`hospital:${hospitalId}`)
+      .digest('hex');
+    const publicKey = ethers.getBytes(new ethers.SigningKey('0x' + privateKeyHex).compressedPublicKey);
+    // Multicodec prefix 0xe7 0x01 marks a secp256k1 public key
+    const multicodec = ethers.concat([new Uint8Array([0xe7, 0x01]), publicKey]);
+    return { did: `did:key:z${ethers.encodeBase58(multicodec)}`, privateKeyHex };
+  }
 }
 
 // Verifiable Credentials Service
@@ -267,22 +293,16 @@ export class VCService {
       },
     };
 
-    const jwtOptions: any = {
-      alg: 'ES256K',
-      issuer: issuerDID,
-    };
-
-    if (expiresInHours) {
-      jwtOptions.expiresIn = `${expiresInHours}h`;
-    }
+    // did-jwt takes the lifetime in seconds
+    const expiresIn = expiresInHours ? Math.floor(expiresInHours * 60 * 60) : undefined;
 
     // The JWT payload will contain the VC under the 'vc' claim.
     // 'sub' (subject) of the JWT will be the subject's DID.
     // 'iss' (issuer) of the JWT will be the issuer's DID.
     const jwt = await createJWT(
       { vc: vcPayload, sub: subjectDID },
-      { signer, issuer: issuerDID },
-      { ...jwtOptions, header: { alg: 'ES256K', typ: 'JWT' } }
+      { signer, issuer: issuerDID, alg: 'ES256K', expiresIn },
+      { alg: 'ES256K', typ: 'JWT' }
     );
 
     return jwt;
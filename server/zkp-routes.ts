@@ -6,6 +6,11 @@ import { rateLimiters } from './rate-limiting-service';
 import { auditService } from './audit-service';
 import { smsService } from './sms-service';
 import { storage } from './storage';
+import { requireCapability } from './capability-middleware';
+import { consentGrantService } from './consent-grant-service';
+import { proofRevocationRegistry } from './proof-revocation-service';
+import { proofBundleService } from './proof-bundle-service';
+import { messageCatalog } from './message-catalog';
 import { z } from 'zod';
 import crypto from 'crypto';
 
@@ -174,12 +179,10 @@ router.post('/share-proof', async (req, res) => {
       return res.status(404).json({ error: 'Proof not found' });
     }
 
-    const message = `MediBridge: Patient verified as ${proof.publicStatement}. No personal information shared.`;
-
-    await smsService.sendOTPSMS({
+    await smsService.sendTemplateSMS({
       to: recipientPhone,
-      otpCode: message,
-      expiresInMinutes: 1440
+      key: 'sms.proofShared',
+      params: { statement: proof.publicStatement },
     });
 
     await auditService.logEvent({
@@ -236,10 +239,9 @@ router.post('/emergency-mode', async (req, res) => {
     });
 
     // Send SMS to emergency contact
-    await smsService.sendOTPSMS({
+    await smsService.sendTemplateSMS({
       to: emergencyContact,
-      otpCode: 'URGENT: Patient has valid health proof. Emergency treatment authorized.',
-      expiresInMinutes: 60
+      key: 'sms.emergencyAuthorized',
     });
 
     // Simulate voice call
@@ -367,10 +369,11 @@ router.post('/generate-proofs-from-form', async (req, res) => {
     if (formData.phoneNumber) {
       console.log('[ZKP] Sending SMS to:', formData.phoneNumber, 'with visitCode:', visitCode);
       try {
-        await smsService.sendOTPSMS({
+        await smsService.sendTemplateSMS({
           to: formData.phoneNumber,
-          otpCode: `MediBridge: Hello${formData.patientName ? ' ' + formData.patientName : ''}, your medical proofs for your recent hospital visit are ready!\nYour code: ${visitCode}\nValid for 30 days.\nTo retrieve or share your proofs, dial *123#.`,
-          expiresInMinutes: 43200
+          key: formData.patientName ? 'sms.visitReadyNamed' : 'sms.visitReady',
+          params: { name: formData.patientName, code: visitCode, days: 30, ussdCode: '*123#' },
+          locale: messageCatalog.resolveLocale(formData.language),
         });
         console.log('[ZKP] SMS sent successfully to:', formData.phoneNumber);
       } catch (smsError) {
@@ -606,6 +609,98 @@ router.post('/generate-selective-proof', zkpRateLimiter, requirePatientAuth, asy
   }
 });
 
+/**
+ * Generate a claim proof (age, ICD-11 chapter, vaccination, HIV negative) over fields
+ * committed with a stored record. Values and salts are loaded server-side, never taken from the caller.
+ * POST /api/zkp/generate-claim-proof
+ */
+const claimProofBase = {
+  recordId: z.number().int().positive(),
+  expiresInDays: z.number().int().min(1).max(365).default(30),
+};
+const claimProofSchema = z.discriminatedUnion('claim', [
+  z.object({ claim: z.literal('age'), ...claimProofBase, minAge: z.number().int().min(0).max(200) }),
+  z.object({ claim: z.literal('icd_chapter'), ...claimProofBase, chapters: z.array(z.number().int().min(1).max(26)).min(1).max(8) }),
+  z.object({ claim: z.literal('vaccination'), ...claimProofBase, vaccine: z.string().trim().min(1), withinMonths: z.number().int().min(0).max(1200) }),
+  z.object({ claim: z.literal('hiv_negative'), ...claimProofBase, withinMonths: z.number().int().min(0).max(1200).default(3) }),
+]);
+
+router.post('/generate-claim-proof', zkpRateLimiter, requireCapability('lookup_records'), async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const parsed = claimProofSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: 'Invalid claim proof request', details: parsed.error.errors });
+    }
+    const body = parsed.data;
+
+    const record = await storage.getPatientRecordById(body.recordId);
+    if (!record || !record.patientDID) {
+      return res.status(404).json({ success: false, error: 'Record not found' });
+    }
+    if (record.hospital_id !== req.user.hospital_id && !(await consentGrantService.coversRecord(record, req.user.id))) {
+      return res.status(403).json({ success: false, error: 'No active consent covers this record', requiresConsent: true });
+    }
+
+    const zkpServiceInstance = await zkpService;
+    const vaccination = body.claim === 'vaccination' ? `VACCINATION:${body.vaccine.toUpperCase()}` : undefined;
+    const commitment = await zkpServiceInstance.findClaimCommitment(
+      record.id,
+      body.claim === 'age' ? 'birth_date' : body.claim === 'icd_chapter' ? 'icd_code' : 'event',
+      c => body.claim === 'vaccination' ? c.eventType === vaccination : body.claim === 'hiv_negative' ? c.eventType === 'HIV_NEGATIVE' : true
+    );
+    if (!commitment) {
+      return res.status(404).json({ success: false, error: 'Record has no committed field for this claim' });
+    }
+
+    let result;
+    switch (body.claim) {
+      case 'age':
+        result = await zkpServiceInstance.generateAgeProof(commitment, body.minAge, body.expiresInDays);
+        break;
+      case 'icd_chapter':
+        result = await zkpServiceInstance.generateIcdChapterProof(commitment, body.chapters, body.expiresInDays);
+        break;
+      case 'vaccination':
+        result = await zkpServiceInstance.generateVaccinationProof(commitment, body.withinMonths, body.expiresInDays);
+        break;
+      case 'hiv_negative':
+        result = await zkpServiceInstance.generateHivNegativeProof(commitment, body.withinMonths, body.expiresInDays);
+        break;
+    }
+
+    await auditService.logEvent({
+      eventType: "ZKP_CLAIM_PROOF_GENERATED",
+      actorType: "HOSPITAL",
+      actorId: req.user.id.toString(),
+      targetType: "ZKP_PROOF",
+      targetId: result.proofId.toString(),
+      action: "GENERATE_PROOF",
+      outcome: "SUCCESS",
+      metadata: { claim: body.claim, recordId: record.id, patientDID: record.patientDID },
+      severity: "info",
+      hospital_id: req.user.hospital_id,
+    }, req);
+
+    res.json({
+      success: true,
+      proofId: result.proofId,
+      proofData: result.proofData,
+      message: 'Claim proof generated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Claim proof generation error:', error);
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to generate claim proof'
+    });
+  }
+});
+
 /**
  * Get ZKP analytics (for admin dashboard)
  * GET /api/zkp/analytics
@@ -654,6 +749,7 @@ router.get('/stats', zkpRateLimiter, requireAdminAuth, async (req, res) => {
       success: true,
       stats: {
         cache: cacheStats,
+        jobQueue: zkpServiceInstance.getJobQueueStats(),
         proofs: {
           total: totalProofs,
           active: activeProofs,
@@ -737,7 +833,7 @@ router.post('/verify-code', async (req, res) => {
     const contagious = proofs.some(pr => pr.type === 'contagious_flag' || /contagious/i.test(pr.statement || ''));
     const categories = Array.from(new Set(
       proofs
-        .filter(pr => pr.type === 'icd_category')
+        .filter(pr => pr.type === 'icd_category' || pr.type === 'icd_chapter')
         .map(pr => (pr.statement || '').replace(/^Patient condition falls under\s*/i, '').replace(/^ICD-11 category:\s*/i, '').trim())
     ));
     const valid = proofs.length > 0;
@@ -768,4 +864,97 @@ router.post('/verify-code', async (req, res) => {
   }
 });
 
+/**
+ * Revoke every proof issued under a visit code
+ * POST /api/zkp/revoke-visit-code
+ */
+router.post('/revoke-visit-code', zkpRateLimiter, requirePatientAuth, async (req, res) => {
+  try {
+    const { code, reason } = z.object({
+      code: z.string().regex(/^\d{6}$/, 'Visit code must be 6 digits'),
+      reason: z.string().max(500).optional()
+    }).parse(req.body);
+
+    const zkpServiceInstance = await zkpService;
+    const revoked = await zkpServiceInstance.revokeProofsByVisitCode(code, req.session.patientDID!, reason);
+
+    if (revoked.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'No active proofs found for this visit code'
+      });
+    }
+
+    res.json({
+      success: true,
+      revokedProofs: revoked.length,
+      message: `Revoked ${revoked.length} proof(s) for this visit code`
+    });
+  } catch (error: any) {
+    console.error('Revoke visit code error:', error);
+    res.status(400).json({
+      success: false,
+      error: `Failed to revoke proofs: ${error.message}`
+    });
+  }
+});
+
+/**
+ * Current revocation list Merkle root (anchored to the Hedera audit topic)
+ * GET /api/zkp/revocations/root
+ */
+router.get('/revocations/root', async (req, res) => {
+  try {
+    res.json(await proofRevocationRegistry.getRevocationListRoot());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to load revocation root' });
+  }
+});
+
+/**
+ * Merkle inclusion proof for a revoked proof
+ * GET /api/zkp/revocations/:proofId
+ */
+router.get('/revocations/:proofId', async (req, res) => {
+  try {
+    const proofId = parseInt(req.params.proofId);
+    if (isNaN(proofId)) {
+      return res.status(400).json({ error: 'Invalid proof ID' });
+    }
+    const inclusion = await proofRevocationRegistry.getInclusionProof(proofId);
+    res.json({ proofId, revoked: !!inclusion, inclusion });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to check revocation' });
+  }
+});
+
+/**
+ * Signed offline proof bundle (and QR image) for a visit code
+ * POST /api/zkp/offline-bundle
+ */
+router.post('/offline-bundle', zkpRateLimiter, async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+      return res.status(400).json({ success: false, error: 'Invalid code format' });
+    }
+    const result = await proofBundleService.createBundle(code);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message || 'Failed to create offline bundle' });
+  }
+});
+
+/**
+ * Issuer key and circuit verification keys for offline verifiers
+ * GET /api/zkp/offline/trust-anchors
+ */
+router.get('/offline/trust-anchors', async (req, res) => {
+  try {
+    res.json(await proofBundleService.getTrustAnchors());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to load trust anchors' });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { secureKeyVault } from "./secure-key-vault";
+import { enhancedEncryptionService } from "./enhanced-encryption-service";
 import { storage } from "./storage";
 import { auditService } from "./audit-service";
 import { smsService } from "./sms-service";
@@ -11,6 +12,11 @@ import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import { fileURLToPath } from 'url';
+import { initialize as initializeZokrates, type ZoKratesProvider, type CompilationArtifacts, type Curve, type Proof, type Scheme, type VerificationKey } from 'zokrates-js';
+import { ZOKRATES_CIRCUITS, ICD_CHAPTER_SET_SIZE, type ZokratesCircuitName } from './zokrates-circuits';
+import { proofRevocationRegistry } from './proof-revocation-service';
+import type { InsertRecordClaimCommitment, PatientRecord, RecordClaimCommitment, RecordClinicalDetails } from '@shared/schema';
+import type { ClinicalDetails } from '@shared/clinical';
 
 // Simple Poseidon hash implementation for ZoKrates compatibility
 import crypto from 'crypto';
@@ -28,6 +34,47 @@ const usePrecompiled = isProduction || process.env.USE_PRECOMPILED === 'true';
 console.log(`[ZKP Service] Environment: ${isProduction ? 'production' : 'development'}`);
 console.log(`[ZKP Service] Mode: ${usePrecompiled ? 'pre-compiled' : 'docker'}`);
 
+/**
+ * Bounded FIFO queue for ZoKrates jobs, both Docker runs and in-process WASM
+ * proving. At most `concurrency` jobs run at once and at most `maxQueued` wait;
+ * further submissions are rejected so a burst of record submissions cannot pile
+ * up unbounded containers or block the event loop with a backlog of provers.
+ */
+class ZokratesJobQueue {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private concurrency: number, private maxQueued: number) {}
+
+  async run<T>(job: () => Promise<T>): Promise<T> {
+    if (this.running >= this.concurrency) {
+      if (this.waiting.length >= this.maxQueued) {
+        throw new Error('ZoKrates job queue is full, please retry shortly');
+      }
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.running++;
+    try {
+      return await job();
+    } finally {
+      this.running--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  getStats(): { running: number; queued: number } {
+    return { running: this.running, queued: this.waiting.length };
+  }
+}
+
+// zokrates-js returns the scheme and curve alongside the proof, though its typings omit them
+type TaggedProof = Proof & { scheme?: Scheme; curve?: Curve };
+
+const zokratesJobQueue = new ZokratesJobQueue(
+  parseInt(process.env.ZOKRATES_MAX_CONCURRENT_JOBS || '2'),
+  parseInt(process.env.ZOKRATES_MAX_QUEUED_JOBS || '50')
+);
+
 export interface ZKPProofData {
   proof: any;
   publicSignals: string[];
@@ -72,6 +119,33 @@ export interface SelectiveDisclosure {
   revealHospitalInfo: boolean;
 }
 
+/**
+ * Public claim proven by one of the committed-field circuits. The claim is
+ * stored alongside the proof and re-derived into public signals at
+ * verification time, so the stored statement cannot drift from what was proven.
+ */
+export type ClaimField = 'birth_date' | 'icd_code' | 'event';
+
+// A stored claim commitment with its value, salt and event type decrypted
+export interface OpenedClaimCommitment {
+  id: number;
+  recordId: number;
+  patientDID: string;
+  field: ClaimField;
+  commitment: string;
+  value: string;
+  salt: string;
+  eventType: string | null;
+}
+
+// Structured clinical entries claims are committed from, as submitted or as stored
+type ClaimSource = Pick<ClinicalDetails, 'immunizations' | 'labResults'> | Pick<RecordClinicalDetails, 'immunizations' | 'labResults'>;
+
+export type CommittedClaim =
+  | { kind: 'age_threshold'; commitment: string; minAge: number; currentDate: number }
+  | { kind: 'icd_chapter'; commitment: string; chapters: number[] }
+  | { kind: 'event_recency'; commitment: string; eventType: string; currentMonth: number; withinMonths: number };
+
 export interface TimeBasedProof {
   validFrom: number;
   validUntil: number;
@@ -116,15 +190,32 @@ export class ZKPService {
   }
 
   // Helper to build Docker command for ZoKrates (Development Mode)
-  private static dockerZokratesCmd(args: string) {
+  // The circuit artifacts are mounted read-only at /home/zokrates/code and the
+  // job's own directory at /home/zokrates/job, which is also the working directory,
+  // so the default `witness` and `proof.json` outputs never collide between jobs.
+  private static dockerZokratesCmd(args: string, jobDir: string) {
     if (usePrecompiled) {
       throw new Error('Docker Zokrates not available in pre-compiled mode');
     }
     // Use absolute path to your zokrates directory
     const hostPath = path.resolve(__dirname, '../zokrates');
     // Windows path fix for Docker
-    const dockerHostPath = os.platform() === 'win32' ? hostPath.replace(/\\/g, '/') : hostPath;
-    return `docker run --rm -v "${dockerHostPath}:/home/zokrates/code" -w /home/zokrates/code zokrates/zokrates:latest zokrates ${args}`;
+    const toDockerPath = (p: string) => os.platform() === 'win32' ? p.replace(/\\/g, '/') : p;
+    return `docker run --rm -v "${toDockerPath(hostPath)}:/home/zokrates/code:ro" -v "${toDockerPath(jobDir)}:/home/zokrates/job" -w /home/zokrates/job zokrates/zokrates:latest zokrates ${args}`;
+  }
+
+  // Helper to run a Docker ZoKrates job in its own temporary directory (Development Mode)
+  private static async runZokratesJob<T>(job: (jobDir: string) => Promise<T>): Promise<T> {
+    return zokratesJobQueue.run(async () => {
+      const jobDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'medibridge-zkp-'));
+      try {
+        return await job(jobDir);
+      } finally {
+        await fs.promises.rm(jobDir, { recursive: true, force: true }).catch((error) => {
+          console.warn('[ZKP] Failed to clean up job directory:', jobDir, error.message);
+        });
+      }
+    });
   }
 
   // Helper to read pre-compiled artifacts (Production Mode)
@@ -142,31 +233,181 @@ export class ZKPService {
     }
   }
 
+  // Helper to read binary pre-compiled artifacts such as the program and proving key (Production Mode)
+  private static async readPrecompiledBinary(artifactPath: string): Promise<Uint8Array> {
+    const fullPath = path.join(__dirname, '../zokrates', artifactPath);
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`Pre-compiled artifact not found: ${fullPath} (run "npm run zk:setup:node")`);
+    }
+    return new Uint8Array(await fs.promises.readFile(fullPath));
+  }
+
+  // zokrates-js provider and artifacts are loaded once and shared by all requests
+  private static zokratesProvider: Promise<ZoKratesProvider> | null = null;
+  private static precompiledArtifacts = new Map<ZokratesCircuitName, Promise<{
+    artifacts: CompilationArtifacts;
+    provingKey: Uint8Array;
+    verificationKey: VerificationKey;
+    verificationKeyHash: string;
+  }>>();
+
+  private static getZokratesProvider(): Promise<ZoKratesProvider> {
+    if (!this.zokratesProvider) {
+      this.zokratesProvider = initializeZokrates().catch((error) => {
+        this.zokratesProvider = null;
+        throw error;
+      });
+    }
+    return this.zokratesProvider;
+  }
+
+  private static loadPrecompiledArtifacts(circuitName: ZokratesCircuitName = 'medical_proof') {
+    let loaded = this.precompiledArtifacts.get(circuitName);
+    if (!loaded) {
+      const circuit = ZOKRATES_CIRCUITS[circuitName];
+      loaded = (async () => {
+        const [program, abi, provingKey, verificationKey] = await Promise.all([
+          this.readPrecompiledBinary(circuit.program),
+          this.readPrecompiledArtifact(circuit.abi),
+          this.readPrecompiledBinary(circuit.provingKey),
+          this.readPrecompiledArtifact(circuit.verificationKey),
+        ]);
+        const verificationKeyHash = createHash('sha256').update(JSON.stringify(verificationKey)).digest('hex');
+        return { artifacts: { program, abi }, provingKey, verificationKey, verificationKeyHash };
+      })().catch((error) => {
+        this.precompiledArtifacts.delete(circuitName);
+        throw error;
+      });
+      this.precompiledArtifacts.set(circuitName, loaded);
+    }
+    return loaded;
+  }
+
+  // Helper to generate a Groth16 proof in-process with zokrates-js (Production Mode)
+  private static async generatePrecompiledProof(zokratesInputs: Array<string | string[]>, circuitName: ZokratesCircuitName = 'medical_proof'): Promise<any> {
+    const provider = await this.getZokratesProvider();
+    const { artifacts, provingKey, verificationKeyHash } = await this.loadPrecompiledArtifacts(circuitName);
+
+    // Proving is synchronous WASM, so it waits its turn in the same queue as Docker jobs
+    const proof: TaggedProof = await zokratesJobQueue.run(async () => {
+      // Throws if the circuit assertions fail, i.e. the claimed property does not hold
+      const { witness } = provider.computeWitness(artifacts, zokratesInputs);
+      return provider.generateProof(artifacts.program, witness, provingKey);
+    });
+
+    return {
+      proof: proof.proof,
+      publicSignals: proof.inputs,
+      protocol: 'groth16',
+      scheme: proof.scheme,
+      curve: proof.curve,
+      circuit: circuitName,
+      verificationKeyHash
+    };
+  }
+
+  // Public signals are compared as field elements, since ZoKrates emits them hex-encoded
+  private static publicSignalsMatch(publicSignals: string[], expected: string[]): boolean {
+    if (!Array.isArray(publicSignals) || publicSignals.length !== expected.length) {
+      return false;
+    }
+    try {
+      return publicSignals.every((signal, i) => BigInt(signal) === BigInt(expected[i]));
+    } catch {
+      return false;
+    }
+  }
+
   // Helper to verify pre-compiled proof (Production Mode)
   private static async verifyPrecompiledProof(proofData: any, publicInputs: string[]): Promise<boolean> {
     try {
-      // Read verification key
-      const verificationKey = await this.readPrecompiledArtifact('artifacts/medical_proof/verification.key');
-      
-      // Simple verification logic (in production, you'd use a proper ZK verification library)
-      // For now, we'll do basic validation
-      if (!proofData.proof || !proofData.publicSignals) {
+      if (!proofData.proof || !Array.isArray(proofData.publicSignals)) {
         return false;
       }
-      
-      // Check if public signals match expected inputs
-      if (proofData.publicSignals.length !== publicInputs.length) {
+
+      // Public signals must be exactly the ones the caller expects
+      if (!this.publicSignalsMatch(proofData.publicSignals, publicInputs)) {
         return false;
       }
-      
-      // Basic validation passed
-      return true;
+
+      const circuitName: ZokratesCircuitName = proofData.circuit || 'medical_proof';
+      if (!ZOKRATES_CIRCUITS[circuitName]) {
+        return false;
+      }
+      const provider = await this.getZokratesProvider();
+      const { verificationKey, verificationKeyHash } = await this.loadPrecompiledArtifacts(circuitName);
+
+      // Proofs produced under a different key can never verify; fail fast with a clear log
+      if (proofData.verificationKeyHash && proofData.verificationKeyHash !== verificationKeyHash) {
+        console.warn('[ZKP] Proof was generated for a different verification key');
+        return false;
+      }
+
+      const proof: TaggedProof = {
+        scheme: proofData.scheme || 'g16',
+        curve: proofData.curve || 'bn128',
+        proof: proofData.proof,
+        inputs: proofData.publicSignals
+      };
+      return provider.verify(verificationKey, proof);
     } catch (error) {
       console.error('Pre-compiled proof verification failed:', error);
       return false;
     }
   }
 
+  /**
+   * Generate a proof for the given circuit in whichever mode is active
+   */
+  private async computeCircuitProof(circuitName: ZokratesCircuitName, zokratesInputs: Array<string | string[]>): Promise<any> {
+    if (usePrecompiled) {
+      // Production Mode: Use pre-compiled artifacts
+      console.log(`[ZKP] Using pre-compiled mode for ${circuitName} proof generation`);
+      return ZKPService.generatePrecompiledProof(zokratesInputs, circuitName);
+    }
+
+    // Development Mode: Use Docker Zokrates
+    console.log(`[ZKP] Using Docker mode for ${circuitName} proof generation`);
+    const circuit = ZOKRATES_CIRCUITS[circuitName];
+    try {
+      const proofData = await ZKPService.runZokratesJob(async (jobDir) => {
+        // Generate witness using ZoKrates CLI via Docker (array arguments are passed flattened)
+        const witnessCmd = ZKPService.dockerZokratesCmd(`compute-witness -i /home/zokrates/code/${circuit.program} -a ${zokratesInputs.flat().join(' ')}`, jobDir);
+        console.log('[ZKP] Running witness command:', witnessCmd);
+        const { stdout: witnessOutput } = await execAsync(witnessCmd);
+        console.log('[ZKP] Witness output:', witnessOutput);
+
+        // Generate proof using ZoKrates CLI via Docker
+        const proofCmd = ZKPService.dockerZokratesCmd(`generate-proof -i /home/zokrates/code/${circuit.program} -p /home/zokrates/code/${circuit.provingKey} -w witness -j proof.json`, jobDir);
+        console.log('[ZKP] Running proof command:', proofCmd);
+        const { stdout: proofOutput } = await execAsync(proofCmd);
+        console.log('[ZKP] Proof output:', proofOutput);
+
+        // Read the proof.json written for this job
+        return this.readZokratesProofFile(jobDir);
+      });
+      console.log('[ZKP] Read proof data from file:', proofData);
+      return { ...proofData, circuit: circuitName };
+    } catch (dockerError: any) {
+      console.error('[ZKP] Docker ZoKrates failed:', dockerError.message);
+      throw new Error(`ZoKrates proof generation failed: ${dockerError.message}`);
+    }
+  }
+
+  /**
+   * Rebuild the flattened public signals a committed claim must have been proven with
+   */
+  private static claimPublicInputs(claim: CommittedClaim): string[] {
+    switch (claim.kind) {
+      case 'age_threshold':
+        return [claim.commitment, claim.minAge.toString(), claim.currentDate.toString()];
+      case 'icd_chapter':
+        return [claim.commitment, ...ZKPService.icdChapterSet(claim.chapters)];
+      case 'event_recency':
+        return [claim.commitment, ZKPService.stringToField(claim.eventType), claim.currentMonth.toString(), claim.withinMonths.toString()];
+    }
+  }
+
   /**
    * Generate real ZK proof for medical record verification with advanced features
    */
@@ -200,49 +441,8 @@ export class ZKPService {
     console.log('ZKP ZoKrates Inputs:', zokratesInputs);
 
     try {
-      let proofData: any;
+      const proofData = await this.computeCircuitProof('medical_proof', zokratesInputs);
 
-      if (usePrecompiled) {
-        // Production Mode: Use pre-compiled artifacts
-        console.log('[ZKP] Using pre-compiled mode for proof generation');
-        
-        // For production, we'll create a simplified proof structure
-        // In a real implementation, you'd use a proper ZK verification library
-        proofData = {
-          proof: {
-            a: [recordHash.toString(), propertyCode.toString()],
-            b: [[propertyValue.toString()], [d, e, f]],
-            c: [propertyValue.toString()]
-          },
-          publicSignals: [recordHash.toString(), propertyCode.toString(), propertyValue.toString()],
-          protocol: 'groth16'
-        };
-      } else {
-        // Development Mode: Use Docker Zokrates
-        console.log('[ZKP] Using Docker mode for proof generation');
-        
-        try {
-          // Generate witness using ZoKrates CLI via Docker
-          const witnessCmd = ZKPService.dockerZokratesCmd(`compute-witness -i artifacts/medical_proof_compiled -a ${zokratesInputs.join(' ')}`);
-          console.log('[ZKP] Running witness command:', witnessCmd);
-          const { stdout: witnessOutput } = await execAsync(witnessCmd);
-          console.log('[ZKP] Witness output:', witnessOutput);
-          
-          // Generate proof using ZoKrates CLI via Docker
-          const proofCmd = ZKPService.dockerZokratesCmd(`generate-proof -i artifacts/medical_proof_compiled -p artifacts/medical_proof/proving.key -j proof.json`);
-          console.log('[ZKP] Running proof command:', proofCmd);
-          const { stdout: proofOutput } = await execAsync(proofCmd);
-          console.log('[ZKP] Proof output:', proofOutput);
-          
-          // Read the actual proof.json file
-          proofData = await this.readZokratesProofFile();
-          console.log('[ZKP] Read proof data from file:', proofData);
-        } catch (dockerError: any) {
-          console.error('[ZKP] Docker ZoKrates failed:', dockerError.message);
-          throw new Error(`ZoKrates proof generation failed: ${dockerError.message}`);
-        }
-      }
-      
       const proofRecord = await storage.createZKPProof({
         patientDID: medicalData.patientDID,
         proofType: 'medical_record',
@@ -288,20 +488,37 @@ export class ZKPService {
     const proofRecord = await storage.getZKPProof(proofId);
     if (!proofRecord) throw new Error('Proof not found');
 
+    // Lifecycle checks come before any cryptography: a valid proof that was revoked or expired is not valid
+    if (!proofRecord.isActive) {
+      return { isValid: false, error: 'Proof is no longer active', verificationId: proofId };
+    }
+    if (proofRecord.expiresAt < new Date()) {
+      return { isValid: false, error: 'Proof has expired', verificationId: proofId };
+    }
+    if (await proofRevocationRegistry.isRevoked(proofId)) {
+      return { isValid: false, error: 'Proof has been revoked', verificationId: proofId };
+    }
+
     try {
       const proofData = proofRecord.proofData as any;
+      const circuitName: ZokratesCircuitName = proofData.circuit || 'medical_proof';
       let isValid: boolean;
 
+      // Committed claims must have been proven with exactly the public inputs the stored claim implies
+      const expectedSignals = proofData.claim
+        ? ZKPService.claimPublicInputs(proofData.claim)
+        : proofData.publicSignals;
+
       if (usePrecompiled) {
         // Production Mode: Use pre-compiled verification
         console.log('[ZKP] Using pre-compiled mode for proof verification');
-        isValid = await ZKPService.verifyPrecompiledProof(proofData, proofData.publicSignals);
+        isValid = await ZKPService.verifyPrecompiledProof(proofData, expectedSignals);
       } else {
         // Development Mode: Use Docker Zokrates
         console.log('[ZKP] Using Docker mode for proof verification');
         
         // Check if proof data is valid
-        if (!proofData.proof || !proofData.publicSignals || proofData.publicSignals.length === 0) {
+        if (!proofData.proof || !proofData.publicSignals || proofData.publicSignals.length === 0 || !ZOKRATES_CIRCUITS[circuitName]) {
           console.error('[ZKP] Invalid proof data for verification:', proofData);
           return {
             isValid: false,
@@ -309,14 +526,26 @@ export class ZKPService {
             verificationId: proofId
           };
         }
+        if (!ZKPService.publicSignalsMatch(proofData.publicSignals, expectedSignals)) {
+          return {
+            isValid: false,
+            error: 'Public signals do not match the stored claim',
+            verificationId: proofId
+          };
+        }
         
         try {
-          // Correct ZoKrates verify syntax: zokrates verify -v verification.key -j proof.json
-          const verifyCmd = ZKPService.dockerZokratesCmd(`verify -v artifacts/medical_proof/verification.key -j proof.json`);
-          console.log('[ZKP] Running verify command:', verifyCmd);
-          const { stdout } = await execAsync(verifyCmd);
-          console.log('[ZKP] Verify output:', stdout);
-          isValid = stdout.includes('PASSED');
+          isValid = await ZKPService.runZokratesJob(async (jobDir) => {
+            // Re-materialise the stored proof for this proofId rather than trusting any file on disk
+            await this.writeZokratesProofFile(jobDir, proofData);
+
+            // Correct ZoKrates verify syntax: zokrates verify -v verification.key -j proof.json
+            const verifyCmd = ZKPService.dockerZokratesCmd(`verify -v /home/zokrates/code/${ZOKRATES_CIRCUITS[circuitName].verificationKey} -j proof.json`, jobDir);
+            console.log('[ZKP] Running verify command:', verifyCmd);
+            const { stdout } = await execAsync(verifyCmd);
+            console.log('[ZKP] Verify output:', stdout);
+            return stdout.includes('PASSED');
+          });
         } catch (verifyError: any) {
           console.error('[ZKP] Verification failed:', verifyError.message);
           return {
@@ -367,6 +596,349 @@ export class ZKPService {
     return results;
   }
 
+  // ICD-11 chapters are identified by the first character of the stem code
+  // (chapters 1-9 by digit, 10+ by letter, skipping I and O)
+  static ICD11_CHAPTER_PREFIXES: Record<number, string> = {
+    1: '1', 2: '2', 3: '3', 4: '4', 5: '5', 6: '6', 7: '7', 8: '8', 9: '9',
+    10: 'A', 11: 'B', 12: 'C', 13: 'D', 14: 'E', 15: 'F', 16: 'G', 17: 'H',
+    18: 'J', 19: 'K', 20: 'L', 21: 'M', 22: 'N', 23: 'P', 24: 'Q', 25: 'R', 26: 'S'
+  };
+
+  static icdChapterOf(icdCode: string): number | undefined {
+    const prefix = icdCode.trim().toUpperCase().charAt(0);
+    const entry = Object.entries(ZKPService.ICD11_CHAPTER_PREFIXES).find(([, p]) => p === prefix);
+    return entry ? parseInt(entry[0]) : undefined;
+  }
+
+  // Public `allowed` array for the icd_chapter circuit, padded by repeating the first chapter
+  private static icdChapterSet(chapters: number[]): string[] {
+    if (chapters.length === 0 || chapters.length > ICD_CHAPTER_SET_SIZE) {
+      throw new Error(`Between 1 and ${ICD_CHAPTER_SET_SIZE} ICD-11 chapters must be given`);
+    }
+    const prefixes = chapters.map(chapter => {
+      const prefix = ZKPService.ICD11_CHAPTER_PREFIXES[chapter];
+      if (!prefix) throw new Error(`Unknown ICD-11 chapter: ${chapter}`);
+      return prefix.charCodeAt(0).toString();
+    });
+    while (prefixes.length < ICD_CHAPTER_SET_SIZE) prefixes.push(prefixes[0]);
+    return prefixes;
+  }
+
+  // Dates are encoded as YYYYMMDD integers inside the circuits
+  private static parseCircuitDate(isoDate: string): { year: number; month: number; day: number; encoded: number } {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(isoDate);
+    if (!match) throw new Error(`Invalid date (expected YYYY-MM-DD): ${isoDate}`);
+    const [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+    if (month < 1 || month > 12 || day < 1 || day > 31) throw new Error(`Invalid date: ${isoDate}`);
+    return { year, month, day, encoded: year * 10000 + month * 100 + day };
+  }
+
+  private static randomFieldElement(): string {
+    return (BigInt('0x' + crypto.randomBytes(31).toString('hex')) % ZKPService.FIELD_PRIME).toString();
+  }
+
+  /**
+   * Commit to the record fields claim proofs can be made about: the patient's birth
+   * date when the submission carries one, each ICD-11 code, every immunization and
+   * negative HIV test results. Values, salts and event types are stored encrypted under
+   * the key vault; the opened commitments are returned for immediate proof generation.
+   */
+  async commitRecordClaims(record: PatientRecord, clinical?: ClaimSource, dateOfBirth?: string): Promise<OpenedClaimCommitment[]> {
+    const rows = await storage.createRecordClaimCommitments(await this.sealRecordClaims(record, clinical, dateOfBirth));
+    return Promise.all(rows.map(row => ZKPService.openCommitment(row)));
+  }
+
+  /**
+   * The encrypted commitment rows for a record's claimable fields, not yet stored.
+   * Amendments store them in the same transaction that replaces the record content.
+   */
+  async sealRecordClaims(record: PatientRecord, clinical?: ClaimSource, dateOfBirth?: string): Promise<InsertRecordClaimCommitment[]> {
+    if (!record.patientDID) return [];
+    const fields: Array<{ field: ClaimField; value: string; eventType: string | null }> = [];
+
+    if (dateOfBirth) {
+      fields.push({ field: 'birth_date', value: dateOfBirth, eventType: null });
+    }
+
+    const icdCodes: Array<{ code?: string; icd_code?: string }> = Array.isArray(record.icd_codes) ? record.icd_codes as any[] : [];
+    for (const icd of icdCodes) {
+      const code = (icd.code || icd.icd_code || '').trim().toUpperCase();
+      if (code.length >= 2 && ZKPService.icdChapterOf(code) !== undefined && !fields.some(f => f.value === code)) {
+        fields.push({ field: 'icd_code', value: code, eventType: null });
+      }
+    }
+
+    for (const immunization of clinical?.immunizations || []) {
+      fields.push({ field: 'event', value: immunization.administeredDate, eventType: `VACCINATION:${immunization.vaccine.trim().toUpperCase()}` });
+    }
+
+    const visitDay = /^\d{4}-\d{2}-\d{2}/.exec(record.visitDate)?.[0];
+    for (const lab of clinical?.labResults || []) {
+      const testedOn = lab.collectedAt || visitDay;
+      if (/\bHIV\b/i.test(lab.testName) && /^(negative|non-?reactive)$/i.test(lab.value) && testedOn) {
+        fields.push({ field: 'event', value: testedOn, eventType: 'HIV_NEGATIVE' });
+      }
+    }
+
+    const patientDID = record.patientDID;
+    return Promise.all(fields.map(async ({ field, value, eventType }) => {
+      const salt = ZKPService.randomFieldElement();
+      const encrypted = await enhancedEncryptionService.encryptRecord({ v: value, s: salt, e: eventType }, patientDID);
+      return {
+        recordId: record.id,
+        patientDID,
+        field,
+        encryptedClaim: encrypted.encryptedData,
+        encryptionKey: await secureKeyVault.encryptDataKey(encrypted.encryptionKey),
+        commitment: await ZKPService.commitField(field, value, eventType, salt),
+      };
+    }));
+  }
+
+  /**
+   * Every commitment stored for a record, decrypted for proof generation
+   */
+  async openRecordClaims(recordId: number): Promise<OpenedClaimCommitment[]> {
+    return Promise.all((await storage.getRecordClaimCommitments(recordId)).map(row => ZKPService.openCommitment(row)));
+  }
+
+  /**
+   * The record's first committed field of a kind that `accept` allows, decrypted for
+   * proof generation
+   */
+  async findClaimCommitment(
+    recordId: number,
+    field: ClaimField,
+    accept: (commitment: OpenedClaimCommitment) => boolean = () => true
+  ): Promise<OpenedClaimCommitment | undefined> {
+    for (const row of await storage.getRecordClaimCommitments(recordId)) {
+      if (row.field !== field) continue;
+      const opened = await ZKPService.openCommitment(row);
+      if (accept(opened)) return opened;
+    }
+    return undefined;
+  }
+
+  private static async openCommitment(row: RecordClaimCommitment): Promise<OpenedClaimCommitment> {
+    const key = await secureKeyVault.decryptDataKey(row.encryptionKey);
+    const { v, s, e } = await enhancedEncryptionService.decryptRecord(row.encryptedClaim, key, row.patientDID);
+    return { ...ZKPService.publicPart(row), value: v, salt: s, eventType: e ?? null };
+  }
+
+  private static publicPart(row: RecordClaimCommitment): Omit<OpenedClaimCommitment, 'value' | 'salt' | 'eventType'> {
+    return { id: row.id, recordId: row.recordId, patientDID: row.patientDID, field: row.field as ClaimField, commitment: row.commitment };
+  }
+
+  // Poseidon commitment each claim circuit recomputes from its private inputs
+  private static async commitField(field: ClaimField, value: string, eventType: string | null, salt: string): Promise<string> {
+    switch (field) {
+      case 'birth_date':
+        return ZKPService.poseidonHash([ZKPService.parseCircuitDate(value).encoded, salt]);
+      case 'icd_code':
+        return ZKPService.poseidonHash([value.charCodeAt(0).toString(), ZKPService.stringToField(value.slice(1)), salt]);
+      case 'event':
+        return ZKPService.poseidonHash([ZKPService.stringToField(eventType || ''), ZKPService.parseCircuitDate(value).encoded, salt]);
+    }
+  }
+
+  // Refuses commitments of the wrong kind, or whose stored value no longer matches the commitment
+  private static async checkCommitment(commitment: OpenedClaimCommitment, field: ClaimField): Promise<void> {
+    if (commitment.field !== field) {
+      throw new Error(`Expected a committed ${field}, got ${commitment.field}`);
+    }
+    if (await ZKPService.commitField(field, commitment.value, commitment.eventType, commitment.salt) !== commitment.commitment) {
+      throw new Error(`Commitment ${commitment.id} does not match its stored value`);
+    }
+  }
+
+  /**
+   * Generate a proof over a committed record field and store it with its claim
+   */
+  private async generateClaimProof(
+    commitment: OpenedClaimCommitment,
+    circuitName: ZokratesCircuitName,
+    claim: CommittedClaim,
+    zokratesInputs: Array<string | string[]>,
+    proofType: string,
+    publicStatement: string,
+    expiresInDays: number
+  ): Promise<{ proofId: number; proofData: ZKPProofData }> {
+    try {
+      const proofData = await this.computeCircuitProof(circuitName, zokratesInputs);
+
+      const proofRecord = await storage.createZKPProof({
+        patientDID: commitment.patientDID,
+        proofType,
+        publicStatement,
+        secretData: '',
+        proofData: { ...proofData, claim, recordId: commitment.recordId },
+        challenge: '',
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        isActive: true
+      });
+
+      console.log('[ZKP] Created claim proof record:', { id: proofRecord.id, proofType, circuit: circuitName });
+
+      return {
+        proofId: proofRecord.id,
+        proofData: {
+          proof: proofData.proof,
+          publicSignals: proofData.publicSignals,
+          challenge: '',
+          recordHash: claim.commitment,
+          proofCommitment: claim.commitment,
+          isValid: true
+        }
+      };
+    } catch (error: any) {
+      console.error('ZoKrates claim proof generation error:', error);
+      throw new Error(`Failed to generate ZK proof: ${error.message}`);
+    }
+  }
+
+  /**
+   * Prove "patient is at least minAge years old" from a committed birth date
+   */
+  async generateAgeProof(
+    commitment: OpenedClaimCommitment,
+    minAge: number,
+    expiresInDays: number = 30
+  ): Promise<{ proofId: number; proofData: ZKPProofData }> {
+    await ZKPService.checkCommitment(commitment, 'birth_date');
+    const birth = ZKPService.parseCircuitDate(commitment.value);
+    const currentDate = ZKPService.parseCircuitDate(new Date().toISOString()).encoded;
+    if (birth.encoded + minAge * 10000 > currentDate) {
+      throw new Error(`Claim does not hold: patient is younger than ${minAge}`);
+    }
+
+    const claim: CommittedClaim = { kind: 'age_threshold', commitment: commitment.commitment, minAge, currentDate };
+
+    return this.generateClaimProof(
+      commitment,
+      'age_threshold',
+      claim,
+      [commitment.commitment, minAge.toString(), currentDate.toString(), birth.encoded.toString(), commitment.salt],
+      'age',
+      `Patient is at least ${minAge} years old`,
+      expiresInDays
+    );
+  }
+
+  /**
+   * Prove "the committed ICD-11 code is in one of these chapters" without revealing the code
+   */
+  async generateIcdChapterProof(
+    commitment: OpenedClaimCommitment,
+    chapters: number[],
+    expiresInDays: number = 30
+  ): Promise<{ proofId: number; proofData: ZKPProofData }> {
+    await ZKPService.checkCommitment(commitment, 'icd_code');
+    const code = commitment.value;
+    const chapter = ZKPService.icdChapterOf(code);
+    if (chapter === undefined || !chapters.includes(chapter)) {
+      throw new Error('Claim does not hold: code is outside the given chapters');
+    }
+
+    const prefix = code.charCodeAt(0).toString();
+    const remainder = ZKPService.stringToField(code.slice(1));
+    const claim: CommittedClaim = { kind: 'icd_chapter', commitment: commitment.commitment, chapters };
+    const label = chapters.length === 1 ? `ICD-11 chapter ${chapters[0]}` : `ICD-11 chapters ${chapters.join(', ')}`;
+
+    return this.generateClaimProof(
+      commitment,
+      'icd_chapter',
+      claim,
+      [commitment.commitment, ZKPService.icdChapterSet(chapters), prefix, remainder, commitment.salt],
+      'icd_chapter',
+      `ICD-11 category: ${label}`,
+      expiresInDays
+    );
+  }
+
+  /**
+   * Prove "the committed event (e.g. VACCINATION:COVID-19, HIV_NEGATIVE) happened
+   * within the last withinMonths months"
+   */
+  async generateEventRecencyProof(
+    commitment: OpenedClaimCommitment,
+    withinMonths: number,
+    proofType: string,
+    publicStatement: string,
+    expiresInDays: number = 30
+  ): Promise<{ proofId: number; proofData: ZKPProofData }> {
+    await ZKPService.checkCommitment(commitment, 'event');
+    const eventType = commitment.eventType || '';
+    const event = ZKPService.parseCircuitDate(commitment.value);
+    const now = new Date();
+    const currentMonth = now.getUTCFullYear() * 12 + now.getUTCMonth();
+    const eventMonth = event.year * 12 + event.month - 1;
+    if (eventMonth > currentMonth || eventMonth + withinMonths < currentMonth) {
+      throw new Error(`Claim does not hold: event is not within the last ${withinMonths} months`);
+    }
+
+    const claim: CommittedClaim = { kind: 'event_recency', commitment: commitment.commitment, eventType, currentMonth, withinMonths };
+
+    return this.generateClaimProof(
+      commitment,
+      'event_recency',
+      claim,
+      [
+        commitment.commitment,
+        ZKPService.stringToField(eventType),
+        currentMonth.toString(),
+        withinMonths.toString(),
+        event.year.toString(),
+        event.month.toString(),
+        event.day.toString(),
+        commitment.salt
+      ],
+      proofType,
+      publicStatement,
+      expiresInDays
+    );
+  }
+
+  /**
+   * Prove a committed vaccination within the last withinMonths months
+   */
+  async generateVaccinationProof(
+    commitment: OpenedClaimCommitment,
+    withinMonths: number,
+    expiresInDays: number = 30
+  ): Promise<{ proofId: number; proofData: ZKPProofData }> {
+    const vaccine = commitment.eventType?.startsWith('VACCINATION:') ? commitment.eventType.slice('VACCINATION:'.length) : undefined;
+    if (!vaccine) {
+      throw new Error('Commitment is not a vaccination');
+    }
+    return this.generateEventRecencyProof(
+      commitment,
+      withinMonths,
+      'vaccination',
+      `Patient vaccinated against ${vaccine} within the last ${withinMonths} months`,
+      expiresInDays
+    );
+  }
+
+  /**
+   * Prove a committed negative HIV test within the last withinMonths months
+   */
+  async generateHivNegativeProof(
+    commitment: OpenedClaimCommitment,
+    withinMonths: number = 3,
+    expiresInDays: number = 30
+  ): Promise<{ proofId: number; proofData: ZKPProofData }> {
+    if (commitment.eventType !== 'HIV_NEGATIVE') {
+      throw new Error('Commitment is not a negative HIV test');
+    }
+    return this.generateEventRecencyProof(
+      commitment,
+      withinMonths,
+      'condition',
+      `Patient tested HIV negative within the last ${withinMonths} months`,
+      expiresInDays
+    );
+  }
+
   /**
    * Generate proof for specific medical data fields only
    */
@@ -424,9 +996,14 @@ export class ZKPService {
   /**
    * Revoke a proof
    */
-  async revokeProof(proofId: number, patientDID: string): Promise<boolean> {
+  async revokeProof(proofId: number, patientDID: string, reason?: string): Promise<boolean> {
     try {
-      const success = await storage.revokeZKPProof(proofId, patientDID);
+      const { revoked, merkleRoot } = await proofRevocationRegistry.revokeProofs([proofId], {
+        revokedBy: patientDID,
+        patientDID,
+        reason,
+      });
+      const success = revoked.length > 0;
 
       if (success) {
         // Remove from cache
@@ -440,7 +1017,7 @@ export class ZKPService {
           targetId: proofId.toString(),
           action: "REVOKE",
           outcome: "SUCCESS",
-          metadata: {},
+          metadata: { reason, merkleRoot },
           severity: "info",
         });
       }
@@ -460,6 +1037,34 @@ export class ZKPService {
     }
   }
 
+  /**
+   * Revoke every proof issued to a patient under one visit code
+   */
+  async revokeProofsByVisitCode(visitCode: string, patientDID: string, reason?: string): Promise<number[]> {
+    const codeHash = createHash('sha256').update(visitCode).digest('hex');
+    const codeRows = await storage.getProofCodesByHash(codeHash);
+    const { revoked, merkleRoot, listSize } = await proofRevocationRegistry.revokeProofs(
+      codeRows.map(row => row.proofId),
+      { revokedBy: patientDID, patientDID, reason: reason || 'Visit code revoked by patient' }
+    );
+
+    revoked.forEach(proofId => this.proofCache.delete(proofId.toString()));
+
+    await auditService.logEvent({
+      eventType: "ZKP_VISIT_CODE_REVOKED",
+      actorType: "PATIENT",
+      actorId: patientDID,
+      targetType: "ZKP_PROOF",
+      targetId: codeHash,
+      action: "REVOKE",
+      outcome: revoked.length > 0 ? "SUCCESS" : "FAILURE",
+      metadata: { proofIds: revoked, merkleRoot, listSize },
+      severity: "info",
+    });
+
+    return revoked;
+  }
+
   /**
    * Clear proof cache (useful for memory management)
    */
@@ -477,6 +1082,30 @@ export class ZKPService {
     };
   }
 
+  /**
+   * Verification keys and their fingerprints for every circuit that has been set up,
+   * so browsers can verify proofs without the server
+   */
+  async getVerificationKeys(): Promise<Partial<Record<ZokratesCircuitName, { fingerprint: string; verificationKey: VerificationKey }>>> {
+    const keys: Partial<Record<ZokratesCircuitName, { fingerprint: string; verificationKey: VerificationKey }>> = {};
+    for (const [name, circuit] of Object.entries(ZOKRATES_CIRCUITS) as Array<[ZokratesCircuitName, typeof ZOKRATES_CIRCUITS[ZokratesCircuitName]]>) {
+      if (!fs.existsSync(path.join(__dirname, '../zokrates', circuit.verificationKey))) continue;
+      const verificationKey = await ZKPService.readPrecompiledArtifact(circuit.verificationKey);
+      keys[name] = {
+        fingerprint: createHash('sha256').update(JSON.stringify(verificationKey)).digest('hex'),
+        verificationKey
+      };
+    }
+    return keys;
+  }
+
+  /**
+   * Get ZoKrates job queue statistics (Docker and in-process proving)
+   */
+  getJobQueueStats(): { running: number; queued: number } {
+    return zokratesJobQueue.getStats();
+  }
+
   /**
    * Analyze medical data for proof generation
    */
@@ -609,9 +1238,10 @@ export class ZKPService {
   }
 
   /**
-   * Generate proofs from medical data
+   * Generate proofs from medical data. Claim proofs (ICD-11 chapter, age) are only
+   * made for fields committed with the stored record.
    */
-  async generateProofsFromMedicalData(patientDID: string, formData: any, analysis: any): Promise<any[]> {
+  async generateProofsFromMedicalData(patientDID: string, formData: any, analysis: any, commitments: OpenedClaimCommitment[] = []): Promise<any[]> {
     const proofs: Array<{ proofId: number; type: string; statement: string }> = [];
 
     // Dynamic ICD-11 driven proofs
@@ -630,13 +1260,13 @@ export class ZKPService {
         doctorDID: `doctor-${formData.hospital_id || '001'}`,
         hospital_id: formData.hospital_id || 0,
         visitDate: Date.now()
-      }, 0, propertyCode, propertyValue, undefined, `ICD-11 category: ${categoryLabel}`);
+      }, 30, propertyCode, propertyValue, undefined, `ICD-11 category: ${categoryLabel}`);
       proofs.push({ proofId: proofRes.proofId, type: 'icd_category', statement });
       seenStatements.add(statement);
     };
 
-    const generateContagiousProof = async () => {
-      const statement = 'Patient condition may be contagious';
+    // Boolean property of the record (property code 1 = true), proven once per statement
+    const generateFlagProof = async (type: string, statement: string, publicStatement: string) => {
       if (seenStatements.has(statement)) return;
       const proofRes = await this.generateMedicalRecordProof({
         diagnosis: formData.diagnosis,
@@ -646,13 +1276,32 @@ export class ZKPService {
         doctorDID: `doctor-${formData.hospital_id || '001'}`,
         hospital_id: formData.hospital_id || 0,
         visitDate: Date.now()
-      }, 1, 1, 1, undefined, 'Contagious condition present');
-      proofs.push({ proofId: proofRes.proofId, type: 'contagious_flag', statement });
+      }, 30, 1, 1, undefined, publicStatement);
+      proofs.push({ proofId: proofRes.proofId, type, statement });
+      seenStatements.add(statement);
+    };
+
+    const generateContagiousProof = () =>
+      generateFlagProof('contagious_flag', 'Patient condition may be contagious', 'Contagious condition present');
+
+    // Chapter membership is proven with the icd_chapter circuit when the code is committed in the record
+    const generateChapterProof = async (commitment: OpenedClaimCommitment, chapter: number) => {
+      const statement = `Patient condition falls under ICD-11 chapter ${chapter}`;
+      if (seenStatements.has(statement)) return;
+      const proofRes = await this.generateIcdChapterProof(commitment, [chapter], 30);
+      proofs.push({ proofId: proofRes.proofId, type: 'icd_category', statement });
       seenStatements.add(statement);
     };
 
     // 1) Generate proofs per ICD-11 abstraction (prefer block, then chapter, then title)
     for (const icd of icdList) {
+      const icdCode = icd.code || (icd as any).icd_code;
+      const codeChapter = typeof icdCode === 'string' ? ZKPService.icdChapterOf(icdCode) : undefined;
+      const committed = commitments.find(c => c.field === 'icd_code' && c.value === icdCode?.trim().toUpperCase());
+      if (!icd.block && codeChapter !== undefined && committed) {
+        await generateChapterProof(committed, codeChapter);
+        continue;
+      }
       if (icd.block) {
         await generateCategoryProof(`ICD-11 block ${icd.block}`);
         continue;
@@ -679,13 +1328,30 @@ export class ZKPService {
       }
     }
 
-    // 2) Contagious/widespread flag based on NLP
+    // 2) Adult status from the committed date of birth, when the record carries one
+    const birthDate = commitments.find(c => c.field === 'birth_date');
+    if (birthDate) {
+      try {
+        const proofRes = await this.generateAgeProof(birthDate, 18, 30);
+        proofs.push({ proofId: proofRes.proofId, type: 'age', statement: 'Patient is at least 18 years old' });
+      } catch (error: any) {
+        console.log('[ZKP] Skipping age proof:', error.message);
+      }
+    }
+
+    // 3) Contagious/widespread flag based on NLP
     if (analysis?.isContagious) {
       await generateContagiousProof();
     } else if (icdList.some(i => i.contagious)) {
       await generateContagiousProof();
     }
 
+    // 4) Severe allergy flag from the structured allergy entries, without naming the substance
+    const allergies: Array<{ severity?: string; status?: string }> = formData.clinical?.allergies || [];
+    if (allergies.some(a => a.status !== 'resolved' && (a.severity === 'severe' || a.severity === 'life_threatening'))) {
+      await generateFlagProof('severe_allergy_flag', 'Patient has a severe allergy on record', 'Severe allergy present');
+    }
+
     return proofs;
   }
 
@@ -743,13 +1409,12 @@ export class ZKPService {
   }
 
   /**
-   * Read ZoKrates proof from JSON file
+   * Read ZoKrates proof from a job's JSON file
    */
-  private async readZokratesProofFile(): Promise<any> {
+  private async readZokratesProofFile(jobDir: string): Promise<any> {
     try {
-      const fs = await import('fs/promises');
-      const proofPath = path.join(__dirname, '../zokrates/proof.json');
-      const proofContent = await fs.readFile(proofPath, 'utf8');
+      const proofPath = path.join(jobDir, 'proof.json');
+      const proofContent = await fs.promises.readFile(proofPath, 'utf8');
       const proofData = JSON.parse(proofContent);
       
       // Extract public signals from the proof file
@@ -757,7 +1422,9 @@ export class ZKPService {
       
       return {
         proof: proofData.proof,
-        publicSignals: publicSignals
+        publicSignals: publicSignals,
+        scheme: proofData.scheme,
+        curve: proofData.curve
       };
     } catch (error: any) {
       console.error('[ZKP] Failed to read proof file:', error.message);
@@ -765,6 +1432,19 @@ export class ZKPService {
     }
   }
 
+  /**
+   * Write a stored proof back into the ZoKrates proof.json format for verification
+   */
+  private async writeZokratesProofFile(jobDir: string, proofData: any): Promise<void> {
+    const proofFile = {
+      scheme: proofData.scheme || 'g16',
+      curve: proofData.curve || 'bn128',
+      proof: proofData.proof,
+      inputs: proofData.publicSignals
+    };
+    await fs.promises.writeFile(path.join(jobDir, 'proof.json'), JSON.stringify(proofFile, null, 2));
+  }
+
   /**
    * Parse ZoKrates proof output
    */
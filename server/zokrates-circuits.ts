@@ -0,0 +1,34 @@
+// ZoKrates circuit registry shared by ZKPService and the setup script.
+// All paths are relative to the zokrates/ directory.
+
+export type ZokratesCircuitName = 'medical_proof' | 'age_threshold' | 'icd_chapter' | 'event_recency';
+
+export interface ZokratesCircuit {
+  source: string;
+  program: string;
+  abi: string;
+  provingKey: string;
+  verificationKey: string;
+}
+
+const circuitArtifacts = (name: ZokratesCircuitName): ZokratesCircuit => ({
+  source: `circuits/${name}.zok`,
+  program: `artifacts/${name}_compiled`,
+  abi: `artifacts/${name}/abi.json`,
+  provingKey: `artifacts/${name}/proving.key`,
+  verificationKey: `artifacts/${name}/verification.key`,
+});
+
+export const ZOKRATES_CIRCUITS: Record<ZokratesCircuitName, ZokratesCircuit> = {
+  // Original record-hash circuit keeps its historical abi.json location
+  medical_proof: { ...circuitArtifacts('medical_proof'), abi: 'abi.json' },
+  // "age >= N" range predicate over a committed birth date
+  age_threshold: circuitArtifacts('age_threshold'),
+  // "ICD-11 code is in one of these chapters" set membership
+  icd_chapter: circuitArtifacts('icd_chapter'),
+  // "event (vaccination, negative test) happened within the last N months"
+  event_recency: circuitArtifacts('event_recency'),
+};
+
+// Number of slots in the icd_chapter circuit's public `allowed` array
+export const ICD_CHAPTER_SET_SIZE = 8;
@@ -0,0 +1,69 @@
+import { initialize } from "zokrates-js";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ZOKRATES_CIRCUITS, type ZokratesCircuitName } from "./zokrates-circuits";
+
+/**
+ * ZoKrates Setup Script (pure Node, no Docker or CLI required)
+ * Produces, for every circuit in ZOKRATES_CIRCUITS (or only the ones named
+ * on the command line), the artifacts used by ZKPService:
+ * - compiled program
+ * - abi.json
+ * - proving.key / verification.key
+ *
+ * Existing keys are kept unless --force is passed, because regenerating
+ * them invalidates every proof already stored in the database.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const zokratesDir = path.join(__dirname, "../zokrates");
+
+async function setupZokrates() {
+  console.log("🚀 Starting ZoKrates Setup...\n");
+
+  const force = process.argv.includes("--force");
+  const requested = process.argv.slice(2).filter(arg => !arg.startsWith("--")) as ZokratesCircuitName[];
+  const names = requested.length > 0 ? requested : (Object.keys(ZOKRATES_CIRCUITS) as ZokratesCircuitName[]);
+
+  try {
+    const provider = await initialize();
+
+    for (const name of names) {
+      const circuit = ZOKRATES_CIRCUITS[name];
+      if (!circuit) {
+        throw new Error(`Unknown circuit: ${name}`);
+      }
+      const resolve = (p: string) => path.join(zokratesDir, p);
+
+      console.log(`🔨 Compiling ${name} circuit...`);
+      const source = fs.readFileSync(resolve(circuit.source), "utf8");
+      const artifacts = provider.compile(source, { location: resolve(circuit.source) });
+      fs.mkdirSync(path.dirname(resolve(circuit.provingKey)), { recursive: true });
+      fs.writeFileSync(resolve(circuit.program), Buffer.from(artifacts.program));
+      fs.writeFileSync(resolve(circuit.abi), JSON.stringify(artifacts.abi, null, 2));
+      console.log(`✅ ${name} compiled (${artifacts.constraintCount ?? "unknown"} constraints)`);
+
+      if (fs.existsSync(resolve(circuit.provingKey)) && fs.existsSync(resolve(circuit.verificationKey)) && !force) {
+        console.log(`⚠️  ${name} keys already exist, skipping setup (use --force to regenerate)\n`);
+        continue;
+      }
+
+      console.log(`🔑 Generating ${name} proving and verification keys...`);
+      const keypair = provider.setup(artifacts.program);
+      fs.writeFileSync(resolve(circuit.provingKey), Buffer.from(keypair.pk));
+      fs.writeFileSync(resolve(circuit.verificationKey), JSON.stringify(keypair.vk, null, 2));
+      console.log(`✅ Keys written to zokrates/${path.dirname(circuit.provingKey)}/\n`);
+    }
+
+    console.log("🎉 ZOKRATES SETUP COMPLETE!");
+  } catch (error: any) {
+    console.error("\n❌ Setup failed:", error.message);
+    process.exit(1);
+  }
+}
+
+// Run setup
+setupZokrates();
@@ -0,0 +1,35 @@
+// Documents attached to a patient record, shared by the upload routes and the
+// record views.
+
+export const ATTACHMENT_CATEGORIES = ['lab_report', 'imaging', 'scan', 'referral', 'other'] as const;
+export type AttachmentCategory = typeof ATTACHMENT_CATEGORIES[number];
+
+export const ATTACHMENT_CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  lab_report: 'Lab report',
+  imaging: 'Imaging',
+  scan: 'Scanned document',
+  referral: 'Referral letter',
+  other: 'Other',
+};
+
+export const ATTACHMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/tiff',
+  'application/dicom',
+  'text/plain',
+] as const;
+
+// Imaging studies can be large; uploads are streamed so this only bounds disk use
+export const MAX_ATTACHMENT_BYTES = 200 * 1024 * 1024;
+
+export function isAttachmentCategory(value: unknown): value is AttachmentCategory {
+  return typeof value === 'string' && (ATTACHMENT_CATEGORIES as readonly string[]).includes(value);
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -49,8 +49,8 @@ export const consentAuditTrail = pgTable("consent_audit_trail", {
   patientDID: text("patient_did").notNull(),
   hospitalDID: text("hospital_did").notNull(),
   recordId: integer("record_id"),
-  consentAction: text("consent_action").notNull(), // GRANTED, REVOKED, EXPIRED
-  verificationMethod: text("verification_method").notNull(), // phone, email, wallet
+  consentAction: text("consent_action").notNull(), // GRANTED, REVOKED, EXPIRED, DENIED, DELEGATION_CREATED, DELEGATION_REVOKED
+  verificationMethod: text("verification_method").notNull(), // phone, email, wallet, delegate (metadata.delegationId)
   grantedBy: text("granted_by").notNull(), // Patient contact or name
   expiresAt: timestamp("expires_at"),
   metadata: jsonb("metadata"), // Additional consent details
@@ -0,0 +1,126 @@
+import { z } from "zod";
+
+// Structured clinical sub-records submitted with a visit, shared by the submission
+// form, the record routes and the patient portal.
+
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe', 'life_threatening'] as const;
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  life_threatening: 'Life-threatening',
+};
+
+export const MEDICATION_ROUTES = ['oral', 'iv', 'im', 'subcutaneous', 'topical', 'inhaled', 'rectal', 'other'] as const;
+export type MedicationRoute = typeof MEDICATION_ROUTES[number];
+
+export const MEDICATION_ROUTE_LABELS: Record<MedicationRoute, string> = {
+  oral: 'Oral',
+  iv: 'Intravenous',
+  im: 'Intramuscular',
+  subcutaneous: 'Subcutaneous',
+  topical: 'Topical',
+  inhaled: 'Inhaled',
+  rectal: 'Rectal',
+  other: 'Other',
+};
+
+export const LAB_INTERPRETATIONS = ['normal', 'low', 'high', 'critical'] as const;
+export type LabInterpretation = typeof LAB_INTERPRETATIONS[number];
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+export const allergyEntrySchema = z.object({
+  substance: z.string().trim().min(1),
+  reaction: z.string().trim().optional(),
+  severity: z.enum(ALLERGY_SEVERITIES),
+  status: z.enum(['active', 'resolved']).default('active'),
+});
+
+export const medicationEntrySchema = z.object({
+  name: z.string().trim().min(1),
+  dose: z.string().trim().optional(),
+  route: z.enum(MEDICATION_ROUTES).optional(),
+  frequency: z.string().trim().optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+});
+
+export const vitalSignsEntrySchema = z.object({
+  systolic: z.number().int().min(30).max(300).optional(),
+  diastolic: z.number().int().min(10).max(200).optional(),
+  heartRate: z.number().int().min(10).max(300).optional(),
+  respiratoryRate: z.number().int().min(1).max(100).optional(),
+  temperatureC: z.number().min(25).max(45).optional(),
+  oxygenSaturation: z.number().int().min(0).max(100).optional(),
+  weightKg: z.number().positive().max(500).optional(),
+  heightCm: z.number().positive().max(300).optional(),
+  measuredAt: z.string().datetime().optional(),
+}).refine(v => Object.entries(v).some(([key, value]) => key !== 'measuredAt' && value !== undefined), {
+  message: "At least one vital sign is required",
+});
+
+export const labResultEntrySchema = z.object({
+  testName: z.string().trim().min(1),
+  code: z.string().trim().optional(), // LOINC where known
+  value: z.string().trim().min(1),
+  unit: z.string().trim().optional(),
+  referenceLow: z.number().optional(),
+  referenceHigh: z.number().optional(),
+  referenceText: z.string().trim().optional(),
+  critical: z.boolean().optional(), // Flagged critical by the lab
+  collectedAt: isoDate.optional(),
+});
+
+export const immunizationEntrySchema = z.object({
+  vaccine: z.string().trim().min(1),
+  doseNumber: z.number().int().positive().optional(),
+  lotNumber: z.string().trim().optional(),
+  administeredDate: isoDate,
+  site: z.string().trim().optional(),
+});
+
+export const clinicalDetailsSchema = z.object({
+  allergies: z.array(allergyEntrySchema).max(50).default([]),
+  medications: z.array(medicationEntrySchema).max(50).default([]),
+  vitals: z.array(vitalSignsEntrySchema).max(20).default([]),
+  labResults: z.array(labResultEntrySchema).max(100).default([]),
+  immunizations: z.array(immunizationEntrySchema).max(50).default([]),
+});
+
+export type AllergyEntry = z.infer<typeof allergyEntrySchema>;
+export type MedicationEntry = z.infer<typeof medicationEntrySchema>;
+export type VitalSignsEntry = z.infer<typeof vitalSignsEntrySchema>;
+export type LabResultEntry = z.infer<typeof labResultEntrySchema>;
+export type ImmunizationEntry = z.infer<typeof immunizationEntrySchema>;
+export type ClinicalDetailsInput = z.input<typeof clinicalDetailsSchema>;
+export type ClinicalDetails = z.infer<typeof clinicalDetailsSchema>;
+
+/**
+ * Numeric value of a lab result, or null for qualitative results ("positive", "trace")
+ */
+export function parseLabValue(value: string): number | null {
+  const parsed = Number(value.trim().replace(/^[<>]=?/, ''));
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Interpretation of a lab result against its reference range. Null when there is
+ * nothing to compare against.
+ */
+export function interpretLabResult(entry: Pick<LabResultEntry, 'value' | 'referenceLow' | 'referenceHigh' | 'critical'>): LabInterpretation | null {
+  if (entry.critical) return 'critical';
+  const numeric = parseLabValue(entry.value);
+  if (numeric === null || (entry.referenceLow === undefined && entry.referenceHigh === undefined)) {
+    return null;
+  }
+  if (entry.referenceLow !== undefined && numeric < entry.referenceLow) return 'low';
+  if (entry.referenceHigh !== undefined && numeric > entry.referenceHigh) return 'high';
+  return 'normal';
+}
+
+export function isClinicalDetailsEmpty(details: ClinicalDetails): boolean {
+  return Object.values(details).every(list => list.length === 0);
+}
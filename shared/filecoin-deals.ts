@@ -0,0 +1,30 @@
+// Filecoin deal lifecycle and the per-hospital retention policy that decides
+// when deals are renewed, shared by the admin API and the renewal service.
+import { z } from 'zod';
+
+export const FILECOIN_DEAL_STATUSES = ['active', 'renewed', 'expired', 'terminated'] as const;
+export type FilecoinDealStatus = typeof FILECOIN_DEAL_STATUSES[number];
+
+export const EPOCHS_PER_DAY = 2880; // One Filecoin epoch every 30 seconds
+
+// Filecoin storage deals run between roughly 180 and 540 days
+export const MIN_DEAL_DURATION_DAYS = 180;
+export const MAX_DEAL_DURATION_DAYS = 540;
+export const MAX_RENEWAL_LEAD_DAYS = 90;
+
+export const retentionPolicySchema = z.object({
+  retentionYears: z.number().int().min(1).max(100), // Counted from when the record was submitted
+  dealDurationDays: z.number().int().min(MIN_DEAL_DURATION_DAYS).max(MAX_DEAL_DURATION_DAYS),
+  renewalLeadDays: z.number().int().min(1).max(MAX_RENEWAL_LEAD_DAYS), // How long before expiry a deal is renewed
+  autoRenew: z.boolean(),
+});
+
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+
+// Hospitals that have not set a policy keep records for ten years
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  retentionYears: 10,
+  dealDurationDays: MAX_DEAL_DURATION_DAYS,
+  renewalLeadDays: 30,
+  autoRenew: true,
+};
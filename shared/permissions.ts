@@ -0,0 +1,58 @@
+// Capability-based permissions shared by the server checks and the hospital workspace UI.
+// A user holds the capabilities of their role that their hospital has also enabled.
+
+export const CAPABILITIES = [
+  'submit_records',
+  'lookup_records',
+  'request_consent',
+  'emergency_access',
+  'admin',
+] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  submit_records: 'Submit patient records',
+  lookup_records: 'Look up patient records',
+  request_consent: 'Request patient consent',
+  emergency_access: 'Emergency access',
+  admin: 'Hospital administration',
+};
+
+// Roles a user account can hold; ADMIN is given to the account that registers the hospital
+export const USER_ROLES = [
+  'ADMIN',
+  'CLINICIAN',
+  'RECORD_SUBMITTER',
+  'RECORD_ACCESSOR',
+  'EMERGENCY_AUTHORIZER',
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Roles an admin can invite staff into
+export const STAFF_ROLES = USER_ROLES.filter((role): role is Exclude<UserRole, 'ADMIN'> => role !== 'ADMIN');
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Administrator',
+  CLINICIAN: 'Clinician (Create & Access Records)',
+  RECORD_SUBMITTER: 'Record Submitter',
+  RECORD_ACCESSOR: 'Record Accessor',
+  EMERGENCY_AUTHORIZER: 'Emergency Authorizer',
+};
+
+// Used until a hospital admin overrides a role in the permissions settings
+export const DEFAULT_ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  ADMIN: [...CAPABILITIES],
+  CLINICIAN: ['submit_records', 'lookup_records', 'request_consent'],
+  RECORD_SUBMITTER: ['submit_records'],
+  RECORD_ACCESSOR: ['lookup_records', 'request_consent'],
+  EMERGENCY_AUTHORIZER: ['submit_records', 'lookup_records', 'request_consent', 'emergency_access'],
+};
+
+// Every facility both creates and consumes records unless its admin narrows this
+export const DEFAULT_HOSPITAL_CAPABILITIES: Capability[] = [...CAPABILITIES];
+
+export function isUserRole(role: unknown): role is UserRole {
+  return typeof role === 'string' && (USER_ROLES as readonly string[]).includes(role);
+}
@@ -1,15 +1,16 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, real, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { StoredLocation } from "./storage-providers";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   hospitalName: text("hospital_name").notNull(),
-  hospitalType: text("hospital_type").notNull(), // "A" or "B"
+  role: text("role").notNull().default('CLINICIAN'), // See USER_ROLES in ./permissions
   walletAddress: text("wallet_address"),
   isAdmin: boolean("is_admin").default(false).notNull(),
   email: text("email"),
@@ -62,6 +63,136 @@ export const patientRecords = pgTable("patient_records", {
   hospital_id: integer("hospital_id").notNull(),
   entities: jsonb("entities"), // NLP-extracted entities
   icd_codes: jsonb("icd_codes"), // ICD-11 codes
+  currentVersion: integer("current_version").notNull().default(1), // Bumped by each amendment
+  amendedAt: timestamp("amended_at"),
+});
+
+// Hash-chained history of a record's clinical text. Version 1 is the original
+// submission; the patient_records row always holds the latest version.
+export const recordVersions = pgTable("record_versions", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  version: integer("version").notNull(),
+  visitDate: text("visit_date").notNull(),
+  visitType: text("visit_type"),
+  diagnosis: text("diagnosis").notNull(), // Encrypted like patient_records.diagnosis
+  prescription: text("prescription"),
+  physician: text("physician"),
+  department: text("department"),
+  encKeys: jsonb("enc_keys"),
+  reason: text("reason"), // Null for the original submission
+  contentHash: text("content_hash").notNull(),
+  previousHash: text("previous_hash"),
+  amendedBy: integer("amended_by").notNull().references(() => users.id),
+  hospital_id: integer("hospital_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  recordVersionUnique: unique().on(table.recordId, table.version),
+}));
+
+// Patient-initiated disputes of a record; the submitting hospital accepts them
+// (appending an amendment) or rejects them with a reason
+export const recordCorrectionRequests = pgTable("record_correction_requests", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  patientDID: text("patient_did").notNull(),
+  description: text("description").notNull(),
+  channel: text("channel").notNull().default('portal'), // 'portal', 'ussd'
+  locale: text("locale").notNull().default('en'), // Language the outcome is sent in
+  status: text("status").notNull().default('pending'), // 'pending', 'accepted', 'rejected'
+  resolutionNote: text("resolution_note"),
+  amendmentVersion: integer("amendment_version"), // Record version created on acceptance
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  patientNotifiedAt: timestamp("patient_notified_at"),
+  hospital_id: integer("hospital_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Structured clinical sub-records of a visit (see ./clinical). Kept as plain columns
+// so they can be queried and filtered, unlike the encrypted free-text fields.
+export const recordAllergies = pgTable("record_allergies", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  substance: text("substance").notNull(),
+  reaction: text("reaction"),
+  severity: text("severity").notNull(), // mild, moderate, severe, life_threatening
+  status: text("status").notNull().default('active'), // active, resolved
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const recordMedications = pgTable("record_medications", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  name: text("name").notNull(),
+  dose: text("dose"), // e.g. "500 mg"
+  route: text("route"), // See MEDICATION_ROUTES
+  frequency: text("frequency"), // e.g. "TDS", "every 8 hours"
+  startDate: text("start_date"), // YYYY-MM-DD
+  endDate: text("end_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const recordVitalSigns = pgTable("record_vital_signs", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  systolic: integer("systolic"), // mmHg
+  diastolic: integer("diastolic"),
+  heartRate: integer("heart_rate"), // beats/min
+  respiratoryRate: integer("respiratory_rate"), // breaths/min
+  temperatureC: real("temperature_c"),
+  oxygenSaturation: integer("oxygen_saturation"), // SpO2 %
+  weightKg: real("weight_kg"),
+  heightCm: real("height_cm"),
+  measuredAt: timestamp("measured_at").defaultNow(),
+});
+
+export const recordLabResults = pgTable("record_lab_results", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  testName: text("test_name").notNull(),
+  code: text("code"), // LOINC where known
+  value: text("value").notNull(), // As reported, e.g. "5.4", "positive", "<0.1"
+  numericValue: real("numeric_value"), // Parsed from value when numeric
+  unit: text("unit"),
+  referenceLow: real("reference_low"),
+  referenceHigh: real("reference_high"),
+  referenceText: text("reference_text"),
+  interpretation: text("interpretation"), // normal, low, high, critical
+  collectedAt: text("collected_at"), // YYYY-MM-DD
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const recordImmunizations = pgTable("record_immunizations", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  vaccine: text("vaccine").notNull(),
+  doseNumber: integer("dose_number"),
+  lotNumber: text("lot_number"),
+  administeredDate: text("administered_date").notNull(), // YYYY-MM-DD
+  site: text("site"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Encrypted documents (lab reports, imaging, scans) attached to a patient record
+export const recordAttachments = pgTable("record_attachments", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  category: text("category").notNull().default('other'), // See ATTACHMENT_CATEGORIES
+  sizeBytes: integer("size_bytes").notNull(),
+  sha256: text("sha256").notNull(), // Hash of the plaintext file
+  ipfsCid: text("ipfs_cid"),
+  filecoinCid: text("filecoin_cid"),
+  localPath: text("local_path"),
+  locations: jsonb("locations").$type<StoredLocation[]>(), // Every copy, across the hospital's storage providers
+  encryptionKey: text("encryption_key").notNull(), // DEK wrapped by the key vault
+  iv: text("iv").notNull(),
+  authTag: text("auth_tag").notNull(),
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
+  hospital_id: integer("hospital_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const consentRecords = pgTable("consent_records", {
@@ -75,6 +206,44 @@ export const consentRecords = pgTable("consent_records", {
   hospital_id: integer("hospital_id").notNull(),
 });
 
+// Patient consent grants scoped to records, visit types or a date range.
+// Null scope columns are unrestricted; set columns must all match (AND).
+export const consentGrants = pgTable("consent_grants", {
+  id: serial("id").primaryKey(),
+  patientId: text("patient_id").notNull(), // National ID
+  patientDID: text("patient_did"),
+  grantedTo: integer("granted_to").notNull().references(() => users.id),
+  recordIds: jsonb("record_ids").$type<number[]>(),
+  recordTypes: jsonb("record_types").$type<string[]>(), // Matched against patient_records.visit_type
+  dateFrom: text("date_from"), // YYYY-MM-DD, inclusive, compared to visit_date
+  dateTo: text("date_to"),
+  consentRequestId: integer("consent_request_id"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  hospital_id: integer("hospital_id").notNull(),
+});
+
+// Guardians and caregivers allowed to act on a patient's consent. A delegate is
+// matched by phone number (USSD) or DID (patient portal); powers come from DELEGATION_POWERS.
+export const consentDelegations = pgTable("consent_delegations", {
+  id: serial("id").primaryKey(),
+  patientDID: text("patient_did").notNull(),
+  patientId: text("patient_id").notNull(), // National ID
+  delegatePhone: text("delegate_phone"),
+  delegateDID: text("delegate_did"),
+  delegateName: text("delegate_name").notNull(),
+  relationship: text("relationship").notNull(), // parent, guardian, caregiver, ...
+  powers: jsonb("powers").$type<string[]>().notNull(),
+  authorityType: text("authority_type").notNull(), // 'patient' or 'hospital_admin'
+  authorityReference: text("authority_reference"), // Court order, guardianship letter, ... (required for hospital_admin)
+  createdBy: text("created_by").notNull(), // Patient DID or admin user id
+  hospitalId: text("hospital_id"), // Hospital whose admin recorded it (hospital_admin delegations only)
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Filecoin deals table
 export const filecoinDeals = pgTable("filecoin_deals", {
   id: serial("id").primaryKey(),
@@ -85,7 +254,14 @@ export const filecoinDeals = pgTable("filecoin_deals", {
   dealSize: integer("deal_size").notNull(),
   dealCost: decimal("deal_cost", { precision: 20, scale: 8 }).notNull(),
   dealDuration: integer("deal_duration").notNull(), // in epochs
-  dealStatus: text("deal_status").notNull(), // 'active', 'expired', 'terminated'
+  dealStatus: text("deal_status").notNull(), // See FILECOIN_DEAL_STATUSES; 'renewed' once a newer deal holds the content
+  cid: text("cid"), // Content the deal stores; older rows use the deal ID as the CID
+  recordId: integer("record_id").references(() => patientRecords.id),
+  hospitalId: text("hospital_id"), // Hospital key whose retention policy applies
+  renewedFromId: integer("renewed_from_id").references((): AnyPgColumn => filecoinDeals.id), // Deal this one replaced
+  renewalAttempts: integer("renewal_attempts").notNull().default(0), // Failed attempts; reset by a successful renewal
+  lastRenewalAttemptAt: timestamp("last_renewal_attempt_at"),
+  lastRenewalError: text("last_renewal_error"),
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at").notNull(),
 });
@@ -96,9 +272,11 @@ export const storageLocations = pgTable("storage_locations", {
   contentHash: text("content_hash").notNull(),
   storageType: text("storage_type").notNull(), // 'ipfs', 'filecoin', 'local'
   locationId: text("location_id").notNull(), // CID, Deal ID, or local path
+  providerId: integer("provider_id").references(() => hospitalStorageProviders.id), // Hospital-configured provider holding this copy
+  recordId: integer("record_id").references(() => patientRecords.id), // Record the content belongs to, for attachments too
   status: text("status").notNull(), // 'active', 'archived', 'failed'
   createdAt: timestamp("created_at").defaultNow(),
-  lastVerified: timestamp("last_verified"),
+  lastVerified: timestamp("last_verified"), // Set by the integrity scrubber
 });
 
 // Storage costs table
@@ -158,6 +336,74 @@ export const hospitalStaffInvitations = pgTable("hospital_staff_invitations", {
   acceptedUserId: integer("accepted_user_id"),
 });
 
+// Per-hospital permission settings; role '*' holds the capabilities the hospital itself has enabled
+export const hospitalPermissions = pgTable("hospital_permissions", {
+  id: serial("id").primaryKey(),
+  hospitalId: text("hospital_id").notNull(), // Same hospital key as hospital_staff.hospital_id
+  role: text("role").notNull(),
+  capabilities: jsonb("capabilities").$type<string[]>().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("one_permission_row_per_role").on(table.hospitalId, table.role),
+]);
+
+// Storage backends a hospital keeps encrypted data on, in place of the server-wide defaults
+export const hospitalStorageProviders = pgTable("hospital_storage_providers", {
+  id: serial("id").primaryKey(),
+  hospitalId: text("hospital_id").notNull(), // Same hospital key as hospital_staff.hospital_id
+  kind: text("kind").notNull(), // See STORAGE_PROVIDER_KINDS
+  name: text("name").notNull(),
+  config: jsonb("config").$type<Record<string, unknown>>().notNull(), // Endpoints, bucket, directory; never secrets
+  credentials: text("credentials"), // JSON, wrapped by the key vault
+  priority: integer("priority").notNull().default(10), // Lower is tried first when reading
+  enabled: boolean("enabled").default(true).notNull(), // Disabled providers are still read from, never written to
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// How long a hospital must keep its records, and how their Filecoin deals are renewed until then
+export const hospitalRetentionPolicies = pgTable("hospital_retention_policies", {
+  id: serial("id").primaryKey(),
+  hospitalId: text("hospital_id").notNull().unique(), // Same hospital key as hospital_staff.hospital_id
+  retentionYears: integer("retention_years").notNull(),
+  dealDurationDays: integer("deal_duration_days").notNull(),
+  renewalLeadDays: integer("renewal_lead_days").notNull(),
+  autoRenew: boolean("auto_renew").default(true).notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Duty roster: recurring shifts per department; times are local to the template's timezone
+export const shiftTemplates = pgTable("shift_templates", {
+  id: serial("id").primaryKey(),
+  hospitalId: text("hospital_id").notNull(), // Same hospital key as hospital_staff.hospital_id
+  department: text("department").notNull(),
+  name: text("name").notNull(), // e.g. 'Day', 'Night'
+  startTime: text("start_time").notNull(), // 'HH:MM'
+  endTime: text("end_time").notNull(), // 'HH:MM', earlier than startTime for overnight shifts
+  daysOfWeek: jsonb("days_of_week").$type<number[]>().notNull(), // 0 = Sunday
+  timezone: text("timezone").notNull().default('Africa/Nairobi'), // IANA zone of the hospital
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A staff member working one occurrence of a shift; shiftDate is the local date the shift starts
+export const shiftAssignments = pgTable("shift_assignments", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => shiftTemplates.id),
+  hospitalId: text("hospital_id").notNull(),
+  staffId: text("staff_id").notNull().references(() => hospitalStaff.staffId),
+  shiftDate: text("shift_date").notNull(), // 'YYYY-MM-DD'
+  handoverNotes: text("handover_notes"),
+  handoverAt: timestamp("handover_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("one_assignment_per_shift").on(table.templateId, table.staffId, table.shiftDate),
+]);
+
 // Patient emergency contacts table
 export const patientEmergencyContacts = pgTable("patient_emergency_contacts", {
   id: serial("id").primaryKey(),
@@ -190,6 +436,22 @@ export const emergencyConsentRecords = pgTable("emergency_consent_records", {
   revokedAt: timestamp("revoked_at"),
 });
 
+// Post-emergency review of each break-glass access; one row per emergency consent record
+export const emergencyAccessReviews = pgTable("emergency_access_reviews", {
+  id: serial("id").primaryKey(),
+  emergencyConsentId: text("emergency_consent_id").notNull().unique().references(() => emergencyConsentRecords.id),
+  status: text("status").notNull().default('pending'), // 'pending', 'approved', 'flagged'
+  dueAt: timestamp("due_at").notNull(),
+  reviewerId: integer("reviewer_id").references(() => users.id),
+  reviewerNotes: text("reviewer_notes"),
+  decidedAt: timestamp("decided_at"),
+  remindersSent: integer("reminders_sent").default(0).notNull(),
+  lastReminderAt: timestamp("last_reminder_at"),
+  patientNotifiedAt: timestamp("patient_notified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  hospital_id: integer("hospital_id"),
+});
+
 // ZKP Proofs table for privacy-preserving medical verification
 export const zkpProofs = pgTable("zkp_proofs", {
   id: serial("id").primaryKey(),
@@ -219,6 +481,33 @@ export const zkpVerifications = pgTable("zkp_verifications", {
   emergencyAccess: boolean("emergency_access").default(false).notNull(),
 });
 
+// ZKP proof revocation registry; each row carries the Merkle root of the list after it was appended
+export const zkpProofRevocations = pgTable("zkp_proof_revocations", {
+  id: serial("id").primaryKey(),
+  proofId: integer("proof_id").notNull().unique().references(() => zkpProofs.id),
+  proofHash: text("proof_hash").notNull(), // sha256 of the stored proof data
+  patientDID: text("patient_did").notNull(),
+  reason: text("reason"),
+  revokedBy: text("revoked_by").notNull(), // Patient DID, hospital user or 'system'
+  merkleRoot: text("merkle_root").notNull(),
+  listSize: integer("list_size").notNull(),
+  revokedAt: timestamp("revoked_at").defaultNow(),
+});
+
+// Salted Poseidon commitments to record fields, made when the record is submitted.
+// Claim proofs (age, ICD-11 chapter, event recency) are only generated against these,
+// so a proof always speaks about a value the hospital actually recorded.
+export const recordClaimCommitments = pgTable("record_claim_commitments", {
+  id: serial("id").primaryKey(),
+  recordId: integer("record_id").notNull().references(() => patientRecords.id),
+  patientDID: text("patient_did").notNull(),
+  field: text("field").notNull(), // 'birth_date', 'icd_code' or 'event'
+  encryptedClaim: text("encrypted_claim").notNull(), // Value, salt and event type, encrypted like diagnosis
+  encryptionKey: text("encryption_key").notNull(), // Its data key, wrapped by the key vault
+  commitment: text("commitment").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const usersRelations = relations(users, ({ many }) => ({
   submittedRecords: many(patientRecords),
   consentRecords: many(consentRecords),
@@ -292,6 +581,35 @@ export const insertPatientRecordSchema = createInsertSchema(patientRecords).omit
   storageCost: true,
   storageMetadata: true,
   hospital_id: true,
+  currentVersion: true,
+  amendedAt: true,
+});
+
+// Corrected clinical fields plus the reason; omitted fields keep their current value
+export const recordAmendmentSchema = insertPatientRecordSchema.pick({
+  visitDate: true,
+  visitType: true,
+  diagnosis: true,
+  prescription: true,
+  physician: true,
+  department: true,
+}).partial().extend({
+  visitDate: z.string().min(1).optional(),
+  diagnosis: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(5, "Explain why the record is being amended").max(1000),
+});
+
+export const recordCorrectionRequestSchema = z.object({
+  description: z.string().trim().min(10, "Describe what is wrong with the record").max(1000),
+});
+
+// Accepting applies the hospital's corrected fields; the patient's request supplies the amendment reason
+export const acceptCorrectionRequestSchema = recordAmendmentSchema.omit({ reason: true }).extend({
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const rejectCorrectionRequestSchema = z.object({
+  reason: z.string().trim().min(5, "Explain why the request is rejected").max(1000),
 });
 
 export const insertConsentRecordSchema = createInsertSchema(consentRecords).omit({
@@ -299,6 +617,18 @@ export const insertConsentRecordSchema = createInsertSchema(consentRecords).omit
   accessedAt: true,
 });
 
+export const insertConsentGrantSchema = createInsertSchema(consentGrants).omit({
+  id: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertConsentDelegationSchema = createInsertSchema(consentDelegations).omit({
+  id: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
 export const insertFilecoinDealSchema = createInsertSchema(filecoinDeals).omit({
   id: true,
   createdAt: true,
@@ -335,6 +665,21 @@ export const insertEmergencyConsentRecordSchema = createInsertSchema(emergencyCo
   grantedAt: true,
 });
 
+export const insertEmergencyAccessReviewSchema = createInsertSchema(emergencyAccessReviews).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShiftTemplateSchema = createInsertSchema(shiftTemplates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShiftAssignmentSchema = createInsertSchema(shiftAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertZKPProofSchema = createInsertSchema(zkpProofs).omit({
   id: true,
   createdAt: true,
@@ -348,6 +693,11 @@ export const insertZKPVerificationSchema = createInsertSchema(zkpVerifications).
   verifiedAt: true,
 });
 
+export const insertZKPProofRevocationSchema = createInsertSchema(zkpProofRevocations).omit({
+  id: true,
+  revokedAt: true,
+});
+
 // Feedback table for MediBridge airtime rewards
 export const feedback = pgTable("feedback", {
   id: serial("id").primaryKey(),
@@ -377,6 +727,10 @@ export type InsertPatientRecord = z.infer<typeof insertPatientRecordSchema>;
 export type PatientRecord = typeof patientRecords.$inferSelect;
 export type InsertConsentRecord = z.infer<typeof insertConsentRecordSchema>;
 export type ConsentRecord = typeof consentRecords.$inferSelect;
+export type InsertConsentGrant = z.infer<typeof insertConsentGrantSchema>;
+export type ConsentGrant = typeof consentGrants.$inferSelect;
+export type InsertConsentDelegation = z.infer<typeof insertConsentDelegationSchema>;
+export type ConsentDelegation = typeof consentDelegations.$inferSelect;
 export type InsertFilecoinDeal = z.infer<typeof insertFilecoinDealSchema>;
 export type FilecoinDeal = typeof filecoinDeals.$inferSelect;
 export type InsertStorageLocation = z.infer<typeof insertStorageLocationSchema>;
@@ -391,10 +745,51 @@ export type InsertPatientEmergencyContact = z.infer<typeof insertPatientEmergenc
 export type PatientEmergencyContact = typeof patientEmergencyContacts.$inferSelect;
 export type InsertEmergencyConsentRecord = z.infer<typeof insertEmergencyConsentRecordSchema>;
 export type EmergencyConsentRecordSchema = typeof emergencyConsentRecords.$inferSelect;
+export type InsertEmergencyAccessReview = z.infer<typeof insertEmergencyAccessReviewSchema>;
+export type EmergencyAccessReview = typeof emergencyAccessReviews.$inferSelect;
+export type InsertRecordAllergy = typeof recordAllergies.$inferInsert;
+export type RecordAllergy = typeof recordAllergies.$inferSelect;
+export type InsertRecordMedication = typeof recordMedications.$inferInsert;
+export type RecordMedication = typeof recordMedications.$inferSelect;
+export type InsertRecordVitalSigns = typeof recordVitalSigns.$inferInsert;
+export type RecordVitalSigns = typeof recordVitalSigns.$inferSelect;
+export type InsertRecordLabResult = typeof recordLabResults.$inferInsert;
+export type RecordLabResult = typeof recordLabResults.$inferSelect;
+export type InsertRecordImmunization = typeof recordImmunizations.$inferInsert;
+export type RecordImmunization = typeof recordImmunizations.$inferSelect;
+export type RecordClinicalDetails = {
+  allergies: RecordAllergy[];
+  medications: RecordMedication[];
+  vitals: RecordVitalSigns[];
+  labResults: RecordLabResult[];
+  immunizations: RecordImmunization[];
+};
+export type RecordAmendment = z.infer<typeof recordAmendmentSchema>;
+export type InsertRecordVersion = typeof recordVersions.$inferInsert;
+export type RecordVersion = typeof recordVersions.$inferSelect;
+export type InsertRecordCorrectionRequest = typeof recordCorrectionRequests.$inferInsert;
+export type RecordCorrectionRequest = typeof recordCorrectionRequests.$inferSelect;
+export type AcceptCorrectionRequest = z.infer<typeof acceptCorrectionRequestSchema>;
+export type InsertRecordAttachment = typeof recordAttachments.$inferInsert;
+export type RecordAttachment = typeof recordAttachments.$inferSelect;
+export type InsertHospitalPermission = typeof hospitalPermissions.$inferInsert;
+export type HospitalPermission = typeof hospitalPermissions.$inferSelect;
+export type InsertHospitalStorageProvider = typeof hospitalStorageProviders.$inferInsert;
+export type HospitalStorageProvider = typeof hospitalStorageProviders.$inferSelect;
+export type InsertHospitalRetentionPolicy = typeof hospitalRetentionPolicies.$inferInsert;
+export type HospitalRetentionPolicy = typeof hospitalRetentionPolicies.$inferSelect;
+export type InsertShiftTemplate = typeof shiftTemplates.$inferInsert;
+export type ShiftTemplate = typeof shiftTemplates.$inferSelect;
+export type InsertShiftAssignment = typeof shiftAssignments.$inferInsert;
+export type ShiftAssignment = typeof shiftAssignments.$inferSelect;
 export type InsertZKPProof = z.infer<typeof insertZKPProofSchema>;
 export type ZKPProof = typeof zkpProofs.$inferSelect;
 export type InsertZKPVerification = z.infer<typeof insertZKPVerificationSchema>;
 export type ZKPVerification = typeof zkpVerifications.$inferSelect;
+export type InsertZKPProofRevocation = z.infer<typeof insertZKPProofRevocationSchema>;
+export type ZKPProofRevocation = typeof zkpProofRevocations.$inferSelect;
+export type InsertRecordClaimCommitment = typeof recordClaimCommitments.$inferInsert;
+export type RecordClaimCommitment = typeof recordClaimCommitments.$inferSelect;
 export type InsertHospitalStaffInvitation = typeof hospitalStaffInvitations.$inferInsert;
 export type HospitalStaffInvitation = typeof hospitalStaffInvitations.$inferSelect;
 
@@ -403,7 +798,7 @@ export const ussdSessions = pgTable("ussd_sessions", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull().unique(),
   phoneNumber: text("phone_number").notNull(),
-  language: text("language").notNull().default('en'), // 'en' or 'sw'
+  language: text("language").notNull().default('en'), // Locale from server/message-catalog: en, sw, ki, luo, so, fr
   currentStep: text("current_step"), // Current menu step
   sessionData: jsonb("session_data"), // Store user selections
   startedAt: timestamp("started_at").defaultNow(),
@@ -428,7 +823,7 @@ export const ussdAnalytics = pgTable("ussd_analytics", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull(),
   phoneNumber: text("phone_number").notNull(),
-  eventType: text("event_type").notNull(), // 'PROOF_SHARED', 'EMERGENCY_PROOF', 'PROOF_RENEWED', 'FEEDBACK_SUBMITTED'
+  eventType: text("event_type").notNull(), // 'PROOF_SHARED', 'EMERGENCY_PROOF', 'PROOF_RENEWED', 'FEEDBACK_SUBMITTED', 'PIN_SET', 'PIN_FAILED', 'PIN_LOCKED', 'PIN_RESET_REQUESTED', 'PIN_RESET', 'CORRECTION_REQUESTED'
   eventData: jsonb("event_data"), // Additional event data
   language: text("language").notNull().default('en'),
   timestamp: timestamp("timestamp").defaultNow(),
@@ -436,6 +831,17 @@ export const ussdAnalytics = pgTable("ussd_analytics", {
   errorMessage: text("error_message"),
 });
 
+// USSD PINs guarding proof sharing and "My Proofs" (one per phone number)
+export const ussdPins = pgTable("ussd_pins", {
+  id: serial("id").primaryKey(),
+  phoneNumber: text("phone_number").notNull().unique(),
+  pinHash: text("pin_hash").notNull(), // scrypt hash, same format as staff passwords
+  failedAttempts: integer("failed_attempts").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const proofCodes = pgTable("proof_codes", {
   id: serial("id").primaryKey(),
   codeHash: text("code_hash").notNull().unique(),
@@ -453,7 +859,29 @@ export const secureKeyStore = pgTable("secure_key_store", {
   iv: text("iv").notNull(),
   authTag: text("auth_tag").notNull(),
   patientSalt: text("patient_salt").notNull(),
+  wrappedDek: text("wrapped_dek"), // Data key the patient key is encrypted with, wrapped by the key backend; null for keys derived from MASTER_KEY
+  keyBackend: text("key_backend").default('local').notNull(), // See KEY_ENCRYPTION_BACKEND_KINDS
+  keyVersion: integer("key_version").default(1).notNull(), // Version of the backend's key encryption key
   createdAt: timestamp("created_at").defaultNow(),
   lastAccessed: timestamp("last_accessed"),
   accessCount: integer("access_count").default(0).notNull(),
 });
+
+// One row per master key rotation or key backend change; the re-wrap job resumes from stage and cursor after a restart
+export const masterKeyRotations = pgTable("master_key_rotations", {
+  id: serial("id").primaryKey(),
+  backend: text("backend").default('local').notNull(), // Key encryption backend keys are moved to
+  targetVersion: integer("target_version").notNull(),
+  status: text("status").notNull(), // 'running', 'completed', 'incomplete' (keys left to retry), 'failed'
+  stage: text("stage").notNull(), // Kind of wrapped key being migrated, see KEY_ROTATION_STAGES
+  cursor: text("cursor"), // Last row handled in the current stage
+  progress: jsonb("progress").$type<Record<string, { migrated: number; failed: number }>>().notNull(),
+  lastError: text("last_error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type SecureKeyEntry = typeof secureKeyStore.$inferSelect;
+export type InsertMasterKeyRotation = typeof masterKeyRotations.$inferInsert;
+export type MasterKeyRotation = typeof masterKeyRotations.$inferSelect;
@@ -0,0 +1,90 @@
+// Backends that encrypted records and attachments can be stored on, shared by the
+// admin storage settings and the storage services.
+import { z } from 'zod';
+
+export const STORAGE_PROVIDER_KINDS = ['pinata', 'kubo', 's3', 'local'] as const;
+export type StorageProviderKind = typeof STORAGE_PROVIDER_KINDS[number];
+
+export const STORAGE_PROVIDER_LABELS: Record<StorageProviderKind, string> = {
+  pinata: 'Pinata (hosted IPFS)',
+  kubo: 'IPFS node (Kubo)',
+  s3: 'S3-compatible object store',
+  local: 'Local disk',
+};
+
+// Where one copy of a stored object lives. providerId is the hospital's configured
+// provider; copies written by the server-wide defaults have none.
+export interface StoredLocation {
+  provider: StorageProviderKind;
+  providerId?: number;
+  ref: string; // CID for IPFS providers, object key or file name otherwise
+}
+
+export const pinataProviderSchema = z.object({
+  kind: z.literal('pinata'),
+  config: z.object({
+    gatewayUrl: z.string().url().optional(),
+  }),
+  credentials: z.union([
+    z.object({ jwt: z.string().min(1) }),
+    z.object({ apiKey: z.string().min(1), apiSecret: z.string().min(1) }),
+  ]),
+});
+
+export const kuboProviderSchema = z.object({
+  kind: z.literal('kubo'),
+  config: z.object({
+    apiUrl: z.string().url(), // e.g. http://ipfs.hospital.local:5001
+  }),
+  credentials: z.object({
+    authorization: z.string().min(1).optional(), // Sent as the Authorization header
+  }).optional(),
+});
+
+export const s3ProviderSchema = z.object({
+  kind: z.literal('s3'),
+  config: z.object({
+    endpoint: z.string().url().optional(), // Omit for AWS; set for MinIO and other compatible stores
+    region: z.string().min(1).default('us-east-1'),
+    bucket: z.string().min(3),
+    prefix: z.string().optional(),
+  }),
+  credentials: z.object({
+    accessKeyId: z.string().min(1),
+    secretAccessKey: z.string().min(1),
+  }),
+});
+
+export const localProviderSchema = z.object({
+  kind: z.literal('local'),
+  config: z.object({
+    directory: z.string().min(1),
+  }),
+  credentials: z.undefined().optional(),
+});
+
+export const storageProviderSettingsSchema = z.discriminatedUnion('kind', [
+  pinataProviderSchema,
+  kuboProviderSchema,
+  s3ProviderSchema,
+  localProviderSchema,
+]);
+export type StorageProviderSettings = z.infer<typeof storageProviderSettingsSchema>;
+
+export const createStorageProviderSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  priority: z.number().int().min(0).max(100).default(10),
+}).and(storageProviderSettingsSchema);
+
+// Kind is fixed once created; credentials are only replaced when sent
+export const updateStorageProviderSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  priority: z.number().int().min(0).max(100).optional(),
+  enabled: z.boolean().optional(),
+  config: z.record(z.unknown()).optional(),
+  credentials: z.record(z.unknown()).optional(),
+});
+
+export function isStorageProviderKind(value: unknown): value is StorageProviderKind {
+  return typeof value === 'string' && (STORAGE_PROVIDER_KINDS as readonly string[]).includes(value);
+}